@@ -0,0 +1,190 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createPublicClient, createWalletClient, erc20Abi, http, type Abi, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  findEvmTokenAuthorizationTransfer,
+  getEvmBlockNumber,
+  microsToTokenUnits,
+  submitEvmTokenTransfer
+} from './adapter.js';
+
+// Default anvil accounts 0-2.
+const SUBMITTER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80' as Hex;
+const HOLDER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d' as Hex;
+const RECIPIENT = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a').address;
+
+const ANVIL_RPC_URL = process.env.ANVIL_RPC_URL ?? '';
+// Built with `forge build --root contracts`.
+const ARTIFACT_PATH = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../../contracts/out/MockEIP3009Token.sol/MockEIP3009Token.json'
+);
+const PLAIN_ARTIFACT_PATH = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../../contracts/out/MockUSDC.sol/MockUSDC.json'
+);
+
+const describeIfAnvil =
+  ANVIL_RPC_URL && fs.existsSync(ARTIFACT_PATH) && fs.existsSync(PLAIN_ARTIFACT_PATH) ? describe : describe.skip;
+
+describe('micros to token units', () => {
+  it('scales protocol micros to the token decimals', () => {
+    expect(microsToTokenUnits(1_500_000n, 6)).toBe(1_500_000n);
+    expect(microsToTokenUnits(1_500_000n, 18)).toBe(1_500_000_000_000_000_000n);
+    expect(microsToTokenUnits(1_500_000n, 2)).toBe(150n);
+    expect(() => microsToTokenUnits(1_500_001n, 2)).toThrow('not representable with 2 token decimals');
+  });
+});
+
+describeIfAnvil('erc-20 payouts against anvil', () => {
+  // Vitest still collects skipped suites, and viem refuses to build a transport without a URL.
+  const rpcUrl = ANVIL_RPC_URL || 'http://127.0.0.1:8545';
+  const publicClient = createPublicClient({ transport: http(rpcUrl) });
+  const submitter = createWalletClient({ account: privateKeyToAccount(SUBMITTER_KEY), transport: http(rpcUrl) });
+  const holder = createWalletClient({ account: privateKeyToAccount(HOLDER_KEY), transport: http(rpcUrl) });
+  let artifact: { abi: Abi; bytecode: { object: Hex } };
+  let plainArtifact: { abi: Abi; bytecode: { object: Hex } };
+
+  beforeAll(() => {
+    artifact = JSON.parse(fs.readFileSync(ARTIFACT_PATH, 'utf8'));
+    plainArtifact = JSON.parse(fs.readFileSync(PLAIN_ARTIFACT_PATH, 'utf8'));
+  });
+
+  async function deployToken(decimals: number): Promise<Address> {
+    const hash = await submitter.deployContract({
+      abi: artifact.abi,
+      bytecode: artifact.bytecode.object,
+      args: [decimals],
+      chain: null
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress as Address;
+  }
+
+  async function mint(token: Address, to: Address, amount: bigint): Promise<void> {
+    const hash = await submitter.writeContract({
+      address: token,
+      abi: artifact.abi,
+      functionName: 'mint',
+      args: [to, amount],
+      chain: null
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  async function balanceOf(token: Address, owner: Address): Promise<bigint> {
+    return publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [owner] });
+  }
+
+  it('transfers micros scaled to the token decimals and verifies the Transfer log', async () => {
+    const token = await deployToken(18);
+    await mint(token, submitter.account.address, 10n ** 19n);
+
+    const result = await submitEvmTokenTransfer({
+      rpcUrl: rpcUrl,
+      privateKey: SUBMITTER_KEY,
+      token,
+      recipient: RECIPIENT,
+      amountMicros: 2_500_000n
+    });
+    expect(result).toMatchObject({ method: 'transfer', decimals: 18, value: 2_500_000_000_000_000_000n });
+    expect(await balanceOf(token, RECIPIENT)).toBe(2_500_000_000_000_000_000n);
+
+    await expect(
+      submitEvmTokenTransfer({
+        rpcUrl: rpcUrl,
+        privateKey: SUBMITTER_KEY,
+        token,
+        recipient: RECIPIENT,
+        amountMicros: 10_000_000n
+      })
+    ).rejects.toThrow('insufficient token balance');
+  });
+
+  it('pays from an approved holder only within its allowance', async () => {
+    const token = await deployToken(6);
+    await mint(token, holder.account.address, 5_000_000n);
+    const request = {
+      rpcUrl: rpcUrl,
+      privateKey: SUBMITTER_KEY,
+      token,
+      recipient: RECIPIENT,
+      amountMicros: 1_000_000n,
+      from: holder.account.address
+    };
+
+    await expect(submitEvmTokenTransfer(request)).rejects.toThrow('insufficient token allowance');
+    const approval = await holder.writeContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [submitter.account.address, 1_000_000n],
+      chain: null
+    });
+    await publicClient.waitForTransactionReceipt({ hash: approval });
+
+    const result = await submitEvmTokenTransfer(request);
+    expect(result).toMatchObject({ method: 'transferFrom', from: holder.account.address, value: 1_000_000n });
+    expect(await balanceOf(token, holder.account.address)).toBe(4_000_000n);
+  });
+
+  it('relays an EIP-3009 authorization signed by the holder once per nonce', async () => {
+    const token = await deployToken(6);
+    await mint(token, holder.account.address, 5_000_000n);
+    const fromBlock = await getEvmBlockNumber(rpcUrl);
+    const request = {
+      rpcUrl: rpcUrl,
+      privateKey: SUBMITTER_KEY,
+      authorizerPrivateKey: HOLDER_KEY,
+      nonce: `0x${'ab'.repeat(32)}` as Hex,
+      token,
+      recipient: RECIPIENT,
+      amountMicros: 750_000n
+    };
+
+    const result = await submitEvmTokenTransfer(request);
+    expect(result).toMatchObject({ method: 'transferWithAuthorization', from: holder.account.address, value: 750_000n });
+    expect(await balanceOf(token, RECIPIENT)).toBe(750_000n);
+    await expect(submitEvmTokenTransfer(request)).rejects.toThrow('EIP-3009 nonce already used');
+
+    const lookup = { rpcUrl: rpcUrl, token, authorizer: holder.account.address, fromBlock };
+    expect(await findEvmTokenAuthorizationTransfer({ ...lookup, nonce: request.nonce })).toMatchObject({
+      txHash: result.txHash,
+      to: RECIPIENT,
+      value: 750_000n
+    });
+    expect(await findEvmTokenAuthorizationTransfer({ ...lookup, nonce: `0x${'cd'.repeat(32)}` })).toBeNull();
+  });
+
+  it('refuses a token without EIP-3009 when an authorizer is configured', async () => {
+    const hash = await submitter.deployContract({
+      abi: plainArtifact.abi,
+      bytecode: plainArtifact.bytecode.object,
+      chain: null
+    });
+    const token = (await publicClient.waitForTransactionReceipt({ hash })).contractAddress as Address;
+    await mint(token, holder.account.address, 5_000_000n);
+    await mint(token, submitter.account.address, 5_000_000n);
+    const fromBlock = await getEvmBlockNumber(rpcUrl);
+    const nonce = `0x${'ef'.repeat(32)}` as Hex;
+
+    await expect(
+      submitEvmTokenTransfer({
+        rpcUrl: rpcUrl,
+        privateKey: SUBMITTER_KEY,
+        authorizerPrivateKey: HOLDER_KEY,
+        nonce,
+        token,
+        recipient: RECIPIENT,
+        amountMicros: 750_000n
+      })
+    ).rejects.toThrow('does not implement EIP-3009');
+    expect(await balanceOf(token, RECIPIENT)).toBe(0n);
+    expect(
+      await findEvmTokenAuthorizationTransfer({ rpcUrl: rpcUrl, token, authorizer: holder.account.address, nonce, fromBlock })
+    ).toBeNull();
+  });
+});
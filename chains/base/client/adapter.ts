@@ -1,6 +1,69 @@
-import { createPublicClient, createWalletClient, http, type Address, type Hex } from 'viem';
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  erc20Abi,
+  http,
+  parseEventLogs,
+  parseSignature,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient
+} from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 
+/** Protocol amounts are USDC micros: 6 decimals. */
+const MICROS_DECIMALS = 6;
+
+const eip3009Abi = [
+  {
+    type: 'function',
+    name: 'authorizationState',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'authorizer', type: 'address' },
+      { name: 'nonce', type: 'bytes32' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  },
+  {
+    type: 'function',
+    name: 'transferWithAuthorization',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' }
+    ],
+    outputs: []
+  },
+  {
+    type: 'function',
+    name: 'version',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }]
+  },
+  {
+    type: 'event',
+    name: 'AuthorizationUsed',
+    inputs: [
+      { name: 'authorizer', type: 'address', indexed: true },
+      { name: 'nonce', type: 'bytes32', indexed: true }
+    ]
+  }
+] as const;
+
 export interface EvmNativeTransferRequest {
   rpcUrl: string;
   privateKey: Hex;
@@ -9,6 +72,52 @@ export interface EvmNativeTransferRequest {
   chainId?: number;
 }
 
+export type EvmTokenTransferMethod = 'transfer' | 'transferFrom' | 'transferWithAuthorization';
+
+export interface EvmTokenTransferRequest {
+  rpcUrl: string;
+  /** Submits the transaction and pays gas. */
+  privateKey: Hex;
+  token: Address;
+  recipient: Address;
+  amountMicros: bigint;
+  chainId?: number;
+  /** Token holder that approved the submitter; pays through `transferFrom`. */
+  from?: Address;
+  /**
+   * Token holder key for EIP-3009 `transferWithAuthorization`. The holder needs no gas; the
+   * submitter relays the signed authorization. Tokens without EIP-3009 are refused rather than
+   * paid through `transfer`, so the nonce always records whether the payout happened.
+   */
+  authorizerPrivateKey?: Hex;
+  /** 32-byte EIP-3009 nonce. Relayers pass the `authId` so an authorization pays at most once. */
+  nonce?: Hex;
+  /** Lifetime of the EIP-3009 authorization (default 300s). */
+  validForSeconds?: number;
+}
+
+export interface EvmTokenTransferResult {
+  txHash: Hex;
+  method: EvmTokenTransferMethod;
+  token: Address;
+  from: Address;
+  to: Address;
+  /** Transferred amount in token base units. */
+  value: bigint;
+  decimals: number;
+  /** Index of the verified `Transfer` log in the receipt. */
+  logIndex: number;
+}
+
+export interface EvmAuthorizationLookupRequest {
+  rpcUrl: string;
+  token: Address;
+  authorizer: Address;
+  nonce: Hex;
+  /** Block to search from; a block at or before the payout's submission. */
+  fromBlock: bigint;
+}
+
 function sanitizePrivateKey(raw: string): Hex {
   const trimmed = raw.trim().replace(/^['"]|['"]$/g, '').trim();
   if (!/^0x[0-9a-fA-F]{64}$/.test(trimmed)) {
@@ -19,6 +128,62 @@ function sanitizePrivateKey(raw: string): Hex {
   return trimmed.toLowerCase() as Hex;
 }
 
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Minimal chain for `chainId`, so viem checks the RPC serves that chain before sending. */
+function chainFor(chainId: number | undefined, rpcUrl: string): Chain | undefined {
+  if (!chainId) return undefined;
+  return defineChain({
+    id: chainId,
+    name: `eip155:${chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } }
+  });
+}
+
+/**
+ * EIP-3009 `authorizationState(authorizer, nonce)`, or null when the token has no such function
+ * (the call reverts or returns no data). RPC failures still throw.
+ */
+async function readAuthorizationState(
+  publicClient: PublicClient,
+  token: Address,
+  authorizer: Address,
+  nonce: Hex
+): Promise<boolean | null> {
+  try {
+    return await publicClient.readContract({
+      address: token,
+      abi: eip3009Abi,
+      functionName: 'authorizationState',
+      args: [authorizer, nonce]
+    });
+  } catch (error) {
+    const unsupported =
+      error instanceof BaseError &&
+      error.walk((cause) => cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError);
+    if (unsupported) return null;
+    throw error;
+  }
+}
+
+/** Converts protocol micros to token base units; rejects amounts the token cannot represent. */
+export function microsToTokenUnits(amountMicros: bigint, decimals: number): bigint {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 77) {
+    throw new Error(`invalid token decimals: ${decimals}`);
+  }
+  if (decimals >= MICROS_DECIMALS) {
+    return amountMicros * 10n ** BigInt(decimals - MICROS_DECIMALS);
+  }
+  const divisor = 10n ** BigInt(MICROS_DECIMALS - decimals);
+  if (amountMicros % divisor !== 0n) {
+    throw new Error(`amountMicros ${amountMicros} is not representable with ${decimals} token decimals`);
+  }
+  return amountMicros / divisor;
+}
+
 export async function submitEvmNativeTransfer(
   request: EvmNativeTransferRequest
 ): Promise<{ txHash: Hex }> {
@@ -36,7 +201,7 @@ export async function submitEvmNativeTransfer(
     account,
     to: request.recipient,
     value: request.amountWei,
-    chain: request.chainId ? ({ id: request.chainId } as any) : undefined
+    chain: chainFor(request.chainId, request.rpcUrl)
   });
 
   const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
@@ -46,3 +211,230 @@ export async function submitEvmNativeTransfer(
 
   return { txHash };
 }
+
+/**
+ * Pays `amountMicros` of an ERC-20 token, scaled to the token's decimals. With an
+ * `authorizerPrivateKey` the holder signs an EIP-3009 `transferWithAuthorization` and tokens
+ * without EIP-3009 are refused; otherwise the submitter calls `transfer`, or `transferFrom`
+ * when `from` names another holder. Balance (and allowance) are checked before sending, and
+ * the receipt must contain the matching `Transfer` log.
+ */
+export async function submitEvmTokenTransfer(
+  request: EvmTokenTransferRequest
+): Promise<EvmTokenTransferResult> {
+  const account = privateKeyToAccount(sanitizePrivateKey(String(request.privateKey)));
+  const authorizer = request.authorizerPrivateKey
+    ? privateKeyToAccount(sanitizePrivateKey(String(request.authorizerPrivateKey)))
+    : undefined;
+  const chain = chainFor(request.chainId, request.rpcUrl);
+  const publicClient = createPublicClient({
+    transport: http(request.rpcUrl)
+  });
+  const walletClient = createWalletClient({
+    account,
+    transport: http(request.rpcUrl)
+  });
+
+  const decimals = await publicClient.readContract({
+    address: request.token,
+    abi: erc20Abi,
+    functionName: 'decimals'
+  });
+  const value = microsToTokenUnits(request.amountMicros, decimals);
+  if (value <= 0n) {
+    throw new Error('token transfer amount must be > 0');
+  }
+
+  let method: EvmTokenTransferMethod = request.from && !sameAddress(request.from, account.address) ? 'transferFrom' : 'transfer';
+  let holder: Address = method === 'transferFrom' ? (request.from as Address) : account.address;
+  if (authorizer) {
+    if (!request.nonce || !/^0x[0-9a-fA-F]{64}$/.test(request.nonce)) {
+      throw new Error('EIP-3009 transfers require a 32-byte nonce');
+    }
+    const used = await readAuthorizationState(publicClient, request.token, authorizer.address, request.nonce);
+    if (used === null) {
+      throw new Error(`token ${request.token} does not implement EIP-3009; refusing to pay without the authorization nonce`);
+    }
+    if (used) {
+      throw new Error(`EIP-3009 nonce already used: ${request.nonce}`);
+    }
+    method = 'transferWithAuthorization';
+    holder = authorizer.address;
+  }
+
+  const balance = await publicClient.readContract({
+    address: request.token,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [holder]
+  });
+  if (balance < value) {
+    throw new Error(`insufficient token balance: holder=${holder} balance=${balance} required=${value}`);
+  }
+  if (method === 'transferFrom') {
+    const allowance = await publicClient.readContract({
+      address: request.token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [holder, account.address]
+    });
+    if (allowance < value) {
+      throw new Error(`insufficient token allowance: holder=${holder} allowance=${allowance} required=${value}`);
+    }
+  }
+
+  let txHash: Hex;
+  if (method === 'transferWithAuthorization' && authorizer && request.nonce) {
+    const [name, version, chainId, block] = await Promise.all([
+      publicClient.readContract({ address: request.token, abi: erc20Abi, functionName: 'name' }),
+      publicClient
+        .readContract({ address: request.token, abi: eip3009Abi, functionName: 'version' })
+        .catch(() => '1'),
+      request.chainId ? Promise.resolve(request.chainId) : publicClient.getChainId(),
+      publicClient.getBlock()
+    ]);
+    const validAfter = 0n;
+    const validBefore = block.timestamp + BigInt(request.validForSeconds ?? 300);
+    const signature = parseSignature(
+      await authorizer.signTypedData({
+        domain: { name, version, chainId, verifyingContract: request.token },
+        types: {
+          TransferWithAuthorization: [
+            { name: 'from', type: 'address' },
+            { name: 'to', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'validAfter', type: 'uint256' },
+            { name: 'validBefore', type: 'uint256' },
+            { name: 'nonce', type: 'bytes32' }
+          ]
+        },
+        primaryType: 'TransferWithAuthorization',
+        message: {
+          from: authorizer.address,
+          to: request.recipient,
+          value,
+          validAfter,
+          validBefore,
+          nonce: request.nonce
+        }
+      })
+    );
+    txHash = await walletClient.writeContract({
+      account,
+      chain,
+      address: request.token,
+      abi: eip3009Abi,
+      functionName: 'transferWithAuthorization',
+      args: [
+        authorizer.address,
+        request.recipient,
+        value,
+        validAfter,
+        validBefore,
+        request.nonce,
+        Number(signature.v ?? BigInt(signature.yParity + 27)),
+        signature.r,
+        signature.s
+      ]
+    });
+  } else if (method === 'transferFrom') {
+    txHash = await walletClient.writeContract({
+      account,
+      chain,
+      address: request.token,
+      abi: erc20Abi,
+      functionName: 'transferFrom',
+      args: [holder, request.recipient, value]
+    });
+  } else {
+    txHash = await walletClient.writeContract({
+      account,
+      chain,
+      address: request.token,
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [request.recipient, value]
+    });
+  }
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+  if (receipt.status !== 'success') {
+    throw new Error(`evm transaction reverted: ${txHash}`);
+  }
+  const transfer = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs }).find(
+    (log) =>
+      sameAddress(log.address, request.token) &&
+      sameAddress(log.args.from, holder) &&
+      sameAddress(log.args.to, request.recipient) &&
+      log.args.value === value
+  );
+  if (!transfer) {
+    throw new Error(`token Transfer log not found in receipt: ${txHash}`);
+  }
+
+  return {
+    txHash,
+    method,
+    token: request.token,
+    from: holder,
+    to: request.recipient,
+    value,
+    decimals,
+    logIndex: transfer.logIndex
+  };
+}
+
+export async function getEvmBlockNumber(rpcUrl: string): Promise<bigint> {
+  return createPublicClient({ transport: http(rpcUrl) }).getBlockNumber();
+}
+
+/**
+ * Finds the `transferWithAuthorization` that consumed an EIP-3009 `nonce`, for relayers recovering
+ * a payout interrupted before its receipt was seen. Returns null while the nonce is unused, in which
+ * case no funds moved and the payout may be submitted again. A token without EIP-3009 also returns
+ * null: `submitEvmTokenTransfer` refuses such tokens before sending anything.
+ */
+export async function findEvmTokenAuthorizationTransfer(
+  request: EvmAuthorizationLookupRequest
+): Promise<EvmTokenTransferResult | null> {
+  const publicClient = createPublicClient({
+    transport: http(request.rpcUrl)
+  });
+  const used = await readAuthorizationState(publicClient, request.token, request.authorizer, request.nonce);
+  if (!used) return null;
+
+  const [usedLog] = await publicClient.getContractEvents({
+    address: request.token,
+    abi: eip3009Abi,
+    eventName: 'AuthorizationUsed',
+    args: { authorizer: request.authorizer, nonce: request.nonce },
+    fromBlock: request.fromBlock
+  });
+  if (!usedLog?.transactionHash) {
+    throw new Error(`EIP-3009 nonce used but no AuthorizationUsed log since block ${request.fromBlock}: ${request.nonce}`);
+  }
+  const txHash = usedLog.transactionHash;
+  const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+  const transfer = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs }).find(
+    (log) => sameAddress(log.address, request.token) && sameAddress(log.args.from, request.authorizer)
+  );
+  if (!transfer) {
+    throw new Error(`token Transfer log not found in receipt: ${txHash}`);
+  }
+  const decimals = await publicClient.readContract({
+    address: request.token,
+    abi: erc20Abi,
+    functionName: 'decimals'
+  });
+
+  return {
+    txHash,
+    method: 'transferWithAuthorization',
+    token: request.token,
+    from: request.authorizer,
+    to: transfer.args.to,
+    value: transfer.args.value,
+    decimals,
+    logIndex: transfer.logIndex
+  };
+}
@@ -15,7 +15,14 @@ import {
   type Address
 } from '@solana/kit';
 import fs from 'node:fs';
-import { buildPayAuthorizedData } from './encoding.js';
+import {
+  buildCreateAssociatedTokenAccountIdempotentInstruction,
+  buildPayAuthorizedData,
+  buildPayAuthorizedSplAccounts,
+  deriveAssociatedTokenAddress,
+  microsToTokenUnits,
+  readMintDecimals
+} from './encoding.js';
 
 const SYSTEM_PROGRAM_ADDRESS = '11111111111111111111111111111111' as Address;
 const COMPUTE_BUDGET_PROGRAM_ADDRESS = 'ComputeBudget111111111111111111111111111111' as Address;
@@ -168,15 +175,19 @@ export interface SolanaPayAuthorizedRequest {
   payerKeypairPath: string;
 }
 
-export async function submitPayAuthorized(
-  request: SolanaPayAuthorizedRequest
-): Promise<{ txSignature: string }> {
+function assertProofInputs(request: { proof: Uint8Array; publicWitness: Uint8Array }): void {
   if (request.proof.length !== SOLANA_PROOF_LEN) {
     throw new Error(`proof must be exactly ${SOLANA_PROOF_LEN} bytes`);
   }
   if (request.publicWitness.length !== SOLANA_WITNESS_LEN) {
     throw new Error(`publicWitness must be exactly ${SOLANA_WITNESS_LEN} bytes`);
   }
+}
+
+export async function submitPayAuthorized(
+  request: SolanaPayAuthorizedRequest
+): Promise<{ txSignature: string }> {
+  assertProofInputs(request);
 
   const payer = await loadSignerFromKeypairPath(request.payerKeypairPath);
 
@@ -211,3 +222,90 @@ export async function submitPayAuthorized(
 
   return { txSignature };
 }
+
+export interface SolanaPayAuthorizedSplRequest extends Omit<SolanaPayAuthorizedRequest, 'amountLamports'> {
+  mint: Address;
+  /** 6-decimal protocol amount, scaled to the mint's decimals. */
+  amountMicros: bigint;
+}
+
+/**
+ * SPL-token variant of `submitPayAuthorized`: the same proof and witness, paid from the payer's
+ * associated token account to the recipient's, which is created first if it does not exist.
+ * The token program (classic or Token-2022) is the mint account's owner.
+ */
+export async function submitPayAuthorizedSpl(
+  request: SolanaPayAuthorizedSplRequest
+): Promise<{ txSignature: string; recipientTokenAccount: Address; amount: bigint; decimals: number }> {
+  assertProofInputs(request);
+
+  const payer = await loadSignerFromKeypairPath(request.payerKeypairPath);
+  const rpc = createSolanaRpc(request.rpcUrl);
+  const { value: mintAccount } = await rpc.getAccountInfo(request.mint, { encoding: 'base64' }).send();
+  if (!mintAccount) {
+    throw new Error(`mint account not found: ${request.mint}`);
+  }
+  const tokenProgram = mintAccount.owner;
+  const decimals = readMintDecimals(Uint8Array.from(Buffer.from(mintAccount.data[0], 'base64')));
+  const amount = microsToTokenUnits(request.amountMicros, decimals);
+
+  const payerTokenAccount = await deriveAssociatedTokenAddress({
+    owner: payer.address,
+    mint: request.mint,
+    tokenProgram
+  });
+  const recipientTokenAccount = await deriveAssociatedTokenAddress({
+    owner: request.recipient,
+    mint: request.mint,
+    tokenProgram
+  });
+  const { value: existingRecipientAccount } = await rpc
+    .getAccountInfo(recipientTokenAccount, { encoding: 'base64' })
+    .send();
+
+  const txSignature = await sendGatewayInstruction({
+    rpcUrl: request.rpcUrl,
+    wsUrl: request.wsUrl,
+    payerKeypairPath: request.payerKeypairPath,
+    instructions: [
+      buildSetComputeUnitLimitInstruction(request.computeUnits ?? 1_000_000),
+      ...(existingRecipientAccount
+        ? []
+        : [
+            buildCreateAssociatedTokenAccountIdempotentInstruction({
+              payer: payer.address,
+              associatedToken: recipientTokenAccount,
+              owner: request.recipient,
+              mint: request.mint,
+              systemProgram: SYSTEM_PROGRAM_ADDRESS,
+              tokenProgram
+            })
+          ]),
+      {
+        programAddress: request.gatewayProgramId,
+        accounts: buildPayAuthorizedSplAccounts({
+          payer: payer.address,
+          payerTokenAccount,
+          recipient: request.recipient,
+          recipientTokenAccount,
+          mint: request.mint,
+          stateAccount: request.stateAccount,
+          verifierProgramId: request.verifierProgramId,
+          tokenProgram
+        }),
+        data: new Uint8Array([
+          3, // instruction::PAY_AUTHORIZED_SPL
+          ...buildPayAuthorizedData({
+            authIdHex: request.authIdHex,
+            amountLamports: amount,
+            authExpiryUnix: request.authExpiryUnix,
+            proof: request.proof,
+            publicWitness: request.publicWitness
+          })
+        ])
+      }
+    ]
+  });
+
+  return { txSignature, recipientTokenAccount, amount, decimals };
+}
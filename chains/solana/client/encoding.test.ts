@@ -1,5 +1,19 @@
 import { describe, expect, it } from 'vitest';
-import { authIdToBytes, buildPayAuthorizedData, u64ToLeBytes } from './encoding.js';
+import type { Address } from '@solana/kit';
+import {
+  authIdToBytes,
+  buildCreateAssociatedTokenAccountIdempotentInstruction,
+  buildPayAuthorizedData,
+  buildPayAuthorizedSplAccounts,
+  deriveAssociatedTokenAddress,
+  microsToTokenUnits,
+  readMintDecimals,
+  TOKEN_PROGRAM_ADDRESS,
+  u64ToLeBytes
+} from './encoding.js';
+
+const OWNER = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM' as Address;
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' as Address;
 
 describe('solana pay-authorized encoding', () => {
   it('encodes auth id as 32 bytes', () => {
@@ -28,3 +42,49 @@ describe('solana pay-authorized encoding', () => {
     expect(Array.from(data.slice(51, 53))).toEqual([4, 5]);
   });
 });
+
+describe('solana spl pay-authorized encoding', () => {
+  it('derives the associated token account from owner, token program and mint', async () => {
+    const ata = await deriveAssociatedTokenAddress({ owner: OWNER, mint: USDC_MINT, tokenProgram: TOKEN_PROGRAM_ADDRESS });
+    expect(ata).toBe('FGETo8T8wMcN2wCjav8VK6eh3dLk63evNDPxzLSJra8B');
+  });
+
+  it('reads mint decimals and scales micros', () => {
+    const mintData = new Uint8Array(82);
+    mintData[44] = 9;
+    expect(readMintDecimals(mintData)).toBe(9);
+    expect(microsToTokenUnits(1_500_000n, 9)).toBe(1_500_000_000n);
+    expect(microsToTokenUnits(1_500_000n, 6)).toBe(1_500_000n);
+    expect(() => microsToTokenUnits(1n, 2)).toThrow('not representable with 2 mint decimals');
+  });
+
+  it('orders token-program account metas for the gateway and ATA program', () => {
+    const input = {
+      payer: 'payer' as Address,
+      payerTokenAccount: 'payerAta' as Address,
+      recipient: OWNER,
+      recipientTokenAccount: 'recipientAta' as Address,
+      mint: USDC_MINT,
+      stateAccount: 'state' as Address,
+      verifierProgramId: 'verifier' as Address,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS
+    };
+    const accounts = buildPayAuthorizedSplAccounts(input);
+    expect(accounts.map((account) => account.role)).toEqual([3, 1, 0, 1, 0, 0, 0, 0]);
+    expect(accounts[7]?.address).toBe(TOKEN_PROGRAM_ADDRESS);
+    expect(() => buildPayAuthorizedSplAccounts({ ...input, tokenProgram: 'other' as Address })).toThrow(
+      'unsupported token program'
+    );
+
+    const create = buildCreateAssociatedTokenAccountIdempotentInstruction({
+      payer: 'payer' as Address,
+      associatedToken: 'recipientAta' as Address,
+      owner: OWNER,
+      mint: USDC_MINT,
+      systemProgram: '11111111111111111111111111111111' as Address,
+      tokenProgram: TOKEN_PROGRAM_ADDRESS
+    });
+    expect(Array.from(create.data)).toEqual([1]);
+    expect(create.accounts.map((account) => account.role)).toEqual([3, 1, 0, 0, 0, 0]);
+  });
+});
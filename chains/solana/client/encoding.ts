@@ -1,3 +1,18 @@
+import { getAddressEncoder, getProgramDerivedAddress, type Address } from '@solana/kit';
+
+export const TOKEN_PROGRAM_ADDRESS = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' as Address;
+export const TOKEN_2022_PROGRAM_ADDRESS = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb' as Address;
+export const ASSOCIATED_TOKEN_PROGRAM_ADDRESS = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL' as Address;
+/** `COption<Pubkey>` mint authority (36) + `u64` supply (8). */
+const MINT_DECIMALS_OFFSET = 44;
+/** Protocol amounts are USDC micros: 6 decimals. */
+const MICROS_DECIMALS = 6;
+
+export interface AccountMetaInput {
+  address: Address;
+  role: number;
+}
+
 export function authIdToBytes(authIdHex: `0x${string}`): Uint8Array {
   const trimmed = authIdHex.slice(2);
   if (trimmed.length !== 64) {
@@ -13,6 +28,7 @@ export function u64ToLeBytes(value: bigint): Uint8Array {
   return out;
 }
 
+/** `amountLamports` carries token base units for `PAY_AUTHORIZED_SPL`; the layout is shared. */
 export function buildPayAuthorizedData(input: {
   authIdHex: `0x${string}`;
   amountLamports: bigint;
@@ -32,3 +48,86 @@ export function buildPayAuthorizedData(input: {
   out.set(input.publicWitness, 48 + input.proof.length);
   return out;
 }
+
+/** Associated token account of `owner` for `mint` under `tokenProgram` (classic SPL Token or Token-2022). */
+export async function deriveAssociatedTokenAddress(input: {
+  owner: Address;
+  mint: Address;
+  tokenProgram: Address;
+}): Promise<Address> {
+  const encoder = getAddressEncoder();
+  const [address] = await getProgramDerivedAddress({
+    programAddress: ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+    seeds: [encoder.encode(input.owner), encoder.encode(input.tokenProgram), encoder.encode(input.mint)]
+  });
+  return address;
+}
+
+export function readMintDecimals(mintData: Uint8Array): number {
+  const decimals = mintData[MINT_DECIMALS_OFFSET];
+  if (decimals === undefined) {
+    throw new Error('mint account data too short');
+  }
+  return decimals;
+}
+
+/** Converts protocol micros to token base units; rejects amounts the mint cannot represent. */
+export function microsToTokenUnits(amountMicros: bigint, decimals: number): bigint {
+  if (decimals >= MICROS_DECIMALS) {
+    return amountMicros * 10n ** BigInt(decimals - MICROS_DECIMALS);
+  }
+  const divisor = 10n ** BigInt(MICROS_DECIMALS - decimals);
+  if (amountMicros % divisor !== 0n) {
+    throw new Error(`amountMicros ${amountMicros} is not representable with ${decimals} mint decimals`);
+  }
+  return amountMicros / divisor;
+}
+
+/** Associated Token Account program `CreateIdempotent`; a no-op when the account already exists. */
+export function buildCreateAssociatedTokenAccountIdempotentInstruction(input: {
+  payer: Address;
+  associatedToken: Address;
+  owner: Address;
+  mint: Address;
+  systemProgram: Address;
+  tokenProgram: Address;
+}): { programAddress: Address; accounts: AccountMetaInput[]; data: Uint8Array } {
+  return {
+    programAddress: ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+    accounts: [
+      { address: input.payer, role: 3 },
+      { address: input.associatedToken, role: 1 },
+      { address: input.owner, role: 0 },
+      { address: input.mint, role: 0 },
+      { address: input.systemProgram, role: 0 },
+      { address: input.tokenProgram, role: 0 }
+    ],
+    data: new Uint8Array([1])
+  };
+}
+
+/** Account order expected by the gateway's `PAY_AUTHORIZED_SPL` instruction. */
+export function buildPayAuthorizedSplAccounts(input: {
+  payer: Address;
+  payerTokenAccount: Address;
+  recipient: Address;
+  recipientTokenAccount: Address;
+  mint: Address;
+  stateAccount: Address;
+  verifierProgramId: Address;
+  tokenProgram: Address;
+}): AccountMetaInput[] {
+  if (input.tokenProgram !== TOKEN_PROGRAM_ADDRESS && input.tokenProgram !== TOKEN_2022_PROGRAM_ADDRESS) {
+    throw new Error(`unsupported token program: ${input.tokenProgram}`);
+  }
+  return [
+    { address: input.payer, role: 3 },
+    { address: input.payerTokenAccount, role: 1 },
+    { address: input.recipient, role: 0 },
+    { address: input.recipientTokenAccount, role: 1 },
+    { address: input.mint, role: 0 },
+    { address: input.stateAccount, role: 0 },
+    { address: input.verifierProgramId, role: 0 },
+    { address: input.tokenProgram, role: 0 }
+  ];
+}
@@ -6,7 +6,7 @@ use solana_program::{
     clock::Clock,
     entrypoint,
     entrypoint::ProgramResult,
-    instruction::Instruction,
+    instruction::{AccountMeta, Instruction},
     msg,
     program::invoke,
     program_error::ProgramError,
@@ -25,10 +25,20 @@ pub const WITNESS_LEN: usize = 76;
 pub const PAY_AUTHORIZED_HEADER_LEN: usize = 32 + 8 + 8; // auth_id + amount + auth_expiry
 pub const PAY_AUTHORIZED_DATA_LEN: usize = PAY_AUTHORIZED_HEADER_LEN + PROOF_LEN + WITNESS_LEN;
 
+pub const SPL_TOKEN_PROGRAM_ID: Pubkey =
+    solana_program::pubkey!("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
+pub const SPL_TOKEN_2022_PROGRAM_ID: Pubkey =
+    solana_program::pubkey!("TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb");
+pub const ASSOCIATED_TOKEN_PROGRAM_ID: Pubkey =
+    solana_program::pubkey!("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+pub const MINT_DECIMALS_OFFSET: usize = 44; // COption<Pubkey> mint_authority (36) + u64 supply (8)
+const TOKEN_TRANSFER_CHECKED: u8 = 12;
+
 pub mod instruction {
     pub const INITIALIZE_STATE: u8 = 0;
     pub const SET_SMT_ROOT: u8 = 1;
     pub const PAY_AUTHORIZED: u8 = 2;
+    pub const PAY_AUTHORIZED_SPL: u8 = 3;
 }
 
 #[derive(Clone, Copy, Debug, PartialEq)]
@@ -40,6 +50,9 @@ pub enum GatewayError {
     InvalidStatePda = 3,
     InvalidZkVerifier = 4,
     AuthorizationExpired = 5,
+    InvalidTokenProgram = 6,
+    InvalidMint = 7,
+    InvalidRecipientTokenAccount = 8,
 }
 
 impl From<GatewayError> for ProgramError {
@@ -69,6 +82,9 @@ pub fn process_instruction(
         instruction::PAY_AUTHORIZED => {
             process_pay_authorized(program_id, accounts, &instruction_data[1..])
         }
+        instruction::PAY_AUTHORIZED_SPL => {
+            process_pay_authorized_spl(program_id, accounts, &instruction_data[1..])
+        }
         _ => Err(ProgramError::InvalidInstructionData),
     }
 }
@@ -175,6 +191,110 @@ fn process_pay_authorized(
         return Err(ProgramError::MissingRequiredSignature);
     }
 
+    let amount = verify_authorization(state_account, zk_verifier, data)?;
+
+    msg!(
+        "x402 PayAuthorized verified, auth_id_prefix={:?}",
+        &data[0..4]
+    );
+
+    invoke(
+        &system_instruction::transfer(payer.key, recipient.key, amount),
+        &[payer.clone(), recipient.clone(), system_program.clone()],
+    )?;
+
+    Ok(())
+}
+
+/// Same data layout and proof checks as `PAY_AUTHORIZED`; `amount` is in token base units and is
+/// moved from the payer's token account to the recipient's associated token account.
+fn process_pay_authorized_spl(
+    _program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    data: &[u8],
+) -> ProgramResult {
+    if data.len() != PAY_AUTHORIZED_DATA_LEN {
+        msg!("invalid PayAuthorizedSpl data len: {}", data.len());
+        return Err(GatewayError::InvalidDataLength.into());
+    }
+
+    let account_iter = &mut accounts.iter();
+    let payer = next_account_info(account_iter)?;
+    let payer_token_account = next_account_info(account_iter)?;
+    let recipient = next_account_info(account_iter)?;
+    let recipient_token_account = next_account_info(account_iter)?;
+    let mint = next_account_info(account_iter)?;
+    let state_account = next_account_info(account_iter)?;
+    let zk_verifier = next_account_info(account_iter)?;
+    let token_program = next_account_info(account_iter)?;
+
+    if !payer.is_signer {
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if token_program.key != &SPL_TOKEN_PROGRAM_ID && token_program.key != &SPL_TOKEN_2022_PROGRAM_ID
+    {
+        return Err(GatewayError::InvalidTokenProgram.into());
+    }
+    if mint.owner != token_program.key {
+        return Err(GatewayError::InvalidMint.into());
+    }
+    let (recipient_ata, _bump) = Pubkey::find_program_address(
+        &[
+            recipient.key.as_ref(),
+            token_program.key.as_ref(),
+            mint.key.as_ref(),
+        ],
+        &ASSOCIATED_TOKEN_PROGRAM_ID,
+    );
+    if recipient_token_account.key != &recipient_ata {
+        return Err(GatewayError::InvalidRecipientTokenAccount.into());
+    }
+    let decimals = *mint
+        .try_borrow_data()?
+        .get(MINT_DECIMALS_OFFSET)
+        .ok_or(GatewayError::InvalidMint)?;
+
+    let amount = verify_authorization(state_account, zk_verifier, data)?;
+
+    msg!(
+        "x402 PayAuthorizedSpl verified, auth_id_prefix={:?}",
+        &data[0..4]
+    );
+
+    let mut transfer_data = Vec::with_capacity(10);
+    transfer_data.push(TOKEN_TRANSFER_CHECKED);
+    transfer_data.extend_from_slice(&amount.to_le_bytes());
+    transfer_data.push(decimals);
+    invoke(
+        &Instruction {
+            program_id: *token_program.key,
+            accounts: vec![
+                AccountMeta::new(*payer_token_account.key, false),
+                AccountMeta::new_readonly(*mint.key, false),
+                AccountMeta::new(*recipient_token_account.key, false),
+                AccountMeta::new_readonly(*payer.key, true),
+            ],
+            data: transfer_data,
+        },
+        &[
+            payer_token_account.clone(),
+            mint.clone(),
+            recipient_token_account.clone(),
+            payer.clone(),
+            token_program.clone(),
+        ],
+    )?;
+
+    Ok(())
+}
+
+/// Checks the configured verifier, expiry and SMT root, CPIs the proof into the verifier, and
+/// returns the authorized amount. `data` must already be `PAY_AUTHORIZED_DATA_LEN` bytes.
+fn verify_authorization(
+    state_account: &AccountInfo,
+    zk_verifier: &AccountInfo,
+    data: &[u8],
+) -> Result<u64, ProgramError> {
     let state_data = state_account.try_borrow_data()?;
     if state_data[0..8] != STATE_DISCRIMINATOR {
         return Err(GatewayError::InvalidStateAccount.into());
@@ -213,17 +333,7 @@ fn process_pay_authorized(
     };
     invoke(&verify_ix, &[])?;
 
-    msg!(
-        "x402 PayAuthorized verified, auth_id_prefix={:?}",
-        &data[0..4]
-    );
-
-    invoke(
-        &system_instruction::transfer(payer.key, recipient.key, amount),
-        &[payer.clone(), recipient.clone(), system_program.clone()],
-    )?;
-
-    Ok(())
+    Ok(amount)
 }
 
 #[cfg(test)]
@@ -390,4 +500,73 @@ mod tests {
             ProgramError::Custom(GatewayError::InvalidZkVerifier as u32)
         );
     }
+
+    fn spl_accounts(
+        program_id: Pubkey,
+        token_program: Pubkey,
+        recipient_token_account: Option<Pubkey>,
+    ) -> Vec<AccountInfo<'static>> {
+        let recipient_key = Pubkey::new_unique();
+        let mint_key = Pubkey::new_unique();
+        let (recipient_ata, _bump) = Pubkey::find_program_address(
+            &[
+                recipient_key.as_ref(),
+                token_program.as_ref(),
+                mint_key.as_ref(),
+            ],
+            &ASSOCIATED_TOKEN_PROGRAM_ID,
+        );
+        vec![
+            new_account(Pubkey::new_unique(), program_id, true, true, 0),
+            new_account(Pubkey::new_unique(), token_program, false, true, 165),
+            new_account(recipient_key, system_program::id(), false, false, 0),
+            new_account(
+                recipient_token_account.unwrap_or(recipient_ata),
+                token_program,
+                false,
+                true,
+                165,
+            ),
+            new_account(mint_key, token_program, false, false, 82),
+            new_account(Pubkey::new_unique(), program_id, false, false, STATE_SIZE),
+            new_account(Pubkey::new_unique(), program_id, false, false, 0),
+            new_account(token_program, token_program, false, false, 0),
+        ]
+    }
+
+    #[test]
+    fn pay_authorized_spl_rejects_unknown_token_program() {
+        let program_id = Pubkey::new_unique();
+        let accounts = spl_accounts(program_id, Pubkey::new_unique(), None);
+        let err = process_pay_authorized_spl(&program_id, &accounts, &empty_pay_authorized_data())
+            .unwrap_err();
+        assert_eq!(
+            err,
+            ProgramError::Custom(GatewayError::InvalidTokenProgram as u32)
+        );
+    }
+
+    #[test]
+    fn pay_authorized_spl_rejects_non_ata_recipient_account() {
+        let program_id = Pubkey::new_unique();
+        let accounts = spl_accounts(program_id, SPL_TOKEN_PROGRAM_ID, Some(Pubkey::new_unique()));
+        let err = process_pay_authorized_spl(&program_id, &accounts, &empty_pay_authorized_data())
+            .unwrap_err();
+        assert_eq!(
+            err,
+            ProgramError::Custom(GatewayError::InvalidRecipientTokenAccount as u32)
+        );
+    }
+
+    #[test]
+    fn pay_authorized_spl_shares_verifier_checks() {
+        let program_id = Pubkey::new_unique();
+        let accounts = spl_accounts(program_id, SPL_TOKEN_2022_PROGRAM_ID, None);
+        let err = process_pay_authorized_spl(&program_id, &accounts, &empty_pay_authorized_data())
+            .unwrap_err();
+        assert_eq!(
+            err,
+            ProgramError::Custom(GatewayError::InvalidStateAccount as u32)
+        );
+    }
 }
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {ERC20} from "solady/tokens/ERC20.sol";
+
+/// @notice USDC-like mock with EIP-3009 `transferWithAuthorization` and configurable decimals,
+///         used to exercise relayer token payouts against a local anvil node.
+contract MockEIP3009Token is ERC20 {
+    bytes32 public constant TRANSFER_WITH_AUTHORIZATION_TYPEHASH = keccak256(
+        "TransferWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
+    );
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+
+    uint8 private immutable _decimals;
+    mapping(address => mapping(bytes32 => bool)) private _authorizationStates;
+
+    error AuthorizationNotYetValid();
+    error AuthorizationExpired();
+    error AuthorizationAlreadyUsed();
+    error InvalidAuthorizationSignature();
+
+    event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce);
+
+    constructor(uint8 decimals_) {
+        _decimals = decimals_;
+    }
+
+    function name() public pure override returns (string memory) {
+        return "Mock EIP-3009 USD Coin";
+    }
+
+    function symbol() public pure override returns (string memory) {
+        return "m3009USDC";
+    }
+
+    function version() public pure returns (string memory) {
+        return "2";
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function authorizationState(address authorizer, bytes32 nonce) external view returns (bool) {
+        return _authorizationStates[authorizer][nonce];
+    }
+
+    function transferWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        if (block.timestamp <= validAfter) revert AuthorizationNotYetValid();
+        if (block.timestamp >= validBefore) revert AuthorizationExpired();
+        if (_authorizationStates[from][nonce]) revert AuthorizationAlreadyUsed();
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                TRANSFER_WITH_AUTHORIZATION_TYPEHASH, from, to, value, validAfter, validBefore, nonce
+            )
+        );
+        bytes32 digest =
+            keccak256(abi.encodePacked("\x19\x01", _authorizationDomainSeparator(), structHash));
+        address signer = ecrecover(digest, v, r, s);
+        if (signer == address(0) || signer != from) revert InvalidAuthorizationSignature();
+
+        _authorizationStates[from][nonce] = true;
+        emit AuthorizationUsed(from, nonce);
+        _transfer(from, to, value);
+    }
+
+    function _authorizationDomainSeparator() internal view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256(bytes(name())),
+                keccak256(bytes(version())),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+}
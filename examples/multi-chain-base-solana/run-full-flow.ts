@@ -140,6 +140,20 @@ async function main(): Promise<void> {
     sequencerAdminToken: adminToken
   });
 
+  // Relayers pay the address registered for the authorized merchantId, not a client-supplied one.
+  if (baseOnchain) {
+    await client.registerMerchant({
+      serviceRegistryId: 'demo/base',
+      endpointUrl: baseMerchantUrl,
+      payoutAddresses: [{ chainRef: baseChainRef, address: envRequired('BASE_RECIPIENT_ADDRESS') }]
+    });
+  }
+  await client.registerMerchant({
+    serviceRegistryId: 'demo/solana',
+    endpointUrl: solanaMerchantUrl,
+    payoutAddresses: [{ chainRef: SOLANA_CHAIN_REF, address: solanaRecipientAddress }]
+  });
+
   const baseAmountMicros = process.env.BASE_AMOUNT_MICROS ?? '1500000';
   const solanaAmountMicros = process.env.SOLANA_AMOUNT_MICROS ?? '2500000';
   const totalCredit = (BigInt(baseAmountMicros) + BigInt(solanaAmountMicros) + 1_000_000n).toString();
@@ -179,7 +193,6 @@ async function main(): Promise<void> {
           baseOnchain
             ? {
                 rpcUrl: baseRpcUrl,
-                recipient: envRequired('BASE_RECIPIENT_ADDRESS'),
                 amountWei: baseAmountWei,
                 chainId: baseChainId,
                 ...(basePrivateKey ? { privateKey: basePrivateKey } : {})
@@ -224,7 +237,6 @@ async function main(): Promise<void> {
           gatewayProgramId: solanaGatewayProgramId,
           verifierProgramId: solanaVerifierProgramId,
           stateAccount: solanaStateAccount,
-          recipient: solanaRecipientAddress,
           amountLamports: solanaAmountLamports.toString(),
           computeUnits: solanaComputeUnits,
           authIdHex: solanaAuth.authorization.authId,
@@ -253,8 +265,8 @@ async function main(): Promise<void> {
   console.log(`solana relay result: ${JSON.stringify(solanaRelayResult, null, 2)}`);
 
   if (process.env.RUN_COMMITMENT_EPOCH === 'true') {
-    const baseProof = await client.commitmentProof(baseAuth.authorization.authId);
-    const solanaProof = await client.commitmentProof(solanaAuth.authorization.authId);
+    const baseProof = await client.commitmentProof(baseAuth.authorization);
+    const solanaProof = await client.commitmentProof(solanaAuth.authorization);
     console.log(`base commitment epoch: ${baseProof.epochId}`);
     console.log(`solana commitment epoch: ${solanaProof.epochId}`);
   }
@@ -1,29 +1,73 @@
 import { describe, expect, it } from 'vitest';
+import { createHash, createPrivateKey, createPublicKey, sign } from 'node:crypto';
 import {
   X402_DOMAIN_TAGS,
   RELAYER_ROUTES_V1,
   SEQUENCER_ROUTES_V1,
   assertAgentAuthorizationInvariant,
+  authorizationDebitMicros,
+  buildAgentPolicyTypedDataPayload,
+  buildAgentQueryTypedDataPayload,
   buildIntentTypedDataPayload,
   buildReclaimTypedDataPayload,
+  buildWithdrawIntentTypedDataPayload,
   canonicalExecutionReportBytes,
   buildMerkleProof,
   buildMerkleRoot,
+  canonicalAgentPolicyBytes,
+  canonicalAgentQueryBytes,
+  canonicalMerchantQueryBytes,
+  canonicalMerchantRecordBytes,
+  canonicalRelayerQueryBytes,
   canonicalAuthorizationBytes,
+  canonicalBalanceReceiptBytes,
+  canonicalDisputeEventBytes,
+  computeFeeMicros,
+  canonicalDisputeEvidenceBytes,
+  canonicalDisputeRequestBytes,
+  buildDisputeRequestTypedDataPayload,
   canonicalIntentBytes,
   canonicalReclaimRequestBytes,
+  canonicalWithdrawIntentBytes,
   computeAuthorizationLeaf,
   deriveAgentIdFromPubKey,
+  decryptFundingReceipt,
   deriveAuthorizationId,
+  deriveFundingReceiptPublicKey,
+  deriveLaneAgentNonce,
   deriveLeafSalt,
   deriveMerchantId,
+  deriveWithdrawalId,
+  deriveDisputeEventId,
+  deriveDisputeId,
+  hashBalanceReceipt,
+  hashDisputeEvent,
+  hashMerchantResponse,
+  encryptFundingReceipt,
   hashAuthorization,
   hashExecutionReport,
   hashIntent,
+  hashSequencerKeySet,
+  hashWithdrawal,
+  hashWithdrawIntent,
+  isSequencerKeyValidAt,
   normalizeMerchantEndpointUrl,
+  splitLaneAgentNonce,
+  verifyAuthorizationSignature,
+  verifyBalanceReceiptChain,
+  verifyMerchantRecordSignature,
   verifyMerkleProof,
+  verifySequencerKeySet,
+  type AgentPolicyV1,
   type AuthorizationV1,
-  type IntentV1
+  type BalanceReceiptV1,
+  type DisputeEventV1,
+  type DisputeRequestV1,
+  type FundingReceiptV1,
+  type IntentV1,
+  type SequencerKeySetV1,
+  type SignedMerchantRecordPayloadV1,
+  type WithdrawIntentV1
 } from './sequencer.js';
 
 describe('sequencer protocol tags', () => {
@@ -32,6 +76,16 @@ describe('sequencer protocol tags', () => {
     expect(X402_DOMAIN_TAGS.authorizationV1).toBe('x402:authorization:v1');
     expect(X402_DOMAIN_TAGS.authLeafV1).toBe('x402:authleaf:v1');
     expect(X402_DOMAIN_TAGS.executionReportV1).toBe('x402:execution-report:v1');
+    expect(X402_DOMAIN_TAGS.fundingReceiptV1).toBe('x402:funding-receipt:v1');
+    expect(X402_DOMAIN_TAGS.agentQueryV1).toBe('x402:agent-query:v1');
+    expect(X402_DOMAIN_TAGS.agentPolicyV1).toBe('x402:agent-policy:v1');
+    expect(X402_DOMAIN_TAGS.sequencerKeySetV1).toBe('x402:sequencer-keyset:v1');
+    expect(X402_DOMAIN_TAGS.withdrawIntentV1).toBe('x402:withdraw-intent:v1');
+    expect(X402_DOMAIN_TAGS.withdrawalV1).toBe('x402:withdrawal:v1');
+    expect(X402_DOMAIN_TAGS.balanceReceiptV1).toBe('x402:balance-receipt:v1');
+    expect(X402_DOMAIN_TAGS.disputeV1).toBe('x402:dispute:v1');
+    expect(X402_DOMAIN_TAGS.disputeEvidenceV1).toBe('x402:dispute-evidence:v1');
+    expect(X402_DOMAIN_TAGS.disputeEventV1).toBe('x402:dispute-event:v1');
   });
 });
 
@@ -40,6 +94,7 @@ describe('protocol routes', () => {
     expect(SEQUENCER_ROUTES_V1.authorize).toBe('/v1/credit/authorize');
     expect(SEQUENCER_ROUTES_V1.executions).toBe('/v1/credit/executions');
     expect(SEQUENCER_ROUTES_V1.reclaim).toBe('/v1/credit/reclaim');
+    expect(SEQUENCER_ROUTES_V1.agents).toBe('/v1/credit/agents');
     expect(RELAYER_ROUTES_V1.pay).toBe('/v1/relay/pay');
   });
 });
@@ -109,6 +164,39 @@ describe('intent and authorization canonicalization', () => {
     expect(hashAuthorization(auth)).toMatch(/^0x[0-9a-f]{64}$/);
   });
 
+  it('binds the relayer fee into version 2 authorizations', () => {
+    const auth: AuthorizationV1 = {
+      version: 2,
+      intentId: '0x1111111111111111111111111111111111111111111111111111111111111111',
+      authId: '0x2222222222222222222222222222222222222222222222222222222222222222',
+      authorizedAmountMicros: '10000',
+      feeMicros: '125',
+      agentId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      agentNonce: '0',
+      merchantId: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+      chainRef: 'eip155:8453',
+      issuedAt: '1735689000',
+      expiresAt: '1735689600',
+      sequencerEpochHint: '1',
+      logSeqNo: '7',
+      sequencerKeyId: 'seq-key-1'
+    };
+    expect(hashAuthorization(auth)).not.toBe(hashAuthorization({ ...auth, feeMicros: '126' }));
+    expect(authorizationDebitMicros(auth)).toBe(10125n);
+    expect(() => canonicalAuthorizationBytes({ ...auth, version: 1 })).toThrow(
+      'feeMicros requires authorization version 2'
+    );
+    const { feeMicros: _fee, ...withoutFee } = auth;
+    expect(() => canonicalAuthorizationBytes(withoutFee)).toThrow('authorization version 2 requires feeMicros');
+
+    expect(computeFeeMicros({ chainRef: 'eip155:8453', flatMicros: '100', bps: 25 }, '10000')).toBe('125');
+    expect(computeFeeMicros({ chainRef: 'eip155:8453', flatMicros: '0', bps: 25 }, '399')).toBe('0');
+    expect(computeFeeMicros(undefined, '10000')).toBe('0');
+    expect(() => computeFeeMicros({ chainRef: 'eip155:8453', flatMicros: '0', bps: 10_001 }, '1')).toThrow(
+      'fee bps out of range'
+    );
+  });
+
   it('builds typed data payload with zeroed optionals', () => {
     const intent: IntentV1 = {
       version: 1,
@@ -129,12 +217,78 @@ describe('intent and authorization canonicalization', () => {
     );
   });
 
+  it('binds nonce lanes into version 2 intents', () => {
+    const base: IntentV1 = {
+      version: 2,
+      agentId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      agentPubKey: '0x1234',
+      signatureScheme: 'ed25519-sha256-v1',
+      agentNonce: deriveLaneAgentNonce({ nonceLane: 3, laneSeq: '9' }),
+      nonceLane: 3,
+      laneSeq: '9',
+      amountMicros: '5',
+      merchantId: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+      requiredChainRef: 'eip155:8453',
+      expiresAt: '1735689600',
+      requestId: '0x1111111111111111111111111111111111111111111111111111111111111111'
+    };
+    expect(splitLaneAgentNonce(base.agentNonce)).toEqual({ nonceLane: 3, laneSeq: '9' });
+    expect(deriveLaneAgentNonce({ nonceLane: 0, laneSeq: '9' })).toBe('9');
+    expect(hashIntent(base)).not.toBe(
+      hashIntent({ ...base, nonceLane: 4, agentNonce: deriveLaneAgentNonce({ nonceLane: 4, laneSeq: '9' }) })
+    );
+    expect(() => canonicalIntentBytes({ ...base, laneSeq: '10' })).toThrow(
+      'agentNonce does not match nonceLane and laneSeq'
+    );
+    expect(() => canonicalIntentBytes({ ...base, version: 1 })).toThrow(
+      'nonceLane and laneSeq require intent version 2'
+    );
+
+    const payload = buildIntentTypedDataPayload(base);
+    expect(payload.domain.version).toBe('2');
+    expect(payload.message.laneSeq).toBe(9n);
+  });
+
+  it('signs an optional maxFeeMicros into version 2 intents only', () => {
+    const base: IntentV1 = {
+      version: 2,
+      agentId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      agentPubKey: '0x1234',
+      signatureScheme: 'ed25519-sha256-v1',
+      agentNonce: '9',
+      nonceLane: 0,
+      laneSeq: '9',
+      amountMicros: '5',
+      merchantId: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+      requiredChainRef: 'eip155:8453',
+      expiresAt: '1735689600',
+      requestId: '0x1111111111111111111111111111111111111111111111111111111111111111'
+    };
+    const capped = { ...base, maxFeeMicros: '20' };
+    // Uncapped intents keep their layout: the cap is a trailing optional field behind the bitmap.
+    expect(canonicalIntentBytes(capped).subarray(0, canonicalIntentBytes(base).length - 1)).toEqual(
+      canonicalIntentBytes(base).subarray(0, -1)
+    );
+    expect(canonicalIntentBytes(capped).length).toBe(canonicalIntentBytes(base).length + 8);
+    expect(hashIntent(capped)).not.toBe(hashIntent({ ...base, maxFeeMicros: '21' }));
+    expect(() => canonicalIntentBytes({ ...capped, version: 1, nonceLane: undefined, laneSeq: undefined })).toThrow(
+      'maxFeeMicros requires intent version 2'
+    );
+
+    expect(buildIntentTypedDataPayload(base).types.IntentV1.map((field) => field.name)).not.toContain('maxFeeMicros');
+    const payload = buildIntentTypedDataPayload(capped);
+    expect(payload.types.IntentV1.at(-1)).toEqual({ name: 'maxFeeMicros', type: 'uint64' });
+    expect(payload.message.maxFeeMicros).toBe(20n);
+  });
+
   it('canonicalizes execution reports and reclaim payloads', () => {
     const reportPayload = {
+      version: 2 as const,
       authId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
       chainRef: 'solana:devnet',
       executionTxHash: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
       status: 'SUCCESS' as const,
+      executedAmountMicros: '2500',
       reportId: '0x1111111111111111111111111111111111111111111111111111111111111111',
       reportedAt: '1735689601',
       relayerKeyId: 'sol-relayer-1'
@@ -143,6 +297,22 @@ describe('intent and authorization canonicalization', () => {
       canonicalExecutionReportBytes(reportPayload)
     );
     expect(hashExecutionReport(reportPayload)).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(hashExecutionReport({ ...reportPayload, executedAmountMicros: '2499' })).not.toBe(
+      hashExecutionReport(reportPayload)
+    );
+
+    const { executedAmountMicros: _executed, ...reportPayloadV1 } = { ...reportPayload, version: 1 as const };
+    // Version 1 has neither the version byte nor the 8-byte amount.
+    expect(canonicalExecutionReportBytes(reportPayloadV1).length).toBe(
+      canonicalExecutionReportBytes(reportPayload).length - 9
+    );
+    expect(hashExecutionReport(reportPayloadV1)).not.toBe(hashExecutionReport(reportPayload));
+    expect(() => canonicalExecutionReportBytes({ ...reportPayloadV1, executedAmountMicros: '2500' })).toThrow(
+      'executedAmountMicros requires execution report version 2'
+    );
+    expect(() => canonicalExecutionReportBytes({ ...reportPayloadV1, version: 2 })).toThrow(
+      'execution report version 2 requires executedAmountMicros'
+    );
 
     const reclaimPayload = {
       authId: reportPayload.authId,
@@ -161,6 +331,449 @@ describe('intent and authorization canonicalization', () => {
   });
 });
 
+describe('agent queries', () => {
+  it('binds the signed query to the requested resource', () => {
+    const query = {
+      agentId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' as const,
+      resource: '/v1/credit/agents/0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      requestedAt: '1735689600'
+    };
+    expect(canonicalAgentQueryBytes(query)).not.toEqual(
+      canonicalAgentQueryBytes({ ...query, resource: `${query.resource}?limit=1` })
+    );
+    const typed = buildAgentQueryTypedDataPayload(query);
+    expect(typed.primaryType).toBe('AgentQueryV1');
+    expect(typed.message.requestedAt).toBe(1735689600n);
+  });
+});
+
+describe('merchant queries', () => {
+  it('binds the signed query to the registry, key and resource', () => {
+    const query = {
+      serviceRegistryId: 'eip155:8453:0x1111111111111111111111111111111111111111:7',
+      keyId: 'merchant-key-1',
+      resource: '/v1/credit/merchants/0xbb/statement?fromExecutedAt=0',
+      requestedAt: '1735689600'
+    };
+    const bytes = canonicalMerchantQueryBytes(query);
+    expect(bytes).not.toEqual(canonicalMerchantQueryBytes({ ...query, keyId: 'merchant-key-2' }));
+    expect(bytes).not.toEqual(canonicalMerchantQueryBytes({ ...query, resource: `${query.resource}&limit=1` }));
+  });
+});
+
+describe('relayer queries', () => {
+  it('binds the signed query to the chain, key and resource', () => {
+    const query = {
+      chainRef: 'eip155:8453',
+      keyId: 'relayer-key-1',
+      resource: '/v1/credit/disputes?chainRef=eip155%3A8453&status=OPEN',
+      requestedAt: '1735689600'
+    };
+    const bytes = canonicalRelayerQueryBytes(query);
+    expect(bytes).not.toEqual(canonicalRelayerQueryBytes({ ...query, chainRef: 'eip155:1' }));
+    expect(bytes).not.toEqual(canonicalRelayerQueryBytes({ ...query, resource: `${query.resource}&limit=1` }));
+  });
+});
+
+describe('agent policies', () => {
+  const policy: AgentPolicyV1 = {
+    version: 1,
+    agentId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    agentPubKey: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+    signatureScheme: 'ed25519-sha256-v1',
+    policyVersion: '3',
+    maxAmountPerAuthMicros: '1000000',
+    merchantAllowlist: ['0xcccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccc']
+  };
+
+  it('distinguishes an empty list from an omitted one', () => {
+    expect(canonicalAgentPolicyBytes({ ...policy, allowedChainRefs: [] })).not.toEqual(
+      canonicalAgentPolicyBytes(policy)
+    );
+    expect(canonicalAgentPolicyBytes({ ...policy, policyVersion: '4' })).not.toEqual(
+      canonicalAgentPolicyBytes(policy)
+    );
+  });
+
+  it('builds eip712 payload with zero defaults and the presence bitmap', () => {
+    const typed = buildAgentPolicyTypedDataPayload(policy);
+    expect(typed.primaryType).toBe('AgentPolicyV1');
+    expect(typed.message.optionalBitmap).toBe(0b1001);
+    expect(typed.message.dailyCapMicros).toBe(0n);
+    expect(typed.message.allowedChainRefs).toEqual([]);
+  });
+});
+
+describe('withdrawals', () => {
+  const intent: WithdrawIntentV1 = {
+    version: 1,
+    agentId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    agentPubKey: '0xcccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccc',
+    signatureScheme: 'ed25519-sha256-v1',
+    agentNonce: '4',
+    amountMicros: '250000',
+    commitment: '0xdddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddddd',
+    expiresAt: '1735689600',
+    requestId: '0x1111111111111111111111111111111111111111111111111111111111111111'
+  };
+
+  it('binds the withdraw intent to the target commitment', () => {
+    const redirected = canonicalWithdrawIntentBytes({
+      ...intent,
+      commitment: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
+    });
+    expect(canonicalWithdrawIntentBytes(intent).equals(redirected)).toBe(false);
+    expect(buildWithdrawIntentTypedDataPayload(intent).message).toMatchObject({
+      signatureScheme: 2,
+      agentNonce: 4n,
+      amountMicros: 250000n,
+      commitment: intent.commitment
+    });
+  });
+
+  it('signs the nonce lane of version 2 withdraw intents', () => {
+    const laneIntent: WithdrawIntentV1 = {
+      ...intent,
+      version: 2,
+      nonceLane: 3,
+      laneSeq: '7',
+      agentNonce: deriveLaneAgentNonce({ nonceLane: 3, laneSeq: '7' })
+    };
+    expect(canonicalWithdrawIntentBytes(laneIntent).equals(canonicalWithdrawIntentBytes(intent))).toBe(false);
+    expect(buildWithdrawIntentTypedDataPayload(laneIntent).message).toMatchObject({ nonceLane: 3, laneSeq: 7n });
+    expect(() => canonicalWithdrawIntentBytes({ ...intent, nonceLane: 3, laneSeq: '7' })).toThrow(
+      'nonceLane and laneSeq require intent version 2'
+    );
+    expect(() => canonicalWithdrawIntentBytes({ ...laneIntent, laneSeq: '8' })).toThrow(
+      'agentNonce does not match nonceLane and laneSeq'
+    );
+  });
+
+  it('hashes withdrawals under their own tag', () => {
+    const intentId = hashWithdrawIntent(intent);
+    const withdrawalId = deriveWithdrawalId({ intentId, seqNo: '9' });
+    expect(withdrawalId).not.toBe(deriveAuthorizationId({ intentId, sequencerEpoch: '0', seqNo: '9' }));
+    expect(
+      hashWithdrawal({
+        version: 1,
+        withdrawalId,
+        intentId,
+        agentId: intent.agentId,
+        agentNonce: intent.agentNonce,
+        amountMicros: intent.amountMicros,
+        commitment: intent.commitment,
+        issuedAt: '1735689000',
+        logSeqNo: '9',
+        sequencerKeyId: 'seq-key-1'
+      })
+    ).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+});
+
+describe('sequencer key sets', () => {
+  const ed25519FromSeed = (byte: number) => {
+    const privateKey = createPrivateKey({
+      key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.alloc(32, byte)]),
+      format: 'der',
+      type: 'pkcs8'
+    });
+    const spki = createPublicKey(privateKey).export({ format: 'der', type: 'spki' });
+    return { privateKey, publicKey: `0x${Buffer.from(spki).subarray(-32).toString('hex')}` as const };
+  };
+  const previous = ed25519FromSeed(1);
+  const current = ed25519FromSeed(2);
+  const keySet: SequencerKeySetV1 = {
+    version: 1,
+    currentKeyId: 'seq-key-2',
+    issuedAt: '2000',
+    keys: [
+      { keyId: 'seq-key-1', publicKey: previous.publicKey, activatesAt: '0', retiresAt: '1500' },
+      { keyId: 'seq-key-2', publicKey: current.publicKey, activatesAt: '1000', retiresAt: null }
+    ]
+  };
+  const signature = `0x${sign(
+    null,
+    Buffer.from(hashSequencerKeySet(keySet).slice(2), 'hex'),
+    previous.privateKey
+  ).toString('hex')}` as const;
+
+  it('accepts a key set signed by a trusted previous key', () => {
+    const keys = verifySequencerKeySet({
+      signed: { keySet, signerKeyId: 'seq-key-1', signature },
+      trustedKeys: { 'seq-key-1': previous.publicKey }
+    });
+    expect(keys.map((key) => key.keyId)).toEqual(['seq-key-1', 'seq-key-2']);
+    expect(isSequencerKeyValidAt(keys[0]!, 1499n)).toBe(true);
+    expect(isSequencerKeyValidAt(keys[0]!, 1500n)).toBe(false);
+  });
+
+  it('verifies authorization signatures against a sequencer key', () => {
+    const authorization: AuthorizationV1 = {
+      version: 1,
+      intentId: `0x${'11'.repeat(32)}`,
+      authId: `0x${'22'.repeat(32)}`,
+      authorizedAmountMicros: '1000',
+      agentId: `0x${'33'.repeat(32)}`,
+      agentNonce: '0',
+      merchantId: `0x${'44'.repeat(32)}`,
+      chainRef: 'eip155:8453',
+      issuedAt: '1100',
+      expiresAt: '1400',
+      sequencerEpochHint: '1',
+      logSeqNo: '1',
+      sequencerKeyId: 'seq-key-2'
+    };
+    const sequencerSig = `0x${sign(
+      null,
+      createHash('sha256').update(canonicalAuthorizationBytes(authorization)).digest(),
+      current.privateKey
+    ).toString('hex')}` as const;
+
+    expect(verifyAuthorizationSignature({ authorization, sequencerSig, publicKey: current.publicKey })).toBe(true);
+    expect(verifyAuthorizationSignature({ authorization, sequencerSig, publicKey: previous.publicKey })).toBe(false);
+    expect(
+      verifyAuthorizationSignature({
+        authorization: { ...authorization, authorizedAmountMicros: '1001' },
+        sequencerSig,
+        publicKey: current.publicKey
+      })
+    ).toBe(false);
+  });
+
+  it('verifies signed merchant records and binds every payout address', () => {
+    const payload: SignedMerchantRecordPayloadV1 = {
+      version: 1,
+      record: {
+        merchantId: `0x${'44'.repeat(32)}`,
+        serviceRegistryId: 'merchant/a',
+        endpointUrl: 'https://merchant.example/api',
+        source: 'ADMIN',
+        payoutAddresses: [{ chainRef: 'eip155:8453', address: `0x${'55'.repeat(20)}` }],
+        updatedAt: '1000'
+      },
+      issuedAt: '1100',
+      sequencerKeyId: 'seq-key-2'
+    };
+    const sequencerSig = `0x${sign(
+      null,
+      createHash('sha256').update(canonicalMerchantRecordBytes(payload)).digest(),
+      current.privateKey
+    ).toString('hex')}` as const;
+    const signed = { ...payload, sequencerSig };
+
+    expect(verifyMerchantRecordSignature({ signed, publicKey: current.publicKey })).toBe(true);
+    expect(verifyMerchantRecordSignature({ signed, publicKey: previous.publicKey })).toBe(false);
+    const redirected = {
+      ...signed,
+      record: { ...signed.record, payoutAddresses: [{ chainRef: 'eip155:8453', address: `0x${'66'.repeat(20)}` }] }
+    };
+    expect(verifyMerchantRecordSignature({ signed: redirected, publicKey: current.publicKey })).toBe(false);
+    expect(verifyMerchantRecordSignature({ signed: { ...signed, issuedAt: '1101' }, publicKey: current.publicKey })).toBe(
+      false
+    );
+  });
+
+  it('rejects tampered sets and untrusted signers', () => {
+    expect(() =>
+      verifySequencerKeySet({
+        signed: { keySet: { ...keySet, issuedAt: '2001' }, signerKeyId: 'seq-key-1', signature },
+        trustedKeys: { 'seq-key-1': previous.publicKey }
+      })
+    ).toThrow('invalid sequencer key set signature');
+    expect(() =>
+      verifySequencerKeySet({
+        signed: { keySet, signerKeyId: 'seq-key-1', signature },
+        trustedKeys: { 'seq-key-2': current.publicKey }
+      })
+    ).toThrow('untrusted key');
+  });
+});
+
+describe('balance receipts', () => {
+  const sequencerKey = createPrivateKey({
+    key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.alloc(32, 3)]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const sequencerPubKey = `0x${Buffer.from(
+    createPublicKey(sequencerKey).export({ format: 'der', type: 'spki' })
+  )
+    .subarray(-32)
+    .toString('hex')}` as const;
+  const signReceipt = (receipt: BalanceReceiptV1) =>
+    `0x${sign(
+      null,
+      createHash('sha256').update(canonicalBalanceReceiptBytes(receipt)).digest(),
+      sequencerKey
+    ).toString('hex')}` as const;
+
+  const first: BalanceReceiptV1 = {
+    version: 1,
+    agentId: `0x${'33'.repeat(32)}`,
+    authId: `0x${'a1'.repeat(32)}`,
+    balanceMicros: '9000',
+    debitedOutstandingMicros: '1000',
+    nextAgentNonce: '1',
+    logSeqNo: '4',
+    prevReceiptHash: `0x${'00'.repeat(32)}`,
+    issuedAt: '1100',
+    sequencerKeyId: 'seq-key-1'
+  };
+  const second: BalanceReceiptV1 = {
+    ...first,
+    authId: `0x${'a2'.repeat(32)}`,
+    balanceMicros: '8500',
+    debitedOutstandingMicros: '1500',
+    nextAgentNonce: '2',
+    logSeqNo: '9',
+    prevReceiptHash: hashBalanceReceipt(first),
+    issuedAt: '1200'
+  };
+  const chain = [first, second].map((receipt) => ({ receipt, balanceReceiptSig: signReceipt(receipt) }));
+  const sequencerKeys = { 'seq-key-1': sequencerPubKey };
+
+  it('encodes receipts with a fixed layout', () => {
+    expect(canonicalBalanceReceiptBytes(first).length).toBe(1 + 32 + 32 + 8 * 4 + 32 + 8 + 2 + 9);
+    expect(() => canonicalBalanceReceiptBytes({ ...first, balanceMicros: '-1' })).toThrow();
+  });
+
+  it('verifies a linked chain and returns its head', () => {
+    expect(verifyBalanceReceiptChain({ receipts: chain, sequencerKeys })).toBe(hashBalanceReceipt(second));
+    expect(
+      verifyBalanceReceiptChain({ receipts: chain.slice(1), sequencerKeys, prevReceiptHash: hashBalanceReceipt(first) })
+    ).toBe(hashBalanceReceipt(second));
+  });
+
+  it('rejects forged, unlinked and reordered receipts', () => {
+    expect(() =>
+      verifyBalanceReceiptChain({
+        receipts: [chain[0]!, { ...chain[1]!, receipt: { ...second, balanceMicros: '9500' } }],
+        sequencerKeys
+      })
+    ).toThrow('invalid signature');
+    const unlinked = { ...second, prevReceiptHash: `0x${'ff'.repeat(32)}` as const };
+    expect(() =>
+      verifyBalanceReceiptChain({
+        receipts: [chain[0]!, { receipt: unlinked, balanceReceiptSig: signReceipt(unlinked) }],
+        sequencerKeys
+      })
+    ).toThrow('does not link');
+    const rewound = { ...second, logSeqNo: '3' };
+    expect(() =>
+      verifyBalanceReceiptChain({
+        receipts: [chain[0]!, { receipt: rewound, balanceReceiptSig: signReceipt(rewound) }],
+        sequencerKeys
+      })
+    ).toThrow('logSeqNo does not increase');
+    expect(() => verifyBalanceReceiptChain({ receipts: chain, sequencerKeys: {} })).toThrow('unknown key');
+  });
+});
+
+describe('disputes', () => {
+  const authId = `0x${'22'.repeat(32)}` as const;
+  const request: DisputeRequestV1 = {
+    version: 1,
+    authId,
+    agentId: `0x${'33'.repeat(32)}`,
+    reasonHash: `0x${'44'.repeat(32)}`,
+    requestedAt: '1700000000'
+  };
+
+  it('derives one dispute id per authorization and distinct event ids', () => {
+    const disputeId = deriveDisputeId(authId);
+    expect(deriveDisputeId(authId)).toBe(disputeId);
+    expect(deriveDisputeId(`0x${'23'.repeat(32)}`)).not.toBe(disputeId);
+    expect(deriveDisputeEventId({ disputeId, seqNo: '7' })).not.toBe(deriveDisputeEventId({ disputeId, seqNo: '8' }));
+  });
+
+  it('encodes requests, evidence and events with fixed layouts', () => {
+    expect(canonicalDisputeRequestBytes(request).length).toBe(1 + 32 * 3 + 8);
+    expect(buildDisputeRequestTypedDataPayload(request).message.requestedAt).toBe(1700000000n);
+    expect(
+      canonicalDisputeEvidenceBytes({
+        version: 1,
+        disputeId: deriveDisputeId(authId),
+        authId,
+        reportId: `0x${'55'.repeat(32)}`,
+        merchantResponseHash: hashMerchantResponse({ status: 200, bodyBase64: '' }),
+        submittedAt: '1700000100',
+        relayerKeyId: 'relayer-key-1'
+      }).length
+    ).toBe(1 + 32 * 4 + 8 + 2 + 13);
+
+    const event: DisputeEventV1 = {
+      version: 1,
+      eventId: deriveDisputeEventId({ disputeId: deriveDisputeId(authId), seqNo: '7' }),
+      disputeId: deriveDisputeId(authId),
+      authId,
+      action: 'CREDITED',
+      amountMicros: '1000',
+      detailHash: `0x${'00'.repeat(32)}`,
+      occurredAt: '1700000200',
+      logSeqNo: '7',
+      sequencerKeyId: 'seq-key-1'
+    };
+    expect(canonicalDisputeEventBytes(event)[1 + 32 * 3]).toBe(3);
+    expect(hashDisputeEvent({ ...event, action: 'REJECTED' })).not.toBe(hashDisputeEvent(event));
+  });
+
+  it('binds the merchant response status and body', () => {
+    const body = Buffer.from('{"ok":true}').toString('base64');
+    const hash = hashMerchantResponse({ status: 200, bodyBase64: body });
+    expect(hashMerchantResponse({ status: 200, bodyBase64: body })).toBe(hash);
+    expect(hashMerchantResponse({ status: 500, bodyBase64: body })).not.toBe(hash);
+    expect(hashMerchantResponse({ status: 200, bodyBase64: '' })).not.toBe(hash);
+  });
+});
+
+describe('funding receipts', () => {
+  const recipientPrivateKey =
+    '0x0707070707070707070707070707070707070707070707070707070707070707' as const;
+  const receipt: FundingReceiptV1 = {
+    version: 1,
+    agentId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    nullifier: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+    amountMicros: '2500000',
+    rho: '0x0000000000000000000000000000000000000000000000000000000000000123'
+  };
+
+  it('round-trips an encrypted receipt for the funding key', () => {
+    const encryptedReceipt = encryptFundingReceipt({
+      receipt,
+      recipientPublicKey: deriveFundingReceiptPublicKey(recipientPrivateKey)
+    });
+    expect(
+      decryptFundingReceipt({
+        encryptedReceipt,
+        recipientPrivateKey,
+        nullifier: receipt.nullifier
+      })
+    ).toEqual(receipt);
+  });
+
+  it('rejects receipts replayed under a different nullifier or key', () => {
+    const encryptedReceipt = encryptFundingReceipt({
+      receipt,
+      recipientPublicKey: deriveFundingReceiptPublicKey(recipientPrivateKey)
+    });
+    expect(() =>
+      decryptFundingReceipt({
+        encryptedReceipt,
+        recipientPrivateKey,
+        nullifier: '0xcccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccc'
+      })
+    ).toThrow('funding receipt decryption failed');
+    expect(() =>
+      decryptFundingReceipt({
+        encryptedReceipt,
+        recipientPrivateKey:
+          '0x0808080808080808080808080808080808080808080808080808080808080808',
+        nullifier: receipt.nullifier
+      })
+    ).toThrow('funding receipt decryption failed');
+  });
+});
+
 describe('leaf and merkle proofs', () => {
   it('verifies inclusion proofs', () => {
     const authHash = '0xcccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccc';
@@ -1,26 +1,103 @@
-import { createHash } from 'node:crypto';
-import type { Hex } from './types.js';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  verify,
+  type KeyObject
+} from 'node:crypto';
+import type { CanonicalAgentProfile, Hex } from './types.js';
 import { isHex32, normalizeHex } from './hex.js';
 
 export const X402_DOMAIN_TAGS = {
   intentV1: 'x402:intent:v1',
   authorizationV1: 'x402:authorization:v1',
   authLeafV1: 'x402:authleaf:v1',
-  executionReportV1: 'x402:execution-report:v1'
+  executionReportV1: 'x402:execution-report:v1',
+  fundingReceiptV1: 'x402:funding-receipt:v1',
+  agentQueryV1: 'x402:agent-query:v1',
+  agentPolicyV1: 'x402:agent-policy:v1',
+  sequencerKeySetV1: 'x402:sequencer-keyset:v1',
+  withdrawIntentV1: 'x402:withdraw-intent:v1',
+  withdrawalV1: 'x402:withdrawal:v1',
+  balanceReceiptV1: 'x402:balance-receipt:v1',
+  disputeV1: 'x402:dispute:v1',
+  disputeEvidenceV1: 'x402:dispute-evidence:v1',
+  disputeEventV1: 'x402:dispute-event:v1'
 } as const;
 
 export const OPTIONAL_INTENT_BITMAP = {
   serviceHash: 1 << 0,
-  memoHash: 1 << 1
+  memoHash: 1 << 1,
+  maxFeeMicros: 1 << 2
 } as const;
 
+export const OPTIONAL_AGENT_POLICY_BITMAP = {
+  maxAmountPerAuthMicros: 1 << 0,
+  hourlyCapMicros: 1 << 1,
+  dailyCapMicros: 1 << 2,
+  merchantAllowlist: 1 << 3,
+  merchantDenylist: 1 << 4,
+  allowedChainRefs: 1 << 5
+} as const;
+
+/** Error codes returned by `/v1/credit/authorize` when an intent violates the agent's policy. */
+export const AGENT_POLICY_ERROR_CODES = {
+  amountExceeded: 'POLICY_AMOUNT_EXCEEDED',
+  hourlyCapExceeded: 'POLICY_HOURLY_CAP_EXCEEDED',
+  dailyCapExceeded: 'POLICY_DAILY_CAP_EXCEEDED',
+  merchantNotAllowed: 'POLICY_MERCHANT_NOT_ALLOWED',
+  chainNotAllowed: 'POLICY_CHAIN_NOT_ALLOWED',
+  versionNotIncreasing: 'POLICY_VERSION_NOT_INCREASING'
+} as const;
+
+export type AgentPolicyErrorCode = (typeof AGENT_POLICY_ERROR_CODES)[keyof typeof AGENT_POLICY_ERROR_CODES];
+
 export const SEQUENCER_ROUTES_V1 = {
   authorize: '/v1/credit/authorize',
   executions: '/v1/credit/executions',
   reclaim: '/v1/credit/reclaim',
   commitmentsLatest: '/v1/commitments/latest',
   commitmentsProof: '/v1/commitments/proof',
-  adminCredit: '/v1/admin/credit'
+  funding: '/v1/credit/funding',
+  agents: '/v1/credit/agents',
+  adminCredit: '/v1/admin/credit',
+  withdrawals: '/v1/credit/withdrawals',
+  disputes: '/v1/credit/disputes',
+  fees: '/v1/credit/fees',
+  merchants: '/v1/credit/merchants',
+  keys: '/v1/keys'
+} as const;
+
+export const AGENT_QUERY_HEADERS = {
+  requestedAt: 'x-agent-requested-at',
+  signature: 'x-agent-signature',
+  pubKey: 'x-agent-pubkey',
+  signatureScheme: 'x-agent-signature-scheme'
+} as const;
+
+export const MERCHANT_QUERY_HEADERS = {
+  serviceRegistryId: 'x-merchant-service-registry-id',
+  keyId: 'x-merchant-key-id',
+  requestedAt: 'x-merchant-requested-at',
+  signature: 'x-merchant-signature'
+} as const;
+
+export const RELAYER_QUERY_HEADERS = {
+  chainRef: 'x-relayer-chain-ref',
+  keyId: 'x-relayer-key-id',
+  requestedAt: 'x-relayer-requested-at',
+  signature: 'x-relayer-signature'
+} as const;
+
+/** Response headers a merchant sets to capture less than the authorized amount. */
+export const MERCHANT_RESPONSE_HEADERS = {
+  executedAmountMicros: 'x-executed-amount-micros'
 } as const;
 
 export const RELAYER_ROUTES_V1 = {
@@ -32,7 +109,8 @@ export type SignatureScheme = 'eip712-secp256k1' | 'ed25519-sha256-v1';
 export type AuthorizationStatus = 'ISSUED' | 'EXECUTED' | 'RECLAIMED';
 
 export interface IntentV1 {
-  version: 1;
+  /** Version 2 adds `nonceLane`/`laneSeq`; `agentNonce` must then equal `deriveLaneAgentNonce`. */
+  version: 1 | 2;
   agentId: Hex;
   agentPubKey: Hex;
   signatureScheme: SignatureScheme;
@@ -44,13 +122,21 @@ export interface IntentV1 {
   requestId: Hex;
   serviceHash?: Hex;
   memoHash?: Hex;
+  nonceLane?: number;
+  laneSeq?: string;
+  /** Version 2 only: highest relayer fee the agent accepts; the sequencer refuses to charge more. */
+  maxFeeMicros?: string;
 }
 
 export interface AuthorizationV1 {
-  version: 1;
+  /** Version 2 adds `feeMicros`; the sequencer issues version 2 only. */
+  version: 1 | 2;
   intentId: Hex;
   authId: Hex;
+  /** Amount paid to the merchant; the agent is debited this plus `feeMicros`. */
   authorizedAmountMicros: string;
+  /** Relayer fee from the sequencer's fee schedule; accrued to the relayer on SUCCESS, returned on reclaim. */
+  feeMicros?: string;
   agentId: Hex;
   agentNonce: string;
   merchantId: Hex;
@@ -62,22 +148,73 @@ export interface AuthorizationV1 {
   sequencerKeyId: string;
 }
 
+/** Relayer fee for one chain: `flatMicros + floor(amountMicros * bps / 10000)`. */
+export interface FeeScheduleEntryV1 {
+  chainRef: string;
+  flatMicros: string;
+  bps: number;
+}
+
+export interface FeeQuoteV1 {
+  chainRef: string;
+  amountMicros: string;
+  feeMicros: string;
+  /** What the agent's balance must cover: `amountMicros + feeMicros`. */
+  totalMicros: string;
+}
+
+/** Fees earned by one relayer key from SUCCESS executions it reported. */
+export interface RelayerFeeAccountV1 {
+  chainRef: string;
+  relayerKeyId: string;
+  accruedMicros: string;
+  executionsCount: string;
+  updatedAt: string;
+}
+
 export interface AuthorizeRequestV1 {
   intent: IntentV1;
   agentSig: Hex;
 }
 
+/**
+ * Sequencer-signed snapshot of an agent account right after an authorization. Receipts for
+ * one agent form a hash chain through `prevReceiptHash` (zero for the first receipt).
+ */
+export interface BalanceReceiptV1 {
+  version: 1;
+  agentId: Hex;
+  authId: Hex;
+  balanceMicros: string;
+  debitedOutstandingMicros: string;
+  nextAgentNonce: string;
+  logSeqNo: string;
+  prevReceiptHash: Hex;
+  issuedAt: string;
+  sequencerKeyId: string;
+}
+
 export interface AuthorizeResponseV1 {
   authorization: AuthorizationV1;
   sequencerSig: Hex;
+  /** Absent only when replaying an authorization issued before balance receipts existed. */
+  balanceReceipt?: BalanceReceiptV1;
+  balanceReceiptSig?: Hex;
   idempotent: boolean;
 }
 
 export interface ExecutionReportV1 {
+  /**
+   * Version 2 adds `executedAmountMicros`. A version 1 report carries no version byte on the wire
+   * and captures the full authorized amount on SUCCESS.
+   */
+  version: 1 | 2;
   authId: Hex;
   chainRef: string;
   executionTxHash: string;
   status: 'SUCCESS' | 'FAILED';
+  /** Amount captured from the hold; the rest returns to the agent. Must be `0` for FAILED. */
+  executedAmountMicros?: string;
   reportId: Hex;
   reportedAt: string;
   relayerKeyId: string;
@@ -92,6 +229,414 @@ export interface ReclaimRequestV1 {
   agentSig?: Hex;
 }
 
+/**
+ * Short-lived agent-signed envelope for read-only sequencer queries. `resource` is
+ * the request path including its query string, so a signature cannot be replayed
+ * against a different resource.
+ */
+export interface AgentQueryV1 {
+  agentId: Hex;
+  resource: string;
+  requestedAt: string;
+}
+
+/**
+ * Merchant-signed envelope for read-only sequencer queries, signed with a key registered
+ * for `serviceRegistryId`. `resource` is the request path including its query string.
+ */
+export interface MerchantQueryV1 {
+  serviceRegistryId: string;
+  keyId: string;
+  resource: string;
+  requestedAt: string;
+}
+
+/**
+ * Relayer-signed envelope for read-only sequencer queries, signed with a key registered
+ * for `chainRef`. `resource` is the request path including its query string.
+ */
+export interface RelayerQueryV1 {
+  chainRef: string;
+  keyId: string;
+  resource: string;
+  requestedAt: string;
+}
+
+export interface NonceLaneV1 {
+  nonceLane: number;
+  nextLaneSeq: string;
+}
+
+export interface AgentAccountV1 {
+  agentId: Hex;
+  balanceMicros: string;
+  creditedMicros: string;
+  debitedOutstandingMicros: string;
+  withdrawnMicros: string;
+  nextAgentNonce: string;
+  /** Next sequence for each nonce lane above 0 the agent has used; lane 0 is `nextAgentNonce`. */
+  nonceLanes: NonceLaneV1[];
+  openAuthorizations: number;
+  signatureScheme: SignatureScheme | null;
+  updatedAt: string;
+}
+
+export interface AuthorizationHistoryQueryV1 {
+  status?: AuthorizationStatus;
+  chainRef?: string;
+  merchantId?: Hex;
+  fromIssuedAt?: string;
+  toIssuedAt?: string;
+  /** `logSeqNo` of the last item of the previous page; items are returned newest first. */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AuthorizationExecutionV1 {
+  chainRef: string;
+  executionTxHash: string;
+  status: ExecutionReportV1['status'];
+  executedAmountMicros: string;
+  relayerKeyId: string | null;
+  reportedAt: string;
+}
+
+export interface FailedExecutionAttemptV1 {
+  reportId: Hex;
+  executionTxHash: string;
+  reporterKeyId: string;
+  reportedAt: string;
+}
+
+export interface AuthorizationHistoryItemV1 {
+  authorization: AuthorizationV1;
+  sequencerSig: Hex;
+  balanceReceipt?: BalanceReceiptV1;
+  balanceReceiptSig?: Hex;
+  status: AuthorizationStatus;
+  executedAt: string | null;
+  reclaimedAt: string | null;
+  execution: AuthorizationExecutionV1 | null;
+  failedAttempts: FailedExecutionAttemptV1[];
+}
+
+export interface AuthorizationHistoryPageV1 {
+  items: AuthorizationHistoryItemV1[];
+  nextCursor: string | null;
+}
+
+/**
+ * Settlement statement window over `executedAt`: `[fromExecutedAt, toExecutedAt)`.
+ * `endpointUrl` together with the authenticated `serviceRegistryId` must derive the
+ * statement's `merchantId`.
+ */
+export interface MerchantStatementQueryV1 {
+  endpointUrl: string;
+  fromExecutedAt: string;
+  toExecutedAt: string;
+  chainRef?: string;
+  /** `logSeqNo` of the last line of the previous page; lines are returned oldest first. */
+  cursor?: string;
+  limit?: number;
+}
+
+/** Where an authorization sits in the commitment log; `epochId` is null until it is committed. */
+export interface InclusionProofRefV1 {
+  logSeqNo: string;
+  leafHash: Hex;
+  epochId: string | null;
+}
+
+export interface MerchantStatementLineV1 {
+  authId: Hex;
+  chainRef: string;
+  authorizedAmountMicros: string;
+  executedAmountMicros: string;
+  executionTxHash: string;
+  relayerKeyId: string | null;
+  executedAt: string;
+  inclusion: InclusionProofRefV1;
+}
+
+export interface MerchantChainTotalV1 {
+  chainRef: string;
+  executedMicros: string;
+  executions: number;
+}
+
+export interface MerchantStatementV1 {
+  merchantId: Hex;
+  fromExecutedAt: string;
+  toExecutedAt: string;
+  /** Totals over the whole window, not just this page. */
+  totals: MerchantChainTotalV1[];
+  lines: MerchantStatementLineV1[];
+  nextCursor: string | null;
+}
+
+export interface MerchantPayoutAddressV1 {
+  chainRef: string;
+  /** `0x` address on `eip155:*` chains, base58 public key on `solana:*` chains. */
+  address: string;
+}
+
+export type MerchantRecordSource = 'ADMIN' | 'ERC8004';
+
+/** Where relayers pay a merchant, per chainRef. Served at `GET /v1/credit/merchants/:merchantId`. */
+export interface MerchantRecordV1 {
+  merchantId: Hex;
+  serviceRegistryId: string;
+  /** Normalized with `normalizeMerchantEndpointUrl`. */
+  endpointUrl: string;
+  source: MerchantRecordSource;
+  payoutAddresses: MerchantPayoutAddressV1[];
+  updatedAt: string;
+}
+
+/**
+ * `GET /v1/credit/merchants/:merchantId` response. Relayers pay only addresses the sequencer
+ * signed; `issuedAt` lets them refuse a stale copy replayed after the record changed.
+ */
+export interface SignedMerchantRecordV1 {
+  version: 1;
+  record: MerchantRecordV1;
+  issuedAt: string;
+  sequencerKeyId: string;
+  sequencerSig: Hex;
+}
+
+export type SignedMerchantRecordPayloadV1 = Omit<SignedMerchantRecordV1, 'sequencerSig'>;
+
+/**
+ * Admin registration of a merchant's payout addresses, replacing any previous set. With
+ * `erc8004Profile`, addresses are seeded from the profile's `agentWallet` endpoints and
+ * explicit `payoutAddresses` take precedence per chainRef.
+ */
+export interface MerchantRegistrationV1 {
+  serviceRegistryId: string;
+  endpointUrl: string;
+  payoutAddresses?: MerchantPayoutAddressV1[];
+  erc8004Profile?: CanonicalAgentProfile;
+}
+
+/**
+ * Spending policy set by the agent. Each update replaces the previous policy and must
+ * carry a strictly greater `policyVersion`. Omitted limits are not enforced.
+ */
+export interface AgentPolicyV1 {
+  version: 1;
+  agentId: Hex;
+  agentPubKey: Hex;
+  signatureScheme: SignatureScheme;
+  policyVersion: string;
+  maxAmountPerAuthMicros?: string;
+  hourlyCapMicros?: string;
+  dailyCapMicros?: string;
+  merchantAllowlist?: Hex[];
+  merchantDenylist?: Hex[];
+  allowedChainRefs?: string[];
+}
+
+export interface AgentPolicyUpdateRequestV1 {
+  policy: AgentPolicyV1;
+  agentSig: Hex;
+}
+
+export interface AgentPolicyResponseV1 {
+  policy: AgentPolicyV1 | null;
+  updatedAt: string | null;
+}
+
+/**
+ * A sequencer signing key. Authorizations signed by the key verify only if issued in
+ * `[activatesAt, retiresAt)`; a retired key stays listed so older authorizations still verify.
+ */
+export interface SequencerKeyV1 {
+  keyId: string;
+  publicKey: Hex;
+  activatesAt: string;
+  retiresAt: string | null;
+}
+
+export interface SequencerKeySetV1 {
+  version: 1;
+  currentKeyId: string;
+  issuedAt: string;
+  keys: SequencerKeyV1[];
+}
+
+/**
+ * Published key set. `signerKeyId` is the key that preceded the current one (or the current
+ * key when there is no predecessor), so holders of the previous key can adopt the new one.
+ */
+export interface SignedSequencerKeySetV1 {
+  keySet: SequencerKeySetV1;
+  signerKeyId: string;
+  signature: Hex;
+}
+
+/**
+ * Agent-signed request to move unused credit back into the shielded pool. `commitment` is a
+ * note commitment the agent built for itself; the sequencer deposits `amountMicros` against it.
+ * Withdrawals consume the same `agentNonce` sequence as payment intents.
+ */
+export interface WithdrawIntentV1 {
+  /** Version 2 adds `nonceLane`/`laneSeq`, with the same rules as `IntentV1`. */
+  version: 1 | 2;
+  agentId: Hex;
+  agentPubKey: Hex;
+  signatureScheme: SignatureScheme;
+  agentNonce: string;
+  amountMicros: string;
+  commitment: Hex;
+  expiresAt: string;
+  requestId: Hex;
+  nonceLane?: number;
+  laneSeq?: string;
+}
+
+export interface WithdrawalV1 {
+  version: 1;
+  withdrawalId: Hex;
+  intentId: Hex;
+  agentId: Hex;
+  agentNonce: string;
+  amountMicros: string;
+  commitment: Hex;
+  issuedAt: string;
+  logSeqNo: string;
+  sequencerKeyId: string;
+}
+
+export type WithdrawalStatus = 'PENDING' | 'POSTED';
+
+export interface WithdrawRequestV1 {
+  intent: WithdrawIntentV1;
+  agentSig: Hex;
+}
+
+export interface WithdrawResponseV1 {
+  withdrawal: WithdrawalV1;
+  sequencerSig: Hex;
+  /** Absent only when replaying a withdrawal issued before withdrawals carried balance receipts. */
+  balanceReceipt?: BalanceReceiptV1;
+  balanceReceiptSig?: Hex;
+  status: WithdrawalStatus;
+  depositTxHash: Hex | null;
+  idempotent: boolean;
+}
+
+/**
+ * Agent-signed dispute of an executed authorization, e.g. when the merchant never delivered.
+ * Signed with the agent key already bound to `agentId`, like agent reclaims.
+ */
+export interface DisputeRequestV1 {
+  version: 1;
+  authId: Hex;
+  agentId: Hex;
+  reasonHash: Hex;
+  requestedAt: string;
+}
+
+export interface FileDisputeRequestV1 {
+  dispute: DisputeRequestV1;
+  agentSig: Hex;
+}
+
+/**
+ * Relayer-signed answer to a dispute: the execution report it filed and the hash of the
+ * merchant response it received (`hashMerchantResponse`).
+ */
+export interface DisputeEvidenceV1 {
+  version: 1;
+  disputeId: Hex;
+  authId: Hex;
+  reportId: Hex;
+  merchantResponseHash: Hex;
+  submittedAt: string;
+  relayerKeyId: string;
+}
+
+export interface SubmitDisputeEvidenceRequestV1 {
+  evidence: DisputeEvidenceV1;
+  relayerSig: Hex;
+  report: ExecutionReportV1;
+}
+
+export type DisputeStatus = 'OPEN' | 'EVIDENCE_SUBMITTED' | 'CREDITED' | 'REJECTED';
+
+export type DisputeEventAction = 'FILED' | 'EVIDENCE_SUBMITTED' | 'CREDITED' | 'REJECTED';
+
+/**
+ * One step of a dispute. Each event is appended to the commitment log as its own leaf, so
+ * `GET /v1/commitments/proof?authId=<eventId>` proves it like an authorization.
+ */
+export interface DisputeEventV1 {
+  version: 1;
+  eventId: Hex;
+  disputeId: Hex;
+  authId: Hex;
+  action: DisputeEventAction;
+  amountMicros: string;
+  detailHash: Hex;
+  occurredAt: string;
+  logSeqNo: string;
+  sequencerKeyId: string;
+}
+
+export interface DisputeResolutionRequestV1 {
+  outcome: 'CREDIT' | 'REJECT';
+  /** Defaults to the executed amount when crediting. */
+  amountMicros?: string;
+  reasonHash?: Hex;
+}
+
+export interface DisputeV1 {
+  disputeId: Hex;
+  authId: Hex;
+  agentId: Hex;
+  chainRef: string;
+  status: DisputeStatus;
+  request: DisputeRequestV1;
+  agentSig: Hex;
+  filedAt: string;
+  evidenceDueAt: string;
+  evidence: { evidence: DisputeEvidenceV1; relayerSig: Hex } | null;
+  creditedMicros: string;
+  resolvedAt: string | null;
+  resolvedBy: 'admin' | 'rule' | null;
+  events: DisputeEventV1[];
+}
+
+export type FundingStatus = 'PENDING' | 'CREDITED' | 'REJECTED';
+
+/**
+ * Plaintext of the encrypted receipt attached to a shielded spend whose merchant
+ * output is addressed to the sequencer funding key. It binds the spend (by
+ * nullifier) and the note opening (`amountMicros`, `rho`) to the credited agent.
+ */
+export interface FundingReceiptV1 {
+  version: 1;
+  agentId: Hex;
+  nullifier: Hex;
+  amountMicros: string;
+  rho: Hex;
+}
+
+export interface FundingClaimRequestV1 {
+  nullifier: Hex;
+  encryptedReceipt: Hex;
+}
+
+export interface FundingClaimResponseV1 {
+  nullifier: Hex;
+  agentId: Hex;
+  amountMicros: string;
+  status: FundingStatus;
+  spentTxHash?: Hex;
+  creditedAt?: string;
+}
+
 export type SignedExecutionReportPayloadV1 = Omit<ExecutionReportV1, 'reportSig'>;
 
 export type SignedReclaimPayloadV1 = Omit<ReclaimRequestV1, 'agentSig'>;
@@ -113,6 +658,8 @@ export interface InclusionProofV1 {
   merkleProof: Hex[];
   leafIndex: number;
   logSeqNo: string;
+  /** Leaf hash chained into `leafHash`, so a verifier can recompute the leaf from the authorization. */
+  prevLeafHash: Hex;
   prevRoot: Hex;
   authId: Hex;
   leafSalt: Hex;
@@ -120,6 +667,22 @@ export interface InclusionProofV1 {
   commitTxHash?: Hex;
 }
 
+export interface CommitmentLeafV1 {
+  logSeqNo: string;
+  leafHash: Hex;
+  prevLeafHash: Hex;
+}
+
+/** Leaves of one committed epoch in log order; leaf hashes are salted, so they reveal no authorizations. */
+export interface CommitmentEpochLeavesV1 {
+  epochId: string;
+  root: Hex;
+  count: number;
+  prevRoot: Hex;
+  sequencerKeyId: string;
+  leaves: CommitmentLeafV1[];
+}
+
 export interface RelayPayRequestV1 {
   authorization: AuthorizationV1;
   sequencerSig: Hex;
@@ -131,10 +694,20 @@ export interface RelayPayRequestV1 {
   };
 }
 
+/**
+ * Whether the relayer's signed execution report reached the sequencer. `PENDING` reports sit in the
+ * relayer's durable outbox and are retried until the sequencer accepts them. `REJECTED` reports were
+ * refused by the sequencer (or could not be signed) and are not retried; the payout itself still
+ * stands and needs operator follow-up.
+ */
+export type RelayReportStatusV1 = 'REPORTED' | 'PENDING' | 'REJECTED';
+
 export interface RelayPayResponseV1 {
   executionTxHash: string;
   authId: Hex;
   status: 'DONE' | 'FAILED';
+  /** Set once the payout ran; absent when the relay failed before executing. */
+  reportStatus?: RelayReportStatusV1;
   failureReason?: string;
   merchantResult?: {
     status: number;
@@ -224,11 +797,63 @@ function buildIntentOptionalBitmap(intent: IntentV1): number {
   let bitmap = 0;
   if (intent.serviceHash) bitmap |= OPTIONAL_INTENT_BITMAP.serviceHash;
   if (intent.memoHash) bitmap |= OPTIONAL_INTENT_BITMAP.memoHash;
+  if (intent.maxFeeMicros !== undefined) bitmap |= OPTIONAL_INTENT_BITMAP.maxFeeMicros;
   return bitmap;
 }
 
+/** Lane sequences occupy the low 48 bits of `agentNonce`; lane 0 is the legacy nonce sequence. */
+export const NONCE_LANE_SEQ_BITS = 48;
+export const MAX_NONCE_LANE = 0xff;
+
+export function deriveLaneAgentNonce(input: { nonceLane: number; laneSeq: string }): string {
+  if (!Number.isInteger(input.nonceLane) || input.nonceLane < 0 || input.nonceLane > MAX_NONCE_LANE) {
+    throw new Error(`nonceLane out of range: ${input.nonceLane}`);
+  }
+  const laneSeq = parseUint64String(input.laneSeq, 'laneSeq');
+  if (laneSeq >= 1n << BigInt(NONCE_LANE_SEQ_BITS)) {
+    throw new Error('laneSeq out of range');
+  }
+  return ((BigInt(input.nonceLane) << BigInt(NONCE_LANE_SEQ_BITS)) | laneSeq).toString();
+}
+
+export function splitLaneAgentNonce(agentNonce: string): { nonceLane: number; laneSeq: string } {
+  const nonce = parseUint64String(agentNonce, 'agentNonce');
+  const nonceLane = nonce >> BigInt(NONCE_LANE_SEQ_BITS);
+  if (nonceLane > BigInt(MAX_NONCE_LANE)) {
+    throw new Error('agentNonce lane out of range');
+  }
+  return {
+    nonceLane: Number(nonceLane),
+    laneSeq: (nonce & ((1n << BigInt(NONCE_LANE_SEQ_BITS)) - 1n)).toString()
+  };
+}
+
+function assertIntentNonceLane(intent: Pick<IntentV1, 'version' | 'agentNonce' | 'nonceLane' | 'laneSeq'>): void {
+  if (intent.version === 1) {
+    if (intent.nonceLane !== undefined || intent.laneSeq !== undefined) {
+      throw new Error('nonceLane and laneSeq require intent version 2');
+    }
+    return;
+  }
+  if (intent.nonceLane === undefined || intent.laneSeq === undefined) {
+    throw new Error('intent version 2 requires nonceLane and laneSeq');
+  }
+  const expected = deriveLaneAgentNonce({ nonceLane: intent.nonceLane, laneSeq: intent.laneSeq });
+  if (parseUint64String(intent.agentNonce, 'agentNonce').toString() !== expected) {
+    throw new Error('agentNonce does not match nonceLane and laneSeq');
+  }
+}
+
+function assertIntentMaxFee(intent: Pick<IntentV1, 'version' | 'maxFeeMicros'>): void {
+  if (intent.version === 1 && intent.maxFeeMicros !== undefined) {
+    throw new Error('maxFeeMicros requires intent version 2');
+  }
+}
+
 export function canonicalIntentBytes(intent: IntentV1): Buffer {
-  if (intent.version !== 1) throw new Error('Intent version must be 1');
+  if (intent.version !== 1 && intent.version !== 2) throw new Error('Intent version must be 1 or 2');
+  assertIntentNonceLane(intent);
+  assertIntentMaxFee(intent);
 
   const signatureSchemeCode =
     intent.signatureScheme === 'eip712-secp256k1'
@@ -251,6 +876,9 @@ export function canonicalIntentBytes(intent: IntentV1): Buffer {
       return Buffer.concat([encodeU16(pubKeyBytes.length), pubKeyBytes]);
     })(),
     encodeU64(intent.agentNonce, 'agentNonce'),
+    ...(intent.version === 2
+      ? [encodeU8(intent.nonceLane as number), encodeU64(intent.laneSeq as string, 'laneSeq')]
+      : []),
     encodeU64(intent.amountMicros, 'amountMicros'),
     encodeHex32(intent.merchantId, 'merchantId'),
     encodeUtf8WithU16Length(intent.requiredChainRef, 'requiredChainRef'),
@@ -265,13 +893,22 @@ export function canonicalIntentBytes(intent: IntentV1): Buffer {
   if (bitmap & OPTIONAL_INTENT_BITMAP.memoHash) {
     fields.push(encodeHex32(intent.memoHash as Hex, 'memoHash'));
   }
+  if (bitmap & OPTIONAL_INTENT_BITMAP.maxFeeMicros) {
+    fields.push(encodeU64(intent.maxFeeMicros as string, 'maxFeeMicros'));
+  }
 
   return Buffer.concat(fields);
 }
 
 export function canonicalAuthorizationBytes(authorization: AuthorizationV1): Buffer {
-  if (authorization.version !== 1) {
-    throw new Error('Authorization version must be 1');
+  if (authorization.version !== 1 && authorization.version !== 2) {
+    throw new Error('Authorization version must be 1 or 2');
+  }
+  if (authorization.version === 1 && authorization.feeMicros !== undefined) {
+    throw new Error('feeMicros requires authorization version 2');
+  }
+  if (authorization.version === 2 && authorization.feeMicros === undefined) {
+    throw new Error('authorization version 2 requires feeMicros');
   }
   if (authorization.sequencerKeyId.trim().length === 0) {
     throw new Error('sequencerKeyId is required');
@@ -282,6 +919,7 @@ export function canonicalAuthorizationBytes(authorization: AuthorizationV1): Buf
     encodeHex32(authorization.intentId, 'intentId'),
     encodeHex32(authorization.authId, 'authId'),
     encodeU64(authorization.authorizedAmountMicros, 'authorizedAmountMicros'),
+    ...(authorization.version === 2 ? [encodeU64(authorization.feeMicros as string, 'feeMicros')] : []),
     encodeHex32(authorization.agentId, 'agentId'),
     encodeU64(authorization.agentNonce, 'agentNonce'),
     encodeHex32(authorization.merchantId, 'merchantId'),
@@ -300,11 +938,25 @@ export function canonicalExecutionReportBytes(report: SignedExecutionReportPaylo
   if (statusCode === 0) {
     throw new Error(`unsupported execution status: ${String(report.status)}`);
   }
+  if (report.version !== 1 && report.version !== 2) {
+    throw new Error('ExecutionReport version must be 1 or 2');
+  }
+  if (report.version === 1 && report.executedAmountMicros !== undefined) {
+    throw new Error('executedAmountMicros requires execution report version 2');
+  }
+  if (report.version === 2 && report.executedAmountMicros === undefined) {
+    throw new Error('execution report version 2 requires executedAmountMicros');
+  }
+  // Version 1 predates the version byte; its layout is kept byte-for-byte so existing signatures verify.
   return Buffer.concat([
+    ...(report.version === 2 ? [encodeU8(report.version)] : []),
     encodeHex32(report.authId, 'authId'),
     encodeUtf8WithU16Length(report.chainRef, 'chainRef'),
     encodeUtf8WithU16Length(report.executionTxHash, 'executionTxHash'),
     encodeU8(statusCode),
+    ...(report.version === 2
+      ? [encodeU64(report.executedAmountMicros as string, 'executedAmountMicros')]
+      : []),
     encodeHex32(report.reportId, 'reportId'),
     encodeU64(report.reportedAt, 'reportedAt'),
     encodeUtf8WithU16Length(report.relayerKeyId, 'relayerKeyId')
@@ -331,21 +983,626 @@ export function canonicalReclaimRequestBytes(request: SignedReclaimPayloadV1): B
   ]);
 }
 
-export function hashIntent(intent: IntentV1): Hex {
-  return hashWithTag(X402_DOMAIN_TAGS.intentV1, canonicalIntentBytes(intent));
+export function canonicalAgentQueryBytes(query: AgentQueryV1): Buffer {
+  return Buffer.concat([
+    encodeHex32(query.agentId, 'agentId'),
+    encodeUtf8WithU16Length(query.resource, 'resource'),
+    encodeU64(query.requestedAt, 'requestedAt')
+  ]);
 }
 
-export function hashAuthorization(authorization: AuthorizationV1): Hex {
-  return hashWithTag(X402_DOMAIN_TAGS.authorizationV1, canonicalAuthorizationBytes(authorization));
+export function canonicalMerchantQueryBytes(query: MerchantQueryV1): Buffer {
+  return Buffer.concat([
+    encodeUtf8WithU16Length(query.serviceRegistryId, 'serviceRegistryId'),
+    encodeUtf8WithU16Length(query.keyId, 'keyId'),
+    encodeUtf8WithU16Length(query.resource, 'resource'),
+    encodeU64(query.requestedAt, 'requestedAt')
+  ]);
 }
 
-export function hashExecutionReport(report: SignedExecutionReportPayloadV1): Hex {
-  return hashWithTag(X402_DOMAIN_TAGS.executionReportV1, canonicalExecutionReportBytes(report));
+export function canonicalRelayerQueryBytes(query: RelayerQueryV1): Buffer {
+  return Buffer.concat([
+    encodeUtf8WithU16Length(query.chainRef, 'chainRef'),
+    encodeUtf8WithU16Length(query.keyId, 'keyId'),
+    encodeUtf8WithU16Length(query.resource, 'resource'),
+    encodeU64(query.requestedAt, 'requestedAt')
+  ]);
 }
 
-export function deriveAuthorizationId(input: {
-  intentId: Hex;
-  sequencerEpoch: string;
+function buildAgentPolicyOptionalBitmap(policy: AgentPolicyV1): number {
+  let bitmap = 0;
+  if (policy.maxAmountPerAuthMicros !== undefined) {
+    bitmap |= OPTIONAL_AGENT_POLICY_BITMAP.maxAmountPerAuthMicros;
+  }
+  if (policy.hourlyCapMicros !== undefined) bitmap |= OPTIONAL_AGENT_POLICY_BITMAP.hourlyCapMicros;
+  if (policy.dailyCapMicros !== undefined) bitmap |= OPTIONAL_AGENT_POLICY_BITMAP.dailyCapMicros;
+  if (policy.merchantAllowlist !== undefined) bitmap |= OPTIONAL_AGENT_POLICY_BITMAP.merchantAllowlist;
+  if (policy.merchantDenylist !== undefined) bitmap |= OPTIONAL_AGENT_POLICY_BITMAP.merchantDenylist;
+  if (policy.allowedChainRefs !== undefined) bitmap |= OPTIONAL_AGENT_POLICY_BITMAP.allowedChainRefs;
+  return bitmap;
+}
+
+function encodeHex32List(values: Hex[], label: string): Buffer {
+  return Buffer.concat([
+    encodeU16(values.length),
+    ...values.map((value, index) => encodeHex32(value, `${label}[${index}]`))
+  ]);
+}
+
+function encodeUtf8List(values: string[], label: string): Buffer {
+  return Buffer.concat([
+    encodeU16(values.length),
+    ...values.map((value, index) => encodeUtf8WithU16Length(value, `${label}[${index}]`))
+  ]);
+}
+
+export function canonicalAgentPolicyBytes(policy: AgentPolicyV1): Buffer {
+  if (policy.version !== 1) throw new Error('AgentPolicy version must be 1');
+  const pubKeyBytes = encodeHexBytes(policy.agentPubKey, 'agentPubKey');
+  const bitmap = buildAgentPolicyOptionalBitmap(policy);
+
+  const fields = [
+    encodeU8(policy.version),
+    encodeHex32(policy.agentId, 'agentId'),
+    encodeU8(policy.signatureScheme === 'eip712-secp256k1' ? 1 : 2),
+    encodeU16(pubKeyBytes.length),
+    pubKeyBytes,
+    encodeU64(policy.policyVersion, 'policyVersion'),
+    encodeU8(bitmap)
+  ];
+  if (policy.maxAmountPerAuthMicros !== undefined) {
+    fields.push(encodeU64(policy.maxAmountPerAuthMicros, 'maxAmountPerAuthMicros'));
+  }
+  if (policy.hourlyCapMicros !== undefined) {
+    fields.push(encodeU64(policy.hourlyCapMicros, 'hourlyCapMicros'));
+  }
+  if (policy.dailyCapMicros !== undefined) {
+    fields.push(encodeU64(policy.dailyCapMicros, 'dailyCapMicros'));
+  }
+  if (policy.merchantAllowlist !== undefined) {
+    fields.push(encodeHex32List(policy.merchantAllowlist, 'merchantAllowlist'));
+  }
+  if (policy.merchantDenylist !== undefined) {
+    fields.push(encodeHex32List(policy.merchantDenylist, 'merchantDenylist'));
+  }
+  if (policy.allowedChainRefs !== undefined) {
+    fields.push(encodeUtf8List(policy.allowedChainRefs, 'allowedChainRefs'));
+  }
+  return Buffer.concat(fields);
+}
+
+export function canonicalWithdrawIntentBytes(intent: WithdrawIntentV1): Buffer {
+  if (intent.version !== 1 && intent.version !== 2) throw new Error('WithdrawIntent version must be 1 or 2');
+  assertIntentNonceLane(intent);
+  const pubKeyBytes = encodeHexBytes(intent.agentPubKey, 'agentPubKey');
+  return Buffer.concat([
+    encodeU8(intent.version),
+    encodeHex32(intent.agentId, 'agentId'),
+    encodeU8(intent.signatureScheme === 'eip712-secp256k1' ? 1 : 2),
+    encodeU16(pubKeyBytes.length),
+    pubKeyBytes,
+    encodeU64(intent.agentNonce, 'agentNonce'),
+    ...(intent.version === 2
+      ? [encodeU8(intent.nonceLane as number), encodeU64(intent.laneSeq as string, 'laneSeq')]
+      : []),
+    encodeU64(intent.amountMicros, 'amountMicros'),
+    encodeHex32(intent.commitment, 'commitment'),
+    encodeU64(intent.expiresAt, 'expiresAt'),
+    encodeHex32(intent.requestId, 'requestId')
+  ]);
+}
+
+export function canonicalWithdrawalBytes(withdrawal: WithdrawalV1): Buffer {
+  if (withdrawal.version !== 1) throw new Error('Withdrawal version must be 1');
+  if (withdrawal.sequencerKeyId.trim().length === 0) {
+    throw new Error('sequencerKeyId is required');
+  }
+  return Buffer.concat([
+    encodeU8(withdrawal.version),
+    encodeHex32(withdrawal.withdrawalId, 'withdrawalId'),
+    encodeHex32(withdrawal.intentId, 'intentId'),
+    encodeHex32(withdrawal.agentId, 'agentId'),
+    encodeU64(withdrawal.agentNonce, 'agentNonce'),
+    encodeU64(withdrawal.amountMicros, 'amountMicros'),
+    encodeHex32(withdrawal.commitment, 'commitment'),
+    encodeU64(withdrawal.issuedAt, 'issuedAt'),
+    encodeU64(withdrawal.logSeqNo, 'logSeqNo'),
+    encodeUtf8WithU16Length(withdrawal.sequencerKeyId, 'sequencerKeyId')
+  ]);
+}
+
+export function canonicalBalanceReceiptBytes(receipt: BalanceReceiptV1): Buffer {
+  if (receipt.version !== 1) throw new Error('BalanceReceipt version must be 1');
+  if (receipt.sequencerKeyId.trim().length === 0) {
+    throw new Error('sequencerKeyId is required');
+  }
+  return Buffer.concat([
+    encodeU8(receipt.version),
+    encodeHex32(receipt.agentId, 'agentId'),
+    encodeHex32(receipt.authId, 'authId'),
+    encodeU64(receipt.balanceMicros, 'balanceMicros'),
+    encodeU64(receipt.debitedOutstandingMicros, 'debitedOutstandingMicros'),
+    encodeU64(receipt.nextAgentNonce, 'nextAgentNonce'),
+    encodeU64(receipt.logSeqNo, 'logSeqNo'),
+    encodeHex32(receipt.prevReceiptHash, 'prevReceiptHash'),
+    encodeU64(receipt.issuedAt, 'issuedAt'),
+    encodeUtf8WithU16Length(receipt.sequencerKeyId, 'sequencerKeyId')
+  ]);
+}
+
+export function canonicalDisputeRequestBytes(request: DisputeRequestV1): Buffer {
+  if (request.version !== 1) throw new Error('DisputeRequest version must be 1');
+  return Buffer.concat([
+    encodeU8(request.version),
+    encodeHex32(request.authId, 'authId'),
+    encodeHex32(request.agentId, 'agentId'),
+    encodeHex32(request.reasonHash, 'reasonHash'),
+    encodeU64(request.requestedAt, 'requestedAt')
+  ]);
+}
+
+export function canonicalDisputeEvidenceBytes(evidence: DisputeEvidenceV1): Buffer {
+  if (evidence.version !== 1) throw new Error('DisputeEvidence version must be 1');
+  return Buffer.concat([
+    encodeU8(evidence.version),
+    encodeHex32(evidence.disputeId, 'disputeId'),
+    encodeHex32(evidence.authId, 'authId'),
+    encodeHex32(evidence.reportId, 'reportId'),
+    encodeHex32(evidence.merchantResponseHash, 'merchantResponseHash'),
+    encodeU64(evidence.submittedAt, 'submittedAt'),
+    encodeUtf8WithU16Length(evidence.relayerKeyId, 'relayerKeyId')
+  ]);
+}
+
+const DISPUTE_EVENT_ACTION_CODES: Record<DisputeEventAction, number> = {
+  FILED: 1,
+  EVIDENCE_SUBMITTED: 2,
+  CREDITED: 3,
+  REJECTED: 4
+};
+
+export function canonicalDisputeEventBytes(event: DisputeEventV1): Buffer {
+  if (event.version !== 1) throw new Error('DisputeEvent version must be 1');
+  const actionCode = DISPUTE_EVENT_ACTION_CODES[event.action];
+  if (actionCode === undefined) {
+    throw new Error(`unsupported dispute event action: ${String(event.action)}`);
+  }
+  if (event.sequencerKeyId.trim().length === 0) {
+    throw new Error('sequencerKeyId is required');
+  }
+  return Buffer.concat([
+    encodeU8(event.version),
+    encodeHex32(event.eventId, 'eventId'),
+    encodeHex32(event.disputeId, 'disputeId'),
+    encodeHex32(event.authId, 'authId'),
+    encodeU8(actionCode),
+    encodeU64(event.amountMicros, 'amountMicros'),
+    encodeHex32(event.detailHash, 'detailHash'),
+    encodeU64(event.occurredAt, 'occurredAt'),
+    encodeU64(event.logSeqNo, 'logSeqNo'),
+    encodeUtf8WithU16Length(event.sequencerKeyId, 'sequencerKeyId')
+  ]);
+}
+
+const MERCHANT_RECORD_SOURCE_CODES: Record<MerchantRecordSource, number> = {
+  ADMIN: 1,
+  ERC8004: 2
+};
+
+export function canonicalMerchantRecordBytes(payload: SignedMerchantRecordPayloadV1): Buffer {
+  if (payload.version !== 1) throw new Error('SignedMerchantRecord version must be 1');
+  const { record } = payload;
+  const sourceCode = MERCHANT_RECORD_SOURCE_CODES[record.source];
+  if (sourceCode === undefined) {
+    throw new Error(`unsupported merchant record source: ${String(record.source)}`);
+  }
+  if (payload.sequencerKeyId.trim().length === 0) {
+    throw new Error('sequencerKeyId is required');
+  }
+  const fields = [
+    encodeU8(payload.version),
+    encodeHex32(record.merchantId, 'merchantId'),
+    encodeUtf8WithU16Length(record.serviceRegistryId, 'serviceRegistryId'),
+    encodeUtf8WithU16Length(record.endpointUrl, 'endpointUrl'),
+    encodeU8(sourceCode),
+    encodeU16(record.payoutAddresses.length)
+  ];
+  record.payoutAddresses.forEach((payout, index) => {
+    fields.push(
+      encodeUtf8WithU16Length(payout.chainRef, `payoutAddresses[${index}].chainRef`),
+      encodeUtf8WithU16Length(payout.address, `payoutAddresses[${index}].address`)
+    );
+  });
+  fields.push(
+    encodeU64(record.updatedAt, 'updatedAt'),
+    encodeU64(payload.issuedAt, 'issuedAt'),
+    encodeUtf8WithU16Length(payload.sequencerKeyId, 'sequencerKeyId')
+  );
+  return Buffer.concat(fields);
+}
+
+export function canonicalSequencerKeySetBytes(keySet: SequencerKeySetV1): Buffer {
+  if (keySet.version !== 1) throw new Error('SequencerKeySet version must be 1');
+  const fields = [
+    encodeU8(keySet.version),
+    encodeUtf8WithU16Length(keySet.currentKeyId, 'currentKeyId'),
+    encodeU64(keySet.issuedAt, 'issuedAt'),
+    encodeU16(keySet.keys.length)
+  ];
+  keySet.keys.forEach((key, index) => {
+    fields.push(
+      encodeUtf8WithU16Length(key.keyId, `keys[${index}].keyId`),
+      encodeHex32(key.publicKey, `keys[${index}].publicKey`),
+      encodeU64(key.activatesAt, `keys[${index}].activatesAt`),
+      encodeU8(key.retiresAt === null ? 0 : 1)
+    );
+    if (key.retiresAt !== null) {
+      fields.push(encodeU64(key.retiresAt, `keys[${index}].retiresAt`));
+    }
+  });
+  return Buffer.concat(fields);
+}
+
+export function canonicalFundingReceiptBytes(receipt: FundingReceiptV1): Buffer {
+  if (receipt.version !== 1) throw new Error('FundingReceipt version must be 1');
+  return Buffer.concat([
+    encodeU8(receipt.version),
+    encodeHex32(receipt.agentId, 'agentId'),
+    encodeHex32(receipt.nullifier, 'nullifier'),
+    encodeU64(receipt.amountMicros, 'amountMicros'),
+    encodeHex32(receipt.rho, 'rho')
+  ]);
+}
+
+const FUNDING_RECEIPT_BYTES_LENGTH = 1 + 32 + 32 + 8 + 32;
+
+export function decodeFundingReceiptBytes(bytes: Uint8Array): FundingReceiptV1 {
+  const buf = Buffer.from(bytes);
+  if (buf.length !== FUNDING_RECEIPT_BYTES_LENGTH) {
+    throw new Error('invalid funding receipt length');
+  }
+  const version = buf.readUInt8(0);
+  if (version !== 1) throw new Error('FundingReceipt version must be 1');
+  const hexAt = (offset: number): Hex => (`0x${buf.subarray(offset, offset + 32).toString('hex')}` as Hex);
+  return {
+    version: 1,
+    agentId: hexAt(1),
+    nullifier: hexAt(33),
+    amountMicros: buf.readBigUInt64BE(65).toString(),
+    rho: hexAt(73)
+  };
+}
+
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+const FUNDING_RECEIPT_IV_BYTES = 12;
+const FUNDING_RECEIPT_TAG_BYTES = 16;
+
+function x25519PrivateKeyFromSeed(seed: Hex): KeyObject {
+  const bytes = encodeHex32(seed, 'funding receipt private key');
+  return createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, bytes]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+}
+
+function x25519PublicKeyFromRaw(raw: Hex): KeyObject {
+  const bytes = encodeHex32(raw, 'funding receipt public key');
+  return createPublicKey({
+    key: Buffer.concat([X25519_SPKI_PREFIX, bytes]),
+    format: 'der',
+    type: 'spki'
+  });
+}
+
+function x25519RawPublicKey(publicKey: KeyObject): Buffer {
+  const der = publicKey.export({ format: 'der', type: 'spki' });
+  return Buffer.from(der).subarray(-32);
+}
+
+function deriveFundingReceiptKey(sharedSecret: Buffer, ephemeralPublicKey: Buffer): Buffer {
+  return Buffer.from(
+    hkdfSync(
+      'sha256',
+      sharedSecret,
+      ephemeralPublicKey,
+      Buffer.from(X402_DOMAIN_TAGS.fundingReceiptV1, 'utf8'),
+      32
+    )
+  );
+}
+
+export function deriveFundingReceiptPublicKey(privateKey: Hex): Hex {
+  const publicKey = createPublicKey(x25519PrivateKeyFromSeed(privateKey));
+  return (`0x${x25519RawPublicKey(publicKey).toString('hex')}` as Hex);
+}
+
+/**
+ * Encrypts a funding receipt to the sequencer's X25519 funding receipt key.
+ * Layout: `ephemeralPubKey(32) || iv(12) || ciphertext || tag(16)`, AES-256-GCM
+ * keyed by HKDF-SHA256 over the ECDH secret. The nullifier is bound as AAD.
+ */
+export function encryptFundingReceipt(input: {
+  receipt: FundingReceiptV1;
+  recipientPublicKey: Hex;
+}): Hex {
+  const ephemeral = generateKeyPairSync('x25519');
+  const ephemeralPublicKey = x25519RawPublicKey(ephemeral.publicKey);
+  const sharedSecret = diffieHellman({
+    privateKey: ephemeral.privateKey,
+    publicKey: x25519PublicKeyFromRaw(input.recipientPublicKey)
+  });
+  const key = deriveFundingReceiptKey(sharedSecret, ephemeralPublicKey);
+  const iv = randomBytes(FUNDING_RECEIPT_IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(encodeHex32(input.receipt.nullifier, 'nullifier'));
+  const ciphertext = Buffer.concat([
+    cipher.update(canonicalFundingReceiptBytes(input.receipt)),
+    cipher.final()
+  ]);
+  const out = Buffer.concat([ephemeralPublicKey, iv, ciphertext, cipher.getAuthTag()]);
+  return (`0x${out.toString('hex')}` as Hex);
+}
+
+export function decryptFundingReceipt(input: {
+  encryptedReceipt: Hex;
+  recipientPrivateKey: Hex;
+  nullifier: Hex;
+}): FundingReceiptV1 {
+  const bytes = encodeHexBytes(input.encryptedReceipt, 'encryptedReceipt');
+  if (bytes.length !== 32 + FUNDING_RECEIPT_IV_BYTES + FUNDING_RECEIPT_BYTES_LENGTH + FUNDING_RECEIPT_TAG_BYTES) {
+    throw new Error('invalid encrypted funding receipt length');
+  }
+  const ephemeralPublicKey = bytes.subarray(0, 32);
+  const iv = bytes.subarray(32, 32 + FUNDING_RECEIPT_IV_BYTES);
+  const ciphertext = bytes.subarray(32 + FUNDING_RECEIPT_IV_BYTES, bytes.length - FUNDING_RECEIPT_TAG_BYTES);
+  const tag = bytes.subarray(bytes.length - FUNDING_RECEIPT_TAG_BYTES);
+
+  const sharedSecret = diffieHellman({
+    privateKey: x25519PrivateKeyFromSeed(input.recipientPrivateKey),
+    publicKey: x25519PublicKeyFromRaw(`0x${ephemeralPublicKey.toString('hex')}` as Hex)
+  });
+  const key = deriveFundingReceiptKey(sharedSecret, ephemeralPublicKey);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(encodeHex32(input.nullifier, 'nullifier'));
+  decipher.setAuthTag(tag);
+  let plaintext: Buffer;
+  try {
+    plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new Error('funding receipt decryption failed');
+  }
+  const receipt = decodeFundingReceiptBytes(plaintext);
+  if (normalizeHex(receipt.nullifier) !== normalizeHex(input.nullifier)) {
+    throw new Error('funding receipt nullifier mismatch');
+  }
+  return receipt;
+}
+
+export function hashIntent(intent: IntentV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.intentV1, canonicalIntentBytes(intent));
+}
+
+export function hashAuthorization(authorization: AuthorizationV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.authorizationV1, canonicalAuthorizationBytes(authorization));
+}
+
+export function hashExecutionReport(report: SignedExecutionReportPayloadV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.executionReportV1, canonicalExecutionReportBytes(report));
+}
+
+export function hashWithdrawIntent(intent: WithdrawIntentV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.withdrawIntentV1, canonicalWithdrawIntentBytes(intent));
+}
+
+/** Withdrawal leaves use this hash in place of `authHash` in `computeAuthorizationLeaf`. */
+export function hashWithdrawal(withdrawal: WithdrawalV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.withdrawalV1, canonicalWithdrawalBytes(withdrawal));
+}
+
+export function hashBalanceReceipt(receipt: BalanceReceiptV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.balanceReceiptV1, canonicalBalanceReceiptBytes(receipt));
+}
+
+export function hashDisputeRequest(request: DisputeRequestV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.disputeV1, canonicalDisputeRequestBytes(request));
+}
+
+export function hashDisputeEvidence(evidence: DisputeEvidenceV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.disputeEvidenceV1, canonicalDisputeEvidenceBytes(evidence));
+}
+
+export function hashDisputeEvent(event: DisputeEventV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.disputeEventV1, canonicalDisputeEventBytes(event));
+}
+
+/** An authorization can be disputed once, so the dispute id depends only on `authId`. */
+export function deriveDisputeId(authId: Hex): Hex {
+  return hashWithTag(
+    X402_DOMAIN_TAGS.disputeV1,
+    Buffer.concat([Buffer.from('id', 'utf8'), encodeHex32(authId, 'authId')])
+  );
+}
+
+export function deriveDisputeEventId(input: { disputeId: Hex; seqNo: string }): Hex {
+  return hashWithTag(
+    X402_DOMAIN_TAGS.disputeEventV1,
+    Buffer.concat([
+      Buffer.from('id', 'utf8'),
+      encodeHex32(input.disputeId, 'disputeId'),
+      encodeU64(input.seqNo, 'seqNo')
+    ])
+  );
+}
+
+/** Hash of the merchant response a relayer received, over the status code and raw body. */
+export function hashMerchantResponse(response: { status: number; bodyBase64: string }): Hex {
+  return hashWithTag(
+    X402_DOMAIN_TAGS.disputeEvidenceV1,
+    Buffer.concat([
+      Buffer.from('merchant-response', 'utf8'),
+      encodeU16(response.status),
+      Buffer.from(response.bodyBase64, 'base64')
+    ])
+  );
+}
+
+export function deriveWithdrawalId(input: { intentId: Hex; seqNo: string }): Hex {
+  return hashWithTag(
+    X402_DOMAIN_TAGS.withdrawalV1,
+    Buffer.concat([
+      Buffer.from('id', 'utf8'),
+      encodeHex32(input.intentId, 'intentId'),
+      encodeU64(input.seqNo, 'seqNo')
+    ])
+  );
+}
+
+export function hashSequencerKeySet(keySet: SequencerKeySetV1): Hex {
+  return hashWithTag(X402_DOMAIN_TAGS.sequencerKeySetV1, canonicalSequencerKeySetBytes(keySet));
+}
+
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Verifies a published key set against keys the caller already trusts and returns the
+ * verified key list. Throws if the signer is unknown or the signature is invalid.
+ */
+export function verifySequencerKeySet(input: {
+  signed: SignedSequencerKeySetV1;
+  trustedKeys: Record<string, Hex>;
+}): SequencerKeyV1[] {
+  const trusted = input.trustedKeys[input.signed.signerKeyId];
+  if (!trusted) {
+    throw new Error(`sequencer key set signed by untrusted key: ${input.signed.signerKeyId}`);
+  }
+  const publicKey = Buffer.from(normalizeHex(trusted).slice(2), 'hex');
+  const signature = Buffer.from(normalizeHex(input.signed.signature).slice(2), 'hex');
+  if (publicKey.length !== 32 || signature.length !== 64) {
+    throw new Error('invalid sequencer key set signature encoding');
+  }
+  const keyObject = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]),
+    format: 'der',
+    type: 'spki'
+  });
+  const digest = Buffer.from(hashSequencerKeySet(input.signed.keySet).slice(2), 'hex');
+  if (!verify(null, digest, keyObject, signature)) {
+    throw new Error('invalid sequencer key set signature');
+  }
+  if (!input.signed.keySet.keys.some((key) => key.keyId === input.signed.keySet.currentKeyId)) {
+    throw new Error('sequencer key set does not include currentKeyId');
+  }
+  return input.signed.keySet.keys.map((key) => ({ ...key, publicKey: normalizeHex(key.publicKey) }));
+}
+
+/** Verifies `sequencerSig` (Ed25519 over sha256 of the canonical authorization bytes). */
+export function verifyAuthorizationSignature(input: {
+  authorization: AuthorizationV1;
+  sequencerSig: Hex;
+  publicKey: Hex;
+}): boolean {
+  return verifyEd25519Sha256({
+    message: canonicalAuthorizationBytes(input.authorization),
+    signature: input.sequencerSig,
+    publicKey: input.publicKey
+  });
+}
+
+/** Verifies `sequencerSig` (Ed25519 over sha256 of the canonical merchant record bytes). */
+export function verifyMerchantRecordSignature(input: { signed: SignedMerchantRecordV1; publicKey: Hex }): boolean {
+  const { sequencerSig, ...payload } = input.signed;
+  return verifyEd25519Sha256({
+    message: canonicalMerchantRecordBytes(payload),
+    signature: sequencerSig,
+    publicKey: input.publicKey
+  });
+}
+
+/** Verifies `balanceReceiptSig` (Ed25519 over sha256 of the canonical receipt bytes). */
+export function verifyBalanceReceiptSignature(input: {
+  receipt: BalanceReceiptV1;
+  balanceReceiptSig: Hex;
+  publicKey: Hex;
+}): boolean {
+  return verifyEd25519Sha256({
+    message: canonicalBalanceReceiptBytes(input.receipt),
+    signature: input.balanceReceiptSig,
+    publicKey: input.publicKey
+  });
+}
+
+/**
+ * Verifies a run of consecutive balance receipts for one agent: every signature, the
+ * `prevReceiptHash` links between neighbours and that log position and nonce never move
+ * backwards. Pass `prevReceiptHash` to also pin the first receipt to an earlier one. Returns
+ * the hash of the last receipt. Throws on the first inconsistency.
+ */
+export function verifyBalanceReceiptChain(input: {
+  receipts: ReadonlyArray<{ receipt: BalanceReceiptV1; balanceReceiptSig: Hex }>;
+  sequencerKeys: Record<string, Hex>;
+  prevReceiptHash?: Hex;
+}): Hex {
+  const first = input.receipts[0];
+  if (!first) {
+    throw new Error('balance receipt chain is empty');
+  }
+  const agentId = normalizeHex(first.receipt.agentId);
+  let expectedPrevHash = input.prevReceiptHash === undefined ? undefined : normalizeHex(input.prevReceiptHash);
+  let previous: BalanceReceiptV1 | undefined;
+  for (const [index, entry] of input.receipts.entries()) {
+    const { receipt } = entry;
+    const publicKey = input.sequencerKeys[receipt.sequencerKeyId];
+    if (!publicKey) {
+      throw new Error(`balance receipt ${index} signed by unknown key: ${receipt.sequencerKeyId}`);
+    }
+    if (!verifyBalanceReceiptSignature({ receipt, balanceReceiptSig: entry.balanceReceiptSig, publicKey })) {
+      throw new Error(`balance receipt ${index} has an invalid signature`);
+    }
+    if (normalizeHex(receipt.agentId) !== agentId) {
+      throw new Error(`balance receipt ${index} is for a different agent`);
+    }
+    if (expectedPrevHash !== undefined && normalizeHex(receipt.prevReceiptHash) !== expectedPrevHash) {
+      throw new Error(`balance receipt ${index} does not link to the previous receipt`);
+    }
+    if (previous) {
+      if (BigInt(receipt.logSeqNo) <= BigInt(previous.logSeqNo)) {
+        throw new Error(`balance receipt ${index} logSeqNo does not increase`);
+      }
+      if (BigInt(receipt.nextAgentNonce) < BigInt(previous.nextAgentNonce)) {
+        throw new Error(`balance receipt ${index} nextAgentNonce moves backwards`);
+      }
+    }
+    expectedPrevHash = hashBalanceReceipt(receipt);
+    previous = receipt;
+  }
+  return expectedPrevHash as Hex;
+}
+
+function verifyEd25519Sha256(input: { message: Buffer; signature: Hex; publicKey: Hex }): boolean {
+  const publicKey = Buffer.from(normalizeHex(input.publicKey).slice(2), 'hex');
+  const signature = Buffer.from(normalizeHex(input.signature).slice(2), 'hex');
+  if (publicKey.length !== 32 || signature.length !== 64) {
+    return false;
+  }
+  const keyObject = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]),
+    format: 'der',
+    type: 'spki'
+  });
+  return verify(null, sha256(input.message), keyObject, signature);
+}
+
+/** True when `issuedAt` falls inside the key's activation window. */
+export function isSequencerKeyValidAt(key: SequencerKeyV1, issuedAt: bigint): boolean {
+  if (issuedAt < BigInt(key.activatesAt)) return false;
+  return key.retiresAt === null || issuedAt < BigInt(key.retiresAt);
+}
+
+export function deriveAuthorizationId(input: {
+  intentId: Hex;
+  sequencerEpoch: string;
   seqNo: string;
 }): Hex {
   return hashWithTag(
@@ -503,12 +1760,26 @@ export function buildIntentTypedDataPayload(intent: IntentV1): {
     requestId: Hex;
     serviceHash: Hex;
     memoHash: Hex;
+    nonceLane?: number;
+    laneSeq?: bigint;
+    maxFeeMicros?: bigint;
   };
 } {
+  assertIntentNonceLane(intent);
+  assertIntentMaxFee(intent);
+  const laneFields =
+    intent.version === 2
+      ? [
+          { name: 'nonceLane', type: 'uint8' },
+          { name: 'laneSeq', type: 'uint64' }
+        ]
+      : [];
+  // Only present when set, so intents without a fee cap keep their type hash.
+  const maxFeeFields = intent.maxFeeMicros !== undefined ? [{ name: 'maxFeeMicros', type: 'uint64' }] : [];
   return {
     domain: {
       name: X402_DOMAIN_TAGS.intentV1,
-      version: '1',
+      version: String(intent.version),
       chainId: 1,
       verifyingContract: '0x0000000000000000000000000000000000000000'
     },
@@ -525,7 +1796,9 @@ export function buildIntentTypedDataPayload(intent: IntentV1): {
         { name: 'expiresAt', type: 'uint64' },
         { name: 'requestId', type: 'bytes32' },
         { name: 'serviceHash', type: 'bytes32' },
-        { name: 'memoHash', type: 'bytes32' }
+        { name: 'memoHash', type: 'bytes32' },
+        ...laneFields,
+        ...maxFeeFields
       ]
     },
     primaryType: 'IntentV1',
@@ -541,7 +1814,16 @@ export function buildIntentTypedDataPayload(intent: IntentV1): {
       expiresAt: parseUint64String(intent.expiresAt, 'expiresAt'),
       requestId: normalizeHex(intent.requestId),
       serviceHash: intent.serviceHash ? normalizeHex(intent.serviceHash) : (`0x${'00'.repeat(32)}` as Hex),
-      memoHash: intent.memoHash ? normalizeHex(intent.memoHash) : (`0x${'00'.repeat(32)}` as Hex)
+      memoHash: intent.memoHash ? normalizeHex(intent.memoHash) : (`0x${'00'.repeat(32)}` as Hex),
+      ...(intent.version === 2
+        ? {
+            nonceLane: intent.nonceLane as number,
+            laneSeq: parseUint64String(intent.laneSeq as string, 'laneSeq')
+          }
+        : {}),
+      ...(intent.maxFeeMicros !== undefined
+        ? { maxFeeMicros: parseUint64String(intent.maxFeeMicros, 'maxFeeMicros') }
+        : {})
     }
   };
 }
@@ -595,11 +1877,72 @@ export function buildReclaimTypedDataPayload(request: SignedReclaimPayloadV1): {
   };
 }
 
+export function buildAgentQueryTypedDataPayload(query: AgentQueryV1): {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: Hex;
+  };
+  types: {
+    AgentQueryV1: Array<{ name: string; type: string }>;
+  };
+  primaryType: 'AgentQueryV1';
+  message: {
+    agentId: Hex;
+    resource: string;
+    requestedAt: bigint;
+  };
+} {
+  return {
+    domain: {
+      name: X402_DOMAIN_TAGS.agentQueryV1,
+      version: '1',
+      chainId: 1,
+      verifyingContract: '0x0000000000000000000000000000000000000000'
+    },
+    types: {
+      AgentQueryV1: [
+        { name: 'agentId', type: 'bytes32' },
+        { name: 'resource', type: 'string' },
+        { name: 'requestedAt', type: 'uint64' }
+      ]
+    },
+    primaryType: 'AgentQueryV1',
+    message: {
+      agentId: normalizeHex(query.agentId),
+      resource: query.resource,
+      requestedAt: parseUint64String(query.requestedAt, 'requestedAt')
+    }
+  };
+}
+
 export function deriveAgentIdFromPubKey(agentPubKey: Hex): Hex {
   const bytes = encodeHexBytes(agentPubKey, 'agentPubKey');
   return sha256Hex(bytes);
 }
 
+export const MAX_FEE_BPS = 10_000;
+
+/** Fee for `amountMicros` under `entry`; no entry means no fee. */
+export function computeFeeMicros(entry: FeeScheduleEntryV1 | undefined, amountMicros: string): string {
+  if (!entry) return '0';
+  if (!Number.isInteger(entry.bps) || entry.bps < 0 || entry.bps > MAX_FEE_BPS) {
+    throw new Error(`fee bps out of range: ${entry.bps}`);
+  }
+  const amount = parseUint64String(amountMicros, 'amountMicros');
+  const fee = parseUint64String(entry.flatMicros, 'flatMicros') + (amount * BigInt(entry.bps)) / 10_000n;
+  return parseUint64String(fee.toString(), 'feeMicros').toString();
+}
+
+/** Total the agent is debited for an authorization: amount plus fee. */
+export function authorizationDebitMicros(authorization: AuthorizationV1): bigint {
+  return (
+    parseUint64String(authorization.authorizedAmountMicros, 'authorizedAmountMicros') +
+    parseUint64String(authorization.feeMicros ?? '0', 'feeMicros')
+  );
+}
+
 export function isAuthorizationExpired(authorization: AuthorizationV1, nowUnixSeconds: bigint): boolean {
   return nowUnixSeconds > parseUint64String(authorization.expiresAt, 'expiresAt');
 }
@@ -641,3 +1984,193 @@ export function assertAgentAuthorizationInvariant(input: {
     expectedNonce += 1n;
   }
 }
+
+export function buildAgentPolicyTypedDataPayload(policy: AgentPolicyV1): {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: Hex;
+  };
+  types: {
+    AgentPolicyV1: Array<{ name: string; type: string }>;
+  };
+  primaryType: 'AgentPolicyV1';
+  message: {
+    version: number;
+    agentId: Hex;
+    signatureScheme: number;
+    agentPubKey: Hex;
+    policyVersion: bigint;
+    optionalBitmap: number;
+    maxAmountPerAuthMicros: bigint;
+    hourlyCapMicros: bigint;
+    dailyCapMicros: bigint;
+    merchantAllowlist: Hex[];
+    merchantDenylist: Hex[];
+    allowedChainRefs: string[];
+  };
+} {
+  const optionalU64 = (value: string | undefined, label: string): bigint =>
+    value === undefined ? 0n : parseUint64String(value, label);
+  return {
+    domain: {
+      name: X402_DOMAIN_TAGS.agentPolicyV1,
+      version: '1',
+      chainId: 1,
+      verifyingContract: '0x0000000000000000000000000000000000000000'
+    },
+    types: {
+      AgentPolicyV1: [
+        { name: 'version', type: 'uint8' },
+        { name: 'agentId', type: 'bytes32' },
+        { name: 'signatureScheme', type: 'uint8' },
+        { name: 'agentPubKey', type: 'bytes' },
+        { name: 'policyVersion', type: 'uint64' },
+        { name: 'optionalBitmap', type: 'uint8' },
+        { name: 'maxAmountPerAuthMicros', type: 'uint64' },
+        { name: 'hourlyCapMicros', type: 'uint64' },
+        { name: 'dailyCapMicros', type: 'uint64' },
+        { name: 'merchantAllowlist', type: 'bytes32[]' },
+        { name: 'merchantDenylist', type: 'bytes32[]' },
+        { name: 'allowedChainRefs', type: 'string[]' }
+      ]
+    },
+    primaryType: 'AgentPolicyV1',
+    message: {
+      version: policy.version,
+      agentId: normalizeHex(policy.agentId),
+      signatureScheme: policy.signatureScheme === 'eip712-secp256k1' ? 1 : 2,
+      agentPubKey: normalizeHex(policy.agentPubKey),
+      policyVersion: parseUint64String(policy.policyVersion, 'policyVersion'),
+      optionalBitmap: buildAgentPolicyOptionalBitmap(policy),
+      maxAmountPerAuthMicros: optionalU64(policy.maxAmountPerAuthMicros, 'maxAmountPerAuthMicros'),
+      hourlyCapMicros: optionalU64(policy.hourlyCapMicros, 'hourlyCapMicros'),
+      dailyCapMicros: optionalU64(policy.dailyCapMicros, 'dailyCapMicros'),
+      merchantAllowlist: (policy.merchantAllowlist ?? []).map((value) => normalizeHex(value)),
+      merchantDenylist: (policy.merchantDenylist ?? []).map((value) => normalizeHex(value)),
+      allowedChainRefs: policy.allowedChainRefs ?? []
+    }
+  };
+}
+
+export function buildWithdrawIntentTypedDataPayload(intent: WithdrawIntentV1): {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: Hex;
+  };
+  types: {
+    WithdrawIntentV1: Array<{ name: string; type: string }>;
+  };
+  primaryType: 'WithdrawIntentV1';
+  message: {
+    version: number;
+    agentId: Hex;
+    signatureScheme: number;
+    agentPubKey: Hex;
+    agentNonce: bigint;
+    amountMicros: bigint;
+    commitment: Hex;
+    expiresAt: bigint;
+    requestId: Hex;
+    nonceLane?: number;
+    laneSeq?: bigint;
+  };
+} {
+  assertIntentNonceLane(intent);
+  const laneFields =
+    intent.version === 2
+      ? [
+          { name: 'nonceLane', type: 'uint8' },
+          { name: 'laneSeq', type: 'uint64' }
+        ]
+      : [];
+  return {
+    domain: {
+      name: X402_DOMAIN_TAGS.withdrawIntentV1,
+      version: String(intent.version),
+      chainId: 1,
+      verifyingContract: '0x0000000000000000000000000000000000000000'
+    },
+    types: {
+      WithdrawIntentV1: [
+        { name: 'version', type: 'uint8' },
+        { name: 'agentId', type: 'bytes32' },
+        { name: 'signatureScheme', type: 'uint8' },
+        { name: 'agentPubKey', type: 'bytes' },
+        { name: 'agentNonce', type: 'uint64' },
+        { name: 'amountMicros', type: 'uint64' },
+        { name: 'commitment', type: 'bytes32' },
+        { name: 'expiresAt', type: 'uint64' },
+        { name: 'requestId', type: 'bytes32' },
+        ...laneFields
+      ]
+    },
+    primaryType: 'WithdrawIntentV1',
+    message: {
+      version: intent.version,
+      agentId: normalizeHex(intent.agentId),
+      signatureScheme: intent.signatureScheme === 'eip712-secp256k1' ? 1 : 2,
+      agentPubKey: normalizeHex(intent.agentPubKey),
+      agentNonce: parseUint64String(intent.agentNonce, 'agentNonce'),
+      amountMicros: parseUint64String(intent.amountMicros, 'amountMicros'),
+      commitment: normalizeHex(intent.commitment),
+      expiresAt: parseUint64String(intent.expiresAt, 'expiresAt'),
+      requestId: normalizeHex(intent.requestId),
+      ...(intent.version === 2
+        ? {
+            nonceLane: intent.nonceLane as number,
+            laneSeq: parseUint64String(intent.laneSeq as string, 'laneSeq')
+          }
+        : {})
+    }
+  };
+}
+
+export function buildDisputeRequestTypedDataPayload(request: DisputeRequestV1): {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: Hex;
+  };
+  types: {
+    DisputeRequestV1: Array<{ name: string; type: string }>;
+  };
+  primaryType: 'DisputeRequestV1';
+  message: {
+    version: number;
+    authId: Hex;
+    agentId: Hex;
+    reasonHash: Hex;
+    requestedAt: bigint;
+  };
+} {
+  return {
+    domain: {
+      name: X402_DOMAIN_TAGS.disputeV1,
+      version: '1',
+      chainId: 1,
+      verifyingContract: '0x0000000000000000000000000000000000000000'
+    },
+    types: {
+      DisputeRequestV1: [
+        { name: 'version', type: 'uint8' },
+        { name: 'authId', type: 'bytes32' },
+        { name: 'agentId', type: 'bytes32' },
+        { name: 'reasonHash', type: 'bytes32' },
+        { name: 'requestedAt', type: 'uint64' }
+      ]
+    },
+    primaryType: 'DisputeRequestV1',
+    message: {
+      version: request.version,
+      authId: normalizeHex(request.authId),
+      agentId: normalizeHex(request.agentId),
+      reasonHash: normalizeHex(request.reasonHash),
+      requestedAt: parseUint64String(request.requestedAt, 'requestedAt')
+    }
+  };
+}
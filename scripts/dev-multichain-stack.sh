@@ -140,6 +140,7 @@ cmd_start() {
     RELAYER_KEY_ID="$RELAYER_BASE_KEY_ID" \
     RELAYER_PAYOUT_MODE="$RELAYER_BASE_PAYOUT_MODE" \
     RELAYER_EVM_PRIVATE_KEY="${RELAYER_EVM_PRIVATE_KEY:-}" \
+    RELAYER_EVM_CLIENT_MODULE="$ROOT_DIR/chains/base/client/adapter.ts" \
     RELAYER_CALLER_AUTH_TOKEN="$RELAYER_CALLER_AUTH_TOKEN" \
     pnpm relayer:dev
 
@@ -151,6 +152,7 @@ cmd_start() {
     RELAYER_REPORTING_PRIVATE_KEY="$RELAYER_SOLANA_PRIVATE_KEY" \
     RELAYER_KEY_ID="$RELAYER_SOLANA_KEY_ID" \
     RELAYER_PAYOUT_MODE="solana" \
+    RELAYER_SOLANA_CLIENT_MODULE="$ROOT_DIR/chains/solana/client/adapter.ts" \
     RELAYER_CALLER_AUTH_TOKEN="$RELAYER_CALLER_AUTH_TOKEN" \
     pnpm relayer:dev
 
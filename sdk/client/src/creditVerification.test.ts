@@ -0,0 +1,199 @@
+import { createHash, createPrivateKey, createPublicKey, sign } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildMerkleProof,
+  buildMerkleRoot,
+  canonicalAuthorizationBytes,
+  computeAuthorizationLeaf,
+  hashAuthorization,
+  hashIntent,
+  type AuthorizationV1,
+  type Hex,
+  type InclusionProofV1,
+  type IntentV1
+} from '@shielded-x402/shared-types';
+import {
+  AuthorizationMismatchError,
+  CreditVerificationError,
+  InclusionProofError,
+  SequencerSignatureError,
+  assertAuthorizationMatchesIntent,
+  assertSequencerSignature,
+  verifyInclusionProofOnChain
+} from './creditVerification.js';
+
+function ed25519FromSeed(byte: number) {
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.alloc(32, byte)]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const spki = createPublicKey(privateKey).export({ format: 'der', type: 'spki' });
+  return { privateKey, publicKey: `0x${Buffer.from(spki).subarray(-32).toString('hex')}` as Hex };
+}
+
+const sequencerKey = ed25519FromSeed(9);
+
+const intent: IntentV1 = {
+  version: 1,
+  agentId: `0x${'33'.repeat(32)}`,
+  agentPubKey: `0x${'cc'.repeat(32)}`,
+  signatureScheme: 'ed25519-sha256-v1',
+  agentNonce: '4',
+  amountMicros: '2500',
+  merchantId: `0x${'44'.repeat(32)}`,
+  requiredChainRef: 'eip155:8453',
+  expiresAt: '1735689900',
+  requestId: `0x${'66'.repeat(32)}`
+};
+
+const authorization: AuthorizationV1 = {
+  version: 1,
+  intentId: hashIntent(intent),
+  authId: `0x${'22'.repeat(32)}`,
+  authorizedAmountMicros: '2500',
+  agentId: intent.agentId,
+  agentNonce: '4',
+  merchantId: intent.merchantId,
+  chainRef: 'eip155:8453',
+  issuedAt: '1735689600',
+  expiresAt: '1735689900',
+  sequencerEpochHint: '1',
+  logSeqNo: '7',
+  sequencerKeyId: 'seq-key-1'
+};
+
+function signAuthorization(value: AuthorizationV1): Hex {
+  const digest = createHash('sha256').update(canonicalAuthorizationBytes(value)).digest();
+  return `0x${sign(null, digest, sequencerKey.privateKey).toString('hex')}`;
+}
+
+describe('credit verification', () => {
+  it('accepts an authorization signed by a pinned or active published key', () => {
+    const sequencerSig = signAuthorization(authorization);
+    expect(() =>
+      assertSequencerSignature({ authorization, sequencerSig, sequencerKeys: { 'seq-key-1': sequencerKey.publicKey } })
+    ).not.toThrow();
+
+    const retired = [{ keyId: 'seq-key-1', publicKey: sequencerKey.publicKey, activatesAt: '0', retiresAt: '1735689000' }];
+    expect(() => assertSequencerSignature({ authorization, sequencerSig, sequencerKeys: retired })).toThrow(
+      SequencerSignatureError
+    );
+
+    try {
+      assertSequencerSignature({
+        authorization: { ...authorization, authorizedAmountMicros: '2501' },
+        sequencerSig,
+        sequencerKeys: { 'seq-key-1': sequencerKey.publicKey }
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CreditVerificationError);
+      expect((error as CreditVerificationError).code).toBe('INVALID_SEQUENCER_SIGNATURE');
+    }
+  });
+
+  it('rejects authorizations that do not echo the signed intent', () => {
+    expect(() => assertAuthorizationMatchesIntent({ intent, authorization })).not.toThrow();
+    for (const [field, value] of [
+      ['authorizedAmountMicros', '2600'],
+      ['merchantId', `0x${'45'.repeat(32)}`],
+      ['chainRef', 'solana:devnet'],
+      ['expiresAt', '1735699999']
+    ] as const) {
+      try {
+        assertAuthorizationMatchesIntent({ intent, authorization: { ...authorization, [field]: value } });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(AuthorizationMismatchError);
+        expect((error as AuthorizationMismatchError).field).toBe(field);
+      }
+    }
+  });
+
+  it('rejects an authorization whose fee exceeds the intent maxFeeMicros', () => {
+    const capped: IntentV1 = { ...intent, version: 2, nonceLane: 0, laneSeq: intent.agentNonce, maxFeeMicros: '20' };
+    const matching = { ...authorization, version: 2 as const, intentId: hashIntent(capped), feeMicros: '20' };
+    expect(() => assertAuthorizationMatchesIntent({ intent: capped, authorization: matching })).not.toThrow();
+    try {
+      assertAuthorizationMatchesIntent({ intent: capped, authorization: { ...matching, feeMicros: '21' } });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthorizationMismatchError);
+      expect((error as AuthorizationMismatchError).field).toBe('feeMicros');
+    }
+  });
+
+  it('verifies inclusion proofs against the anchored registry root', async () => {
+    const prevLeafHash = `0x${'a1'.repeat(32)}` as Hex;
+    const leafSalt = `0x${'55'.repeat(32)}` as Hex;
+    const leafHash = computeAuthorizationLeaf({
+      logSeqNo: authorization.logSeqNo,
+      prevLeafHash,
+      authHash: hashAuthorization(authorization),
+      salt: leafSalt
+    });
+    const leaves = [prevLeafHash, leafHash, `0x${'a3'.repeat(32)}`] as Hex[];
+    const root = buildMerkleRoot(leaves);
+    const proof: InclusionProofV1 = {
+      epochId: '3',
+      root,
+      leafHash,
+      merkleProof: buildMerkleProof(leaves, 1),
+      leafIndex: 1,
+      logSeqNo: authorization.logSeqNo,
+      prevLeafHash,
+      prevRoot: `0x${'00'.repeat(32)}`,
+      authId: authorization.authId,
+      leafSalt,
+      sequencerKeyId: 'seq-key-1'
+    };
+    const readContract = vi.fn(async () => root);
+    const registry = { publicClient: { readContract }, address: `0x${'12'.repeat(20)}` as Hex };
+
+    await verifyInclusionProofOnChain({ proof, registry, authorization });
+    expect(readContract).toHaveBeenCalledWith(expect.objectContaining({ functionName: 'roots', args: [3n] }));
+
+    readContract.mockResolvedValueOnce(`0x${'00'.repeat(32)}` as Hex);
+    await expect(verifyInclusionProofOnChain({ proof, registry, authorization })).rejects.toMatchObject({
+      code: 'COMMITMENT_NOT_ANCHORED'
+    });
+    readContract.mockResolvedValueOnce(`0x${'ee'.repeat(32)}` as Hex);
+    await expect(verifyInclusionProofOnChain({ proof, registry, authorization })).rejects.toMatchObject({
+      code: 'COMMITMENT_ROOT_MISMATCH'
+    });
+    await expect(
+      verifyInclusionProofOnChain({ proof: { ...proof, leafIndex: 2 }, registry, authorization })
+    ).rejects.toBeInstanceOf(InclusionProofError);
+  });
+
+  it('rejects anchored leaves that are not the leaf of the authorization', async () => {
+    // A valid, anchored proof for some other leaf, relabelled with this authorization's id.
+    const otherLeaf = `0x${'a2'.repeat(32)}` as Hex;
+    const leaves = [`0x${'a1'.repeat(32)}`, otherLeaf] as Hex[];
+    const root = buildMerkleRoot(leaves);
+    const proof: InclusionProofV1 = {
+      epochId: '3',
+      root,
+      leafHash: otherLeaf,
+      merkleProof: buildMerkleProof(leaves, 1),
+      leafIndex: 1,
+      logSeqNo: authorization.logSeqNo,
+      prevLeafHash: leaves[0]!,
+      prevRoot: `0x${'00'.repeat(32)}`,
+      authId: authorization.authId,
+      leafSalt: `0x${'55'.repeat(32)}`,
+      sequencerKeyId: 'seq-key-1'
+    };
+    const readContract = vi.fn(async () => root);
+    const registry = { publicClient: { readContract }, address: `0x${'12'.repeat(20)}` as Hex };
+
+    await expect(verifyInclusionProofOnChain({ proof, registry, authorization })).rejects.toMatchObject({
+      code: 'INVALID_INCLUSION_PROOF'
+    });
+    await expect(
+      verifyInclusionProofOnChain({ proof: { ...proof, logSeqNo: '8' }, registry, authorization })
+    ).rejects.toMatchObject({ code: 'INVALID_INCLUSION_PROOF' });
+    expect(readContract).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  computeAuthorizationLeaf,
+  hashAuthorization,
+  hashIntent,
+  isSequencerKeyValidAt,
+  normalizeHex,
+  verifyAuthorizationSignature,
+  verifyBalanceReceiptSignature,
+  verifyMerchantRecordSignature,
+  verifyMerkleProof,
+  type AuthorizationV1,
+  type BalanceReceiptV1,
+  type Hex,
+  type InclusionProofV1,
+  type IntentV1,
+  type SequencerKeyV1,
+  type SignedMerchantRecordV1
+} from '@shielded-x402/shared-types';
+
+const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
+
+export const commitmentRegistryRootsAbi = [
+  {
+    type: 'function',
+    name: 'roots',
+    stateMutability: 'view',
+    inputs: [{ name: 'epochId', type: 'uint64' }],
+    outputs: [{ name: '', type: 'bytes32' }]
+  }
+] as const;
+
+export type CreditVerificationErrorCode =
+  | 'UNKNOWN_SEQUENCER_KEY'
+  | 'INVALID_SEQUENCER_SIGNATURE'
+  | 'AUTHORIZATION_MISMATCH'
+  | 'INVALID_BALANCE_RECEIPT'
+  | 'INVALID_INCLUSION_PROOF'
+  | 'COMMITMENT_NOT_ANCHORED'
+  | 'COMMITMENT_ROOT_MISMATCH';
+
+export class CreditVerificationError extends Error {
+  readonly code: CreditVerificationErrorCode;
+
+  constructor(code: CreditVerificationErrorCode, message: string) {
+    super(message);
+    this.name = 'CreditVerificationError';
+    this.code = code;
+  }
+}
+
+export class SequencerSignatureError extends CreditVerificationError {
+  constructor(code: 'UNKNOWN_SEQUENCER_KEY' | 'INVALID_SEQUENCER_SIGNATURE', message: string) {
+    super(code, message);
+    this.name = 'SequencerSignatureError';
+  }
+}
+
+export class AuthorizationMismatchError extends CreditVerificationError {
+  readonly field: keyof AuthorizationV1;
+
+  constructor(field: keyof AuthorizationV1, message: string) {
+    super('AUTHORIZATION_MISMATCH', message);
+    this.name = 'AuthorizationMismatchError';
+    this.field = field;
+  }
+}
+
+export class BalanceReceiptError extends CreditVerificationError {
+  constructor(message: string) {
+    super('INVALID_BALANCE_RECEIPT', message);
+    this.name = 'BalanceReceiptError';
+  }
+}
+
+export class InclusionProofError extends CreditVerificationError {
+  constructor(
+    code: 'INVALID_INCLUSION_PROOF' | 'COMMITMENT_NOT_ANCHORED' | 'COMMITMENT_ROOT_MISMATCH',
+    message: string
+  ) {
+    super(code, message);
+    this.name = 'InclusionProofError';
+  }
+}
+
+/** The part of a viem `PublicClient` needed to read `CommitmentRegistryV1.roots`. */
+export interface CommitmentRegistryReader {
+  publicClient: {
+    readContract(parameters: {
+      address: Hex;
+      abi: typeof commitmentRegistryRootsAbi;
+      functionName: 'roots';
+      args: readonly [bigint];
+    }): Promise<unknown>;
+  };
+  address: Hex;
+}
+
+/**
+ * Checks `sequencerSig` with the key named by `authorization.sequencerKeyId`. Keys from a
+ * verified key set must also be active at the authorization's `issuedAt`.
+ */
+export function assertSequencerSignature(input: {
+  authorization: AuthorizationV1;
+  sequencerSig: Hex;
+  sequencerKeys: Record<string, Hex> | readonly SequencerKeyV1[];
+}): void {
+  const publicKey = resolveSequencerPublicKey(
+    input.sequencerKeys,
+    input.authorization.sequencerKeyId,
+    input.authorization.issuedAt
+  );
+  if (
+    !verifyAuthorizationSignature({
+      authorization: input.authorization,
+      sequencerSig: input.sequencerSig,
+      publicKey
+    })
+  ) {
+    throw new SequencerSignatureError('INVALID_SEQUENCER_SIGNATURE', 'invalid sequencer signature');
+  }
+}
+
+/** Checks that a merchant record, and so its payout addresses, was signed by the sequencer. */
+export function assertMerchantRecordSignature(input: {
+  signed: SignedMerchantRecordV1;
+  sequencerKeys: Record<string, Hex> | readonly SequencerKeyV1[];
+}): void {
+  const publicKey = resolveSequencerPublicKey(input.sequencerKeys, input.signed.sequencerKeyId, input.signed.issuedAt);
+  if (!verifyMerchantRecordSignature({ signed: input.signed, publicKey })) {
+    throw new SequencerSignatureError('INVALID_SEQUENCER_SIGNATURE', 'invalid sequencer signature on merchant record');
+  }
+}
+
+/**
+ * Checks that a balance receipt is signed by the sequencer and describes the account state
+ * right after `authorization`.
+ */
+export function assertBalanceReceipt(input: {
+  authorization: AuthorizationV1;
+  balanceReceipt: BalanceReceiptV1;
+  balanceReceiptSig: Hex;
+  sequencerKeys: Record<string, Hex> | readonly SequencerKeyV1[];
+}): void {
+  const { authorization, balanceReceipt } = input;
+  const expected: Array<[keyof BalanceReceiptV1, string, string]> = [
+    ['authId', normalizeHex(balanceReceipt.authId), normalizeHex(authorization.authId)],
+    ['agentId', normalizeHex(balanceReceipt.agentId), normalizeHex(authorization.agentId)],
+    ['logSeqNo', balanceReceipt.logSeqNo, authorization.logSeqNo],
+    ['issuedAt', balanceReceipt.issuedAt, authorization.issuedAt]
+  ];
+  for (const [field, actual, wanted] of expected) {
+    if (actual !== wanted) {
+      throw new BalanceReceiptError(`balance receipt ${field} ${actual} does not match authorization ${wanted}`);
+    }
+  }
+  const publicKey = resolveSequencerPublicKey(
+    input.sequencerKeys,
+    balanceReceipt.sequencerKeyId,
+    balanceReceipt.issuedAt
+  );
+  if (
+    !verifyBalanceReceiptSignature({
+      receipt: balanceReceipt,
+      balanceReceiptSig: input.balanceReceiptSig,
+      publicKey
+    })
+  ) {
+    throw new BalanceReceiptError('invalid balance receipt signature');
+  }
+}
+
+function resolveSequencerPublicKey(
+  sequencerKeys: Record<string, Hex> | readonly SequencerKeyV1[],
+  keyId: string,
+  issuedAt: string
+): Hex {
+  let publicKey: Hex | undefined;
+  if (Array.isArray(sequencerKeys)) {
+    const key = (sequencerKeys as readonly SequencerKeyV1[]).find((entry) => entry.keyId === keyId);
+    if (key && !isSequencerKeyValidAt(key, BigInt(issuedAt))) {
+      throw new SequencerSignatureError(
+        'UNKNOWN_SEQUENCER_KEY',
+        `sequencer key ${keyId} is not active at issuedAt ${issuedAt}`
+      );
+    }
+    publicKey = key?.publicKey;
+  } else {
+    publicKey = (sequencerKeys as Record<string, Hex>)[keyId];
+  }
+  if (!publicKey) {
+    throw new SequencerSignatureError('UNKNOWN_SEQUENCER_KEY', `unknown sequencer key ${keyId}`);
+  }
+  return publicKey;
+}
+
+/** Checks that the authorization is for exactly the intent the agent signed, within its fee cap. */
+export function assertAuthorizationMatchesIntent(input: {
+  intent: IntentV1;
+  authorization: AuthorizationV1;
+}): void {
+  const { intent, authorization } = input;
+  const expected: Array<[keyof AuthorizationV1, string, string]> = [
+    ['intentId', normalizeHex(authorization.intentId), hashIntent(intent)],
+    ['agentId', normalizeHex(authorization.agentId), normalizeHex(intent.agentId)],
+    ['agentNonce', authorization.agentNonce, intent.agentNonce],
+    ['authorizedAmountMicros', authorization.authorizedAmountMicros, intent.amountMicros],
+    ['merchantId', normalizeHex(authorization.merchantId), normalizeHex(intent.merchantId)],
+    ['chainRef', authorization.chainRef, intent.requiredChainRef],
+    ['expiresAt', authorization.expiresAt, intent.expiresAt]
+  ];
+  for (const [field, actual, wanted] of expected) {
+    if (actual !== wanted) {
+      throw new AuthorizationMismatchError(field, `authorization ${field} ${actual} does not match intent ${wanted}`);
+    }
+  }
+  const feeMicros = authorization.feeMicros ?? '0';
+  if (intent.maxFeeMicros !== undefined && BigInt(feeMicros) > BigInt(intent.maxFeeMicros)) {
+    throw new AuthorizationMismatchError(
+      'feeMicros',
+      `authorization feeMicros ${feeMicros} exceeds intent maxFeeMicros ${intent.maxFeeMicros}`
+    );
+  }
+}
+
+/**
+ * Verifies that `proof` is for `authorization`, by recomputing its leaf from the signed
+ * authorization, then checks the Merkle path and that its root is the one anchored for the
+ * epoch in `CommitmentRegistryV1`, rather than trusting the root the sequencer reports.
+ */
+export async function verifyInclusionProofOnChain(input: {
+  proof: InclusionProofV1;
+  registry: CommitmentRegistryReader;
+  authorization: AuthorizationV1;
+}): Promise<void> {
+  const { proof, authorization } = input;
+  if (normalizeHex(proof.authId) !== normalizeHex(authorization.authId)) {
+    throw new InclusionProofError(
+      'INVALID_INCLUSION_PROOF',
+      `proof is for ${proof.authId}, not ${authorization.authId}`
+    );
+  }
+  if (proof.logSeqNo !== authorization.logSeqNo) {
+    throw new InclusionProofError(
+      'INVALID_INCLUSION_PROOF',
+      `proof logSeqNo ${proof.logSeqNo} does not match authorization logSeqNo ${authorization.logSeqNo}`
+    );
+  }
+  const leafHash = computeAuthorizationLeaf({
+    logSeqNo: authorization.logSeqNo,
+    prevLeafHash: normalizeHex(proof.prevLeafHash),
+    authHash: hashAuthorization(authorization),
+    salt: normalizeHex(proof.leafSalt)
+  });
+  if (leafHash !== normalizeHex(proof.leafHash)) {
+    throw new InclusionProofError('INVALID_INCLUSION_PROOF', 'proof leaf is not the leaf of this authorization');
+  }
+  if (
+    !verifyMerkleProof({
+      leafHash: proof.leafHash,
+      leafIndex: proof.leafIndex,
+      proof: proof.merkleProof,
+      expectedRoot: proof.root
+    })
+  ) {
+    throw new InclusionProofError('INVALID_INCLUSION_PROOF', 'merkle proof does not reach the reported root');
+  }
+  const anchoredRoot = normalizeHex(
+    (await input.registry.publicClient.readContract({
+      address: input.registry.address,
+      abi: commitmentRegistryRootsAbi,
+      functionName: 'roots',
+      args: [BigInt(proof.epochId)]
+    })) as Hex
+  );
+  if (anchoredRoot === ZERO_HASH) {
+    throw new InclusionProofError('COMMITMENT_NOT_ANCHORED', `epoch ${proof.epochId} is not anchored yet`);
+  }
+  if (anchoredRoot !== normalizeHex(proof.root)) {
+    throw new InclusionProofError(
+      'COMMITMENT_ROOT_MISMATCH',
+      `epoch ${proof.epochId} anchored root ${anchoredRoot} does not match proof root ${normalizeHex(proof.root)}`
+    );
+  }
+}
@@ -1,5 +1,6 @@
 export * from './client.js';
 export * from './counterpartyPolicy.js';
+export * from './creditVerification.js';
 export * from './crypto.js';
 export * from './indexer.js';
 export * from './merkle.js';
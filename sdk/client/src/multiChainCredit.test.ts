@@ -1,5 +1,17 @@
+import { createHash, createPrivateKey, createPublicKey, sign } from 'node:crypto';
 import { describe, expect, it, vi } from 'vitest';
-import type { AuthorizeResponseV1, RelayPayResponseV1 } from '@shielded-x402/shared-types';
+import {
+  canonicalAuthorizationBytes,
+  canonicalBalanceReceiptBytes,
+  hashIntent,
+  type AgentAccountV1,
+  type AuthorizationV1,
+  type AuthorizeResponseV1,
+  type BalanceReceiptV1,
+  type IntentV1,
+  type RelayPayResponseV1
+} from '@shielded-x402/shared-types';
+import { AuthorizationMismatchError, BalanceReceiptError, SequencerSignatureError } from './creditVerification.js';
 import { MultiChainCreditClient } from './multiChainCredit.js';
 
 function jsonResponse(status: number, body: unknown): Response {
@@ -62,6 +74,95 @@ describe('MultiChainCreditClient', () => {
     expect(result.authorization.chainRef).toBe('solana:devnet');
   });
 
+  it('verifies authorize responses against the signed intent and a pinned sequencer key', async () => {
+    const privateKey = createPrivateKey({
+      key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.alloc(32, 7)]),
+      format: 'der',
+      type: 'pkcs8'
+    });
+    const spki = createPublicKey(privateKey).export({ format: 'der', type: 'spki' });
+    const publicKey = `0x${Buffer.from(spki).subarray(-32).toString('hex')}` as `0x${string}`;
+    const intent: IntentV1 = {
+      version: 1,
+      agentId: '0x33'.padEnd(66, '3') as `0x${string}`,
+      agentPubKey: '0xaa'.padEnd(66, 'a') as `0x${string}`,
+      signatureScheme: 'ed25519-sha256-v1',
+      agentNonce: '0',
+      amountMicros: '10',
+      merchantId: '0x44'.padEnd(66, '4') as `0x${string}`,
+      requiredChainRef: 'solana:devnet',
+      expiresAt: '2',
+      requestId: '0x66'.padEnd(66, '6') as `0x${string}`
+    };
+    const signed = (authorization: AuthorizationV1): AuthorizeResponseV1 => {
+      const balanceReceipt: BalanceReceiptV1 = {
+        version: 1,
+        agentId: authorization.agentId,
+        authId: authorization.authId,
+        balanceMicros: '90',
+        debitedOutstandingMicros: '10',
+        nextAgentNonce: '1',
+        logSeqNo: authorization.logSeqNo,
+        prevReceiptHash: '0x'.padEnd(66, '0') as `0x${string}`,
+        issuedAt: authorization.issuedAt,
+        sequencerKeyId: authorization.sequencerKeyId
+      };
+      return {
+        authorization,
+        sequencerSig: `0x${sign(
+          null,
+          createHash('sha256').update(canonicalAuthorizationBytes(authorization)).digest(),
+          privateKey
+        ).toString('hex')}`,
+        balanceReceipt,
+        balanceReceiptSig: `0x${sign(
+          null,
+          createHash('sha256').update(canonicalBalanceReceiptBytes(balanceReceipt)).digest(),
+          privateKey
+        ).toString('hex')}`,
+        idempotent: false
+      };
+    };
+    const authorization: AuthorizationV1 = {
+      version: 1,
+      intentId: hashIntent(intent),
+      authId: '0x22'.padEnd(66, '2') as `0x${string}`,
+      authorizedAmountMicros: '10',
+      agentId: intent.agentId,
+      agentNonce: '0',
+      merchantId: intent.merchantId,
+      chainRef: 'solana:devnet',
+      issuedAt: '1',
+      expiresAt: '2',
+      sequencerEpochHint: '1',
+      logSeqNo: '1',
+      sequencerKeyId: 'seq-key-1'
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, signed(authorization)))
+      .mockResolvedValueOnce(jsonResponse(200, signed({ ...authorization, authorizedAmountMicros: '11' })))
+      .mockResolvedValueOnce(jsonResponse(200, { ...signed(authorization), sequencerSig: '0x55'.padEnd(130, '5') }))
+      .mockResolvedValueOnce(
+        jsonResponse(200, {
+          ...signed(authorization),
+          balanceReceipt: { ...signed(authorization).balanceReceipt!, balanceMicros: '95' }
+        })
+      );
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      verification: { sequencerKeys: { 'seq-key-1': publicKey } }
+    });
+    const agentSig = '0x77'.padEnd(130, '7') as `0x${string}`;
+
+    expect((await client.authorize({ intent, agentSig })).authorization.authId).toBe(authorization.authId);
+    await expect(client.authorize({ intent, agentSig })).rejects.toBeInstanceOf(AuthorizationMismatchError);
+    await expect(client.authorize({ intent, agentSig })).rejects.toBeInstanceOf(SequencerSignatureError);
+    await expect(client.authorize({ intent, agentSig })).rejects.toBeInstanceOf(BalanceReceiptError);
+  });
+
   it('routes pay to matching chain relayer', async () => {
     const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
       expect(String(input)).toBe('http://base-relayer.local/v1/relay/pay');
@@ -209,4 +310,372 @@ describe('MultiChainCreditClient', () => {
     expect(String(fetchMock.mock.calls[0][0])).toBe('http://sequencer.local/v1/credit/authorize');
     expect(String(fetchMock.mock.calls[1][0])).toBe('http://solana-relayer.local/v1/relay/pay');
   });
+
+  it('submits funding claims and polls their status on the sequencer', async () => {
+    const nullifier = '0xab'.padEnd(66, 'b') as `0x${string}`;
+    const claim = {
+      nullifier,
+      agentId: '0x33'.padEnd(66, '3') as `0x${string}`,
+      amountMicros: '2500000',
+      status: 'PENDING' as const
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, claim))
+      .mockResolvedValueOnce(jsonResponse(200, { ...claim, status: 'CREDITED', creditedAt: '10' }));
+
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local/',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    const submitted = await client.submitFunding({
+      nullifier,
+      encryptedReceipt: '0x1234'
+    });
+    expect(submitted.status).toBe('PENDING');
+    const signQuery = vi.fn(async () => ('0xdd'.padEnd(130, 'd') as `0x${string}`));
+    const status = await client.fundingStatus(
+      { agentId: claim.agentId, signatureScheme: 'ed25519-sha256-v1', signQuery },
+      nullifier
+    );
+    expect(status.status).toBe('CREDITED');
+    const resource = `/v1/credit/agents/${claim.agentId}/funding/${nullifier}`;
+    expect(String(fetchMock.mock.calls[0][0])).toBe('http://sequencer.local/v1/credit/funding');
+    expect(String(fetchMock.mock.calls[1][0])).toBe(`http://sequencer.local${resource}`);
+    expect(signQuery.mock.calls[0][0].query.resource).toBe(resource);
+  });
+
+  it('reads the fee schedule and fee quotes from the sequencer', async () => {
+    const entry = { chainRef: 'eip155:8453', flatMicros: '100', bps: 25 };
+    const quote = { chainRef: 'eip155:8453', amountMicros: '10000', feeMicros: '125', totalMicros: '10125' };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, { fees: [entry] }))
+      .mockResolvedValueOnce(jsonResponse(200, quote));
+
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local/',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    expect(await client.feeSchedule()).toEqual([entry]);
+    expect(await client.quoteFee('eip155:8453', '10000')).toEqual(quote);
+    expect(String(fetchMock.mock.calls[1][0])).toBe(
+      'http://sequencer.local/v1/credit/fees?chainRef=eip155%3A8453&amountMicros=10000'
+    );
+  });
+
+  it('registers merchants with the admin token and reads their payout addresses', async () => {
+    const merchantId = ('0x' + '44'.repeat(32)) as `0x${string}`;
+    const record = {
+      merchantId,
+      serviceRegistryId: 'demo/base',
+      endpointUrl: 'https://merchant.example/pay',
+      source: 'ADMIN',
+      payoutAddresses: [{ chainRef: 'eip155:8453', address: '0x' + '11'.repeat(20) }],
+      updatedAt: '100'
+    };
+    const signed = {
+      version: 1 as const,
+      record,
+      issuedAt: '120',
+      sequencerKeyId: 'seq-key-1',
+      sequencerSig: '0x' + '22'.repeat(64)
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, record))
+      .mockResolvedValueOnce(jsonResponse(200, signed));
+
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local',
+      relayerUrls: {},
+      sequencerAdminToken: 'admin-token',
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    await client.registerMerchant({
+      serviceRegistryId: 'demo/base',
+      endpointUrl: 'https://merchant.example/pay',
+      payoutAddresses: record.payoutAddresses
+    });
+    expect(await client.merchant(merchantId)).toEqual(signed);
+    expect(String(fetchMock.mock.calls[0][0])).toBe('http://sequencer.local/v1/admin/merchants');
+    expect(fetchMock.mock.calls[0][1].headers['x-sequencer-admin-token']).toBe('admin-token');
+    expect(String(fetchMock.mock.calls[1][0])).toBe(`http://sequencer.local/v1/credit/merchants/${merchantId}`);
+  });
+
+  it('submits withdrawals and polls their deposit status on the sequencer', async () => {
+    const withdrawal = {
+      version: 1 as const,
+      withdrawalId: '0xcd'.padEnd(66, 'd') as `0x${string}`,
+      intentId: '0x11'.padEnd(66, '1') as `0x${string}`,
+      agentId: '0x33'.padEnd(66, '3') as `0x${string}`,
+      agentNonce: '4',
+      amountMicros: '1500000',
+      commitment: '0x44'.padEnd(66, '4') as `0x${string}`,
+      issuedAt: '10',
+      logSeqNo: '12',
+      sequencerKeyId: 'seq-key-1'
+    };
+    const pending = {
+      withdrawal,
+      sequencerSig: '0xee'.padEnd(130, 'e') as `0x${string}`,
+      status: 'PENDING' as const,
+      depositTxHash: null,
+      idempotent: false
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, pending))
+      .mockResolvedValueOnce(
+        jsonResponse(200, { ...pending, status: 'POSTED', depositTxHash: '0x55'.padEnd(66, '5') })
+      );
+
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local/',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    const submitted = await client.withdraw({
+      intent: {
+        version: 1,
+        agentId: withdrawal.agentId,
+        agentPubKey: '0x66'.padEnd(66, '6') as `0x${string}`,
+        signatureScheme: 'ed25519-sha256-v1',
+        agentNonce: '4',
+        amountMicros: '1500000',
+        commitment: withdrawal.commitment,
+        expiresAt: '100',
+        requestId: '0x77'.padEnd(66, '7') as `0x${string}`
+      },
+      agentSig: '0xbb'.padEnd(130, 'b') as `0x${string}`
+    });
+    expect(submitted.status).toBe('PENDING');
+    const signQuery = vi.fn(async () => ('0xdd'.padEnd(130, 'd') as `0x${string}`));
+    const status = await client.withdrawalStatus(
+      { agentId: withdrawal.agentId, signatureScheme: 'ed25519-sha256-v1', signQuery },
+      withdrawal.withdrawalId
+    );
+    expect(status.status).toBe('POSTED');
+    const resource = `/v1/credit/agents/${withdrawal.agentId}/withdrawals/${withdrawal.withdrawalId}`;
+    expect(String(fetchMock.mock.calls[0][0])).toBe('http://sequencer.local/v1/credit/withdrawals');
+    expect(String(fetchMock.mock.calls[1][0])).toBe(`http://sequencer.local${resource}`);
+    expect(signQuery.mock.calls[0][0].query.resource).toBe(resource);
+  });
+
+  it('files disputes and reads their status from the sequencer', async () => {
+    const request = {
+      version: 1 as const,
+      authId: '0x22'.padEnd(66, '2') as `0x${string}`,
+      agentId: '0x33'.padEnd(66, '3') as `0x${string}`,
+      reasonHash: '0xd1'.padEnd(66, '1') as `0x${string}`,
+      requestedAt: '20'
+    };
+    const dispute = {
+      disputeId: '0xd0'.padEnd(66, '0') as `0x${string}`,
+      authId: request.authId,
+      agentId: request.agentId,
+      chainRef: 'eip155:8453',
+      status: 'OPEN' as const,
+      request,
+      agentSig: '0xbb'.padEnd(130, 'b') as `0x${string}`,
+      filedAt: '20',
+      evidenceDueAt: '86420',
+      evidence: null,
+      creditedMicros: '0',
+      resolvedAt: null,
+      resolvedBy: null,
+      events: []
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, dispute))
+      .mockResolvedValueOnce(jsonResponse(200, { ...dispute, status: 'CREDITED', creditedMicros: '1000' }));
+
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local/',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    expect((await client.fileDispute({ dispute: request, agentSig: dispute.agentSig })).status).toBe('OPEN');
+    const signQuery = vi.fn(async () => ('0xdd'.padEnd(130, 'd') as `0x${string}`));
+    const status = await client.disputeStatus(
+      { agentId: request.agentId, signatureScheme: 'ed25519-sha256-v1', signQuery },
+      dispute.disputeId
+    );
+    expect(status.creditedMicros).toBe('1000');
+    const resource = `/v1/credit/agents/${request.agentId}/disputes/${dispute.disputeId}`;
+    expect(String(fetchMock.mock.calls[0][0])).toBe('http://sequencer.local/v1/credit/disputes');
+    expect(String(fetchMock.mock.calls[1][0])).toBe(`http://sequencer.local${resource}`);
+    expect(signQuery.mock.calls[0][0].query.resource).toBe(resource);
+  });
+
+  it('pay() reads the next nonce from a signed account query when none is given', async () => {
+    const agentId = '0x33'.padEnd(66, '3') as `0x${string}`;
+    const account: AgentAccountV1 = {
+      agentId,
+      balanceMicros: '9000000',
+      creditedMicros: '9000000',
+      debitedOutstandingMicros: '0',
+      withdrawnMicros: '0',
+      nextAgentNonce: '7',
+      nonceLanes: [{ nonceLane: 4, nextLaneSeq: '2' }],
+      openAuthorizations: 0,
+      signatureScheme: 'ed25519-sha256-v1',
+      updatedAt: '1'
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, account))
+      .mockResolvedValueOnce(jsonResponse(422, { error: 'stop after authorize', code: 'INVALID_REQUEST' }));
+
+    const signQuery = vi.fn(async () => ('0xdd'.padEnd(130, 'd') as `0x${string}`));
+    const signIntent = vi.fn(async () => ('0xbb'.padEnd(130, 'b') as `0x${string}`));
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    await expect(
+      client.pay({
+        chainRef: 'solana:devnet',
+        amountMicros: '1500000',
+        merchant: {
+          serviceRegistryId: 'demo/sol',
+          endpointUrl: 'https://merchant.solana.example/pay'
+        },
+        merchantRequest: {
+          url: 'https://merchant.solana.example/pay',
+          method: 'POST'
+        },
+        agent: {
+          agentId,
+          agentPubKey: '0xcc'.padEnd(66, 'c') as `0x${string}`,
+          signatureScheme: 'ed25519-sha256-v1',
+          signIntent,
+          signQuery
+        }
+      })
+    ).rejects.toThrow('authorize failed: 422');
+
+    expect(String(fetchMock.mock.calls[0][0])).toBe(`http://sequencer.local/v1/credit/agents/${agentId}`);
+    const headers = fetchMock.mock.calls[0][1].headers as Record<string, string>;
+    expect(headers['x-agent-signature']).toBe('0xdd'.padEnd(130, 'd'));
+    expect(headers['x-agent-signature-scheme']).toBe('ed25519-sha256-v1');
+    expect(signQuery.mock.calls[0][0].query.resource).toBe(`/v1/credit/agents/${agentId}`);
+    const body = JSON.parse(String(fetchMock.mock.calls[1][1].body));
+    expect(body.intent.agentNonce).toBe('7');
+  });
+
+  it('pay() signs a version 2 intent on the requested nonce lane', async () => {
+    const agentId = '0x33'.padEnd(66, '3') as `0x${string}`;
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(422, { error: 'stop after authorize', code: 'INVALID_REQUEST' }));
+    const signIntent = vi.fn(async () => ('0xbb'.padEnd(130, 'b') as `0x${string}`));
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    await expect(
+      client.pay({
+        chainRef: 'solana:devnet',
+        amountMicros: '1500000',
+        merchant: {
+          serviceRegistryId: 'demo/sol',
+          endpointUrl: 'https://merchant.solana.example/pay'
+        },
+        merchantRequest: {
+          url: 'https://merchant.solana.example/pay',
+          method: 'POST'
+        },
+        nonceLane: 4,
+        agent: {
+          agentId,
+          agentPubKey: '0xcc'.padEnd(66, 'c') as `0x${string}`,
+          signatureScheme: 'ed25519-sha256-v1',
+          laneSeq: '2',
+          signIntent
+        }
+      })
+    ).rejects.toThrow('authorize failed: 422');
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+    expect(body.intent).toMatchObject({ version: 2, nonceLane: 4, laneSeq: '2' });
+    expect(body.intent.agentNonce).toBe(((4n << 48n) | 2n).toString());
+    expect(signIntent.mock.calls[0][0].typedData.domain.version).toBe('2');
+  });
+
+  it('signs authorization history queries over the exact path and filters', async () => {
+    const agentId = '0x33'.padEnd(66, '3') as `0x${string}`;
+    const fetchMock = vi.fn().mockResolvedValueOnce(jsonResponse(200, { items: [], nextCursor: null }));
+    const signQuery = vi.fn(async () => ('0xdd'.padEnd(130, 'd') as `0x${string}`));
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    const page = await client.listAuthorizations(
+      { agentId, signatureScheme: 'ed25519-sha256-v1', signQuery },
+      { status: 'EXECUTED', chainRef: 'solana:devnet', cursor: '42', limit: 10 }
+    );
+
+    expect(page.nextCursor).toBeNull();
+    const resource = `/v1/credit/agents/${agentId}/authorizations?status=EXECUTED&chainRef=solana%3Adevnet&cursor=42&limit=10`;
+    expect(String(fetchMock.mock.calls[0][0])).toBe(`http://sequencer.local${resource}`);
+    expect(signQuery.mock.calls[0][0].query.resource).toBe(resource);
+  });
+
+  it('posts signed policy updates to the agent policy route', async () => {
+    const agentId = '0x33'.padEnd(66, '3') as `0x${string}`;
+    const policy = {
+      version: 1 as const,
+      agentId,
+      agentPubKey: '0xcc'.padEnd(66, 'c') as `0x${string}`,
+      signatureScheme: 'ed25519-sha256-v1' as const,
+      policyVersion: '1',
+      dailyCapMicros: '5000000'
+    };
+    const fetchMock = vi.fn().mockResolvedValueOnce(jsonResponse(200, { policy, updatedAt: '10' }));
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    const result = await client.updatePolicy({ policy, agentSig: '0xdd'.padEnd(130, 'd') as `0x${string}` });
+    expect(result.policy?.dailyCapMicros).toBe('5000000');
+    expect(String(fetchMock.mock.calls[0][0])).toBe(`http://sequencer.local/v1/credit/agents/${agentId}/policy`);
+    expect(fetchMock.mock.calls[0][1].method).toBe('POST');
+  });
+
+  it('rejects published sequencer key sets signed by an untrusted key', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(
+      jsonResponse(200, {
+        keySet: { version: 1, currentKeyId: 'seq-key-2', issuedAt: '10', keys: [] },
+        signerKeyId: 'seq-key-2',
+        signature: '0xdd'.padEnd(130, 'd')
+      })
+    );
+    const client = new MultiChainCreditClient({
+      sequencerUrl: 'http://sequencer.local',
+      relayerUrls: {},
+      fetchImpl: fetchMock as unknown as typeof fetch
+    });
+
+    await expect(
+      client.sequencerKeys({ 'seq-key-1': '0xaa'.padEnd(66, 'a') as `0x${string}` })
+    ).rejects.toThrow('sequencer key set signed by untrusted key: seq-key-2');
+    expect(String(fetchMock.mock.calls[0][0])).toBe('http://sequencer.local/v1/keys');
+  });
 });
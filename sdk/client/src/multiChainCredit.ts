@@ -1,30 +1,75 @@
 import type {
+  AgentAccountV1,
+  AgentPolicyResponseV1,
+  AgentPolicyUpdateRequestV1,
+  AgentQueryV1,
+  AuthorizationHistoryPageV1,
+  AuthorizationHistoryQueryV1,
   AuthorizeRequestV1,
   AuthorizeResponseV1,
+  AuthorizationV1,
   CommitmentMetadataV1,
+  DisputeV1,
+  FeeQuoteV1,
+  FeeScheduleEntryV1,
+  FileDisputeRequestV1,
+  FundingClaimRequestV1,
+  FundingClaimResponseV1,
   IntentV1,
   InclusionProofV1,
+  MerchantRecordV1,
+  MerchantRegistrationV1,
   ReclaimRequestV1,
   RelayPayRequestV1,
   RelayPayResponseV1,
-  SignatureScheme
+  SequencerKeyV1,
+  SignatureScheme,
+  SignedMerchantRecordV1,
+  SignedSequencerKeySetV1,
+  WithdrawRequestV1,
+  WithdrawResponseV1
 } from '@shielded-x402/shared-types';
 import {
+  AGENT_QUERY_HEADERS,
   RELAYER_ROUTES_V1,
   SEQUENCER_ROUTES_V1,
+  buildAgentQueryTypedDataPayload,
   buildIntentTypedDataPayload,
+  canonicalAgentQueryBytes,
   canonicalIntentBytes,
+  deriveLaneAgentNonce,
   deriveMerchantId,
   normalizeHex,
+  verifySequencerKeySet,
   type Hex
 } from '@shielded-x402/shared-types';
 import { postJson, requestJson } from './http.js';
+import {
+  BalanceReceiptError,
+  assertAuthorizationMatchesIntent,
+  assertBalanceReceipt,
+  assertMerchantRecordSignature,
+  assertSequencerSignature,
+  verifyInclusionProofOnChain,
+  type CommitmentRegistryReader
+} from './creditVerification.js';
 
 export interface MultiChainCreditClientConfig {
   sequencerUrl: string;
   relayerUrls: Record<string, string>;
   fetchImpl?: typeof fetch;
   sequencerAdminToken?: string;
+  /** When set, authorizations and inclusion proofs are verified before they are returned. */
+  verification?: MultiChainCreditVerificationConfig;
+}
+
+export interface MultiChainCreditVerificationConfig {
+  /** Pinned sequencer public keys by keyId. */
+  sequencerKeys?: Record<string, Hex>;
+  /** Keys trusted to sign `/v1/keys`; the verified key set is fetched on demand and cached. */
+  trustedKeySetSigners?: Record<string, Hex>;
+  /** Registry that `commitmentProof` checks proof roots against. */
+  commitmentRegistry?: CommitmentRegistryReader;
 }
 
 export interface AdminCreditRequestV1 {
@@ -48,16 +93,32 @@ export interface LatestCommitmentResponseV1 {
   postedTxHash?: Hex | null;
 }
 
+export interface AgentQuerySigner {
+  agentId: Hex;
+  signatureScheme: SignatureScheme;
+  /** Sent with the query so agents without a registered key can still authenticate. */
+  agentPubKey?: Hex;
+  signQuery: (input: {
+    query: AgentQueryV1;
+    canonicalBytes: Uint8Array;
+    typedData: ReturnType<typeof buildAgentQueryTypedDataPayload>;
+  }) => Promise<Hex> | Hex;
+}
+
 export interface UnifiedPayAgentContext {
   agentId: Hex;
   agentPubKey: Hex;
   signatureScheme: SignatureScheme;
-  agentNonce: string;
+  /** When omitted, the next nonce is read from the sequencer via `signQuery`. */
+  agentNonce?: string;
+  /** Sequence within `UnifiedPayRequestV1.nonceLane`; read via `signQuery` when omitted. */
+  laneSeq?: string;
   signIntent: (input: {
     intent: IntentV1;
     canonicalBytes: Uint8Array;
     typedData: ReturnType<typeof buildIntentTypedDataPayload>;
   }) => Promise<Hex> | Hex;
+  signQuery?: AgentQuerySigner['signQuery'];
 }
 
 export interface UnifiedPayRequestV1 {
@@ -73,6 +134,10 @@ export interface UnifiedPayRequestV1 {
   requestId?: Hex;
   serviceHash?: Hex;
   memoHash?: Hex;
+  /** Authorize on this nonce lane (version 2 intent) so concurrent payments do not queue. */
+  nonceLane?: number;
+  /** Highest relayer fee to accept, e.g. from `quoteFee`; signed into the intent, so it needs `nonceLane`. */
+  maxFeeMicros?: string;
 }
 
 export interface UnifiedPayResultV1 {
@@ -99,6 +164,8 @@ export class MultiChainCreditClient {
   private readonly relayerUrls: Record<string, string>;
   private readonly fetchImpl: typeof fetch;
   private readonly sequencerAdminToken: string | undefined;
+  private readonly verification: MultiChainCreditVerificationConfig | undefined;
+  private fetchedSequencerKeys: SequencerKeyV1[] = [];
 
   constructor(config: MultiChainCreditClientConfig) {
     this.sequencerUrl = trimTrailingSlash(config.sequencerUrl);
@@ -107,15 +174,50 @@ export class MultiChainCreditClient {
     );
     this.fetchImpl = config.fetchImpl ?? fetch;
     this.sequencerAdminToken = config.sequencerAdminToken;
+    if (config.verification && !config.verification.sequencerKeys && !config.verification.trustedKeySetSigners) {
+      throw new Error('verification requires sequencerKeys or trustedKeySetSigners');
+    }
+    this.verification = config.verification;
   }
 
   async authorize(request: AuthorizeRequestV1): Promise<AuthorizeResponseV1> {
-    return postJson<AuthorizeResponseV1>(
+    const response = await postJson<AuthorizeResponseV1>(
       this.fetchImpl,
       `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.authorize}`,
       request,
       { errorPrefix: 'authorize failed' }
     );
+    if (this.verification) {
+      assertAuthorizationMatchesIntent({ intent: request.intent, authorization: response.authorization });
+      const sequencerKeys = await this.resolveSequencerKeys(response.authorization.sequencerKeyId);
+      assertSequencerSignature({
+        authorization: response.authorization,
+        sequencerSig: response.sequencerSig,
+        sequencerKeys
+      });
+      if (response.balanceReceipt && response.balanceReceiptSig) {
+        assertBalanceReceipt({
+          authorization: response.authorization,
+          balanceReceipt: response.balanceReceipt,
+          balanceReceiptSig: response.balanceReceiptSig,
+          sequencerKeys
+        });
+      } else if (!response.idempotent) {
+        throw new BalanceReceiptError('authorize response is missing its balance receipt');
+      }
+    }
+    return response;
+  }
+
+  private async resolveSequencerKeys(keyId: string): Promise<Record<string, Hex> | SequencerKeyV1[]> {
+    const verification = this.verification;
+    if (!verification?.trustedKeySetSigners || verification.sequencerKeys?.[keyId]) {
+      return verification?.sequencerKeys ?? {};
+    }
+    if (!this.fetchedSequencerKeys.some((key) => key.keyId === keyId)) {
+      this.fetchedSequencerKeys = await this.sequencerKeys(verification.trustedKeySetSigners);
+    }
+    return this.fetchedSequencerKeys;
   }
 
   async relayPay(request: RelayPayRequestV1): Promise<RelayPayResponseV1> {
@@ -149,13 +251,166 @@ export class MultiChainCreditClient {
     );
   }
 
-  async commitmentProof(authId: Hex): Promise<InclusionProofV1> {
-    const query = new URLSearchParams({ authId }).toString();
-    return requestJson<InclusionProofV1>(
+  /** Fetches the inclusion proof for `authorization`, checking it against the registry when configured. */
+  async commitmentProof(authorization: AuthorizationV1): Promise<InclusionProofV1> {
+    const query = new URLSearchParams({ authId: authorization.authId }).toString();
+    const proof = await requestJson<InclusionProofV1>(
       this.fetchImpl,
       `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.commitmentsProof}?${query}`,
       { errorPrefix: 'commitment proof failed' }
     );
+    if (this.verification?.commitmentRegistry) {
+      await verifyInclusionProofOnChain({ proof, registry: this.verification.commitmentRegistry, authorization });
+    }
+    return proof;
+  }
+
+  /**
+   * Fetches the sequencer's published key set and verifies it against `trustedKeys`
+   * (typically the keys from the last verified set), returning every listed key.
+   */
+  async sequencerKeys(trustedKeys: Record<string, Hex>): Promise<SequencerKeyV1[]> {
+    const signed = await requestJson<SignedSequencerKeySetV1>(
+      this.fetchImpl,
+      `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.keys}`,
+      { errorPrefix: 'sequencer keys failed' }
+    );
+    return verifySequencerKeySet({ signed, trustedKeys });
+  }
+
+  async feeSchedule(): Promise<FeeScheduleEntryV1[]> {
+    const response = await requestJson<{ fees: FeeScheduleEntryV1[] }>(
+      this.fetchImpl,
+      `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.fees}`,
+      { errorPrefix: 'fee schedule failed' }
+    );
+    return response.fees;
+  }
+
+  /** Quotes the relayer fee the sequencer adds on top of `amountMicros` for `chainRef`. */
+  async quoteFee(chainRef: string, amountMicros: string): Promise<FeeQuoteV1> {
+    const query = new URLSearchParams({ chainRef, amountMicros }).toString();
+    return requestJson<FeeQuoteV1>(
+      this.fetchImpl,
+      `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.fees}?${query}`,
+      { errorPrefix: 'fee quote failed' }
+    );
+  }
+
+  async submitFunding(request: FundingClaimRequestV1): Promise<FundingClaimResponseV1> {
+    return postJson<FundingClaimResponseV1>(
+      this.fetchImpl,
+      `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.funding}`,
+      request,
+      { errorPrefix: 'funding claim failed' }
+    );
+  }
+
+  /** Reads the signer's own claim on `nullifier`; the sequencer does not reveal other agents' claims. */
+  async fundingStatus(signer: AgentQuerySigner, nullifier: Hex): Promise<FundingClaimResponseV1> {
+    const resource = `${SEQUENCER_ROUTES_V1.agents}/${normalizeHex(signer.agentId)}/funding/${normalizeHex(nullifier)}`;
+    return requestJson<FundingClaimResponseV1>(this.fetchImpl, `${this.sequencerUrl}${resource}`, {
+      errorPrefix: 'funding status failed',
+      headers: await this.signAgentQuery(signer, resource)
+    });
+  }
+
+  async withdraw(request: WithdrawRequestV1): Promise<WithdrawResponseV1> {
+    return postJson<WithdrawResponseV1>(
+      this.fetchImpl,
+      `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.withdrawals}`,
+      request,
+      { errorPrefix: 'withdraw failed' }
+    );
+  }
+
+  async withdrawalStatus(signer: AgentQuerySigner, withdrawalId: Hex): Promise<WithdrawResponseV1> {
+    const resource = `${SEQUENCER_ROUTES_V1.agents}/${normalizeHex(signer.agentId)}/withdrawals/${normalizeHex(withdrawalId)}`;
+    return requestJson<WithdrawResponseV1>(this.fetchImpl, `${this.sequencerUrl}${resource}`, {
+      errorPrefix: 'withdrawal status failed',
+      headers: await this.signAgentQuery(signer, resource)
+    });
+  }
+
+  async fileDispute(request: FileDisputeRequestV1): Promise<DisputeV1> {
+    return postJson<DisputeV1>(
+      this.fetchImpl,
+      `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.disputes}`,
+      request,
+      { errorPrefix: 'dispute failed' }
+    );
+  }
+
+  async disputeStatus(signer: AgentQuerySigner, disputeId: Hex): Promise<DisputeV1> {
+    const resource = `${SEQUENCER_ROUTES_V1.agents}/${normalizeHex(signer.agentId)}/disputes/${normalizeHex(disputeId)}`;
+    return requestJson<DisputeV1>(this.fetchImpl, `${this.sequencerUrl}${resource}`, {
+      errorPrefix: 'dispute status failed',
+      headers: await this.signAgentQuery(signer, resource)
+    });
+  }
+
+  async getAccount(signer: AgentQuerySigner): Promise<AgentAccountV1> {
+    const resource = `${SEQUENCER_ROUTES_V1.agents}/${normalizeHex(signer.agentId)}`;
+    return requestJson<AgentAccountV1>(this.fetchImpl, `${this.sequencerUrl}${resource}`, {
+      errorPrefix: 'agent account failed',
+      headers: await this.signAgentQuery(signer, resource)
+    });
+  }
+
+  async listAuthorizations(
+    signer: AgentQuerySigner,
+    query: AuthorizationHistoryQueryV1 = {}
+  ): Promise<AuthorizationHistoryPageV1> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const search = params.toString();
+    const resource = `${SEQUENCER_ROUTES_V1.agents}/${normalizeHex(signer.agentId)}/authorizations${
+      search ? `?${search}` : ''
+    }`;
+    return requestJson<AuthorizationHistoryPageV1>(this.fetchImpl, `${this.sequencerUrl}${resource}`, {
+      errorPrefix: 'authorization history failed',
+      headers: await this.signAgentQuery(signer, resource)
+    });
+  }
+
+  async getPolicy(signer: AgentQuerySigner): Promise<AgentPolicyResponseV1> {
+    const resource = `${SEQUENCER_ROUTES_V1.agents}/${normalizeHex(signer.agentId)}/policy`;
+    return requestJson<AgentPolicyResponseV1>(this.fetchImpl, `${this.sequencerUrl}${resource}`, {
+      errorPrefix: 'agent policy failed',
+      headers: await this.signAgentQuery(signer, resource)
+    });
+  }
+
+  async updatePolicy(request: AgentPolicyUpdateRequestV1): Promise<AgentPolicyResponseV1> {
+    return postJson<AgentPolicyResponseV1>(
+      this.fetchImpl,
+      `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.agents}/${normalizeHex(request.policy.agentId)}/policy`,
+      request,
+      { errorPrefix: 'agent policy update failed' }
+    );
+  }
+
+  private async signAgentQuery(signer: AgentQuerySigner, resource: string): Promise<HeadersInit> {
+    const query: AgentQueryV1 = {
+      agentId: normalizeHex(signer.agentId),
+      resource,
+      requestedAt: String(Math.floor(Date.now() / 1000))
+    };
+    const signature = normalizeHex(
+      await signer.signQuery({
+        query,
+        canonicalBytes: canonicalAgentQueryBytes(query),
+        typedData: buildAgentQueryTypedDataPayload(query)
+      })
+    );
+    return {
+      [AGENT_QUERY_HEADERS.requestedAt]: query.requestedAt,
+      [AGENT_QUERY_HEADERS.signature]: signature,
+      [AGENT_QUERY_HEADERS.signatureScheme]: signer.signatureScheme,
+      ...(signer.agentPubKey ? { [AGENT_QUERY_HEADERS.pubKey]: normalizeHex(signer.agentPubKey) } : {})
+    };
   }
 
   async adminCredit(request: AdminCreditRequestV1): Promise<AdminCreditResponseV1> {
@@ -171,6 +426,36 @@ export class MultiChainCreditClient {
     );
   }
 
+  /** Registers (or replaces) a merchant's payout addresses; requires `sequencerAdminToken`. */
+  async registerMerchant(request: MerchantRegistrationV1): Promise<MerchantRecordV1> {
+    const headers: HeadersInit = {};
+    if (this.sequencerAdminToken) {
+      headers['x-sequencer-admin-token'] = this.sequencerAdminToken;
+    }
+    return postJson<MerchantRecordV1>(
+      this.fetchImpl,
+      `${this.sequencerUrl}/v1/admin/merchants`,
+      request,
+      { errorPrefix: 'merchant registration failed', headers }
+    );
+  }
+
+  /** Payout addresses relayers use for `merchantId`, as signed by the sequencer. */
+  async merchant(merchantId: Hex): Promise<SignedMerchantRecordV1> {
+    const signed = await requestJson<SignedMerchantRecordV1>(
+      this.fetchImpl,
+      `${this.sequencerUrl}${SEQUENCER_ROUTES_V1.merchants}/${normalizeHex(merchantId)}`,
+      { errorPrefix: 'merchant lookup failed' }
+    );
+    if (this.verification) {
+      assertMerchantRecordSignature({
+        signed,
+        sequencerKeys: await this.resolveSequencerKeys(signed.sequencerKeyId)
+      });
+    }
+    return signed;
+  }
+
   async pay(request: UnifiedPayRequestV1): Promise<UnifiedPayResultV1> {
     const expiresInSeconds = request.expiresInSeconds ?? 300;
     if (!Number.isInteger(expiresInSeconds) || expiresInSeconds <= 0) {
@@ -182,19 +467,55 @@ export class MultiChainCreditClient {
       endpointUrl: request.merchant.endpointUrl
     });
 
+    const nonceLane = request.nonceLane;
+    if (request.maxFeeMicros !== undefined && nonceLane === undefined) {
+      throw new Error('maxFeeMicros requires nonceLane (version 2 intent)');
+    }
+    let agentNonce = nonceLane === undefined ? request.agent.agentNonce : undefined;
+    let laneSeq = nonceLane === undefined ? undefined : request.agent.laneSeq;
+    if (agentNonce === undefined && (nonceLane === undefined || laneSeq === undefined)) {
+      const signQuery = request.agent.signQuery;
+      if (!signQuery) {
+        throw new Error(
+          nonceLane === undefined
+            ? 'agent.agentNonce or agent.signQuery is required'
+            : 'agent.laneSeq or agent.signQuery is required'
+        );
+      }
+      const account = await this.getAccount({
+        agentId: request.agent.agentId,
+        agentPubKey: request.agent.agentPubKey,
+        signatureScheme: request.agent.signatureScheme,
+        signQuery
+      });
+      if (nonceLane === undefined) {
+        agentNonce = account.nextAgentNonce;
+      } else {
+        laneSeq =
+          nonceLane === 0
+            ? account.nextAgentNonce
+            : (account.nonceLanes.find((lane) => lane.nonceLane === nonceLane)?.nextLaneSeq ?? '0');
+      }
+    }
+    if (nonceLane !== undefined) {
+      agentNonce = deriveLaneAgentNonce({ nonceLane, laneSeq: laneSeq as string });
+    }
+
     const intent: IntentV1 = {
-      version: 1,
+      version: nonceLane === undefined ? 1 : 2,
       agentId: request.agent.agentId,
       agentPubKey: request.agent.agentPubKey,
       signatureScheme: request.agent.signatureScheme,
-      agentNonce: request.agent.agentNonce,
+      agentNonce: agentNonce as string,
+      ...(nonceLane !== undefined ? { nonceLane, laneSeq: laneSeq as string } : {}),
       amountMicros: request.amountMicros,
       merchantId,
       requiredChainRef: request.chainRef,
       expiresAt,
       requestId: request.requestId ?? randomHex32(),
       ...(request.serviceHash ? { serviceHash: request.serviceHash } : {}),
-      ...(request.memoHash ? { memoHash: request.memoHash } : {})
+      ...(request.memoHash ? { memoHash: request.memoHash } : {}),
+      ...(request.maxFeeMicros !== undefined ? { maxFeeMicros: request.maxFeeMicros } : {})
     };
 
     const canonicalBytes = canonicalIntentBytes(intent);
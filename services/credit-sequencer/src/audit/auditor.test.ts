@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMerkleProof,
+  buildMerkleRoot,
+  computeAuthorizationLeaf,
+  hashAuthorization,
+  type AuthorizationV1,
+  type CommitmentEpochLeavesV1,
+  type Hex,
+  type InclusionProofV1
+} from '@shielded-x402/shared-types';
+import { auditCommitments, type AuditSequencerSource, type CommitmentPostedEvent } from './auditor.js';
+
+const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
+
+function authorizationAt(logSeqNo: number): AuthorizationV1 {
+  const byte = logSeqNo.toString(16).padStart(2, '0');
+  return {
+    version: 1,
+    intentId: (`0x${byte.repeat(32)}` as Hex),
+    authId: (`0x${'a0'.repeat(31)}${byte}` as Hex),
+    authorizedAmountMicros: '1000',
+    agentId: (`0x${'11'.repeat(32)}` as Hex),
+    agentNonce: String(logSeqNo - 1),
+    merchantId: (`0x${'22'.repeat(32)}` as Hex),
+    chainRef: 'eip155:84532',
+    issuedAt: '1735689600',
+    expiresAt: '1735689900',
+    sequencerEpochHint: '1',
+    logSeqNo: String(logSeqNo),
+    sequencerKeyId: 'seq-key-1'
+  };
+}
+
+function saltFor(authId: Hex): Hex {
+  return (`0x${authId.slice(-2).repeat(32)}` as Hex);
+}
+
+/** Builds a consistent sequencer log with `sizes[i]` leaves in epoch i + 1. */
+function buildLog(sizes: number[]) {
+  const authorizations: AuthorizationV1[] = [];
+  const epochs: CommitmentEpochLeavesV1[] = [];
+  const events: CommitmentPostedEvent[] = [];
+  let prevLeafHash = ZERO_HASH;
+  let prevRoot = ZERO_HASH;
+  let logSeqNo = 0;
+  sizes.forEach((size, index) => {
+    const leaves = Array.from({ length: size }, () => {
+      logSeqNo += 1;
+      const authorization = authorizationAt(logSeqNo);
+      authorizations.push(authorization);
+      const leafHash = computeAuthorizationLeaf({
+        logSeqNo: authorization.logSeqNo,
+        prevLeafHash,
+        authHash: hashAuthorization(authorization),
+        salt: saltFor(authorization.authId)
+      });
+      const leaf = { logSeqNo: authorization.logSeqNo, leafHash, prevLeafHash };
+      prevLeafHash = leafHash;
+      return leaf;
+    });
+    const root = buildMerkleRoot(leaves.map((leaf) => leaf.leafHash));
+    const epochId = String(index + 1);
+    epochs.push({ epochId, root, count: size, prevRoot, sequencerKeyId: 'seq-key-1', leaves });
+    events.push({
+      epochId: BigInt(epochId),
+      root,
+      count: size,
+      prevRoot,
+      sequencerKeyId: ZERO_HASH,
+      txHash: (`0x${'e0'.repeat(31)}${epochId.padStart(2, '0')}` as Hex),
+      blockNumber: BigInt(index + 10)
+    });
+    prevRoot = root;
+  });
+
+  const sequencer: AuditSequencerSource = {
+    async getLatestEpochId() {
+      return BigInt(epochs.length);
+    },
+    async getEpochLeaves(epochId) {
+      const epoch = epochs[Number(epochId) - 1];
+      if (!epoch) throw new Error('commitment epoch not found');
+      return epoch;
+    },
+    async getInclusionProof(authId): Promise<InclusionProofV1> {
+      const authorization = authorizations.find((entry) => entry.authId === authId);
+      const epoch = epochs.find((entry) => entry.leaves.some((leaf) => leaf.logSeqNo === authorization?.logSeqNo));
+      if (!authorization || !epoch) throw new Error('authorization not found');
+      const leafIndex = epoch.leaves.findIndex((leaf) => leaf.logSeqNo === authorization.logSeqNo);
+      const leaf = epoch.leaves[leafIndex]!;
+      return {
+        epochId: epoch.epochId,
+        root: epoch.root,
+        leafHash: leaf.leafHash,
+        merkleProof: buildMerkleProof(
+          epoch.leaves.map((entry) => entry.leafHash),
+          leafIndex
+        ),
+        leafIndex,
+        logSeqNo: leaf.logSeqNo,
+        prevLeafHash: leaf.prevLeafHash,
+        prevRoot: epoch.prevRoot,
+        authId,
+        leafSalt: saltFor(authId),
+        sequencerKeyId: epoch.sequencerKeyId
+      };
+    }
+  };
+  return { authorizations, epochs, events, sequencer };
+}
+
+describe('commitment auditor', () => {
+  it('accepts a consistent anchored log and proves held authorizations', async () => {
+    const log = buildLog([3, 2]);
+    const report = await auditCommitments({
+      events: log.events,
+      sequencer: log.sequencer,
+      authorizations: log.authorizations
+    });
+
+    expect(report.findings).toEqual([]);
+    expect(report).toMatchObject({
+      ok: true,
+      anchoredEpochs: 2,
+      latestAnchoredEpochId: '2',
+      latestSequencerEpochId: '2',
+      authorizationsChecked: 5
+    });
+  });
+
+  it('flags gaps, broken prevRoot links and unposted epochs', async () => {
+    const log = buildLog([1, 1, 1, 1]);
+    const [first, , third] = log.events;
+    const report = await auditCommitments({
+      events: [first!, { ...third!, prevRoot: (`0x${'ff'.repeat(32)}` as Hex) }],
+      sequencer: log.sequencer
+    });
+
+    expect(report.ok).toBe(false);
+    expect(report.findings.map((finding) => [finding.code, finding.epochId])).toEqual([
+      ['EPOCH_GAP', '2'],
+      ['UNPOSTED_EPOCH', '4']
+    ]);
+
+    const linked = await auditCommitments({
+      events: [first!, { ...log.events[1]!, prevRoot: (`0x${'ff'.repeat(32)}` as Hex) }],
+      sequencer: log.sequencer
+    });
+    expect(linked.findings.map((finding) => finding.code)).toEqual([
+      'PREV_ROOT_MISMATCH',
+      'UNPOSTED_EPOCH',
+      'UNPOSTED_EPOCH'
+    ]);
+  });
+
+  it('flags forks and tampered leaves', async () => {
+    const log = buildLog([2, 2]);
+    const forked = await auditCommitments({
+      events: [...log.events, { ...log.events[1]!, root: (`0x${'ee'.repeat(32)}` as Hex), txHash: (`0x${'e9'.repeat(32)}` as Hex) }],
+      sequencer: log.sequencer
+    });
+    expect(forked.findings.map((finding) => finding.code)).toEqual(['FORK']);
+
+    const tamperedLeaf = log.epochs[1]!.leaves[0]!;
+    log.epochs[1]!.leaves[0] = { ...tamperedLeaf, prevLeafHash: (`0x${'dd'.repeat(32)}` as Hex) };
+    const tampered = await auditCommitments({
+      events: log.events,
+      sequencer: log.sequencer,
+      authorizations: [log.authorizations[2]!]
+    });
+    expect(tampered.findings.map((finding) => finding.code)).toEqual(['LEAF_CHAIN_BROKEN', 'INCLUSION_MISMATCH']);
+    expect(tampered.findings[1]?.authId).toBe(log.authorizations[2]!.authId);
+  });
+});
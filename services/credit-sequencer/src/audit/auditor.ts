@@ -0,0 +1,250 @@
+import {
+  buildMerkleRoot,
+  computeAuthorizationLeaf,
+  hashAuthorization,
+  normalizeHex,
+  verifyMerkleProof,
+  type AuthorizationV1,
+  type CommitmentEpochLeavesV1,
+  type Hex,
+  type InclusionProofV1
+} from '@shielded-x402/shared-types';
+
+const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
+
+export interface CommitmentPostedEvent {
+  epochId: bigint;
+  root: Hex;
+  count: number;
+  prevRoot: Hex;
+  sequencerKeyId: Hex;
+  txHash: Hex;
+  blockNumber: bigint;
+}
+
+/** Read-only view of the sequencer's public commitment API. */
+export interface AuditSequencerSource {
+  getLatestEpochId(): Promise<bigint>;
+  getEpochLeaves(epochId: bigint): Promise<CommitmentEpochLeavesV1>;
+  getInclusionProof(authId: Hex): Promise<InclusionProofV1>;
+}
+
+export type AuditFindingCode =
+  | 'EPOCH_GAP'
+  | 'FORK'
+  | 'PREV_ROOT_MISMATCH'
+  | 'COUNT_MISMATCH'
+  | 'ROOT_MISMATCH'
+  | 'LEAF_CHAIN_BROKEN'
+  | 'LEAVES_UNAVAILABLE'
+  | 'UNPOSTED_EPOCH'
+  | 'INCLUSION_MISMATCH';
+
+export interface AuditFinding {
+  code: AuditFindingCode;
+  epochId?: string;
+  authId?: Hex;
+  message: string;
+}
+
+export interface CommitmentAuditReport {
+  version: 1;
+  generatedAt: string;
+  anchoredEpochs: number;
+  latestAnchoredEpochId: string;
+  latestSequencerEpochId: string;
+  authorizationsChecked: number;
+  ok: boolean;
+  findings: AuditFinding[];
+}
+
+function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Replays anchored commitments against the sequencer. Every anchored epoch must link to the
+ * previous root and match the root rebuilt from the sequencer's leaves, and the leaves must
+ * form one unbroken hash chain from log sequence 1. Authorizations held by the caller are
+ * rebuilt into leaves and proven against the anchored root.
+ */
+export async function auditCommitments(input: {
+  events: readonly CommitmentPostedEvent[];
+  sequencer: AuditSequencerSource;
+  authorizations?: readonly AuthorizationV1[];
+}): Promise<CommitmentAuditReport> {
+  const findings: AuditFinding[] = [];
+  const anchored = new Map<bigint, CommitmentPostedEvent>();
+  for (const event of [...input.events].sort((a, b) => (a.epochId < b.epochId ? -1 : a.epochId > b.epochId ? 1 : 0))) {
+    const existing = anchored.get(event.epochId);
+    if (existing) {
+      if (normalizeHex(existing.root) !== normalizeHex(event.root)) {
+        findings.push({
+          code: 'FORK',
+          epochId: event.epochId.toString(),
+          message: `epoch ${event.epochId} anchored with conflicting roots in ${existing.txHash} and ${event.txHash}`
+        });
+      }
+      continue;
+    }
+    anchored.set(event.epochId, event);
+  }
+  const latestAnchoredEpochId = [...anchored.keys()].reduce((max, epochId) => (epochId > max ? epochId : max), 0n);
+
+  const leafByLogSeqNo = new Map<string, { prevLeafHash: Hex; leafHash: Hex }>();
+  let expectedPrevRoot: Hex | undefined = ZERO_HASH;
+  let expectedPrevLeafHash: Hex | undefined = ZERO_HASH;
+  let expectedLogSeqNo: bigint | undefined = 1n;
+  for (let epochId = 1n; epochId <= latestAnchoredEpochId; epochId += 1n) {
+    const epochLabel = epochId.toString();
+    const event = anchored.get(epochId);
+    if (!event) {
+      findings.push({ code: 'EPOCH_GAP', epochId: epochLabel, message: `epoch ${epochLabel} is missing from the registry` });
+      expectedPrevRoot = undefined;
+      expectedPrevLeafHash = undefined;
+      expectedLogSeqNo = undefined;
+      continue;
+    }
+    const root = normalizeHex(event.root);
+    if (expectedPrevRoot !== undefined && normalizeHex(event.prevRoot) !== expectedPrevRoot) {
+      findings.push({
+        code: 'PREV_ROOT_MISMATCH',
+        epochId: epochLabel,
+        message: `epoch ${epochLabel} prevRoot ${normalizeHex(event.prevRoot)} does not link to ${expectedPrevRoot}`
+      });
+    }
+    expectedPrevRoot = root;
+
+    let epoch: CommitmentEpochLeavesV1;
+    try {
+      epoch = await input.sequencer.getEpochLeaves(epochId);
+    } catch (error) {
+      findings.push({ code: 'LEAVES_UNAVAILABLE', epochId: epochLabel, message: errorMessage(error) });
+      expectedPrevLeafHash = undefined;
+      expectedLogSeqNo = undefined;
+      continue;
+    }
+    if (normalizeHex(epoch.root) !== root) {
+      findings.push({
+        code: 'FORK',
+        epochId: epochLabel,
+        message: `sequencer reports root ${normalizeHex(epoch.root)} for epoch ${epochLabel}, anchored root is ${root}`
+      });
+    }
+    if (epoch.leaves.length !== event.count) {
+      findings.push({
+        code: 'COUNT_MISMATCH',
+        epochId: epochLabel,
+        message: `epoch ${epochLabel} anchored ${event.count} leaves, sequencer returned ${epoch.leaves.length}`
+      });
+    }
+    const rebuiltRoot = buildMerkleRoot(epoch.leaves.map((leaf) => leaf.leafHash));
+    if (rebuiltRoot !== root) {
+      findings.push({
+        code: 'ROOT_MISMATCH',
+        epochId: epochLabel,
+        message: `epoch ${epochLabel} leaves rebuild to ${rebuiltRoot}, anchored root is ${root}`
+      });
+    }
+    for (const leaf of epoch.leaves) {
+      const leafHash = normalizeHex(leaf.leafHash);
+      const prevLeafHash = normalizeHex(leaf.prevLeafHash);
+      const logSeqNo = BigInt(leaf.logSeqNo);
+      if (
+        (expectedLogSeqNo !== undefined && logSeqNo !== expectedLogSeqNo) ||
+        (expectedPrevLeafHash !== undefined && prevLeafHash !== expectedPrevLeafHash)
+      ) {
+        findings.push({
+          code: 'LEAF_CHAIN_BROKEN',
+          epochId: epochLabel,
+          message: `leaf ${leaf.logSeqNo} in epoch ${epochLabel} does not extend the previous leaf`
+        });
+      }
+      leafByLogSeqNo.set(leaf.logSeqNo, { prevLeafHash, leafHash });
+      expectedPrevLeafHash = leafHash;
+      expectedLogSeqNo = logSeqNo + 1n;
+    }
+  }
+
+  let latestSequencerEpochId = 0n;
+  try {
+    latestSequencerEpochId = await input.sequencer.getLatestEpochId();
+  } catch (error) {
+    findings.push({ code: 'LEAVES_UNAVAILABLE', message: `latest sequencer epoch unavailable: ${errorMessage(error)}` });
+  }
+  for (let epochId = latestAnchoredEpochId + 1n; epochId <= latestSequencerEpochId; epochId += 1n) {
+    findings.push({
+      code: 'UNPOSTED_EPOCH',
+      epochId: epochId.toString(),
+      message: `epoch ${epochId} is committed by the sequencer but not anchored`
+    });
+  }
+  if (latestSequencerEpochId > 0n && latestAnchoredEpochId > latestSequencerEpochId) {
+    findings.push({
+      code: 'FORK',
+      epochId: latestAnchoredEpochId.toString(),
+      message: `registry has epoch ${latestAnchoredEpochId}, sequencer only reports ${latestSequencerEpochId}`
+    });
+  }
+
+  let authorizationsChecked = 0;
+  for (const authorization of input.authorizations ?? []) {
+    const authId = normalizeHex(authorization.authId);
+    let proof: InclusionProofV1;
+    try {
+      proof = await input.sequencer.getInclusionProof(authId);
+    } catch (error) {
+      findings.push({ code: 'INCLUSION_MISMATCH', authId, message: `proof unavailable: ${errorMessage(error)}` });
+      continue;
+    }
+    const event = anchored.get(BigInt(proof.epochId));
+    if (!event) {
+      // Already reported as an unposted epoch or a registry gap.
+      continue;
+    }
+    authorizationsChecked += 1;
+    const leaf = leafByLogSeqNo.get(authorization.logSeqNo);
+    const leafHash = leaf
+      ? computeAuthorizationLeaf({
+          logSeqNo: authorization.logSeqNo,
+          prevLeafHash: leaf.prevLeafHash,
+          authHash: hashAuthorization(authorization),
+          salt: normalizeHex(proof.leafSalt)
+        })
+      : undefined;
+    const included =
+      leafHash !== undefined &&
+      proof.logSeqNo === authorization.logSeqNo &&
+      leafHash === leaf?.leafHash &&
+      leafHash === normalizeHex(proof.leafHash) &&
+      verifyMerkleProof({
+        leafHash,
+        leafIndex: proof.leafIndex,
+        proof: proof.merkleProof,
+        expectedRoot: normalizeHex(event.root)
+      });
+    if (!included) {
+      findings.push({
+        code: 'INCLUSION_MISMATCH',
+        epochId: proof.epochId,
+        authId,
+        message: `authorization ${authId} does not rebuild to an anchored leaf in epoch ${proof.epochId}`
+      });
+    }
+  }
+
+  return {
+    version: 1,
+    generatedAt: nowSeconds().toString(),
+    anchoredEpochs: anchored.size,
+    latestAnchoredEpochId: latestAnchoredEpochId.toString(),
+    latestSequencerEpochId: latestSequencerEpochId.toString(),
+    authorizationsChecked,
+    ok: findings.length === 0,
+    findings
+  };
+}
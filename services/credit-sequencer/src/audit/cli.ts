@@ -0,0 +1,115 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import {
+  normalizeHex,
+  type AuthorizationV1,
+  type CommitmentEpochLeavesV1,
+  type Hex,
+  type InclusionProofV1
+} from '@shielded-x402/shared-types';
+import { createPublicClient, http } from 'viem';
+import { commitmentPostedEventAbi } from '../services/anchors.js';
+import { auditCommitments, type AuditSequencerSource, type CommitmentPostedEvent } from './auditor.js';
+
+async function fetchSequencerJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(`sequencer request failed (${response.status}): ${body.error ?? url}`);
+  }
+  return body;
+}
+
+export function createHttpAuditSequencerSource(sequencerUrl: string): AuditSequencerSource {
+  const baseUrl = sequencerUrl.replace(/\/+$/, '');
+  return {
+    async getLatestEpochId() {
+      const latest = await fetchSequencerJson<{ latestEpochId: string }>(`${baseUrl}/v1/commitments/latest`);
+      return BigInt(latest.latestEpochId);
+    },
+    async getEpochLeaves(epochId) {
+      return fetchSequencerJson<CommitmentEpochLeavesV1>(`${baseUrl}/v1/commitments/${epochId}/leaves`);
+    },
+    async getInclusionProof(authId) {
+      return fetchSequencerJson<InclusionProofV1>(
+        `${baseUrl}/v1/commitments/proof?authId=${encodeURIComponent(authId)}`
+      );
+    }
+  };
+}
+
+export async function readCommitmentPostedEvents(config: {
+  rpcUrl: string;
+  registryAddress: Hex;
+  fromBlock: bigint;
+}): Promise<CommitmentPostedEvent[]> {
+  const publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+  const logs = await publicClient.getLogs({
+    address: config.registryAddress,
+    event: commitmentPostedEventAbi,
+    fromBlock: config.fromBlock,
+    strict: true
+  });
+  return logs.map((log) => ({
+    epochId: log.args.epochId,
+    root: normalizeHex(log.args.root),
+    count: Number(log.args.count),
+    prevRoot: normalizeHex(log.args.prevRoot),
+    sequencerKeyId: normalizeHex(log.args.sequencerKeyId),
+    txHash: normalizeHex(log.transactionHash),
+    blockNumber: log.blockNumber
+  }));
+}
+
+/** Accepts bare authorizations or saved authorize responses (`{ authorization, ... }`). */
+function parseAuthorizationsFile(contents: string): AuthorizationV1[] {
+  const parsed = JSON.parse(contents) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error('AUDITOR_AUTHORIZATIONS_FILE must contain a JSON array');
+  }
+  return parsed.map((entry: unknown) => {
+    const value = entry as Record<string, unknown>;
+    const authorization = (value?.authorization ?? value) as AuthorizationV1;
+    if (typeof authorization?.authId !== 'string' || typeof authorization.logSeqNo !== 'string') {
+      throw new Error('AUDITOR_AUTHORIZATIONS_FILE entries require authId and logSeqNo');
+    }
+    return authorization;
+  });
+}
+
+async function main(): Promise<void> {
+  const rpcUrl = process.env.AUDITOR_RPC_URL;
+  const registryAddress = process.env.AUDITOR_REGISTRY_ADDRESS as Hex | undefined;
+  const sequencerUrl = process.env.AUDITOR_SEQUENCER_URL;
+  const fromBlock = BigInt(process.env.AUDITOR_FROM_BLOCK ?? '0');
+  const authorizationsFile = process.env.AUDITOR_AUTHORIZATIONS_FILE;
+  const reportFile = process.env.AUDITOR_REPORT_FILE;
+  if (!rpcUrl || !registryAddress || !sequencerUrl) {
+    throw new Error('AUDITOR_RPC_URL, AUDITOR_REGISTRY_ADDRESS and AUDITOR_SEQUENCER_URL are required');
+  }
+
+  const report = await auditCommitments({
+    events: await readCommitmentPostedEvents({
+      rpcUrl,
+      registryAddress: normalizeHex(registryAddress),
+      fromBlock
+    }),
+    sequencer: createHttpAuditSequencerSource(sequencerUrl),
+    ...(authorizationsFile
+      ? { authorizations: parseAuthorizationsFile(await readFile(authorizationsFile, 'utf8')) }
+      : {})
+  });
+  const output = `${JSON.stringify(report, null, 2)}\n`;
+  if (reportFile) {
+    await writeFile(reportFile, output);
+  } else {
+    process.stdout.write(output);
+  }
+  process.exitCode = report.ok ? 0 : 1;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error('[commitment-auditor]', error);
+    process.exitCode = 2;
+  });
+}
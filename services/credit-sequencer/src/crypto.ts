@@ -1,4 +1,16 @@
-import { canonicalAuthorizationBytes, type AuthorizationV1, type Hex } from '@shielded-x402/shared-types';
+import {
+  canonicalAuthorizationBytes,
+  canonicalBalanceReceiptBytes,
+  canonicalMerchantRecordBytes,
+  canonicalWithdrawalBytes,
+  normalizeHex,
+  type AuthorizationV1,
+  type BalanceReceiptV1,
+  type Hex,
+  type SignatureScheme,
+  type SignedMerchantRecordPayloadV1,
+  type WithdrawalV1
+} from '@shielded-x402/shared-types';
 import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from 'node:crypto';
 import { parseHexBytes } from './lib.js';
 
@@ -38,6 +50,21 @@ export function signAuthorization(privateKey: KeyObject, authorization: Authoriz
   return (`0x${Buffer.from(sig).toString('hex')}` as Hex);
 }
 
+export function signWithdrawal(privateKey: KeyObject, withdrawal: WithdrawalV1): Hex {
+  const sig = sign(null, sha256(canonicalWithdrawalBytes(withdrawal)), privateKey);
+  return (`0x${Buffer.from(sig).toString('hex')}` as Hex);
+}
+
+export function signBalanceReceipt(privateKey: KeyObject, receipt: BalanceReceiptV1): Hex {
+  const sig = sign(null, sha256(canonicalBalanceReceiptBytes(receipt)), privateKey);
+  return (`0x${Buffer.from(sig).toString('hex')}` as Hex);
+}
+
+export function signMerchantRecord(privateKey: KeyObject, payload: SignedMerchantRecordPayloadV1): Hex {
+  const sig = sign(null, sha256(canonicalMerchantRecordBytes(payload)), privateKey);
+  return (`0x${Buffer.from(sig).toString('hex')}` as Hex);
+}
+
 export function authorizationMessageHash(authorization: AuthorizationV1): Buffer {
   return sha256(canonicalAuthorizationBytes(authorization));
 }
@@ -72,3 +99,42 @@ export async function recoverTypedDataAddressRuntime(args: unknown): Promise<str
   }
   return recoverTypedDataAddressFn(args);
 }
+
+/**
+ * Verifies an agent signature under the agent's scheme: ed25519 over `sha256(canonicalBytes)`,
+ * or EIP-712 `typedData` recovering to the agent address.
+ */
+export async function verifyAgentSignature(input: {
+  signatureScheme: SignatureScheme;
+  agentPubKey: Hex;
+  signature: Hex;
+  canonicalBytes: Buffer;
+  typedData: object;
+  label: string;
+}): Promise<void> {
+  if (input.signatureScheme === 'ed25519-sha256-v1') {
+    const valid = verifyEd25519Signature({
+      messageHash: sha256(input.canonicalBytes),
+      signature: input.signature,
+      publicKey: input.agentPubKey
+    });
+    if (!valid) {
+      throw new Error(`invalid agent ${input.label} signature`);
+    }
+    return;
+  }
+
+  if (input.signatureScheme === 'eip712-secp256k1') {
+    const recovered = await recoverTypedDataAddressRuntime({
+      ...input.typedData,
+      signature: input.signature
+    });
+    const expected = normalizeHex(input.agentPubKey).toLowerCase();
+    if (recovered.toLowerCase() !== expected) {
+      throw new Error(`invalid agent ${input.label} signature`);
+    }
+    return;
+  }
+
+  throw new Error(`unsupported agent signature scheme for ${input.label}: ${input.signatureScheme}`);
+}
@@ -0,0 +1,21 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS funding_deposits (
+  nullifier TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  amount_micros NUMERIC NOT NULL CHECK (amount_micros > 0),
+  merchant_commitment TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('PENDING', 'CREDITED', 'REJECTED')),
+  submitted_at BIGINT NOT NULL,
+  spent_tx_hash TEXT,
+  spent_block_number BIGINT,
+  credited_at BIGINT,
+  rejection_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS funding_deposits_status_idx ON funding_deposits(status, submitted_at);
+
+-- Down Migration
+
+DROP INDEX IF EXISTS funding_deposits_status_idx;
+DROP TABLE IF EXISTS funding_deposits;
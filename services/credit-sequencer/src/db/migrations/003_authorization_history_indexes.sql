@@ -0,0 +1,9 @@
+-- Up Migration
+
+CREATE INDEX IF NOT EXISTS authorizations_agent_log_seq_idx ON authorizations(agent_id, log_seq_no DESC);
+CREATE INDEX IF NOT EXISTS execution_attempts_auth_id_idx ON execution_attempts(auth_id);
+
+-- Down Migration
+
+DROP INDEX IF EXISTS execution_attempts_auth_id_idx;
+DROP INDEX IF EXISTS authorizations_agent_log_seq_idx;
@@ -0,0 +1,16 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS agent_policies (
+  agent_id TEXT PRIMARY KEY,
+  policy_version BIGINT NOT NULL,
+  policy_json JSONB NOT NULL,
+  agent_sig TEXT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS authorizations_agent_issued_idx ON authorizations(agent_id, issued_at);
+
+-- Down Migration
+
+DROP INDEX IF EXISTS authorizations_agent_issued_idx;
+DROP TABLE IF EXISTS agent_policies;
@@ -0,0 +1,14 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS sequencer_keys (
+  key_id TEXT PRIMARY KEY,
+  public_key TEXT NOT NULL,
+  activates_at BIGINT NOT NULL,
+  retires_at BIGINT,
+  created_at BIGINT NOT NULL,
+  CHECK (retires_at IS NULL OR retires_at > activates_at)
+);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS sequencer_keys;
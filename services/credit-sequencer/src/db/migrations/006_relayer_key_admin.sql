@@ -0,0 +1,30 @@
+-- Up Migration
+
+ALTER TABLE relayer_keys ADD COLUMN IF NOT EXISTS updated_at BIGINT;
+ALTER TABLE relayer_keys ADD COLUMN IF NOT EXISTS revoked_at BIGINT;
+UPDATE relayer_keys SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE relayer_keys ALTER COLUMN updated_at SET NOT NULL;
+ALTER TABLE relayer_keys
+  ADD CONSTRAINT relayer_keys_status_check CHECK (status IN ('ACTIVE', 'SUSPENDED', 'REVOKED'));
+
+CREATE TABLE IF NOT EXISTS relayer_key_events (
+  event_id BIGSERIAL PRIMARY KEY,
+  chain_ref TEXT NOT NULL,
+  key_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  related_key_id TEXT,
+  reason TEXT,
+  created_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS relayer_key_events_key_idx ON relayer_key_events(chain_ref, key_id, event_id);
+
+-- Down Migration
+
+DROP INDEX IF EXISTS relayer_key_events_key_idx;
+DROP TABLE IF EXISTS relayer_key_events;
+ALTER TABLE relayer_keys DROP CONSTRAINT IF EXISTS relayer_keys_status_check;
+ALTER TABLE relayer_keys DROP COLUMN IF EXISTS revoked_at;
+ALTER TABLE relayer_keys DROP COLUMN IF EXISTS updated_at;
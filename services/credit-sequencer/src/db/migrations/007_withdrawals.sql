@@ -0,0 +1,32 @@
+-- Up Migration
+
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS withdrawn_micros NUMERIC NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS withdrawals (
+  withdrawal_id TEXT PRIMARY KEY,
+  request_id TEXT NOT NULL UNIQUE,
+  intent_hash TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  agent_nonce BIGINT NOT NULL,
+  amount_micros BIGINT NOT NULL CHECK (amount_micros > 0),
+  commitment TEXT NOT NULL UNIQUE,
+  issued_at BIGINT NOT NULL,
+  log_seq_no BIGINT NOT NULL UNIQUE,
+  status TEXT NOT NULL CHECK (status IN ('PENDING', 'POSTED')),
+  sequencer_key_id TEXT NOT NULL,
+  sequencer_sig TEXT NOT NULL,
+  withdrawal_json JSONB NOT NULL,
+  deposit_tx_hash TEXT,
+  posted_at BIGINT,
+  post_attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  UNIQUE(agent_id, agent_nonce)
+);
+
+CREATE INDEX IF NOT EXISTS withdrawals_pending_idx ON withdrawals(log_seq_no) WHERE status = 'PENDING';
+
+-- Down Migration
+
+DROP INDEX IF EXISTS withdrawals_pending_idx;
+DROP TABLE IF EXISTS withdrawals;
+ALTER TABLE agents DROP COLUMN IF EXISTS withdrawn_micros;
@@ -0,0 +1,20 @@
+-- Up Migration
+
+ALTER TABLE executions ADD COLUMN IF NOT EXISTS executed_amount_micros BIGINT;
+UPDATE executions e
+SET executed_amount_micros = a.amount_micros
+FROM authorizations a
+WHERE a.auth_id = e.auth_id AND e.executed_amount_micros IS NULL;
+ALTER TABLE executions ALTER COLUMN executed_amount_micros SET NOT NULL;
+
+ALTER TABLE execution_attempts ADD COLUMN IF NOT EXISTS executed_amount_micros BIGINT;
+UPDATE execution_attempts t
+SET executed_amount_micros = CASE WHEN t.status = 'SUCCESS' THEN a.amount_micros ELSE 0 END
+FROM authorizations a
+WHERE a.auth_id = t.auth_id AND t.executed_amount_micros IS NULL;
+ALTER TABLE execution_attempts ALTER COLUMN executed_amount_micros SET NOT NULL;
+
+-- Down Migration
+
+ALTER TABLE execution_attempts DROP COLUMN IF EXISTS executed_amount_micros;
+ALTER TABLE executions DROP COLUMN IF EXISTS executed_amount_micros;
@@ -0,0 +1,13 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS agent_nonce_lanes (
+  agent_id TEXT NOT NULL,
+  nonce_lane INTEGER NOT NULL CHECK (nonce_lane > 0 AND nonce_lane <= 255),
+  next_lane_seq BIGINT NOT NULL DEFAULT 0,
+  updated_at BIGINT NOT NULL,
+  PRIMARY KEY (agent_id, nonce_lane)
+);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS agent_nonce_lanes;
@@ -0,0 +1,14 @@
+-- Up Migration
+
+ALTER TABLE commitments ADD COLUMN IF NOT EXISTS post_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE commitments ADD COLUMN IF NOT EXISTS next_post_at BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE commitments ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS commitments_unposted_idx ON commitments(epoch_id) WHERE posted_at IS NULL;
+
+-- Down Migration
+
+DROP INDEX IF EXISTS commitments_unposted_idx;
+ALTER TABLE commitments DROP COLUMN IF EXISTS last_error;
+ALTER TABLE commitments DROP COLUMN IF EXISTS next_post_at;
+ALTER TABLE commitments DROP COLUMN IF EXISTS post_attempts;
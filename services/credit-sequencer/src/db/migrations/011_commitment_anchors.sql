@@ -0,0 +1,24 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS commitment_anchor_posts (
+  anchor_id TEXT NOT NULL,
+  epoch_id BIGINT NOT NULL REFERENCES commitments(epoch_id),
+  posted_tx_hash TEXT,
+  posted_at BIGINT,
+  post_attempts INTEGER NOT NULL DEFAULT 0,
+  next_post_at BIGINT NOT NULL DEFAULT 0,
+  last_error TEXT,
+  PRIMARY KEY (anchor_id, epoch_id)
+);
+
+-- Posting state is tracked per anchor now; epochs already on-chain are picked up again via roots(epochId).
+ALTER TABLE commitments DROP COLUMN IF EXISTS last_error;
+ALTER TABLE commitments DROP COLUMN IF EXISTS next_post_at;
+ALTER TABLE commitments DROP COLUMN IF EXISTS post_attempts;
+
+-- Down Migration
+
+ALTER TABLE commitments ADD COLUMN IF NOT EXISTS post_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE commitments ADD COLUMN IF NOT EXISTS next_post_at BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE commitments ADD COLUMN IF NOT EXISTS last_error TEXT;
+DROP TABLE IF EXISTS commitment_anchor_posts;
@@ -0,0 +1,17 @@
+-- Up Migration
+
+ALTER TABLE agents
+  ADD COLUMN IF NOT EXISTS last_balance_receipt_hash TEXT;
+
+ALTER TABLE authorizations
+  ADD COLUMN IF NOT EXISTS balance_receipt_json JSONB,
+  ADD COLUMN IF NOT EXISTS balance_receipt_sig TEXT;
+
+-- Down Migration
+
+ALTER TABLE authorizations
+  DROP COLUMN IF EXISTS balance_receipt_sig,
+  DROP COLUMN IF EXISTS balance_receipt_json;
+
+ALTER TABLE agents
+  DROP COLUMN IF EXISTS last_balance_receipt_hash;
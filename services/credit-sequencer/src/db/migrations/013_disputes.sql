@@ -0,0 +1,36 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS disputes (
+  dispute_id TEXT PRIMARY KEY,
+  auth_id TEXT NOT NULL UNIQUE REFERENCES authorizations(auth_id),
+  agent_id TEXT NOT NULL,
+  chain_ref TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('OPEN', 'EVIDENCE_SUBMITTED', 'CREDITED', 'REJECTED')),
+  request_json JSONB NOT NULL,
+  agent_sig TEXT NOT NULL,
+  filed_at BIGINT NOT NULL,
+  evidence_due_at BIGINT NOT NULL,
+  evidence_json JSONB,
+  relayer_sig TEXT,
+  credited_micros BIGINT NOT NULL DEFAULT 0,
+  resolved_at BIGINT,
+  resolved_by TEXT CHECK (resolved_by IN ('admin', 'rule'))
+);
+
+CREATE INDEX IF NOT EXISTS disputes_open_idx ON disputes(evidence_due_at) WHERE status = 'OPEN';
+
+CREATE TABLE IF NOT EXISTS dispute_events (
+  event_id TEXT PRIMARY KEY,
+  dispute_id TEXT NOT NULL REFERENCES disputes(dispute_id),
+  log_seq_no BIGINT NOT NULL UNIQUE,
+  event_json JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS dispute_events_dispute_id_idx ON dispute_events(dispute_id);
+
+-- Down Migration
+
+DROP INDEX IF EXISTS dispute_events_dispute_id_idx;
+DROP TABLE IF EXISTS dispute_events;
+DROP INDEX IF EXISTS disputes_open_idx;
+DROP TABLE IF EXISTS disputes;
@@ -0,0 +1,14 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS sequencer_leader_lease (
+  singleton BOOLEAN PRIMARY KEY DEFAULT TRUE,
+  holder_id TEXT NOT NULL,
+  term BIGINT NOT NULL,
+  acquired_at BIGINT NOT NULL,
+  renewed_at BIGINT NOT NULL,
+  expires_at BIGINT NOT NULL
+);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS sequencer_leader_lease;
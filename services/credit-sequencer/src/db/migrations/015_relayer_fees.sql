@@ -0,0 +1,17 @@
+-- Up Migration
+
+ALTER TABLE authorizations ADD COLUMN IF NOT EXISTS fee_micros BIGINT NOT NULL DEFAULT 0 CHECK (fee_micros >= 0);
+
+CREATE TABLE IF NOT EXISTS relayer_fee_accounts (
+  chain_ref TEXT NOT NULL,
+  relayer_key_id TEXT NOT NULL,
+  accrued_micros NUMERIC NOT NULL DEFAULT 0,
+  executions_count BIGINT NOT NULL DEFAULT 0,
+  updated_at BIGINT NOT NULL,
+  PRIMARY KEY (chain_ref, relayer_key_id)
+);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS relayer_fee_accounts;
+ALTER TABLE authorizations DROP COLUMN IF EXISTS fee_micros;
@@ -0,0 +1,20 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS merchant_keys (
+  service_registry_id TEXT NOT NULL,
+  key_id TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('ACTIVE', 'REVOKED')),
+  created_at BIGINT NOT NULL,
+  revoked_at BIGINT,
+  PRIMARY KEY (service_registry_id, key_id)
+);
+
+CREATE INDEX IF NOT EXISTS authorizations_merchant_executed_idx
+  ON authorizations(merchant_id, executed_at)
+  WHERE status = 'EXECUTED';
+
+-- Down Migration
+
+DROP INDEX IF EXISTS authorizations_merchant_executed_idx;
+DROP TABLE IF EXISTS merchant_keys;
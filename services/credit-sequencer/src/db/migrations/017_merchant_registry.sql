@@ -0,0 +1,22 @@
+-- Up Migration
+
+CREATE TABLE IF NOT EXISTS merchants (
+  merchant_id TEXT PRIMARY KEY,
+  service_registry_id TEXT NOT NULL,
+  endpoint_url TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('ADMIN', 'ERC8004')),
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS merchant_payout_addresses (
+  merchant_id TEXT NOT NULL REFERENCES merchants(merchant_id) ON DELETE CASCADE,
+  chain_ref TEXT NOT NULL,
+  address TEXT NOT NULL,
+  PRIMARY KEY (merchant_id, chain_ref)
+);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS merchant_payout_addresses;
+DROP TABLE IF EXISTS merchants;
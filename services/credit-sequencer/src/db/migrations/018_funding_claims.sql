@@ -0,0 +1,25 @@
+-- Up Migration
+
+ALTER TABLE funding_deposits DROP CONSTRAINT IF EXISTS funding_deposits_pkey;
+ALTER TABLE funding_deposits ADD PRIMARY KEY (nullifier, merchant_commitment);
+
+CREATE UNIQUE INDEX IF NOT EXISTS funding_deposits_credited_idx
+  ON funding_deposits(nullifier)
+  WHERE status = 'CREDITED';
+
+-- Down Migration
+
+DROP INDEX IF EXISTS funding_deposits_credited_idx;
+DELETE FROM funding_deposits stale
+  USING funding_deposits kept
+  WHERE stale.nullifier = kept.nullifier
+    AND stale.merchant_commitment <> kept.merchant_commitment
+    AND (
+      kept.status = 'CREDITED'
+      OR (
+        stale.status <> 'CREDITED'
+        AND (kept.submitted_at, kept.merchant_commitment) < (stale.submitted_at, stale.merchant_commitment)
+      )
+    );
+ALTER TABLE funding_deposits DROP CONSTRAINT IF EXISTS funding_deposits_pkey;
+ALTER TABLE funding_deposits ADD PRIMARY KEY (nullifier);
@@ -0,0 +1,11 @@
+-- Up Migration
+
+ALTER TABLE withdrawals
+  ADD COLUMN IF NOT EXISTS balance_receipt_json JSONB,
+  ADD COLUMN IF NOT EXISTS balance_receipt_sig TEXT;
+
+-- Down Migration
+
+ALTER TABLE withdrawals
+  DROP COLUMN IF EXISTS balance_receipt_sig,
+  DROP COLUMN IF EXISTS balance_receipt_json;
@@ -0,0 +1,17 @@
+-- Up Migration
+
+-- Pending claims are scanned least-recently-scanned first, so claims on nullifiers that are
+-- never spent cannot hold the head of the scan forever.
+ALTER TABLE funding_deposits
+  ADD COLUMN IF NOT EXISTS last_scanned_at BIGINT;
+
+CREATE INDEX IF NOT EXISTS funding_deposits_pending_scan_idx
+  ON funding_deposits (last_scanned_at NULLS FIRST, submitted_at)
+  WHERE status = 'PENDING';
+
+-- Down Migration
+
+DROP INDEX IF EXISTS funding_deposits_pending_scan_idx;
+
+ALTER TABLE funding_deposits
+  DROP COLUMN IF EXISTS last_scanned_at;
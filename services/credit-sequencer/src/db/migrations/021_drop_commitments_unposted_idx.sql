@@ -0,0 +1,8 @@
+-- Up Migration
+
+-- The poster reads per-anchor state from commitment_anchor_posts since 011; no lookup uses this index.
+DROP INDEX IF EXISTS commitments_unposted_idx;
+
+-- Down Migration
+
+CREATE INDEX IF NOT EXISTS commitments_unposted_idx ON commitments(epoch_id) WHERE posted_at IS NULL;
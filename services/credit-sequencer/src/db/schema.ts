@@ -1,6 +1,6 @@
 import { normalizeHex } from '@shielded-x402/shared-types';
 import type { Hex } from '@shielded-x402/shared-types';
-import type { Pool } from 'pg';
+import type { LedgerStore } from '../store/ledgerStore.js';
 
 export interface RelayerKeySeed {
   chainRef: string;
@@ -39,18 +39,36 @@ export function parseRelayerKeysEnv(raw: string | undefined): RelayerKeySeed[] {
   return seeded;
 }
 
-export async function seedRelayerKeys(pool: Pool, keys: RelayerKeySeed[]): Promise<void> {
+export async function seedRelayerKeys(store: LedgerStore, keys: RelayerKeySeed[]): Promise<void> {
   if (keys.length === 0) {
     return;
   }
   const now = nowSeconds().toString();
-  for (const key of keys) {
-    await pool.query(
-      `INSERT INTO relayer_keys(chain_ref, key_id, public_key, status, created_at)
-       VALUES ($1, $2, $3, 'ACTIVE', $4)
-       ON CONFLICT (chain_ref, key_id)
-       DO UPDATE SET public_key = EXCLUDED.public_key, status = 'ACTIVE'`,
-      [key.chainRef, key.keyId, key.publicKey, now]
-    );
-  }
+  await store.transaction(async (tx) => {
+    for (const key of keys) {
+      // Seeding only adds missing keys; status changes made through the admin API must
+      // survive a restart, so an existing (possibly revoked) key is left untouched.
+      const inserted = await tx.ensureRelayerKey({
+        chainRef: key.chainRef,
+        keyId: key.keyId,
+        publicKey: key.publicKey,
+        status: 'ACTIVE',
+        createdAt: now,
+        updatedAt: now,
+        revokedAt: null
+      });
+      if (inserted) {
+        await tx.insertRelayerKeyEvent({
+          chainRef: key.chainRef,
+          keyId: key.keyId,
+          action: 'REGISTER',
+          fromStatus: null,
+          toStatus: 'ACTIVE',
+          relatedKeyId: null,
+          reason: 'SEQUENCER_RELAYER_KEYS_JSON',
+          createdAt: now
+        });
+      }
+    }
+  });
 }
@@ -0,0 +1,30 @@
+import type express from 'express';
+
+/**
+ * Fixed one-minute window per client IP. Used on unauthenticated write routes, where anyone
+ * holding a public key can otherwise fill the ledger with work for the background scanners.
+ */
+export function createRateLimiter(maxPerMinute: number): express.RequestHandler {
+  const counters = new Map<string, { count: number; resetAt: number }>();
+  return (req, res, next) => {
+    const ip = (req.ip || req.socket.remoteAddress || 'unknown').toString();
+    const now = Date.now();
+    if (counters.size > 10_000) {
+      for (const [key, counter] of counters) {
+        if (now > counter.resetAt) counters.delete(key);
+      }
+    }
+    const current = counters.get(ip);
+    if (!current || now > current.resetAt) {
+      counters.set(ip, { count: 1, resetAt: now + 60_000 });
+      next();
+      return;
+    }
+    if (current.count >= maxPerMinute) {
+      res.status(429).json({ error: 'rate limit exceeded', code: 'RATE_LIMITED' });
+      return;
+    }
+    current.count += 1;
+    next();
+  };
+}
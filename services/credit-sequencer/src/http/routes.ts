@@ -1,47 +1,126 @@
 import type express from 'express';
-import type { KeyObject } from 'node:crypto';
-import type { Pool } from 'pg';
-import { normalizeHex } from '@shielded-x402/shared-types';
+import {
+  AGENT_QUERY_HEADERS,
+  MERCHANT_QUERY_HEADERS,
+  RELAYER_QUERY_HEADERS,
+  normalizeHex
+} from '@shielded-x402/shared-types';
 import type { Hex } from '@shielded-x402/shared-types';
 import { errorCodeFromMessage } from '../lib.js';
 import {
   parseAdminCreditRequest,
+  parseAgentPolicyUpdateRequest,
+  parseAgentQueryHeaders,
+  parseAuthorizationHistoryQuery,
   parseAuthorizeRequest,
+  parseDisputeEvidenceRequest,
+  parseDisputeListQuery,
+  parseDisputeResolutionRequest,
   parseExecutionReport,
-  parseReclaimRequest
+  parseFeeQuoteQuery,
+  parseFileDisputeRequest,
+  parseFundingClaimRequest,
+  parseMerchantKeyRegistration,
+  parseMerchantQueryHeaders,
+  parseRelayerQueryHeaders,
+  parseMerchantRegistration,
+  parseMerchantStatementQuery,
+  parseReclaimRequest,
+  parseRelayerKeyRegistration,
+  parseRelayerKeyRotation,
+  parseRelayerKeyStatusChange,
+  parseWithdrawRequest
 } from '../validation.js';
 import {
   authorizeIntent,
+  creditAgentBalance,
+  getAgentAccount,
   reclaimAuthorization,
   recordExecution,
-  withTx
+  verifyAgentQuery
 } from '../services/ledger.js';
 import {
   buildInclusionProof,
+  getCommitmentEpochLeaves,
   runCommitmentEpoch
 } from '../services/commitments.js';
+import { listRelayerFeeAccounts, quoteFee, type FeeSchedule } from '../services/fees.js';
+import { listAgentAuthorizations } from '../services/history.js';
+import {
+  applyAgentPolicyUpdate,
+  getAgentPolicy,
+  verifyAgentPolicySignature
+} from '../services/policies.js';
+import {
+  buildSignedKeySet,
+  selectSigningKey,
+  type SequencerSigningKey
+} from '../services/keys.js';
+import {
+  listRelayerKeyEvents,
+  listRelayerKeys,
+  registerRelayerKey,
+  revokeRelayerKey,
+  rotateRelayerKey,
+  suspendRelayerKey,
+  verifyRelayerQuery
+} from '../services/relayerKeys.js';
+import type { LeaderElector } from '../services/leader.js';
+import {
+  assertMerchantIdForRegistry,
+  getMerchantStatement,
+  listMerchantKeys,
+  registerMerchantKey,
+  revokeMerchantKey,
+  verifyMerchantQuery
+} from '../services/merchants.js';
+import { getSignedMerchant, upsertMerchant } from '../services/merchantRegistry.js';
+import type { LedgerStore } from '../store/ledgerStore.js';
+import { getWithdrawal, requestWithdrawal } from '../services/withdrawals.js';
+import {
+  fileDispute,
+  getDispute,
+  listDisputes,
+  resolveDispute,
+  submitDisputeEvidence
+} from '../services/disputes.js';
+import {
+  getFundingDeposit,
+  submitFundingClaim,
+  type FundingKeyConfig
+} from '../services/funding.js';
+import { createRateLimiter } from './rateLimit.js';
 
 export interface SequencerMetricsView {
   authorizationLatencyMs: number[];
   executionReportConflictsTotal: number;
   expiredReclaimsTotal: number;
+  fundingCreditsTotal: number;
+  withdrawalsPostedTotal: number;
+  disputesAutoCreditedTotal: number;
 }
 
 export interface SequencerRouteDeps {
   app: express.Express;
-  pool: Pool;
+  ledger: LedgerStore;
   zeroHash: Hex;
-  sequencerKeyId: string;
-  sequencerPublicKey: Hex;
+  sequencerKeys: SequencerSigningKey[];
   executionGraceSeconds: bigint;
+  agentQueryTtlSeconds: bigint;
   epochSeconds: number;
   supportedChainRefs: Set<string>;
+  feeSchedule: FeeSchedule;
   adminToken: string | undefined;
-  sequencerPrivateKey: KeyObject;
   leafSaltSecret: Hex;
-  baseRegistryAddress: Hex | undefined;
-  basePosterPrivateKey: Hex | undefined;
-  baseRpcUrl: string | undefined;
+  commitmentAnchorIds: string[];
+  fundingKey: FundingKeyConfig | undefined;
+  fundingReceiptPublicKey: Hex | undefined;
+  /** Per-IP limit on `POST /v1/credit/funding`, which anyone holding the funding public key can call. */
+  fundingClaimsPerMinute: number;
+  withdrawalsEnabled: boolean;
+  disputeWindowSeconds: bigint;
+  disputeEvidenceSeconds: bigint;
+  leader: LeaderElector;
   metrics: SequencerMetricsView;
   recordAuthorizationLatency: (ms: number) => void;
 }
@@ -58,19 +137,24 @@ function average(values: number[]): number {
 export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
   const {
     app,
-    pool,
+    ledger,
     zeroHash,
-    sequencerKeyId,
-    sequencerPublicKey,
+    sequencerKeys,
     executionGraceSeconds,
+    agentQueryTtlSeconds,
     epochSeconds,
     supportedChainRefs,
+    feeSchedule,
     adminToken,
-    sequencerPrivateKey,
     leafSaltSecret,
-    baseRegistryAddress,
-    basePosterPrivateKey,
-    baseRpcUrl,
+    commitmentAnchorIds,
+    fundingKey,
+    fundingReceiptPublicKey,
+    fundingClaimsPerMinute,
+    withdrawalsEnabled,
+    disputeWindowSeconds,
+    disputeEvidenceSeconds,
+    leader,
     metrics,
     recordAuthorizationLatency
   } = deps;
@@ -79,45 +163,36 @@ export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
     res.json({
       ok: true,
       service: 'credit-sequencer',
-      sequencerKeyId
+      sequencerKeyId: selectSigningKey(sequencerKeys, nowSeconds()).keyId
     });
   });
 
   app.get('/health/ready', async (_req, res) => {
     try {
-      const [dbPing, keyCount, latestCommit] = await Promise.all([
-        pool.query('SELECT 1 AS ok'),
-        pool.query<{ count: string }>(`SELECT COUNT(*)::text AS count FROM relayer_keys WHERE status = 'ACTIVE'`),
-        pool.query<{
-          epoch_id: string;
-          root: string;
-          posted_at: string | null;
-          posted_tx_hash: string | null;
-        }>(
-          `SELECT epoch_id, root, posted_at, posted_tx_hash
-           FROM commitments
-           ORDER BY epoch_id DESC
-           LIMIT 1`
-        )
-      ]);
-
-      const latest = latestCommit.rows[0];
-      const relayerKeyCount = Number(keyCount.rows[0]?.count ?? '0');
-      const ready = dbPing.rowCount === 1 && relayerKeyCount > 0;
+      const { relayerKeyCount, latest } = await ledger.read(async (tx) => ({
+        relayerKeyCount: (await tx.listRelayerKeys()).filter((key) => key.status === 'ACTIVE').length,
+        latest: await tx.getLatestCommitment()
+      }));
+      const signingKey = selectSigningKey(sequencerKeys, nowSeconds());
+      const ready = relayerKeyCount > 0;
       res.status(ready ? 200 : 503).json({
         ok: ready,
-        sequencerKeyId,
-        sequencerPublicKey,
+        sequencerKeyId: signingKey.keyId,
+        sequencerPublicKey: signingKey.publicKey,
         executionGraceSeconds: executionGraceSeconds.toString(),
         epochSeconds,
         supportedChainRefs: [...supportedChainRefs],
         relayerKeyCount,
+        fundingReceiptPublicKey: fundingReceiptPublicKey ?? null,
+        fundingPkHash: fundingKey?.pkHash ?? null,
+        commitmentAnchors: commitmentAnchorIds,
+        leadership: leader.state(),
         latestCommitment: latest
           ? {
-              epochId: latest.epoch_id,
+              epochId: latest.epochId,
               root: normalizeHex(latest.root),
-              postedAt: latest.posted_at,
-              postedTxHash: latest.posted_tx_hash
+              postedAt: latest.postedAt,
+              postedTxHash: latest.postedTxHash
             }
           : null
       });
@@ -130,43 +205,75 @@ export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
   });
 
   app.get('/metrics', async (_req, res) => {
-    const latest = await pool.query<{ posted_at: string | null }>(
-      `SELECT posted_at
-       FROM commitments
-       ORDER BY epoch_id DESC
-       LIMIT 1`
-    );
-    const postedAt = latest.rows[0]?.posted_at ? BigInt(latest.rows[0].posted_at) : undefined;
+    const { posting, anchorBacklogs } = await ledger.read(async (tx) => {
+      const anchorBacklogs: Array<readonly [string, number]> = [];
+      for (const anchorId of commitmentAnchorIds) {
+        anchorBacklogs.push([anchorId, await tx.countUnpostedCommitments(anchorId)]);
+      }
+      return { posting: await tx.getCommitmentPostingStatus(), anchorBacklogs };
+    });
+    const postedAt = posting.lastPostedAt ? BigInt(posting.lastPostedAt) : undefined;
     const lag = postedAt ? Number(nowSeconds() - postedAt) : null;
     res.json({
       authorization_latency_ms_avg: average(metrics.authorizationLatencyMs),
       execution_report_conflicts_total: metrics.executionReportConflictsTotal,
       expired_reclaims_total: metrics.expiredReclaimsTotal,
-      commitment_lag_seconds: lag
+      funding_credits_total: metrics.fundingCreditsTotal,
+      withdrawals_posted_total: metrics.withdrawalsPostedTotal,
+      disputes_auto_credited_total: metrics.disputesAutoCreditedTotal,
+      commitment_lag_seconds: lag,
+      commitment_posting_backlog: posting.unposted,
+      commitment_anchor_backlog: Object.fromEntries(anchorBacklogs)
     });
   });
 
+  const hasAdminToken = (req: express.Request): boolean =>
+    Boolean(adminToken) && req.header('x-sequencer-admin-token') === adminToken;
+
+  const requireAdmin = (req: express.Request, res: express.Response): boolean => {
+    if (!hasAdminToken(req)) {
+      res.status(401).json({ error: 'unauthorized', code: 'UNAUTHORIZED' });
+      return false;
+    }
+    return true;
+  };
+
+  /** Verifies a relayer-signed query and returns the chain its key is registered for. */
+  const authenticateRelayerQuery = async (req: express.Request): Promise<string> => {
+    const auth = parseRelayerQueryHeaders({
+      chainRef: req.header(RELAYER_QUERY_HEADERS.chainRef),
+      keyId: req.header(RELAYER_QUERY_HEADERS.keyId),
+      requestedAt: req.header(RELAYER_QUERY_HEADERS.requestedAt),
+      relayerSig: req.header(RELAYER_QUERY_HEADERS.signature)
+    });
+    await ledger.read((tx) =>
+      verifyRelayerQuery(tx, {
+        query: {
+          chainRef: auth.chainRef,
+          keyId: auth.keyId,
+          resource: req.originalUrl,
+          requestedAt: auth.requestedAt
+        },
+        relayerSig: auth.relayerSig,
+        maxSkewSeconds: agentQueryTtlSeconds,
+        now: nowSeconds()
+      })
+    );
+    return auth.chainRef;
+  };
+
+  const assertRelayerChain = (relayerChainRef: string | undefined, chainRef: string): void => {
+    if (relayerChainRef !== undefined && relayerChainRef !== chainRef) {
+      throw new Error('unauthorized relayer query: relayer key is not registered for chainRef');
+    }
+  };
+
   app.post('/v1/admin/credit', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
     try {
-      if (!adminToken || req.header('x-sequencer-admin-token') !== adminToken) {
-        res.status(401).json({ error: 'unauthorized', code: 'UNAUTHORIZED' });
-        return;
-      }
       const { agentId, amountMicros } = parseAdminCreditRequest(req.body);
 
-      await withTx(pool, async (client) => {
-        const now = nowSeconds();
-        await client.query(
-          `INSERT INTO agents(agent_id, balance_micros, next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at, agent_pub_key, signature_scheme)
-           VALUES ($1, $2, 0, $2, 0, $3, NULL, NULL)
-           ON CONFLICT (agent_id)
-           DO UPDATE SET
-             balance_micros = agents.balance_micros + $2,
-             credited_micros = agents.credited_micros + $2,
-             updated_at = $3`,
-          [agentId, amountMicros.toString(), now.toString()]
-        );
-      });
+      await ledger.transaction((tx) => creditAgentBalance(tx, { agentId, amountMicros, now: nowSeconds() }));
 
       res.json({ ok: true, agentId, creditedMicros: amountMicros.toString() });
     } catch (error) {
@@ -175,19 +282,517 @@ export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
     }
   });
 
+  const relayerKeyErrorStatus = (code: string): number => (code === 'NOT_FOUND' ? 404 : 400);
+
+  app.get('/v1/admin/relayer-keys', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const chainRef = typeof req.query.chainRef === 'string' ? req.query.chainRef : undefined;
+      res.json({ keys: await listRelayerKeys({ store: ledger, ...(chainRef ? { chainRef } : {}) }) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(500).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.get('/v1/admin/relayer-fees', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const chainRef = typeof req.query.chainRef === 'string' ? req.query.chainRef : undefined;
+      res.json({ accounts: await listRelayerFeeAccounts({ store: ledger, ...(chainRef ? { chainRef } : {}) }) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(500).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.post('/v1/admin/relayer-keys', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const registration = parseRelayerKeyRegistration(req.body);
+      const key = await ledger.transaction((tx) =>
+        registerRelayerKey(tx, { ...registration, now: nowSeconds() })
+      );
+      res.json(key);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(relayerKeyErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/admin/relayer-keys/:chainRef/:keyId/events', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      res.json({
+        events: await listRelayerKeyEvents({
+          store: ledger,
+          chainRef: String(req.params.chainRef),
+          keyId: String(req.params.keyId)
+        })
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(500).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.post('/v1/admin/relayer-keys/:chainRef/:keyId/suspend', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const change = parseRelayerKeyStatusChange(req.body);
+      if (change.effectiveAt !== undefined) {
+        throw new Error('effectiveAt is only supported for revocation');
+      }
+      const key = await ledger.transaction((tx) =>
+        suspendRelayerKey(tx, {
+          chainRef: String(req.params.chainRef),
+          keyId: String(req.params.keyId),
+          ...change,
+          now: nowSeconds()
+        })
+      );
+      res.json(key);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(relayerKeyErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.post('/v1/admin/relayer-keys/:chainRef/:keyId/revoke', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const change = parseRelayerKeyStatusChange(req.body);
+      const key = await ledger.transaction((tx) =>
+        revokeRelayerKey(tx, {
+          chainRef: String(req.params.chainRef),
+          keyId: String(req.params.keyId),
+          ...change,
+          now: nowSeconds()
+        })
+      );
+      res.json(key);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(relayerKeyErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.post('/v1/admin/relayer-keys/:chainRef/:keyId/rotate', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const rotation = parseRelayerKeyRotation(req.body);
+      const result = await ledger.transaction((tx) =>
+        rotateRelayerKey(tx, {
+          chainRef: String(req.params.chainRef),
+          keyId: String(req.params.keyId),
+          ...rotation,
+          now: nowSeconds()
+        })
+      );
+      res.json(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(relayerKeyErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/admin/merchant-keys', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const serviceRegistryId =
+        typeof req.query.serviceRegistryId === 'string' ? req.query.serviceRegistryId : undefined;
+      res.json({ keys: await listMerchantKeys({ store: ledger, ...(serviceRegistryId ? { serviceRegistryId } : {}) }) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(500).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.post('/v1/admin/merchant-keys', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const key = parseMerchantKeyRegistration(req.body);
+      res.json(await registerMerchantKey({ store: ledger, ...key, now: nowSeconds() }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(400).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.post('/v1/admin/merchant-keys/:serviceRegistryId/:keyId/revoke', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      res.json(
+        await revokeMerchantKey({
+          store: ledger,
+          serviceRegistryId: String(req.params.serviceRegistryId),
+          keyId: String(req.params.keyId),
+          now: nowSeconds()
+        })
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(relayerKeyErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.post('/v1/admin/merchants', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const registration = parseMerchantRegistration(req.body);
+      const merchant = await ledger.transaction((tx) =>
+        upsertMerchant(tx, { registration, supportedChainRefs, now: nowSeconds() })
+      );
+      res.json(merchant);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(400).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.post('/v1/credit/funding', createRateLimiter(Math.max(fundingClaimsPerMinute, 1)), async (req, res) => {
+    try {
+      if (!fundingKey) {
+        res.status(404).json({ error: 'funding ingestion not configured', code: 'NOT_FOUND' });
+        return;
+      }
+      const claim = parseFundingClaimRequest(req.body);
+      const result = await submitFundingClaim({
+        store: ledger,
+        nullifier: claim.nullifier,
+        encryptedReceipt: claim.encryptedReceipt,
+        fundingKey
+      });
+      res.json(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(422).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.post('/v1/credit/withdrawals', async (req, res) => {
+    try {
+      if (!withdrawalsEnabled) {
+        res.status(404).json({ error: 'withdrawals not configured', code: 'NOT_FOUND' });
+        return;
+      }
+      const payload = parseWithdrawRequest(req.body);
+      const signingKey = selectSigningKey(sequencerKeys, nowSeconds());
+      const response = await requestWithdrawal({
+        store: ledger,
+        intent: payload.intent,
+        agentSig: normalizeHex(payload.agentSig),
+        sequencerKeyId: signingKey.keyId,
+        sequencerPrivateKey: signingKey.privateKey,
+        leafSaltSecret: normalizeHex(leafSaltSecret)
+      });
+      res.json(response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(422).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.post('/v1/credit/disputes', async (req, res) => {
+    try {
+      const payload = parseFileDisputeRequest(req.body);
+      const dispute = await fileDispute({
+        store: ledger,
+        request: payload.dispute,
+        agentSig: normalizeHex(payload.agentSig),
+        sequencerKeyId: selectSigningKey(sequencerKeys, nowSeconds()).keyId,
+        leafSaltSecret: normalizeHex(leafSaltSecret),
+        disputeWindowSeconds,
+        evidenceSeconds: disputeEvidenceSeconds
+      });
+      res.json(dispute);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(code === 'NOT_FOUND' ? 404 : 422).json({ error: message, code });
+    }
+  });
+
+  // Disputes name agents and authorizations, so reading them takes the admin token or a query
+  // signed by a relayer key registered for the dispute's chain. Agents read their own disputes
+  // at /v1/credit/agents/:agentId/disputes/:disputeId.
+  app.get('/v1/credit/disputes', async (req, res) => {
+    try {
+      const query = parseDisputeListQuery(req.query);
+      const relayerChainRef = hasAdminToken(req) ? undefined : await authenticateRelayerQuery(req);
+      assertRelayerChain(relayerChainRef, query.chainRef);
+      res.json({ disputes: await listDisputes({ store: ledger, ...query }) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(code === 'UNAUTHORIZED' ? 401 : 422).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/credit/disputes/:disputeId', async (req, res) => {
+    try {
+      const relayerChainRef = hasAdminToken(req) ? undefined : await authenticateRelayerQuery(req);
+      const dispute = await getDispute({ store: ledger, disputeId: normalizeHex(String(req.params.disputeId ?? '')) });
+      assertRelayerChain(relayerChainRef, dispute.chainRef);
+      res.json(dispute);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(code === 'UNAUTHORIZED' ? 401 : 404).json({ error: message, code });
+    }
+  });
+
+  app.post('/v1/credit/disputes/:disputeId/evidence', async (req, res) => {
+    try {
+      const payload = parseDisputeEvidenceRequest(req.body);
+      const dispute = await submitDisputeEvidence({
+        store: ledger,
+        disputeId: normalizeHex(String(req.params.disputeId ?? '')),
+        evidence: payload.evidence,
+        relayerSig: normalizeHex(payload.relayerSig),
+        report: payload.report,
+        sequencerKeyId: selectSigningKey(sequencerKeys, nowSeconds()).keyId,
+        leafSaltSecret: normalizeHex(leafSaltSecret)
+      });
+      res.json(dispute);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      const status = message.includes('UNAUTHORIZED_REPORTER') ? 401 : code === 'NOT_FOUND' ? 404 : 422;
+      res.status(status).json({ error: message, code });
+    }
+  });
+
+  app.post('/v1/admin/disputes/:disputeId/resolve', async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+      const resolution = parseDisputeResolutionRequest(req.body);
+      const dispute = await resolveDispute({
+        store: ledger,
+        disputeId: normalizeHex(String(req.params.disputeId ?? '')),
+        resolution,
+        resolvedBy: 'admin',
+        sequencerKeyId: selectSigningKey(sequencerKeys, nowSeconds()).keyId,
+        leafSaltSecret: normalizeHex(leafSaltSecret)
+      });
+      res.json(dispute);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(code === 'NOT_FOUND' ? 404 : 422).json({ error: message, code });
+    }
+  });
+
+  const authenticateAgentQuery = async (req: express.Request, agentId: Hex): Promise<void> => {
+    const auth = parseAgentQueryHeaders({
+      requestedAt: req.header(AGENT_QUERY_HEADERS.requestedAt),
+      agentSig: req.header(AGENT_QUERY_HEADERS.signature),
+      agentPubKey: req.header(AGENT_QUERY_HEADERS.pubKey),
+      signatureScheme: req.header(AGENT_QUERY_HEADERS.signatureScheme)
+    });
+    await verifyAgentQuery({
+      store: ledger,
+      query: { agentId, resource: req.originalUrl, requestedAt: auth.requestedAt },
+      agentSig: auth.agentSig,
+      maxSkewSeconds: agentQueryTtlSeconds,
+      ...(auth.agentPubKey ? { presentedPubKey: auth.agentPubKey } : {}),
+      ...(auth.signatureScheme ? { presentedSignatureScheme: auth.signatureScheme } : {})
+    });
+  };
+
+  const agentQueryErrorStatus = (code: string): number =>
+    code === 'UNAUTHORIZED' ? 401 : code === 'NOT_FOUND' ? 404 : 422;
+
+  app.get('/v1/credit/agents/:agentId', async (req, res) => {
+    try {
+      const agentId = normalizeHex(String(req.params.agentId ?? ''));
+      await authenticateAgentQuery(req, agentId);
+      res.json(await getAgentAccount({ store: ledger, agentId }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(agentQueryErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/credit/agents/:agentId/authorizations', async (req, res) => {
+    try {
+      const agentId = normalizeHex(String(req.params.agentId ?? ''));
+      await authenticateAgentQuery(req, agentId);
+      const query = parseAuthorizationHistoryQuery(req.query);
+      res.json(await listAgentAuthorizations({ store: ledger, agentId, query }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(agentQueryErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/credit/agents/:agentId/funding/:nullifier', async (req, res) => {
+    try {
+      const agentId = normalizeHex(String(req.params.agentId ?? ''));
+      await authenticateAgentQuery(req, agentId);
+      res.json(
+        await getFundingDeposit({
+          store: ledger,
+          agentId,
+          nullifier: normalizeHex(String(req.params.nullifier ?? ''))
+        })
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(agentQueryErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/credit/agents/:agentId/disputes/:disputeId', async (req, res) => {
+    try {
+      const agentId = normalizeHex(String(req.params.agentId ?? ''));
+      await authenticateAgentQuery(req, agentId);
+      res.json(
+        await getDispute({
+          store: ledger,
+          agentId,
+          disputeId: normalizeHex(String(req.params.disputeId ?? ''))
+        })
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(agentQueryErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/credit/agents/:agentId/withdrawals/:withdrawalId', async (req, res) => {
+    try {
+      const agentId = normalizeHex(String(req.params.agentId ?? ''));
+      await authenticateAgentQuery(req, agentId);
+      res.json(
+        await getWithdrawal({
+          store: ledger,
+          agentId,
+          withdrawalId: normalizeHex(String(req.params.withdrawalId ?? ''))
+        })
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(agentQueryErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/credit/agents/:agentId/policy', async (req, res) => {
+    try {
+      const agentId = normalizeHex(String(req.params.agentId ?? ''));
+      await authenticateAgentQuery(req, agentId);
+      res.json(await getAgentPolicy({ store: ledger, agentId }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(agentQueryErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.post('/v1/credit/agents/:agentId/policy', async (req, res) => {
+    try {
+      const { policy, agentSig } = parseAgentPolicyUpdateRequest(req.body);
+      if (normalizeHex(String(req.params.agentId ?? '')) !== normalizeHex(policy.agentId)) {
+        throw new Error('policy agentId does not match path');
+      }
+      await verifyAgentPolicySignature(policy, agentSig);
+      const result = await ledger.transaction((tx) =>
+        applyAgentPolicyUpdate(tx, { policy, agentSig, now: nowSeconds() })
+      );
+      res.json(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(422).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
+  app.get('/v1/credit/merchants/:merchantId', async (req, res) => {
+    try {
+      const merchantId = normalizeHex(String(req.params.merchantId ?? ''));
+      res.json(await getSignedMerchant({ store: ledger, merchantId, sequencerKeys }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(code === 'NOT_FOUND' ? 404 : 422).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/credit/merchants/:merchantId/statement', async (req, res) => {
+    try {
+      const merchantId = normalizeHex(String(req.params.merchantId ?? ''));
+      const auth = parseMerchantQueryHeaders({
+        serviceRegistryId: req.header(MERCHANT_QUERY_HEADERS.serviceRegistryId),
+        keyId: req.header(MERCHANT_QUERY_HEADERS.keyId),
+        requestedAt: req.header(MERCHANT_QUERY_HEADERS.requestedAt),
+        merchantSig: req.header(MERCHANT_QUERY_HEADERS.signature)
+      });
+      await verifyMerchantQuery({
+        store: ledger,
+        query: {
+          serviceRegistryId: auth.serviceRegistryId,
+          keyId: auth.keyId,
+          resource: req.originalUrl,
+          requestedAt: auth.requestedAt
+        },
+        merchantSig: auth.merchantSig,
+        maxSkewSeconds: agentQueryTtlSeconds
+      });
+      const query = parseMerchantStatementQuery(req.query);
+      assertMerchantIdForRegistry({
+        merchantId,
+        serviceRegistryId: auth.serviceRegistryId,
+        endpointUrl: query.endpointUrl
+      });
+      res.json(await getMerchantStatement({ store: ledger, merchantId, query }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = errorCodeFromMessage(message);
+      res.status(agentQueryErrorStatus(code)).json({ error: message, code });
+    }
+  });
+
+  app.get('/v1/credit/fees', (req, res) => {
+    try {
+      const query = parseFeeQuoteQuery(req.query);
+      if (!query) {
+        res.json({ fees: [...feeSchedule.values()] });
+        return;
+      }
+      if (!supportedChainRefs.has(query.chainRef)) {
+        throw new Error(`unsupported chainRef: ${query.chainRef}`);
+      }
+      res.json(quoteFee(feeSchedule, query.chainRef, query.amountMicros));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(422).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
   app.post('/v1/credit/authorize', async (req, res) => {
     try {
       const payload = parseAuthorizeRequest(req.body);
       const startedAt = Date.now();
+      const signingKey = selectSigningKey(sequencerKeys, nowSeconds());
       const response = await authorizeIntent({
-        pool,
+        store: ledger,
         intent: payload.intent,
         agentSig: normalizeHex(payload.agentSig),
-        sequencerKeyId,
-        sequencerPrivateKey,
+        sequencerKeyId: signingKey.keyId,
+        sequencerPrivateKey: signingKey.privateKey,
         leafSaltSecret: normalizeHex(leafSaltSecret),
         executionGraceSeconds,
-        supportedChainRefs
+        supportedChainRefs,
+        feeSchedule
       });
       recordAuthorizationLatency(Date.now() - startedAt);
       res.json(response);
@@ -201,7 +806,7 @@ export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
     try {
       const report = parseExecutionReport(req.body);
       const result = await recordExecution({
-        pool,
+        store: ledger,
         report,
         onExecutionConflict: () => {
           metrics.executionReportConflictsTotal += 1;
@@ -219,7 +824,7 @@ export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
     try {
       const reclaimReq = parseReclaimRequest(req.body);
       const result = await reclaimAuthorization({
-        pool,
+        store: ledger,
         request: reclaimReq,
         adminTokenHeader: req.header('x-sequencer-admin-token') ?? undefined,
         expectedAdminToken: adminToken
@@ -232,22 +837,8 @@ export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
   });
 
   app.get('/v1/commitments/latest', async (_req, res) => {
-    const latest = await pool.query<{
-      epoch_id: string;
-      root: string;
-      count: number;
-      prev_root: string;
-      sequencer_key_id: string;
-      posted_at: string | null;
-      posted_tx_hash: string | null;
-    }>(
-      `SELECT epoch_id, root, count, prev_root, sequencer_key_id, posted_at, posted_tx_hash
-       FROM commitments
-       ORDER BY epoch_id DESC
-       LIMIT 1`
-    );
-    const row = latest.rows[0];
-    if (!row) {
+    const latest = await ledger.read((tx) => tx.getLatestCommitment());
+    if (!latest) {
       res.json({
         latestEpochId: '0',
         root: zeroHash,
@@ -256,21 +847,30 @@ export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
       return;
     }
     res.json({
-      latestEpochId: row.epoch_id,
-      root: normalizeHex(row.root),
-      count: row.count,
-      prevRoot: normalizeHex(row.prev_root),
-      sequencerKeyId: row.sequencer_key_id,
-      postedAt: row.posted_at,
-      postedTxHash: row.posted_tx_hash
+      latestEpochId: latest.epochId,
+      root: normalizeHex(latest.root),
+      count: latest.count,
+      prevRoot: normalizeHex(latest.prevRoot),
+      sequencerKeyId: latest.sequencerKeyId,
+      postedAt: latest.postedAt,
+      postedTxHash: latest.postedTxHash
     });
   });
 
+  app.get('/v1/keys', async (_req, res) => {
+    try {
+      res.json(await buildSignedKeySet({ store: ledger, keys: sequencerKeys }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(500).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
   app.get('/v1/commitments/proof', async (req, res) => {
     try {
       const authId = normalizeHex(String(req.query.authId ?? ''));
       const proof = await buildInclusionProof({
-        pool,
+        store: ledger,
         authId,
         leafSaltSecret: normalizeHex(leafSaltSecret)
       });
@@ -281,14 +881,23 @@ export function registerSequencerRoutes(deps: SequencerRouteDeps): void {
     }
   });
 
+  app.get('/v1/commitments/:epochId/leaves', async (req, res) => {
+    try {
+      const epochId = String(req.params.epochId ?? '');
+      if (!/^[1-9][0-9]*$/.test(epochId)) throw new Error('epochId must be a positive integer');
+      res.json(await getCommitmentEpochLeaves({ store: ledger, epochId }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(404).json({ error: message, code: errorCodeFromMessage(message) });
+    }
+  });
+
   app.post('/v1/commitments/run', async (_req, res) => {
     try {
       const result = await runCommitmentEpoch({
-        pool,
-        sequencerKeyId,
-        baseRegistryAddress,
-        basePosterPrivateKey,
-        baseRpcUrl
+        store: ledger,
+        sequencerKeyId: selectSigningKey(sequencerKeys, nowSeconds()).keyId,
+        anchorConfigured: commitmentAnchorIds.length > 0
       });
       res.json(result);
     } catch (error) {
@@ -16,6 +16,9 @@ describe('credit-sequencer lib', () => {
   it('maps known error codes', () => {
     expect(errorCodeFromMessage('CONFLICT_EXECUTION for authId')).toBe('CONFLICT_EXECUTION');
     expect(errorCodeFromMessage('UNAUTHORIZED_REPORTER')).toBe('UNAUTHORIZED_REPORTER');
+    expect(errorCodeFromMessage('POLICY_DAILY_CAP_EXCEEDED: cap 10 reached')).toBe(
+      'POLICY_DAILY_CAP_EXCEEDED'
+    );
     expect(errorCodeFromMessage('random bad request')).toBe('INVALID_REQUEST');
   });
 
@@ -50,6 +50,8 @@ export function errorCodeFromMessage(message: string): string {
   if (message.includes('CONFLICT_EXECUTION')) return 'CONFLICT_EXECUTION';
   if (message.includes('UNAUTHORIZED_REPORTER')) return 'UNAUTHORIZED_REPORTER';
   if (message.includes('INVARIANT_VIOLATION')) return 'INVARIANT_VIOLATION';
+  const policyCode = /\bPOLICY_[A-Z_]+\b/.exec(message);
+  if (policyCode) return policyCode[0];
   if (message.includes('unauthorized')) return 'UNAUTHORIZED';
   if (message.includes('not found')) return 'NOT_FOUND';
   return 'INVALID_REQUEST';
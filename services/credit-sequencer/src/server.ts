@@ -1,18 +1,38 @@
+import os from 'node:os';
 import express from 'express';
 import type { Hex } from '@shielded-x402/shared-types';
-import { normalizeHex } from '@shielded-x402/shared-types';
+import { deriveFundingReceiptPublicKey, normalizeHex } from '@shielded-x402/shared-types';
 import { Pool } from 'pg';
-import { createPublicKey } from 'node:crypto';
+import { parseSupportedChainRefs } from './lib.js';
+import { reclaimAuthorization } from './services/ledger.js';
+import { createInMemoryLedgerStore } from './store/memoryLedgerStore.js';
+import { createPostgresLedgerStore } from './store/postgresLedgerStore.js';
+import type { LedgerStore } from './store/ledgerStore.js';
+import { runCommitmentEpoch, runCommitmentPoster } from './services/commitments.js';
 import {
-  parseSequencerPrivateKey,
-  parseSupportedChainRefs
-} from './lib.js';
+  createEvmCommitmentAnchor,
+  parseEvmCommitmentAnchorConfig,
+  type CommitmentAnchor
+} from './services/anchors.js';
 import {
-  extractEd25519RawPublicKey,
-  createEd25519PrivateKeyFromSeed
-} from './crypto.js';
-import { reclaimAuthorization } from './services/ledger.js';
-import { runCommitmentEpoch } from './services/commitments.js';
+  createViemFundingLogSource,
+  runFundingScan,
+  type FundingKeyConfig,
+  type FundingLogSource
+} from './services/funding.js';
+import {
+  createViemWithdrawalPoster,
+  runWithdrawalPoster,
+  type WithdrawalDepositPoster
+} from './services/withdrawals.js';
+import { resolveOverdueDisputes } from './services/disputes.js';
+import { parseFeeScheduleEnv } from './services/fees.js';
+import { createLeaderElector, createSingleInstanceLeader, type LeaderElector } from './services/leader.js';
+import {
+  parseSequencerSigningKeysEnv,
+  registerSequencerKeys,
+  selectSigningKey
+} from './services/keys.js';
 import {
   parseRelayerKeysEnv,
   seedRelayerKeys
@@ -25,7 +45,10 @@ const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
 const metrics = {
   authorizationLatencyMs: [] as number[],
   executionReportConflictsTotal: 0,
-  expiredReclaimsTotal: 0
+  expiredReclaimsTotal: 0,
+  fundingCreditsTotal: 0,
+  withdrawalsPostedTotal: 0,
+  disputesAutoCreditedTotal: 0
 };
 
 function recordAuthorizationLatency(ms: number): void {
@@ -40,25 +63,18 @@ function nowSeconds(): bigint {
 }
 
 async function sweepExpiredAuthorizations(input: {
-  pool: Pool;
+  ledger: LedgerStore;
   adminToken: string | undefined;
 }): Promise<number> {
   const now = nowSeconds().toString();
-  const expired = await input.pool.query<{ auth_id: string }>(
-    `SELECT auth_id
-     FROM authorizations
-     WHERE status = 'ISSUED' AND expires_at < $1
-     ORDER BY expires_at ASC
-     LIMIT 200`,
-    [now]
-  );
+  const expired = await input.ledger.read((tx) => tx.listExpiredAuthorizations(BigInt(now), 200));
   let reclaimed = 0;
-  for (const row of expired.rows) {
+  for (const authId of expired) {
     try {
       await reclaimAuthorization({
-        pool: input.pool,
+        store: input.ledger,
         request: {
-          authId: normalizeHex(row.auth_id),
+          authId: normalizeHex(authId),
           callerType: 'sequencer',
           requestedAt: now
         },
@@ -70,7 +86,7 @@ async function sweepExpiredAuthorizations(input: {
       metrics.expiredReclaimsTotal += 1;
     } catch (error) {
       // Best effort sweep; leave detailed reclaim validation to normal API calls.
-      console.warn('[sequencer] reclaim sweep skipped auth', row.auth_id, error);
+      console.warn('[sequencer] reclaim sweep skipped auth', authId, error);
     }
   }
   return reclaimed;
@@ -78,82 +94,277 @@ async function sweepExpiredAuthorizations(input: {
 
 async function main(): Promise<void> {
   const port = Number(process.env.SEQUENCER_PORT ?? '3201');
+  const ledgerStoreKind = process.env.SEQUENCER_LEDGER_STORE ?? 'postgres';
   const databaseUrl = process.env.SEQUENCER_DATABASE_URL;
-  const sequencerKeyId = process.env.SEQUENCER_SIGNING_KEY_ID ?? 'seq-key-1';
-  const sequencerPrivateKeyRaw = process.env.SEQUENCER_SIGNING_PRIVATE_KEY;
   const leafSaltSecret = (process.env.SEQUENCER_LEAF_SALT_SECRET ??
     '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa') as Hex;
   const executionGraceSeconds = BigInt(process.env.SEQUENCER_EXECUTION_GRACE_SECONDS ?? '300');
+  const agentQueryTtlSeconds = BigInt(process.env.SEQUENCER_AGENT_QUERY_TTL_SECONDS ?? '60');
   const epochSeconds = Number(process.env.SEQUENCER_EPOCH_SECONDS ?? '3600');
   const adminToken = process.env.SEQUENCER_ADMIN_TOKEN;
   const supportedChainRefs = parseSupportedChainRefs(process.env.SEQUENCER_SUPPORTED_CHAIN_REFS);
   const relayerKeys = parseRelayerKeysEnv(process.env.SEQUENCER_RELAYER_KEYS_JSON);
+  const feeSchedule = parseFeeScheduleEnv(process.env.SEQUENCER_FEE_SCHEDULE_JSON, supportedChainRefs);
   const baseRegistryAddress = process.env.SEQUENCER_BASE_REGISTRY_ADDRESS as Hex | undefined;
   const basePosterPrivateKey = process.env.SEQUENCER_BASE_POSTER_PRIVATE_KEY as Hex | undefined;
   const baseRpcUrl = process.env.SEQUENCER_BASE_RPC_URL;
+  const secondaryAnchorJson = process.env.SEQUENCER_SECONDARY_ANCHOR_JSON;
+  const commitmentPostPollSeconds = Number(process.env.SEQUENCER_COMMITMENT_POST_POLL_SECONDS ?? '15');
+  const commitmentPostRetryBaseSeconds = Number(process.env.SEQUENCER_COMMITMENT_POST_RETRY_BASE_SECONDS ?? '15');
+  const commitmentPostRetryMaxSeconds = Number(process.env.SEQUENCER_COMMITMENT_POST_RETRY_MAX_SECONDS ?? '3600');
   const sweeperSeconds = Number(process.env.SEQUENCER_SWEEPER_SECONDS ?? '30');
+  const fundingReceiptPrivateKey = process.env.SEQUENCER_FUNDING_RECEIPT_PRIVATE_KEY as Hex | undefined;
+  const fundingPkHash = process.env.SEQUENCER_FUNDING_PK_HASH as Hex | undefined;
+  const fundingRpcUrl = process.env.SEQUENCER_FUNDING_RPC_URL;
+  const shieldedPoolAddress = process.env.SEQUENCER_SHIELDED_POOL_ADDRESS as Hex | undefined;
+  const fundingFromBlock = BigInt(process.env.SEQUENCER_FUNDING_FROM_BLOCK ?? '0');
+  const fundingConfirmations = BigInt(process.env.SEQUENCER_FUNDING_CONFIRMATIONS ?? '2');
+  const fundingPollSeconds = Number(process.env.SEQUENCER_FUNDING_POLL_SECONDS ?? '15');
+  const fundingClaimsPerMinute = Number(process.env.SEQUENCER_FUNDING_CLAIMS_PER_MINUTE ?? '30');
+  const withdrawalPosterPrivateKey = process.env.SEQUENCER_WITHDRAWAL_POSTER_PRIVATE_KEY as Hex | undefined;
+  const withdrawalPollSeconds = Number(process.env.SEQUENCER_WITHDRAWAL_POLL_SECONDS ?? '15');
+  const disputeWindowSeconds = BigInt(process.env.SEQUENCER_DISPUTE_WINDOW_SECONDS ?? '604800');
+  const disputeEvidenceSeconds = BigInt(process.env.SEQUENCER_DISPUTE_EVIDENCE_SECONDS ?? '86400');
+  const instanceId = process.env.SEQUENCER_INSTANCE_ID ?? `${os.hostname()}-${process.pid}`;
+  const leaderLeaseSeconds = Number(process.env.SEQUENCER_LEADER_LEASE_SECONDS ?? '30');
 
-  if (!databaseUrl) throw new Error('SEQUENCER_DATABASE_URL is required');
-  if (!sequencerPrivateKeyRaw) throw new Error('SEQUENCER_SIGNING_PRIVATE_KEY is required');
+  if (ledgerStoreKind !== 'postgres' && ledgerStoreKind !== 'memory') {
+    throw new Error('SEQUENCER_LEDGER_STORE must be postgres or memory');
+  }
+  const sequencerKeys = parseSequencerSigningKeysEnv({
+    keysJson: process.env.SEQUENCER_SIGNING_KEYS_JSON,
+    keyId: process.env.SEQUENCER_SIGNING_KEY_ID,
+    privateKey: process.env.SEQUENCER_SIGNING_PRIVATE_KEY
+  });
   if (!/^0x[0-9a-fA-F]{64}$/.test(normalizeHex(leafSaltSecret))) {
     throw new Error('SEQUENCER_LEAF_SALT_SECRET must be 32-byte hex');
   }
 
-  const sequencerPrivateSeed = parseSequencerPrivateKey(sequencerPrivateKeyRaw);
-  const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(sequencerPrivateSeed);
-  const sequencerPublicKey = extractEd25519RawPublicKey(
-    createPublicKey(sequencerPrivateKey)
-  );
+  let fundingKey: FundingKeyConfig | undefined;
+  let fundingLogSource: FundingLogSource | undefined;
+  if (fundingReceiptPrivateKey || fundingPkHash) {
+    if (!fundingReceiptPrivateKey || !/^0x[0-9a-fA-F]{64}$/.test(normalizeHex(fundingReceiptPrivateKey))) {
+      throw new Error('SEQUENCER_FUNDING_RECEIPT_PRIVATE_KEY must be 32-byte hex');
+    }
+    if (!fundingPkHash || !/^0x[0-9a-fA-F]{64}$/.test(normalizeHex(fundingPkHash))) {
+      throw new Error('SEQUENCER_FUNDING_PK_HASH must be 32-byte hex');
+    }
+    if (!fundingRpcUrl || !shieldedPoolAddress) {
+      throw new Error(
+        'SEQUENCER_FUNDING_RPC_URL and SEQUENCER_SHIELDED_POOL_ADDRESS are required for funding ingestion'
+      );
+    }
+    fundingKey = {
+      receiptPrivateKey: normalizeHex(fundingReceiptPrivateKey),
+      pkHash: normalizeHex(fundingPkHash)
+    };
+    fundingLogSource = createViemFundingLogSource({
+      rpcUrl: fundingRpcUrl,
+      shieldedPoolAddress: normalizeHex(shieldedPoolAddress),
+      fromBlock: fundingFromBlock,
+      confirmations: fundingConfirmations
+    });
+  }
 
-  const pool = new Pool({
-    connectionString: databaseUrl
-  });
-  await runMigrations(databaseUrl);
-  await seedRelayerKeys(pool, relayerKeys);
+  // The first anchor is primary: it sets posted_at on commitments and in proofs.
+  const commitmentAnchors: CommitmentAnchor[] = [];
+  if (baseRegistryAddress || basePosterPrivateKey) {
+    commitmentAnchors.push(
+      createEvmCommitmentAnchor(
+        parseEvmCommitmentAnchorConfig(
+          {
+            chainId: process.env.SEQUENCER_BASE_CHAIN_ID ?? '84532',
+            rpcUrl: baseRpcUrl,
+            registryAddress: baseRegistryAddress,
+            posterPrivateKey: basePosterPrivateKey,
+            fromBlock: process.env.SEQUENCER_BASE_REGISTRY_FROM_BLOCK,
+            confirmations: process.env.SEQUENCER_BASE_CONFIRMATIONS,
+            maxFeePerGasWei: process.env.SEQUENCER_BASE_MAX_FEE_PER_GAS_WEI
+          },
+          'SEQUENCER_BASE anchor'
+        )
+      )
+    );
+  }
+  if (secondaryAnchorJson) {
+    if (commitmentAnchors.length === 0) {
+      throw new Error('SEQUENCER_SECONDARY_ANCHOR_JSON requires the primary SEQUENCER_BASE anchor');
+    }
+    const secondary = createEvmCommitmentAnchor(
+      parseEvmCommitmentAnchorConfig(JSON.parse(secondaryAnchorJson), 'SEQUENCER_SECONDARY_ANCHOR_JSON')
+    );
+    if (secondary.anchorId === commitmentAnchors[0]?.anchorId) {
+      throw new Error('SEQUENCER_SECONDARY_ANCHOR_JSON must use a different chainId than the primary anchor');
+    }
+    commitmentAnchors.push(secondary);
+  }
+
+  let withdrawalPoster: WithdrawalDepositPoster | undefined;
+  if (withdrawalPosterPrivateKey) {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(normalizeHex(withdrawalPosterPrivateKey))) {
+      throw new Error('SEQUENCER_WITHDRAWAL_POSTER_PRIVATE_KEY must be 32-byte hex');
+    }
+    if (!fundingRpcUrl || !shieldedPoolAddress) {
+      throw new Error(
+        'SEQUENCER_FUNDING_RPC_URL and SEQUENCER_SHIELDED_POOL_ADDRESS are required for withdrawals'
+      );
+    }
+    withdrawalPoster = createViemWithdrawalPoster({
+      rpcUrl: fundingRpcUrl,
+      shieldedPoolAddress: normalizeHex(shieldedPoolAddress),
+      posterPrivateKey: normalizeHex(withdrawalPosterPrivateKey),
+      fromBlock: fundingFromBlock
+    });
+  }
+
+  // The memory store keeps the ledger in this process, so it runs a single instance that always leads.
+  let pool: Pool | undefined;
+  let ledger: LedgerStore;
+  let leader: LeaderElector;
+  if (ledgerStoreKind === 'memory') {
+    console.warn('[sequencer] SEQUENCER_LEDGER_STORE=memory: ledger state is lost on restart');
+    ledger = createInMemoryLedgerStore();
+    leader = createSingleInstanceLeader(instanceId);
+  } else {
+    if (!databaseUrl) throw new Error('SEQUENCER_DATABASE_URL is required');
+    pool = new Pool({
+      connectionString: databaseUrl
+    });
+    ledger = createPostgresLedgerStore(pool);
+    await runMigrations(databaseUrl);
+    // Every replica serves requests; background loops below run only on the lease holder.
+    leader = createLeaderElector({ pool, instanceId, leaseSeconds: leaderLeaseSeconds });
+  }
+  await seedRelayerKeys(ledger, relayerKeys);
+  await registerSequencerKeys(ledger, sequencerKeys);
+
+  const renewLeadership = (): void => {
+    leader.tick().catch((error) => {
+      console.error('[sequencer] leader lease error', error);
+    });
+  };
+  renewLeadership();
+  const leaderInterval = setInterval(renewLeadership, Math.max(1, Math.floor(leaderLeaseSeconds / 3)) * 1000);
 
   const app = express();
   app.use(express.json({ limit: '1mb' }));
 
   registerSequencerRoutes({
     app,
-    pool,
+    ledger,
     zeroHash: ZERO_HASH,
-    sequencerKeyId,
-    sequencerPublicKey,
+    sequencerKeys,
     executionGraceSeconds,
+    agentQueryTtlSeconds,
     epochSeconds,
     supportedChainRefs,
+    feeSchedule,
     adminToken,
-    sequencerPrivateKey,
     leafSaltSecret: normalizeHex(leafSaltSecret),
-    baseRegistryAddress,
-    basePosterPrivateKey,
-    baseRpcUrl,
+    commitmentAnchorIds: commitmentAnchors.map((anchor) => anchor.anchorId),
+    fundingKey,
+    fundingReceiptPublicKey: fundingKey
+      ? deriveFundingReceiptPublicKey(fundingKey.receiptPrivateKey)
+      : undefined,
+    fundingClaimsPerMinute,
+    withdrawalsEnabled: withdrawalPoster !== undefined,
+    disputeWindowSeconds,
+    disputeEvidenceSeconds,
+    leader,
     metrics,
     recordAuthorizationLatency
   });
 
   const commitmentInterval = setInterval(() => {
+    if (!leader.isLeader()) return;
     runCommitmentEpoch({
-      pool,
-      sequencerKeyId,
-      baseRegistryAddress,
-      basePosterPrivateKey,
-      baseRpcUrl
+      store: ledger,
+      sequencerKeyId: selectSigningKey(sequencerKeys, nowSeconds()).keyId,
+      anchorConfigured: commitmentAnchors.length > 0
     }).catch((error) => {
       console.error('[sequencer] commitment loop error', error);
     });
   }, Math.max(1, epochSeconds) * 1000);
 
+  // Posting waits for confirmations, so skip a tick rather than race the registry's epoch order.
+  const commitmentPostIntervals = commitmentAnchors.map((anchor, index) => {
+    let inFlight = false;
+    return setInterval(() => {
+      if (inFlight || !leader.isLeader()) return;
+      inFlight = true;
+      runCommitmentPoster({
+        store: ledger,
+        anchor,
+        primary: index === 0,
+        retryBaseSeconds: commitmentPostRetryBaseSeconds,
+        retryMaxSeconds: commitmentPostRetryMaxSeconds
+      })
+        .catch((error) => {
+          console.error('[sequencer] commitment poster error', anchor.anchorId, error);
+        })
+        .finally(() => {
+          inFlight = false;
+        });
+    }, Math.max(1, commitmentPostPollSeconds) * 1000);
+  });
+
   const sweeperInterval = setInterval(() => {
+    if (!leader.isLeader()) return;
     sweepExpiredAuthorizations({
-      pool,
+      ledger,
       adminToken
     }).catch((error) => {
       console.error('[sequencer] reclaim sweep error', error);
     });
   }, Math.max(1, sweeperSeconds) * 1000);
 
+  const disputeInterval = setInterval(() => {
+    if (!leader.isLeader()) return;
+    resolveOverdueDisputes({
+      store: ledger,
+      sequencerKeyId: selectSigningKey(sequencerKeys, nowSeconds()).keyId,
+      leafSaltSecret: normalizeHex(leafSaltSecret)
+    })
+      .then((result) => {
+        metrics.disputesAutoCreditedTotal += result.credited;
+      })
+      .catch((error) => {
+        console.error('[sequencer] dispute rule error', error);
+      });
+  }, Math.max(1, sweeperSeconds) * 1000);
+
+  const fundingInterval = fundingLogSource
+    ? setInterval(() => {
+        if (!leader.isLeader()) return;
+        runFundingScan({
+          store: ledger,
+          logSource: fundingLogSource
+        })
+          .then((result) => {
+            metrics.fundingCreditsTotal += result.credited;
+          })
+          .catch((error) => {
+            console.error('[sequencer] funding scan error', error);
+          });
+      }, Math.max(1, fundingPollSeconds) * 1000)
+    : undefined;
+
+  const withdrawalInterval = withdrawalPoster
+    ? setInterval(() => {
+        if (!leader.isLeader()) return;
+        runWithdrawalPoster({
+          store: ledger,
+          poster: withdrawalPoster
+        })
+          .then((result) => {
+            metrics.withdrawalsPostedTotal += result.posted;
+          })
+          .catch((error) => {
+            console.error('[sequencer] withdrawal poster error', error);
+          });
+      }, Math.max(1, withdrawalPollSeconds) * 1000)
+    : undefined;
+
   const server = app.listen(port, () => {
     console.log(`[credit-sequencer] listening on ${port}`);
   });
@@ -162,10 +373,18 @@ async function main(): Promise<void> {
     console.log(`[credit-sequencer] ${signal} received, shutting down`);
     clearInterval(commitmentInterval);
     clearInterval(sweeperInterval);
+    clearInterval(disputeInterval);
+    commitmentPostIntervals.forEach((interval) => clearInterval(interval));
+    if (fundingInterval) clearInterval(fundingInterval);
+    if (withdrawalInterval) clearInterval(withdrawalInterval);
+    clearInterval(leaderInterval);
+    await leader.release().catch((error) => {
+      console.error('[sequencer] leader lease release error', error);
+    });
     await new Promise<void>((resolve) => {
       server.close(() => resolve());
     });
-    await pool.end();
+    await pool?.end();
     process.exit(0);
   };
 
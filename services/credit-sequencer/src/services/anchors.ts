@@ -0,0 +1,196 @@
+import type { Hex } from '@shielded-x402/shared-types';
+import { normalizeHex } from '@shielded-x402/shared-types';
+import { createPublicClient, createWalletClient, defineChain, http, type PublicClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { keyIdToBytes32 } from '../lib.js';
+
+export const commitmentRegistryAbi = [
+  {
+    type: 'function',
+    name: 'postCommitment',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'epochId', type: 'uint64' },
+      { name: 'root', type: 'bytes32' },
+      { name: 'count', type: 'uint32' },
+      { name: 'prevRoot', type: 'bytes32' },
+      { name: 'sequencerKeyId', type: 'bytes32' }
+    ],
+    outputs: []
+  },
+  {
+    type: 'function',
+    name: 'roots',
+    stateMutability: 'view',
+    inputs: [{ name: 'epochId', type: 'uint64' }],
+    outputs: [{ name: '', type: 'bytes32' }]
+  }
+] as const;
+
+export const commitmentPostedEventAbi = {
+  type: 'event',
+  name: 'CommitmentPosted',
+  inputs: [
+    { name: 'epochId', type: 'uint64', indexed: true },
+    { name: 'root', type: 'bytes32', indexed: true },
+    { name: 'count', type: 'uint32', indexed: false },
+    { name: 'prevRoot', type: 'bytes32', indexed: false },
+    { name: 'postedAt', type: 'uint64', indexed: false },
+    { name: 'sequencerKeyId', type: 'bytes32', indexed: false }
+  ]
+} as const;
+
+/**
+ * A chain that commitment roots are anchored on. Anchors must accept epochs strictly in
+ * order and chain each root to the previous epoch's root, as CommitmentRegistryV1 does.
+ */
+export interface CommitmentAnchor {
+  /** Stable identifier used to track posting state, e.g. `eip155:8453`. */
+  anchorId: string;
+  /** Returns the anchored root for an epoch, or the zero hash if it is not posted. */
+  readRoot(epochId: bigint): Promise<Hex>;
+  /** Finds the transaction that anchored an epoch, if it is still within the searched range. */
+  findPost(epochId: bigint): Promise<{ txHash: Hex; confirmed: boolean } | null>;
+  /** Anchors an epoch and resolves once the transaction has the configured confirmations. */
+  post(commitment: {
+    epochId: bigint;
+    root: Hex;
+    count: number;
+    prevRoot: Hex;
+    sequencerKeyId: string;
+  }): Promise<Hex>;
+}
+
+export interface EvmCommitmentAnchorConfig {
+  chainId: number;
+  rpcUrl: string;
+  registryAddress: Hex;
+  posterPrivateKey: Hex;
+  fromBlock: bigint;
+  confirmations: number;
+  maxFeePerGasWei?: bigint;
+}
+
+function parsePositiveInteger(value: unknown, label: string): number {
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed <= 0) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses an EVM anchor from its env values. `label` prefixes error messages so a bad
+ * secondary anchor is distinguishable from a bad primary one.
+ */
+export function parseEvmCommitmentAnchorConfig(
+  input: {
+    chainId: unknown;
+    rpcUrl: unknown;
+    registryAddress: unknown;
+    posterPrivateKey: unknown;
+    fromBlock?: unknown;
+    confirmations?: unknown;
+    maxFeePerGasWei?: unknown;
+  },
+  label: string
+): EvmCommitmentAnchorConfig {
+  if (typeof input.rpcUrl !== 'string' || input.rpcUrl.length === 0) {
+    throw new Error(`${label} rpcUrl is required`);
+  }
+  if (typeof input.registryAddress !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(input.registryAddress)) {
+    throw new Error(`${label} registryAddress must be a 20-byte hex address`);
+  }
+  if (typeof input.posterPrivateKey !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(input.posterPrivateKey)) {
+    throw new Error(`${label} posterPrivateKey must be 32-byte hex`);
+  }
+  const maxFeePerGasWei =
+    input.maxFeePerGasWei === undefined || input.maxFeePerGasWei === ''
+      ? undefined
+      : BigInt(String(input.maxFeePerGasWei));
+  if (maxFeePerGasWei !== undefined && maxFeePerGasWei <= 0n) {
+    throw new Error(`${label} maxFeePerGasWei must be > 0`);
+  }
+  return {
+    chainId: parsePositiveInteger(input.chainId, `${label} chainId`),
+    rpcUrl: input.rpcUrl,
+    registryAddress: normalizeHex(input.registryAddress),
+    posterPrivateKey: normalizeHex(input.posterPrivateKey),
+    fromBlock: BigInt(String(input.fromBlock ?? '0')),
+    confirmations: parsePositiveInteger(input.confirmations ?? 1, `${label} confirmations`),
+    ...(maxFeePerGasWei !== undefined ? { maxFeePerGasWei } : {})
+  };
+}
+
+/** Anchors roots on any EVM chain running CommitmentRegistryV1, including a local anvil node. */
+export function createEvmCommitmentAnchor(config: EvmCommitmentAnchorConfig): CommitmentAnchor {
+  const chain = defineChain({
+    id: config.chainId,
+    name: `eip155:${config.chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [config.rpcUrl] } }
+  });
+  const publicClient: PublicClient = createPublicClient({ chain, transport: http(config.rpcUrl) });
+  const wallet = createWalletClient({
+    account: privateKeyToAccount(config.posterPrivateKey),
+    chain,
+    transport: http(config.rpcUrl)
+  });
+
+  return {
+    anchorId: `eip155:${config.chainId}`,
+    async readRoot(epochId) {
+      return publicClient.readContract({
+        address: config.registryAddress,
+        abi: commitmentRegistryAbi,
+        functionName: 'roots',
+        args: [epochId]
+      });
+    },
+    async findPost(epochId) {
+      const logs = await publicClient.getLogs({
+        address: config.registryAddress,
+        event: commitmentPostedEventAbi,
+        args: { epochId },
+        fromBlock: config.fromBlock
+      });
+      const first = logs[0];
+      if (!first) return null;
+      const head = await publicClient.getBlockNumber();
+      return {
+        txHash: normalizeHex(first.transactionHash),
+        confirmed: head - first.blockNumber + 1n >= BigInt(config.confirmations)
+      };
+    },
+    async post(commitment) {
+      const fees = await publicClient.estimateFeesPerGas();
+      if (config.maxFeePerGasWei !== undefined && fees.maxFeePerGas > config.maxFeePerGasWei) {
+        throw new Error(
+          `anchor fee ceiling exceeded: maxFeePerGas ${fees.maxFeePerGas} > ${config.maxFeePerGasWei}`
+        );
+      }
+      const txHash = await wallet.writeContract({
+        address: config.registryAddress,
+        abi: commitmentRegistryAbi,
+        functionName: 'postCommitment',
+        args: [
+          commitment.epochId,
+          commitment.root,
+          commitment.count,
+          commitment.prevRoot,
+          keyIdToBytes32(commitment.sequencerKeyId)
+        ],
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations: config.confirmations
+      });
+      if (receipt.status !== 'success') {
+        throw new Error(`transaction ${txHash} reverted`);
+      }
+      return txHash;
+    }
+  };
+}
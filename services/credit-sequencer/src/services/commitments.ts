@@ -2,266 +2,224 @@ import {
   buildMerkleProof,
   buildMerkleRoot,
   deriveLeafSalt,
-  type AuthorizationV1,
+  type CommitmentEpochLeavesV1,
   type Hex,
   type InclusionProofV1
 } from '@shielded-x402/shared-types';
 import { normalizeHex } from '@shielded-x402/shared-types';
-import type { Pool } from 'pg';
-import { keyIdToBytes32 } from '../lib.js';
+import type { LedgerStore } from '../store/ledgerStore.js';
+import type { CommitmentAnchor } from './anchors.js';
 
-export const commitmentRegistryAbi = [
-  {
-    type: 'function',
-    name: 'postCommitment',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'epochId', type: 'uint64' },
-      { name: 'root', type: 'bytes32' },
-      { name: 'count', type: 'uint32' },
-      { name: 'prevRoot', type: 'bytes32' },
-      { name: 'sequencerKeyId', type: 'bytes32' }
-    ],
-    outputs: []
-  }
-] as const;
+const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
 
 function nowSeconds(): bigint {
   return BigInt(Math.floor(Date.now() / 1000));
 }
 
-function indexFromLogSeqNo(leaves: Array<{ log_seq_no: string }>, targetLogSeqNo: string): number {
-  return leaves.findIndex((leaf) => leaf.log_seq_no === targetLogSeqNo);
-}
-
-async function runtimeImport(moduleName: string): Promise<any> {
-  return import(moduleName);
+function indexFromLogSeqNo(leaves: Array<{ logSeqNo: string }>, targetLogSeqNo: string): number {
+  return leaves.findIndex((leaf) => leaf.logSeqNo === targetLogSeqNo);
 }
 
 export async function buildInclusionProof(input: {
-  pool: Pool;
+  store: LedgerStore;
   authId: Hex;
   leafSaltSecret: Hex;
 }): Promise<InclusionProofV1> {
-  const authRes = await input.pool.query<{
-    auth_id: string;
-    authorization_json: AuthorizationV1;
-    sequencer_key_id: string;
-    log_seq_no: string;
-  }>(
-    `SELECT auth_id, authorization_json, sequencer_key_id, log_seq_no
-     FROM authorizations
-     WHERE auth_id = $1`,
-    [input.authId]
-  );
-  const auth = authRes.rows[0];
-  if (!auth) throw new Error('authorization not found');
-
-  const leafRes = await input.pool.query<{
-    leaf_hash: string;
-    log_seq_no: string;
-    epoch_id: string | null;
-  }>(
-    `SELECT leaf_hash, log_seq_no, epoch_id
-     FROM auth_leaves
-     WHERE auth_id = $1`,
-    [input.authId]
-  );
-  const leaf = leafRes.rows[0];
-  if (!leaf) throw new Error('authorization leaf not found');
-  if (!leaf.epoch_id) throw new Error('authorization not committed yet');
-
-  const commitmentRes = await input.pool.query<{
-    epoch_id: string;
-    root: string;
-    prev_root: string;
-    posted_tx_hash: string | null;
-  }>(
-    `SELECT epoch_id, root, prev_root, posted_tx_hash
-     FROM commitments
-     WHERE epoch_id = $1`,
-    [leaf.epoch_id]
-  );
-  const commitment = commitmentRes.rows[0];
-  if (!commitment) throw new Error('commitment epoch not found');
+  return input.store.read(async (tx) => {
+    const auth = await tx.findLeafOwner(input.authId);
+    if (!auth) throw new Error('authorization not found');
+
+    const leaf = await tx.getLeaf(input.authId);
+    if (!leaf) throw new Error('authorization leaf not found');
+    if (!leaf.epochId) throw new Error('authorization not committed yet');
+
+    const commitment = await tx.getCommitment(leaf.epochId);
+    if (!commitment) throw new Error('commitment epoch not found');
+
+    const epochLeafRecords = await tx.listEpochLeaves(leaf.epochId);
+    const epochLeaves = epochLeafRecords.map((row) => normalizeHex(row.leafHash));
+    const leafIndex = indexFromLogSeqNo(epochLeafRecords, leaf.logSeqNo);
+    if (leafIndex < 0) throw new Error('leaf index not found');
+    const merkleProof = buildMerkleProof(epochLeaves, leafIndex);
+    const recomputedRoot = buildMerkleRoot(epochLeaves);
+    if (normalizeHex(recomputedRoot) !== normalizeHex(commitment.root)) {
+      throw new Error('commitment root mismatch for epoch');
+    }
 
-  const epochLeavesRes = await input.pool.query<{
-    leaf_hash: string;
-    log_seq_no: string;
-  }>(
-    `SELECT leaf_hash, log_seq_no
-     FROM auth_leaves
-     WHERE epoch_id = $1
-     ORDER BY log_seq_no ASC`,
-    [leaf.epoch_id]
-  );
-  const epochLeaves = epochLeavesRes.rows.map((row: { leaf_hash: string }) => normalizeHex(row.leaf_hash));
-  const leafIndex = indexFromLogSeqNo(epochLeavesRes.rows, leaf.log_seq_no);
-  if (leafIndex < 0) throw new Error('leaf index not found');
-  const merkleProof = buildMerkleProof(epochLeaves, leafIndex);
-  const recomputedRoot = buildMerkleRoot(epochLeaves);
-  if (normalizeHex(recomputedRoot) !== normalizeHex(commitment.root)) {
-    throw new Error('commitment root mismatch for epoch');
-  }
+    return {
+      epochId: leaf.epochId,
+      root: normalizeHex(commitment.root),
+      leafHash: normalizeHex(leaf.leafHash),
+      merkleProof,
+      leafIndex,
+      logSeqNo: auth.logSeqNo,
+      prevLeafHash: normalizeHex(leaf.prevLeafHash),
+      prevRoot: normalizeHex(commitment.prevRoot),
+      authId: normalizeHex(auth.authId),
+      leafSalt: deriveLeafSalt(input.leafSaltSecret, normalizeHex(auth.authId)),
+      sequencerKeyId: auth.sequencerKeyId,
+      ...(commitment.postedTxHash ? { commitTxHash: normalizeHex(commitment.postedTxHash) } : {})
+    };
+  });
+}
 
-  return {
-    epochId: leaf.epoch_id,
-    root: normalizeHex(commitment.root),
-    leafHash: normalizeHex(leaf.leaf_hash),
-    merkleProof,
-    leafIndex,
-    logSeqNo: auth.log_seq_no,
-    prevRoot: normalizeHex(commitment.prev_root),
-    authId: normalizeHex(auth.auth_id),
-    leafSalt: deriveLeafSalt(input.leafSaltSecret, normalizeHex(auth.auth_id)),
-    sequencerKeyId: auth.sequencer_key_id,
-    ...(commitment.posted_tx_hash ? { commitTxHash: normalizeHex(commitment.posted_tx_hash) } : {})
-  };
+export async function getCommitmentEpochLeaves(input: {
+  store: LedgerStore;
+  epochId: string;
+}): Promise<CommitmentEpochLeavesV1> {
+  return input.store.read(async (tx) => {
+    const commitment = await tx.getCommitment(input.epochId);
+    if (!commitment) throw new Error('commitment epoch not found');
+
+    const leaves = await tx.listEpochLeaves(input.epochId);
+    return {
+      epochId: commitment.epochId,
+      root: normalizeHex(commitment.root),
+      count: commitment.count,
+      prevRoot: normalizeHex(commitment.prevRoot),
+      sequencerKeyId: commitment.sequencerKeyId,
+      leaves: leaves.map((row) => ({
+        logSeqNo: row.logSeqNo,
+        leafHash: normalizeHex(row.leafHash),
+        prevLeafHash: normalizeHex(row.prevLeafHash)
+      }))
+    };
+  });
 }
 
+/**
+ * Seals unassigned leaves into the next epoch. With an anchor configured the epoch stays
+ * unposted until runCommitmentPoster lands it on the primary anchor.
+ */
 export async function runCommitmentEpoch(input: {
-  pool: Pool;
+  store: LedgerStore;
   sequencerKeyId: string;
-  baseRegistryAddress: Hex | undefined;
-  basePosterPrivateKey: Hex | undefined;
-  baseRpcUrl: string | undefined;
+  anchorConfigured: boolean;
 }): Promise<{ committed: boolean; epochId?: string; root?: Hex }> {
-  const commitResult = await input.pool.connect().then(async (client) => {
-    try {
-      await client.query('BEGIN');
-
-      const countersRes = await client.query<{
-        last_epoch_id: string;
-        last_root: string;
-      }>(
-        `SELECT last_epoch_id, last_root
-         FROM sequencer_counters
-         WHERE singleton = TRUE
-         FOR UPDATE`
-      );
-      const counters = countersRes.rows[0];
-      if (!counters) throw new Error('sequencer counters missing');
-
-      const leavesRes = await client.query<{
-        log_seq_no: string;
-        leaf_hash: string;
-      }>(
-        `SELECT log_seq_no, leaf_hash
-         FROM auth_leaves
-         WHERE epoch_id IS NULL
-         ORDER BY log_seq_no ASC
-         FOR UPDATE`
-      );
-      if (leavesRes.rowCount === 0) {
-        await client.query('COMMIT');
-        return { committed: false as const };
-      }
-      const epochId = (BigInt(counters.last_epoch_id) + 1n).toString();
-      const leaves = leavesRes.rows.map((row: { leaf_hash: string }) => normalizeHex(row.leaf_hash));
-      const root = buildMerkleRoot(leaves);
-      const prevRoot = normalizeHex(counters.last_root);
-      const maxLogSeqNo = leavesRes.rows[leavesRes.rows.length - 1]?.log_seq_no ?? '0';
-
-      await client.query(
-        `UPDATE auth_leaves
-         SET epoch_id = $1
-         WHERE epoch_id IS NULL`,
-        [epochId]
-      );
-
-      await client.query(
-        `INSERT INTO commitments(epoch_id, root, count, prev_root, sequencer_key_id)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [epochId, root, leaves.length, prevRoot, input.sequencerKeyId]
-      );
-
-      await client.query(
-        `UPDATE sequencer_counters
-         SET last_epoch_id = $1, last_root = $2, log_seq_no = GREATEST(log_seq_no, $3)
-         WHERE singleton = TRUE`,
-        [epochId, root, maxLogSeqNo]
-      );
-
-      await client.query('COMMIT');
-      return {
-        committed: true as const,
-        epochId,
-        root
-      };
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+  const commitResult = await input.store.transaction(async (tx) => {
+    const counters = await tx.getCounters();
+    const unassigned = await tx.listUnassignedLeaves();
+    if (unassigned.length === 0) {
+      return { committed: false as const };
     }
+    const epochId = (BigInt(counters.lastEpochId) + 1n).toString();
+    const leaves = unassigned.map((row) => normalizeHex(row.leafHash));
+    const root = buildMerkleRoot(leaves);
+    const prevRoot = normalizeHex(counters.lastRoot);
+    const maxLogSeqNo = BigInt(unassigned[unassigned.length - 1]?.logSeqNo ?? '0');
+
+    await tx.assignLeavesToEpoch(epochId);
+    await tx.insertCommitment({
+      epochId,
+      root,
+      count: leaves.length,
+      prevRoot,
+      sequencerKeyId: input.sequencerKeyId
+    });
+    await tx.updateCounters({
+      lastEpochId: epochId,
+      lastRoot: root,
+      ...(maxLogSeqNo > BigInt(counters.logSeqNo) ? { logSeqNo: maxLogSeqNo.toString() } : {})
+    });
+
+    return {
+      committed: true as const,
+      epochId,
+      root
+    };
   });
 
   if (!commitResult.committed) {
     return commitResult;
   }
 
-  if (
-    input.baseRegistryAddress &&
-    input.basePosterPrivateKey &&
-    input.baseRpcUrl &&
-    commitResult.epochId &&
-    commitResult.root
-  ) {
-    try {
-      const viem = await runtimeImport('viem');
-      const viemAccounts = await runtimeImport('viem/accounts');
-      const viemChains = await runtimeImport('viem/chains');
+  if (!input.anchorConfigured) {
+    await input.store.transaction((tx) => tx.markCommitmentPosted(commitResult.epochId, nowSeconds().toString()));
+  }
 
-      const account = viemAccounts.privateKeyToAccount(input.basePosterPrivateKey);
-      const wallet = viem.createWalletClient({
-        account,
-        chain: viemChains.baseSepolia,
-        transport: viem.http(input.baseRpcUrl)
-      });
-      const publicClient = viem.createPublicClient({
-        chain: viemChains.baseSepolia,
-        transport: viem.http(input.baseRpcUrl)
-      });
+  return commitResult;
+}
 
-      const prevCommitRes = await input.pool.query<{ prev_root: string; count: number }>(
-        `SELECT prev_root, count
-         FROM commitments
-         WHERE epoch_id = $1`,
-        [commitResult.epochId]
-      );
-      const prevCommit = prevCommitRes.rows[0];
-      if (!prevCommit) throw new Error('commitment row missing after insert');
+/**
+ * Posts epochs that are not yet on `anchor`, in epoch order. An epoch whose root is already
+ * anchored is recorded without a new transaction. On failure the epoch is rescheduled with
+ * exponential backoff and later epochs wait behind it, because the registry only accepts
+ * epochId = latestEpochId + 1. The primary anchor also sets the epoch's posted_at.
+ */
+export async function runCommitmentPoster(input: {
+  store: LedgerStore;
+  anchor: CommitmentAnchor;
+  primary: boolean;
+  batchSize?: number;
+  retryBaseSeconds?: number;
+  retryMaxSeconds?: number;
+}): Promise<{ posted: number }> {
+  const { anchorId } = input.anchor;
+  const unposted = await input.store.read((tx) => tx.listUnpostedCommitments(anchorId, input.batchSize ?? 20));
+  const now = nowSeconds();
+  const head = unposted[0];
+  if (!head || BigInt(head.nextPostAt) > now) {
+    return { posted: 0 };
+  }
 
-      const txHash = await wallet.writeContract({
-        address: input.baseRegistryAddress,
-        abi: commitmentRegistryAbi,
-        functionName: 'postCommitment',
-        args: [
-          BigInt(commitResult.epochId),
-          commitResult.root,
-          prevCommit.count,
-          normalizeHex(prevCommit.prev_root),
-          keyIdToBytes32(input.sequencerKeyId)
-        ]
+  let posted = 0;
+  for (const commitment of unposted) {
+    const epochId = BigInt(commitment.epochId);
+    const root = normalizeHex(commitment.root);
+    try {
+      let txHash: Hex | null;
+      const anchoredRoot = normalizeHex(await input.anchor.readRoot(epochId));
+      if (anchoredRoot !== ZERO_HASH) {
+        if (anchoredRoot !== root) {
+          throw new Error(`commitment root mismatch on ${anchorId} for epoch ${commitment.epochId}`);
+        }
+        const existing = await input.anchor.findPost(epochId);
+        if (existing && !existing.confirmed) {
+          throw new Error(`commitment for epoch ${commitment.epochId} awaiting confirmations`);
+        }
+        txHash = existing?.txHash ?? null;
+      } else {
+        const prevRoot = normalizeHex(commitment.prevRoot);
+        const anchoredPrevRoot =
+          epochId === 1n ? ZERO_HASH : normalizeHex(await input.anchor.readRoot(epochId - 1n));
+        if (anchoredPrevRoot !== prevRoot) {
+          throw new Error(
+            `prevRoot chain broken at epoch ${commitment.epochId}: expected ${prevRoot}, anchored ${anchoredPrevRoot}`
+          );
+        }
+        txHash = await input.anchor.post({
+          epochId,
+          root,
+          count: commitment.count,
+          prevRoot,
+          sequencerKeyId: commitment.sequencerKeyId
+        });
+      }
+      const postedAt = nowSeconds().toString();
+      const postedTxHash = txHash ? normalizeHex(txHash) : null;
+      await input.store.transaction(async (tx) => {
+        await tx.recordAnchorPost({ anchorId, epochId: commitment.epochId, postedTxHash, postedAt });
+        if (input.primary) {
+          await tx.markCommitmentPosted(commitment.epochId, postedAt, postedTxHash);
+        }
       });
-      await publicClient.waitForTransactionReceipt({ hash: txHash });
-      await input.pool.query(
-        `UPDATE commitments
-         SET posted_tx_hash = $2, posted_at = $3
-         WHERE epoch_id = $1`,
-        [commitResult.epochId, txHash, nowSeconds().toString()]
-      );
+      posted += 1;
     } catch (error) {
-      console.error('[sequencer] failed posting commitment to Base', error);
+      const delaySeconds = Math.min(
+        (input.retryBaseSeconds ?? 15) * 2 ** commitment.postAttempts,
+        input.retryMaxSeconds ?? 3600
+      );
+      await input.store.transaction((tx) =>
+        tx.recordAnchorPostFailure({
+          anchorId,
+          epochId: commitment.epochId,
+          nextPostAt: (nowSeconds() + BigInt(delaySeconds)).toString(),
+          error: error instanceof Error ? error.message : String(error)
+        })
+      );
+      console.error('[sequencer] failed posting commitment', anchorId, commitment.epochId, error);
+      break;
     }
-  } else {
-    await input.pool.query(
-      `UPDATE commitments
-       SET posted_at = $2
-       WHERE epoch_id = $1`,
-      [commitResult.epochId, nowSeconds().toString()]
-    );
   }
-
-  return commitResult;
+  return { posted };
 }
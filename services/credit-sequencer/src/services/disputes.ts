@@ -0,0 +1,391 @@
+import {
+  buildDisputeRequestTypedDataPayload,
+  canonicalDisputeEvidenceBytes,
+  canonicalDisputeRequestBytes,
+  computeAuthorizationLeaf,
+  deriveDisputeEventId,
+  deriveDisputeId,
+  deriveLeafSalt,
+  hashDisputeEvent,
+  hashDisputeEvidence,
+  hashDisputeRequest,
+  normalizeHex,
+  type DisputeEventAction,
+  type DisputeEventV1,
+  type DisputeEvidenceV1,
+  type DisputeRequestV1,
+  type DisputeResolutionRequestV1,
+  type DisputeStatus,
+  type DisputeV1,
+  type ExecutionReportV1,
+  type Hex
+} from '@shielded-x402/shared-types';
+import { sha256, verifyAgentSignature, verifyEd25519Signature } from '../crypto.js';
+import type { DisputeRecord, LedgerStore, LedgerTx } from '../store/ledgerStore.js';
+import { normalizeExecutionTxHash, parseUint64 } from '../validation.js';
+import { isRelayerKeyUsableAt } from './relayerKeys.js';
+
+const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
+
+/** Signing context for the commitment-log leaves written by each dispute step. */
+export interface DisputeLogContext {
+  sequencerKeyId: string;
+  leafSaltSecret: Hex;
+}
+
+function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+async function toDispute(tx: LedgerTx, record: DisputeRecord): Promise<DisputeV1> {
+  const { evidence, relayerSig, ...rest } = record;
+  return {
+    ...rest,
+    evidence: evidence && relayerSig ? { evidence, relayerSig } : null,
+    events: await tx.listDisputeEvents(record.disputeId)
+  };
+}
+
+async function requireDispute(tx: LedgerTx, disputeId: Hex): Promise<DisputeV1> {
+  const record = await tx.getDispute(disputeId);
+  if (!record) throw new Error('dispute not found');
+  return toDispute(tx, record);
+}
+
+/** Appends one dispute step to the commitment log, the same way authorizations are logged. */
+async function appendDisputeEvent(
+  tx: LedgerTx,
+  input: DisputeLogContext & {
+    disputeId: Hex;
+    authId: Hex;
+    action: DisputeEventAction;
+    amountMicros: bigint;
+    detailHash: Hex;
+    now: bigint;
+  }
+): Promise<DisputeEventV1> {
+  const counters = await tx.getCounters();
+  const nextSeq = (BigInt(counters.logSeqNo) + 1n).toString();
+  const eventId = deriveDisputeEventId({ disputeId: input.disputeId, seqNo: nextSeq });
+  const event: DisputeEventV1 = {
+    version: 1,
+    eventId,
+    disputeId: input.disputeId,
+    authId: input.authId,
+    action: input.action,
+    amountMicros: input.amountMicros.toString(),
+    detailHash: input.detailHash,
+    occurredAt: input.now.toString(),
+    logSeqNo: nextSeq,
+    sequencerKeyId: input.sequencerKeyId
+  };
+  const prevLeafHash = normalizeHex(counters.lastLeafHash);
+  const leafHash = computeAuthorizationLeaf({
+    logSeqNo: nextSeq,
+    prevLeafHash,
+    authHash: hashDisputeEvent(event),
+    salt: deriveLeafSalt(input.leafSaltSecret, eventId)
+  });
+
+  await tx.insertDisputeEvent(event);
+  await tx.appendLeaf({ logSeqNo: nextSeq, authId: eventId, prevLeafHash, leafHash });
+  await tx.updateCounters({ logSeqNo: nextSeq, lastLeafHash: leafHash });
+  return event;
+}
+
+/**
+ * Opens a dispute for an executed authorization. Only the agent that owns the authorization
+ * may file, once, within `disputeWindowSeconds` of execution. Refiling the same signed
+ * request returns the existing dispute.
+ */
+export async function fileDispute(
+  input: DisputeLogContext & {
+    store: LedgerStore;
+    request: DisputeRequestV1;
+    agentSig: Hex;
+    disputeWindowSeconds: bigint;
+    evidenceSeconds: bigint;
+  }
+): Promise<DisputeV1> {
+  const now = nowSeconds();
+  const requestedAt = parseUint64(input.request.requestedAt, 'dispute.requestedAt');
+  if (requestedAt > now + 300n) {
+    throw new Error('dispute requestedAt too far in the future');
+  }
+  const authId = normalizeHex(input.request.authId);
+  const disputeId = deriveDisputeId(authId);
+
+  return input.store.transaction(async (tx) => {
+    const auth = await tx.getAuthorization(authId);
+    if (!auth) throw new Error('authorization not found');
+    if (normalizeHex(auth.agentId) !== normalizeHex(input.request.agentId)) {
+      throw new Error('dispute agentId does not match authorization');
+    }
+
+    const agent = await tx.getAgent(auth.agentId);
+    if (!agent?.agentPubKey || !agent.signatureScheme) {
+      throw new Error('agent signing metadata missing');
+    }
+    await verifyAgentSignature({
+      signatureScheme: agent.signatureScheme,
+      agentPubKey: normalizeHex(agent.agentPubKey),
+      signature: input.agentSig,
+      canonicalBytes: canonicalDisputeRequestBytes(input.request),
+      typedData: buildDisputeRequestTypedDataPayload(input.request),
+      label: 'dispute'
+    });
+
+    const existing = await tx.getDispute(disputeId);
+    if (existing) {
+      if (hashDisputeRequest(existing.request) !== hashDisputeRequest(input.request)) {
+        throw new Error('authorization already disputed');
+      }
+      return toDispute(tx, existing);
+    }
+
+    if (auth.status !== 'EXECUTED' || auth.executedAt === null) {
+      throw new Error('only EXECUTED authorizations can be disputed');
+    }
+    if (now > BigInt(auth.executedAt) + input.disputeWindowSeconds) {
+      throw new Error('dispute window closed');
+    }
+
+    await tx.insertDispute({
+      disputeId,
+      authId,
+      agentId: normalizeHex(auth.agentId),
+      chainRef: auth.chainRef,
+      status: 'OPEN',
+      request: input.request,
+      agentSig: normalizeHex(input.agentSig),
+      filedAt: now.toString(),
+      evidenceDueAt: (now + input.evidenceSeconds).toString(),
+      evidence: null,
+      relayerSig: null,
+      creditedMicros: '0',
+      resolvedAt: null,
+      resolvedBy: null
+    });
+    await appendDisputeEvent(tx, {
+      ...input,
+      disputeId,
+      authId,
+      action: 'FILED',
+      amountMicros: 0n,
+      detailHash: hashDisputeRequest(input.request),
+      now
+    });
+    return requireDispute(tx, disputeId);
+  });
+}
+
+/**
+ * Records the relayer's answer to an open dispute. The evidence must be signed by a usable
+ * relayer key for the authorization's chain and reference the SUCCESS report the sequencer
+ * already accepted for it.
+ */
+export async function submitDisputeEvidence(
+  input: DisputeLogContext & {
+    store: LedgerStore;
+    disputeId: Hex;
+    evidence: DisputeEvidenceV1;
+    relayerSig: Hex;
+    report: ExecutionReportV1;
+  }
+): Promise<DisputeV1> {
+  const now = nowSeconds();
+  const submittedAt = parseUint64(input.evidence.submittedAt, 'evidence.submittedAt');
+  if (submittedAt > now + 300n) {
+    throw new Error('evidence submittedAt too far in the future');
+  }
+  const disputeId = normalizeHex(input.disputeId);
+  if (normalizeHex(input.evidence.disputeId) !== disputeId) {
+    throw new Error('evidence disputeId does not match path');
+  }
+
+  return input.store.transaction(async (tx) => {
+    const dispute = await requireDispute(tx, disputeId);
+    if (dispute.evidence) {
+      if (hashDisputeEvidence(dispute.evidence.evidence) === hashDisputeEvidence(input.evidence)) {
+        return dispute;
+      }
+      throw new Error('dispute evidence already submitted');
+    }
+    if (dispute.status !== 'OPEN') {
+      throw new Error(`dispute is ${dispute.status}`);
+    }
+    if (now > BigInt(dispute.evidenceDueAt)) {
+      throw new Error('dispute evidence deadline passed');
+    }
+    if (
+      normalizeHex(input.evidence.authId) !== dispute.authId ||
+      normalizeHex(input.report.authId) !== dispute.authId
+    ) {
+      throw new Error('evidence authId does not match dispute');
+    }
+    if (normalizeHex(input.report.reportId) !== normalizeHex(input.evidence.reportId)) {
+      throw new Error('evidence reportId does not match report');
+    }
+    if (submittedAt < BigInt(dispute.filedAt)) {
+      throw new Error('evidence submittedAt precedes dispute');
+    }
+
+    const relayerKey = await tx.getRelayerKey(dispute.chainRef, input.evidence.relayerKeyId);
+    if (!relayerKey || !isRelayerKeyUsableAt(relayerKey, submittedAt, now)) {
+      throw new Error(
+        `UNAUTHORIZED_REPORTER chainRef=${dispute.chainRef} relayerKeyId=${input.evidence.relayerKeyId}`
+      );
+    }
+    const validSig = verifyEd25519Signature({
+      messageHash: sha256(canonicalDisputeEvidenceBytes(input.evidence)),
+      signature: input.relayerSig,
+      publicKey: normalizeHex(relayerKey.publicKey)
+    });
+    if (!validSig) {
+      throw new Error('invalid dispute evidence signature');
+    }
+
+    const attempt = await tx.getExecutionAttempt(normalizeHex(input.report.reportId));
+    if (
+      !attempt ||
+      normalizeHex(attempt.authId) !== dispute.authId ||
+      attempt.status !== 'SUCCESS' ||
+      normalizeExecutionTxHash(attempt.txHash) !== normalizeExecutionTxHash(input.report.executionTxHash) ||
+      normalizeHex(attempt.reportSig) !== normalizeHex(input.report.reportSig)
+    ) {
+      throw new Error('evidence report does not match the accepted execution report');
+    }
+
+    await tx.updateDispute(disputeId, {
+      status: 'EVIDENCE_SUBMITTED',
+      evidence: input.evidence,
+      relayerSig: normalizeHex(input.relayerSig)
+    });
+    await appendDisputeEvent(tx, {
+      ...input,
+      disputeId,
+      authId: dispute.authId,
+      action: 'EVIDENCE_SUBMITTED',
+      amountMicros: 0n,
+      detailHash: hashDisputeEvidence(input.evidence),
+      now
+    });
+    return requireDispute(tx, disputeId);
+  });
+}
+
+/**
+ * Closes a dispute. `CREDIT` returns up to the executed amount to the agent's balance and
+ * lowers its outstanding debit, the same ledger move as a reclaim.
+ */
+export async function resolveDispute(
+  input: DisputeLogContext & {
+    store: LedgerStore;
+    disputeId: Hex;
+    resolution: DisputeResolutionRequestV1;
+    resolvedBy: 'admin' | 'rule';
+  }
+): Promise<DisputeV1> {
+  const now = nowSeconds();
+  const disputeId = normalizeHex(input.disputeId);
+  return input.store.transaction(async (tx) => {
+    const dispute = await requireDispute(tx, disputeId);
+    if (dispute.status !== 'OPEN' && dispute.status !== 'EVIDENCE_SUBMITTED') {
+      throw new Error(`dispute already resolved: ${dispute.status}`);
+    }
+    const reasonHash = input.resolution.reasonHash ? normalizeHex(input.resolution.reasonHash) : ZERO_HASH;
+
+    let creditedMicros = 0n;
+    if (input.resolution.outcome === 'CREDIT') {
+      const execution = await tx.getExecution(dispute.authId);
+      if (!execution) throw new Error('execution record not found');
+      const executedMicros = BigInt(execution.executedAmountMicros);
+      creditedMicros =
+        input.resolution.amountMicros === undefined
+          ? executedMicros
+          : parseUint64(input.resolution.amountMicros, 'resolution.amountMicros');
+      if (creditedMicros <= 0n || creditedMicros > executedMicros) {
+        throw new Error('dispute credit must be > 0 and at most the executed amount');
+      }
+
+      const agent = await tx.getAgent(dispute.agentId);
+      if (!agent) throw new Error('agent state missing');
+      const outstanding = BigInt(agent.debitedOutstandingMicros);
+      if (outstanding < creditedMicros) {
+        throw new Error('INVARIANT_VIOLATION outstanding balance lower than dispute credit');
+      }
+      await tx.updateAgent(dispute.agentId, {
+        balanceMicros: (BigInt(agent.balanceMicros) + creditedMicros).toString(),
+        debitedOutstandingMicros: (outstanding - creditedMicros).toString(),
+        updatedAt: now.toString()
+      });
+    } else if (input.resolution.outcome !== 'REJECT') {
+      throw new Error(`unsupported dispute outcome: ${String(input.resolution.outcome)}`);
+    }
+
+    const status = input.resolution.outcome === 'CREDIT' ? 'CREDITED' : 'REJECTED';
+    await tx.updateDispute(disputeId, {
+      status,
+      creditedMicros: creditedMicros.toString(),
+      resolvedAt: now.toString(),
+      resolvedBy: input.resolvedBy
+    });
+    await appendDisputeEvent(tx, {
+      ...input,
+      disputeId,
+      authId: dispute.authId,
+      action: status,
+      amountMicros: creditedMicros,
+      detailHash: reasonHash,
+      now
+    });
+    return requireDispute(tx, disputeId);
+  });
+}
+
+/**
+ * Automated rule: a dispute the relayer has not answered by its evidence deadline is
+ * credited in full.
+ */
+export async function resolveOverdueDisputes(
+  input: DisputeLogContext & { store: LedgerStore; batchSize?: number }
+): Promise<{ credited: number }> {
+  const overdue = await input.store.read((tx) => tx.listOverdueDisputes(nowSeconds(), input.batchSize ?? 50));
+  let credited = 0;
+  for (const disputeId of overdue) {
+    try {
+      await resolveDispute({
+        ...input,
+        disputeId,
+        resolution: { outcome: 'CREDIT' },
+        resolvedBy: 'rule'
+      });
+      credited += 1;
+    } catch (error) {
+      console.warn('[sequencer] overdue dispute skipped', disputeId, error);
+    }
+  }
+  return { credited };
+}
+
+/** With `agentId`, disputes filed by other agents are reported as not found. */
+export async function getDispute(input: { store: LedgerStore; disputeId: Hex; agentId?: Hex }): Promise<DisputeV1> {
+  const dispute = await input.store.read((tx) => requireDispute(tx, normalizeHex(input.disputeId)));
+  if (input.agentId !== undefined && dispute.agentId !== normalizeHex(input.agentId)) {
+    throw new Error('dispute not found');
+  }
+  return dispute;
+}
+
+/** Disputes on one chain in a given status, oldest first; relayers poll this for `OPEN`. */
+export async function listDisputes(input: {
+  store: LedgerStore;
+  chainRef: string;
+  status: DisputeStatus;
+  limit?: number;
+}): Promise<DisputeV1[]> {
+  return input.store.read(async (tx) => {
+    const records = await tx.listDisputes(input.chainRef, input.status, input.limit ?? 100);
+    return Promise.all(records.map((record) => toDispute(tx, record)));
+  });
+}
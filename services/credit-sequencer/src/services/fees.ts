@@ -0,0 +1,57 @@
+import {
+  MAX_FEE_BPS,
+  computeFeeMicros,
+  type FeeQuoteV1,
+  type FeeScheduleEntryV1,
+  type RelayerFeeAccountV1
+} from '@shielded-x402/shared-types';
+import type { LedgerStore } from '../store/ledgerStore.js';
+
+/** Relayer fee per chainRef; chains without an entry charge no fee. */
+export type FeeSchedule = ReadonlyMap<string, FeeScheduleEntryV1>;
+
+/**
+ * Parses `SEQUENCER_FEE_SCHEDULE_JSON`:
+ * `{ "eip155:8453": { "flatMicros": "100", "bps": 25 } }`.
+ */
+export function parseFeeScheduleEnv(raw: string | undefined, supportedChainRefs: Set<string>): FeeSchedule {
+  const schedule = new Map<string, FeeScheduleEntryV1>();
+  if (!raw) return schedule;
+  const parsed = JSON.parse(raw) as unknown;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('SEQUENCER_FEE_SCHEDULE_JSON must be an object');
+  }
+  for (const [chainRef, value] of Object.entries(parsed)) {
+    if (!supportedChainRefs.has(chainRef)) {
+      throw new Error(`SEQUENCER_FEE_SCHEDULE_JSON has unsupported chainRef ${chainRef}`);
+    }
+    const entry = value as { flatMicros?: unknown; bps?: unknown };
+    const flatMicros = String(entry?.flatMicros ?? '0');
+    const bps = Number(entry?.bps ?? 0);
+    if (!/^[0-9]+$/.test(flatMicros)) {
+      throw new Error(`SEQUENCER_FEE_SCHEDULE_JSON ${chainRef}.flatMicros must be a decimal integer`);
+    }
+    if (!Number.isInteger(bps) || bps < 0 || bps > MAX_FEE_BPS) {
+      throw new Error(`SEQUENCER_FEE_SCHEDULE_JSON ${chainRef}.bps must be an integer in [0, ${MAX_FEE_BPS}]`);
+    }
+    schedule.set(chainRef, { chainRef, flatMicros: BigInt(flatMicros).toString(), bps });
+  }
+  return schedule;
+}
+
+export function quoteFee(schedule: FeeSchedule, chainRef: string, amountMicros: bigint): FeeQuoteV1 {
+  const feeMicros = computeFeeMicros(schedule.get(chainRef), amountMicros.toString());
+  return {
+    chainRef,
+    amountMicros: amountMicros.toString(),
+    feeMicros,
+    totalMicros: (amountMicros + BigInt(feeMicros)).toString()
+  };
+}
+
+export async function listRelayerFeeAccounts(input: {
+  store: LedgerStore;
+  chainRef?: string;
+}): Promise<RelayerFeeAccountV1[]> {
+  return input.store.read((tx) => tx.listRelayerFeeAccounts(input.chainRef));
+}
@@ -0,0 +1,263 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createPublicClient, createTestClient, createWalletClient, http, type Abi, type Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { describe, expect, it } from 'vitest';
+import {
+  deriveFundingReceiptPublicKey,
+  encryptFundingReceipt,
+  type Hex
+} from '@shielded-x402/shared-types';
+import { createInMemoryLedgerStore } from '../store/memoryLedgerStore.js';
+import {
+  applySpentEvent,
+  createViemFundingLogSource,
+  deriveFundingCommitment,
+  getFundingDeposit,
+  runFundingScan,
+  submitFundingClaim,
+  type FundingLogSource,
+  type SpentEvent
+} from './funding.js';
+
+const FUNDING_RECEIPT_PRIVATE_KEY = (`0x${'07'.repeat(32)}` as Hex);
+const FUNDING_PK_HASH = (`0x${'09'.repeat(32)}` as Hex);
+const FUNDING_KEY = { receiptPrivateKey: FUNDING_RECEIPT_PRIVATE_KEY, pkHash: FUNDING_PK_HASH };
+const NULLIFIER = (`0x${'aa'.repeat(32)}` as Hex);
+const AGENT_ID = (`0x${'bb'.repeat(32)}` as Hex);
+const ATTACKER_ID = (`0x${'ee'.repeat(32)}` as Hex);
+const RHO = (`0x${'00'.repeat(31)}05` as Hex);
+const SPENT_TX_HASH = (`0x${'cc'.repeat(32)}` as Hex);
+
+// Default anvil account 0.
+const ANVIL_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80' as Hex;
+const ANVIL_RPC_URL = process.env.ANVIL_RPC_URL ?? '';
+// Built with `forge build --root contracts`.
+const CONTRACTS_OUT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../../contracts/out');
+const artifactPath = (name: string): string => path.join(CONTRACTS_OUT, `${name}.sol`, `${name}.json`);
+const ANVIL_ARTIFACTS = ['MockUSDC', 'MockProofVerifier', 'ShieldedPool'];
+
+const describeIfAnvil =
+  ANVIL_RPC_URL && ANVIL_ARTIFACTS.every((name) => fs.existsSync(artifactPath(name))) ? describe : describe.skip;
+
+function encryptedReceipt(
+  recipientPrivateKey: Hex = FUNDING_RECEIPT_PRIVATE_KEY,
+  opening: { agentId: Hex; rho: Hex } = { agentId: AGENT_ID, rho: RHO },
+  nullifier: Hex = NULLIFIER
+): Hex {
+  return encryptFundingReceipt({
+    receipt: { version: 1, nullifier, amountMicros: '5000', ...opening },
+    recipientPublicKey: deriveFundingReceiptPublicKey(recipientPrivateKey)
+  });
+}
+
+async function claimed() {
+  const store = createInMemoryLedgerStore();
+  await submitFundingClaim({ store, nullifier: NULLIFIER, encryptedReceipt: encryptedReceipt(), fundingKey: FUNDING_KEY });
+  const merchantCommitment = deriveFundingCommitment({ amount: 5000n, rho: RHO, pkHash: FUNDING_PK_HASH });
+  return { store, merchantCommitment };
+}
+
+describe('funding service', () => {
+  it('rejects receipts that were not encrypted to the funding key', async () => {
+    await expect(
+      submitFundingClaim({
+        store: createInMemoryLedgerStore(),
+        nullifier: NULLIFIER,
+        encryptedReceipt: encryptedReceipt(`0x${'08'.repeat(32)}` as Hex),
+        fundingKey: FUNDING_KEY
+      })
+    ).rejects.toThrow('funding receipt decryption failed');
+  });
+
+  it('records a pending claim bound to the receipt agent and commitment', async () => {
+    const store = createInMemoryLedgerStore();
+    const result = await submitFundingClaim({
+      store,
+      nullifier: NULLIFIER,
+      encryptedReceipt: encryptedReceipt(),
+      fundingKey: FUNDING_KEY
+    });
+    expect(result.status).toBe('PENDING');
+    expect(result.agentId).toBe(AGENT_ID);
+    const deposits = await store.read((tx) => tx.listFundingDeposits(NULLIFIER));
+    expect(deposits.map((deposit) => deposit.merchantCommitment)).toEqual([
+      deriveFundingCommitment({ amount: 5000n, rho: RHO, pkHash: FUNDING_PK_HASH })
+    ]);
+  });
+
+  it('credits the agent once when the spent event matches the claim', async () => {
+    const { store, merchantCommitment } = await claimed();
+    const event = { nullifier: NULLIFIER, merchantCommitment, amount: 5000n, txHash: SPENT_TX_HASH, blockNumber: 12n };
+
+    await expect(applySpentEvent({ store, event })).resolves.toEqual({ credited: true, rejected: 0, status: 'CREDITED' });
+    await expect(applySpentEvent({ store, event })).resolves.toEqual({ credited: false, rejected: 0, status: 'CREDITED' });
+    const agent = await store.read((tx) => tx.getAgent(AGENT_ID));
+    expect(agent?.balanceMicros).toBe('5000');
+    expect(agent?.creditedMicros).toBe('5000');
+  });
+
+  it('rejects spends whose merchant commitment is not addressed to the funding key', async () => {
+    const { store } = await claimed();
+
+    const result = await applySpentEvent({
+      store,
+      event: {
+        nullifier: NULLIFIER,
+        merchantCommitment: (`0x${'dd'.repeat(32)}` as Hex),
+        amount: 5000n,
+        txHash: SPENT_TX_HASH,
+        blockNumber: 12n
+      }
+    });
+    expect(result).toEqual({ credited: false, rejected: 1, status: 'REJECTED' });
+    expect(await store.read((tx) => tx.getAgent(AGENT_ID))).toBeUndefined();
+  });
+
+  it('credits the real claim when a bogus receipt for the same nullifier arrives first', async () => {
+    const store = createInMemoryLedgerStore();
+    const bogus = await submitFundingClaim({
+      store,
+      nullifier: NULLIFIER,
+      encryptedReceipt: encryptedReceipt(FUNDING_RECEIPT_PRIVATE_KEY, {
+        agentId: ATTACKER_ID,
+        rho: (`0x${'00'.repeat(31)}06` as Hex)
+      }),
+      fundingKey: FUNDING_KEY
+    });
+    expect(bogus).toMatchObject({ agentId: ATTACKER_ID, status: 'PENDING' });
+    await expect(
+      submitFundingClaim({ store, nullifier: NULLIFIER, encryptedReceipt: encryptedReceipt(), fundingKey: FUNDING_KEY })
+    ).resolves.toMatchObject({ agentId: AGENT_ID, status: 'PENDING' });
+
+    const merchantCommitment = deriveFundingCommitment({ amount: 5000n, rho: RHO, pkHash: FUNDING_PK_HASH });
+    const event = { nullifier: NULLIFIER, merchantCommitment, amount: 5000n, txHash: SPENT_TX_HASH, blockNumber: 12n };
+    await expect(applySpentEvent({ store, event })).resolves.toEqual({ credited: true, rejected: 1, status: 'CREDITED' });
+
+    const claims = await store.read((tx) => tx.listFundingDeposits(NULLIFIER));
+    expect(Object.fromEntries(claims.map((claim) => [claim.agentId, claim.status]))).toEqual({
+      [ATTACKER_ID]: 'REJECTED',
+      [AGENT_ID]: 'CREDITED'
+    });
+    expect((await store.read((tx) => tx.getAgent(AGENT_ID)))?.balanceMicros).toBe('5000');
+    expect(await store.read((tx) => tx.getAgent(ATTACKER_ID))).toBeUndefined();
+
+    // Each agent sees only its own claim on the nullifier.
+    await expect(getFundingDeposit({ store, agentId: AGENT_ID, nullifier: NULLIFIER })).resolves.toMatchObject({
+      status: 'CREDITED'
+    });
+    await expect(getFundingDeposit({ store, agentId: ATTACKER_ID, nullifier: NULLIFIER })).resolves.toMatchObject({
+      status: 'REJECTED'
+    });
+    await expect(
+      getFundingDeposit({ store, agentId: (`0x${'ff'.repeat(32)}` as Hex), nullifier: NULLIFIER })
+    ).rejects.toThrow('funding deposit not found');
+  });
+
+  it('rotates unspent claims to the back so they cannot starve a newer spent one', async () => {
+    const store = createInMemoryLedgerStore();
+    const junk = [0xa1, 0xa2, 0xa3].map((byte) => (`0x${byte.toString(16).repeat(32)}` as Hex));
+    for (const nullifier of junk) {
+      await submitFundingClaim({
+        store,
+        nullifier,
+        encryptedReceipt: encryptedReceipt(FUNDING_RECEIPT_PRIVATE_KEY, { agentId: ATTACKER_ID, rho: RHO }, nullifier),
+        fundingKey: FUNDING_KEY
+      });
+    }
+    await submitFundingClaim({ store, nullifier: NULLIFIER, encryptedReceipt: encryptedReceipt(), fundingKey: FUNDING_KEY });
+
+    // Only the real claim was ever spent on chain.
+    const chain: SpentEvent[] = [
+      {
+        nullifier: NULLIFIER,
+        merchantCommitment: deriveFundingCommitment({ amount: 5000n, rho: RHO, pkHash: FUNDING_PK_HASH }),
+        amount: 5000n,
+        txHash: SPENT_TX_HASH,
+        blockNumber: 12n
+      }
+    ];
+    const scannedBatches: Hex[][] = [];
+    const logSource: FundingLogSource = {
+      async getSpentEvents(nullifiers) {
+        scannedBatches.push([...nullifiers]);
+        return chain.filter((event) => nullifiers.includes(event.nullifier));
+      }
+    };
+
+    expect(await runFundingScan({ store, logSource, batchSize: 2 })).toEqual({ scanned: 2, credited: 0, rejected: 0 });
+    expect(await runFundingScan({ store, logSource, batchSize: 2 })).toEqual({ scanned: 2, credited: 1, rejected: 0 });
+    expect(scannedBatches).toEqual([junk.slice(0, 2), [junk[2], NULLIFIER]]);
+    expect((await store.read((tx) => tx.getAgent(AGENT_ID)))?.balanceMicros).toBe('5000');
+    // The unspent claims keep rotating through later scans.
+    await runFundingScan({ store, logSource, batchSize: 2 });
+    expect(scannedBatches[2]).toEqual(junk.slice(0, 2));
+  });
+});
+
+describeIfAnvil('funding scan against anvil', () => {
+  // Vitest still collects skipped suites, and viem refuses to build a transport without a URL.
+  const rpcUrl = ANVIL_RPC_URL || 'http://127.0.0.1:8545';
+  const publicClient = createPublicClient({ transport: http(rpcUrl) });
+  const wallet = createWalletClient({ account: privateKeyToAccount(ANVIL_KEY), transport: http(rpcUrl) });
+  const anvil = createTestClient({ mode: 'anvil', transport: http(rpcUrl) });
+
+  const artifact = (name: string): { abi: Abi; bytecode: { object: Hex } } =>
+    JSON.parse(fs.readFileSync(artifactPath(name), 'utf8'));
+
+  async function deploy(name: string, args: readonly unknown[] = []): Promise<Address> {
+    const { abi, bytecode } = artifact(name);
+    const hash = await wallet.deployContract({ abi, bytecode: bytecode.object, args, chain: null });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress as Address;
+  }
+
+  async function call(address: Address, name: string, functionName: string, args: readonly unknown[]): Promise<void> {
+    const hash = await wallet.writeContract({ address, abi: artifact(name).abi, functionName, args, chain: null });
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  it('credits a claim once the ShieldedPool spend to the funding key is confirmed', async () => {
+    const usdc = await deploy('MockUSDC');
+    const pool = await deploy('ShieldedPool', [usdc, await deploy('MockProofVerifier')]);
+    await call(usdc, 'MockUSDC', 'mint', [wallet.account.address, 10_000n]);
+    await call(usdc, 'MockUSDC', 'approve', [pool, 10_000n]);
+    await call(pool, 'ShieldedPool', 'deposit', [10_000n, `0x${'01'.repeat(32)}`]);
+    const fromBlock = await publicClient.getBlockNumber();
+
+    const { store, merchantCommitment } = await claimed();
+    const logSource = createViemFundingLogSource({
+      rpcUrl,
+      shieldedPoolAddress: pool,
+      fromBlock,
+      confirmations: 1n
+    });
+    expect(await runFundingScan({ store, logSource })).toEqual({ scanned: 1, credited: 0, rejected: 0 });
+
+    const root = await publicClient.readContract({
+      address: pool,
+      abi: artifact('ShieldedPool').abi,
+      functionName: 'latestRoot'
+    });
+    // MockProofVerifier accepts any non-empty proof.
+    await call(pool, 'ShieldedPool', 'submitSpend', [
+      '0x1234',
+      NULLIFIER,
+      root,
+      merchantCommitment,
+      `0x${'02'.repeat(32)}`,
+      `0x${'03'.repeat(32)}`,
+      5000n
+    ]);
+    // Not yet confirmed: the spend is the head block.
+    expect(await runFundingScan({ store, logSource })).toEqual({ scanned: 1, credited: 0, rejected: 0 });
+
+    await anvil.mine({ blocks: 1 });
+    expect(await runFundingScan({ store, logSource })).toEqual({ scanned: 1, credited: 1, rejected: 0 });
+    expect((await store.read((tx) => tx.getAgent(AGENT_ID)))?.balanceMicros).toBe('5000');
+    const [deposit] = await store.read((tx) => tx.listFundingDeposits(NULLIFIER));
+    expect(deposit?.status).toBe('CREDITED');
+    expect(await runFundingScan({ store, logSource })).toEqual({ scanned: 0, credited: 0, rejected: 0 });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  decryptFundingReceipt,
+  normalizeHex,
+  toHexWord,
+  type FundingClaimResponseV1,
+  type FundingStatus,
+  type Hex
+} from '@shielded-x402/shared-types';
+import { concatHex, createPublicClient, http, keccak256, type PublicClient } from 'viem';
+import type { FundingDepositRecord, LedgerStore } from '../store/ledgerStore.js';
+import { parseUint64 } from '../validation.js';
+import { creditAgentBalance } from './ledger.js';
+
+export const shieldedPoolSpentEventAbi = {
+  type: 'event',
+  name: 'Spent',
+  inputs: [
+    { name: 'nullifier', type: 'bytes32', indexed: true },
+    { name: 'merchantCommitment', type: 'bytes32', indexed: true },
+    { name: 'changeCommitment', type: 'bytes32', indexed: true },
+    { name: 'amount', type: 'uint256', indexed: false },
+    { name: 'challengeHash', type: 'bytes32', indexed: false },
+    { name: 'merchantLeafIndex', type: 'uint256', indexed: false },
+    { name: 'changeLeafIndex', type: 'uint256', indexed: false },
+    { name: 'newRoot', type: 'bytes32', indexed: false }
+  ]
+} as const;
+
+export interface SpentEvent {
+  nullifier: Hex;
+  merchantCommitment: Hex;
+  amount: bigint;
+  txHash: Hex;
+  blockNumber: bigint;
+}
+
+/**
+ * Source of confirmed `ShieldedPool.Spent` events. The viem implementation reads
+ * the pool contract; tests substitute an in-memory chain.
+ */
+export interface FundingLogSource {
+  getSpentEvents(nullifiers: readonly Hex[]): Promise<SpentEvent[]>;
+}
+
+export interface FundingKeyConfig {
+  receiptPrivateKey: Hex;
+  pkHash: Hex;
+}
+
+function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+export function deriveFundingCommitment(input: { amount: bigint; rho: Hex; pkHash: Hex }): Hex {
+  return keccak256(concatHex([toHexWord(input.amount), input.rho, input.pkHash]));
+}
+
+function toFundingResponse(record: FundingDepositRecord): FundingClaimResponseV1 {
+  return {
+    nullifier: record.nullifier,
+    agentId: record.agentId,
+    amountMicros: record.amountMicros,
+    status: record.status,
+    ...(record.spentTxHash ? { spentTxHash: record.spentTxHash } : {}),
+    ...(record.creditedAt ? { creditedAt: record.creditedAt } : {})
+  };
+}
+
+export async function submitFundingClaim(input: {
+  store: LedgerStore;
+  nullifier: Hex;
+  encryptedReceipt: Hex;
+  fundingKey: FundingKeyConfig;
+}): Promise<FundingClaimResponseV1> {
+  const nullifier = normalizeHex(input.nullifier);
+  const receipt = decryptFundingReceipt({
+    encryptedReceipt: input.encryptedReceipt,
+    recipientPrivateKey: input.fundingKey.receiptPrivateKey,
+    nullifier
+  });
+  const amount = parseUint64(receipt.amountMicros, 'receipt.amountMicros');
+  if (amount <= 0n) {
+    throw new Error('funding amountMicros must be > 0');
+  }
+  const merchantCommitment = deriveFundingCommitment({
+    amount,
+    rho: normalizeHex(receipt.rho),
+    pkHash: input.fundingKey.pkHash
+  });
+  const agentId = normalizeHex(receipt.agentId);
+
+  return input.store.transaction(async (tx) => {
+    await tx.ensureFundingDeposit({
+      nullifier,
+      agentId,
+      amountMicros: amount.toString(),
+      merchantCommitment,
+      status: 'PENDING',
+      submittedAt: nowSeconds().toString(),
+      spentTxHash: null,
+      spentBlockNumber: null,
+      creditedAt: null,
+      rejectionReason: null
+    });
+    const deposit = await tx.getFundingDeposit(nullifier, merchantCommitment);
+    if (!deposit) throw new Error('funding deposit missing after insert');
+    if (deposit.agentId !== agentId) {
+      throw new Error('nullifier already claimed with a different funding receipt');
+    }
+    return toFundingResponse(deposit);
+  });
+}
+
+/** The agent's own claim on `nullifier`; claims by other agents are reported as not found. */
+export async function getFundingDeposit(input: {
+  store: LedgerStore;
+  agentId: Hex;
+  nullifier: Hex;
+}): Promise<FundingClaimResponseV1> {
+  const agentId = normalizeHex(input.agentId);
+  const claims = await input.store.read((tx) => tx.listFundingDeposits(normalizeHex(input.nullifier)));
+  const own = claims.filter((claim) => claim.agentId === agentId);
+  const deposit = own.find((claim) => claim.status === 'CREDITED') ?? own[0];
+  if (!deposit) throw new Error('funding deposit not found');
+  return toFundingResponse(deposit);
+}
+
+/**
+ * Applies one observed `Spent` event to the claims on its nullifier. Anyone can encrypt a receipt
+ * to the funding key, so a nullifier may carry several claims: only the one whose commitment and
+ * amount match the spend is credited, and the rest are rejected. The status transitions and the
+ * agent credit happen in one transaction, so a nullifier credits at most once.
+ */
+export async function applySpentEvent(input: {
+  store: LedgerStore;
+  event: SpentEvent;
+}): Promise<{ credited: boolean; rejected: number; status: FundingStatus }> {
+  const now = nowSeconds();
+  const merchantCommitment = normalizeHex(input.event.merchantCommitment);
+  return input.store.transaction(async (tx) => {
+    const claims = await tx.listFundingDeposits(normalizeHex(input.event.nullifier));
+    if (claims.length === 0) throw new Error('funding deposit not found');
+
+    const spent = { spentTxHash: input.event.txHash, spentBlockNumber: input.event.blockNumber.toString() };
+    let credited = false;
+    let rejected = 0;
+    let status: FundingStatus = 'REJECTED';
+    for (const claim of claims) {
+      const matches = claim.merchantCommitment === merchantCommitment;
+      if (claim.status !== 'PENDING') {
+        if (matches) status = claim.status;
+        continue;
+      }
+
+      let rejection: string | undefined;
+      if (!matches) {
+        rejection = 'merchant commitment is not addressed to the funding key';
+      } else if (input.event.amount !== BigInt(claim.amountMicros)) {
+        rejection = 'spent amount does not match funding receipt';
+      }
+      if (rejection) {
+        await tx.settleFundingDeposit(claim.nullifier, claim.merchantCommitment, {
+          status: 'REJECTED',
+          ...spent,
+          rejectionReason: rejection
+        });
+        rejected += 1;
+        continue;
+      }
+
+      await creditAgentBalance(tx, { agentId: claim.agentId, amountMicros: input.event.amount, now });
+      await tx.settleFundingDeposit(claim.nullifier, claim.merchantCommitment, {
+        status: 'CREDITED',
+        ...spent,
+        creditedAt: now.toString()
+      });
+      credited = true;
+      status = 'CREDITED';
+    }
+    return { credited, rejected, status };
+  });
+}
+
+/**
+ * Checks one batch of pending nullifiers against the chain. Scanned claims move to the back
+ * of the queue, so claims for nullifiers that are never spent cannot starve newer ones.
+ */
+export async function runFundingScan(input: {
+  store: LedgerStore;
+  logSource: FundingLogSource;
+  batchSize?: number;
+}): Promise<{ scanned: number; credited: number; rejected: number }> {
+  const pending = await input.store.read((tx) => tx.listPendingFundingDeposits(input.batchSize ?? 200));
+  if (pending.length === 0) {
+    return { scanned: 0, credited: 0, rejected: 0 };
+  }
+  const events = await input.logSource.getSpentEvents(pending);
+  await input.store.transaction((tx) => tx.markFundingDepositsScanned(pending, nowSeconds().toString()));
+  let credited = 0;
+  let rejected = 0;
+  for (const event of events) {
+    const result = await applySpentEvent({ store: input.store, event });
+    if (result.credited) credited += 1;
+    rejected += result.rejected;
+  }
+  return { scanned: pending.length, credited, rejected };
+}
+
+export function createViemFundingLogSource(config: {
+  rpcUrl: string;
+  shieldedPoolAddress: Hex;
+  fromBlock: bigint;
+  confirmations: bigint;
+}): FundingLogSource {
+  const client: PublicClient = createPublicClient({ transport: http(config.rpcUrl) });
+
+  return {
+    async getSpentEvents(nullifiers) {
+      if (nullifiers.length === 0) return [];
+      const latest = await client.getBlockNumber();
+      const toBlock = latest - config.confirmations;
+      if (toBlock < config.fromBlock) return [];
+      const logs = await client.getLogs({
+        address: config.shieldedPoolAddress,
+        event: shieldedPoolSpentEventAbi,
+        args: { nullifier: [...nullifiers] },
+        fromBlock: config.fromBlock,
+        toBlock,
+        strict: true
+      });
+      return logs.map((log) => ({
+        nullifier: normalizeHex(log.args.nullifier),
+        merchantCommitment: normalizeHex(log.args.merchantCommitment),
+        amount: log.args.amount,
+        txHash: normalizeHex(log.transactionHash),
+        blockNumber: log.blockNumber
+      }));
+    }
+  };
+}
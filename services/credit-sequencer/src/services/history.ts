@@ -0,0 +1,83 @@
+import {
+  normalizeHex,
+  type AuthorizationHistoryItemV1,
+  type AuthorizationHistoryPageV1,
+  type AuthorizationHistoryQueryV1,
+  type FailedExecutionAttemptV1,
+  type Hex
+} from '@shielded-x402/shared-types';
+import type { LedgerStore } from '../store/ledgerStore.js';
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Lists an agent's authorizations newest first, paging on `log_seq_no`. Each item
+ * carries its execution record, if any, and every FAILED execution attempt.
+ */
+export async function listAgentAuthorizations(input: {
+  store: LedgerStore;
+  agentId: Hex;
+  query: AuthorizationHistoryQueryV1;
+}): Promise<AuthorizationHistoryPageV1> {
+  const limit = input.query.limit ?? DEFAULT_HISTORY_PAGE_SIZE;
+  const { query } = input;
+  const { page, attempts } = await input.store.read(async (tx) => {
+    const page = await tx.listAgentAuthorizations(
+      normalizeHex(input.agentId),
+      {
+        ...(query.status ? { status: query.status } : {}),
+        ...(query.chainRef ? { chainRef: query.chainRef } : {}),
+        ...(query.merchantId ? { merchantId: normalizeHex(query.merchantId) } : {}),
+        ...(query.fromIssuedAt ? { fromIssuedAt: query.fromIssuedAt } : {}),
+        ...(query.toIssuedAt ? { toIssuedAt: query.toIssuedAt } : {}),
+        ...(query.cursor ? { beforeLogSeqNo: query.cursor } : {})
+      },
+      limit + 1
+    );
+    const authIds = page.slice(0, limit).map((row) => row.authorization.authId);
+    return { page, attempts: await tx.listFailedExecutionAttempts(authIds) };
+  });
+  const hasMore = page.length > limit;
+  const rows = hasMore ? page.slice(0, limit) : page;
+
+  const attemptsByAuthId = new Map<string, FailedExecutionAttemptV1[]>();
+  for (const attempt of attempts) {
+    const list = attemptsByAuthId.get(attempt.authId) ?? [];
+    list.push({
+      reportId: normalizeHex(attempt.reportId),
+      executionTxHash: attempt.txHash,
+      reporterKeyId: attempt.reporterKeyId,
+      reportedAt: attempt.reportedAt
+    });
+    attemptsByAuthId.set(attempt.authId, list);
+  }
+
+  const items: AuthorizationHistoryItemV1[] = rows.map(({ authorization: row, execution }) => ({
+    authorization: row.authorization,
+    sequencerSig: normalizeHex(row.sequencerSig),
+    ...(row.balanceReceipt && row.balanceReceiptSig
+      ? { balanceReceipt: row.balanceReceipt, balanceReceiptSig: normalizeHex(row.balanceReceiptSig) }
+      : {}),
+    status: row.status,
+    executedAt: row.executedAt,
+    reclaimedAt: row.reclaimedAt,
+    // Only successful reports record an execution; failed ones stay attempts.
+    execution: execution
+      ? {
+          chainRef: execution.chainRef,
+          executionTxHash: execution.executionTxHash,
+          status: 'SUCCESS',
+          executedAmountMicros: execution.executedAmountMicros,
+          relayerKeyId: execution.relayerKeyId,
+          reportedAt: execution.reportedAt
+        }
+      : null,
+    failedAttempts: attemptsByAuthId.get(row.authId) ?? []
+  }));
+
+  const last = rows[rows.length - 1];
+  return {
+    items,
+    nextCursor: hasMore && last ? last.authorization.logSeqNo : null
+  };
+}
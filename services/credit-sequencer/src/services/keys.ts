@@ -0,0 +1,166 @@
+import {
+  hashSequencerKeySet,
+  normalizeHex,
+  type Hex,
+  type SequencerKeySetV1,
+  type SequencerKeyV1,
+  type SignedSequencerKeySetV1
+} from '@shielded-x402/shared-types';
+import { createPublicKey, sign, type KeyObject } from 'node:crypto';
+import { createEd25519PrivateKeyFromSeed, extractEd25519RawPublicKey } from '../crypto.js';
+import { parseSequencerPrivateKey } from '../lib.js';
+import type { LedgerStore } from '../store/ledgerStore.js';
+
+export interface SequencerSigningKey {
+  keyId: string;
+  privateKey: KeyObject;
+  publicKey: Hex;
+  activatesAt: bigint;
+  retiresAt: bigint | null;
+}
+
+function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+function toSigningKey(input: {
+  keyId: string;
+  privateKey: string;
+  activatesAt: bigint;
+  retiresAt: bigint | null;
+}): SequencerSigningKey {
+  const privateKey = createEd25519PrivateKeyFromSeed(parseSequencerPrivateKey(input.privateKey));
+  return {
+    keyId: input.keyId,
+    privateKey,
+    publicKey: extractEd25519RawPublicKey(createPublicKey(privateKey)),
+    activatesAt: input.activatesAt,
+    retiresAt: input.retiresAt
+  };
+}
+
+/**
+ * Loads the signing key ring from `SEQUENCER_SIGNING_KEYS_JSON`
+ * (`[{ keyId, privateKey, activatesAt?, retiresAt? }]`), falling back to the single
+ * `SEQUENCER_SIGNING_KEY_ID` / `SEQUENCER_SIGNING_PRIVATE_KEY` pair.
+ */
+export function parseSequencerSigningKeysEnv(input: {
+  keysJson: string | undefined;
+  keyId: string | undefined;
+  privateKey: string | undefined;
+}): SequencerSigningKey[] {
+  if (!input.keysJson) {
+    if (!input.privateKey) {
+      throw new Error('SEQUENCER_SIGNING_PRIVATE_KEY or SEQUENCER_SIGNING_KEYS_JSON is required');
+    }
+    return [
+      toSigningKey({
+        keyId: input.keyId ?? 'seq-key-1',
+        privateKey: input.privateKey,
+        activatesAt: 0n,
+        retiresAt: null
+      })
+    ];
+  }
+
+  const parsed = JSON.parse(input.keysJson) as unknown;
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('SEQUENCER_SIGNING_KEYS_JSON must be a non-empty array');
+  }
+  const keys = parsed.map((entry: unknown) => {
+    const value = entry as Record<string, unknown>;
+    if (typeof value?.keyId !== 'string' || typeof value.privateKey !== 'string') {
+      throw new Error('SEQUENCER_SIGNING_KEYS_JSON entries require keyId and privateKey');
+    }
+    const activatesAt = BigInt(String(value.activatesAt ?? '0'));
+    const retiresAt = value.retiresAt === undefined || value.retiresAt === null ? null : BigInt(String(value.retiresAt));
+    if (retiresAt !== null && retiresAt <= activatesAt) {
+      throw new Error(`sequencer key ${value.keyId} retiresAt must be after activatesAt`);
+    }
+    return toSigningKey({ keyId: value.keyId, privateKey: value.privateKey, activatesAt, retiresAt });
+  });
+  if (new Set(keys.map((key) => key.keyId)).size !== keys.length) {
+    throw new Error('SEQUENCER_SIGNING_KEYS_JSON has duplicate keyId');
+  }
+  return keys;
+}
+
+function isActiveAt(key: { activatesAt: bigint; retiresAt: bigint | null }, now: bigint): boolean {
+  return key.activatesAt <= now && (key.retiresAt === null || now < key.retiresAt);
+}
+
+/** Returns the most recently activated key that is active at `now`. */
+export function selectSigningKey(keys: readonly SequencerSigningKey[], now: bigint): SequencerSigningKey {
+  let selected: SequencerSigningKey | undefined;
+  for (const key of keys) {
+    if (!isActiveAt(key, now)) continue;
+    if (!selected || key.activatesAt > selected.activatesAt) selected = key;
+  }
+  if (!selected) {
+    throw new Error('no active sequencer signing key');
+  }
+  return selected;
+}
+
+/**
+ * Records public keys in the registry. Registry rows outlive the private keys, so
+ * authorizations signed by a key removed from config still verify against `/v1/keys`.
+ */
+export async function registerSequencerKeys(store: LedgerStore, keys: readonly SequencerSigningKey[]): Promise<void> {
+  const now = nowSeconds().toString();
+  await store.transaction(async (tx) => {
+    for (const key of keys) {
+      await tx.putSequencerKey({
+        keyId: key.keyId,
+        publicKey: key.publicKey,
+        activatesAt: key.activatesAt.toString(),
+        retiresAt: key.retiresAt?.toString() ?? null,
+        createdAt: now
+      });
+      const stored = await tx.getSequencerKey(key.keyId);
+      if (stored && normalizeHex(stored.publicKey) !== key.publicKey) {
+        throw new Error(`sequencer key ${key.keyId} already registered with a different public key`);
+      }
+    }
+  });
+}
+
+/**
+ * Builds the published key set. It is signed by the key that preceded the current one
+ * when that key is still loaded, so relayers pinned to the old key can adopt the new one.
+ */
+export async function buildSignedKeySet(input: {
+  store: LedgerStore;
+  keys: readonly SequencerSigningKey[];
+  now?: bigint;
+}): Promise<SignedSequencerKeySetV1> {
+  const now = input.now ?? nowSeconds();
+  const current = selectSigningKey(input.keys, now);
+  const stored = await input.store.read((tx) => tx.listSequencerKeys());
+  const registry: SequencerKeyV1[] = stored.map((key) => ({
+    keyId: key.keyId,
+    publicKey: key.publicKey,
+    activatesAt: key.activatesAt,
+    retiresAt: key.retiresAt
+  }));
+
+  let signer = current;
+  for (const key of input.keys) {
+    if (key.activatesAt < current.activatesAt && (signer === current || key.activatesAt > signer.activatesAt)) {
+      signer = key;
+    }
+  }
+
+  const keySet: SequencerKeySetV1 = {
+    version: 1,
+    currentKeyId: current.keyId,
+    issuedAt: now.toString(),
+    keys: registry
+  };
+  const digest = Buffer.from(hashSequencerKeySet(keySet).slice(2), 'hex');
+  return {
+    keySet,
+    signerKeyId: signer.keyId,
+    signature: (`0x${sign(null, digest, signer.privateKey).toString('hex')}` as Hex)
+  };
+}
@@ -0,0 +1,112 @@
+import type { Pool } from 'pg';
+
+export interface LeaderState {
+  instanceId: string;
+  isLeader: boolean;
+  holderId: string | null;
+  term: string | null;
+  expiresAt: string | null;
+}
+
+export interface LeaderElector {
+  /** Acquires or renews the lease; returns whether this instance now leads. */
+  tick(): Promise<boolean>;
+  isLeader(): boolean;
+  state(): LeaderState;
+  /** Gives up the lease so another replica can take over without waiting for expiry. */
+  release(): Promise<void>;
+}
+
+/**
+ * Lease-based leader election over the `sequencer_leader_lease` row. Every replica serves
+ * requests; only the lease holder runs background loops. Lease times come from the database
+ * clock so replicas never compare their own clocks. Locally, leadership is dropped as soon as
+ * the lease would have expired since the last successful renewal, even if the database is
+ * unreachable, so two replicas never both believe they lead.
+ */
+export function createLeaderElector(config: {
+  pool: Pool;
+  instanceId: string;
+  leaseSeconds: number;
+}): LeaderElector {
+  const leaseSeconds = Math.max(5, Math.floor(config.leaseSeconds));
+  let holderId: string | null = null;
+  let term: string | null = null;
+  let expiresAt: string | null = null;
+  let leaderUntilMs = 0;
+
+  const isLeader = (): boolean => holderId === config.instanceId && Date.now() < leaderUntilMs;
+
+  return {
+    async tick() {
+      const startedAtMs = Date.now();
+      const acquired = await config.pool.query<{ holder_id: string; term: string; expires_at: string }>(
+        `WITH db_now AS (SELECT FLOOR(EXTRACT(EPOCH FROM clock_timestamp()))::bigint AS ts)
+         INSERT INTO sequencer_leader_lease AS lease(singleton, holder_id, term, acquired_at, renewed_at, expires_at)
+         SELECT TRUE, $1, 1, ts, ts, ts + $2 FROM db_now
+         ON CONFLICT (singleton) DO UPDATE
+         SET holder_id = EXCLUDED.holder_id,
+             term = CASE WHEN lease.holder_id = EXCLUDED.holder_id THEN lease.term ELSE lease.term + 1 END,
+             acquired_at = CASE WHEN lease.holder_id = EXCLUDED.holder_id THEN lease.acquired_at ELSE EXCLUDED.acquired_at END,
+             renewed_at = EXCLUDED.renewed_at,
+             expires_at = EXCLUDED.expires_at
+         WHERE lease.holder_id = EXCLUDED.holder_id OR lease.expires_at <= EXCLUDED.renewed_at
+         RETURNING holder_id, term::text AS term, expires_at::text AS expires_at`,
+        [config.instanceId, leaseSeconds]
+      );
+      const row =
+        acquired.rows[0] ??
+        (
+          await config.pool.query<{ holder_id: string; term: string; expires_at: string }>(
+            `SELECT holder_id, term::text AS term, expires_at::text AS expires_at
+             FROM sequencer_leader_lease
+             WHERE singleton = TRUE`
+          )
+        ).rows[0];
+      const wasLeader = isLeader();
+      holderId = row?.holder_id ?? null;
+      term = row?.term ?? null;
+      expiresAt = row?.expires_at ?? null;
+      // Measured from before the query and one second short, since the stored expiry is floored
+      // to whole seconds: local leadership never outlives the lease another replica can take.
+      leaderUntilMs = acquired.rows[0] ? startedAtMs + (leaseSeconds - 1) * 1000 : 0;
+      const leading = isLeader();
+      if (leading !== wasLeader) {
+        console.log(
+          `[sequencer] ${leading ? 'acquired' : 'lost'} leadership instance=${config.instanceId} term=${term ?? 'none'}`
+        );
+      }
+      return leading;
+    },
+    isLeader,
+    state() {
+      return { instanceId: config.instanceId, isLeader: isLeader(), holderId, term, expiresAt };
+    },
+    async release() {
+      leaderUntilMs = 0;
+      // Expire rather than delete, so the next holder's term still increases.
+      await config.pool.query(
+        `UPDATE sequencer_leader_lease
+         SET expires_at = 0
+         WHERE singleton = TRUE AND holder_id = $1`,
+        [config.instanceId]
+      );
+    }
+  };
+}
+
+/**
+ * Leader for a sequencer whose ledger lives in its own process (the memory store): there is no
+ * other replica to share the ledger with, so this instance always leads.
+ */
+export function createSingleInstanceLeader(instanceId: string): LeaderElector {
+  const state = (): LeaderState => ({ instanceId, isLeader: true, holderId: instanceId, term: '1', expiresAt: null });
+  return {
+    async tick() {
+      return true;
+    },
+    isLeader: () => true,
+    state,
+    async release() {}
+  };
+}
@@ -4,7 +4,10 @@ import type { Pool, PoolClient, QueryResult } from 'pg';
 vi.mock(
   '@shielded-x402/shared-types',
   () => ({
+    MAX_NONCE_LANE: 255,
+    buildAgentQueryTypedDataPayload: () => ({}),
     buildIntentTypedDataPayload: () => ({}),
+    canonicalAgentQueryBytes: () => Buffer.from([]),
     canonicalExecutionReportBytes: () => Buffer.from([]),
     canonicalIntentBytes: () => Buffer.from([]),
     canonicalReclaimRequestBytes: () => Buffer.from([]),
@@ -13,6 +16,7 @@ vi.mock(
     deriveAuthorizationId: () => ('0x' + '00'.repeat(32)) as `0x${string}`,
     deriveLeafSalt: () => ('0x' + '00'.repeat(32)) as `0x${string}`,
     hashAuthorization: () => ('0x' + '00'.repeat(32)) as `0x${string}`,
+    hashBalanceReceipt: () => ('0x' + '00'.repeat(32)) as `0x${string}`,
     hashIntent: () => ('0x' + '00'.repeat(32)) as `0x${string}`,
     normalizeHex: (value: string) => value.toLowerCase()
   }),
@@ -23,6 +27,8 @@ vi.mock('../crypto.js', () => ({
   recoverTypedDataAddressRuntime: async () => '0x' + '00'.repeat(20),
   sha256: () => Buffer.from([]),
   signAuthorization: () => ('0x' + '11'.repeat(64)) as `0x${string}`,
+  signBalanceReceipt: () => ('0x' + '22'.repeat(64)) as `0x${string}`,
+  verifyAgentSignature: async () => undefined,
   verifyEd25519Signature: () => true
 }));
 
@@ -60,17 +66,22 @@ function createMockPool(steps: MockStep[]): Pool {
   return {
     async connect(): Promise<PoolClient> {
       return client;
-    }
+    },
+    query: client.query
   } as unknown as Pool;
 }
 
 let recordExecution: typeof import('./ledger.js').recordExecution;
 let reclaimAuthorization: typeof import('./ledger.js').reclaimAuthorization;
+let verifyAgentQuery: typeof import('./ledger.js').verifyAgentQuery;
+let createPostgresLedgerStore: typeof import('../store/postgresLedgerStore.js').createPostgresLedgerStore;
 
 beforeAll(async () => {
   const mod = await import('./ledger.js');
+  createPostgresLedgerStore = (await import('../store/postgresLedgerStore.js')).createPostgresLedgerStore;
   recordExecution = mod.recordExecution;
   reclaimAuthorization = mod.reclaimAuthorization;
+  verifyAgentQuery = mod.verifyAgentQuery;
 });
 
 describe('ledger service', () => {
@@ -83,7 +94,10 @@ describe('ledger service', () => {
             status: 'ISSUED',
             chain_ref: 'solana:devnet',
             execution_grace_until: '9999999999',
-            auth_id: '0x' + '11'.repeat(32)
+            issued_at: '1',
+            auth_id: '0x' + '11'.repeat(32),
+            agent_id: '0x' + '44'.repeat(32),
+            amount_micros: '1000'
           }
         ]
       },
@@ -95,12 +109,14 @@ describe('ledger service', () => {
 
     await expect(
       recordExecution({
-        pool,
+        store: createPostgresLedgerStore(pool),
         report: {
+          version: 2,
           authId: ('0x' + '11'.repeat(32)) as `0x${string}`,
           chainRef: 'solana:devnet',
           executionTxHash: 'abc123',
           status: 'SUCCESS',
+          executedAmountMicros: '1000',
           reportId: ('0x' + '22'.repeat(32)) as `0x${string}`,
           reportedAt: '1',
           relayerKeyId: 'missing-key',
@@ -110,6 +126,125 @@ describe('ledger service', () => {
     ).rejects.toThrow('UNAUTHORIZED_REPORTER');
   });
 
+  it('rejects execution reports signed after the relayer key was revoked', async () => {
+    const pool = createMockPool([
+      {
+        contains: 'FROM authorizations',
+        rows: [
+          {
+            status: 'ISSUED',
+            chain_ref: 'solana:devnet',
+            execution_grace_until: '9999999999',
+            issued_at: '1',
+            auth_id: '0x' + '11'.repeat(32),
+            agent_id: '0x' + '44'.repeat(32),
+            amount_micros: '1000'
+          }
+        ]
+      },
+      {
+        contains: 'FROM relayer_keys',
+        rows: [{ public_key: '0x' + '66'.repeat(32), status: 'REVOKED', revoked_at: '100' }]
+      }
+    ]);
+
+    await expect(
+      recordExecution({
+        store: createPostgresLedgerStore(pool),
+        report: {
+          version: 2,
+          authId: ('0x' + '11'.repeat(32)) as `0x${string}`,
+          chainRef: 'solana:devnet',
+          executionTxHash: 'abc123',
+          status: 'SUCCESS',
+          executedAmountMicros: '1000',
+          reportId: ('0x' + '22'.repeat(32)) as `0x${string}`,
+          reportedAt: '100',
+          relayerKeyId: 'compromised-key',
+          reportSig: ('0x' + '33'.repeat(64)) as `0x${string}`
+        }
+      })
+    ).rejects.toThrow('UNAUTHORIZED_REPORTER');
+  });
+
+  it('rejects backdated execution reports from a revoked relayer key', async () => {
+    const authorizationRow = {
+      status: 'ISSUED',
+      chain_ref: 'solana:devnet',
+      execution_grace_until: '9999999999',
+      issued_at: '50',
+      auth_id: '0x' + '11'.repeat(32),
+      agent_id: '0x' + '44'.repeat(32),
+      amount_micros: '1000'
+    };
+    const report = {
+      version: 2 as const,
+      authId: ('0x' + '11'.repeat(32)) as `0x${string}`,
+      chainRef: 'solana:devnet',
+      executionTxHash: 'abc123',
+      status: 'SUCCESS' as const,
+      executedAmountMicros: '1000',
+      reportId: ('0x' + '22'.repeat(32)) as `0x${string}`,
+      reportedAt: '99',
+      relayerKeyId: 'compromised-key',
+      reportSig: ('0x' + '33'.repeat(64)) as `0x${string}`
+    };
+
+    // Stamped before the revocation, but signed long after any in-flight window.
+    const stale = createMockPool([
+      { contains: 'FROM authorizations', rows: [authorizationRow] },
+      {
+        contains: 'FROM relayer_keys',
+        rows: [{ public_key: '0x' + '66'.repeat(32), status: 'REVOKED', revoked_at: '100' }]
+      }
+    ]);
+    await expect(recordExecution({ store: createPostgresLedgerStore(stale), report })).rejects.toThrow(
+      'UNAUTHORIZED_REPORTER'
+    );
+
+    const beforeIssue = createMockPool([{ contains: 'FROM authorizations', rows: [authorizationRow] }]);
+    await expect(
+      recordExecution({ store: createPostgresLedgerStore(beforeIssue), report: { ...report, reportedAt: '49' } })
+    ).rejects.toThrow('execution report reportedAt precedes authorization');
+  });
+
+  it('rejects execution reports capturing more than the authorized amount', async () => {
+    const pool = createMockPool([
+      {
+        contains: 'FROM authorizations',
+        rows: [
+          {
+            status: 'ISSUED',
+            chain_ref: 'solana:devnet',
+            execution_grace_until: '9999999999',
+            issued_at: '1',
+            auth_id: '0x' + '11'.repeat(32),
+            agent_id: '0x' + '44'.repeat(32),
+            amount_micros: '1000'
+          }
+        ]
+      }
+    ]);
+
+    await expect(
+      recordExecution({
+        store: createPostgresLedgerStore(pool),
+        report: {
+          version: 2,
+          authId: ('0x' + '11'.repeat(32)) as `0x${string}`,
+          chainRef: 'solana:devnet',
+          executionTxHash: 'abc123',
+          status: 'SUCCESS',
+          executedAmountMicros: '1001',
+          reportId: ('0x' + '22'.repeat(32)) as `0x${string}`,
+          reportedAt: '1',
+          relayerKeyId: 'relayer-key-1',
+          reportSig: ('0x' + '33'.repeat(64)) as `0x${string}`
+        }
+      })
+    ).rejects.toThrow('executedAmountMicros exceeds authorized amount');
+  });
+
   it('hard-fails reclaim when outstanding debit is below authorization amount', async () => {
     const pool = createMockPool([
       {
@@ -138,7 +273,7 @@ describe('ledger service', () => {
 
     await expect(
       reclaimAuthorization({
-        pool,
+        store: createPostgresLedgerStore(pool),
         request: {
           authId: ('0x' + '11'.repeat(32)) as `0x${string}`,
           callerType: 'sequencer',
@@ -150,4 +285,45 @@ describe('ledger service', () => {
       })
     ).rejects.toThrow('INVARIANT_VIOLATION outstanding balance lower than reclaim amount');
   });
+
+  it('rejects agent queries outside the freshness window', async () => {
+    const pool = createMockPool([]);
+
+    await expect(
+      verifyAgentQuery({
+        store: createPostgresLedgerStore(pool),
+        query: {
+          agentId: ('0x' + '44'.repeat(32)) as `0x${string}`,
+          resource: '/v1/credit/agents/0x' + '44'.repeat(32),
+          requestedAt: String(Math.floor(Date.now() / 1000) - 600)
+        },
+        agentSig: ('0x' + '55'.repeat(64)) as `0x${string}`,
+        maxSkewSeconds: 60n
+      })
+    ).rejects.toThrow('unauthorized agent query: requestedAt outside allowed window');
+  });
+
+  it('rejects presented agent keys that do not hash to the queried agentId', async () => {
+    const pool = createMockPool([
+      {
+        contains: 'FROM agents',
+        rows: [{ agent_pub_key: null, signature_scheme: null }]
+      }
+    ]);
+
+    await expect(
+      verifyAgentQuery({
+        store: createPostgresLedgerStore(pool),
+        query: {
+          agentId: ('0x' + '44'.repeat(32)) as `0x${string}`,
+          resource: '/v1/credit/agents/0x' + '44'.repeat(32),
+          requestedAt: String(Math.floor(Date.now() / 1000))
+        },
+        agentSig: ('0x' + '55'.repeat(64)) as `0x${string}`,
+        maxSkewSeconds: 60n,
+        presentedPubKey: ('0x' + '66'.repeat(32)) as `0x${string}`,
+        presentedSignatureScheme: 'ed25519-sha256-v1'
+      })
+    ).rejects.toThrow('unauthorized agent query: agentId does not match presented public key');
+  });
 });
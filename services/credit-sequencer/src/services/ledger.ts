@@ -1,44 +1,46 @@
 import {
+  buildAgentQueryTypedDataPayload,
   buildReclaimTypedDataPayload,
   buildIntentTypedDataPayload,
+  canonicalAgentQueryBytes,
   canonicalExecutionReportBytes,
   canonicalIntentBytes,
   canonicalReclaimRequestBytes,
   computeAuthorizationLeaf,
+  computeFeeMicros,
   deriveAgentIdFromPubKey,
   deriveAuthorizationId,
   deriveLeafSalt,
   hashAuthorization,
+  hashBalanceReceipt,
   hashIntent,
   normalizeHex,
-  type AuthorizationStatus,
+  type AgentAccountV1,
+  type AgentQueryV1,
   type AuthorizationV1,
   type AuthorizeResponseV1,
+  type BalanceReceiptV1,
   type ExecutionReportV1,
   type Hex,
   type IntentV1,
   type ReclaimRequestV1
 } from '@shielded-x402/shared-types';
 import { type KeyObject } from 'node:crypto';
-import { type Pool, type PoolClient } from 'pg';
 import {
   recoverTypedDataAddressRuntime,
   sha256,
   signAuthorization,
+  signBalanceReceipt,
+  verifyAgentSignature,
   verifyEd25519Signature
 } from '../crypto.js';
 import { normalizeExecutionTxHash, parseUint64 } from '../validation.js';
+import type { FeeSchedule } from './fees.js';
+import { enforceAgentPolicy } from './policies.js';
+import { isRelayerKeyUsableAt } from './relayerKeys.js';
+import type { AgentRecord, LedgerStore, LedgerTx } from '../store/ledgerStore.js';
 
-interface DbAuthorizationRow {
-  auth_id: Hex;
-  request_id: Hex;
-  intent_hash: Hex;
-  authorization_json: AuthorizationV1;
-  sequencer_sig: Hex;
-  status: AuthorizationStatus;
-  expires_at: string;
-  execution_grace_until: string;
-}
+const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
 
 function nowSeconds(): bigint {
   return BigInt(Math.floor(Date.now() / 1000));
@@ -86,10 +88,14 @@ function verifyExecutionReportSignature(input: {
 }): void {
   const messageHash = sha256(
     canonicalExecutionReportBytes({
+      version: input.report.version,
       authId: input.report.authId,
       chainRef: input.report.chainRef,
       executionTxHash: input.report.executionTxHash,
       status: input.report.status,
+      ...(input.report.executedAmountMicros !== undefined
+        ? { executedAmountMicros: input.report.executedAmountMicros }
+        : {}),
       reportId: input.report.reportId,
       reportedAt: input.report.reportedAt,
       relayerKeyId: input.report.relayerKeyId
@@ -106,7 +112,7 @@ function verifyExecutionReportSignature(input: {
 }
 
 async function verifyAgentReclaimSignature(input: {
-  poolClient: PoolClient;
+  tx: LedgerTx;
   request: ReclaimRequestV1;
   authAgentId: Hex;
 }): Promise<void> {
@@ -116,78 +122,192 @@ async function verifyAgentReclaimSignature(input: {
   if (normalizeHex(input.request.agentId) !== normalizeHex(input.authAgentId)) {
     throw new Error('agent reclaim caller mismatch');
   }
-  const agentRes = await input.poolClient.query<{
-    agent_pub_key: string | null;
-    signature_scheme: IntentV1['signatureScheme'] | null;
-  }>(
-    `SELECT agent_pub_key, signature_scheme
-     FROM agents
-     WHERE agent_id = $1
-     FOR UPDATE`,
-    [input.authAgentId]
-  );
-  const agent = agentRes.rows[0];
-  if (!agent?.agent_pub_key || !agent.signature_scheme) {
+  const agent = await input.tx.getAgent(input.authAgentId);
+  if (!agent?.agentPubKey || !agent.signatureScheme) {
     throw new Error('agent signing metadata missing');
   }
-  if (agent.signature_scheme === 'ed25519-sha256-v1') {
-    const messageHash = sha256(
-      canonicalReclaimRequestBytes({
-        authId: input.request.authId,
-        callerType: input.request.callerType,
-        agentId: input.request.agentId,
-        requestedAt: input.request.requestedAt
-      })
-    );
-    const valid = verifyEd25519Signature({
-      messageHash,
-      signature: input.request.agentSig,
-      publicKey: normalizeHex(agent.agent_pub_key)
-    });
-    if (!valid) {
-      throw new Error('invalid agent reclaim signature');
+  const payload = {
+    authId: input.request.authId,
+    callerType: input.request.callerType,
+    agentId: input.request.agentId,
+    requestedAt: input.request.requestedAt
+  };
+  await verifyAgentSignature({
+    signatureScheme: agent.signatureScheme,
+    agentPubKey: normalizeHex(agent.agentPubKey),
+    signature: input.request.agentSig,
+    canonicalBytes: canonicalReclaimRequestBytes(payload),
+    typedData: buildReclaimTypedDataPayload(payload),
+    label: 'reclaim'
+  });
+}
+
+
+/**
+ * Authenticates a read-only agent query. The agent's registered key and scheme are
+ * used when present; an agent that has been funded but has not yet authorized may
+ * present its key, which must hash to `agentId`.
+ */
+export async function verifyAgentQuery(input: {
+  store: LedgerStore;
+  query: AgentQueryV1;
+  agentSig: Hex;
+  maxSkewSeconds: bigint;
+  presentedPubKey?: Hex;
+  presentedSignatureScheme?: IntentV1['signatureScheme'];
+}): Promise<void> {
+  const now = nowSeconds();
+  const requestedAt = parseUint64(input.query.requestedAt, 'query.requestedAt');
+  if (requestedAt > now + input.maxSkewSeconds || requestedAt + input.maxSkewSeconds < now) {
+    throw new Error('unauthorized agent query: requestedAt outside allowed window');
+  }
+
+  const agent = await input.store.read((tx) => tx.getAgent(normalizeHex(input.query.agentId)));
+  let agentPubKey = agent?.agentPubKey ? normalizeHex(agent.agentPubKey) : undefined;
+  let signatureScheme = agent?.signatureScheme ?? undefined;
+  if (!agentPubKey || !signatureScheme) {
+    if (!input.presentedPubKey || !input.presentedSignatureScheme) {
+      throw new Error('unauthorized agent query: agent signing metadata missing');
     }
-    return;
+    if (
+      normalizeHex(deriveAgentIdFromPubKey(input.presentedPubKey)) !==
+      normalizeHex(input.query.agentId)
+    ) {
+      throw new Error('unauthorized agent query: agentId does not match presented public key');
+    }
+    agentPubKey = normalizeHex(input.presentedPubKey);
+    signatureScheme = input.presentedSignatureScheme;
   }
 
-  if (agent.signature_scheme === 'eip712-secp256k1') {
-    const payload = buildReclaimTypedDataPayload({
-      authId: input.request.authId,
-      callerType: input.request.callerType,
-      agentId: input.request.agentId,
-      requestedAt: input.request.requestedAt
-    });
-    const recovered = await recoverTypedDataAddressRuntime({
-      ...payload,
-      signature: input.request.agentSig
+  try {
+    await verifyAgentSignature({
+      signatureScheme,
+      agentPubKey,
+      signature: input.agentSig,
+      canonicalBytes: canonicalAgentQueryBytes(input.query),
+      typedData: buildAgentQueryTypedDataPayload(input.query),
+      label: 'query'
     });
-    const expected = normalizeHex(agent.agent_pub_key).toLowerCase();
-    if (recovered.toLowerCase() !== expected) {
-      throw new Error('invalid agent reclaim signature');
-    }
-    return;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`unauthorized agent query: ${message}`);
   }
+}
 
-  throw new Error(`unsupported agent signature scheme for reclaim: ${agent.signature_scheme}`);
+export async function creditAgentBalance(
+  tx: LedgerTx,
+  input: { agentId: Hex; amountMicros: bigint; now: bigint }
+): Promise<void> {
+  await tx.creditAgent(input);
 }
 
-export async function withTx<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
-    const out = await fn(client);
-    await client.query('COMMIT');
-    return out;
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw error;
-  } finally {
-    client.release();
+export async function getAgentAccount(input: { store: LedgerStore; agentId: Hex }): Promise<AgentAccountV1> {
+  return input.store.read(async (tx) => {
+    const agent = await tx.getAgent(input.agentId);
+    if (!agent) {
+      throw new Error('agent not found');
+    }
+    const nonceLanes = await tx.listNonceLanes(input.agentId);
+    const openAuthorizations = await tx.countOpenAuthorizations(input.agentId);
+    return {
+      agentId: normalizeHex(agent.agentId),
+      balanceMicros: agent.balanceMicros,
+      creditedMicros: agent.creditedMicros,
+      debitedOutstandingMicros: agent.debitedOutstandingMicros,
+      withdrawnMicros: agent.withdrawnMicros,
+      nextAgentNonce: agent.nextAgentNonce,
+      nonceLanes,
+      openAuthorizations,
+      signatureScheme: agent.signatureScheme,
+      updatedAt: agent.updatedAt
+    };
+  });
+}
+
+/**
+ * Checks and advances the sequence of a nonce lane above 0. Each lane is strictly ordered on its
+ * own, so a stuck intent only blocks later intents in the same lane. The lane is packed into
+ * `agentNonce`, which keeps `UNIQUE(agent_id, agent_nonce)` as the replay backstop.
+ */
+async function advanceNonceLane(
+  tx: LedgerTx,
+  input: { agentId: Hex; nonceLane: number; laneSeq: bigint; now: bigint }
+): Promise<void> {
+  const expected = await tx.getNonceLaneSeq(input.agentId, input.nonceLane, input.now);
+  if (input.laneSeq !== expected) {
+    throw new Error(
+      `invalid lane sequence for nonceLane ${input.nonceLane}: expected ${expected}, received ${input.laneSeq}`
+    );
+  }
+  await tx.setNonceLaneSeq(input.agentId, input.nonceLane, expected + 1n, input.now);
+}
+
+/**
+ * Consumes the nonce of an authorization or withdrawal intent: lane 0 must match
+ * `next_agent_nonce`, other lanes advance their own sequence. Returns the agent's
+ * `next_agent_nonce` after this intent.
+ */
+export async function consumeAgentNonce(
+  tx: LedgerTx,
+  input: {
+    agent: AgentRecord;
+    agentId: Hex;
+    agentNonce: string;
+    nonceLane: number;
+    laneSeq: string | undefined;
+    now: bigint;
+  }
+): Promise<bigint> {
+  const incomingNonce = parseUint64(input.agentNonce, 'intent.agentNonce');
+  if (input.nonceLane === 0) {
+    const expectedNonce = BigInt(input.agent.nextAgentNonce);
+    if (incomingNonce !== expectedNonce) {
+      throw new Error(`invalid agent nonce: expected ${expectedNonce}, received ${incomingNonce}`);
+    }
+    return incomingNonce + 1n;
   }
+  await advanceNonceLane(tx, {
+    agentId: input.agentId,
+    nonceLane: input.nonceLane,
+    laneSeq: parseUint64(input.laneSeq ?? '', 'intent.laneSeq'),
+    now: input.now
+  });
+  return BigInt(input.agent.nextAgentNonce);
+}
+
+/**
+ * Signs the agent's post-debit balance for an authorization or withdrawal (`debitId`),
+ * chained to the agent's previous receipt through `prevReceiptHash`.
+ */
+export function issueBalanceReceipt(input: {
+  agent: AgentRecord;
+  agentId: Hex;
+  debitId: Hex;
+  balanceMicros: bigint;
+  debitedOutstandingMicros: bigint;
+  nextAgentNonce: bigint;
+  logSeqNo: string;
+  issuedAt: string;
+  sequencerKeyId: string;
+  sequencerPrivateKey: KeyObject;
+}): { balanceReceipt: BalanceReceiptV1; balanceReceiptSig: Hex } {
+  const balanceReceipt: BalanceReceiptV1 = {
+    version: 1,
+    agentId: input.agentId,
+    authId: input.debitId,
+    balanceMicros: input.balanceMicros.toString(),
+    debitedOutstandingMicros: input.debitedOutstandingMicros.toString(),
+    nextAgentNonce: input.nextAgentNonce.toString(),
+    logSeqNo: input.logSeqNo,
+    prevReceiptHash: input.agent.lastBalanceReceiptHash ? normalizeHex(input.agent.lastBalanceReceiptHash) : ZERO_HASH,
+    issuedAt: input.issuedAt,
+    sequencerKeyId: input.sequencerKeyId
+  };
+  return { balanceReceipt, balanceReceiptSig: signBalanceReceipt(input.sequencerPrivateKey, balanceReceipt) };
 }
 
 export async function authorizeIntent(input: {
-  pool: Pool;
+  store: LedgerStore;
   intent: IntentV1;
   agentSig: Hex;
   sequencerKeyId: string;
@@ -195,6 +315,7 @@ export async function authorizeIntent(input: {
   leafSaltSecret: Hex;
   executionGraceSeconds: bigint;
   supportedChainRefs: Set<string>;
+  feeSchedule?: FeeSchedule;
 }): Promise<AuthorizeResponseV1> {
   const now = nowSeconds();
   const intentExpiry = parseUint64(input.intent.expiresAt, 'intent.expiresAt');
@@ -205,107 +326,78 @@ export async function authorizeIntent(input: {
     throw new Error(`unsupported requiredChainRef: ${input.intent.requiredChainRef}`);
   }
   await verifyIntentSignature(input.intent, input.agentSig);
-
   const requestId = normalizeHex(input.intent.requestId);
   const intentHash = hashIntent(input.intent);
 
-  return withTx(input.pool, async (client) => {
-    await client.query(
-      `INSERT INTO agents(agent_id, updated_at)
-       VALUES ($1, $2)
-       ON CONFLICT (agent_id) DO NOTHING`,
-      [input.intent.agentId, now.toString()]
-    );
+  return input.store.transaction(async (tx) => {
+    await tx.ensureAgent(input.intent.agentId, now);
 
-    const agentRow = await client.query<{
-      balance_micros: string;
-      next_agent_nonce: string;
-      credited_micros: string;
-      debited_outstanding_micros: string;
-      agent_pub_key: string | null;
-      signature_scheme: IntentV1['signatureScheme'] | null;
-    }>(
-      `SELECT balance_micros, next_agent_nonce, credited_micros, debited_outstanding_micros, agent_pub_key, signature_scheme
-       FROM agents
-       WHERE agent_id = $1
-       FOR UPDATE`,
-      [input.intent.agentId]
-    );
-    const agent = agentRow.rows[0];
+    const agent = await tx.getAgent(input.intent.agentId);
     if (!agent) {
       throw new Error('agent account not found');
     }
-    if (
-      agent.agent_pub_key &&
-      normalizeHex(agent.agent_pub_key) !== normalizeHex(input.intent.agentPubKey)
-    ) {
+    if (agent.agentPubKey && normalizeHex(agent.agentPubKey) !== normalizeHex(input.intent.agentPubKey)) {
       throw new Error('agentPubKey mismatch for existing agent');
     }
-    if (agent.signature_scheme && agent.signature_scheme !== input.intent.signatureScheme) {
+    if (agent.signatureScheme && agent.signatureScheme !== input.intent.signatureScheme) {
       throw new Error('signatureScheme mismatch for existing agent');
     }
 
-    const idem = await client.query<{ request_id: string; intent_hash: string; auth_id: string }>(
-      `SELECT request_id, intent_hash, auth_id
-       FROM idempotency_keys
-       WHERE request_id = $1
-       FOR UPDATE`,
-      [requestId]
-    );
-
-    if (idem.rowCount && idem.rows[0]) {
-      const idemRow = idem.rows[0];
-      if (normalizeHex(idemRow.intent_hash) !== normalizeHex(intentHash)) {
+    const idem = await tx.getIdempotencyKey(requestId);
+    if (idem) {
+      if (normalizeHex(idem.intentHash) !== normalizeHex(intentHash)) {
         throw new Error('requestId already used for a different intent');
       }
-      const existing = await client.query<DbAuthorizationRow>(
-        `SELECT auth_id, request_id, intent_hash, authorization_json, sequencer_sig, status, expires_at, execution_grace_until
-         FROM authorizations
-         WHERE auth_id = $1
-         FOR UPDATE`,
-        [idemRow.auth_id]
-      );
-      const row = existing.rows[0];
-      if (!row) throw new Error('idempotency record points to missing authorization');
+      const existing = await tx.getAuthorization(idem.authId);
+      if (!existing) throw new Error('idempotency record points to missing authorization');
       return {
-        authorization: row.authorization_json,
-        sequencerSig: normalizeHex(row.sequencer_sig),
+        authorization: existing.authorization,
+        sequencerSig: normalizeHex(existing.sequencerSig),
+        ...(existing.balanceReceipt && existing.balanceReceiptSig
+          ? { balanceReceipt: existing.balanceReceipt, balanceReceiptSig: normalizeHex(existing.balanceReceiptSig) }
+          : {}),
         idempotent: true
       };
     }
 
-    const expectedNonce = BigInt(agent.next_agent_nonce);
     const incomingNonce = parseUint64(input.intent.agentNonce, 'intent.agentNonce');
-    if (incomingNonce !== expectedNonce) {
-      throw new Error(`invalid agent nonce: expected ${expectedNonce}, received ${incomingNonce}`);
-    }
+    const nextAgentNonce = await consumeAgentNonce(tx, {
+      agent,
+      agentId: input.intent.agentId,
+      agentNonce: input.intent.agentNonce,
+      nonceLane: input.intent.version === 2 ? (input.intent.nonceLane ?? 0) : 0,
+      laneSeq: input.intent.laneSeq,
+      now
+    });
 
     const amountMicros = parseUint64(input.intent.amountMicros, 'intent.amountMicros');
     if (amountMicros <= 0n) {
       throw new Error('amountMicros must be > 0');
     }
-    const balance = BigInt(agent.balance_micros);
-    if (balance < amountMicros) {
-      throw new Error('insufficient sequencer balance');
-    }
-
-    const countersRes = await client.query<{
-      log_seq_no: string;
-      last_leaf_hash: string;
-      last_epoch_id: string;
-    }>(
-      `SELECT log_seq_no, last_leaf_hash, last_epoch_id
-       FROM sequencer_counters
-       WHERE singleton = TRUE
-       FOR UPDATE`
+    // The relayer fee is held together with the amount and debited from the same balance.
+    const feeMicros = BigInt(
+      computeFeeMicros(input.feeSchedule?.get(input.intent.requiredChainRef), amountMicros.toString())
     );
-    const counters = countersRes.rows[0];
-    if (!counters) {
-      throw new Error('sequencer counters missing');
+    if (input.intent.maxFeeMicros !== undefined && feeMicros > BigInt(input.intent.maxFeeMicros)) {
+      throw new Error(`relayer fee ${feeMicros} exceeds intent maxFeeMicros ${input.intent.maxFeeMicros}`);
+    }
+    await enforceAgentPolicy(tx, {
+      agentId: normalizeHex(input.intent.agentId),
+      amountMicros,
+      feeMicros,
+      merchantId: input.intent.merchantId,
+      chainRef: input.intent.requiredChainRef,
+      now
+    });
+    const debitMicros = amountMicros + feeMicros;
+    const balance = BigInt(agent.balanceMicros);
+    if (balance < debitMicros) {
+      throw new Error('insufficient sequencer balance');
     }
 
-    const nextSeq = BigInt(counters.log_seq_no) + 1n;
-    const epochHint = BigInt(counters.last_epoch_id) + 1n;
+    const counters = await tx.getCounters();
+    const nextSeq = BigInt(counters.logSeqNo) + 1n;
+    const epochHint = BigInt(counters.lastEpochId) + 1n;
     const intentId = intentHash;
     const authId = deriveAuthorizationId({
       intentId,
@@ -314,10 +406,11 @@ export async function authorizeIntent(input: {
     });
 
     const authorization: AuthorizationV1 = {
-      version: 1,
+      version: 2,
       intentId,
       authId,
       authorizedAmountMicros: amountMicros.toString(),
+      feeMicros: feeMicros.toString(),
       agentId: normalizeHex(input.intent.agentId),
       agentNonce: incomingNonce.toString(),
       merchantId: normalizeHex(input.intent.merchantId),
@@ -329,9 +422,28 @@ export async function authorizeIntent(input: {
       sequencerKeyId: input.sequencerKeyId
     };
 
+    const updatedBalance = balance - debitMicros;
+    const creditedMicros = BigInt(agent.creditedMicros);
+    const debitedOutstanding = BigInt(agent.debitedOutstandingMicros) + debitMicros;
+    if (debitedOutstanding > creditedMicros) {
+      throw new Error('protocol invariant violated: debited exceeds credited');
+    }
+
     const sequencerSig = signAuthorization(input.sequencerPrivateKey, authorization);
+    const { balanceReceipt, balanceReceiptSig } = issueBalanceReceipt({
+      agent,
+      agentId: authorization.agentId,
+      debitId: authId,
+      balanceMicros: updatedBalance,
+      debitedOutstandingMicros: debitedOutstanding,
+      nextAgentNonce,
+      logSeqNo: authorization.logSeqNo,
+      issuedAt: authorization.issuedAt,
+      sequencerKeyId: input.sequencerKeyId,
+      sequencerPrivateKey: input.sequencerPrivateKey
+    });
     const authHash = hashAuthorization(authorization);
-    const prevLeafHash = normalizeHex(counters.last_leaf_hash);
+    const prevLeafHash = normalizeHex(counters.lastLeafHash);
     const salt = deriveLeafSalt(input.leafSaltSecret, authId);
     const leafHash = computeAuthorizationLeaf({
       logSeqNo: authorization.logSeqNo,
@@ -341,172 +453,132 @@ export async function authorizeIntent(input: {
     });
 
     const graceUntil = intentExpiry + input.executionGraceSeconds;
-    await client.query(
-      `INSERT INTO authorizations(
-         auth_id, request_id, intent_hash, agent_id, agent_nonce, amount_micros, merchant_id, chain_ref,
-         issued_at, expires_at, execution_grace_until, log_seq_no, status, sequencer_key_id, sequencer_sig, authorization_json
-       ) VALUES (
-         $1, $2, $3, $4, $5, $6, $7, $8,
-         $9, $10, $11, $12, 'ISSUED', $13, $14, $15
-       )`,
-      [
-        authId,
-        requestId,
-        intentHash,
-        input.intent.agentId,
-        authorization.agentNonce,
-        authorization.authorizedAmountMicros,
-        input.intent.merchantId,
-        authorization.chainRef,
-        authorization.issuedAt,
-        authorization.expiresAt,
-        graceUntil.toString(),
-        authorization.logSeqNo,
-        input.sequencerKeyId,
-        sequencerSig,
-        JSON.stringify(authorization)
-      ]
-    );
-
-    await client.query(
-      `INSERT INTO idempotency_keys(request_id, intent_hash, auth_id, created_at)
-       VALUES ($1, $2, $3, $4)`,
-      [requestId, intentHash, authId, now.toString()]
-    );
+    await tx.insertAuthorization({
+      authId,
+      requestId,
+      intentHash,
+      agentId: input.intent.agentId,
+      agentNonce: authorization.agentNonce,
+      amountMicros: authorization.authorizedAmountMicros,
+      feeMicros: feeMicros.toString(),
+      merchantId: input.intent.merchantId,
+      chainRef: authorization.chainRef,
+      issuedAt: authorization.issuedAt,
+      expiresAt: authorization.expiresAt,
+      executionGraceUntil: graceUntil.toString(),
+      logSeqNo: authorization.logSeqNo,
+      status: 'ISSUED',
+      sequencerKeyId: input.sequencerKeyId,
+      sequencerSig,
+      authorization,
+      balanceReceipt,
+      balanceReceiptSig,
+      executedAt: null,
+      reclaimedAt: null
+    });
 
-    await client.query(
-      `INSERT INTO auth_leaves(log_seq_no, auth_id, prev_leaf_hash, leaf_hash)
-       VALUES ($1, $2, $3, $4)`,
-      [authorization.logSeqNo, authId, prevLeafHash, leafHash]
-    );
+    await tx.insertIdempotencyKey({ requestId, intentHash, authId, createdAt: now.toString() });
 
-    const updatedBalance = balance - amountMicros;
-    const creditedMicros = BigInt(agent.credited_micros);
-    const debitedOutstanding = BigInt(agent.debited_outstanding_micros) + amountMicros;
-    if (debitedOutstanding > creditedMicros) {
-      throw new Error('protocol invariant violated: debited exceeds credited');
-    }
+    await tx.appendLeaf({ logSeqNo: authorization.logSeqNo, authId, prevLeafHash, leafHash });
 
-    await client.query(
-      `UPDATE agents
-       SET balance_micros = $2,
-           next_agent_nonce = $3,
-           debited_outstanding_micros = $4,
-           agent_pub_key = COALESCE(agent_pub_key, $6),
-           signature_scheme = COALESCE(signature_scheme, $7),
-           updated_at = $5
-       WHERE agent_id = $1`,
-      [
-        input.intent.agentId,
-        updatedBalance.toString(),
-        (incomingNonce + 1n).toString(),
-        debitedOutstanding.toString(),
-        now.toString(),
-        input.intent.agentPubKey,
-        input.intent.signatureScheme
-      ]
-    );
+    await tx.updateAgent(input.intent.agentId, {
+      balanceMicros: updatedBalance.toString(),
+      nextAgentNonce: nextAgentNonce.toString(),
+      debitedOutstandingMicros: debitedOutstanding.toString(),
+      // The first authorization pins the agent's signing key and scheme.
+      ...(agent.agentPubKey ? {} : { agentPubKey: input.intent.agentPubKey }),
+      ...(agent.signatureScheme ? {} : { signatureScheme: input.intent.signatureScheme }),
+      lastBalanceReceiptHash: hashBalanceReceipt(balanceReceipt),
+      updatedAt: now.toString()
+    });
 
-    await client.query(
-      `UPDATE sequencer_counters
-       SET log_seq_no = $1, last_leaf_hash = $2
-       WHERE singleton = TRUE`,
-      [authorization.logSeqNo, leafHash]
-    );
+    await tx.updateCounters({ logSeqNo: authorization.logSeqNo, lastLeafHash: leafHash });
 
     return {
       authorization,
       sequencerSig,
+      balanceReceipt,
+      balanceReceiptSig,
       idempotent: false
     };
   });
 }
 
+// Version 1 reports predate partial capture: SUCCESS captures the whole hold.
+function resolveExecutedAmount(report: ExecutionReportV1, authorizedAmount: bigint): bigint {
+  if (report.version === 1) {
+    return report.status === 'SUCCESS' ? authorizedAmount : 0n;
+  }
+  if (report.executedAmountMicros === undefined) {
+    throw new Error('execution report version 2 requires executedAmountMicros');
+  }
+  return parseUint64(report.executedAmountMicros, 'report.executedAmountMicros');
+}
+
 export async function recordExecution(input: {
-  pool: Pool;
+  store: LedgerStore;
   report: ExecutionReportV1;
   onExecutionConflict?: () => void;
 }): Promise<{ ok: true; idempotent: boolean }> {
   const now = nowSeconds();
-  return withTx(input.pool, async (client) => {
+  return input.store.transaction(async (tx) => {
     const reportAt = parseUint64(input.report.reportedAt, 'report.reportedAt');
     if (reportAt > now + 300n) {
       throw new Error('execution report reportedAt too far in the future');
     }
 
-    const authRes = await client.query<{
-      status: AuthorizationStatus;
-      chain_ref: string;
-      execution_grace_until: string;
-      auth_id: string;
-    }>(
-      `SELECT status, chain_ref, execution_grace_until, auth_id
-       FROM authorizations
-       WHERE auth_id = $1
-       FOR UPDATE`,
-      [input.report.authId]
-    );
-    const auth = authRes.rows[0];
+    const auth = await tx.getAuthorization(input.report.authId);
     if (!auth) throw new Error('authorization not found');
 
-    if (input.report.chainRef !== auth.chain_ref) {
+    const executedAmount = resolveExecutedAmount(input.report, BigInt(auth.amountMicros));
+    if (input.report.status === 'FAILED' && executedAmount !== 0n) {
+      throw new Error('FAILED execution report must have executedAmountMicros 0');
+    }
+
+    if (input.report.chainRef !== auth.chainRef) {
       throw new Error('execution chainRef mismatch');
     }
+    if (reportAt < BigInt(auth.issuedAt)) {
+      throw new Error('execution report reportedAt precedes authorization');
+    }
+    const authorizedAmount = BigInt(auth.amountMicros);
+    if (executedAmount > authorizedAmount) {
+      throw new Error('executedAmountMicros exceeds authorized amount');
+    }
 
-    const relayerKeyRes = await client.query<{ public_key: string; status: string }>(
-      `SELECT public_key, status
-       FROM relayer_keys
-       WHERE chain_ref = $1 AND key_id = $2
-       FOR UPDATE`,
-      [input.report.chainRef, input.report.relayerKeyId]
-    );
-    const relayerKey = relayerKeyRes.rows[0];
-    if (!relayerKey || relayerKey.status !== 'ACTIVE') {
+    const relayerKey = await tx.getRelayerKey(input.report.chainRef, input.report.relayerKeyId);
+    if (!relayerKey || !isRelayerKeyUsableAt(relayerKey, reportAt, now)) {
       throw new Error(
         `UNAUTHORIZED_REPORTER chainRef=${input.report.chainRef} relayerKeyId=${input.report.relayerKeyId}`
       );
     }
     verifyExecutionReportSignature({
       report: input.report,
-      relayerPublicKey: normalizeHex(relayerKey.public_key)
+      relayerPublicKey: normalizeHex(relayerKey.publicKey)
     });
 
-    const existingAttempt = await client.query<{
-      report_id: string;
-      tx_hash: string;
-      status: string;
-    }>(
-      `SELECT report_id, tx_hash, status
-       FROM execution_attempts
-       WHERE report_id = $1
-       FOR UPDATE`,
-      [input.report.reportId]
-    );
-    if (existingAttempt.rowCount && existingAttempt.rows[0]) {
-      const attempt = existingAttempt.rows[0];
+    const attempt = await tx.getExecutionAttempt(input.report.reportId);
+    if (attempt) {
       if (
-        normalizeExecutionTxHash(attempt.tx_hash) ===
-          normalizeExecutionTxHash(input.report.executionTxHash) &&
-        attempt.status === input.report.status
+        normalizeExecutionTxHash(attempt.txHash) === normalizeExecutionTxHash(input.report.executionTxHash) &&
+        attempt.status === input.report.status &&
+        BigInt(attempt.executedAmountMicros) === executedAmount
       ) {
         return { ok: true as const, idempotent: true };
       }
       throw new Error('reportId already used with different execution payload');
     }
 
-    await client.query(
-      `INSERT INTO execution_attempts(auth_id, report_id, tx_hash, status, reporter_key_id, reported_at, report_sig)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [
-        input.report.authId,
-        input.report.reportId,
-        input.report.executionTxHash,
-        input.report.status,
-        input.report.relayerKeyId,
-        reportAt.toString(),
-        input.report.reportSig
-      ]
-    );
+    await tx.insertExecutionAttempt({
+      authId: input.report.authId,
+      reportId: input.report.reportId,
+      txHash: input.report.executionTxHash,
+      status: input.report.status,
+      reporterKeyId: input.report.relayerKeyId,
+      reportedAt: reportAt.toString(),
+      reportSig: input.report.reportSig,
+      executedAmountMicros: executedAmount.toString()
+    });
 
     if (auth.status === 'RECLAIMED') {
       throw new Error('authorization already reclaimed');
@@ -514,7 +586,7 @@ export async function recordExecution(input: {
     if (auth.status !== 'ISSUED' && auth.status !== 'EXECUTED') {
       throw new Error(`invalid authorization status transition: ${auth.status}`);
     }
-    if (now > BigInt(auth.execution_grace_until)) {
+    if (now > BigInt(auth.executionGraceUntil)) {
       throw new Error('execution report beyond grace window');
     }
 
@@ -522,20 +594,11 @@ export async function recordExecution(input: {
       return { ok: true as const, idempotent: false };
     }
 
-    const existingExecution = await client.query<{
-      execution_tx_hash: string;
-    }>(
-      `SELECT execution_tx_hash
-       FROM executions
-       WHERE auth_id = $1
-       FOR UPDATE`,
-      [input.report.authId]
-    );
-
-    if (existingExecution.rowCount && existingExecution.rows[0]) {
-      const previousTxHash = normalizeExecutionTxHash(existingExecution.rows[0].execution_tx_hash);
+    const existingExecution = await tx.getExecution(input.report.authId);
+    if (existingExecution) {
+      const previousTxHash = normalizeExecutionTxHash(existingExecution.executionTxHash);
       const incomingTxHash = normalizeExecutionTxHash(input.report.executionTxHash);
-      if (previousTxHash === incomingTxHash) {
+      if (previousTxHash === incomingTxHash && BigInt(existingExecution.executedAmountMicros) === executedAmount) {
         return { ok: true as const, idempotent: true };
       }
       input.onExecutionConflict?.();
@@ -546,25 +609,48 @@ export async function recordExecution(input: {
       throw new Error('authorization already executed with missing execution record');
     }
 
-    await client.query(
-      `INSERT INTO executions(auth_id, chain_ref, execution_tx_hash, status, relayer_key_id, reported_at)
-       VALUES ($1, $2, $3, 'SUCCESS', $4, $5)`,
-      [
-        input.report.authId,
-        input.report.chainRef,
-        input.report.executionTxHash,
-        input.report.relayerKeyId,
-        reportAt.toString()
-      ]
-    );
+    await tx.insertExecution({
+      authId: input.report.authId,
+      chainRef: input.report.chainRef,
+      executionTxHash: input.report.executionTxHash,
+      relayerKeyId: input.report.relayerKeyId,
+      reportedAt: reportAt.toString(),
+      executedAmountMicros: executedAmount.toString()
+    });
+
+    // Partial capture: the uncaptured part of the hold goes back to the agent's balance.
+    const released = authorizedAmount - executedAmount;
+    if (released > 0n) {
+      const agent = await tx.getAgent(auth.agentId);
+      if (!agent) throw new Error('agent state missing');
+      const outstanding = BigInt(agent.debitedOutstandingMicros);
+      if (outstanding < released) {
+        throw new Error('INVARIANT_VIOLATION outstanding balance lower than released amount');
+      }
+      const nextBalance = BigInt(agent.balanceMicros) + released;
+      if (nextBalance > BigInt(agent.creditedMicros)) {
+        throw new Error('INVARIANT_VIOLATION balance exceeds credited after release');
+      }
+      await tx.updateAgent(auth.agentId, {
+        balanceMicros: nextBalance.toString(),
+        debitedOutstandingMicros: (outstanding - released).toString(),
+        updatedAt: now.toString()
+      });
+    }
+
+    // The fee stays debited from the agent and is earned by the relayer that executed.
+    const feeMicros = BigInt(auth.feeMicros);
+    if (feeMicros > 0n) {
+      await tx.accrueRelayerFee({
+        chainRef: input.report.chainRef,
+        relayerKeyId: input.report.relayerKeyId,
+        feeMicros,
+        now
+      });
+    }
 
     if (auth.status === 'ISSUED') {
-      await client.query(
-        `UPDATE authorizations
-         SET status = 'EXECUTED', executed_at = $2
-         WHERE auth_id = $1`,
-        [input.report.authId, now.toString()]
-      );
+      await tx.updateAuthorizationStatus(input.report.authId, { status: 'EXECUTED', executedAt: now.toString() });
     }
 
     return { ok: true as const, idempotent: false };
@@ -572,7 +658,7 @@ export async function recordExecution(input: {
 }
 
 export async function reclaimAuthorization(input: {
-  pool: Pool;
+  store: LedgerStore;
   request: ReclaimRequestV1;
   adminTokenHeader: string | undefined;
   expectedAdminToken: string | undefined;
@@ -583,22 +669,8 @@ export async function reclaimAuthorization(input: {
   if (requestedAt > now + 300n) {
     throw new Error('reclaim requestedAt too far in the future');
   }
-  return withTx(input.pool, async (client) => {
-    const authRes = await client.query<{
-      auth_id: string;
-      status: AuthorizationStatus;
-      expires_at: string;
-      amount_micros: string;
-      agent_id: string;
-      reclaimed_at: string | null;
-    }>(
-      `SELECT auth_id, status, expires_at, amount_micros, agent_id, reclaimed_at
-       FROM authorizations
-       WHERE auth_id = $1
-       FOR UPDATE`,
-      [input.request.authId]
-    );
-    const auth = authRes.rows[0];
+  return input.store.transaction(async (tx) => {
+    const auth = await tx.getAuthorization(input.request.authId);
     if (!auth) throw new Error('authorization not found');
 
     if (input.request.callerType === 'sequencer') {
@@ -610,9 +682,9 @@ export async function reclaimAuthorization(input: {
       }
     } else if (input.request.callerType === 'agent') {
       await verifyAgentReclaimSignature({
-        poolClient: client,
+        tx,
         request: input.request,
-        authAgentId: normalizeHex(auth.agent_id)
+        authAgentId: normalizeHex(auth.agentId)
       });
     } else {
       throw new Error('invalid reclaim callerType');
@@ -621,49 +693,31 @@ export async function reclaimAuthorization(input: {
     if (auth.status !== 'ISSUED') {
       throw new Error('only ISSUED authorizations can be reclaimed');
     }
-    if (now <= BigInt(auth.expires_at)) {
+    if (now <= BigInt(auth.expiresAt)) {
       throw new Error('authorization not yet expired');
     }
-    if (auth.reclaimed_at) {
+    if (auth.reclaimedAt) {
       throw new Error('authorization already reclaimed');
     }
 
-    const amount = BigInt(auth.amount_micros);
-    const agentRes = await client.query<{
-      balance_micros: string;
-      debited_outstanding_micros: string;
-    }>(
-      `SELECT balance_micros, debited_outstanding_micros
-       FROM agents
-       WHERE agent_id = $1
-       FOR UPDATE`,
-      [auth.agent_id]
-    );
-    const agent = agentRes.rows[0];
+    // Reclaim returns the whole hold, relayer fee included.
+    const amount = BigInt(auth.amountMicros) + BigInt(auth.feeMicros);
+    const agent = await tx.getAgent(auth.agentId);
     if (!agent) throw new Error('agent state missing');
 
-    const balance = BigInt(agent.balance_micros);
-    const outstanding = BigInt(agent.debited_outstanding_micros);
+    const balance = BigInt(agent.balanceMicros);
+    const outstanding = BigInt(agent.debitedOutstandingMicros);
     if (outstanding < amount) {
       throw new Error('INVARIANT_VIOLATION outstanding balance lower than reclaim amount');
     }
-    const nextOutstanding = outstanding - amount;
-    await client.query(
-      `UPDATE agents
-       SET balance_micros = $2,
-           debited_outstanding_micros = $3,
-           updated_at = $4
-       WHERE agent_id = $1`,
-      [auth.agent_id, (balance + amount).toString(), nextOutstanding.toString(), now.toString()]
-    );
+    await tx.updateAgent(auth.agentId, {
+      balanceMicros: (balance + amount).toString(),
+      debitedOutstandingMicros: (outstanding - amount).toString(),
+      updatedAt: now.toString()
+    });
 
-    await client.query(
-      `UPDATE authorizations
-       SET status = 'RECLAIMED', reclaimed_at = $2
-       WHERE auth_id = $1`,
-      [auth.auth_id, now.toString()]
-    );
+    await tx.updateAuthorizationStatus(auth.authId, { status: 'RECLAIMED', reclaimedAt: now.toString() });
 
-    return { ok: true as const, authId: normalizeHex(auth.auth_id) };
+    return { ok: true as const, authId: normalizeHex(auth.authId) };
   });
 }
@@ -0,0 +1,134 @@
+import {
+  deriveMerchantId,
+  normalizeHex,
+  normalizeMerchantEndpointUrl,
+  type CanonicalAgentProfile,
+  type Hex,
+  type MerchantPayoutAddressV1,
+  type MerchantRecordV1,
+  type MerchantRegistrationV1,
+  type SignedMerchantRecordV1
+} from '@shielded-x402/shared-types';
+import { signMerchantRecord } from '../crypto.js';
+import type { LedgerStore, LedgerTx } from '../store/ledgerStore.js';
+import { selectSigningKey, type SequencerSigningKey } from './keys.js';
+
+const EVM_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const SOLANA_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/** Checks `address` against the format of the chain family and returns its canonical form. */
+export function normalizePayoutAddress(chainRef: string, address: string): string {
+  const trimmed = address.trim();
+  if (chainRef.startsWith('eip155:')) {
+    if (!EVM_ADDRESS_PATTERN.test(trimmed)) {
+      throw new Error(`invalid payout address for ${chainRef}: expected 0x-prefixed 20-byte hex`);
+    }
+    return trimmed.toLowerCase();
+  }
+  if (chainRef.startsWith('solana:')) {
+    if (!SOLANA_ADDRESS_PATTERN.test(trimmed)) {
+      throw new Error(`invalid payout address for ${chainRef}: expected base58 public key`);
+    }
+    return trimmed;
+  }
+  if (trimmed.length === 0) {
+    throw new Error(`invalid payout address for ${chainRef}: empty`);
+  }
+  return trimmed;
+}
+
+/**
+ * Reads CAIP-10 `agentWallet` endpoints (`eip155:8453:0xabc...`) from the registration file an
+ * ERC-8004 profile was resolved from. Both the `endpoints` and the newer `services` arrays are
+ * scanned; entries that are not CAIP-10 are skipped.
+ */
+export function payoutAddressesFromAgentProfile(profile: CanonicalAgentProfile): MerchantPayoutAddressV1[] {
+  const out: MerchantPayoutAddressV1[] = [];
+  for (const key of ['endpoints', 'services'] as const) {
+    const entries = profile.raw?.[key];
+    if (!Array.isArray(entries)) continue;
+    for (const entry of entries) {
+      if (!entry || typeof entry !== 'object') continue;
+      const { name, endpoint } = entry as { name?: unknown; endpoint?: unknown };
+      if (typeof name !== 'string' || name.toLowerCase() !== 'agentwallet') continue;
+      if (typeof endpoint !== 'string') continue;
+      const match = /^([-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}):(.+)$/.exec(endpoint.trim());
+      if (!match?.[1] || !match[2]) continue;
+      out.push({ chainRef: match[1], address: match[2] });
+    }
+  }
+  return out;
+}
+
+/**
+ * Registers the merchant derived from `serviceRegistryId` and `endpointUrl` and replaces its
+ * payout addresses. Profile-seeded addresses on chains this sequencer does not serve are dropped;
+ * explicit ones are rejected.
+ */
+export async function upsertMerchant(
+  tx: LedgerTx,
+  input: { registration: MerchantRegistrationV1; supportedChainRefs: Set<string>; now: bigint }
+): Promise<MerchantRecordV1> {
+  const { registration } = input;
+  const endpointUrl = normalizeMerchantEndpointUrl(registration.endpointUrl);
+  const merchantId = normalizeHex(
+    deriveMerchantId({ serviceRegistryId: registration.serviceRegistryId, endpointUrl })
+  );
+
+  const addresses = new Map<string, string>();
+  if (registration.erc8004Profile) {
+    for (const seeded of payoutAddressesFromAgentProfile(registration.erc8004Profile)) {
+      if (!input.supportedChainRefs.has(seeded.chainRef)) continue;
+      addresses.set(seeded.chainRef, normalizePayoutAddress(seeded.chainRef, seeded.address));
+    }
+  }
+  for (const explicit of registration.payoutAddresses ?? []) {
+    if (!input.supportedChainRefs.has(explicit.chainRef)) {
+      throw new Error(`unsupported chainRef: ${explicit.chainRef}`);
+    }
+    addresses.set(explicit.chainRef, normalizePayoutAddress(explicit.chainRef, explicit.address));
+  }
+  if (addresses.size === 0) {
+    throw new Error('merchant registration has no payout address on a supported chain');
+  }
+
+  await tx.putMerchant({
+    merchantId,
+    serviceRegistryId: registration.serviceRegistryId,
+    endpointUrl,
+    source: registration.erc8004Profile ? 'ERC8004' : 'ADMIN',
+    payoutAddresses: [...addresses].map(([chainRef, address]) => ({ chainRef, address })),
+    updatedAt: input.now.toString()
+  });
+
+  const record = await tx.getMerchant(merchantId);
+  if (!record) throw new Error('merchant registration failed');
+  return record;
+}
+
+export async function getMerchant(input: { store: LedgerStore; merchantId: Hex }): Promise<MerchantRecordV1> {
+  const record = await input.store.read((tx) => tx.getMerchant(normalizeHex(input.merchantId)));
+  if (!record) {
+    throw new Error(`merchant not found: ${normalizeHex(input.merchantId)}`);
+  }
+  return record;
+}
+
+/** The merchant record signed with the current sequencer key; relayers pay only from signed records. */
+export async function getSignedMerchant(input: {
+  store: LedgerStore;
+  merchantId: Hex;
+  sequencerKeys: readonly SequencerSigningKey[];
+  now?: bigint;
+}): Promise<SignedMerchantRecordV1> {
+  const record = await getMerchant(input);
+  const now = input.now ?? BigInt(Math.floor(Date.now() / 1000));
+  const signingKey = selectSigningKey(input.sequencerKeys, now);
+  const payload = {
+    version: 1 as const,
+    record,
+    issuedAt: now.toString(),
+    sequencerKeyId: signingKey.keyId
+  };
+  return { ...payload, sequencerSig: signMerchantRecord(signingKey.privateKey, payload) };
+}
@@ -0,0 +1,165 @@
+import {
+  canonicalMerchantQueryBytes,
+  deriveMerchantId,
+  normalizeHex,
+  type Hex,
+  type MerchantQueryV1,
+  type MerchantStatementQueryV1,
+  type MerchantStatementV1
+} from '@shielded-x402/shared-types';
+import { sha256, verifyEd25519Signature } from '../crypto.js';
+import type { LedgerStore, MerchantKeyRecord, MerchantKeyStatus } from '../store/ledgerStore.js';
+import { parseUint64 } from '../validation.js';
+
+export type { MerchantKeyRecord, MerchantKeyStatus };
+
+export const DEFAULT_STATEMENT_PAGE_SIZE = 100;
+
+function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Registers a statement key for every merchantId derived from `serviceRegistryId`.
+ * Re-registering the same key is a no-op; revoked keys stay revoked.
+ */
+export async function registerMerchantKey(input: {
+  store: LedgerStore;
+  serviceRegistryId: string;
+  keyId: string;
+  publicKey: Hex;
+  now: bigint;
+}): Promise<MerchantKeyRecord> {
+  const key = await input.store.transaction(async (tx) => {
+    await tx.ensureMerchantKey({
+      serviceRegistryId: input.serviceRegistryId,
+      keyId: input.keyId,
+      publicKey: normalizeHex(input.publicKey),
+      status: 'ACTIVE',
+      createdAt: input.now.toString(),
+      revokedAt: null
+    });
+    return tx.getMerchantKey(input.serviceRegistryId, input.keyId);
+  });
+  if (!key) throw new Error('merchant key registration failed');
+  if (normalizeHex(key.publicKey) !== normalizeHex(input.publicKey)) {
+    throw new Error('merchant key already registered with a different public key');
+  }
+  if (key.status === 'REVOKED') {
+    throw new Error('merchant key is revoked');
+  }
+  return key;
+}
+
+export async function revokeMerchantKey(input: {
+  store: LedgerStore;
+  serviceRegistryId: string;
+  keyId: string;
+  now: bigint;
+}): Promise<MerchantKeyRecord> {
+  const key = await input.store.transaction(async (tx) => {
+    await tx.revokeMerchantKey(input.serviceRegistryId, input.keyId, input.now.toString());
+    return tx.getMerchantKey(input.serviceRegistryId, input.keyId);
+  });
+  if (!key) {
+    throw new Error(`merchant key not found: serviceRegistryId=${input.serviceRegistryId} keyId=${input.keyId}`);
+  }
+  return key;
+}
+
+export async function listMerchantKeys(input: {
+  store: LedgerStore;
+  serviceRegistryId?: string;
+}): Promise<MerchantKeyRecord[]> {
+  return input.store.read((tx) => tx.listMerchantKeys(input.serviceRegistryId));
+}
+
+/** Authenticates a merchant query against an ACTIVE key registered for its `serviceRegistryId`. */
+export async function verifyMerchantQuery(input: {
+  store: LedgerStore;
+  query: MerchantQueryV1;
+  merchantSig: Hex;
+  maxSkewSeconds: bigint;
+}): Promise<void> {
+  const now = nowSeconds();
+  const requestedAt = parseUint64(input.query.requestedAt, 'query.requestedAt');
+  if (requestedAt > now + input.maxSkewSeconds || requestedAt + input.maxSkewSeconds < now) {
+    throw new Error('unauthorized merchant query: requestedAt outside allowed window');
+  }
+  const key = await input.store.read((tx) => tx.getMerchantKey(input.query.serviceRegistryId, input.query.keyId));
+  if (!key || key.status !== 'ACTIVE') {
+    throw new Error('unauthorized merchant query: merchant key not registered');
+  }
+  const valid = verifyEd25519Signature({
+    messageHash: sha256(canonicalMerchantQueryBytes(input.query)),
+    signature: input.merchantSig,
+    publicKey: key.publicKey
+  });
+  if (!valid) {
+    throw new Error('unauthorized merchant query: invalid signature');
+  }
+}
+
+/** Checks that `merchantId` belongs to the authenticated service registry entry. */
+export function assertMerchantIdForRegistry(input: {
+  merchantId: Hex;
+  serviceRegistryId: string;
+  endpointUrl: string;
+}): void {
+  const derived = deriveMerchantId({ serviceRegistryId: input.serviceRegistryId, endpointUrl: input.endpointUrl });
+  if (normalizeHex(derived) !== normalizeHex(input.merchantId)) {
+    throw new Error('unauthorized merchant query: merchantId does not derive from serviceRegistryId and endpointUrl');
+  }
+}
+
+/**
+ * Lists a merchant's executed authorizations in `[fromExecutedAt, toExecutedAt)` oldest
+ * first, paging on `log_seq_no`. Each line points at its leaf in the commitment log, so
+ * the merchant can fetch `GET /v1/commitments/proof?authId=` once the epoch is committed.
+ */
+export async function getMerchantStatement(input: {
+  store: LedgerStore;
+  merchantId: Hex;
+  query: MerchantStatementQueryV1;
+}): Promise<MerchantStatementV1> {
+  const limit = input.query.limit ?? DEFAULT_STATEMENT_PAGE_SIZE;
+  const merchantId = normalizeHex(input.merchantId);
+  const filter = {
+    fromExecutedAt: input.query.fromExecutedAt,
+    toExecutedAt: input.query.toExecutedAt,
+    ...(input.query.chainRef ? { chainRef: input.query.chainRef } : {})
+  };
+  const { totals, page } = await input.store.read(async (tx) => ({
+    totals: await tx.sumMerchantExecutions(merchantId, filter),
+    page: await tx.listMerchantExecutions(
+      merchantId,
+      { ...filter, ...(input.query.cursor ? { afterLogSeqNo: input.query.cursor } : {}) },
+      limit + 1
+    )
+  }));
+  const hasMore = page.length > limit;
+  const rows = hasMore ? page.slice(0, limit) : page;
+  const last = rows[rows.length - 1];
+
+  return {
+    merchantId,
+    fromExecutedAt: input.query.fromExecutedAt,
+    toExecutedAt: input.query.toExecutedAt,
+    totals,
+    lines: rows.map(({ authorization, execution, leaf }) => ({
+      authId: normalizeHex(authorization.authId),
+      chainRef: authorization.chainRef,
+      authorizedAmountMicros: authorization.amountMicros,
+      executedAmountMicros: execution.executedAmountMicros,
+      executionTxHash: execution.executionTxHash,
+      relayerKeyId: execution.relayerKeyId,
+      executedAt: authorization.executedAt ?? execution.reportedAt,
+      inclusion: {
+        logSeqNo: leaf.logSeqNo,
+        leafHash: normalizeHex(leaf.leafHash),
+        epochId: leaf.epochId
+      }
+    })),
+    nextCursor: hasMore && last ? last.authorization.logSeqNo : null
+  };
+}
@@ -0,0 +1,130 @@
+import {
+  AGENT_POLICY_ERROR_CODES,
+  buildAgentPolicyTypedDataPayload,
+  canonicalAgentPolicyBytes,
+  deriveAgentIdFromPubKey,
+  normalizeHex,
+  type AgentPolicyResponseV1,
+  type AgentPolicyV1,
+  type Hex
+} from '@shielded-x402/shared-types';
+import { verifyAgentSignature } from '../crypto.js';
+import { parseUint64 } from '../validation.js';
+import type { LedgerStore, LedgerTx } from '../store/ledgerStore.js';
+
+const HOUR_SECONDS = 3600n;
+const DAY_SECONDS = 86_400n;
+
+export async function verifyAgentPolicySignature(policy: AgentPolicyV1, agentSig: Hex): Promise<void> {
+  const expectedAgentId = deriveAgentIdFromPubKey(policy.agentPubKey);
+  if (normalizeHex(policy.agentId) !== normalizeHex(expectedAgentId)) {
+    throw new Error('agentId does not match agentPubKey');
+  }
+  await verifyAgentSignature({
+    signatureScheme: policy.signatureScheme,
+    agentPubKey: normalizeHex(policy.agentPubKey),
+    signature: agentSig,
+    canonicalBytes: canonicalAgentPolicyBytes(policy),
+    typedData: buildAgentPolicyTypedDataPayload(policy),
+    label: 'policy'
+  });
+}
+
+/**
+ * Stores a signature-checked policy update. The agent's key is bound on first use, as
+ * for intents, and `policyVersion` must strictly increase so older updates cannot be replayed.
+ */
+export async function applyAgentPolicyUpdate(
+  tx: LedgerTx,
+  input: { policy: AgentPolicyV1; agentSig: Hex; now: bigint }
+): Promise<AgentPolicyResponseV1> {
+  const agentId = normalizeHex(input.policy.agentId);
+  const policyVersion = parseUint64(input.policy.policyVersion, 'policy.policyVersion');
+
+  await tx.ensureAgent(agentId, input.now);
+  const agent = await tx.getAgent(agentId);
+  if (!agent) throw new Error('agent account not found');
+  if (agent.agentPubKey && normalizeHex(agent.agentPubKey) !== normalizeHex(input.policy.agentPubKey)) {
+    throw new Error('agentPubKey mismatch for existing agent');
+  }
+  if (agent.signatureScheme && agent.signatureScheme !== input.policy.signatureScheme) {
+    throw new Error('signatureScheme mismatch for existing agent');
+  }
+
+  const current = await tx.getAgentPolicy(agentId);
+  if (current && policyVersion <= BigInt(current.policyVersion)) {
+    throw new Error(
+      `${AGENT_POLICY_ERROR_CODES.versionNotIncreasing}: policyVersion must be greater than ${current.policyVersion}`
+    );
+  }
+
+  await tx.updateAgent(agentId, {
+    agentPubKey: agent.agentPubKey ?? normalizeHex(input.policy.agentPubKey),
+    signatureScheme: agent.signatureScheme ?? input.policy.signatureScheme,
+    updatedAt: input.now.toString()
+  });
+  await tx.putAgentPolicy({
+    agentId,
+    policyVersion: policyVersion.toString(),
+    policy: input.policy,
+    agentSig: input.agentSig,
+    updatedAt: input.now.toString()
+  });
+
+  return { policy: input.policy, updatedAt: input.now.toString() };
+}
+
+export async function getAgentPolicy(input: { store: LedgerStore; agentId: Hex }): Promise<AgentPolicyResponseV1> {
+  const record = await input.store.read((tx) => tx.getAgentPolicy(normalizeHex(input.agentId)));
+  return record ? { policy: record.policy, updatedAt: record.updatedAt } : { policy: null, updatedAt: null };
+}
+
+/**
+ * Rejects an intent that violates the agent's current policy. Must run inside the
+ * authorization or withdrawal transaction after the agent row is locked, so rolling caps see
+ * every debit issued before this one. Rolling caps count the relayer fee, since it is
+ * debited from the same balance; the per-authorization limit applies to the amount alone.
+ * Withdrawals pass no `merchantId` or `chainRef`, so only the amount limit and caps apply.
+ */
+export async function enforceAgentPolicy(
+  tx: LedgerTx,
+  input: { agentId: Hex; amountMicros: bigint; feeMicros?: bigint; merchantId?: Hex; chainRef?: string; now: bigint }
+): Promise<void> {
+  const policy = (await tx.getAgentPolicy(input.agentId))?.policy;
+  if (!policy) return;
+  const debitMicros = input.amountMicros + (input.feeMicros ?? 0n);
+
+  if (policy.maxAmountPerAuthMicros !== undefined && input.amountMicros > BigInt(policy.maxAmountPerAuthMicros)) {
+    throw new Error(
+      `${AGENT_POLICY_ERROR_CODES.amountExceeded}: amount exceeds per-authorization limit ${policy.maxAmountPerAuthMicros}`
+    );
+  }
+  if (input.merchantId !== undefined) {
+    const merchantId = normalizeHex(input.merchantId);
+    if (policy.merchantAllowlist && !policy.merchantAllowlist.some((id) => normalizeHex(id) === merchantId)) {
+      throw new Error(`${AGENT_POLICY_ERROR_CODES.merchantNotAllowed}: merchant not in allowlist`);
+    }
+    if (policy.merchantDenylist?.some((id) => normalizeHex(id) === merchantId)) {
+      throw new Error(`${AGENT_POLICY_ERROR_CODES.merchantNotAllowed}: merchant is denylisted`);
+    }
+  }
+  if (input.chainRef !== undefined && policy.allowedChainRefs && !policy.allowedChainRefs.includes(input.chainRef)) {
+    throw new Error(`${AGENT_POLICY_ERROR_CODES.chainNotAllowed}: chainRef ${input.chainRef} not allowed`);
+  }
+  if (policy.hourlyCapMicros !== undefined) {
+    const spent = await tx.sumIssuedSince(input.agentId, input.now - HOUR_SECONDS);
+    if (spent + debitMicros > BigInt(policy.hourlyCapMicros)) {
+      throw new Error(
+        `${AGENT_POLICY_ERROR_CODES.hourlyCapExceeded}: hourly cap ${policy.hourlyCapMicros} would be exceeded`
+      );
+    }
+  }
+  if (policy.dailyCapMicros !== undefined) {
+    const spent = await tx.sumIssuedSince(input.agentId, input.now - DAY_SECONDS);
+    if (spent + debitMicros > BigInt(policy.dailyCapMicros)) {
+      throw new Error(
+        `${AGENT_POLICY_ERROR_CODES.dailyCapExceeded}: daily cap ${policy.dailyCapMicros} would be exceeded`
+      );
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import { canonicalRelayerQueryBytes, normalizeHex, type Hex, type RelayerQueryV1 } from '@shielded-x402/shared-types';
+import { sha256, verifyEd25519Signature } from '../crypto.js';
+import type {
+  LedgerStore,
+  LedgerTx,
+  RelayerKeyAction,
+  RelayerKeyEvent,
+  RelayerKeyRecord,
+  RelayerKeyStatus
+} from '../store/ledgerStore.js';
+import { parseUint64 } from '../validation.js';
+
+export type { RelayerKeyAction, RelayerKeyEvent, RelayerKeyRecord, RelayerKeyStatus };
+
+/** How long a report signed by a since-revoked key stays acceptable after it was signed. */
+export const REVOKED_KEY_REPORT_MAX_AGE_SECONDS = 300n;
+
+/**
+ * A key accepts reports while ACTIVE. A revoked key still accepts reports stamped before
+ * its revocation, so reports already in flight when a key is rotated out are not lost. The
+ * stamp is chosen by the key holder, so those reports must also be fresh: a compromised key
+ * cannot keep reporting by backdating past its revocation.
+ */
+export function isRelayerKeyUsableAt(
+  key: Pick<RelayerKeyRecord, 'status' | 'revokedAt'>,
+  reportedAt: bigint,
+  now: bigint
+): boolean {
+  if (key.status === 'ACTIVE') return true;
+  if (key.status !== 'REVOKED' || key.revokedAt === null) return false;
+  return reportedAt < BigInt(key.revokedAt) && reportedAt + REVOKED_KEY_REPORT_MAX_AGE_SECONDS >= now;
+}
+
+/**
+ * Authenticates a relayer-signed read query. Unlike reports, a query is answered now, so
+ * only a key that is ACTIVE at the time of the request may sign one.
+ */
+export async function verifyRelayerQuery(
+  tx: LedgerTx,
+  input: { query: RelayerQueryV1; relayerSig: Hex; maxSkewSeconds: bigint; now: bigint }
+): Promise<void> {
+  const requestedAt = parseUint64(input.query.requestedAt, 'query.requestedAt');
+  if (requestedAt > input.now + input.maxSkewSeconds || requestedAt + input.maxSkewSeconds < input.now) {
+    throw new Error('unauthorized relayer query: requestedAt outside allowed window');
+  }
+  const key = await tx.getRelayerKey(input.query.chainRef, input.query.keyId);
+  if (!key || key.status !== 'ACTIVE') {
+    throw new Error('unauthorized relayer query: relayer key not registered');
+  }
+  const valid = verifyEd25519Signature({
+    messageHash: sha256(canonicalRelayerQueryBytes(input.query)),
+    signature: input.relayerSig,
+    publicKey: normalizeHex(key.publicKey)
+  });
+  if (!valid) {
+    throw new Error('unauthorized relayer query: invalid signature');
+  }
+}
+
+async function requireRelayerKey(tx: LedgerTx, chainRef: string, keyId: string): Promise<RelayerKeyRecord> {
+  const key = await tx.getRelayerKey(chainRef, keyId);
+  if (!key) throw new Error(`relayer key not found: chainRef=${chainRef} keyId=${keyId}`);
+  return key;
+}
+
+async function insertRelayerKeyEvent(
+  tx: LedgerTx,
+  event: {
+    chainRef: string;
+    keyId: string;
+    action: RelayerKeyAction;
+    fromStatus: RelayerKeyStatus | null;
+    toStatus: RelayerKeyStatus;
+    relatedKeyId?: string;
+    reason?: string;
+    now: bigint;
+  }
+): Promise<void> {
+  await tx.insertRelayerKeyEvent({
+    chainRef: event.chainRef,
+    keyId: event.keyId,
+    action: event.action,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    relatedKeyId: event.relatedKeyId ?? null,
+    reason: event.reason ?? null,
+    createdAt: event.now.toString()
+  });
+}
+
+async function updateRelayerKeyStatus(
+  tx: LedgerTx,
+  existing: RelayerKeyRecord,
+  input: { status: RelayerKeyStatus; revokedAt: bigint | null; now: bigint }
+): Promise<RelayerKeyRecord> {
+  const update = {
+    status: input.status,
+    revokedAt: input.revokedAt?.toString() ?? null,
+    updatedAt: input.now.toString()
+  };
+  await tx.updateRelayerKeyStatus(existing.chainRef, existing.keyId, update);
+  return { ...existing, ...update };
+}
+
+async function insertActiveRelayerKey(
+  tx: LedgerTx,
+  input: { chainRef: string; keyId: string; publicKey: Hex; now: bigint }
+): Promise<RelayerKeyRecord> {
+  const record: RelayerKeyRecord = {
+    chainRef: input.chainRef,
+    keyId: input.keyId,
+    publicKey: normalizeHex(input.publicKey),
+    status: 'ACTIVE',
+    createdAt: input.now.toString(),
+    updatedAt: input.now.toString(),
+    revokedAt: null
+  };
+  await tx.insertRelayerKey(record);
+  return record;
+}
+
+/**
+ * Registers a reporting key for `chainRef`. Re-registering a suspended key with the same
+ * public key reactivates it; revoked keys can never be reactivated.
+ */
+export async function registerRelayerKey(
+  tx: LedgerTx,
+  input: { chainRef: string; keyId: string; publicKey: Hex; reason?: string; now: bigint }
+): Promise<RelayerKeyRecord> {
+  const existing = await tx.getRelayerKey(input.chainRef, input.keyId);
+  if (!existing) {
+    const record = await insertActiveRelayerKey(tx, input);
+    await insertRelayerKeyEvent(tx, {
+      chainRef: input.chainRef,
+      keyId: input.keyId,
+      action: 'REGISTER',
+      fromStatus: null,
+      toStatus: 'ACTIVE',
+      ...(input.reason ? { reason: input.reason } : {}),
+      now: input.now
+    });
+    return record;
+  }
+
+  if (normalizeHex(existing.publicKey) !== normalizeHex(input.publicKey)) {
+    throw new Error('relayer key already registered with a different public key');
+  }
+  if (existing.status === 'REVOKED') {
+    throw new Error('relayer key is revoked');
+  }
+  if (existing.status === 'ACTIVE') {
+    return existing;
+  }
+  const record = await updateRelayerKeyStatus(tx, existing, { status: 'ACTIVE', revokedAt: null, now: input.now });
+  await insertRelayerKeyEvent(tx, {
+    chainRef: input.chainRef,
+    keyId: input.keyId,
+    action: 'REACTIVATE',
+    fromStatus: existing.status,
+    toStatus: 'ACTIVE',
+    ...(input.reason ? { reason: input.reason } : {}),
+    now: input.now
+  });
+  return record;
+}
+
+/** Stops accepting reports from a key until it is registered again. */
+export async function suspendRelayerKey(
+  tx: LedgerTx,
+  input: { chainRef: string; keyId: string; reason?: string; now: bigint }
+): Promise<RelayerKeyRecord> {
+  const existing = await requireRelayerKey(tx, input.chainRef, input.keyId);
+  if (existing.status === 'REVOKED') {
+    throw new Error('relayer key is revoked');
+  }
+  if (existing.status === 'SUSPENDED') {
+    return existing;
+  }
+  const record = await updateRelayerKeyStatus(tx, existing, { status: 'SUSPENDED', revokedAt: null, now: input.now });
+  await insertRelayerKeyEvent(tx, {
+    chainRef: input.chainRef,
+    keyId: input.keyId,
+    action: 'SUSPEND',
+    fromStatus: existing.status,
+    toStatus: 'SUSPENDED',
+    ...(input.reason ? { reason: input.reason } : {}),
+    now: input.now
+  });
+  return record;
+}
+
+/**
+ * Permanently revokes a key. `effectiveAt` may be backdated to when the key is believed to
+ * have been compromised; reports stamped at or after it are rejected. Revoking an already
+ * revoked key can only move the revocation earlier.
+ */
+export async function revokeRelayerKey(
+  tx: LedgerTx,
+  input: {
+    chainRef: string;
+    keyId: string;
+    reason?: string;
+    effectiveAt?: bigint;
+    relatedKeyId?: string;
+    action?: Extract<RelayerKeyAction, 'REVOKE' | 'ROTATE'>;
+    now: bigint;
+  }
+): Promise<RelayerKeyRecord> {
+  const effectiveAt = input.effectiveAt ?? input.now;
+  if (effectiveAt > input.now) {
+    throw new Error('effectiveAt must not be in the future');
+  }
+  const existing = await requireRelayerKey(tx, input.chainRef, input.keyId);
+  if (existing.status === 'REVOKED' && existing.revokedAt !== null && BigInt(existing.revokedAt) <= effectiveAt) {
+    return existing;
+  }
+  const record = await updateRelayerKeyStatus(tx, existing, {
+    status: 'REVOKED',
+    revokedAt: effectiveAt,
+    now: input.now
+  });
+  await insertRelayerKeyEvent(tx, {
+    chainRef: input.chainRef,
+    keyId: input.keyId,
+    action: input.action ?? 'REVOKE',
+    fromStatus: existing.status,
+    toStatus: 'REVOKED',
+    ...(input.relatedKeyId ? { relatedKeyId: input.relatedKeyId } : {}),
+    ...(input.reason ? { reason: input.reason } : {}),
+    now: input.now
+  });
+  return record;
+}
+
+/**
+ * Replaces a key with a newly registered one. The old key is revoked as of `now`, so
+ * reports it signed before the rotation are still accepted.
+ */
+export async function rotateRelayerKey(
+  tx: LedgerTx,
+  input: {
+    chainRef: string;
+    keyId: string;
+    newKeyId: string;
+    newPublicKey: Hex;
+    reason?: string;
+    now: bigint;
+  }
+): Promise<{ previous: RelayerKeyRecord; current: RelayerKeyRecord }> {
+  const existing = await requireRelayerKey(tx, input.chainRef, input.keyId);
+  if (existing.status === 'REVOKED') {
+    throw new Error('relayer key is revoked');
+  }
+  if (await tx.getRelayerKey(input.chainRef, input.newKeyId)) {
+    throw new Error(`relayer key ${input.newKeyId} already registered`);
+  }
+
+  const current = await insertActiveRelayerKey(tx, {
+    chainRef: input.chainRef,
+    keyId: input.newKeyId,
+    publicKey: input.newPublicKey,
+    now: input.now
+  });
+  await insertRelayerKeyEvent(tx, {
+    chainRef: input.chainRef,
+    keyId: input.newKeyId,
+    action: 'ROTATE',
+    fromStatus: null,
+    toStatus: 'ACTIVE',
+    relatedKeyId: input.keyId,
+    ...(input.reason ? { reason: input.reason } : {}),
+    now: input.now
+  });
+  const previous = await revokeRelayerKey(tx, {
+    chainRef: input.chainRef,
+    keyId: input.keyId,
+    relatedKeyId: input.newKeyId,
+    action: 'ROTATE',
+    ...(input.reason ? { reason: input.reason } : {}),
+    now: input.now
+  });
+  return { previous, current };
+}
+
+export async function listRelayerKeys(input: { store: LedgerStore; chainRef?: string }): Promise<RelayerKeyRecord[]> {
+  return input.store.read((tx) => tx.listRelayerKeys(input.chainRef));
+}
+
+export async function listRelayerKeyEvents(input: {
+  store: LedgerStore;
+  chainRef: string;
+  keyId: string;
+}): Promise<RelayerKeyEvent[]> {
+  return input.store.read((tx) => tx.listRelayerKeyEvents(input.chainRef, input.keyId));
+}
@@ -1,11 +1,32 @@
 import {
   buildIntentTypedDataPayload,
   buildReclaimTypedDataPayload,
+  canonicalAgentPolicyBytes,
+  canonicalDisputeEvidenceBytes,
+  canonicalDisputeRequestBytes,
   canonicalExecutionReportBytes,
   canonicalIntentBytes,
+  canonicalMerchantQueryBytes,
+  canonicalWithdrawIntentBytes,
+  computeAuthorizationLeaf,
   deriveAgentIdFromPubKey,
+  deriveDisputeId,
+  deriveFundingReceiptPublicKey,
+  deriveLaneAgentNonce,
+  deriveMerchantId,
+  encryptFundingReceipt,
+  hashAuthorization,
+  hashBalanceReceipt,
+  verifyBalanceReceiptChain,
+  verifyMerchantRecordSignature,
+  verifySequencerKeySet,
+  type AgentPolicyV1,
+  type AuthorizeResponseV1,
+  type DisputeEvidenceV1,
+  type DisputeRequestV1,
   type ExecutionReportV1,
-  type IntentV1
+  type IntentV1,
+  type WithdrawIntentV1
 } from '../../../../packages/shared-types/src/sequencer.js';
 import { normalizeHex } from '../../../../packages/shared-types/src/hex.js';
 import type { Hex } from '../../../../packages/shared-types/src/types.js';
@@ -14,8 +35,39 @@ import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vites
 import { createEd25519PrivateKeyFromSeed, extractEd25519RawPublicKey, sha256 } from '../crypto.js';
 import { runMigrations } from '../db/migrate.js';
 import { seedRelayerKeys } from '../db/schema.js';
-import { buildInclusionProof, runCommitmentEpoch } from './commitments.js';
-import { authorizeIntent, reclaimAuthorization, recordExecution } from './ledger.js';
+import type { CommitmentAnchor } from './anchors.js';
+import {
+  buildInclusionProof,
+  getCommitmentEpochLeaves,
+  runCommitmentEpoch,
+  runCommitmentPoster
+} from './commitments.js';
+import {
+  deriveFundingCommitment,
+  runFundingScan,
+  submitFundingClaim,
+  type FundingLogSource,
+  type SpentEvent
+} from './funding.js';
+import { listRelayerFeeAccounts } from './fees.js';
+import { fileDispute, getDispute, listDisputes, resolveDispute, resolveOverdueDisputes, submitDisputeEvidence } from './disputes.js';
+import { listAgentAuthorizations } from './history.js';
+import { getMerchantStatement, registerMerchantKey, revokeMerchantKey, verifyMerchantQuery } from './merchants.js';
+import { getMerchant, getSignedMerchant, upsertMerchant } from './merchantRegistry.js';
+import { createLeaderElector } from './leader.js';
+import { authorizeIntent, getAgentAccount, reclaimAuthorization, recordExecution } from './ledger.js';
+import { createPostgresLedgerStore } from '../store/postgresLedgerStore.js';
+import type { LedgerStore } from '../store/ledgerStore.js';
+import { buildSignedKeySet, parseSequencerSigningKeysEnv, registerSequencerKeys } from './keys.js';
+import { applyAgentPolicyUpdate, verifyAgentPolicySignature } from './policies.js';
+import { listRelayerKeyEvents, listRelayerKeys, rotateRelayerKey } from './relayerKeys.js';
+import {
+  getWithdrawal,
+  requestWithdrawal,
+  runWithdrawalPoster,
+  type ShieldedPoolDeposit,
+  type WithdrawalDepositPoster
+} from './withdrawals.js';
 
 vi.mock(
   '@shielded-x402/shared-types',
@@ -44,13 +96,27 @@ function nowSeconds(): bigint {
 async function resetDatabase(pool: any): Promise<void> {
   await pool.query(
     `TRUNCATE TABLE
+       agent_nonce_lanes,
+       agent_policies,
+       dispute_events,
+       disputes,
+       funding_deposits,
        execution_attempts,
        executions,
        auth_leaves,
        authorizations,
        idempotency_keys,
+       merchant_keys,
+       merchant_payout_addresses,
+       merchants,
+       relayer_fee_accounts,
+       relayer_key_events,
        relayer_keys,
+       withdrawals,
+       commitment_anchor_posts,
        commitments,
+       sequencer_keys,
+       sequencer_leader_lease,
        agents
      RESTART IDENTITY`
   );
@@ -64,10 +130,12 @@ async function resetDatabase(pool: any): Promise<void> {
 
 describeIfDb('sequencer + relayer + postgres integration', () => {
   let pool: any;
+  let store: LedgerStore;
 
   beforeAll(async () => {
     const pg = await import('pg');
     pool = new pg.Pool({ connectionString: DB_URL });
+    store = createPostgresLedgerStore(pool);
     await runMigrations(DB_URL);
   });
 
@@ -96,7 +164,7 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
        ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
       [agentId, agentPubKey, 'ed25519-sha256-v1', '100000', nowSeconds().toString()]
     );
-    await seedRelayerKeys(pool, [{ chainRef, keyId: 'relayer-key-1', publicKey: relayerPublicKey }]);
+    await seedRelayerKeys(store, [{ chainRef, keyId: 'relayer-key-1', publicKey: relayerPublicKey }]);
 
     const intent: IntentV1 = {
       version: 1,
@@ -113,7 +181,7 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
     const agentSig = (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex);
 
     const authorizeResponse = await authorizeIntent({
-      pool,
+      store,
       intent,
       agentSig,
       sequencerKeyId: 'seq-key-1',
@@ -124,10 +192,12 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
     });
 
     const reportPayload = {
+      version: 2 as const,
       authId: authorizeResponse.authorization.authId,
       chainRef,
       executionTxHash: `0x${'66'.repeat(32)}`,
       status: 'SUCCESS' as const,
+      executedAmountMicros: '400',
       reportId: (`0x${'77'.repeat(32)}` as Hex),
       reportedAt: nowSeconds().toString(),
       relayerKeyId: 'relayer-key-1'
@@ -139,28 +209,314 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
     };
 
     const executionResult = await recordExecution({
-      pool,
+      store,
       report
     });
     expect(executionResult.ok).toBe(true);
+    const agentAfterCapture = await pool.query(
+      `SELECT balance_micros, debited_outstanding_micros FROM agents WHERE agent_id = $1`,
+      [agentId]
+    );
+    expect(agentAfterCapture.rows[0]).toEqual({ balance_micros: '99600', debited_outstanding_micros: '400' });
+    expect((await recordExecution({ store, report })).idempotent).toBe(true);
 
     const committed = await runCommitmentEpoch({
-      pool,
+      store,
       sequencerKeyId: 'seq-key-1',
-      baseRegistryAddress: undefined,
-      basePosterPrivateKey: undefined,
-      baseRpcUrl: undefined
+      anchorConfigured: false
     });
     expect(committed.committed).toBe(true);
 
     const proof = await buildInclusionProof({
-      pool,
+      store,
       authId: authorizeResponse.authorization.authId,
       leafSaltSecret: LEAF_SALT_SECRET
     });
     expect(proof.authId).toBe(authorizeResponse.authorization.authId);
     expect(proof.root).toMatch(/^0x[0-9a-f]{64}$/);
     expect(proof.sequencerKeyId).toBe('seq-key-1');
+
+    const epoch = await getCommitmentEpochLeaves({ store, epochId: proof.epochId });
+    expect(epoch.root).toBe(proof.root);
+    expect(epoch.leaves[proof.leafIndex]?.leafHash).toBe(proof.leafHash);
+    expect(epoch.leaves[0]?.prevLeafHash).toBe(ZERO_HASH);
+    expect(
+      computeAuthorizationLeaf({
+        logSeqNo: authorizeResponse.authorization.logSeqNo,
+        prevLeafHash: proof.prevLeafHash,
+        authHash: hashAuthorization(authorizeResponse.authorization),
+        salt: proof.leafSalt
+      })
+    ).toBe(proof.leafHash);
+  });
+
+  it('debits the relayer fee with the authorization and accrues it to the executing relayer', async () => {
+    const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(1));
+    const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(2));
+    const relayerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(3));
+    const relayerPublicKey = extractEd25519RawPublicKey(createPublicKey(relayerPrivateKey));
+
+    const chainRef = 'solana:devnet';
+    const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+    const agentId = deriveAgentIdFromPubKey(agentPubKey);
+    await pool.query(
+      `INSERT INTO agents(
+         agent_id, agent_pub_key, signature_scheme, balance_micros,
+         next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at
+       ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
+      [agentId, agentPubKey, 'ed25519-sha256-v1', '100000', nowSeconds().toString()]
+    );
+    await seedRelayerKeys(store, [{ chainRef, keyId: 'relayer-key-1', publicKey: relayerPublicKey }]);
+
+    const intent: IntentV1 = {
+      version: 1,
+      agentId,
+      agentPubKey,
+      signatureScheme: 'ed25519-sha256-v1',
+      agentNonce: '0',
+      amountMicros: '10000',
+      merchantId: (`0x${'44'.repeat(32)}` as Hex),
+      requiredChainRef: chainRef,
+      expiresAt: (nowSeconds() + 300n).toString(),
+      requestId: (`0x${'55'.repeat(32)}` as Hex)
+    };
+    const authorizeResponse = await authorizeIntent({
+      store,
+      intent,
+      agentSig: (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex),
+      sequencerKeyId: 'seq-key-1',
+      sequencerPrivateKey,
+      leafSaltSecret: LEAF_SALT_SECRET,
+      executionGraceSeconds: EXECUTION_GRACE_SECONDS,
+      supportedChainRefs: new Set([chainRef]),
+      feeSchedule: new Map([[chainRef, { chainRef, flatMicros: '100', bps: 25 }]])
+    });
+    expect(authorizeResponse.authorization).toMatchObject({ version: 2, feeMicros: '125' });
+    const stored = await store.read((tx) => tx.getAuthorization(authorizeResponse.authorization.authId));
+    expect(stored?.feeMicros).toBe('125');
+
+    const reportPayload = {
+      version: 2 as const,
+      authId: authorizeResponse.authorization.authId,
+      chainRef,
+      executionTxHash: `0x${'66'.repeat(32)}`,
+      status: 'SUCCESS' as const,
+      executedAmountMicros: '10000',
+      reportId: (`0x${'77'.repeat(32)}` as Hex),
+      reportedAt: nowSeconds().toString(),
+      relayerKeyId: 'relayer-key-1'
+    };
+    const report: ExecutionReportV1 = {
+      ...reportPayload,
+      reportSig: (`0x${sign(null, sha256(canonicalExecutionReportBytes(reportPayload)), relayerPrivateKey).toString('hex')}` as Hex)
+    };
+    await recordExecution({ store, report });
+    expect((await recordExecution({ store, report })).idempotent).toBe(true);
+
+    const agent = await pool.query(
+      `SELECT balance_micros, debited_outstanding_micros FROM agents WHERE agent_id = $1`,
+      [agentId]
+    );
+    expect(agent.rows[0]).toEqual({ balance_micros: '89875', debited_outstanding_micros: '10125' });
+    expect(await listRelayerFeeAccounts({ store, chainRef })).toMatchObject([
+      { chainRef, relayerKeyId: 'relayer-key-1', accruedMicros: '125', executionsCount: '1' }
+    ]);
+  });
+
+  it('serves merchant statements with per-chain totals and inclusion references', async () => {
+    const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(1));
+    const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(2));
+    const relayerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(3));
+    const merchantPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(4));
+    const relayerPublicKey = extractEd25519RawPublicKey(createPublicKey(relayerPrivateKey));
+
+    const chainRef = 'solana:devnet';
+    const serviceRegistryId = 'eip155:8453:0x1111111111111111111111111111111111111111:7';
+    const endpointUrl = 'https://merchant.example/pay';
+    const merchantId = deriveMerchantId({ serviceRegistryId, endpointUrl });
+    const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+    const agentId = deriveAgentIdFromPubKey(agentPubKey);
+    await pool.query(
+      `INSERT INTO agents(
+         agent_id, agent_pub_key, signature_scheme, balance_micros,
+         next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at
+       ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
+      [agentId, agentPubKey, 'ed25519-sha256-v1', '100000', nowSeconds().toString()]
+    );
+    await seedRelayerKeys(store, [{ chainRef, keyId: 'relayer-key-1', publicKey: relayerPublicKey }]);
+    await registerMerchantKey({
+      store,
+      serviceRegistryId,
+      keyId: 'merchant-key-1',
+      publicKey: extractEd25519RawPublicKey(createPublicKey(merchantPrivateKey)),
+      now: nowSeconds()
+    });
+
+    const from = nowSeconds() - 10n;
+    const authIds: Hex[] = [];
+    for (const [agentNonce, executedAmountMicros] of [[0, '400'], [1, '1000']] as const) {
+      const intent: IntentV1 = {
+        version: 1,
+        agentId,
+        agentPubKey,
+        signatureScheme: 'ed25519-sha256-v1',
+        agentNonce: agentNonce.toString(),
+        amountMicros: '1000',
+        merchantId,
+        requiredChainRef: chainRef,
+        expiresAt: (nowSeconds() + 300n).toString(),
+        requestId: (`0x${(0x50 + agentNonce).toString(16).repeat(32)}` as Hex)
+      };
+      const { authorization } = await authorizeIntent({
+        store,
+        intent,
+        agentSig: (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex),
+        sequencerKeyId: 'seq-key-1',
+        sequencerPrivateKey,
+        leafSaltSecret: LEAF_SALT_SECRET,
+        executionGraceSeconds: EXECUTION_GRACE_SECONDS,
+        supportedChainRefs: new Set([chainRef])
+      });
+      const reportPayload = {
+        version: 2 as const,
+        authId: authorization.authId,
+        chainRef,
+        executionTxHash: `0x${(0x60 + agentNonce).toString(16).repeat(32)}`,
+        status: 'SUCCESS' as const,
+        executedAmountMicros,
+        reportId: (`0x${(0x70 + agentNonce).toString(16).repeat(32)}` as Hex),
+        reportedAt: nowSeconds().toString(),
+        relayerKeyId: 'relayer-key-1'
+      };
+      await recordExecution({
+        store,
+        report: {
+          ...reportPayload,
+          reportSig: (`0x${sign(null, sha256(canonicalExecutionReportBytes(reportPayload)), relayerPrivateKey).toString('hex')}` as Hex)
+        }
+      });
+      authIds.push(authorization.authId);
+    }
+    await runCommitmentEpoch({ store, sequencerKeyId: 'seq-key-1', anchorConfigured: false });
+
+    const query = {
+      serviceRegistryId,
+      keyId: 'merchant-key-1',
+      resource: `/v1/credit/merchants/${merchantId}/statement?endpointUrl=${encodeURIComponent(endpointUrl)}`,
+      requestedAt: nowSeconds().toString()
+    };
+    const merchantSig = (`0x${sign(null, sha256(canonicalMerchantQueryBytes(query)), merchantPrivateKey).toString('hex')}` as Hex);
+    await verifyMerchantQuery({ store, query, merchantSig, maxSkewSeconds: 60n });
+    await expect(
+      verifyMerchantQuery({ store, query: { ...query, resource: `${query.resource}&limit=1` }, merchantSig, maxSkewSeconds: 60n })
+    ).rejects.toThrow('unauthorized merchant query: invalid signature');
+
+    const window = { endpointUrl, fromExecutedAt: from.toString(), toExecutedAt: (nowSeconds() + 10n).toString() };
+    const firstPage = await getMerchantStatement({ store, merchantId, query: { ...window, limit: 1 } });
+    expect(firstPage.totals).toEqual([{ chainRef, executedMicros: '1400', executions: 2 }]);
+    expect(firstPage.lines).toHaveLength(1);
+    expect(firstPage.lines[0]).toMatchObject({
+      authId: authIds[0],
+      executedAmountMicros: '400',
+      inclusion: { logSeqNo: '1', epochId: '1' }
+    });
+    const secondPage = await getMerchantStatement({
+      store,
+      merchantId,
+      query: { ...window, cursor: firstPage.nextCursor as string }
+    });
+    expect(secondPage.lines.map((line) => line.authId)).toEqual([authIds[1]]);
+    expect(secondPage.nextCursor).toBeNull();
+    const proof = await buildInclusionProof({ store, authId: authIds[1] as Hex, leafSaltSecret: LEAF_SALT_SECRET });
+    expect(proof.leafHash).toBe(secondPage.lines[0]?.inclusion.leafHash);
+
+    await revokeMerchantKey({ store, serviceRegistryId, keyId: 'merchant-key-1', now: nowSeconds() });
+    await expect(verifyMerchantQuery({ store, query, merchantSig, maxSkewSeconds: 60n })).rejects.toThrow(
+      'merchant key not registered'
+    );
+  });
+
+  it('registers merchant payout addresses seeded from an ERC-8004 profile', async () => {
+    const serviceRegistryId = 'eip155:8453:0x1111111111111111111111111111111111111111:7';
+    const endpointUrl = 'https://Merchant.example:443/pay';
+    const merchantId = deriveMerchantId({ serviceRegistryId, endpointUrl });
+    const supportedChainRefs = new Set(['eip155:8453', 'solana:devnet']);
+    const solanaAddress = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+
+    const seeded = await store.transaction((tx) =>
+      upsertMerchant(tx, {
+        registration: {
+          serviceRegistryId,
+          endpointUrl,
+          erc8004Profile: {
+            chainId: 8453,
+            tokenId: '7',
+            services: [],
+            sourceMetadata: { onchainResolved: true, indexerResolved: false },
+            raw: {
+              endpoints: [
+                { name: 'A2A', endpoint: 'https://merchant.example/.well-known/agent-card.json' },
+                { name: 'agentWallet', endpoint: 'eip155:8453:0xAbCdEf0000000000000000000000000000000001' },
+                { name: 'agentWallet', endpoint: 'eip155:1:0x0000000000000000000000000000000000000002' }
+              ]
+            }
+          },
+          payoutAddresses: [{ chainRef: 'solana:devnet', address: solanaAddress }]
+        },
+        supportedChainRefs,
+        now: 100n
+      })
+    );
+    expect(seeded).toMatchObject({
+      merchantId,
+      endpointUrl: 'https://merchant.example/pay',
+      source: 'ERC8004',
+      payoutAddresses: [
+        { chainRef: 'eip155:8453', address: '0xabcdef0000000000000000000000000000000001' },
+        { chainRef: 'solana:devnet', address: solanaAddress }
+      ],
+      updatedAt: '100'
+    });
+
+    const replaced = await store.transaction((tx) =>
+      upsertMerchant(tx, {
+        registration: {
+          serviceRegistryId,
+          endpointUrl,
+          payoutAddresses: [{ chainRef: 'eip155:8453', address: '0x0000000000000000000000000000000000000003' }]
+        },
+        supportedChainRefs,
+        now: 200n
+      })
+    );
+    expect(replaced.source).toBe('ADMIN');
+    expect(await getMerchant({ store, merchantId })).toEqual(replaced);
+    const ring = parseSequencerSigningKeysEnv({
+      keysJson: undefined,
+      keyId: 'seq-key-1',
+      privateKey: `0x${'01'.repeat(32)}`
+    });
+    const signed = await getSignedMerchant({ store, merchantId, sequencerKeys: ring, now: 250n });
+    expect(signed).toMatchObject({ version: 1, record: replaced, issuedAt: '250', sequencerKeyId: 'seq-key-1' });
+    expect(verifyMerchantRecordSignature({ signed, publicKey: ring[0]!.publicKey })).toBe(true);
+    expect(replaced.payoutAddresses).toEqual([
+      { chainRef: 'eip155:8453', address: '0x0000000000000000000000000000000000000003' }
+    ]);
+
+    await expect(
+      store.transaction((tx) =>
+        upsertMerchant(tx, {
+          registration: {
+            serviceRegistryId,
+            endpointUrl,
+            payoutAddresses: [{ chainRef: 'solana:devnet', address: '0x0000000000000000000000000000000000000003' }]
+          },
+          supportedChainRefs,
+          now: 300n
+        })
+      )
+    ).rejects.toThrow('invalid payout address for solana:devnet');
+    await expect(getMerchant({ store, merchantId: `0x${'99'.repeat(32)}` })).rejects.toThrow('merchant not found');
   });
 
   it('rejects conflicting execution tx hashes for the same authId', async () => {
@@ -180,7 +536,7 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
        ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
       [agentId, agentPubKey, 'ed25519-sha256-v1', '100000', nowSeconds().toString()]
     );
-    await seedRelayerKeys(pool, [{ chainRef, keyId: 'relayer-key-1', publicKey: relayerPublicKey }]);
+    await seedRelayerKeys(store, [{ chainRef, keyId: 'relayer-key-1', publicKey: relayerPublicKey }]);
 
     const intent: IntentV1 = {
       version: 1,
@@ -196,7 +552,7 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
     };
     const agentSig = (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex);
     const authorizeResponse = await authorizeIntent({
-      pool,
+      store,
       intent,
       agentSig,
       sequencerKeyId: 'seq-key-1',
@@ -208,10 +564,12 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
 
     const makeReport = (reportId: Hex, txHash: string): ExecutionReportV1 => {
       const payload = {
+        version: 2 as const,
         authId: authorizeResponse.authorization.authId,
         chainRef,
         executionTxHash: txHash,
         status: 'SUCCESS' as const,
+        executedAmountMicros: '1000',
         reportId,
         reportedAt: nowSeconds().toString(),
         relayerKeyId: 'relayer-key-1'
@@ -221,17 +579,431 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
     };
 
     await recordExecution({
-      pool,
+      store,
       report: makeReport((`0x${'ab'.repeat(32)}` as Hex), `0x${'cd'.repeat(32)}`)
     });
     await expect(
       recordExecution({
-        pool,
+        store,
         report: makeReport((`0x${'ef'.repeat(32)}` as Hex), `0x${'12'.repeat(32)}`)
       })
     ).rejects.toThrow('CONFLICT_EXECUTION');
   });
 
+  it('rejects reports from a rotated relayer key stamped after its revocation', async () => {
+    const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(50));
+    const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(51));
+    const oldRelayerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(52));
+    const newRelayerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(53));
+    const chainRef = 'solana:devnet';
+    const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+    const agentId = deriveAgentIdFromPubKey(agentPubKey);
+
+    await pool.query(
+      `INSERT INTO agents(
+         agent_id, agent_pub_key, signature_scheme, balance_micros,
+         next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at
+       ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
+      [agentId, agentPubKey, 'ed25519-sha256-v1', '100000', nowSeconds().toString()]
+    );
+    const oldRelayerKey = {
+      chainRef,
+      keyId: 'relayer-key-1',
+      publicKey: extractEd25519RawPublicKey(createPublicKey(oldRelayerPrivateKey))
+    };
+    await seedRelayerKeys(store, [oldRelayerKey]);
+
+    const authorize = async (nonce: number) => {
+      const intent: IntentV1 = {
+        version: 1,
+        agentId,
+        agentPubKey,
+        signatureScheme: 'ed25519-sha256-v1',
+        agentNonce: String(nonce),
+        amountMicros: '1000',
+        merchantId: (`0x${'88'.repeat(32)}` as Hex),
+        requiredChainRef: chainRef,
+        expiresAt: (nowSeconds() + 300n).toString(),
+        requestId: (`0x${nonce.toString(16).padStart(2, '0').repeat(32)}` as Hex)
+      };
+      const agentSig = (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex);
+      return authorizeIntent({
+        store,
+        intent,
+        agentSig,
+        sequencerKeyId: 'seq-key-1',
+        sequencerPrivateKey,
+        leafSaltSecret: LEAF_SALT_SECRET,
+        executionGraceSeconds: EXECUTION_GRACE_SECONDS,
+        supportedChainRefs: new Set([chainRef])
+      });
+    };
+    const first = await authorize(0);
+    const second = await authorize(1);
+
+    // Revoke a few seconds after issuance so an in-flight report can be stamped in between.
+    const rotatedAt = nowSeconds() + 5n;
+    await store.transaction((tx) =>
+      rotateRelayerKey(tx, {
+        chainRef,
+        keyId: 'relayer-key-1',
+        newKeyId: 'relayer-key-2',
+        newPublicKey: extractEd25519RawPublicKey(createPublicKey(newRelayerPrivateKey)),
+        reason: 'scheduled rotation',
+        now: rotatedAt
+      })
+    );
+    await seedRelayerKeys(store, [oldRelayerKey]);
+
+    const makeReport = (input: {
+      authId: Hex;
+      reportedAt: bigint;
+      relayerKeyId: string;
+      privateKey: typeof oldRelayerPrivateKey;
+      reportByte: string;
+    }): ExecutionReportV1 => {
+      const payload = {
+        version: 2 as const,
+        authId: input.authId,
+        chainRef,
+        executionTxHash: `0x${input.reportByte.repeat(32)}`,
+        status: 'SUCCESS' as const,
+        executedAmountMicros: '1000',
+        reportId: (`0x${input.reportByte.repeat(32)}` as Hex),
+        reportedAt: input.reportedAt.toString(),
+        relayerKeyId: input.relayerKeyId
+      };
+      const sigHex = (`0x${sign(null, sha256(canonicalExecutionReportBytes(payload)), input.privateKey).toString('hex')}` as Hex);
+      return { ...payload, reportSig: sigHex };
+    };
+
+    await expect(
+      recordExecution({
+        store,
+        report: makeReport({
+          authId: second.authorization.authId,
+          reportedAt: rotatedAt,
+          relayerKeyId: 'relayer-key-1',
+          privateKey: oldRelayerPrivateKey,
+          reportByte: 'a1'
+        })
+      })
+    ).rejects.toThrow('UNAUTHORIZED_REPORTER');
+    await expect(
+      recordExecution({
+        store,
+        report: makeReport({
+          authId: first.authorization.authId,
+          reportedAt: rotatedAt - 1n,
+          relayerKeyId: 'relayer-key-1',
+          privateKey: oldRelayerPrivateKey,
+          reportByte: 'a2'
+        })
+      })
+    ).resolves.toEqual({ ok: true, idempotent: false });
+    await expect(
+      recordExecution({
+        store,
+        report: makeReport({
+          authId: second.authorization.authId,
+          reportedAt: rotatedAt,
+          relayerKeyId: 'relayer-key-2',
+          privateKey: newRelayerPrivateKey,
+          reportByte: 'a3'
+        })
+      })
+    ).resolves.toEqual({ ok: true, idempotent: false });
+
+    const keys = await listRelayerKeys({ store, chainRef });
+    expect(keys.map((key) => [key.keyId, key.status])).toEqual([
+      ['relayer-key-1', 'REVOKED'],
+      ['relayer-key-2', 'ACTIVE']
+    ]);
+    const events = await listRelayerKeyEvents({ store, chainRef, keyId: 'relayer-key-1' });
+    expect(events.map((event) => [event.action, event.toStatus, event.relatedKeyId])).toEqual([
+      ['REGISTER', 'ACTIVE', null],
+      ['ROTATE', 'REVOKED', 'relayer-key-2']
+    ]);
+  });
+
+  it('pages agent authorization history with executions and failed attempts', async () => {
+    const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(30));
+    const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(31));
+    const relayerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(32));
+    const relayerPublicKey = extractEd25519RawPublicKey(createPublicKey(relayerPrivateKey));
+
+    const chainRef = 'solana:devnet';
+    const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+    const agentId = deriveAgentIdFromPubKey(agentPubKey);
+    const merchantA = (`0x${'a1'.repeat(32)}` as Hex);
+    const merchantB = (`0x${'b1'.repeat(32)}` as Hex);
+
+    await pool.query(
+      `INSERT INTO agents(
+         agent_id, agent_pub_key, signature_scheme, balance_micros,
+         next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at
+       ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
+      [agentId, agentPubKey, 'ed25519-sha256-v1', '100000', nowSeconds().toString()]
+    );
+    await seedRelayerKeys(store, [{ chainRef, keyId: 'relayer-key-1', publicKey: relayerPublicKey }]);
+
+    const authIds: Hex[] = [];
+    const responses: AuthorizeResponseV1[] = [];
+    let replay: (() => Promise<AuthorizeResponseV1>) | undefined;
+    for (const [nonce, merchantId] of [merchantA, merchantB, merchantA].entries()) {
+      const intent: IntentV1 = {
+        version: 1,
+        agentId,
+        agentPubKey,
+        signatureScheme: 'ed25519-sha256-v1',
+        agentNonce: String(nonce),
+        amountMicros: '1000',
+        merchantId,
+        requiredChainRef: chainRef,
+        expiresAt: (nowSeconds() + 300n).toString(),
+        requestId: (`0x${String(nonce + 1).padStart(2, '0').repeat(32)}` as Hex)
+      };
+      const agentSig = (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex);
+      const authorize = () =>
+        authorizeIntent({
+          store,
+          intent,
+          agentSig,
+          sequencerKeyId: 'seq-key-1',
+          sequencerPrivateKey,
+          leafSaltSecret: LEAF_SALT_SECRET,
+          executionGraceSeconds: EXECUTION_GRACE_SECONDS,
+          supportedChainRefs: new Set([chainRef])
+        });
+      replay ??= authorize;
+      const response = await authorize();
+      authIds.push(response.authorization.authId);
+      responses.push(response);
+    }
+
+    const receipts = responses.map((response) => ({
+      receipt: response.balanceReceipt!,
+      balanceReceiptSig: response.balanceReceiptSig!
+    }));
+    expect(
+      receipts.map(({ receipt }) => [receipt.balanceMicros, receipt.debitedOutstandingMicros, receipt.nextAgentNonce])
+    ).toEqual([
+      ['99000', '1000', '1'],
+      ['98000', '2000', '2'],
+      ['97000', '3000', '3']
+    ]);
+    expect(receipts[0]?.receipt.prevReceiptHash).toBe(ZERO_HASH);
+    expect(
+      verifyBalanceReceiptChain({
+        receipts,
+        sequencerKeys: { 'seq-key-1': extractEd25519RawPublicKey(createPublicKey(sequencerPrivateKey)) },
+        prevReceiptHash: ZERO_HASH
+      })
+    ).toBe(hashBalanceReceipt(receipts[2]!.receipt));
+    const replayed = await replay!();
+    expect(replayed.idempotent).toBe(true);
+    expect(replayed.balanceReceipt).toEqual(receipts[0]?.receipt);
+    expect(replayed.balanceReceiptSig).toBe(receipts[0]?.balanceReceiptSig);
+
+    const makeReport = (authId: Hex, reportId: Hex, status: 'SUCCESS' | 'FAILED'): ExecutionReportV1 => {
+      const payload = {
+        version: 2 as const,
+        authId,
+        chainRef,
+        executionTxHash: `0x${reportId.slice(2, 4).repeat(32)}`,
+        status,
+        executedAmountMicros: status === 'SUCCESS' ? '1000' : '0',
+        reportId,
+        reportedAt: nowSeconds().toString(),
+        relayerKeyId: 'relayer-key-1'
+      };
+      const sigHex = (`0x${sign(null, sha256(canonicalExecutionReportBytes(payload)), relayerPrivateKey).toString('hex')}` as Hex);
+      return { ...payload, reportSig: sigHex };
+    };
+    await recordExecution({ store, report: makeReport(authIds[0]!, `0x${'c1'.repeat(32)}`, 'FAILED') });
+    await recordExecution({ store, report: makeReport(authIds[0]!, `0x${'c2'.repeat(32)}`, 'SUCCESS') });
+
+    const firstPage = await listAgentAuthorizations({ store, agentId, query: { limit: 2 } });
+    expect(firstPage.items.map((item) => item.authorization.authId)).toEqual([authIds[2], authIds[1]]);
+    expect(firstPage.nextCursor).toBe(firstPage.items[1]?.authorization.logSeqNo);
+    expect(firstPage.items[0]?.balanceReceipt).toEqual(receipts[2]?.receipt);
+
+    const secondPage = await listAgentAuthorizations({
+      store,
+      agentId,
+      query: { limit: 2, cursor: firstPage.nextCursor! }
+    });
+    expect(secondPage.nextCursor).toBeNull();
+    const [executed] = secondPage.items;
+    expect(executed?.status).toBe('EXECUTED');
+    expect(executed?.execution?.executionTxHash).toBe(`0x${'c2'.repeat(32)}`);
+    expect(executed?.execution?.executedAmountMicros).toBe('1000');
+    expect(executed?.failedAttempts.map((attempt) => attempt.reportId)).toEqual([`0x${'c1'.repeat(32)}`]);
+
+    const filtered = await listAgentAuthorizations({
+      store,
+      agentId,
+      query: { merchantId: merchantA, status: 'ISSUED' }
+    });
+    expect(filtered.items.map((item) => item.authorization.authId)).toEqual([authIds[2]]);
+  });
+
+  it('authorizes nonce lanes independently and rejects lane replays', async () => {
+    const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(1));
+    const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(36));
+    const chainRef = 'solana:devnet';
+    const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+    const agentId = deriveAgentIdFromPubKey(agentPubKey);
+
+    await pool.query(
+      `INSERT INTO agents(
+         agent_id, agent_pub_key, signature_scheme, balance_micros,
+         next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at
+       ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
+      [agentId, agentPubKey, 'ed25519-sha256-v1', '100000', nowSeconds().toString()]
+    );
+
+    const authorizeLane = async (nonceLane: number, laneSeq: string, requestByte: string) => {
+      const intent: IntentV1 = {
+        version: 2,
+        agentId,
+        agentPubKey,
+        signatureScheme: 'ed25519-sha256-v1',
+        agentNonce: deriveLaneAgentNonce({ nonceLane, laneSeq }),
+        nonceLane,
+        laneSeq,
+        amountMicros: '1000',
+        merchantId: (`0x${'a1'.repeat(32)}` as Hex),
+        requiredChainRef: chainRef,
+        expiresAt: (nowSeconds() + 300n).toString(),
+        requestId: (`0x${requestByte.repeat(32)}` as Hex)
+      };
+      const agentSig = (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex);
+      return authorizeIntent({
+        store,
+        intent,
+        agentSig,
+        sequencerKeyId: 'seq-key-1',
+        sequencerPrivateKey,
+        leafSaltSecret: LEAF_SALT_SECRET,
+        executionGraceSeconds: EXECUTION_GRACE_SECONDS,
+        supportedChainRefs: new Set([chainRef])
+      });
+    };
+
+    // Lane 1 never gets seq 0 through; lanes 2 and 0 proceed regardless.
+    await expect(authorizeLane(1, '1', 'd1')).rejects.toThrow('invalid lane sequence for nonceLane 1: expected 0');
+    const lane2 = await authorizeLane(2, '0', 'd2');
+    await authorizeLane(2, '1', 'd3');
+    await authorizeLane(0, '0', 'd4');
+    expect(lane2.authorization.agentNonce).toBe(deriveLaneAgentNonce({ nonceLane: 2, laneSeq: '0' }));
+    await expect(authorizeLane(2, '0', 'd5')).rejects.toThrow('invalid lane sequence for nonceLane 2: expected 2');
+
+    const account = await getAgentAccount({ store, agentId });
+    expect(account.nextAgentNonce).toBe('1');
+    expect(account.nonceLanes).toEqual([{ nonceLane: 2, nextLaneSeq: '2' }]);
+  });
+
+  it('enforces agent-signed spending policies with monotonic versions', async () => {
+    const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(40));
+    const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(41));
+    const chainRef = 'solana:devnet';
+    const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+    const agentId = deriveAgentIdFromPubKey(agentPubKey);
+    const allowedMerchant = (`0x${'a4'.repeat(32)}` as Hex);
+
+    await pool.query(
+      `INSERT INTO agents(
+         agent_id, agent_pub_key, signature_scheme, balance_micros,
+         next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at
+       ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
+      [agentId, agentPubKey, 'ed25519-sha256-v1', '100000', nowSeconds().toString()]
+    );
+
+    const setPolicy = async (policy: AgentPolicyV1) => {
+      const agentSig = (`0x${sign(null, sha256(canonicalAgentPolicyBytes(policy)), agentPrivateKey).toString('hex')}` as Hex);
+      await verifyAgentPolicySignature(policy, agentSig);
+      return store.transaction((tx) => applyAgentPolicyUpdate(tx, { policy, agentSig, now: nowSeconds() }));
+    };
+    const policy: AgentPolicyV1 = {
+      version: 1,
+      agentId,
+      agentPubKey,
+      signatureScheme: 'ed25519-sha256-v1',
+      policyVersion: '1',
+      maxAmountPerAuthMicros: '2000',
+      hourlyCapMicros: '3000',
+      merchantAllowlist: [allowedMerchant]
+    };
+    await setPolicy(policy);
+    await expect(setPolicy({ ...policy, maxAmountPerAuthMicros: '90000' })).rejects.toThrow(
+      'POLICY_VERSION_NOT_INCREASING'
+    );
+
+    let nonce = 0;
+    const authorize = (amountMicros: string, merchantId: Hex) => {
+      const intent: IntentV1 = {
+        version: 1,
+        agentId,
+        agentPubKey,
+        signatureScheme: 'ed25519-sha256-v1',
+        agentNonce: String(nonce),
+        amountMicros,
+        merchantId,
+        requiredChainRef: chainRef,
+        expiresAt: (nowSeconds() + 300n).toString(),
+        requestId: (`0x${(0xd0 + nonce).toString(16).repeat(32)}` as Hex)
+      };
+      const agentSig = (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex);
+      return authorizeIntent({
+        store,
+        intent,
+        agentSig,
+        sequencerKeyId: 'seq-key-1',
+        sequencerPrivateKey,
+        leafSaltSecret: LEAF_SALT_SECRET,
+        executionGraceSeconds: EXECUTION_GRACE_SECONDS,
+        supportedChainRefs: new Set([chainRef])
+      });
+    };
+
+    await expect(authorize('2500', allowedMerchant)).rejects.toThrow('POLICY_AMOUNT_EXCEEDED');
+    await expect(authorize('1000', (`0x${'b4'.repeat(32)}` as Hex))).rejects.toThrow(
+      'POLICY_MERCHANT_NOT_ALLOWED'
+    );
+    await authorize('2000', allowedMerchant);
+    nonce += 1;
+    await expect(authorize('1500', allowedMerchant)).rejects.toThrow('POLICY_HOURLY_CAP_EXCEEDED');
+
+    await setPolicy({ ...policy, policyVersion: '2', hourlyCapMicros: '5000' });
+    await expect(authorize('1500', allowedMerchant)).resolves.toMatchObject({ idempotent: false });
+  });
+
+  it('publishes a key set signed by the previous key and keeps dropped keys registered', async () => {
+    const ring = parseSequencerSigningKeysEnv({
+      keysJson: JSON.stringify([
+        { keyId: 'seq-key-1', privateKey: `0x${'01'.repeat(32)}`, activatesAt: '0', retiresAt: '2000' },
+        { keyId: 'seq-key-2', privateKey: `0x${'02'.repeat(32)}`, activatesAt: '1000' }
+      ]),
+      keyId: undefined,
+      privateKey: undefined
+    });
+    await registerSequencerKeys(store, ring);
+
+    const signed = await buildSignedKeySet({ store, keys: ring, now: 1500n });
+    expect(signed.keySet.currentKeyId).toBe('seq-key-2');
+    expect(signed.signerKeyId).toBe('seq-key-1');
+    const keys = verifySequencerKeySet({ signed, trustedKeys: { 'seq-key-1': ring[0]!.publicKey } });
+    expect(keys.map((key) => [key.keyId, key.retiresAt])).toEqual([
+      ['seq-key-1', '2000'],
+      ['seq-key-2', null]
+    ]);
+
+    const afterRetirement = await buildSignedKeySet({ store, keys: [ring[1]!], now: 2500n });
+    expect(afterRetirement.signerKeyId).toBe('seq-key-2');
+    expect(afterRetirement.keySet.keys.map((key) => key.keyId)).toEqual(['seq-key-1', 'seq-key-2']);
+  });
+
   it('accepts eip712 agent reclaim signatures after expiry', async () => {
     const viemAccounts = await import('viem/accounts');
     const account = viemAccounts.privateKeyToAccount(`0x${'13'.repeat(32)}`);
@@ -263,7 +1035,7 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
     const agentSig = await account.signTypedData(buildIntentTypedDataPayload(intent));
 
     const authorizeResponse = await authorizeIntent({
-      pool,
+      store,
       intent,
       agentSig: normalizeHex(agentSig),
       sequencerKeyId: 'seq-key-1',
@@ -283,7 +1055,7 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
     };
     const reclaimSig = await account.signTypedData(buildReclaimTypedDataPayload(reclaimPayload));
     const reclaimResponse = await reclaimAuthorization({
-      pool,
+      store,
       request: {
         ...reclaimPayload,
         agentSig: normalizeHex(reclaimSig)
@@ -295,4 +1067,421 @@ describeIfDb('sequencer + relayer + postgres integration', () => {
     expect(reclaimResponse.ok).toBe(true);
     expect(reclaimResponse.authId).toBe(authorizeResponse.authorization.authId);
   });
+
+  it('posts unposted commitment epochs to each anchor in order with backoff and on-chain detection', async () => {
+    const root = (epochId: number): Hex => (`0x${epochId.toString(16).padStart(2, '0').repeat(32)}` as Hex);
+    for (const epochId of [1, 2, 3]) {
+      await pool.query(
+        `INSERT INTO commitments(epoch_id, root, count, prev_root, sequencer_key_id)
+         VALUES ($1, $2, 1, $3, 'seq-key-1')`,
+        [epochId, root(epochId), epochId === 1 ? ZERO_HASH : root(epochId - 1)]
+      );
+    }
+
+    // Stand-in for CommitmentRegistryV1 on one chain; failures are queued per call to post().
+    const createRegistry = (anchorId: string, preloaded: Array<[bigint, Hex]>) => {
+      const roots = new Map<bigint, Hex>(preloaded);
+      const posts: bigint[] = [];
+      const failures: string[] = [];
+      let unconfirmed = false;
+      const anchor: CommitmentAnchor = {
+        anchorId,
+        async readRoot(epochId) {
+          return roots.get(epochId) ?? ZERO_HASH;
+        },
+        async findPost(epochId) {
+          return roots.has(epochId) ? { txHash: (`0x${'e0'.repeat(32)}` as Hex), confirmed: !unconfirmed } : null;
+        },
+        async post(commitment) {
+          const failure = failures.shift();
+          if (failure) throw new Error(failure);
+          if (commitment.epochId !== BigInt(roots.size) + 1n) throw new Error('InvalidEpoch');
+          posts.push(commitment.epochId);
+          roots.set(commitment.epochId, commitment.root);
+          return (`0x${'e1'.repeat(32)}` as Hex);
+        }
+      };
+      return {
+        anchor,
+        posts,
+        failures,
+        setUnconfirmed(value: boolean) {
+          unconfirmed = value;
+        }
+      };
+    };
+
+    // Epoch 1 landed on the primary chain before the sequencer recorded it.
+    const primary = createRegistry('eip155:84532', [[1n, root(1)]]);
+    primary.setUnconfirmed(true);
+    expect(await runCommitmentPoster({ store, anchor: primary.anchor, primary: true })).toEqual({ posted: 0 });
+    await pool.query(`UPDATE commitment_anchor_posts SET next_post_at = 0`);
+    primary.setUnconfirmed(false);
+    primary.failures.push('rpc unavailable');
+
+    expect(await runCommitmentPoster({ store, anchor: primary.anchor, primary: true })).toEqual({ posted: 1 });
+    const afterFailure = await pool.query(
+      `SELECT c.epoch_id, c.posted_tx_hash, p.post_attempts, p.last_error, p.next_post_at > $1 AS backing_off
+       FROM commitments c
+       JOIN commitment_anchor_posts p ON p.epoch_id = c.epoch_id
+       ORDER BY c.epoch_id ASC`,
+      [nowSeconds().toString()]
+    );
+    expect(afterFailure.rows).toEqual([
+      { epoch_id: '1', posted_tx_hash: `0x${'e0'.repeat(32)}`, post_attempts: 1, last_error: null, backing_off: false },
+      { epoch_id: '2', posted_tx_hash: null, post_attempts: 1, last_error: 'rpc unavailable', backing_off: true }
+    ]);
+    expect(await runCommitmentPoster({ store, anchor: primary.anchor, primary: true })).toEqual({ posted: 0 });
+
+    await pool.query(`UPDATE commitment_anchor_posts SET next_post_at = 0 WHERE epoch_id = 2`);
+    expect(await runCommitmentPoster({ store, anchor: primary.anchor, primary: true })).toEqual({ posted: 2 });
+    expect(primary.posts).toEqual([2n, 3n]);
+
+    // A secondary anchor replays the same chain of roots without touching posted_at.
+    const postedBefore = await pool.query(`SELECT epoch_id, posted_at FROM commitments ORDER BY epoch_id ASC`);
+    const secondary = createRegistry('eip155:31337', []);
+    expect(await runCommitmentPoster({ store, anchor: secondary.anchor, primary: false })).toEqual({ posted: 3 });
+    expect(secondary.posts).toEqual([1n, 2n, 3n]);
+    expect((await pool.query(`SELECT epoch_id, posted_at FROM commitments ORDER BY epoch_id ASC`)).rows).toEqual(
+      postedBefore.rows
+    );
+
+    await pool.query(
+      `INSERT INTO commitments(epoch_id, root, count, prev_root, sequencer_key_id)
+       VALUES (4, $1, 1, $2, 'seq-key-1')`,
+      [root(4), root(2)]
+    );
+    expect(await runCommitmentPoster({ store, anchor: primary.anchor, primary: true })).toEqual({ posted: 0 });
+    const broken = await pool.query(
+      `SELECT last_error FROM commitment_anchor_posts WHERE anchor_id = 'eip155:84532' AND epoch_id = 4`
+    );
+    expect(broken.rows[0].last_error).toContain('prevRoot chain broken at epoch 4');
+    expect(primary.posts).toEqual([2n, 3n]);
+  });
+
+  it('credits shielded funding once per nullifier after the spend is observed', async () => {
+    const receiptPrivateKey = (`0x${'21'.repeat(32)}` as Hex);
+    const fundingKey = { receiptPrivateKey, pkHash: (`0x${'22'.repeat(32)}` as Hex) };
+    const agentId = (`0x${'23'.repeat(32)}` as Hex);
+    const nullifier = (`0x${'24'.repeat(32)}` as Hex);
+    const rho = (`0x${'00'.repeat(31)}25` as Hex);
+
+    // Stand-in for the ShieldedPool on a local chain: spends are appended as they land.
+    const chain: SpentEvent[] = [];
+    const logSource: FundingLogSource = {
+      async getSpentEvents(nullifiers) {
+        return chain.filter((event) => nullifiers.includes(event.nullifier));
+      }
+    };
+
+    await submitFundingClaim({
+      store,
+      nullifier,
+      encryptedReceipt: encryptFundingReceipt({
+        receipt: { version: 1, agentId, nullifier, amountMicros: '7500', rho },
+        recipientPublicKey: deriveFundingReceiptPublicKey(receiptPrivateKey)
+      }),
+      fundingKey
+    });
+    expect(await runFundingScan({ store, logSource })).toEqual({ scanned: 1, credited: 0, rejected: 0 });
+
+    chain.push({
+      nullifier,
+      merchantCommitment: deriveFundingCommitment({ amount: 7500n, rho, pkHash: fundingKey.pkHash }),
+      amount: 7500n,
+      txHash: (`0x${'26'.repeat(32)}` as Hex),
+      blockNumber: 5n
+    });
+    expect((await runFundingScan({ store, logSource })).credited).toBe(1);
+    expect((await runFundingScan({ store, logSource })).scanned).toBe(0);
+
+    const agent = await pool.query(
+      `SELECT balance_micros, credited_micros FROM agents WHERE agent_id = $1`,
+      [agentId]
+    );
+    expect(agent.rows[0]).toEqual({ balance_micros: '7500', credited_micros: '7500' });
+  });
+
+  it('debits a withdrawal, commits its leaf, and deposits the commitment once', async () => {
+    const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(1));
+    const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(2));
+    const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+    const agentId = deriveAgentIdFromPubKey(agentPubKey);
+
+    await pool.query(
+      `INSERT INTO agents(
+         agent_id, agent_pub_key, signature_scheme, balance_micros,
+         next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at
+       ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
+      [agentId, agentPubKey, 'ed25519-sha256-v1', '10000', nowSeconds().toString()]
+    );
+
+    const intent: WithdrawIntentV1 = {
+      version: 1,
+      agentId,
+      agentPubKey,
+      signatureScheme: 'ed25519-sha256-v1',
+      agentNonce: '0',
+      amountMicros: '4000',
+      commitment: (`0x${'31'.repeat(32)}` as Hex),
+      expiresAt: (nowSeconds() + 300n).toString(),
+      requestId: (`0x${'32'.repeat(32)}` as Hex)
+    };
+    const agentSig = (`0x${sign(null, sha256(canonicalWithdrawIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex);
+    const request = {
+      store,
+      intent,
+      agentSig,
+      sequencerKeyId: 'seq-key-1',
+      sequencerPrivateKey,
+      leafSaltSecret: LEAF_SALT_SECRET
+    };
+
+    const first = await requestWithdrawal(request);
+    expect(first.status).toBe('PENDING');
+    expect(first.balanceReceipt).toMatchObject({ authId: first.withdrawal.withdrawalId, balanceMicros: '6000' });
+    await expect(requestWithdrawal(request)).resolves.toMatchObject({
+      idempotent: true,
+      balanceReceipt: first.balanceReceipt,
+      balanceReceiptSig: first.balanceReceiptSig
+    });
+    await expect(
+      requestWithdrawal({ ...request, intent: { ...intent, agentNonce: '1', requestId: (`0x${'33'.repeat(32)}` as Hex) } })
+    ).rejects.toThrow('invalid agent withdraw intent signature');
+
+    const agent = await pool.query(
+      `SELECT balance_micros, withdrawn_micros, next_agent_nonce FROM agents WHERE agent_id = $1`,
+      [agentId]
+    );
+    expect(agent.rows[0]).toEqual({ balance_micros: '6000', withdrawn_micros: '4000', next_agent_nonce: '1' });
+
+    expect((await runCommitmentEpoch({
+      store,
+      sequencerKeyId: 'seq-key-1',
+      anchorConfigured: false
+    })).committed).toBe(true);
+    const proof = await buildInclusionProof({
+      store,
+      authId: first.withdrawal.withdrawalId,
+      leafSaltSecret: LEAF_SALT_SECRET
+    });
+    expect(proof.logSeqNo).toBe(first.withdrawal.logSeqNo);
+
+    // Stand-in for the ShieldedPool: someone else front-runs a dust deposit to the commitment,
+    // and the poster's own deposit fails after landing on chain.
+    const posterAddress = (`0x${'35'.repeat(20)}` as Hex);
+    const deposits: ShieldedPoolDeposit[] = [
+      { txHash: (`0x${'36'.repeat(32)}` as Hex), amount: 1n, sender: (`0x${'37'.repeat(20)}` as Hex) }
+    ];
+    let failNext = true;
+    const poster: WithdrawalDepositPoster = {
+      async sender() {
+        return posterAddress;
+      },
+      async listDeposits() {
+        return deposits;
+      },
+      async deposit({ amountMicros }) {
+        deposits.push({ txHash: (`0x${'34'.repeat(32)}` as Hex), amount: amountMicros, sender: posterAddress });
+        if (failNext) {
+          failNext = false;
+          throw new Error('receipt timeout');
+        }
+        return deposits[deposits.length - 1]!.txHash;
+      }
+    };
+    expect(await runWithdrawalPoster({ store, poster })).toEqual({ posted: 0 });
+    expect(await runWithdrawalPoster({ store, poster })).toEqual({ posted: 1 });
+    expect(deposits).toHaveLength(2);
+
+    const posted = await getWithdrawal({ store, agentId, withdrawalId: first.withdrawal.withdrawalId });
+    expect(posted.status).toBe('POSTED');
+    expect(posted.depositTxHash).toBe(`0x${'34'.repeat(32)}`);
+  });
+
+  it('files disputes, accepts relayer evidence, and credits on resolution or overdue evidence', async () => {
+    const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(1));
+    const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(2));
+    const relayerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(3));
+    const relayerPublicKey = extractEd25519RawPublicKey(createPublicKey(relayerPrivateKey));
+    const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+    const agentId = deriveAgentIdFromPubKey(agentPubKey);
+    const chainRef = 'solana:devnet';
+
+    await pool.query(
+      `INSERT INTO agents(
+         agent_id, agent_pub_key, signature_scheme, balance_micros,
+         next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at
+       ) VALUES ($1, $2, $3, $4, 0, $4, 0, $5)`,
+      [agentId, agentPubKey, 'ed25519-sha256-v1', '10000', nowSeconds().toString()]
+    );
+    await seedRelayerKeys(store, [{ chainRef, keyId: 'relayer-key-1', publicKey: relayerPublicKey }]);
+
+    const executeAuthorization = async (nonce: number) => {
+      const intent: IntentV1 = {
+        version: 1,
+        agentId,
+        agentPubKey,
+        signatureScheme: 'ed25519-sha256-v1',
+        agentNonce: String(nonce),
+        amountMicros: '1000',
+        merchantId: (`0x${'44'.repeat(32)}` as Hex),
+        requiredChainRef: chainRef,
+        expiresAt: (nowSeconds() + 300n).toString(),
+        requestId: (`0x${(0x60 + nonce).toString(16).repeat(32)}` as Hex)
+      };
+      const authorized = await authorizeIntent({
+        store,
+        intent,
+        agentSig: (`0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}` as Hex),
+        sequencerKeyId: 'seq-key-1',
+        sequencerPrivateKey,
+        leafSaltSecret: LEAF_SALT_SECRET,
+        executionGraceSeconds: EXECUTION_GRACE_SECONDS,
+        supportedChainRefs: new Set([chainRef])
+      });
+      const payload = {
+        version: 2 as const,
+        authId: authorized.authorization.authId,
+        chainRef,
+        executionTxHash: `0x${(0x70 + nonce).toString(16).repeat(32)}`,
+        status: 'SUCCESS' as const,
+        executedAmountMicros: '1000',
+        reportId: (`0x${(0x80 + nonce).toString(16).repeat(32)}` as Hex),
+        reportedAt: nowSeconds().toString(),
+        relayerKeyId: 'relayer-key-1'
+      };
+      const report: ExecutionReportV1 = {
+        ...payload,
+        reportSig: (`0x${sign(null, sha256(canonicalExecutionReportBytes(payload)), relayerPrivateKey).toString('hex')}` as Hex)
+      };
+      await recordExecution({ store, report });
+      return report;
+    };
+    const dispute = async (authId: Hex) => {
+      const request: DisputeRequestV1 = {
+        version: 1,
+        authId,
+        agentId,
+        reasonHash: (`0x${'d1'.repeat(32)}` as Hex),
+        requestedAt: nowSeconds().toString()
+      };
+      return {
+        store,
+        request,
+        agentSig: (`0x${sign(null, sha256(canonicalDisputeRequestBytes(request)), agentPrivateKey).toString('hex')}` as Hex),
+        sequencerKeyId: 'seq-key-1',
+        leafSaltSecret: LEAF_SALT_SECRET,
+        disputeWindowSeconds: 3600n,
+        evidenceSeconds: 3600n
+      };
+    };
+
+    const answered = await executeAuthorization(0);
+    const filing = await dispute(answered.authId);
+    const filed = await fileDispute(filing);
+    expect(filed.disputeId).toBe(deriveDisputeId(answered.authId));
+    expect(filed.status).toBe('OPEN');
+    expect(filed.events.map((event) => event.action)).toEqual(['FILED']);
+    expect((await fileDispute(filing)).events).toHaveLength(1);
+    await expect(
+      fileDispute({ ...filing, request: { ...filing.request, reasonHash: (`0x${'d2'.repeat(32)}` as Hex) } })
+    ).rejects.toThrow('invalid agent dispute signature');
+    expect((await listDisputes({ store, chainRef, status: 'OPEN' })).map((d) => d.disputeId)).toEqual([filed.disputeId]);
+
+    const evidence: DisputeEvidenceV1 = {
+      version: 1,
+      disputeId: filed.disputeId,
+      authId: answered.authId,
+      reportId: answered.reportId,
+      merchantResponseHash: (`0x${'e1'.repeat(32)}` as Hex),
+      submittedAt: nowSeconds().toString(),
+      relayerKeyId: 'relayer-key-1'
+    };
+    const relayerSig = (`0x${sign(null, sha256(canonicalDisputeEvidenceBytes(evidence)), relayerPrivateKey).toString('hex')}` as Hex);
+    await expect(
+      submitDisputeEvidence({
+        store,
+        disputeId: filed.disputeId,
+        evidence,
+        relayerSig,
+        report: { ...answered, executionTxHash: `0x${'99'.repeat(32)}` },
+        sequencerKeyId: 'seq-key-1',
+        leafSaltSecret: LEAF_SALT_SECRET
+      })
+    ).rejects.toThrow('evidence report does not match the accepted execution report');
+    const withEvidence = await submitDisputeEvidence({
+      store,
+      disputeId: filed.disputeId,
+      evidence,
+      relayerSig,
+      report: answered,
+      sequencerKeyId: 'seq-key-1',
+      leafSaltSecret: LEAF_SALT_SECRET
+    });
+    expect(withEvidence.status).toBe('EVIDENCE_SUBMITTED');
+    expect(withEvidence.evidence?.relayerSig).toBe(relayerSig);
+
+    const rejected = await resolveDispute({
+      store,
+      disputeId: filed.disputeId,
+      resolution: { outcome: 'REJECT', reasonHash: (`0x${'f1'.repeat(32)}` as Hex) },
+      resolvedBy: 'admin',
+      sequencerKeyId: 'seq-key-1',
+      leafSaltSecret: LEAF_SALT_SECRET
+    });
+    expect(rejected.status).toBe('REJECTED');
+    expect(rejected.events.map((event) => event.action)).toEqual(['FILED', 'EVIDENCE_SUBMITTED', 'REJECTED']);
+
+    const unanswered = await executeAuthorization(1);
+    const overdue = await fileDispute(await dispute(unanswered.authId));
+    await pool.query(`UPDATE disputes SET evidence_due_at = $2 WHERE dispute_id = $1`, [
+      overdue.disputeId,
+      (nowSeconds() - 1n).toString()
+    ]);
+    expect(await resolveOverdueDisputes({ store, sequencerKeyId: 'seq-key-1', leafSaltSecret: LEAF_SALT_SECRET })).toEqual({
+      credited: 1
+    });
+    const credited = await getDispute({ store, disputeId: overdue.disputeId });
+    expect(credited).toMatchObject({ status: 'CREDITED', creditedMicros: '1000', resolvedBy: 'rule' });
+    const agent = await pool.query(
+      `SELECT balance_micros, debited_outstanding_micros FROM agents WHERE agent_id = $1`,
+      [agentId]
+    );
+    expect(agent.rows[0]).toEqual({ balance_micros: '9000', debited_outstanding_micros: '1000' });
+
+    expect((await runCommitmentEpoch({
+      store,
+      sequencerKeyId: 'seq-key-1',
+      anchorConfigured: false
+    })).committed).toBe(true);
+    const creditedEvent = credited.events[credited.events.length - 1]!;
+    const proof = await buildInclusionProof({
+      store,
+      authId: creditedEvent.eventId,
+      leafSaltSecret: LEAF_SALT_SECRET
+    });
+    expect(proof.logSeqNo).toBe(creditedEvent.logSeqNo);
+  });
+
+  it('elects one background leader and fails over when its lease expires or is released', async () => {
+    const first = createLeaderElector({ pool, instanceId: 'sequencer-a', leaseSeconds: 30 });
+    const second = createLeaderElector({ pool, instanceId: 'sequencer-b', leaseSeconds: 30 });
+
+    expect(await first.tick()).toBe(true);
+    expect(await second.tick()).toBe(false);
+    expect(await first.tick()).toBe(true);
+    expect(second.state()).toMatchObject({ isLeader: false, holderId: 'sequencer-a', term: '1' });
+
+    await pool.query(`UPDATE sequencer_leader_lease SET expires_at = 0`);
+    expect(await second.tick()).toBe(true);
+    expect(second.state()).toMatchObject({ isLeader: true, holderId: 'sequencer-b', term: '2' });
+    expect(await first.tick()).toBe(false);
+    expect(first.isLeader()).toBe(false);
+
+    await second.release();
+    expect(second.isLeader()).toBe(false);
+    expect(await first.tick()).toBe(true);
+    expect(first.state().term).toBe('3');
+  });
 });
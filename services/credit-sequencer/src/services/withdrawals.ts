@@ -0,0 +1,424 @@
+import {
+  buildWithdrawIntentTypedDataPayload,
+  canonicalWithdrawIntentBytes,
+  computeAuthorizationLeaf,
+  deriveAgentIdFromPubKey,
+  deriveLeafSalt,
+  deriveWithdrawalId,
+  hashBalanceReceipt,
+  hashWithdrawal,
+  hashWithdrawIntent,
+  normalizeHex,
+  type Hex,
+  type WithdrawalV1,
+  type WithdrawIntentV1,
+  type WithdrawResponseV1
+} from '@shielded-x402/shared-types';
+import type { KeyObject } from 'node:crypto';
+import { createPublicClient, createWalletClient, http, type PublicClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { signWithdrawal, verifyAgentSignature } from '../crypto.js';
+import type { LedgerStore, WithdrawalRecord } from '../store/ledgerStore.js';
+import { parseUint64 } from '../validation.js';
+import { consumeAgentNonce, issueBalanceReceipt } from './ledger.js';
+import { enforceAgentPolicy } from './policies.js';
+
+const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
+
+export const shieldedPoolDepositAbi = [
+  {
+    type: 'function',
+    name: 'asset',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }]
+  },
+  {
+    type: 'function',
+    name: 'deposit',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'amount', type: 'uint256' },
+      { name: 'commitment', type: 'bytes32' }
+    ],
+    outputs: []
+  }
+] as const;
+
+export const shieldedPoolDepositedEventAbi = {
+  type: 'event',
+  name: 'Deposited',
+  inputs: [
+    { name: 'commitment', type: 'bytes32', indexed: true },
+    { name: 'leafIndex', type: 'uint256', indexed: true },
+    { name: 'root', type: 'bytes32', indexed: true },
+    { name: 'amount', type: 'uint256', indexed: false }
+  ]
+} as const;
+
+const erc20AllowanceAbi = [
+  {
+    type: 'function',
+    name: 'allowance',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' }
+    ],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'approve',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  }
+] as const;
+
+/** A `ShieldedPool.Deposited` event with the sender of its transaction. */
+export interface ShieldedPoolDeposit {
+  txHash: Hex;
+  amount: bigint;
+  sender: Hex;
+}
+
+/**
+ * Deposits withdrawn credit into `ShieldedPool` against the agent's commitment. The viem
+ * implementation pays from the poster wallet; tests substitute an in-memory pool.
+ */
+export interface WithdrawalDepositPoster {
+  /** Address of the wallet `deposit` pays from. */
+  sender(): Promise<Hex>;
+  /** Every deposit already made to `commitment`, by any sender, so a retry never pays twice. */
+  listDeposits(commitment: Hex): Promise<ShieldedPoolDeposit[]>;
+  deposit(input: { amountMicros: bigint; commitment: Hex }): Promise<Hex>;
+}
+
+/**
+ * Finds the poster's own earlier deposit for a withdrawal. Anyone can deposit to a commitment,
+ * so only a deposit of the withdrawn amount sent by the poster wallet counts as paying it.
+ */
+async function findPosterDeposit(
+  poster: WithdrawalDepositPoster,
+  withdrawal: { amountMicros: bigint; commitment: Hex }
+): Promise<Hex | null> {
+  const sender = normalizeHex(await poster.sender());
+  const deposits = await poster.listDeposits(withdrawal.commitment);
+  const own = deposits.find(
+    (deposit) => deposit.amount === withdrawal.amountMicros && normalizeHex(deposit.sender) === sender
+  );
+  return own ? normalizeHex(own.txHash) : null;
+}
+
+function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+function toWithdrawResponse(record: WithdrawalRecord, idempotent: boolean): WithdrawResponseV1 {
+  return {
+    withdrawal: record.withdrawal,
+    sequencerSig: record.sequencerSig,
+    ...(record.balanceReceipt && record.balanceReceiptSig
+      ? { balanceReceipt: record.balanceReceipt, balanceReceiptSig: record.balanceReceiptSig }
+      : {}),
+    status: record.status,
+    depositTxHash: record.depositTxHash,
+    idempotent
+  };
+}
+
+async function verifyWithdrawIntentSignature(intent: WithdrawIntentV1, agentSig: Hex): Promise<void> {
+  const expectedAgentId = deriveAgentIdFromPubKey(intent.agentPubKey);
+  if (normalizeHex(intent.agentId) !== normalizeHex(expectedAgentId)) {
+    throw new Error('agentId does not match agentPubKey');
+  }
+  await verifyAgentSignature({
+    signatureScheme: intent.signatureScheme,
+    agentPubKey: normalizeHex(intent.agentPubKey),
+    signature: agentSig,
+    canonicalBytes: canonicalWithdrawIntentBytes(intent),
+    typedData: buildWithdrawIntentTypedDataPayload(intent),
+    label: 'withdraw intent'
+  });
+}
+
+/**
+ * Debits an agent's balance for a signed withdraw intent and appends the withdrawal to the
+ * `auth_leaves` log, so it is committed in the next epoch alongside authorizations. Like an
+ * authorization it consumes a nonce (lane 0 or a version 2 lane), counts against the agent's
+ * spending policy caps and returns a signed balance receipt. The shielded deposit itself is
+ * made later by `runWithdrawalPoster`.
+ */
+export async function requestWithdrawal(input: {
+  store: LedgerStore;
+  intent: WithdrawIntentV1;
+  agentSig: Hex;
+  sequencerKeyId: string;
+  sequencerPrivateKey: KeyObject;
+  leafSaltSecret: Hex;
+}): Promise<WithdrawResponseV1> {
+  const now = nowSeconds();
+  const agentId = normalizeHex(input.intent.agentId);
+  const commitment = normalizeHex(input.intent.commitment);
+  if (parseUint64(input.intent.expiresAt, 'intent.expiresAt') <= now) {
+    throw new Error('withdraw intent expired');
+  }
+  if (commitment === ZERO_HASH) {
+    throw new Error('commitment must be non-zero');
+  }
+  const amountMicros = parseUint64(input.intent.amountMicros, 'intent.amountMicros');
+  if (amountMicros <= 0n) {
+    throw new Error('amountMicros must be > 0');
+  }
+  await verifyWithdrawIntentSignature(input.intent, input.agentSig);
+
+  const requestId = normalizeHex(input.intent.requestId);
+  const intentHash = hashWithdrawIntent(input.intent);
+
+  return input.store.transaction(async (tx) => {
+    const agent = await tx.getAgent(agentId);
+    if (!agent) throw new Error('agent account not found');
+    if (agent.agentPubKey && normalizeHex(agent.agentPubKey) !== normalizeHex(input.intent.agentPubKey)) {
+      throw new Error('agentPubKey mismatch for existing agent');
+    }
+    if (agent.signatureScheme && agent.signatureScheme !== input.intent.signatureScheme) {
+      throw new Error('signatureScheme mismatch for existing agent');
+    }
+
+    const existing = await tx.getWithdrawalByRequestId(requestId);
+    if (existing) {
+      if (existing.intentHash !== normalizeHex(intentHash)) {
+        throw new Error('requestId already used for a different withdraw intent');
+      }
+      return toWithdrawResponse(existing, true);
+    }
+
+    const incomingNonce = parseUint64(input.intent.agentNonce, 'intent.agentNonce');
+    const nextAgentNonce = await consumeAgentNonce(tx, {
+      agent,
+      agentId,
+      agentNonce: input.intent.agentNonce,
+      nonceLane: input.intent.version === 2 ? (input.intent.nonceLane ?? 0) : 0,
+      laneSeq: input.intent.laneSeq,
+      now
+    });
+    await enforceAgentPolicy(tx, { agentId, amountMicros, now });
+    const balance = BigInt(agent.balanceMicros);
+    if (balance < amountMicros) {
+      throw new Error('insufficient sequencer balance');
+    }
+    if (await tx.getWithdrawalByCommitment(commitment)) {
+      throw new Error('commitment already used by another withdrawal');
+    }
+
+    const counters = await tx.getCounters();
+    const nextSeq = (BigInt(counters.logSeqNo) + 1n).toString();
+    const withdrawalId = deriveWithdrawalId({ intentId: intentHash, seqNo: nextSeq });
+    const withdrawal: WithdrawalV1 = {
+      version: 1,
+      withdrawalId,
+      intentId: intentHash,
+      agentId,
+      agentNonce: incomingNonce.toString(),
+      amountMicros: amountMicros.toString(),
+      commitment,
+      issuedAt: now.toString(),
+      logSeqNo: nextSeq,
+      sequencerKeyId: input.sequencerKeyId
+    };
+    const sequencerSig = signWithdrawal(input.sequencerPrivateKey, withdrawal);
+    const updatedBalance = balance - amountMicros;
+    const { balanceReceipt, balanceReceiptSig } = issueBalanceReceipt({
+      agent,
+      agentId,
+      debitId: withdrawalId,
+      balanceMicros: updatedBalance,
+      debitedOutstandingMicros: BigInt(agent.debitedOutstandingMicros),
+      nextAgentNonce,
+      logSeqNo: nextSeq,
+      issuedAt: withdrawal.issuedAt,
+      sequencerKeyId: input.sequencerKeyId,
+      sequencerPrivateKey: input.sequencerPrivateKey
+    });
+    const prevLeafHash = normalizeHex(counters.lastLeafHash);
+    const leafHash = computeAuthorizationLeaf({
+      logSeqNo: nextSeq,
+      prevLeafHash,
+      authHash: hashWithdrawal(withdrawal),
+      salt: deriveLeafSalt(input.leafSaltSecret, withdrawalId)
+    });
+
+    await tx.insertWithdrawal({
+      withdrawalId,
+      requestId,
+      intentHash,
+      agentId,
+      agentNonce: withdrawal.agentNonce,
+      amountMicros: withdrawal.amountMicros,
+      commitment,
+      issuedAt: withdrawal.issuedAt,
+      logSeqNo: nextSeq,
+      status: 'PENDING',
+      sequencerKeyId: input.sequencerKeyId,
+      sequencerSig,
+      withdrawal,
+      balanceReceipt,
+      balanceReceiptSig,
+      depositTxHash: null,
+      postedAt: null,
+      postAttempts: 0,
+      lastError: null
+    });
+    await tx.appendLeaf({ logSeqNo: nextSeq, authId: withdrawalId, prevLeafHash, leafHash });
+
+    const withdrawnMicros = BigInt(agent.withdrawnMicros) + amountMicros;
+    if (BigInt(agent.debitedOutstandingMicros) + withdrawnMicros > BigInt(agent.creditedMicros)) {
+      throw new Error('protocol invariant violated: debited and withdrawn exceed credited');
+    }
+    await tx.updateAgent(agentId, {
+      balanceMicros: updatedBalance.toString(),
+      withdrawnMicros: withdrawnMicros.toString(),
+      nextAgentNonce: nextAgentNonce.toString(),
+      agentPubKey: agent.agentPubKey ?? normalizeHex(input.intent.agentPubKey),
+      signatureScheme: agent.signatureScheme ?? input.intent.signatureScheme,
+      lastBalanceReceiptHash: hashBalanceReceipt(balanceReceipt),
+      updatedAt: now.toString()
+    });
+    await tx.updateCounters({ logSeqNo: nextSeq, lastLeafHash: leafHash });
+
+    return {
+      withdrawal,
+      sequencerSig,
+      balanceReceipt,
+      balanceReceiptSig,
+      status: 'PENDING' as const,
+      depositTxHash: null,
+      idempotent: false
+    };
+  });
+}
+
+/** The agent's own withdrawal; withdrawals of other agents are reported as not found. */
+export async function getWithdrawal(input: {
+  store: LedgerStore;
+  agentId: Hex;
+  withdrawalId: Hex;
+}): Promise<WithdrawResponseV1> {
+  const record = await input.store.read((tx) => tx.getWithdrawal(normalizeHex(input.withdrawalId)));
+  if (!record || record.agentId !== normalizeHex(input.agentId)) throw new Error('withdrawal not found');
+  return toWithdrawResponse(record, false);
+}
+
+/**
+ * Makes the shielded deposit for pending withdrawals in log order. Stops at the first
+ * failure and leaves the rest PENDING for the next tick.
+ */
+export async function runWithdrawalPoster(input: {
+  store: LedgerStore;
+  poster: WithdrawalDepositPoster;
+  batchSize?: number;
+}): Promise<{ posted: number }> {
+  const pending = await input.store.read((tx) => tx.listPendingWithdrawals(input.batchSize ?? 20));
+
+  let posted = 0;
+  for (const withdrawal of pending) {
+    try {
+      const request = { amountMicros: BigInt(withdrawal.amountMicros), commitment: withdrawal.commitment };
+      const txHash = (await findPosterDeposit(input.poster, request)) ?? (await input.poster.deposit(request));
+      await input.store.transaction((tx) =>
+        tx.markWithdrawalPosted(withdrawal.withdrawalId, {
+          depositTxHash: normalizeHex(txHash),
+          postedAt: nowSeconds().toString()
+        })
+      );
+      posted += 1;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await input.store.transaction((tx) => tx.recordWithdrawalFailure(withdrawal.withdrawalId, message));
+      console.warn('[sequencer] withdrawal deposit failed', withdrawal.withdrawalId, error);
+      break;
+    }
+  }
+  return { posted };
+}
+
+export function createViemWithdrawalPoster(config: {
+  rpcUrl: string;
+  shieldedPoolAddress: Hex;
+  posterPrivateKey: Hex;
+  fromBlock: bigint;
+}): WithdrawalDepositPoster {
+  const account = privateKeyToAccount(config.posterPrivateKey);
+  const publicClient: PublicClient = createPublicClient({ transport: http(config.rpcUrl) });
+  const wallet = createWalletClient({ account, transport: http(config.rpcUrl) });
+
+  const waitForSuccess = async (txHash: Hex): Promise<Hex> => {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status !== 'success') {
+      throw new Error(`transaction ${txHash} reverted`);
+    }
+    return txHash;
+  };
+
+  return {
+    async sender() {
+      return normalizeHex(account.address);
+    },
+    async listDeposits(commitment) {
+      const logs = await publicClient.getLogs({
+        address: config.shieldedPoolAddress,
+        event: shieldedPoolDepositedEventAbi,
+        args: { commitment },
+        fromBlock: config.fromBlock,
+        strict: true
+      });
+      return Promise.all(
+        logs.map(async (log) => {
+          const transaction = await publicClient.getTransaction({ hash: log.transactionHash });
+          return {
+            txHash: normalizeHex(log.transactionHash),
+            amount: log.args.amount,
+            sender: normalizeHex(transaction.from)
+          };
+        })
+      );
+    },
+    async deposit({ amountMicros, commitment }) {
+      const asset = await publicClient.readContract({
+        address: config.shieldedPoolAddress,
+        abi: shieldedPoolDepositAbi,
+        functionName: 'asset'
+      });
+      const allowance = await publicClient.readContract({
+        address: asset,
+        abi: erc20AllowanceAbi,
+        functionName: 'allowance',
+        args: [account.address, config.shieldedPoolAddress]
+      });
+      if (allowance < amountMicros) {
+        await waitForSuccess(
+          await wallet.writeContract({
+            address: asset,
+            abi: erc20AllowanceAbi,
+            functionName: 'approve',
+            args: [config.shieldedPoolAddress, amountMicros],
+            chain: null
+          })
+        );
+      }
+      return waitForSuccess(
+        await wallet.writeContract({
+          address: config.shieldedPoolAddress,
+          abi: shieldedPoolDepositAbi,
+          functionName: 'deposit',
+          args: [amountMicros, commitment],
+          chain: null
+        })
+      );
+    }
+  };
+}
@@ -0,0 +1,456 @@
+import type {
+  AgentPolicyV1,
+  AuthorizationStatus,
+  AuthorizationV1,
+  BalanceReceiptV1,
+  DisputeEventV1,
+  DisputeEvidenceV1,
+  DisputeRequestV1,
+  DisputeStatus,
+  FundingStatus,
+  Hex,
+  MerchantChainTotalV1,
+  MerchantRecordV1,
+  RelayerFeeAccountV1,
+  SequencerKeyV1,
+  SignatureScheme,
+  WithdrawalStatus,
+  WithdrawalV1
+} from '@shielded-x402/shared-types';
+
+export interface AgentRecord {
+  agentId: Hex;
+  balanceMicros: string;
+  creditedMicros: string;
+  debitedOutstandingMicros: string;
+  withdrawnMicros: string;
+  nextAgentNonce: string;
+  agentPubKey: Hex | null;
+  signatureScheme: SignatureScheme | null;
+  lastBalanceReceiptHash: Hex | null;
+  updatedAt: string;
+}
+
+export interface AgentUpdate {
+  balanceMicros?: string;
+  debitedOutstandingMicros?: string;
+  withdrawnMicros?: string;
+  nextAgentNonce?: string;
+  agentPubKey?: Hex;
+  signatureScheme?: SignatureScheme;
+  lastBalanceReceiptHash?: Hex;
+  updatedAt: string;
+}
+
+export interface NonceLaneRecord {
+  nonceLane: number;
+  nextLaneSeq: string;
+}
+
+export interface AgentPolicyRecord {
+  agentId: Hex;
+  policyVersion: string;
+  policy: AgentPolicyV1;
+  agentSig: Hex;
+  updatedAt: string;
+}
+
+export interface IdempotencyKeyRecord {
+  requestId: Hex;
+  intentHash: Hex;
+  authId: Hex;
+  createdAt: string;
+}
+
+export interface AuthorizationRecord {
+  authId: Hex;
+  requestId: Hex;
+  intentHash: Hex;
+  agentId: Hex;
+  agentNonce: string;
+  amountMicros: string;
+  feeMicros: string;
+  merchantId: Hex;
+  chainRef: string;
+  issuedAt: string;
+  expiresAt: string;
+  executionGraceUntil: string;
+  logSeqNo: string;
+  status: AuthorizationStatus;
+  sequencerKeyId: string;
+  sequencerSig: Hex;
+  authorization: AuthorizationV1;
+  balanceReceipt: BalanceReceiptV1 | null;
+  balanceReceiptSig: Hex | null;
+  executedAt: string | null;
+  reclaimedAt: string | null;
+}
+
+/** Narrows an agent's authorization history; every field is optional. */
+export interface AgentAuthorizationFilter {
+  status?: AuthorizationStatus;
+  chainRef?: string;
+  merchantId?: Hex;
+  fromIssuedAt?: string;
+  toIssuedAt?: string;
+  /** Only authorizations logged before this `logSeqNo`. */
+  beforeLogSeqNo?: string;
+}
+
+/** A merchant's executions with `executedAt` in `[fromExecutedAt, toExecutedAt)`. */
+export interface MerchantExecutionFilter {
+  fromExecutedAt: string;
+  toExecutedAt: string;
+  chainRef?: string;
+  /** Only authorizations logged after this `logSeqNo`. */
+  afterLogSeqNo?: string;
+}
+
+export interface AuthorizationStatusUpdate {
+  status: 'EXECUTED' | 'RECLAIMED';
+  executedAt?: string;
+  reclaimedAt?: string;
+}
+
+export type RelayerKeyStatus = 'ACTIVE' | 'SUSPENDED' | 'REVOKED';
+export type RelayerKeyAction = 'REGISTER' | 'REACTIVATE' | 'SUSPEND' | 'REVOKE' | 'ROTATE';
+
+export interface RelayerKeyRecord {
+  chainRef: string;
+  keyId: string;
+  publicKey: Hex;
+  status: RelayerKeyStatus;
+  createdAt: string;
+  updatedAt: string;
+  revokedAt: string | null;
+}
+
+export interface RelayerKeyEvent {
+  eventId: string;
+  chainRef: string;
+  keyId: string;
+  action: RelayerKeyAction;
+  fromStatus: RelayerKeyStatus | null;
+  toStatus: RelayerKeyStatus;
+  relatedKeyId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface ExecutionAttemptRecord {
+  authId: Hex;
+  reportId: Hex;
+  txHash: string;
+  status: 'SUCCESS' | 'FAILED';
+  reporterKeyId: string;
+  reportedAt: string;
+  reportSig: Hex;
+  executedAmountMicros: string;
+}
+
+export interface ExecutionRecord {
+  authId: Hex;
+  chainRef: string;
+  executionTxHash: string;
+  relayerKeyId: string;
+  reportedAt: string;
+  executedAmountMicros: string;
+}
+
+export interface AuthorizationWithExecution {
+  authorization: AuthorizationRecord;
+  execution: ExecutionRecord | null;
+}
+
+/** An executed authorization with its execution and its leaf in the commitment log. */
+export interface MerchantExecutionRecord {
+  authorization: AuthorizationRecord;
+  execution: ExecutionRecord;
+  leaf: LeafRecord;
+}
+
+export interface SequencerKeyRecord extends SequencerKeyV1 {
+  createdAt: string;
+}
+
+export type MerchantKeyStatus = 'ACTIVE' | 'REVOKED';
+
+export interface MerchantKeyRecord {
+  serviceRegistryId: string;
+  keyId: string;
+  publicKey: Hex;
+  status: MerchantKeyStatus;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export interface SequencerCounters {
+  logSeqNo: string;
+  lastLeafHash: Hex;
+  lastEpochId: string;
+  lastRoot: Hex;
+}
+
+export interface LeafRecord {
+  logSeqNo: string;
+  authId: Hex;
+  prevLeafHash: Hex;
+  leafHash: Hex;
+  epochId: string | null;
+}
+
+/** Whatever a leaf was appended for: an authorization, withdrawal or dispute event. */
+export interface LeafOwner {
+  authId: Hex;
+  sequencerKeyId: string;
+  logSeqNo: string;
+}
+
+export interface CommitmentRecord {
+  epochId: string;
+  root: Hex;
+  count: number;
+  prevRoot: Hex;
+  sequencerKeyId: string;
+  postedAt: string | null;
+  postedTxHash: Hex | null;
+}
+
+/** A commitment not yet posted to one anchor, with that anchor's retry state. */
+export interface UnpostedCommitmentRecord extends CommitmentRecord {
+  postAttempts: number;
+  nextPostAt: string;
+}
+
+export interface FundingDepositRecord {
+  nullifier: Hex;
+  agentId: Hex;
+  amountMicros: string;
+  merchantCommitment: Hex;
+  status: FundingStatus;
+  submittedAt: string;
+  spentTxHash: Hex | null;
+  spentBlockNumber: string | null;
+  creditedAt: string | null;
+  rejectionReason: string | null;
+}
+
+export interface FundingDepositSettlement {
+  status: 'CREDITED' | 'REJECTED';
+  spentTxHash: Hex;
+  spentBlockNumber: string;
+  creditedAt?: string;
+  rejectionReason?: string;
+}
+
+export interface WithdrawalRecord {
+  withdrawalId: Hex;
+  requestId: Hex;
+  intentHash: Hex;
+  agentId: Hex;
+  agentNonce: string;
+  amountMicros: string;
+  commitment: Hex;
+  issuedAt: string;
+  logSeqNo: string;
+  status: WithdrawalStatus;
+  sequencerKeyId: string;
+  sequencerSig: Hex;
+  withdrawal: WithdrawalV1;
+  balanceReceipt: BalanceReceiptV1 | null;
+  balanceReceiptSig: Hex | null;
+  depositTxHash: Hex | null;
+  postedAt: string | null;
+  postAttempts: number;
+  lastError: string | null;
+}
+
+export interface DisputeRecord {
+  disputeId: Hex;
+  authId: Hex;
+  agentId: Hex;
+  chainRef: string;
+  status: DisputeStatus;
+  request: DisputeRequestV1;
+  agentSig: Hex;
+  filedAt: string;
+  evidenceDueAt: string;
+  evidence: DisputeEvidenceV1 | null;
+  relayerSig: Hex | null;
+  creditedMicros: string;
+  resolvedAt: string | null;
+  resolvedBy: 'admin' | 'rule' | null;
+}
+
+export interface DisputeUpdate {
+  status: DisputeStatus;
+  evidence?: DisputeEvidenceV1;
+  relayerSig?: Hex;
+  creditedMicros?: string;
+  resolvedAt?: string;
+  resolvedBy?: 'admin' | 'rule';
+}
+
+/**
+ * Ledger operations available inside `LedgerStore.transaction`. Rows read through a
+ * transaction stay locked until it ends, matching `SELECT ... FOR UPDATE`.
+ */
+export interface LedgerTx {
+  ensureAgent(agentId: Hex, now: bigint): Promise<void>;
+  getAgent(agentId: Hex): Promise<AgentRecord | undefined>;
+  updateAgent(agentId: Hex, update: AgentUpdate): Promise<void>;
+  creditAgent(input: { agentId: Hex; amountMicros: bigint; now: bigint }): Promise<void>;
+  listNonceLanes(agentId: Hex): Promise<NonceLaneRecord[]>;
+  /** Returns the lane's next sequence, creating the lane at 0 on first use. */
+  getNonceLaneSeq(agentId: Hex, nonceLane: number, now: bigint): Promise<bigint>;
+  setNonceLaneSeq(agentId: Hex, nonceLane: number, nextLaneSeq: bigint, now: bigint): Promise<void>;
+  getAgentPolicy(agentId: Hex): Promise<AgentPolicyRecord | undefined>;
+  /** Inserts or replaces the agent's policy. */
+  putAgentPolicy(record: AgentPolicyRecord): Promise<void>;
+  /**
+   * Total debit issued strictly after `since`: amount plus relayer fee of non-reclaimed
+   * authorizations, plus withdrawn amounts.
+   */
+  sumIssuedSince(agentId: Hex, since: bigint): Promise<bigint>;
+
+  getIdempotencyKey(requestId: Hex): Promise<IdempotencyKeyRecord | undefined>;
+  insertIdempotencyKey(record: IdempotencyKeyRecord): Promise<void>;
+
+  getAuthorization(authId: Hex): Promise<AuthorizationRecord | undefined>;
+  insertAuthorization(record: AuthorizationRecord): Promise<void>;
+  updateAuthorizationStatus(authId: Hex, update: AuthorizationStatusUpdate): Promise<void>;
+  countOpenAuthorizations(agentId: Hex): Promise<number>;
+  /** `ISSUED` authorizations with `expiresAt < now`, oldest expiry first. */
+  listExpiredAuthorizations(now: bigint, limit: number): Promise<Hex[]>;
+  /** The agent's authorizations matching `filter` with their executions, newest `logSeqNo` first. */
+  listAgentAuthorizations(
+    agentId: Hex,
+    filter: AgentAuthorizationFilter,
+    limit: number
+  ): Promise<AuthorizationWithExecution[]>;
+  /** `EXECUTED` authorizations of the merchant matching `filter`, oldest `logSeqNo` first. */
+  listMerchantExecutions(
+    merchantId: Hex,
+    filter: MerchantExecutionFilter,
+    limit: number
+  ): Promise<MerchantExecutionRecord[]>;
+  /** Executed micros and execution count per chain over `filter`, ignoring `afterLogSeqNo`, by chainRef. */
+  sumMerchantExecutions(merchantId: Hex, filter: MerchantExecutionFilter): Promise<MerchantChainTotalV1[]>;
+
+  getRelayerKey(chainRef: string, keyId: string): Promise<RelayerKeyRecord | undefined>;
+  /** Keys on `chainRef`, or on every chain, by chainRef then registration. */
+  listRelayerKeys(chainRef?: string): Promise<RelayerKeyRecord[]>;
+  insertRelayerKey(record: RelayerKeyRecord): Promise<void>;
+  /** Inserts the key unless one is registered under the same id; returns whether it was inserted. */
+  ensureRelayerKey(record: RelayerKeyRecord): Promise<boolean>;
+  updateRelayerKeyStatus(
+    chainRef: string,
+    keyId: string,
+    update: { status: RelayerKeyStatus; revokedAt: string | null; updatedAt: string }
+  ): Promise<void>;
+  insertRelayerKeyEvent(event: Omit<RelayerKeyEvent, 'eventId'>): Promise<void>;
+  /** The key's events in the order they were recorded. */
+  listRelayerKeyEvents(chainRef: string, keyId: string): Promise<RelayerKeyEvent[]>;
+  getExecutionAttempt(reportId: Hex): Promise<ExecutionAttemptRecord | undefined>;
+  insertExecutionAttempt(record: ExecutionAttemptRecord): Promise<void>;
+  /** `FAILED` attempts on `authIds`, oldest report first. */
+  listFailedExecutionAttempts(authIds: readonly Hex[]): Promise<ExecutionAttemptRecord[]>;
+  getExecution(authId: Hex): Promise<ExecutionRecord | undefined>;
+  insertExecution(record: ExecutionRecord): Promise<void>;
+  accrueRelayerFee(input: { chainRef: string; relayerKeyId: string; feeMicros: bigint; now: bigint }): Promise<void>;
+  getRelayerFeeAccount(chainRef: string, relayerKeyId: string): Promise<RelayerFeeAccountV1 | undefined>;
+  /** Fee accounts on `chainRef`, or on every chain, by chainRef then relayer key. */
+  listRelayerFeeAccounts(chainRef?: string): Promise<RelayerFeeAccountV1[]>;
+
+  getSequencerKey(keyId: string): Promise<SequencerKeyRecord | undefined>;
+  /** Inserts the key, or moves the activation window of an existing key and keeps its public key. */
+  putSequencerKey(record: SequencerKeyRecord): Promise<void>;
+  /** Every registered key, by activation then keyId. */
+  listSequencerKeys(): Promise<SequencerKeyRecord[]>;
+
+  getMerchantKey(serviceRegistryId: string, keyId: string): Promise<MerchantKeyRecord | undefined>;
+  /** Inserts the key unless one is registered under the same id. */
+  ensureMerchantKey(record: MerchantKeyRecord): Promise<void>;
+  /** Marks the key `REVOKED`, keeping the first revocation time. */
+  revokeMerchantKey(serviceRegistryId: string, keyId: string, revokedAt: string): Promise<void>;
+  /** Keys of `serviceRegistryId`, or of every merchant, by serviceRegistryId then keyId. */
+  listMerchantKeys(serviceRegistryId?: string): Promise<MerchantKeyRecord[]>;
+
+  getCounters(): Promise<SequencerCounters>;
+  updateCounters(update: Partial<SequencerCounters>): Promise<void>;
+  appendLeaf(leaf: Omit<LeafRecord, 'epochId'>): Promise<void>;
+  getLeaf(authId: Hex): Promise<LeafRecord | undefined>;
+  findLeafOwner(authId: Hex): Promise<LeafOwner | undefined>;
+  listUnassignedLeaves(): Promise<LeafRecord[]>;
+  assignLeavesToEpoch(epochId: string): Promise<void>;
+  listEpochLeaves(epochId: string): Promise<LeafRecord[]>;
+
+  insertCommitment(record: Omit<CommitmentRecord, 'postedAt' | 'postedTxHash'>): Promise<void>;
+  getCommitment(epochId: string): Promise<CommitmentRecord | undefined>;
+  getLatestCommitment(): Promise<CommitmentRecord | undefined>;
+  /** Latest primary post time and how many commitments the primary anchor has not posted. */
+  getCommitmentPostingStatus(): Promise<{ lastPostedAt: string | null; unposted: number }>;
+  /** How many commitments `anchorId` has not posted. */
+  countUnpostedCommitments(anchorId: string): Promise<number>;
+  /** Keeps the recorded tx hash when `postedTxHash` is absent. */
+  markCommitmentPosted(epochId: string, postedAt: string, postedTxHash?: Hex | null): Promise<void>;
+  /** Commitments without a post on `anchorId`, in epoch order. */
+  listUnpostedCommitments(anchorId: string, limit: number): Promise<UnpostedCommitmentRecord[]>;
+  recordAnchorPost(input: { anchorId: string; epochId: string; postedTxHash: Hex | null; postedAt: string }): Promise<void>;
+  /** Counts a failed post and schedules the next attempt at `nextPostAt`. */
+  recordAnchorPostFailure(input: { anchorId: string; epochId: string; nextPostAt: string; error: string }): Promise<void>;
+
+  /**
+   * Inserts the claim unless one exists for its nullifier and merchant commitment. Claims on the
+   * same nullifier with different commitments coexist until the spend decides between them.
+   */
+  ensureFundingDeposit(record: FundingDepositRecord): Promise<void>;
+  getFundingDeposit(nullifier: Hex, merchantCommitment: Hex): Promise<FundingDepositRecord | undefined>;
+  /** Every claim on `nullifier`, oldest submission first. */
+  listFundingDeposits(nullifier: Hex): Promise<FundingDepositRecord[]>;
+  /**
+   * Distinct nullifiers with a `PENDING` claim: never-scanned claims first, then the least
+   * recently scanned, so unspent claims rotate to the back instead of holding the batch.
+   */
+  listPendingFundingDeposits(limit: number): Promise<Hex[]>;
+  /** Records that the `PENDING` claims on `nullifiers` were checked against the chain at `scannedAt`. */
+  markFundingDepositsScanned(nullifiers: readonly Hex[], scannedAt: string): Promise<void>;
+  settleFundingDeposit(nullifier: Hex, merchantCommitment: Hex, settlement: FundingDepositSettlement): Promise<void>;
+
+  getWithdrawal(withdrawalId: Hex): Promise<WithdrawalRecord | undefined>;
+  getWithdrawalByRequestId(requestId: Hex): Promise<WithdrawalRecord | undefined>;
+  getWithdrawalByCommitment(commitment: Hex): Promise<WithdrawalRecord | undefined>;
+  insertWithdrawal(record: WithdrawalRecord): Promise<void>;
+  /** `PENDING` withdrawals in log order. */
+  listPendingWithdrawals(limit: number): Promise<WithdrawalRecord[]>;
+  markWithdrawalPosted(withdrawalId: Hex, input: { depositTxHash: Hex; postedAt: string }): Promise<void>;
+  recordWithdrawalFailure(withdrawalId: Hex, error: string): Promise<void>;
+
+  getDispute(disputeId: Hex): Promise<DisputeRecord | undefined>;
+  insertDispute(record: DisputeRecord): Promise<void>;
+  updateDispute(disputeId: Hex, update: DisputeUpdate): Promise<void>;
+  insertDisputeEvent(event: DisputeEventV1): Promise<void>;
+  /** The dispute's events in log order. */
+  listDisputeEvents(disputeId: Hex): Promise<DisputeEventV1[]>;
+  /** Disputes on `chainRef` in `status`, oldest filing first. */
+  listDisputes(chainRef: string, status: DisputeStatus, limit: number): Promise<DisputeRecord[]>;
+  /** `OPEN` disputes whose evidence deadline is before `now`, earliest deadline first. */
+  listOverdueDisputes(now: bigint, limit: number): Promise<Hex[]>;
+
+  getMerchant(merchantId: Hex): Promise<MerchantRecordV1 | undefined>;
+  /** Inserts or updates the merchant and replaces its payout addresses. */
+  putMerchant(record: MerchantRecordV1): Promise<void>;
+}
+
+/**
+ * Storage behind the ledger: authorizations, executions, reclaims, commitments and their anchor
+ * posts, funding, withdrawals, disputes, and the policy, key and merchant state they check, plus
+ * the history, statement and key listings the HTTP API serves. Amounts
+ * and sequence numbers are decimal strings, as Postgres returns BIGINT columns.
+ */
+export interface LedgerStore {
+  /** Runs `fn` atomically: everything it wrote is kept if it resolves and discarded if it throws. */
+  transaction<T>(fn: (tx: LedgerTx) => Promise<T>): Promise<T>;
+  /** Runs reads against committed state without taking locks. */
+  read<T>(fn: (tx: LedgerTx) => Promise<T>): Promise<T>;
+}
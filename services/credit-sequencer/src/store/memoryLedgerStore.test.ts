@@ -0,0 +1,512 @@
+import {
+  canonicalDisputeRequestBytes,
+  canonicalExecutionReportBytes,
+  canonicalIntentBytes,
+  canonicalRelayerQueryBytes,
+  canonicalWithdrawIntentBytes,
+  deriveAgentIdFromPubKey,
+  deriveLaneAgentNonce,
+  hashBalanceReceipt,
+  verifyBalanceReceiptChain,
+  type DisputeRequestV1,
+  type ExecutionReportV1,
+  type Hex,
+  type IntentV1,
+  type RelayerQueryV1,
+  type WithdrawIntentV1
+} from '@shielded-x402/shared-types';
+import { createPublicKey, sign } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { createEd25519PrivateKeyFromSeed, extractEd25519RawPublicKey, sha256 } from '../crypto.js';
+import { seedRelayerKeys } from '../db/schema.js';
+import { buildInclusionProof, runCommitmentEpoch } from '../services/commitments.js';
+import { fileDispute, getDispute, resolveDispute } from '../services/disputes.js';
+import { listRelayerFeeAccounts, type FeeSchedule } from '../services/fees.js';
+import { listAgentAuthorizations } from '../services/history.js';
+import { buildSignedKeySet, parseSequencerSigningKeysEnv, registerSequencerKeys } from '../services/keys.js';
+import {
+  authorizeIntent,
+  creditAgentBalance,
+  getAgentAccount,
+  reclaimAuthorization,
+  recordExecution
+} from '../services/ledger.js';
+import { getMerchantStatement, listMerchantKeys, registerMerchantKey, revokeMerchantKey } from '../services/merchants.js';
+import { listRelayerKeyEvents, listRelayerKeys, verifyRelayerQuery } from '../services/relayerKeys.js';
+import { getWithdrawal, requestWithdrawal, runWithdrawalPoster } from '../services/withdrawals.js';
+import { createInMemoryLedgerStore } from './memoryLedgerStore.js';
+
+const LEAF_SALT_SECRET = (`0x${'aa'.repeat(32)}` as Hex);
+const CHAIN_REF = 'solana:devnet';
+
+function fixedSeed(byte: number): Uint8Array {
+  return new Uint8Array(32).fill(byte);
+}
+
+function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+async function setup(feeSchedule: FeeSchedule = new Map()) {
+  const store = createInMemoryLedgerStore();
+  const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(1));
+  const agentPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(2));
+  const relayerPrivateKey = createEd25519PrivateKeyFromSeed(fixedSeed(3));
+  const agentPubKey = extractEd25519RawPublicKey(createPublicKey(agentPrivateKey));
+  const agentId = deriveAgentIdFromPubKey(agentPubKey);
+  store.putRelayerKey(CHAIN_REF, 'relayer-key-1', {
+    publicKey: extractEd25519RawPublicKey(createPublicKey(relayerPrivateKey)),
+    status: 'ACTIVE',
+    revokedAt: null
+  });
+  await store.transaction((tx) => creditAgentBalance(tx, { agentId, amountMicros: 10_000n, now: nowSeconds() }));
+
+  const authorize = (agentNonce: number, expiresAt: bigint, maxFeeMicros?: string) => {
+    const intent: IntentV1 = {
+      version: maxFeeMicros === undefined ? 1 : 2,
+      agentId,
+      agentPubKey,
+      signatureScheme: 'ed25519-sha256-v1',
+      agentNonce: agentNonce.toString(),
+      amountMicros: '1000',
+      merchantId: (`0x${'44'.repeat(32)}` as Hex),
+      requiredChainRef: CHAIN_REF,
+      expiresAt: expiresAt.toString(),
+      requestId: (`0x${(0x50 + agentNonce).toString(16).repeat(32)}` as Hex),
+      // A fee cap needs a version 2 intent; lane 0 keeps the plain agent nonce.
+      ...(maxFeeMicros === undefined ? {} : { nonceLane: 0, laneSeq: agentNonce.toString(), maxFeeMicros })
+    };
+    return authorizeIntent({
+      store,
+      intent,
+      agentSig: `0x${sign(null, sha256(canonicalIntentBytes(intent)), agentPrivateKey).toString('hex')}`,
+      sequencerKeyId: 'seq-key-1',
+      sequencerPrivateKey,
+      leafSaltSecret: LEAF_SALT_SECRET,
+      executionGraceSeconds: 600n,
+      supportedChainRefs: new Set([CHAIN_REF]),
+      feeSchedule
+    });
+  };
+
+  const report = (authId: Hex, executedAmountMicros: string): ExecutionReportV1 => {
+    const payload = {
+      version: 2 as const,
+      authId,
+      chainRef: CHAIN_REF,
+      executionTxHash: `0x${'66'.repeat(32)}`,
+      status: 'SUCCESS' as const,
+      executedAmountMicros,
+      reportId: (`0x${'77'.repeat(32)}` as Hex),
+      reportedAt: nowSeconds().toString(),
+      relayerKeyId: 'relayer-key-1'
+    };
+    const reportSig = sign(null, sha256(canonicalExecutionReportBytes(payload)), relayerPrivateKey).toString('hex');
+    return { ...payload, reportSig: `0x${reportSig}` };
+  };
+
+  return { store, agentId, agentPubKey, agentPrivateKey, relayerPrivateKey, sequencerPrivateKey, authorize, report };
+}
+
+describe('in-memory ledger store', () => {
+  it('runs authorize, execute, reclaim and commit without a database', async () => {
+    const { store, agentId, authorize, report } = await setup();
+
+    const expiresAt = nowSeconds() + 300n;
+    const captured = await authorize(0, expiresAt);
+    expect((await authorize(0, expiresAt)).idempotent).toBe(true);
+    const captureReport = report(captured.authorization.authId, '400');
+    expect(await recordExecution({ store, report: captureReport })).toEqual({ ok: true, idempotent: false });
+    expect(await recordExecution({ store, report: captureReport })).toEqual({ ok: true, idempotent: true });
+
+    // Expires at issuance, so it is reclaimable once the clock moves past it.
+    const expired = await authorize(1, nowSeconds());
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await reclaimAuthorization({
+      store,
+      request: { authId: expired.authorization.authId, callerType: 'sequencer', requestedAt: nowSeconds().toString() },
+      adminTokenHeader: undefined,
+      expectedAdminToken: undefined,
+      allowInternalSequencer: true
+    });
+
+    const account = await getAgentAccount({ store, agentId });
+    expect(account).toMatchObject({
+      balanceMicros: '9600',
+      debitedOutstandingMicros: '400',
+      nextAgentNonce: '2',
+      openAuthorizations: 0
+    });
+
+    const committed = await runCommitmentEpoch({ store, sequencerKeyId: 'seq-key-1', anchorConfigured: false });
+    expect(committed).toMatchObject({ committed: true, epochId: '1' });
+    const proof = await buildInclusionProof({
+      store,
+      authId: expired.authorization.authId,
+      leafSaltSecret: LEAF_SALT_SECRET
+    });
+    expect(proof).toMatchObject({ epochId: '1', leafIndex: 1, root: committed.root });
+    expect(await store.read((tx) => tx.getLatestCommitment())).toMatchObject({ epochId: '1', count: 2 });
+  });
+
+  it('captures the whole hold for a version 1 report without an executed amount', async () => {
+    const { store, agentId, authorize, relayerPrivateKey } = await setup();
+    const { authorization } = await authorize(0, nowSeconds() + 300n);
+    const payload = {
+      version: 1 as const,
+      authId: authorization.authId,
+      chainRef: CHAIN_REF,
+      executionTxHash: `0x${'66'.repeat(32)}`,
+      status: 'SUCCESS' as const,
+      reportId: (`0x${'77'.repeat(32)}` as Hex),
+      reportedAt: nowSeconds().toString(),
+      relayerKeyId: 'relayer-key-1'
+    };
+    const reportSig = sign(null, sha256(canonicalExecutionReportBytes(payload)), relayerPrivateKey).toString('hex');
+    await recordExecution({ store, report: { ...payload, reportSig: `0x${reportSig}` } });
+
+    expect(await store.read((tx) => tx.getExecution(authorization.authId))).toMatchObject({
+      executedAmountMicros: '1000'
+    });
+    expect(await getAgentAccount({ store, agentId })).toMatchObject({
+      balanceMicros: '9000',
+      debitedOutstandingMicros: '1000'
+    });
+  });
+
+  it('serves history, statements, fee accounts and key listings without a database', async () => {
+    const { store, agentId, authorize, report } = await setup(new Map([[CHAIN_REF, { chainRef: CHAIN_REF, flatMicros: '25', bps: 0 }]]));
+    const merchantId = (`0x${'44'.repeat(32)}` as Hex);
+    const startedAt = nowSeconds();
+    const executed = await authorize(0, startedAt + 300n);
+    await recordExecution({ store, report: report(executed.authorization.authId, '400') });
+    const open = await authorize(1, startedAt + 300n);
+
+    const history = await listAgentAuthorizations({ store, agentId, query: { limit: 1 } });
+    expect(history.items.map((item) => item.authorization.authId)).toEqual([open.authorization.authId]);
+    const older = await listAgentAuthorizations({ store, agentId, query: { cursor: history.nextCursor! } });
+    expect(older.items).toMatchObject([
+      { authorization: { authId: executed.authorization.authId }, execution: { status: 'SUCCESS' } }
+    ]);
+    expect(older.nextCursor).toBeNull();
+
+    const statement = await getMerchantStatement({
+      store,
+      merchantId,
+      query: {
+        endpointUrl: 'https://merchant.example/api',
+        fromExecutedAt: startedAt.toString(),
+        toExecutedAt: (startedAt + 60n).toString()
+      }
+    });
+    expect(statement.totals).toEqual([{ chainRef: CHAIN_REF, executedMicros: '400', executions: 1 }]);
+    expect(statement.lines).toMatchObject([{ authId: executed.authorization.authId, executedAmountMicros: '400' }]);
+    expect(await listRelayerFeeAccounts({ store })).toMatchObject([
+      { chainRef: CHAIN_REF, relayerKeyId: 'relayer-key-1', accruedMicros: '25' }
+    ]);
+
+    await seedRelayerKeys(store, [{ chainRef: CHAIN_REF, keyId: 'relayer-key-2', publicKey: (`0x${'88'.repeat(32)}` as Hex) }]);
+    expect((await listRelayerKeys({ store })).map((key) => key.keyId)).toEqual(['relayer-key-1', 'relayer-key-2']);
+    expect(await listRelayerKeyEvents({ store, chainRef: CHAIN_REF, keyId: 'relayer-key-2' })).toMatchObject([
+      { action: 'REGISTER', toStatus: 'ACTIVE', reason: 'SEQUENCER_RELAYER_KEYS_JSON' }
+    ]);
+
+    const merchantKey = { serviceRegistryId: 'merchant/a', keyId: 'merchant-key-1', publicKey: (`0x${'99'.repeat(32)}` as Hex) };
+    await registerMerchantKey({ store, ...merchantKey, now: startedAt });
+    await expect(
+      registerMerchantKey({ store, ...merchantKey, publicKey: (`0x${'9a'.repeat(32)}` as Hex), now: startedAt })
+    ).rejects.toThrow('different public key');
+    await revokeMerchantKey({ store, serviceRegistryId: 'merchant/a', keyId: 'merchant-key-1', now: startedAt });
+    expect(await listMerchantKeys({ store })).toMatchObject([{ keyId: 'merchant-key-1', status: 'REVOKED' }]);
+
+    const ring = parseSequencerSigningKeysEnv({
+      keysJson: JSON.stringify([{ keyId: 'seq-key-1', privateKey: `0x${'01'.repeat(32)}`, activatesAt: '0' }]),
+      keyId: undefined,
+      privateKey: undefined
+    });
+    await registerSequencerKeys(store, ring);
+    const signed = await buildSignedKeySet({ store, keys: ring, now: 1000n });
+    expect(signed.keySet.keys.map((key) => key.keyId)).toEqual(['seq-key-1']);
+  });
+
+  it('runs withdrawals and disputes without a database', async () => {
+    const { store, agentId, agentPubKey, agentPrivateKey, relayerPrivateKey, sequencerPrivateKey, authorize, report } =
+      await setup();
+    const logContext = { sequencerKeyId: 'seq-key-1', leafSaltSecret: LEAF_SALT_SECRET };
+    const { authorization } = await authorize(0, nowSeconds() + 300n);
+    await recordExecution({ store, report: report(authorization.authId, '400') });
+
+    const intent: WithdrawIntentV1 = {
+      version: 1,
+      agentId,
+      agentPubKey,
+      signatureScheme: 'ed25519-sha256-v1',
+      agentNonce: '1',
+      amountMicros: '500',
+      commitment: (`0x${'c1'.repeat(32)}` as Hex),
+      expiresAt: (nowSeconds() + 300n).toString(),
+      requestId: (`0x${'c2'.repeat(32)}` as Hex)
+    };
+    const withdrawal = await requestWithdrawal({
+      store,
+      intent,
+      agentSig: `0x${sign(null, sha256(canonicalWithdrawIntentBytes(intent)), agentPrivateKey).toString('hex')}`,
+      sequencerKeyId: 'seq-key-1',
+      sequencerPrivateKey,
+      leafSaltSecret: LEAF_SALT_SECRET
+    });
+    // A deposit of the full amount by someone else does not pay the withdrawal.
+    const foreign = { txHash: (`0x${'d2'.repeat(32)}` as Hex), amount: 500n, sender: (`0x${'d3'.repeat(20)}` as Hex) };
+    const deposits: Hex[] = [];
+    const poster = {
+      sender: async () => (`0x${'d4'.repeat(20)}` as Hex),
+      listDeposits: async () => [foreign],
+      deposit: async ({ commitment }: { commitment: Hex }) => {
+        deposits.push(commitment);
+        return (`0x${'d1'.repeat(32)}` as Hex);
+      }
+    };
+    expect(await runWithdrawalPoster({ store, poster })).toEqual({ posted: 1 });
+    expect(await runWithdrawalPoster({ store, poster })).toEqual({ posted: 0 });
+    expect(deposits).toEqual([intent.commitment]);
+    expect(await getWithdrawal({ store, agentId, withdrawalId: withdrawal.withdrawal.withdrawalId })).toMatchObject({
+      status: 'POSTED',
+      depositTxHash: `0x${'d1'.repeat(32)}`
+    });
+    await expect(
+      getWithdrawal({ store, agentId: (`0x${'d5'.repeat(32)}` as Hex), withdrawalId: withdrawal.withdrawal.withdrawalId })
+    ).rejects.toThrow('withdrawal not found');
+
+    const request: DisputeRequestV1 = {
+      version: 1,
+      authId: authorization.authId,
+      agentId,
+      reasonHash: (`0x${'c3'.repeat(32)}` as Hex),
+      requestedAt: nowSeconds().toString()
+    };
+    const filed = await fileDispute({
+      ...logContext,
+      store,
+      request,
+      agentSig: `0x${sign(null, sha256(canonicalDisputeRequestBytes(request)), agentPrivateKey).toString('hex')}`,
+      disputeWindowSeconds: 3600n,
+      evidenceSeconds: 3600n
+    });
+    const listQuery: RelayerQueryV1 = {
+      chainRef: CHAIN_REF,
+      keyId: 'relayer-key-1',
+      resource: `/v1/credit/disputes?chainRef=${encodeURIComponent(CHAIN_REF)}&status=OPEN`,
+      requestedAt: nowSeconds().toString()
+    };
+    const relayerSig = (`0x${sign(null, sha256(canonicalRelayerQueryBytes(listQuery)), relayerPrivateKey).toString('hex')}` as Hex);
+    await store.read((tx) => verifyRelayerQuery(tx, { query: listQuery, relayerSig, maxSkewSeconds: 60n, now: nowSeconds() }));
+    await expect(
+      store.read((tx) =>
+        verifyRelayerQuery(tx, {
+          query: { ...listQuery, resource: `${listQuery.resource}&limit=1` },
+          relayerSig,
+          maxSkewSeconds: 60n,
+          now: nowSeconds()
+        })
+      )
+    ).rejects.toThrow('unauthorized relayer query: invalid signature');
+    await expect(
+      store.read((tx) =>
+        verifyRelayerQuery(tx, { query: listQuery, relayerSig, maxSkewSeconds: 60n, now: nowSeconds() + 120n })
+      )
+    ).rejects.toThrow('unauthorized relayer query: requestedAt outside allowed window');
+    const credited = await resolveDispute({
+      ...logContext,
+      store,
+      disputeId: filed.disputeId,
+      resolution: { outcome: 'CREDIT' },
+      resolvedBy: 'admin'
+    });
+    expect(credited).toMatchObject({ status: 'CREDITED', creditedMicros: '400', resolvedBy: 'admin' });
+    expect((await getDispute({ store, disputeId: filed.disputeId })).events.map((event) => event.action)).toEqual([
+      'FILED',
+      'CREDITED'
+    ]);
+    await expect(getDispute({ store, agentId, disputeId: filed.disputeId })).resolves.toMatchObject({
+      status: 'CREDITED'
+    });
+    await expect(
+      getDispute({ store, agentId: (`0x${'d5'.repeat(32)}` as Hex), disputeId: filed.disputeId })
+    ).rejects.toThrow('dispute not found');
+    expect(await getAgentAccount({ store, agentId })).toMatchObject({
+      balanceMicros: '9500',
+      debitedOutstandingMicros: '0',
+      nextAgentNonce: '2'
+    });
+
+    // Withdrawals and dispute events are leaves of the same log as authorizations.
+    await runCommitmentEpoch({ store, sequencerKeyId: 'seq-key-1', anchorConfigured: false });
+    const withdrawalProof = await buildInclusionProof({
+      store,
+      authId: withdrawal.withdrawal.withdrawalId,
+      leafSaltSecret: LEAF_SALT_SECRET
+    });
+    expect(withdrawalProof).toMatchObject({ epochId: '1', leafIndex: 1 });
+    const eventProof = await buildInclusionProof({
+      store,
+      authId: credited.events[1]!.eventId,
+      leafSaltSecret: LEAF_SALT_SECRET
+    });
+    expect(eventProof).toMatchObject({ epochId: '1', leafIndex: 3 });
+  });
+
+  it('discards every write of a transaction that throws', async () => {
+    const { store, agentId, authorize, report } = await setup();
+    const { authorization } = await authorize(0, nowSeconds() + 300n);
+
+    await expect(
+      store.transaction(async (tx) => {
+        await tx.creditAgent({ agentId, amountMicros: 5n, now: nowSeconds() });
+        await tx.updateAuthorizationStatus(authorization.authId, { status: 'RECLAIMED', reclaimedAt: '1' });
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+
+    expect((await getAgentAccount({ store, agentId })).balanceMicros).toBe('9000');
+    expect(await recordExecution({ store, report: report(authorization.authId, '1000') })).toEqual({
+      ok: true,
+      idempotent: false
+    });
+  });
+
+  it('holds the relayer fee with the amount, accrues it on success and returns it on reclaim', async () => {
+    const { store, agentId, authorize, report } = await setup(
+      new Map([[CHAIN_REF, { chainRef: CHAIN_REF, flatMicros: '10', bps: 100 }]])
+    );
+
+    const executed = await authorize(0, nowSeconds() + 300n);
+    expect(executed.authorization).toMatchObject({ version: 2, authorizedAmountMicros: '1000', feeMicros: '20' });
+    expect(executed.balanceReceipt).toMatchObject({ balanceMicros: '8980', debitedOutstandingMicros: '1020' });
+    await recordExecution({ store, report: report(executed.authorization.authId, '400') });
+    expect(await store.read((tx) => tx.getRelayerFeeAccount(CHAIN_REF, 'relayer-key-1'))).toMatchObject({
+      accruedMicros: '20',
+      executionsCount: '1'
+    });
+
+    const expired = await authorize(1, nowSeconds());
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await reclaimAuthorization({
+      store,
+      request: { authId: expired.authorization.authId, callerType: 'sequencer', requestedAt: nowSeconds().toString() },
+      adminTokenHeader: undefined,
+      expectedAdminToken: undefined,
+      allowInternalSequencer: true
+    });
+
+    expect(await getAgentAccount({ store, agentId })).toMatchObject({
+      balanceMicros: '9580',
+      debitedOutstandingMicros: '420'
+    });
+  });
+
+  it('refuses a relayer fee above the maxFeeMicros the agent signed', async () => {
+    const { authorize } = await setup(new Map([[CHAIN_REF, { chainRef: CHAIN_REF, flatMicros: '10', bps: 100 }]]));
+
+    await expect(authorize(0, nowSeconds() + 300n, '19')).rejects.toThrow(
+      'relayer fee 20 exceeds intent maxFeeMicros 19'
+    );
+    expect((await authorize(0, nowSeconds() + 300n, '20')).authorization).toMatchObject({ feeMicros: '20' });
+  });
+
+  it('counts relayer fees against rolling policy caps', async () => {
+    const { store, agentId, agentPubKey, authorize } = await setup(
+      new Map([[CHAIN_REF, { chainRef: CHAIN_REF, flatMicros: '10', bps: 100 }]])
+    );
+    // Two 1000-micro authorizations fit the cap on amount alone, but each also holds a 20-micro fee.
+    store.putAgentPolicy(agentId, {
+      version: 1,
+      agentId,
+      agentPubKey,
+      signatureScheme: 'ed25519-sha256-v1',
+      policyVersion: '1',
+      dailyCapMicros: '2039'
+    });
+
+    await authorize(0, nowSeconds() + 300n);
+    await expect(authorize(1, nowSeconds() + 300n)).rejects.toThrow(
+      'POLICY_DAILY_CAP_EXCEEDED: daily cap 2039 would be exceeded'
+    );
+  });
+
+  it('takes withdrawals through nonce lanes, policy caps and the balance receipt chain', async () => {
+    const { store, agentId, agentPubKey, agentPrivateKey, sequencerPrivateKey, authorize } = await setup();
+    const sequencerKeys = { 'seq-key-1': extractEd25519RawPublicKey(createPublicKey(sequencerPrivateKey)) };
+    const withdraw = (laneSeq: number, amountMicros: string, byte: string) => {
+      const intent: WithdrawIntentV1 = {
+        version: 2,
+        agentId,
+        agentPubKey,
+        signatureScheme: 'ed25519-sha256-v1',
+        agentNonce: deriveLaneAgentNonce({ nonceLane: 2, laneSeq: laneSeq.toString() }),
+        amountMicros,
+        commitment: (`0x${byte.repeat(32)}` as Hex),
+        expiresAt: (nowSeconds() + 300n).toString(),
+        requestId: (`0x${byte.repeat(32)}` as Hex),
+        nonceLane: 2,
+        laneSeq: laneSeq.toString()
+      };
+      return requestWithdrawal({
+        store,
+        intent,
+        agentSig: `0x${sign(null, sha256(canonicalWithdrawIntentBytes(intent)), agentPrivateKey).toString('hex')}`,
+        sequencerKeyId: 'seq-key-1',
+        sequencerPrivateKey,
+        leafSaltSecret: LEAF_SALT_SECRET
+      });
+    };
+    store.putAgentPolicy(agentId, {
+      version: 1,
+      agentId,
+      agentPubKey,
+      signatureScheme: 'ed25519-sha256-v1',
+      policyVersion: '1',
+      maxAmountPerAuthMicros: '1000',
+      dailyCapMicros: '1600'
+    });
+    const { balanceReceipt, balanceReceiptSig } = await authorize(0, nowSeconds() + 300n);
+    await expect(withdraw(0, '1100', 'c4')).rejects.toThrow('POLICY_AMOUNT_EXCEEDED');
+
+    const withdrawn = await withdraw(0, '500', 'c4');
+    expect(withdrawn.balanceReceipt).toMatchObject({
+      authId: withdrawn.withdrawal.withdrawalId,
+      balanceMicros: '8500',
+      debitedOutstandingMicros: '1000',
+      nextAgentNonce: '1',
+      logSeqNo: withdrawn.withdrawal.logSeqNo,
+      prevReceiptHash: hashBalanceReceipt(balanceReceipt!)
+    });
+    expect(
+      verifyBalanceReceiptChain({
+        receipts: [
+          { receipt: balanceReceipt!, balanceReceiptSig: balanceReceiptSig! },
+          { receipt: withdrawn.balanceReceipt!, balanceReceiptSig: withdrawn.balanceReceiptSig! }
+        ],
+        sequencerKeys
+      })
+    ).toBe(hashBalanceReceipt(withdrawn.balanceReceipt!));
+    await expect(withdraw(0, '500', 'c4')).resolves.toMatchObject({
+      idempotent: true,
+      balanceReceipt: withdrawn.balanceReceipt
+    });
+
+    await expect(withdraw(0, '50', 'c5')).rejects.toThrow(
+      'invalid lane sequence for nonceLane 2: expected 1, received 0'
+    );
+    // The authorization and the first withdrawal already hold 1500 of the 1600 daily cap.
+    await expect(withdraw(1, '200', 'c5')).rejects.toThrow(
+      'POLICY_DAILY_CAP_EXCEEDED: daily cap 1600 would be exceeded'
+    );
+    await expect(withdraw(1, '100', 'c5')).resolves.toMatchObject({ idempotent: false });
+    expect(await getAgentAccount({ store, agentId })).toMatchObject({
+      balanceMicros: '8400',
+      withdrawnMicros: '600',
+      nextAgentNonce: '1',
+      nonceLanes: [{ nonceLane: 2, nextLaneSeq: '2' }]
+    });
+  });
+});
@@ -0,0 +1,864 @@
+import type {
+  AgentPolicyV1,
+  DisputeEventV1,
+  Hex,
+  MerchantChainTotalV1,
+  MerchantRecordV1,
+  RelayerFeeAccountV1
+} from '@shielded-x402/shared-types';
+import type {
+  AgentPolicyRecord,
+  AgentRecord,
+  AuthorizationRecord,
+  CommitmentRecord,
+  DisputeRecord,
+  ExecutionAttemptRecord,
+  ExecutionRecord,
+  FundingDepositRecord,
+  IdempotencyKeyRecord,
+  LeafRecord,
+  LedgerStore,
+  LedgerTx,
+  MerchantExecutionFilter,
+  MerchantKeyRecord,
+  RelayerKeyEvent,
+  RelayerKeyRecord,
+  SequencerCounters,
+  SequencerKeyRecord,
+  WithdrawalRecord
+} from './ledgerStore.js';
+
+const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
+
+interface LedgerState {
+  agents: Map<Hex, AgentRecord>;
+  nonceLanes: Map<string, { nextLaneSeq: string; updatedAt: string }>;
+  policies: Map<Hex, AgentPolicyRecord>;
+  idempotencyKeys: Map<Hex, IdempotencyKeyRecord>;
+  authorizations: Map<Hex, AuthorizationRecord>;
+  relayerKeys: Map<string, RelayerKeyRecord>;
+  relayerKeyEvents: RelayerKeyEvent[];
+  executionAttempts: Map<Hex, ExecutionAttemptRecord>;
+  executions: Map<Hex, ExecutionRecord>;
+  relayerFees: Map<string, RelayerFeeAccountV1>;
+  sequencerKeys: Map<string, SequencerKeyRecord>;
+  merchantKeys: Map<string, MerchantKeyRecord>;
+  counters: SequencerCounters;
+  leaves: LeafRecord[];
+  commitments: Map<string, CommitmentRecord>;
+  anchorPosts: Map<string, AnchorPostState>;
+  fundingDeposits: Map<string, FundingDepositRecord>;
+  /** Last scan time per claim, keyed like `fundingDeposits`; absent until first scanned. */
+  fundingScannedAt: Map<string, string>;
+  withdrawals: Map<Hex, WithdrawalRecord>;
+  disputes: Map<Hex, DisputeRecord>;
+  disputeEvents: DisputeEventV1[];
+  merchants: Map<Hex, MerchantRecordV1>;
+}
+
+interface AnchorPostState {
+  postedTxHash: Hex | null;
+  postedAt: string | null;
+  postAttempts: number;
+  nextPostAt: string;
+  lastError: string | null;
+}
+
+export interface InMemoryLedgerStore extends LedgerStore {
+  putRelayerKey(chainRef: string, keyId: string, key: Pick<RelayerKeyRecord, 'publicKey' | 'status' | 'revokedAt'>): void;
+  putAgentPolicy(agentId: Hex, policy: AgentPolicyV1): void;
+}
+
+function emptyState(): LedgerState {
+  return {
+    agents: new Map(),
+    nonceLanes: new Map(),
+    policies: new Map(),
+    idempotencyKeys: new Map(),
+    authorizations: new Map(),
+    relayerKeys: new Map(),
+    relayerKeyEvents: [],
+    executionAttempts: new Map(),
+    executions: new Map(),
+    relayerFees: new Map(),
+    sequencerKeys: new Map(),
+    merchantKeys: new Map(),
+    counters: { logSeqNo: '0', lastLeafHash: ZERO_HASH, lastEpochId: '0', lastRoot: ZERO_HASH },
+    leaves: [],
+    commitments: new Map(),
+    anchorPosts: new Map(),
+    fundingDeposits: new Map(),
+    fundingScannedAt: new Map(),
+    withdrawals: new Map(),
+    disputes: new Map(),
+    disputeEvents: [],
+    merchants: new Map()
+  };
+}
+
+function laneKey(agentId: Hex, nonceLane: number): string {
+  return `${agentId}:${nonceLane}`;
+}
+
+function relayerKeyKey(chainRef: string, keyId: string): string {
+  return `${chainRef}:${keyId}`;
+}
+
+function anchorPostKey(anchorId: string, epochId: string): string {
+  return `${anchorId}:${epochId}`;
+}
+
+function merchantKeyKey(serviceRegistryId: string, keyId: string): string {
+  return `${serviceRegistryId}:${keyId}`;
+}
+
+function fundingDepositKey(nullifier: Hex, merchantCommitment: Hex): string {
+  return `${nullifier}:${merchantCommitment}`;
+}
+
+function compareDecimal(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+}
+
+function byLogSeqNo(a: { logSeqNo: string }, b: { logSeqNo: string }): number {
+  return compareDecimal(a.logSeqNo, b.logSeqNo);
+}
+
+function byChainRef<T extends { chainRef: string }>(a: T, b: T): number {
+  return a.chainRef.localeCompare(b.chainRef);
+}
+
+function duplicate(constraint: string): Error {
+  return new Error(`duplicate key value violates unique constraint ${constraint}`);
+}
+
+function createStateTx(state: LedgerState): LedgerTx {
+  const merchantExecutions = (merchantId: Hex, filter: MerchantExecutionFilter) =>
+    [...state.authorizations.values()].flatMap((auth) => {
+      const execution = state.executions.get(auth.authId);
+      const leaf = state.leaves.find((existing) => existing.authId === auth.authId);
+      if (
+        auth.merchantId !== merchantId ||
+        auth.status !== 'EXECUTED' ||
+        !auth.executedAt ||
+        !execution ||
+        !leaf ||
+        compareDecimal(auth.executedAt, filter.fromExecutedAt) < 0 ||
+        compareDecimal(auth.executedAt, filter.toExecutedAt) >= 0 ||
+        (filter.chainRef !== undefined && auth.chainRef !== filter.chainRef)
+      ) {
+        return [];
+      }
+      return [{ authorization: structuredClone(auth), execution: { ...execution }, leaf: { ...leaf } }];
+    });
+
+  return {
+    async ensureAgent(agentId, now) {
+      if (state.agents.has(agentId)) return;
+      state.agents.set(agentId, {
+        agentId,
+        balanceMicros: '0',
+        creditedMicros: '0',
+        debitedOutstandingMicros: '0',
+        withdrawnMicros: '0',
+        nextAgentNonce: '0',
+        agentPubKey: null,
+        signatureScheme: null,
+        lastBalanceReceiptHash: null,
+        updatedAt: now.toString()
+      });
+    },
+
+    async getAgent(agentId) {
+      const agent = state.agents.get(agentId);
+      return agent ? { ...agent } : undefined;
+    },
+
+    async updateAgent(agentId, update) {
+      const agent = state.agents.get(agentId);
+      if (!agent) return;
+      state.agents.set(agentId, { ...agent, ...update });
+    },
+
+    async creditAgent(input) {
+      const agent = state.agents.get(input.agentId);
+      const amount = input.amountMicros;
+      state.agents.set(input.agentId, {
+        agentId: input.agentId,
+        debitedOutstandingMicros: '0',
+        withdrawnMicros: '0',
+        nextAgentNonce: '0',
+        agentPubKey: null,
+        signatureScheme: null,
+        lastBalanceReceiptHash: null,
+        ...agent,
+        balanceMicros: (BigInt(agent?.balanceMicros ?? '0') + amount).toString(),
+        creditedMicros: (BigInt(agent?.creditedMicros ?? '0') + amount).toString(),
+        updatedAt: input.now.toString()
+      });
+    },
+
+    async listNonceLanes(agentId) {
+      return [...state.nonceLanes.entries()]
+        .filter(([key]) => key.startsWith(`${agentId}:`))
+        .map(([key, lane]) => ({ nonceLane: Number(key.slice(agentId.length + 1)), nextLaneSeq: lane.nextLaneSeq }))
+        .sort((a, b) => a.nonceLane - b.nonceLane);
+    },
+
+    async getNonceLaneSeq(agentId, nonceLane, now) {
+      const key = laneKey(agentId, nonceLane);
+      const lane = state.nonceLanes.get(key) ?? { nextLaneSeq: '0', updatedAt: now.toString() };
+      state.nonceLanes.set(key, lane);
+      return BigInt(lane.nextLaneSeq);
+    },
+
+    async setNonceLaneSeq(agentId, nonceLane, nextLaneSeq, now) {
+      const key = laneKey(agentId, nonceLane);
+      if (!state.nonceLanes.has(key)) return;
+      state.nonceLanes.set(key, { nextLaneSeq: nextLaneSeq.toString(), updatedAt: now.toString() });
+    },
+
+    async getAgentPolicy(agentId) {
+      const record = state.policies.get(agentId);
+      return record ? structuredClone(record) : undefined;
+    },
+
+    async putAgentPolicy(record) {
+      state.policies.set(record.agentId, structuredClone(record));
+    },
+
+    async sumIssuedSince(agentId, since) {
+      let total = 0n;
+      for (const auth of state.authorizations.values()) {
+        if (auth.agentId === agentId && BigInt(auth.issuedAt) > since && auth.status !== 'RECLAIMED') {
+          total += BigInt(auth.amountMicros) + BigInt(auth.feeMicros);
+        }
+      }
+      for (const withdrawal of state.withdrawals.values()) {
+        if (withdrawal.agentId === agentId && BigInt(withdrawal.issuedAt) > since) {
+          total += BigInt(withdrawal.amountMicros);
+        }
+      }
+      return total;
+    },
+
+    async getIdempotencyKey(requestId) {
+      return state.idempotencyKeys.get(requestId);
+    },
+
+    async insertIdempotencyKey(record) {
+      if (state.idempotencyKeys.has(record.requestId)) throw duplicate('idempotency_keys_pkey');
+      state.idempotencyKeys.set(record.requestId, { ...record });
+    },
+
+    async getAuthorization(authId) {
+      const auth = state.authorizations.get(authId);
+      return auth ? { ...auth } : undefined;
+    },
+
+    async insertAuthorization(record) {
+      if (state.authorizations.has(record.authId)) throw duplicate('authorizations_pkey');
+      for (const auth of state.authorizations.values()) {
+        if (auth.requestId === record.requestId) throw duplicate('authorizations_request_id_key');
+        if (auth.agentId === record.agentId && auth.agentNonce === record.agentNonce) {
+          throw duplicate('authorizations_agent_id_agent_nonce_key');
+        }
+      }
+      state.authorizations.set(record.authId, structuredClone(record));
+    },
+
+    async updateAuthorizationStatus(authId, update) {
+      const auth = state.authorizations.get(authId);
+      if (!auth) return;
+      state.authorizations.set(authId, {
+        ...auth,
+        status: update.status,
+        executedAt: update.executedAt ?? auth.executedAt,
+        reclaimedAt: update.reclaimedAt ?? auth.reclaimedAt
+      });
+    },
+
+    async countOpenAuthorizations(agentId) {
+      let count = 0;
+      for (const auth of state.authorizations.values()) {
+        if (auth.agentId === agentId && auth.status === 'ISSUED') count += 1;
+      }
+      return count;
+    },
+
+    async listExpiredAuthorizations(now, limit) {
+      return [...state.authorizations.values()]
+        .filter((auth) => auth.status === 'ISSUED' && BigInt(auth.expiresAt) < now)
+        .sort((a, b) => Number(BigInt(a.expiresAt) - BigInt(b.expiresAt)))
+        .slice(0, limit)
+        .map((auth) => auth.authId);
+    },
+
+    async listAgentAuthorizations(agentId, filter, limit) {
+      return [...state.authorizations.values()]
+        .filter(
+          (auth) =>
+            auth.agentId === agentId &&
+            (filter.status === undefined || auth.status === filter.status) &&
+            (filter.chainRef === undefined || auth.chainRef === filter.chainRef) &&
+            (filter.merchantId === undefined || auth.merchantId === filter.merchantId) &&
+            (filter.fromIssuedAt === undefined || compareDecimal(auth.issuedAt, filter.fromIssuedAt) >= 0) &&
+            (filter.toIssuedAt === undefined || compareDecimal(auth.issuedAt, filter.toIssuedAt) <= 0) &&
+            (filter.beforeLogSeqNo === undefined || compareDecimal(auth.logSeqNo, filter.beforeLogSeqNo) < 0)
+        )
+        .sort((a, b) => byLogSeqNo(b, a))
+        .slice(0, limit)
+        .map((auth) => {
+          const execution = state.executions.get(auth.authId);
+          return { authorization: structuredClone(auth), execution: execution ? { ...execution } : null };
+        });
+    },
+
+    async listMerchantExecutions(merchantId, filter, limit) {
+      return merchantExecutions(merchantId, filter)
+        .filter(
+          ({ authorization }) =>
+            filter.afterLogSeqNo === undefined || compareDecimal(authorization.logSeqNo, filter.afterLogSeqNo) > 0
+        )
+        .sort((a, b) => byLogSeqNo(a.authorization, b.authorization))
+        .slice(0, limit);
+    },
+
+    async sumMerchantExecutions(merchantId, filter) {
+      const totals = new Map<string, MerchantChainTotalV1>();
+      for (const { authorization, execution } of merchantExecutions(merchantId, filter)) {
+        const total = totals.get(authorization.chainRef) ?? {
+          chainRef: authorization.chainRef,
+          executedMicros: '0',
+          executions: 0
+        };
+        totals.set(authorization.chainRef, {
+          ...total,
+          executedMicros: (BigInt(total.executedMicros) + BigInt(execution.executedAmountMicros)).toString(),
+          executions: total.executions + 1
+        });
+      }
+      return [...totals.values()].sort(byChainRef);
+    },
+
+    async getRelayerKey(chainRef, keyId) {
+      const key = state.relayerKeys.get(relayerKeyKey(chainRef, keyId));
+      return key ? { ...key } : undefined;
+    },
+
+    async listRelayerKeys(chainRef) {
+      return [...state.relayerKeys.values()]
+        .filter((key) => chainRef === undefined || key.chainRef === chainRef)
+        .sort((a, b) => byChainRef(a, b) || compareDecimal(a.createdAt, b.createdAt) || a.keyId.localeCompare(b.keyId))
+        .map((key) => ({ ...key }));
+    },
+
+    async insertRelayerKey(record) {
+      const key = relayerKeyKey(record.chainRef, record.keyId);
+      if (state.relayerKeys.has(key)) throw duplicate('relayer_keys_pkey');
+      state.relayerKeys.set(key, { ...record });
+    },
+
+    async ensureRelayerKey(record) {
+      const key = relayerKeyKey(record.chainRef, record.keyId);
+      if (state.relayerKeys.has(key)) return false;
+      state.relayerKeys.set(key, { ...record });
+      return true;
+    },
+
+    async updateRelayerKeyStatus(chainRef, keyId, update) {
+      const key = relayerKeyKey(chainRef, keyId);
+      const existing = state.relayerKeys.get(key);
+      if (!existing) return;
+      state.relayerKeys.set(key, { ...existing, ...update });
+    },
+
+    async insertRelayerKeyEvent(event) {
+      state.relayerKeyEvents.push({ ...event, eventId: String(state.relayerKeyEvents.length + 1) });
+    },
+
+    async listRelayerKeyEvents(chainRef, keyId) {
+      return state.relayerKeyEvents
+        .filter((event) => event.chainRef === chainRef && event.keyId === keyId)
+        .map((event) => ({ ...event }));
+    },
+
+    async getExecutionAttempt(reportId) {
+      const attempt = state.executionAttempts.get(reportId);
+      return attempt ? { ...attempt } : undefined;
+    },
+
+    async insertExecutionAttempt(record) {
+      if (state.executionAttempts.has(record.reportId)) throw duplicate('execution_attempts_report_id_key');
+      state.executionAttempts.set(record.reportId, { ...record });
+    },
+
+    async listFailedExecutionAttempts(authIds) {
+      return [...state.executionAttempts.values()]
+        .filter((attempt) => attempt.status === 'FAILED' && authIds.includes(attempt.authId))
+        .sort((a, b) => compareDecimal(a.reportedAt, b.reportedAt) || a.reportId.localeCompare(b.reportId))
+        .map((attempt) => ({ ...attempt }));
+    },
+
+    async getExecution(authId) {
+      const execution = state.executions.get(authId);
+      return execution ? { ...execution } : undefined;
+    },
+
+    async insertExecution(record) {
+      if (state.executions.has(record.authId)) throw duplicate('executions_pkey');
+      state.executions.set(record.authId, { ...record });
+    },
+
+    async accrueRelayerFee(input) {
+      const key = relayerKeyKey(input.chainRef, input.relayerKeyId);
+      const account = state.relayerFees.get(key);
+      state.relayerFees.set(key, {
+        chainRef: input.chainRef,
+        relayerKeyId: input.relayerKeyId,
+        accruedMicros: (BigInt(account?.accruedMicros ?? '0') + input.feeMicros).toString(),
+        executionsCount: (BigInt(account?.executionsCount ?? '0') + 1n).toString(),
+        updatedAt: input.now.toString()
+      });
+    },
+
+    async getRelayerFeeAccount(chainRef, relayerKeyId) {
+      const account = state.relayerFees.get(relayerKeyKey(chainRef, relayerKeyId));
+      return account ? { ...account } : undefined;
+    },
+
+    async listRelayerFeeAccounts(chainRef) {
+      return [...state.relayerFees.values()]
+        .filter((account) => chainRef === undefined || account.chainRef === chainRef)
+        .sort((a, b) => byChainRef(a, b) || a.relayerKeyId.localeCompare(b.relayerKeyId))
+        .map((account) => ({ ...account }));
+    },
+
+    async getSequencerKey(keyId) {
+      const key = state.sequencerKeys.get(keyId);
+      return key ? { ...key } : undefined;
+    },
+
+    async putSequencerKey(record) {
+      const existing = state.sequencerKeys.get(record.keyId);
+      state.sequencerKeys.set(
+        record.keyId,
+        existing ? { ...existing, activatesAt: record.activatesAt, retiresAt: record.retiresAt } : { ...record }
+      );
+    },
+
+    async listSequencerKeys() {
+      return [...state.sequencerKeys.values()]
+        .sort((a, b) => compareDecimal(a.activatesAt, b.activatesAt) || a.keyId.localeCompare(b.keyId))
+        .map((key) => ({ ...key }));
+    },
+
+    async getMerchantKey(serviceRegistryId, keyId) {
+      const key = state.merchantKeys.get(merchantKeyKey(serviceRegistryId, keyId));
+      return key ? { ...key } : undefined;
+    },
+
+    async ensureMerchantKey(record) {
+      const key = merchantKeyKey(record.serviceRegistryId, record.keyId);
+      if (state.merchantKeys.has(key)) return;
+      state.merchantKeys.set(key, { ...record });
+    },
+
+    async revokeMerchantKey(serviceRegistryId, keyId, revokedAt) {
+      const key = merchantKeyKey(serviceRegistryId, keyId);
+      const existing = state.merchantKeys.get(key);
+      if (!existing) return;
+      state.merchantKeys.set(key, { ...existing, status: 'REVOKED', revokedAt: existing.revokedAt ?? revokedAt });
+    },
+
+    async listMerchantKeys(serviceRegistryId) {
+      return [...state.merchantKeys.values()]
+        .filter((key) => serviceRegistryId === undefined || key.serviceRegistryId === serviceRegistryId)
+        .sort((a, b) => a.serviceRegistryId.localeCompare(b.serviceRegistryId) || a.keyId.localeCompare(b.keyId))
+        .map((key) => ({ ...key }));
+    },
+
+    async getCounters() {
+      return { ...state.counters };
+    },
+
+    async updateCounters(update) {
+      state.counters = { ...state.counters, ...update };
+    },
+
+    async appendLeaf(leaf) {
+      if (state.leaves.some((existing) => existing.logSeqNo === leaf.logSeqNo)) throw duplicate('auth_leaves_pkey');
+      if (state.leaves.some((existing) => existing.authId === leaf.authId)) throw duplicate('auth_leaves_auth_id_key');
+      state.leaves.push({ ...leaf, epochId: null });
+    },
+
+    async getLeaf(authId) {
+      const leaf = state.leaves.find((existing) => existing.authId === authId);
+      return leaf ? { ...leaf } : undefined;
+    },
+
+    async findLeafOwner(authId) {
+      const owner =
+        state.authorizations.get(authId) ??
+        state.withdrawals.get(authId) ??
+        state.disputeEvents.find((event) => event.eventId === authId);
+      if (!owner) return undefined;
+      return { authId, sequencerKeyId: owner.sequencerKeyId, logSeqNo: owner.logSeqNo };
+    },
+
+    async listUnassignedLeaves() {
+      return state.leaves
+        .filter((leaf) => leaf.epochId === null)
+        .sort(byLogSeqNo)
+        .map((leaf) => ({ ...leaf }));
+    },
+
+    async assignLeavesToEpoch(epochId) {
+      state.leaves = state.leaves.map((leaf) => (leaf.epochId === null ? { ...leaf, epochId } : leaf));
+    },
+
+    async listEpochLeaves(epochId) {
+      return state.leaves
+        .filter((leaf) => leaf.epochId === epochId)
+        .sort(byLogSeqNo)
+        .map((leaf) => ({ ...leaf }));
+    },
+
+    async insertCommitment(record) {
+      if (state.commitments.has(record.epochId)) throw duplicate('commitments_pkey');
+      state.commitments.set(record.epochId, { ...record, postedAt: null, postedTxHash: null });
+    },
+
+    async getCommitment(epochId) {
+      const commitment = state.commitments.get(epochId);
+      return commitment ? { ...commitment } : undefined;
+    },
+
+    async getLatestCommitment() {
+      let latest: CommitmentRecord | undefined;
+      for (const commitment of state.commitments.values()) {
+        if (!latest || BigInt(commitment.epochId) > BigInt(latest.epochId)) latest = commitment;
+      }
+      return latest ? { ...latest } : undefined;
+    },
+
+    async getCommitmentPostingStatus() {
+      let lastPostedAt: string | null = null;
+      let unposted = 0;
+      for (const commitment of state.commitments.values()) {
+        if (commitment.postedAt === null) unposted += 1;
+        else if (lastPostedAt === null || compareDecimal(commitment.postedAt, lastPostedAt) > 0) {
+          lastPostedAt = commitment.postedAt;
+        }
+      }
+      return { lastPostedAt, unposted };
+    },
+
+    async countUnpostedCommitments(anchorId) {
+      let unposted = 0;
+      for (const commitment of state.commitments.values()) {
+        if (!state.anchorPosts.get(anchorPostKey(anchorId, commitment.epochId))?.postedAt) unposted += 1;
+      }
+      return unposted;
+    },
+
+    async markCommitmentPosted(epochId, postedAt, postedTxHash) {
+      const commitment = state.commitments.get(epochId);
+      if (!commitment) return;
+      state.commitments.set(epochId, {
+        ...commitment,
+        postedAt,
+        postedTxHash: postedTxHash ?? commitment.postedTxHash
+      });
+    },
+
+    async listUnpostedCommitments(anchorId, limit) {
+      return [...state.commitments.values()]
+        .sort((a, b) => compareDecimal(a.epochId, b.epochId))
+        .map((commitment) => ({ commitment, post: state.anchorPosts.get(anchorPostKey(anchorId, commitment.epochId)) }))
+        .filter(({ post }) => !post?.postedAt)
+        .slice(0, limit)
+        .map(({ commitment, post }) => ({
+          ...commitment,
+          postAttempts: post?.postAttempts ?? 0,
+          nextPostAt: post?.nextPostAt ?? '0'
+        }));
+    },
+
+    async recordAnchorPost(input) {
+      const key = anchorPostKey(input.anchorId, input.epochId);
+      const post = state.anchorPosts.get(key);
+      state.anchorPosts.set(key, {
+        postAttempts: post?.postAttempts ?? 0,
+        nextPostAt: post?.nextPostAt ?? '0',
+        postedTxHash: input.postedTxHash,
+        postedAt: input.postedAt,
+        lastError: null
+      });
+    },
+
+    async recordAnchorPostFailure(input) {
+      const key = anchorPostKey(input.anchorId, input.epochId);
+      const post = state.anchorPosts.get(key);
+      state.anchorPosts.set(key, {
+        postedTxHash: post?.postedTxHash ?? null,
+        postedAt: post?.postedAt ?? null,
+        postAttempts: (post?.postAttempts ?? 0) + 1,
+        nextPostAt: input.nextPostAt,
+        lastError: input.error
+      });
+    },
+
+    async ensureFundingDeposit(record) {
+      const key = fundingDepositKey(record.nullifier, record.merchantCommitment);
+      if (state.fundingDeposits.has(key)) return;
+      state.fundingDeposits.set(key, { ...record });
+    },
+
+    async getFundingDeposit(nullifier, merchantCommitment) {
+      const deposit = state.fundingDeposits.get(fundingDepositKey(nullifier, merchantCommitment));
+      return deposit ? { ...deposit } : undefined;
+    },
+
+    async listFundingDeposits(nullifier) {
+      return [...state.fundingDeposits.values()]
+        .filter((deposit) => deposit.nullifier === nullifier)
+        .sort(
+          (a, b) =>
+            compareDecimal(a.submittedAt, b.submittedAt) || a.merchantCommitment.localeCompare(b.merchantCommitment)
+        )
+        .map((deposit) => ({ ...deposit }));
+    },
+
+    async listPendingFundingDeposits(limit) {
+      const byNullifier = new Map<Hex, { scannedAt: string; submittedAt: string }>();
+      for (const [key, deposit] of state.fundingDeposits) {
+        if (deposit.status !== 'PENDING') continue;
+        const scannedAt = state.fundingScannedAt.get(key) ?? '0';
+        const current = byNullifier.get(deposit.nullifier);
+        byNullifier.set(deposit.nullifier, {
+          scannedAt: current && compareDecimal(current.scannedAt, scannedAt) < 0 ? current.scannedAt : scannedAt,
+          submittedAt:
+            current && compareDecimal(current.submittedAt, deposit.submittedAt) < 0
+              ? current.submittedAt
+              : deposit.submittedAt
+        });
+      }
+      return [...byNullifier]
+        .sort(
+          ([aNullifier, a], [bNullifier, b]) =>
+            compareDecimal(a.scannedAt, b.scannedAt) ||
+            compareDecimal(a.submittedAt, b.submittedAt) ||
+            aNullifier.localeCompare(bNullifier)
+        )
+        .slice(0, limit)
+        .map(([nullifier]) => nullifier);
+    },
+
+    async markFundingDepositsScanned(nullifiers, scannedAt) {
+      for (const [key, deposit] of state.fundingDeposits) {
+        if (deposit.status === 'PENDING' && nullifiers.includes(deposit.nullifier)) {
+          state.fundingScannedAt.set(key, scannedAt);
+        }
+      }
+    },
+
+    async settleFundingDeposit(nullifier, merchantCommitment, settlement) {
+      const key = fundingDepositKey(nullifier, merchantCommitment);
+      const deposit = state.fundingDeposits.get(key);
+      if (!deposit) return;
+      if (
+        settlement.status === 'CREDITED' &&
+        [...state.fundingDeposits.values()].some(
+          (other) => other.nullifier === nullifier && other.status === 'CREDITED' && other !== deposit
+        )
+      ) {
+        throw duplicate('funding_deposits_credited_idx');
+      }
+      state.fundingDeposits.set(key, {
+        ...deposit,
+        status: settlement.status,
+        spentTxHash: settlement.spentTxHash,
+        spentBlockNumber: settlement.spentBlockNumber,
+        creditedAt: settlement.creditedAt ?? null,
+        rejectionReason: settlement.rejectionReason ?? null
+      });
+    },
+
+    async getWithdrawal(withdrawalId) {
+      const withdrawal = state.withdrawals.get(withdrawalId);
+      return withdrawal ? structuredClone(withdrawal) : undefined;
+    },
+
+    async getWithdrawalByRequestId(requestId) {
+      const withdrawal = [...state.withdrawals.values()].find((existing) => existing.requestId === requestId);
+      return withdrawal ? structuredClone(withdrawal) : undefined;
+    },
+
+    async getWithdrawalByCommitment(commitment) {
+      const withdrawal = [...state.withdrawals.values()].find((existing) => existing.commitment === commitment);
+      return withdrawal ? structuredClone(withdrawal) : undefined;
+    },
+
+    async insertWithdrawal(record) {
+      if (state.withdrawals.has(record.withdrawalId)) throw duplicate('withdrawals_pkey');
+      for (const withdrawal of state.withdrawals.values()) {
+        if (withdrawal.requestId === record.requestId) throw duplicate('withdrawals_request_id_key');
+        if (withdrawal.commitment === record.commitment) throw duplicate('withdrawals_commitment_key');
+        if (withdrawal.logSeqNo === record.logSeqNo) throw duplicate('withdrawals_log_seq_no_key');
+        if (withdrawal.agentId === record.agentId && withdrawal.agentNonce === record.agentNonce) {
+          throw duplicate('withdrawals_agent_id_agent_nonce_key');
+        }
+      }
+      state.withdrawals.set(record.withdrawalId, structuredClone(record));
+    },
+
+    async listPendingWithdrawals(limit) {
+      return [...state.withdrawals.values()]
+        .filter((withdrawal) => withdrawal.status === 'PENDING')
+        .sort(byLogSeqNo)
+        .slice(0, limit)
+        .map((withdrawal) => structuredClone(withdrawal));
+    },
+
+    async markWithdrawalPosted(withdrawalId, input) {
+      const withdrawal = state.withdrawals.get(withdrawalId);
+      if (!withdrawal || withdrawal.status !== 'PENDING') return;
+      state.withdrawals.set(withdrawalId, {
+        ...withdrawal,
+        status: 'POSTED',
+        depositTxHash: input.depositTxHash,
+        postedAt: input.postedAt,
+        lastError: null
+      });
+    },
+
+    async recordWithdrawalFailure(withdrawalId, error) {
+      const withdrawal = state.withdrawals.get(withdrawalId);
+      if (!withdrawal) return;
+      state.withdrawals.set(withdrawalId, {
+        ...withdrawal,
+        postAttempts: withdrawal.postAttempts + 1,
+        lastError: error
+      });
+    },
+
+    async getDispute(disputeId) {
+      const dispute = state.disputes.get(disputeId);
+      return dispute ? structuredClone(dispute) : undefined;
+    },
+
+    async insertDispute(record) {
+      if (state.disputes.has(record.disputeId)) throw duplicate('disputes_pkey');
+      for (const dispute of state.disputes.values()) {
+        if (dispute.authId === record.authId) throw duplicate('disputes_auth_id_key');
+      }
+      state.disputes.set(record.disputeId, structuredClone(record));
+    },
+
+    async updateDispute(disputeId, update) {
+      const dispute = state.disputes.get(disputeId);
+      if (!dispute) return;
+      state.disputes.set(disputeId, {
+        ...dispute,
+        status: update.status,
+        evidence: update.evidence ? structuredClone(update.evidence) : dispute.evidence,
+        relayerSig: update.relayerSig ?? dispute.relayerSig,
+        creditedMicros: update.creditedMicros ?? dispute.creditedMicros,
+        resolvedAt: update.resolvedAt ?? dispute.resolvedAt,
+        resolvedBy: update.resolvedBy ?? dispute.resolvedBy
+      });
+    },
+
+    async insertDisputeEvent(event) {
+      for (const existing of state.disputeEvents) {
+        if (existing.eventId === event.eventId) throw duplicate('dispute_events_pkey');
+        if (existing.logSeqNo === event.logSeqNo) throw duplicate('dispute_events_log_seq_no_key');
+      }
+      state.disputeEvents.push({ ...event });
+    },
+
+    async listDisputeEvents(disputeId) {
+      return state.disputeEvents
+        .filter((event) => event.disputeId === disputeId)
+        .sort(byLogSeqNo)
+        .map((event) => ({ ...event }));
+    },
+
+    async listDisputes(chainRef, status, limit) {
+      return [...state.disputes.values()]
+        .filter((dispute) => dispute.chainRef === chainRef && dispute.status === status)
+        .sort((a, b) => compareDecimal(a.filedAt, b.filedAt) || a.disputeId.localeCompare(b.disputeId))
+        .slice(0, limit)
+        .map((dispute) => structuredClone(dispute));
+    },
+
+    async listOverdueDisputes(now, limit) {
+      return [...state.disputes.values()]
+        .filter((dispute) => dispute.status === 'OPEN' && BigInt(dispute.evidenceDueAt) < now)
+        .sort((a, b) => compareDecimal(a.evidenceDueAt, b.evidenceDueAt))
+        .slice(0, limit)
+        .map((dispute) => dispute.disputeId);
+    },
+
+    async getMerchant(merchantId) {
+      const merchant = state.merchants.get(merchantId);
+      return merchant ? structuredClone(merchant) : undefined;
+    },
+
+    async putMerchant(record) {
+      state.merchants.set(record.merchantId, {
+        ...structuredClone(record),
+        payoutAddresses: [...record.payoutAddresses].sort((a, b) => a.chainRef.localeCompare(b.chainRef))
+      });
+    }
+  };
+}
+
+/**
+ * In-process ledger for unit tests and for running a single sequencer without a database
+ * (`SEQUENCER_LEDGER_STORE=memory`); state is lost on restart. Transactions run one at a time against a copy of the
+ * committed state, which replaces it only when the transaction resolves, so a throw rolls
+ * back every write exactly as the Postgres store does. Unique constraints raise errors
+ * instead of overwriting.
+ */
+export function createInMemoryLedgerStore(): InMemoryLedgerStore {
+  let committed = emptyState();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    transaction<T>(fn: (tx: LedgerTx) => Promise<T>): Promise<T> {
+      const run = queue.then(async () => {
+        const working = structuredClone(committed);
+        const out = await fn(createStateTx(working));
+        committed = working;
+        return out;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+    async read(fn) {
+      // Reads see a throwaway copy, so a stray write through them never reaches committed state.
+      return fn(createStateTx(structuredClone(committed)));
+    },
+    putRelayerKey(chainRef, keyId, key) {
+      committed.relayerKeys.set(relayerKeyKey(chainRef, keyId), {
+        chainRef,
+        keyId,
+        ...key,
+        createdAt: '0',
+        updatedAt: '0'
+      });
+    },
+    putAgentPolicy(agentId, policy) {
+      committed.policies.set(agentId, {
+        agentId,
+        policyVersion: policy.policyVersion,
+        policy: structuredClone(policy),
+        agentSig: ZERO_HASH,
+        updatedAt: '0'
+      });
+    }
+  };
+}
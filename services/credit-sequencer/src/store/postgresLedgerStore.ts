@@ -0,0 +1,1646 @@
+import {
+  normalizeHex,
+  type AgentPolicyV1,
+  type AuthorizationStatus,
+  type DisputeEventV1,
+  type DisputeEvidenceV1,
+  type DisputeRequestV1,
+  type DisputeStatus,
+  type FundingStatus,
+  type Hex,
+  type MerchantChainTotalV1,
+  type MerchantRecordSource,
+  type RelayerFeeAccountV1,
+  type SignatureScheme,
+  type WithdrawalStatus,
+  type WithdrawalV1
+} from '@shielded-x402/shared-types';
+import type { Pool, PoolClient } from 'pg';
+import type {
+  AgentRecord,
+  AgentUpdate,
+  AuthorizationRecord,
+  CommitmentRecord,
+  DisputeRecord,
+  ExecutionAttemptRecord,
+  ExecutionRecord,
+  FundingDepositRecord,
+  LeafRecord,
+  LedgerStore,
+  LedgerTx,
+  MerchantKeyRecord,
+  MerchantKeyStatus,
+  RelayerKeyAction,
+  RelayerKeyRecord,
+  RelayerKeyStatus,
+  SequencerCounters,
+  SequencerKeyRecord,
+  WithdrawalRecord
+} from './ledgerStore.js';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+interface DbAgentRow {
+  agent_id: Hex;
+  balance_micros: string;
+  credited_micros: string;
+  debited_outstanding_micros: string;
+  withdrawn_micros: string;
+  next_agent_nonce: string;
+  agent_pub_key: Hex | null;
+  signature_scheme: SignatureScheme | null;
+  last_balance_receipt_hash: Hex | null;
+  updated_at: string;
+}
+
+interface DbAuthorizationRow {
+  auth_id: Hex;
+  request_id: Hex;
+  intent_hash: Hex;
+  agent_id: Hex;
+  agent_nonce: string;
+  amount_micros: string;
+  fee_micros: string;
+  merchant_id: Hex;
+  chain_ref: string;
+  issued_at: string;
+  expires_at: string;
+  execution_grace_until: string;
+  log_seq_no: string;
+  status: AuthorizationStatus;
+  sequencer_key_id: string;
+  sequencer_sig: Hex;
+  authorization_json: AuthorizationRecord['authorization'];
+  balance_receipt_json: AuthorizationRecord['balanceReceipt'];
+  balance_receipt_sig: Hex | null;
+  executed_at: string | null;
+  reclaimed_at: string | null;
+}
+
+/** Execution columns selected alongside an authorization, null without an execution. */
+interface DbJoinedExecutionRow {
+  execution_chain_ref: string | null;
+  execution_tx_hash: string | null;
+  execution_relayer_key_id: string | null;
+  execution_reported_at: string | null;
+  execution_executed_amount_micros: string | null;
+}
+
+interface DbExecutionAttemptRow {
+  auth_id: Hex;
+  report_id: Hex;
+  tx_hash: string;
+  status: 'SUCCESS' | 'FAILED';
+  reporter_key_id: string;
+  reported_at: string;
+  report_sig: Hex;
+  executed_amount_micros: string;
+}
+
+interface DbLeafRow {
+  log_seq_no: string;
+  auth_id: Hex;
+  prev_leaf_hash: Hex;
+  leaf_hash: Hex;
+  epoch_id: string | null;
+}
+
+interface DbCommitmentRow {
+  epoch_id: string;
+  root: Hex;
+  count: number;
+  prev_root: Hex;
+  sequencer_key_id: string;
+  posted_at: string | null;
+  posted_tx_hash: Hex | null;
+}
+
+interface DbRelayerKeyRow {
+  chain_ref: string;
+  key_id: string;
+  public_key: Hex;
+  status: RelayerKeyStatus;
+  created_at: string;
+  updated_at: string;
+  revoked_at: string | null;
+}
+
+interface DbRelayerKeyEventRow {
+  event_id: string;
+  chain_ref: string;
+  key_id: string;
+  action: RelayerKeyAction;
+  from_status: RelayerKeyStatus | null;
+  to_status: RelayerKeyStatus;
+  related_key_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+interface DbFeeAccountRow {
+  chain_ref: string;
+  relayer_key_id: string;
+  accrued_micros: string;
+  executions_count: string;
+  updated_at: string;
+}
+
+interface DbSequencerKeyRow {
+  key_id: string;
+  public_key: Hex;
+  activates_at: string;
+  retires_at: string | null;
+  created_at: string;
+}
+
+interface DbMerchantKeyRow {
+  service_registry_id: string;
+  key_id: string;
+  public_key: Hex;
+  status: MerchantKeyStatus;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+interface DbFundingRow {
+  nullifier: Hex;
+  agent_id: Hex;
+  amount_micros: string;
+  merchant_commitment: Hex;
+  status: FundingStatus;
+  submitted_at: string;
+  spent_tx_hash: Hex | null;
+  spent_block_number: string | null;
+  credited_at: string | null;
+  rejection_reason: string | null;
+}
+
+interface DbWithdrawalRow {
+  withdrawal_id: Hex;
+  request_id: Hex;
+  intent_hash: Hex;
+  agent_id: Hex;
+  agent_nonce: string;
+  amount_micros: string;
+  commitment: Hex;
+  issued_at: string;
+  log_seq_no: string;
+  status: WithdrawalStatus;
+  sequencer_key_id: string;
+  sequencer_sig: Hex;
+  withdrawal_json: WithdrawalV1;
+  balance_receipt_json: WithdrawalRecord['balanceReceipt'];
+  balance_receipt_sig: Hex | null;
+  deposit_tx_hash: Hex | null;
+  posted_at: string | null;
+  post_attempts: number;
+  last_error: string | null;
+}
+
+interface DbDisputeRow {
+  dispute_id: Hex;
+  auth_id: Hex;
+  agent_id: Hex;
+  chain_ref: string;
+  status: DisputeStatus;
+  request_json: DisputeRequestV1;
+  agent_sig: Hex;
+  filed_at: string;
+  evidence_due_at: string;
+  evidence_json: DisputeEvidenceV1 | null;
+  relayer_sig: Hex | null;
+  credited_micros: string;
+  resolved_at: string | null;
+  resolved_by: 'admin' | 'rule' | null;
+}
+
+const AUTHORIZATION_COLUMNS = `a.auth_id, a.request_id, a.intent_hash, a.agent_id, a.agent_nonce, a.amount_micros,
+       a.fee_micros, a.merchant_id, a.chain_ref, a.issued_at, a.expires_at, a.execution_grace_until, a.log_seq_no,
+       a.status, a.sequencer_key_id, a.sequencer_sig, a.authorization_json, a.balance_receipt_json,
+       a.balance_receipt_sig, a.executed_at, a.reclaimed_at`;
+
+const JOINED_EXECUTION_COLUMNS = `e.chain_ref AS execution_chain_ref, e.execution_tx_hash,
+       e.relayer_key_id AS execution_relayer_key_id, e.reported_at AS execution_reported_at,
+       e.executed_amount_micros AS execution_executed_amount_micros`;
+
+const EXECUTION_ATTEMPT_COLUMNS =
+  'auth_id, report_id, tx_hash, status, reporter_key_id, reported_at, report_sig, executed_amount_micros';
+
+const RELAYER_KEY_COLUMNS = 'chain_ref, key_id, public_key, status, created_at, updated_at, revoked_at';
+
+const MERCHANT_KEY_COLUMNS = 'service_registry_id, key_id, public_key, status, created_at, revoked_at';
+
+const FUNDING_COLUMNS = `nullifier, agent_id, amount_micros, merchant_commitment, status, submitted_at, spent_tx_hash,
+       spent_block_number, credited_at, rejection_reason`;
+
+const WITHDRAWAL_COLUMNS = `withdrawal_id, request_id, intent_hash, agent_id, agent_nonce, amount_micros, commitment,
+       issued_at, log_seq_no, status, sequencer_key_id, sequencer_sig, withdrawal_json, balance_receipt_json,
+       balance_receipt_sig, deposit_tx_hash, posted_at, post_attempts, last_error`;
+
+const DISPUTE_COLUMNS = `dispute_id, auth_id, agent_id, chain_ref, status, request_json, agent_sig, filed_at,
+       evidence_due_at, evidence_json, relayer_sig, credited_micros, resolved_at, resolved_by`;
+
+const AGENT_COLUMNS: Record<Exclude<keyof AgentUpdate, 'updatedAt'>, string> = {
+  balanceMicros: 'balance_micros',
+  debitedOutstandingMicros: 'debited_outstanding_micros',
+  withdrawnMicros: 'withdrawn_micros',
+  nextAgentNonce: 'next_agent_nonce',
+  agentPubKey: 'agent_pub_key',
+  signatureScheme: 'signature_scheme',
+  lastBalanceReceiptHash: 'last_balance_receipt_hash'
+};
+
+const COUNTER_COLUMNS: Record<keyof SequencerCounters, string> = {
+  logSeqNo: 'log_seq_no',
+  lastLeafHash: 'last_leaf_hash',
+  lastEpochId: 'last_epoch_id',
+  lastRoot: 'last_root'
+};
+
+function agentFromRow(row: DbAgentRow): AgentRecord {
+  return {
+    agentId: row.agent_id,
+    balanceMicros: row.balance_micros,
+    creditedMicros: row.credited_micros,
+    debitedOutstandingMicros: row.debited_outstanding_micros,
+    withdrawnMicros: row.withdrawn_micros,
+    nextAgentNonce: row.next_agent_nonce,
+    agentPubKey: row.agent_pub_key ?? null,
+    signatureScheme: row.signature_scheme ?? null,
+    lastBalanceReceiptHash: row.last_balance_receipt_hash ?? null,
+    updatedAt: row.updated_at
+  };
+}
+
+function authorizationFromRow(row: DbAuthorizationRow): AuthorizationRecord {
+  return {
+    authId: row.auth_id,
+    requestId: row.request_id,
+    intentHash: row.intent_hash,
+    agentId: row.agent_id,
+    agentNonce: row.agent_nonce,
+    amountMicros: row.amount_micros,
+    feeMicros: row.fee_micros ?? '0',
+    merchantId: row.merchant_id,
+    chainRef: row.chain_ref,
+    issuedAt: row.issued_at,
+    expiresAt: row.expires_at,
+    executionGraceUntil: row.execution_grace_until,
+    logSeqNo: row.log_seq_no,
+    status: row.status,
+    sequencerKeyId: row.sequencer_key_id,
+    sequencerSig: row.sequencer_sig,
+    authorization: row.authorization_json,
+    balanceReceipt: row.balance_receipt_json ?? null,
+    balanceReceiptSig: row.balance_receipt_sig ?? null,
+    executedAt: row.executed_at ?? null,
+    reclaimedAt: row.reclaimed_at ?? null
+  };
+}
+
+function joinedExecutionFromRow(row: DbAuthorizationRow & DbJoinedExecutionRow): ExecutionRecord | null {
+  if (!row.execution_tx_hash || !row.execution_chain_ref || !row.execution_reported_at) return null;
+  return {
+    authId: row.auth_id,
+    chainRef: row.execution_chain_ref,
+    executionTxHash: row.execution_tx_hash,
+    relayerKeyId: row.execution_relayer_key_id as string,
+    reportedAt: row.execution_reported_at,
+    executedAmountMicros: row.execution_executed_amount_micros ?? '0'
+  };
+}
+
+function executionAttemptFromRow(row: DbExecutionAttemptRow): ExecutionAttemptRecord {
+  return {
+    authId: row.auth_id,
+    reportId: row.report_id,
+    txHash: row.tx_hash,
+    status: row.status,
+    reporterKeyId: row.reporter_key_id,
+    reportedAt: row.reported_at,
+    reportSig: row.report_sig,
+    executedAmountMicros: row.executed_amount_micros
+  };
+}
+
+function leafFromRow(row: DbLeafRow): LeafRecord {
+  return {
+    logSeqNo: row.log_seq_no,
+    authId: row.auth_id,
+    prevLeafHash: row.prev_leaf_hash,
+    leafHash: row.leaf_hash,
+    epochId: row.epoch_id ?? null
+  };
+}
+
+function commitmentFromRow(row: DbCommitmentRow): CommitmentRecord {
+  return {
+    epochId: row.epoch_id,
+    root: row.root,
+    count: row.count,
+    prevRoot: row.prev_root,
+    sequencerKeyId: row.sequencer_key_id,
+    postedAt: row.posted_at ?? null,
+    postedTxHash: row.posted_tx_hash ?? null
+  };
+}
+
+function relayerKeyFromRow(row: DbRelayerKeyRow): RelayerKeyRecord {
+  return {
+    chainRef: row.chain_ref,
+    keyId: row.key_id,
+    publicKey: normalizeHex(row.public_key),
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    revokedAt: row.revoked_at ?? null
+  };
+}
+
+function sequencerKeyFromRow(row: DbSequencerKeyRow): SequencerKeyRecord {
+  return {
+    keyId: row.key_id,
+    publicKey: normalizeHex(row.public_key),
+    activatesAt: row.activates_at,
+    retiresAt: row.retires_at ?? null,
+    createdAt: row.created_at
+  };
+}
+
+function merchantKeyFromRow(row: DbMerchantKeyRow): MerchantKeyRecord {
+  return {
+    serviceRegistryId: row.service_registry_id,
+    keyId: row.key_id,
+    publicKey: normalizeHex(row.public_key),
+    status: row.status,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at ?? null
+  };
+}
+
+function fundingFromRow(row: DbFundingRow): FundingDepositRecord {
+  return {
+    nullifier: normalizeHex(row.nullifier),
+    agentId: normalizeHex(row.agent_id),
+    amountMicros: row.amount_micros,
+    merchantCommitment: normalizeHex(row.merchant_commitment),
+    status: row.status,
+    submittedAt: row.submitted_at,
+    spentTxHash: row.spent_tx_hash ? normalizeHex(row.spent_tx_hash) : null,
+    spentBlockNumber: row.spent_block_number ?? null,
+    creditedAt: row.credited_at ?? null,
+    rejectionReason: row.rejection_reason ?? null
+  };
+}
+
+function withdrawalFromRow(row: DbWithdrawalRow): WithdrawalRecord {
+  return {
+    withdrawalId: normalizeHex(row.withdrawal_id),
+    requestId: normalizeHex(row.request_id),
+    intentHash: normalizeHex(row.intent_hash),
+    agentId: normalizeHex(row.agent_id),
+    agentNonce: row.agent_nonce,
+    amountMicros: row.amount_micros,
+    commitment: normalizeHex(row.commitment),
+    issuedAt: row.issued_at,
+    logSeqNo: row.log_seq_no,
+    status: row.status,
+    sequencerKeyId: row.sequencer_key_id,
+    sequencerSig: normalizeHex(row.sequencer_sig),
+    withdrawal: row.withdrawal_json,
+    balanceReceipt: row.balance_receipt_json ?? null,
+    balanceReceiptSig: row.balance_receipt_sig ? normalizeHex(row.balance_receipt_sig) : null,
+    depositTxHash: row.deposit_tx_hash ? normalizeHex(row.deposit_tx_hash) : null,
+    postedAt: row.posted_at ?? null,
+    postAttempts: row.post_attempts,
+    lastError: row.last_error ?? null
+  };
+}
+
+function disputeFromRow(row: DbDisputeRow): DisputeRecord {
+  return {
+    disputeId: normalizeHex(row.dispute_id),
+    authId: normalizeHex(row.auth_id),
+    agentId: normalizeHex(row.agent_id),
+    chainRef: row.chain_ref,
+    status: row.status,
+    request: row.request_json,
+    agentSig: normalizeHex(row.agent_sig),
+    filedAt: row.filed_at,
+    evidenceDueAt: row.evidence_due_at,
+    evidence: row.evidence_json ?? null,
+    relayerSig: row.relayer_sig ? normalizeHex(row.relayer_sig) : null,
+    creditedMicros: row.credited_micros,
+    resolvedAt: row.resolved_at ?? null,
+    resolvedBy: row.resolved_by ?? null
+  };
+}
+
+/**
+ * Ledger operations over one Postgres connection. With `locking` set, reads take
+ * `FOR UPDATE` row locks, which only hold inside a transaction on `db`. Use this to join
+ * ledger writes to a transaction that also touches other tables.
+ */
+export function createPostgresLedgerTx(db: Queryable, options: { locking: boolean }): LedgerTx {
+  const forUpdate = options.locking ? 'FOR UPDATE' : '';
+
+  return {
+    async ensureAgent(agentId, now) {
+      await db.query(
+        `INSERT INTO agents(agent_id, updated_at)
+         VALUES ($1, $2)
+         ON CONFLICT (agent_id) DO NOTHING`,
+        [agentId, now.toString()]
+      );
+    },
+
+    async getAgent(agentId) {
+      const res = await db.query<DbAgentRow>(
+        `SELECT agent_id, balance_micros, credited_micros, debited_outstanding_micros, withdrawn_micros,
+                next_agent_nonce, agent_pub_key, signature_scheme, last_balance_receipt_hash, updated_at
+         FROM agents
+         WHERE agent_id = $1
+         ${forUpdate}`,
+        [agentId]
+      );
+      const row = res.rows[0];
+      return row ? agentFromRow(row) : undefined;
+    },
+
+    async updateAgent(agentId, update) {
+      const assignments: string[] = [];
+      const values: unknown[] = [agentId];
+      for (const [key, column] of Object.entries(AGENT_COLUMNS)) {
+        const value = update[key as keyof typeof AGENT_COLUMNS];
+        if (value === undefined) continue;
+        values.push(value);
+        assignments.push(`${column} = $${values.length}`);
+      }
+      values.push(update.updatedAt);
+      assignments.push(`updated_at = $${values.length}`);
+      await db.query(
+        `UPDATE agents
+         SET ${assignments.join(', ')}
+         WHERE agent_id = $1`,
+        values
+      );
+    },
+
+    async creditAgent(input) {
+      await db.query(
+        `INSERT INTO agents(agent_id, balance_micros, next_agent_nonce, credited_micros, debited_outstanding_micros, updated_at, agent_pub_key, signature_scheme)
+         VALUES ($1, $2, 0, $2, 0, $3, NULL, NULL)
+         ON CONFLICT (agent_id)
+         DO UPDATE SET
+           balance_micros = agents.balance_micros + $2,
+           credited_micros = agents.credited_micros + $2,
+           updated_at = $3`,
+        [input.agentId, input.amountMicros.toString(), input.now.toString()]
+      );
+    },
+
+    async listNonceLanes(agentId) {
+      const res = await db.query<{ nonce_lane: number; next_lane_seq: string }>(
+        `SELECT nonce_lane, next_lane_seq
+         FROM agent_nonce_lanes
+         WHERE agent_id = $1
+         ORDER BY nonce_lane ASC`,
+        [agentId]
+      );
+      return res.rows.map((row) => ({ nonceLane: row.nonce_lane, nextLaneSeq: row.next_lane_seq }));
+    },
+
+    async getNonceLaneSeq(agentId, nonceLane, now) {
+      await db.query(
+        `INSERT INTO agent_nonce_lanes(agent_id, nonce_lane, next_lane_seq, updated_at)
+         VALUES ($1, $2, 0, $3)
+         ON CONFLICT (agent_id, nonce_lane) DO NOTHING`,
+        [agentId, nonceLane, now.toString()]
+      );
+      const res = await db.query<{ next_lane_seq: string }>(
+        `SELECT next_lane_seq
+         FROM agent_nonce_lanes
+         WHERE agent_id = $1 AND nonce_lane = $2
+         ${forUpdate}`,
+        [agentId, nonceLane]
+      );
+      return BigInt(res.rows[0]?.next_lane_seq ?? '0');
+    },
+
+    async setNonceLaneSeq(agentId, nonceLane, nextLaneSeq, now) {
+      await db.query(
+        `UPDATE agent_nonce_lanes
+         SET next_lane_seq = $3, updated_at = $4
+         WHERE agent_id = $1 AND nonce_lane = $2`,
+        [agentId, nonceLane, nextLaneSeq.toString(), now.toString()]
+      );
+    },
+
+    async getAgentPolicy(agentId) {
+      const res = await db.query<{
+        agent_id: Hex;
+        policy_version: string;
+        policy_json: AgentPolicyV1;
+        agent_sig: Hex;
+        updated_at: string;
+      }>(
+        `SELECT agent_id, policy_version, policy_json, agent_sig, updated_at
+         FROM agent_policies
+         WHERE agent_id = $1
+         ${forUpdate}`,
+        [agentId]
+      );
+      const row = res.rows[0];
+      return row
+        ? {
+            agentId: normalizeHex(row.agent_id),
+            policyVersion: row.policy_version,
+            policy: row.policy_json,
+            agentSig: normalizeHex(row.agent_sig),
+            updatedAt: row.updated_at
+          }
+        : undefined;
+    },
+
+    async putAgentPolicy(record) {
+      await db.query(
+        `INSERT INTO agent_policies(agent_id, policy_version, policy_json, agent_sig, updated_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (agent_id)
+         DO UPDATE SET
+           policy_version = EXCLUDED.policy_version,
+           policy_json = EXCLUDED.policy_json,
+           agent_sig = EXCLUDED.agent_sig,
+           updated_at = EXCLUDED.updated_at`,
+        [record.agentId, record.policyVersion, JSON.stringify(record.policy), record.agentSig, record.updatedAt]
+      );
+    },
+
+    async sumIssuedSince(agentId, since) {
+      const res = await db.query<{ total: string }>(
+        `SELECT (
+           COALESCE((
+             SELECT SUM(amount_micros + fee_micros)
+             FROM authorizations
+             WHERE agent_id = $1 AND issued_at > $2 AND status <> 'RECLAIMED'
+           ), 0)
+           + COALESCE((
+             SELECT SUM(amount_micros)
+             FROM withdrawals
+             WHERE agent_id = $1 AND issued_at > $2
+           ), 0)
+         )::text AS total`,
+        [agentId, since.toString()]
+      );
+      return BigInt(res.rows[0]?.total ?? '0');
+    },
+
+    async getIdempotencyKey(requestId) {
+      const res = await db.query<{ request_id: Hex; intent_hash: Hex; auth_id: Hex; created_at: string }>(
+        `SELECT request_id, intent_hash, auth_id, created_at
+         FROM idempotency_keys
+         WHERE request_id = $1
+         ${forUpdate}`,
+        [requestId]
+      );
+      const row = res.rows[0];
+      return row
+        ? { requestId: row.request_id, intentHash: row.intent_hash, authId: row.auth_id, createdAt: row.created_at }
+        : undefined;
+    },
+
+    async insertIdempotencyKey(record) {
+      await db.query(
+        `INSERT INTO idempotency_keys(request_id, intent_hash, auth_id, created_at)
+         VALUES ($1, $2, $3, $4)`,
+        [record.requestId, record.intentHash, record.authId, record.createdAt]
+      );
+    },
+
+    async getAuthorization(authId) {
+      const res = await db.query<DbAuthorizationRow>(
+        `SELECT ${AUTHORIZATION_COLUMNS}
+         FROM authorizations a
+         WHERE a.auth_id = $1
+         ${forUpdate}`,
+        [authId]
+      );
+      const row = res.rows[0];
+      return row ? authorizationFromRow(row) : undefined;
+    },
+
+    async insertAuthorization(record) {
+      await db.query(
+        `INSERT INTO authorizations(
+           auth_id, request_id, intent_hash, agent_id, agent_nonce, amount_micros, merchant_id, chain_ref,
+           issued_at, expires_at, execution_grace_until, log_seq_no, status, sequencer_key_id, sequencer_sig, authorization_json,
+           balance_receipt_json, balance_receipt_sig, fee_micros
+         ) VALUES (
+           $1, $2, $3, $4, $5, $6, $7, $8,
+           $9, $10, $11, $12, $13, $14, $15, $16,
+           $17, $18, $19
+         )`,
+        [
+          record.authId,
+          record.requestId,
+          record.intentHash,
+          record.agentId,
+          record.agentNonce,
+          record.amountMicros,
+          record.merchantId,
+          record.chainRef,
+          record.issuedAt,
+          record.expiresAt,
+          record.executionGraceUntil,
+          record.logSeqNo,
+          record.status,
+          record.sequencerKeyId,
+          record.sequencerSig,
+          JSON.stringify(record.authorization),
+          record.balanceReceipt ? JSON.stringify(record.balanceReceipt) : null,
+          record.balanceReceiptSig,
+          record.feeMicros
+        ]
+      );
+    },
+
+    async updateAuthorizationStatus(authId, update) {
+      await db.query(
+        `UPDATE authorizations
+         SET status = $2,
+             executed_at = COALESCE($3, executed_at),
+             reclaimed_at = COALESCE($4, reclaimed_at)
+         WHERE auth_id = $1`,
+        [authId, update.status, update.executedAt ?? null, update.reclaimedAt ?? null]
+      );
+    },
+
+    async countOpenAuthorizations(agentId) {
+      const res = await db.query<{ count: string }>(
+        `SELECT COUNT(*)::text AS count
+         FROM authorizations
+         WHERE agent_id = $1 AND status = 'ISSUED'`,
+        [agentId]
+      );
+      return Number(res.rows[0]?.count ?? '0');
+    },
+
+    async listExpiredAuthorizations(now, limit) {
+      const res = await db.query<{ auth_id: Hex }>(
+        `SELECT auth_id
+         FROM authorizations
+         WHERE status = 'ISSUED' AND expires_at < $1
+         ORDER BY expires_at ASC
+         LIMIT $2`,
+        [now.toString(), limit]
+      );
+      return res.rows.map((row) => row.auth_id);
+    },
+
+    async listAgentAuthorizations(agentId, filter, limit) {
+      const conditions = ['a.agent_id = $1'];
+      const params: unknown[] = [agentId];
+      const addCondition = (sql: string, value: unknown): void => {
+        params.push(value);
+        conditions.push(sql.replace('?', `$${params.length}`));
+      };
+      if (filter.status) addCondition('a.status = ?', filter.status);
+      if (filter.chainRef) addCondition('a.chain_ref = ?', filter.chainRef);
+      if (filter.merchantId) addCondition('a.merchant_id = ?', filter.merchantId);
+      if (filter.fromIssuedAt) addCondition('a.issued_at >= ?', filter.fromIssuedAt);
+      if (filter.toIssuedAt) addCondition('a.issued_at <= ?', filter.toIssuedAt);
+      if (filter.beforeLogSeqNo) addCondition('a.log_seq_no < ?', filter.beforeLogSeqNo);
+      params.push(limit);
+      const res = await db.query<DbAuthorizationRow & DbJoinedExecutionRow>(
+        `SELECT ${AUTHORIZATION_COLUMNS}, ${JOINED_EXECUTION_COLUMNS}
+         FROM authorizations a
+         LEFT JOIN executions e ON e.auth_id = a.auth_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY a.log_seq_no DESC
+         LIMIT $${params.length}`,
+        params
+      );
+      return res.rows.map((row) => ({ authorization: authorizationFromRow(row), execution: joinedExecutionFromRow(row) }));
+    },
+
+    async listMerchantExecutions(merchantId, filter, limit) {
+      const params: unknown[] = [merchantId, filter.fromExecutedAt, filter.toExecutedAt, filter.chainRef ?? null];
+      let afterCondition = '';
+      if (filter.afterLogSeqNo) {
+        params.push(filter.afterLogSeqNo);
+        afterCondition = `AND a.log_seq_no > $${params.length}`;
+      }
+      params.push(limit);
+      const res = await db.query<
+        DbAuthorizationRow & DbJoinedExecutionRow & Omit<DbLeafRow, 'log_seq_no' | 'auth_id'> & { leaf_log_seq_no: string }
+      >(
+        `SELECT ${AUTHORIZATION_COLUMNS}, ${JOINED_EXECUTION_COLUMNS},
+                l.log_seq_no AS leaf_log_seq_no, l.prev_leaf_hash, l.leaf_hash, l.epoch_id
+         FROM authorizations a
+         JOIN executions e ON e.auth_id = a.auth_id
+         JOIN auth_leaves l ON l.auth_id = a.auth_id
+         WHERE a.merchant_id = $1 AND a.status = 'EXECUTED' AND a.executed_at >= $2 AND a.executed_at < $3
+           AND ($4::text IS NULL OR a.chain_ref = $4) ${afterCondition}
+         ORDER BY a.log_seq_no ASC
+         LIMIT $${params.length}`,
+        params
+      );
+      return res.rows.map((row) => ({
+        authorization: authorizationFromRow(row),
+        execution: joinedExecutionFromRow(row) as ExecutionRecord,
+        leaf: leafFromRow({ ...row, log_seq_no: row.leaf_log_seq_no })
+      }));
+    },
+
+    async sumMerchantExecutions(merchantId, filter) {
+      const res = await db.query<{ chain_ref: string; executed_micros: string; executions: string }>(
+        `SELECT a.chain_ref, SUM(e.executed_amount_micros)::text AS executed_micros, COUNT(*)::text AS executions
+         FROM authorizations a
+         JOIN executions e ON e.auth_id = a.auth_id
+         WHERE a.merchant_id = $1 AND a.status = 'EXECUTED' AND a.executed_at >= $2 AND a.executed_at < $3
+           AND ($4::text IS NULL OR a.chain_ref = $4)
+         GROUP BY a.chain_ref
+         ORDER BY a.chain_ref ASC`,
+        [merchantId, filter.fromExecutedAt, filter.toExecutedAt, filter.chainRef ?? null]
+      );
+      return res.rows.map(
+        (row): MerchantChainTotalV1 => ({
+          chainRef: row.chain_ref,
+          executedMicros: row.executed_micros,
+          executions: Number(row.executions)
+        })
+      );
+    },
+
+    async getRelayerKey(chainRef, keyId) {
+      const res = await db.query<DbRelayerKeyRow>(
+        `SELECT ${RELAYER_KEY_COLUMNS}
+         FROM relayer_keys
+         WHERE chain_ref = $1 AND key_id = $2
+         ${forUpdate}`,
+        [chainRef, keyId]
+      );
+      const row = res.rows[0];
+      return row ? relayerKeyFromRow(row) : undefined;
+    },
+
+    async listRelayerKeys(chainRef) {
+      const res = await db.query<DbRelayerKeyRow>(
+        `SELECT ${RELAYER_KEY_COLUMNS}
+         FROM relayer_keys
+         WHERE $1::text IS NULL OR chain_ref = $1
+         ORDER BY chain_ref ASC, created_at ASC, key_id ASC`,
+        [chainRef ?? null]
+      );
+      return res.rows.map(relayerKeyFromRow);
+    },
+
+    async insertRelayerKey(record) {
+      await db.query(
+        `INSERT INTO relayer_keys(chain_ref, key_id, public_key, status, created_at, updated_at, revoked_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          record.chainRef,
+          record.keyId,
+          record.publicKey,
+          record.status,
+          record.createdAt,
+          record.updatedAt,
+          record.revokedAt
+        ]
+      );
+    },
+
+    async ensureRelayerKey(record) {
+      const res = await db.query(
+        `INSERT INTO relayer_keys(chain_ref, key_id, public_key, status, created_at, updated_at, revoked_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (chain_ref, key_id) DO NOTHING`,
+        [
+          record.chainRef,
+          record.keyId,
+          record.publicKey,
+          record.status,
+          record.createdAt,
+          record.updatedAt,
+          record.revokedAt
+        ]
+      );
+      return res.rowCount === 1;
+    },
+
+    async updateRelayerKeyStatus(chainRef, keyId, update) {
+      await db.query(
+        `UPDATE relayer_keys
+         SET status = $3, revoked_at = $4, updated_at = $5
+         WHERE chain_ref = $1 AND key_id = $2`,
+        [chainRef, keyId, update.status, update.revokedAt, update.updatedAt]
+      );
+    },
+
+    async insertRelayerKeyEvent(event) {
+      await db.query(
+        `INSERT INTO relayer_key_events(chain_ref, key_id, action, from_status, to_status, related_key_id, reason, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          event.chainRef,
+          event.keyId,
+          event.action,
+          event.fromStatus,
+          event.toStatus,
+          event.relatedKeyId,
+          event.reason,
+          event.createdAt
+        ]
+      );
+    },
+
+    async listRelayerKeyEvents(chainRef, keyId) {
+      const res = await db.query<DbRelayerKeyEventRow>(
+        `SELECT event_id, chain_ref, key_id, action, from_status, to_status, related_key_id, reason, created_at
+         FROM relayer_key_events
+         WHERE chain_ref = $1 AND key_id = $2
+         ORDER BY event_id ASC`,
+        [chainRef, keyId]
+      );
+      return res.rows.map((row) => ({
+        eventId: row.event_id,
+        chainRef: row.chain_ref,
+        keyId: row.key_id,
+        action: row.action,
+        fromStatus: row.from_status,
+        toStatus: row.to_status,
+        relatedKeyId: row.related_key_id,
+        reason: row.reason,
+        createdAt: row.created_at
+      }));
+    },
+
+    async getExecutionAttempt(reportId) {
+      const res = await db.query<DbExecutionAttemptRow>(
+        `SELECT ${EXECUTION_ATTEMPT_COLUMNS}
+         FROM execution_attempts
+         WHERE report_id = $1
+         ${forUpdate}`,
+        [reportId]
+      );
+      const row = res.rows[0];
+      return row ? executionAttemptFromRow(row) : undefined;
+    },
+
+    async insertExecutionAttempt(record) {
+      await db.query(
+        `INSERT INTO execution_attempts(
+           auth_id, report_id, tx_hash, status, reporter_key_id, reported_at, report_sig, executed_amount_micros
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          record.authId,
+          record.reportId,
+          record.txHash,
+          record.status,
+          record.reporterKeyId,
+          record.reportedAt,
+          record.reportSig,
+          record.executedAmountMicros
+        ]
+      );
+    },
+
+    async listFailedExecutionAttempts(authIds) {
+      if (authIds.length === 0) return [];
+      const res = await db.query<DbExecutionAttemptRow>(
+        `SELECT ${EXECUTION_ATTEMPT_COLUMNS}
+         FROM execution_attempts
+         WHERE auth_id = ANY($1) AND status = 'FAILED'
+         ORDER BY reported_at ASC, report_id ASC`,
+        [authIds]
+      );
+      return res.rows.map(executionAttemptFromRow);
+    },
+
+    async getExecution(authId) {
+      const res = await db.query<{
+        auth_id: Hex;
+        chain_ref: string;
+        execution_tx_hash: string;
+        relayer_key_id: string;
+        reported_at: string;
+        executed_amount_micros: string;
+      }>(
+        `SELECT auth_id, chain_ref, execution_tx_hash, relayer_key_id, reported_at, executed_amount_micros
+         FROM executions
+         WHERE auth_id = $1
+         ${forUpdate}`,
+        [authId]
+      );
+      const row = res.rows[0];
+      return row
+        ? {
+            authId: row.auth_id,
+            chainRef: row.chain_ref,
+            executionTxHash: row.execution_tx_hash,
+            relayerKeyId: row.relayer_key_id,
+            reportedAt: row.reported_at,
+            executedAmountMicros: row.executed_amount_micros
+          }
+        : undefined;
+    },
+
+    async insertExecution(record) {
+      await db.query(
+        `INSERT INTO executions(auth_id, chain_ref, execution_tx_hash, status, relayer_key_id, reported_at, executed_amount_micros)
+         VALUES ($1, $2, $3, 'SUCCESS', $4, $5, $6)`,
+        [
+          record.authId,
+          record.chainRef,
+          record.executionTxHash,
+          record.relayerKeyId,
+          record.reportedAt,
+          record.executedAmountMicros
+        ]
+      );
+    },
+
+    async accrueRelayerFee(input) {
+      await db.query(
+        `INSERT INTO relayer_fee_accounts(chain_ref, relayer_key_id, accrued_micros, executions_count, updated_at)
+         VALUES ($1, $2, $3, 1, $4)
+         ON CONFLICT (chain_ref, relayer_key_id)
+         DO UPDATE SET
+           accrued_micros = relayer_fee_accounts.accrued_micros + $3,
+           executions_count = relayer_fee_accounts.executions_count + 1,
+           updated_at = $4`,
+        [input.chainRef, input.relayerKeyId, input.feeMicros.toString(), input.now.toString()]
+      );
+    },
+
+    async getRelayerFeeAccount(chainRef, relayerKeyId) {
+      const res = await db.query<{
+        accrued_micros: string;
+        executions_count: string;
+        updated_at: string;
+      }>(
+        `SELECT accrued_micros::text AS accrued_micros, executions_count::text AS executions_count,
+                updated_at::text AS updated_at
+         FROM relayer_fee_accounts
+         WHERE chain_ref = $1 AND relayer_key_id = $2`,
+        [chainRef, relayerKeyId]
+      );
+      const row = res.rows[0];
+      return row
+        ? {
+            chainRef,
+            relayerKeyId,
+            accruedMicros: row.accrued_micros,
+            executionsCount: row.executions_count,
+            updatedAt: row.updated_at
+          }
+        : undefined;
+    },
+
+    async listRelayerFeeAccounts(chainRef) {
+      const res = await db.query<DbFeeAccountRow>(
+        `SELECT chain_ref, relayer_key_id, accrued_micros::text AS accrued_micros,
+                executions_count::text AS executions_count, updated_at::text AS updated_at
+         FROM relayer_fee_accounts
+         WHERE ($1::text IS NULL OR chain_ref = $1)
+         ORDER BY chain_ref ASC, relayer_key_id ASC`,
+        [chainRef ?? null]
+      );
+      return res.rows.map((row) => ({
+        chainRef: row.chain_ref,
+        relayerKeyId: row.relayer_key_id,
+        accruedMicros: row.accrued_micros,
+        executionsCount: row.executions_count,
+        updatedAt: row.updated_at
+      }));
+    },
+
+    async getSequencerKey(keyId) {
+      const res = await db.query<DbSequencerKeyRow>(
+        `SELECT key_id, public_key, activates_at, retires_at, created_at
+         FROM sequencer_keys
+         WHERE key_id = $1`,
+        [keyId]
+      );
+      const row = res.rows[0];
+      return row ? sequencerKeyFromRow(row) : undefined;
+    },
+
+    async putSequencerKey(record) {
+      await db.query(
+        `INSERT INTO sequencer_keys(key_id, public_key, activates_at, retires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (key_id)
+         DO UPDATE SET activates_at = EXCLUDED.activates_at, retires_at = EXCLUDED.retires_at`,
+        [record.keyId, record.publicKey, record.activatesAt, record.retiresAt, record.createdAt]
+      );
+    },
+
+    async listSequencerKeys() {
+      const res = await db.query<DbSequencerKeyRow>(
+        `SELECT key_id, public_key, activates_at, retires_at, created_at
+         FROM sequencer_keys
+         ORDER BY activates_at ASC, key_id ASC`
+      );
+      return res.rows.map(sequencerKeyFromRow);
+    },
+
+    async getMerchantKey(serviceRegistryId, keyId) {
+      const res = await db.query<DbMerchantKeyRow>(
+        `SELECT ${MERCHANT_KEY_COLUMNS}
+         FROM merchant_keys
+         WHERE service_registry_id = $1 AND key_id = $2
+         ${forUpdate}`,
+        [serviceRegistryId, keyId]
+      );
+      const row = res.rows[0];
+      return row ? merchantKeyFromRow(row) : undefined;
+    },
+
+    async ensureMerchantKey(record) {
+      await db.query(
+        `INSERT INTO merchant_keys(service_registry_id, key_id, public_key, status, created_at, revoked_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (service_registry_id, key_id) DO NOTHING`,
+        [record.serviceRegistryId, record.keyId, record.publicKey, record.status, record.createdAt, record.revokedAt]
+      );
+    },
+
+    async revokeMerchantKey(serviceRegistryId, keyId, revokedAt) {
+      await db.query(
+        `UPDATE merchant_keys
+         SET status = 'REVOKED', revoked_at = COALESCE(revoked_at, $3)
+         WHERE service_registry_id = $1 AND key_id = $2`,
+        [serviceRegistryId, keyId, revokedAt]
+      );
+    },
+
+    async listMerchantKeys(serviceRegistryId) {
+      const res = await db.query<DbMerchantKeyRow>(
+        `SELECT ${MERCHANT_KEY_COLUMNS}
+         FROM merchant_keys
+         WHERE ($1::text IS NULL OR service_registry_id = $1)
+         ORDER BY service_registry_id ASC, key_id ASC`,
+        [serviceRegistryId ?? null]
+      );
+      return res.rows.map(merchantKeyFromRow);
+    },
+
+    async getCounters() {
+      const res = await db.query<{
+        log_seq_no: string;
+        last_leaf_hash: Hex;
+        last_epoch_id: string;
+        last_root: Hex;
+      }>(
+        `SELECT log_seq_no, last_leaf_hash, last_epoch_id, last_root
+         FROM sequencer_counters
+         WHERE singleton = TRUE
+         ${forUpdate}`
+      );
+      const row = res.rows[0];
+      if (!row) throw new Error('sequencer counters missing');
+      return {
+        logSeqNo: row.log_seq_no,
+        lastLeafHash: row.last_leaf_hash,
+        lastEpochId: row.last_epoch_id,
+        lastRoot: row.last_root
+      };
+    },
+
+    async updateCounters(update) {
+      const assignments: string[] = [];
+      const values: unknown[] = [];
+      for (const [key, column] of Object.entries(COUNTER_COLUMNS)) {
+        const value = update[key as keyof SequencerCounters];
+        if (value === undefined) continue;
+        values.push(value);
+        assignments.push(`${column} = $${values.length}`);
+      }
+      if (assignments.length === 0) return;
+      await db.query(
+        `UPDATE sequencer_counters
+         SET ${assignments.join(', ')}
+         WHERE singleton = TRUE`,
+        values
+      );
+    },
+
+    async appendLeaf(leaf) {
+      await db.query(
+        `INSERT INTO auth_leaves(log_seq_no, auth_id, prev_leaf_hash, leaf_hash)
+         VALUES ($1, $2, $3, $4)`,
+        [leaf.logSeqNo, leaf.authId, leaf.prevLeafHash, leaf.leafHash]
+      );
+    },
+
+    async getLeaf(authId) {
+      const res = await db.query<DbLeafRow>(
+        `SELECT log_seq_no, auth_id, prev_leaf_hash, leaf_hash, epoch_id
+         FROM auth_leaves
+         WHERE auth_id = $1`,
+        [authId]
+      );
+      const row = res.rows[0];
+      return row ? leafFromRow(row) : undefined;
+    },
+
+    async findLeafOwner(authId) {
+      // Withdrawals and dispute events share the leaf log, so their ids resolve the same way.
+      const res = await db.query<{ auth_id: Hex; sequencer_key_id: string; log_seq_no: string }>(
+        `SELECT auth_id, sequencer_key_id, log_seq_no
+         FROM authorizations
+         WHERE auth_id = $1
+         UNION ALL
+         SELECT withdrawal_id AS auth_id, sequencer_key_id, log_seq_no
+         FROM withdrawals
+         WHERE withdrawal_id = $1
+         UNION ALL
+         SELECT event_id AS auth_id, event_json->>'sequencerKeyId' AS sequencer_key_id, log_seq_no
+         FROM dispute_events
+         WHERE event_id = $1`,
+        [authId]
+      );
+      const row = res.rows[0];
+      return row ? { authId: row.auth_id, sequencerKeyId: row.sequencer_key_id, logSeqNo: row.log_seq_no } : undefined;
+    },
+
+    async listUnassignedLeaves() {
+      const res = await db.query<DbLeafRow>(
+        `SELECT log_seq_no, auth_id, prev_leaf_hash, leaf_hash, epoch_id
+         FROM auth_leaves
+         WHERE epoch_id IS NULL
+         ORDER BY log_seq_no ASC
+         ${forUpdate}`
+      );
+      return res.rows.map(leafFromRow);
+    },
+
+    async assignLeavesToEpoch(epochId) {
+      await db.query(
+        `UPDATE auth_leaves
+         SET epoch_id = $1
+         WHERE epoch_id IS NULL`,
+        [epochId]
+      );
+    },
+
+    async listEpochLeaves(epochId) {
+      const res = await db.query<DbLeafRow>(
+        `SELECT log_seq_no, auth_id, prev_leaf_hash, leaf_hash, epoch_id
+         FROM auth_leaves
+         WHERE epoch_id = $1
+         ORDER BY log_seq_no ASC`,
+        [epochId]
+      );
+      return res.rows.map(leafFromRow);
+    },
+
+    async insertCommitment(record) {
+      await db.query(
+        `INSERT INTO commitments(epoch_id, root, count, prev_root, sequencer_key_id)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [record.epochId, record.root, record.count, record.prevRoot, record.sequencerKeyId]
+      );
+    },
+
+    async getCommitment(epochId) {
+      const res = await db.query<DbCommitmentRow>(
+        `SELECT epoch_id, root, count, prev_root, sequencer_key_id, posted_at, posted_tx_hash
+         FROM commitments
+         WHERE epoch_id = $1`,
+        [epochId]
+      );
+      const row = res.rows[0];
+      return row ? commitmentFromRow(row) : undefined;
+    },
+
+    async getLatestCommitment() {
+      const res = await db.query<DbCommitmentRow>(
+        `SELECT epoch_id, root, count, prev_root, sequencer_key_id, posted_at, posted_tx_hash
+         FROM commitments
+         ORDER BY epoch_id DESC
+         LIMIT 1`
+      );
+      const row = res.rows[0];
+      return row ? commitmentFromRow(row) : undefined;
+    },
+
+    async getCommitmentPostingStatus() {
+      const res = await db.query<{ posted_at: string | null; unposted: string }>(
+        `SELECT MAX(posted_at)::text AS posted_at,
+                COUNT(*) FILTER (WHERE posted_at IS NULL)::text AS unposted
+         FROM commitments`
+      );
+      return { lastPostedAt: res.rows[0]?.posted_at ?? null, unposted: Number(res.rows[0]?.unposted ?? '0') };
+    },
+
+    async countUnpostedCommitments(anchorId) {
+      const res = await db.query<{ unposted: string }>(
+        `SELECT COUNT(*)::text AS unposted
+         FROM commitments c
+         LEFT JOIN commitment_anchor_posts p ON p.epoch_id = c.epoch_id AND p.anchor_id = $1
+         WHERE p.posted_at IS NULL`,
+        [anchorId]
+      );
+      return Number(res.rows[0]?.unposted ?? '0');
+    },
+
+    async markCommitmentPosted(epochId, postedAt, postedTxHash) {
+      await db.query(
+        `UPDATE commitments
+         SET posted_at = $2, posted_tx_hash = COALESCE($3, posted_tx_hash)
+         WHERE epoch_id = $1`,
+        [epochId, postedAt, postedTxHash ?? null]
+      );
+    },
+
+    async listUnpostedCommitments(anchorId, limit) {
+      const res = await db.query<DbCommitmentRow & { post_attempts: number; next_post_at: string }>(
+        `SELECT c.epoch_id, c.root, c.count, c.prev_root, c.sequencer_key_id, c.posted_at, c.posted_tx_hash,
+                COALESCE(p.post_attempts, 0) AS post_attempts,
+                COALESCE(p.next_post_at, 0) AS next_post_at
+         FROM commitments c
+         LEFT JOIN commitment_anchor_posts p ON p.epoch_id = c.epoch_id AND p.anchor_id = $1
+         WHERE p.posted_at IS NULL
+         ORDER BY c.epoch_id ASC
+         LIMIT $2`,
+        [anchorId, limit]
+      );
+      return res.rows.map((row) => ({
+        ...commitmentFromRow(row),
+        postAttempts: row.post_attempts,
+        nextPostAt: row.next_post_at
+      }));
+    },
+
+    async recordAnchorPost(input) {
+      await db.query(
+        `INSERT INTO commitment_anchor_posts(anchor_id, epoch_id, posted_tx_hash, posted_at)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (anchor_id, epoch_id) DO UPDATE
+         SET posted_tx_hash = EXCLUDED.posted_tx_hash, posted_at = EXCLUDED.posted_at, last_error = NULL`,
+        [input.anchorId, input.epochId, input.postedTxHash, input.postedAt]
+      );
+    },
+
+    async recordAnchorPostFailure(input) {
+      await db.query(
+        `INSERT INTO commitment_anchor_posts(anchor_id, epoch_id, post_attempts, next_post_at, last_error)
+         VALUES ($1, $2, 1, $3, $4)
+         ON CONFLICT (anchor_id, epoch_id) DO UPDATE
+         SET post_attempts = commitment_anchor_posts.post_attempts + 1,
+             next_post_at = EXCLUDED.next_post_at,
+             last_error = EXCLUDED.last_error`,
+        [input.anchorId, input.epochId, input.nextPostAt, input.error]
+      );
+    },
+
+    async ensureFundingDeposit(record) {
+      await db.query(
+        `INSERT INTO funding_deposits(nullifier, agent_id, amount_micros, merchant_commitment, status, submitted_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (nullifier, merchant_commitment) DO NOTHING`,
+        [
+          record.nullifier,
+          record.agentId,
+          record.amountMicros,
+          record.merchantCommitment,
+          record.status,
+          record.submittedAt
+        ]
+      );
+    },
+
+    async getFundingDeposit(nullifier, merchantCommitment) {
+      const res = await db.query<DbFundingRow>(
+        `SELECT ${FUNDING_COLUMNS}
+         FROM funding_deposits
+         WHERE nullifier = $1 AND merchant_commitment = $2
+         ${forUpdate}`,
+        [nullifier, merchantCommitment]
+      );
+      const row = res.rows[0];
+      return row ? fundingFromRow(row) : undefined;
+    },
+
+    async listFundingDeposits(nullifier) {
+      const res = await db.query<DbFundingRow>(
+        `SELECT ${FUNDING_COLUMNS}
+         FROM funding_deposits
+         WHERE nullifier = $1
+         ORDER BY submitted_at ASC, merchant_commitment ASC
+         ${forUpdate}`,
+        [nullifier]
+      );
+      return res.rows.map(fundingFromRow);
+    },
+
+    async listPendingFundingDeposits(limit) {
+      const res = await db.query<{ nullifier: Hex }>(
+        `SELECT nullifier
+         FROM funding_deposits
+         WHERE status = 'PENDING'
+         GROUP BY nullifier
+         ORDER BY MIN(COALESCE(last_scanned_at, 0)) ASC, MIN(submitted_at) ASC, nullifier ASC
+         LIMIT $1`,
+        [limit]
+      );
+      return res.rows.map((row) => normalizeHex(row.nullifier));
+    },
+
+    async markFundingDepositsScanned(nullifiers, scannedAt) {
+      if (nullifiers.length === 0) return;
+      await db.query(
+        `UPDATE funding_deposits
+         SET last_scanned_at = $2
+         WHERE nullifier = ANY($1::text[]) AND status = 'PENDING'`,
+        [[...nullifiers], scannedAt]
+      );
+    },
+
+    async settleFundingDeposit(nullifier, merchantCommitment, settlement) {
+      await db.query(
+        `UPDATE funding_deposits
+         SET status = $3, spent_tx_hash = $4, spent_block_number = $5, credited_at = $6, rejection_reason = $7
+         WHERE nullifier = $1 AND merchant_commitment = $2`,
+        [
+          nullifier,
+          merchantCommitment,
+          settlement.status,
+          settlement.spentTxHash,
+          settlement.spentBlockNumber,
+          settlement.creditedAt ?? null,
+          settlement.rejectionReason ?? null
+        ]
+      );
+    },
+
+    async getWithdrawal(withdrawalId) {
+      const res = await db.query<DbWithdrawalRow>(
+        `SELECT ${WITHDRAWAL_COLUMNS}
+         FROM withdrawals
+         WHERE withdrawal_id = $1
+         ${forUpdate}`,
+        [withdrawalId]
+      );
+      const row = res.rows[0];
+      return row ? withdrawalFromRow(row) : undefined;
+    },
+
+    async getWithdrawalByRequestId(requestId) {
+      const res = await db.query<DbWithdrawalRow>(
+        `SELECT ${WITHDRAWAL_COLUMNS}
+         FROM withdrawals
+         WHERE request_id = $1
+         ${forUpdate}`,
+        [requestId]
+      );
+      const row = res.rows[0];
+      return row ? withdrawalFromRow(row) : undefined;
+    },
+
+    async getWithdrawalByCommitment(commitment) {
+      const res = await db.query<DbWithdrawalRow>(
+        `SELECT ${WITHDRAWAL_COLUMNS}
+         FROM withdrawals
+         WHERE commitment = $1`,
+        [commitment]
+      );
+      const row = res.rows[0];
+      return row ? withdrawalFromRow(row) : undefined;
+    },
+
+    async insertWithdrawal(record) {
+      await db.query(
+        `INSERT INTO withdrawals(
+           withdrawal_id, request_id, intent_hash, agent_id, agent_nonce, amount_micros, commitment,
+           issued_at, log_seq_no, status, sequencer_key_id, sequencer_sig, withdrawal_json,
+           balance_receipt_json, balance_receipt_sig
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+        [
+          record.withdrawalId,
+          record.requestId,
+          record.intentHash,
+          record.agentId,
+          record.agentNonce,
+          record.amountMicros,
+          record.commitment,
+          record.issuedAt,
+          record.logSeqNo,
+          record.status,
+          record.sequencerKeyId,
+          record.sequencerSig,
+          JSON.stringify(record.withdrawal),
+          record.balanceReceipt ? JSON.stringify(record.balanceReceipt) : null,
+          record.balanceReceiptSig
+        ]
+      );
+    },
+
+    async listPendingWithdrawals(limit) {
+      const res = await db.query<DbWithdrawalRow>(
+        `SELECT ${WITHDRAWAL_COLUMNS}
+         FROM withdrawals
+         WHERE status = 'PENDING'
+         ORDER BY log_seq_no ASC
+         LIMIT $1`,
+        [limit]
+      );
+      return res.rows.map(withdrawalFromRow);
+    },
+
+    async markWithdrawalPosted(withdrawalId, input) {
+      await db.query(
+        `UPDATE withdrawals
+         SET status = 'POSTED', deposit_tx_hash = $2, posted_at = $3, last_error = NULL
+         WHERE withdrawal_id = $1 AND status = 'PENDING'`,
+        [withdrawalId, input.depositTxHash, input.postedAt]
+      );
+    },
+
+    async recordWithdrawalFailure(withdrawalId, error) {
+      await db.query(
+        `UPDATE withdrawals
+         SET post_attempts = post_attempts + 1, last_error = $2
+         WHERE withdrawal_id = $1`,
+        [withdrawalId, error]
+      );
+    },
+
+    async getDispute(disputeId) {
+      const res = await db.query<DbDisputeRow>(
+        `SELECT ${DISPUTE_COLUMNS}
+         FROM disputes
+         WHERE dispute_id = $1
+         ${forUpdate}`,
+        [disputeId]
+      );
+      const row = res.rows[0];
+      return row ? disputeFromRow(row) : undefined;
+    },
+
+    async insertDispute(record) {
+      await db.query(
+        `INSERT INTO disputes(
+           dispute_id, auth_id, agent_id, chain_ref, status, request_json, agent_sig, filed_at, evidence_due_at,
+           evidence_json, relayer_sig, credited_micros, resolved_at, resolved_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          record.disputeId,
+          record.authId,
+          record.agentId,
+          record.chainRef,
+          record.status,
+          JSON.stringify(record.request),
+          record.agentSig,
+          record.filedAt,
+          record.evidenceDueAt,
+          record.evidence ? JSON.stringify(record.evidence) : null,
+          record.relayerSig,
+          record.creditedMicros,
+          record.resolvedAt,
+          record.resolvedBy
+        ]
+      );
+    },
+
+    async updateDispute(disputeId, update) {
+      await db.query(
+        `UPDATE disputes
+         SET status = $2,
+             evidence_json = COALESCE($3, evidence_json),
+             relayer_sig = COALESCE($4, relayer_sig),
+             credited_micros = COALESCE($5, credited_micros),
+             resolved_at = COALESCE($6, resolved_at),
+             resolved_by = COALESCE($7, resolved_by)
+         WHERE dispute_id = $1`,
+        [
+          disputeId,
+          update.status,
+          update.evidence ? JSON.stringify(update.evidence) : null,
+          update.relayerSig ?? null,
+          update.creditedMicros ?? null,
+          update.resolvedAt ?? null,
+          update.resolvedBy ?? null
+        ]
+      );
+    },
+
+    async insertDisputeEvent(event) {
+      await db.query(
+        `INSERT INTO dispute_events(event_id, dispute_id, log_seq_no, event_json)
+         VALUES ($1, $2, $3, $4)`,
+        [event.eventId, event.disputeId, event.logSeqNo, JSON.stringify(event)]
+      );
+    },
+
+    async listDisputeEvents(disputeId) {
+      const res = await db.query<{ event_json: DisputeEventV1 }>(
+        `SELECT event_json
+         FROM dispute_events
+         WHERE dispute_id = $1
+         ORDER BY log_seq_no ASC`,
+        [disputeId]
+      );
+      return res.rows.map((row) => row.event_json);
+    },
+
+    async listDisputes(chainRef, status, limit) {
+      const res = await db.query<DbDisputeRow>(
+        `SELECT ${DISPUTE_COLUMNS}
+         FROM disputes
+         WHERE chain_ref = $1 AND status = $2
+         ORDER BY filed_at ASC, dispute_id ASC
+         LIMIT $3`,
+        [chainRef, status, limit]
+      );
+      return res.rows.map(disputeFromRow);
+    },
+
+    async listOverdueDisputes(now, limit) {
+      const res = await db.query<{ dispute_id: Hex }>(
+        `SELECT dispute_id
+         FROM disputes
+         WHERE status = 'OPEN' AND evidence_due_at < $1
+         ORDER BY evidence_due_at ASC
+         LIMIT $2`,
+        [now.toString(), limit]
+      );
+      return res.rows.map((row) => normalizeHex(row.dispute_id));
+    },
+
+    async getMerchant(merchantId) {
+      const res = await db.query<{
+        merchant_id: Hex;
+        service_registry_id: string;
+        endpoint_url: string;
+        source: MerchantRecordSource;
+        updated_at: string;
+      }>(
+        `SELECT merchant_id, service_registry_id, endpoint_url, source, updated_at
+         FROM merchants
+         WHERE merchant_id = $1`,
+        [merchantId]
+      );
+      const row = res.rows[0];
+      if (!row) return undefined;
+      const addresses = await db.query<{ chain_ref: string; address: string }>(
+        `SELECT chain_ref, address
+         FROM merchant_payout_addresses
+         WHERE merchant_id = $1
+         ORDER BY chain_ref ASC`,
+        [merchantId]
+      );
+      return {
+        merchantId: normalizeHex(row.merchant_id),
+        serviceRegistryId: row.service_registry_id,
+        endpointUrl: row.endpoint_url,
+        source: row.source,
+        payoutAddresses: addresses.rows.map((address) => ({ chainRef: address.chain_ref, address: address.address })),
+        updatedAt: row.updated_at
+      };
+    },
+
+    async putMerchant(record) {
+      await db.query(
+        `INSERT INTO merchants(merchant_id, service_registry_id, endpoint_url, source, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $5)
+         ON CONFLICT (merchant_id) DO UPDATE
+         SET source = EXCLUDED.source, updated_at = EXCLUDED.updated_at`,
+        [record.merchantId, record.serviceRegistryId, record.endpointUrl, record.source, record.updatedAt]
+      );
+      await db.query(`DELETE FROM merchant_payout_addresses WHERE merchant_id = $1`, [record.merchantId]);
+      for (const payout of record.payoutAddresses) {
+        await db.query(
+          `INSERT INTO merchant_payout_addresses(merchant_id, chain_ref, address)
+           VALUES ($1, $2, $3)`,
+          [record.merchantId, payout.chainRef, payout.address]
+        );
+      }
+    }
+  };
+}
+
+export function createPostgresLedgerStore(pool: Pool): LedgerStore {
+  return {
+    async transaction(fn) {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const out = await fn(createPostgresLedgerTx(client, { locking: true }));
+        await client.query('COMMIT');
+        return out;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+    async read(fn) {
+      return fn(createPostgresLedgerTx(pool, { locking: false }));
+    }
+  };
+}
@@ -3,7 +3,12 @@ import {
   normalizeExecutionTxHash,
   parseAdminCreditRequest,
   parseAuthorizeRequest,
+  parseDisputeListQuery,
+  parseDisputeResolutionRequest,
   parseExecutionReport,
+  parseFeeQuoteQuery,
+  parseMerchantRegistration,
+  parseMerchantStatementQuery,
   parseReclaimRequest
 } from './validation.js';
 
@@ -29,12 +34,36 @@ describe('credit-sequencer validation', () => {
     expect(parsed.intent.agentNonce).toBe('1');
   });
 
+  it('requires nonce lane fields exactly on version 2 intents', () => {
+    const intent = {
+      version: 2,
+      agentId: '0x' + '11'.repeat(32),
+      agentPubKey: '0x' + '22'.repeat(32),
+      signatureScheme: 'ed25519-sha256-v1',
+      agentNonce: '844424930131968',
+      amountMicros: '1000',
+      merchantId: '0x' + '33'.repeat(32),
+      requiredChainRef: 'solana:devnet',
+      expiresAt: '1735689600',
+      requestId: '0x' + '44'.repeat(32)
+    };
+    const agentSig = '0x' + '55'.repeat(64);
+
+    expect(parseAuthorizeRequest({ intent: { ...intent, nonceLane: 3, laneSeq: '0' }, agentSig }).intent.nonceLane).toBe(3);
+    expect(() => parseAuthorizeRequest({ intent, agentSig })).toThrow('intent version 2 requires nonceLane and laneSeq');
+    expect(() =>
+      parseAuthorizeRequest({ intent: { ...intent, version: 1, nonceLane: 3, laneSeq: '0' }, agentSig })
+    ).toThrow('nonceLane and laneSeq require intent version 2');
+  });
+
   it('accepts non-hex tx hashes for execution reports', () => {
     const parsed = parseExecutionReport({
+      version: 2,
       authId: '0x' + 'aa'.repeat(32),
       chainRef: 'solana:devnet',
       executionTxHash: '5rArh7M4u8wJSEYqt7dVm1S4VfU8xEW6PF8gZXD8g9xXk1r9Haqrj9CTYTL4Q9v5xP9uHjR8',
       status: 'SUCCESS',
+      executedAmountMicros: '1000',
       reportId: '0x' + 'bb'.repeat(32),
       reportedAt: '1735689601',
       relayerKeyId: 'sol-relayer-1',
@@ -43,6 +72,26 @@ describe('credit-sequencer validation', () => {
     expect(parsed.executionTxHash.startsWith('5rArh7')).toBe(true);
   });
 
+  it('ties executedAmountMicros to execution report version 2', () => {
+    const base = {
+      authId: '0x' + 'aa'.repeat(32),
+      chainRef: 'solana:devnet',
+      executionTxHash: 'abc123',
+      status: 'SUCCESS',
+      reportId: '0x' + 'bb'.repeat(32),
+      reportedAt: '1735689601',
+      relayerKeyId: 'sol-relayer-1',
+      reportSig: '0x' + 'cc'.repeat(64)
+    };
+    expect(parseExecutionReport({ ...base, version: 1 }).executedAmountMicros).toBeUndefined();
+    expect(() => parseExecutionReport({ ...base, version: 1, executedAmountMicros: '1000' })).toThrow(
+      'executedAmountMicros requires execution report version 2'
+    );
+    expect(() => parseExecutionReport({ ...base, version: 2 })).toThrow(
+      'execution report version 2 requires executedAmountMicros'
+    );
+  });
+
   it('normalizes hex tx hashes', () => {
     expect(normalizeExecutionTxHash('0XAB')).toBe('0xab');
   });
@@ -67,4 +116,55 @@ describe('credit-sequencer validation', () => {
       })
     ).toThrow('amountMicros must be > 0');
   });
+
+  it('parses dispute resolutions and list queries', () => {
+    expect(parseDisputeResolutionRequest({ outcome: 'CREDIT', amountMicros: '400' })).toEqual({
+      outcome: 'CREDIT',
+      amountMicros: '400'
+    });
+    expect(() => parseDisputeResolutionRequest({ outcome: 'REJECT', amountMicros: '400' })).toThrow(
+      'amountMicros is only allowed when crediting'
+    );
+    expect(parseDisputeListQuery({ chainRef: 'eip155:8453' })).toEqual({ chainRef: 'eip155:8453', status: 'OPEN' });
+  });
+
+  it('parses fee quote queries', () => {
+    expect(parseFeeQuoteQuery({})).toBeUndefined();
+    expect(parseFeeQuoteQuery({ chainRef: 'eip155:8453', amountMicros: '1000' })).toEqual({
+      chainRef: 'eip155:8453',
+      amountMicros: 1000n
+    });
+    expect(() => parseFeeQuoteQuery({ chainRef: 'eip155:8453' })).toThrow(
+      'chainRef and amountMicros must be given together'
+    );
+  });
+
+  it('parses merchant statement windows', () => {
+    expect(
+      parseMerchantStatementQuery({
+        endpointUrl: 'https://merchant.example/pay',
+        fromExecutedAt: '100',
+        toExecutedAt: '200',
+        limit: '10'
+      })
+    ).toEqual({ endpointUrl: 'https://merchant.example/pay', fromExecutedAt: '100', toExecutedAt: '200', limit: 10 });
+    expect(() =>
+      parseMerchantStatementQuery({ endpointUrl: 'https://merchant.example/pay', fromExecutedAt: '200', toExecutedAt: '200' })
+    ).toThrow('fromExecutedAt must be before toExecutedAt');
+  });
+
+  it('requires payout addresses or an ERC-8004 profile for merchant registration', () => {
+    const base = { serviceRegistryId: 'demo/base', endpointUrl: 'https://merchant.example/pay' };
+    expect(
+      parseMerchantRegistration({
+        ...base,
+        erc8004Profile: { chainId: 8453, tokenId: '7', services: [], sourceMetadata: {} }
+      }).erc8004Profile
+    ).toMatchObject({ chainId: 8453, tokenId: '7', sourceMetadata: {} });
+    expect(() => parseMerchantRegistration(base)).toThrow('payoutAddresses or erc8004Profile is required');
+    const address = { chainRef: 'eip155:8453', address: '0x' + '11'.repeat(20) };
+    expect(() => parseMerchantRegistration({ ...base, payoutAddresses: [address, address] })).toThrow(
+      'payoutAddresses must not repeat a chainRef'
+    );
+  });
 });
@@ -1,10 +1,23 @@
 import type {
+  AgentPolicyUpdateRequestV1,
+  AgentPolicyV1,
+  AuthorizationHistoryQueryV1,
   AuthorizeRequestV1,
+  CanonicalAgentProfile,
+  DisputeResolutionRequestV1,
+  DisputeStatus,
   ExecutionReportV1,
+  FileDisputeRequestV1,
+  FundingClaimRequestV1,
   IntentV1,
-  ReclaimRequestV1
+  MerchantRegistrationV1,
+  MerchantStatementQueryV1,
+  ReclaimRequestV1,
+  SubmitDisputeEvidenceRequestV1,
+  WithdrawIntentV1,
+  WithdrawRequestV1
 } from '@shielded-x402/shared-types';
-import type { Hex } from '@shielded-x402/shared-types';
+import { MAX_NONCE_LANE, type Hex } from '@shielded-x402/shared-types';
 import { z } from 'zod';
 
 const UINT64_MAX = 0xffff_ffff_ffff_ffffn;
@@ -39,7 +52,7 @@ const reclaimCallerSchema = z.enum(['agent', 'sequencer']);
 
 const intentSchema = z
   .object({
-    version: z.literal(1),
+    version: z.union([z.literal(1), z.literal(2)]),
     agentId: hex32Schema,
     agentPubKey: strictHexSchema,
     signatureScheme: signatureSchemeSchema,
@@ -50,9 +63,24 @@ const intentSchema = z
     expiresAt: uint64StringSchema,
     requestId: hex32Schema,
     serviceHash: hex32Schema.optional(),
-    memoHash: hex32Schema.optional()
+    memoHash: hex32Schema.optional(),
+    nonceLane: z.number().int().min(0).max(MAX_NONCE_LANE).optional(),
+    laneSeq: uint64StringSchema.optional(),
+    maxFeeMicros: uint64StringSchema.optional()
   })
-  .strict();
+  .strict()
+  .refine((intent) => intent.version === 2 || (intent.nonceLane === undefined && intent.laneSeq === undefined), {
+    message: 'nonceLane and laneSeq require intent version 2',
+    path: ['version']
+  })
+  .refine((intent) => intent.version === 1 || (intent.nonceLane !== undefined && intent.laneSeq !== undefined), {
+    message: 'intent version 2 requires nonceLane and laneSeq',
+    path: ['nonceLane']
+  })
+  .refine((intent) => intent.version === 2 || intent.maxFeeMicros === undefined, {
+    message: 'maxFeeMicros requires intent version 2',
+    path: ['version']
+  });
 
 const authorizeRequestSchema = z
   .object({
@@ -61,18 +89,59 @@ const authorizeRequestSchema = z
   })
   .strict();
 
+const withdrawIntentSchema = z
+  .object({
+    version: z.union([z.literal(1), z.literal(2)]),
+    agentId: hex32Schema,
+    agentPubKey: strictHexSchema,
+    signatureScheme: signatureSchemeSchema,
+    agentNonce: uint64StringSchema,
+    amountMicros: uint64StringSchema,
+    commitment: hex32Schema,
+    expiresAt: uint64StringSchema,
+    requestId: hex32Schema,
+    nonceLane: z.number().int().min(0).max(MAX_NONCE_LANE).optional(),
+    laneSeq: uint64StringSchema.optional()
+  })
+  .strict()
+  .refine((intent) => intent.version === 2 || (intent.nonceLane === undefined && intent.laneSeq === undefined), {
+    message: 'nonceLane and laneSeq require intent version 2',
+    path: ['version']
+  })
+  .refine((intent) => intent.version === 1 || (intent.nonceLane !== undefined && intent.laneSeq !== undefined), {
+    message: 'intent version 2 requires nonceLane and laneSeq',
+    path: ['nonceLane']
+  });
+
+const withdrawRequestSchema = z
+  .object({
+    intent: withdrawIntentSchema,
+    agentSig: strictHexSchema
+  })
+  .strict();
+
 const executionReportSchema = z
   .object({
+    version: z.union([z.literal(1), z.literal(2)]),
     authId: hex32Schema,
     chainRef: nonEmptyStringSchema,
     executionTxHash: nonEmptyStringSchema,
     status: executionStatusSchema,
+    executedAmountMicros: uint64StringSchema.optional(),
     reportId: hex32Schema,
     reportedAt: uint64StringSchema,
     relayerKeyId: nonEmptyStringSchema,
     reportSig: strictHexSchema
   })
-  .strict();
+  .strict()
+  .refine((report) => report.version === 2 || report.executedAmountMicros === undefined, {
+    message: 'executedAmountMicros requires execution report version 2',
+    path: ['version']
+  })
+  .refine((report) => report.version === 1 || report.executedAmountMicros !== undefined, {
+    message: 'execution report version 2 requires executedAmountMicros',
+    path: ['executedAmountMicros']
+  });
 
 const reclaimRequestSchema = z
   .object({
@@ -84,6 +153,139 @@ const reclaimRequestSchema = z
   })
   .strict();
 
+const fileDisputeRequestSchema = z
+  .object({
+    dispute: z
+      .object({
+        version: z.literal(1),
+        authId: hex32Schema,
+        agentId: hex32Schema,
+        reasonHash: hex32Schema,
+        requestedAt: uint64StringSchema
+      })
+      .strict(),
+    agentSig: strictHexSchema
+  })
+  .strict();
+
+const disputeEvidenceRequestSchema = z
+  .object({
+    evidence: z
+      .object({
+        version: z.literal(1),
+        disputeId: hex32Schema,
+        authId: hex32Schema,
+        reportId: hex32Schema,
+        merchantResponseHash: hex32Schema,
+        submittedAt: uint64StringSchema,
+        relayerKeyId: nonEmptyStringSchema
+      })
+      .strict(),
+    relayerSig: strictHexSchema,
+    report: executionReportSchema
+  })
+  .strict();
+
+const disputeResolutionRequestSchema = z
+  .object({
+    outcome: z.enum(['CREDIT', 'REJECT']),
+    amountMicros: uint64StringSchema.optional(),
+    reasonHash: hex32Schema.optional()
+  })
+  .strict();
+
+const disputeListQuerySchema = z
+  .object({
+    chainRef: nonEmptyStringSchema,
+    status: z.enum(['OPEN', 'EVIDENCE_SUBMITTED', 'CREDITED', 'REJECTED']).optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional()
+  })
+  .strict();
+
+const feeQuoteQuerySchema = z
+  .object({
+    chainRef: nonEmptyStringSchema.optional(),
+    amountMicros: uint64StringSchema.optional()
+  })
+  .strict()
+  .refine((value) => (value.chainRef === undefined) === (value.amountMicros === undefined), {
+    message: 'chainRef and amountMicros must be given together'
+  });
+
+const merchantKeyRegistrationSchema = z
+  .object({
+    serviceRegistryId: nonEmptyStringSchema,
+    keyId: nonEmptyStringSchema,
+    publicKey: hex32Schema
+  })
+  .strict();
+
+const merchantQueryHeadersSchema = z.object({
+  serviceRegistryId: nonEmptyStringSchema,
+  keyId: nonEmptyStringSchema,
+  requestedAt: uint64StringSchema,
+  merchantSig: strictHexSchema
+});
+
+const relayerQueryHeadersSchema = z.object({
+  chainRef: nonEmptyStringSchema,
+  keyId: nonEmptyStringSchema,
+  requestedAt: uint64StringSchema,
+  relayerSig: strictHexSchema
+});
+
+const merchantStatementQuerySchema = z
+  .object({
+    endpointUrl: nonEmptyStringSchema,
+    fromExecutedAt: uint64StringSchema,
+    toExecutedAt: uint64StringSchema,
+    chainRef: nonEmptyStringSchema.optional(),
+    cursor: uint64StringSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional()
+  })
+  .strict()
+  .refine((value) => BigInt(value.fromExecutedAt) < BigInt(value.toExecutedAt), {
+    message: 'fromExecutedAt must be before toExecutedAt'
+  });
+
+const MAX_MERCHANT_PAYOUT_ADDRESSES = 32;
+
+const merchantRegistrationSchema = z
+  .object({
+    serviceRegistryId: nonEmptyStringSchema,
+    endpointUrl: nonEmptyStringSchema,
+    payoutAddresses: z
+      .array(z.object({ chainRef: nonEmptyStringSchema, address: nonEmptyStringSchema }).strict())
+      .max(MAX_MERCHANT_PAYOUT_ADDRESSES)
+      .optional(),
+    // Only the fields seeding reads are checked; the rest of the profile is kept as-is.
+    erc8004Profile: z
+      .looseObject({
+        chainId: z.number().int().positive(),
+        tokenId: nonEmptyStringSchema,
+        services: z.array(z.unknown()),
+        raw: z.record(z.string(), z.unknown()).optional()
+      })
+      .optional()
+  })
+  .strict()
+  .refine((value) => value.payoutAddresses !== undefined || value.erc8004Profile !== undefined, {
+    message: 'payoutAddresses or erc8004Profile is required'
+  })
+  .refine(
+    (value) =>
+      new Set((value.payoutAddresses ?? []).map((entry) => entry.chainRef)).size ===
+      (value.payoutAddresses ?? []).length,
+    { message: 'payoutAddresses must not repeat a chainRef', path: ['payoutAddresses'] }
+  );
+
+const fundingClaimRequestSchema = z
+  .object({
+    nullifier: hex32Schema,
+    encryptedReceipt: strictHexSchema
+  })
+  .strict();
+
 const adminCreditRequestSchema = z
   .object({
     agentId: hex32Schema,
@@ -95,6 +297,81 @@ const adminCreditRequestSchema = z
     path: ['amountMicros']
   });
 
+const relayerKeyReasonSchema = z.string().max(512).optional();
+
+const relayerKeyRegistrationSchema = z
+  .object({
+    chainRef: nonEmptyStringSchema,
+    keyId: nonEmptyStringSchema,
+    publicKey: hex32Schema,
+    reason: relayerKeyReasonSchema
+  })
+  .strict();
+
+const relayerKeyStatusChangeSchema = z
+  .object({
+    reason: relayerKeyReasonSchema,
+    effectiveAt: uint64StringSchema.optional()
+  })
+  .strict();
+
+const relayerKeyRotationSchema = z
+  .object({
+    newKeyId: nonEmptyStringSchema,
+    newPublicKey: hex32Schema,
+    reason: relayerKeyReasonSchema
+  })
+  .strict();
+
+const MAX_POLICY_LIST_ENTRIES = 256;
+
+const agentPolicyUpdateRequestSchema = z
+  .object({
+    policy: z
+      .object({
+        version: z.literal(1),
+        agentId: hex32Schema,
+        agentPubKey: strictHexSchema,
+        signatureScheme: signatureSchemeSchema,
+        policyVersion: uint64StringSchema,
+        maxAmountPerAuthMicros: uint64StringSchema.optional(),
+        hourlyCapMicros: uint64StringSchema.optional(),
+        dailyCapMicros: uint64StringSchema.optional(),
+        merchantAllowlist: z.array(hex32Schema).max(MAX_POLICY_LIST_ENTRIES).optional(),
+        merchantDenylist: z.array(hex32Schema).max(MAX_POLICY_LIST_ENTRIES).optional(),
+        allowedChainRefs: z.array(nonEmptyStringSchema).max(MAX_POLICY_LIST_ENTRIES).optional()
+      })
+      .strict(),
+    agentSig: strictHexSchema
+  })
+  .strict();
+
+const authorizationHistoryQuerySchema = z
+  .object({
+    status: z.enum(['ISSUED', 'EXECUTED', 'RECLAIMED']).optional(),
+    chainRef: nonEmptyStringSchema.optional(),
+    merchantId: hex32Schema.optional(),
+    fromIssuedAt: uint64StringSchema.optional(),
+    toIssuedAt: uint64StringSchema.optional(),
+    cursor: uint64StringSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional()
+  })
+  .strict();
+
+const agentQueryHeadersSchema = z.object({
+  requestedAt: uint64StringSchema,
+  agentSig: strictHexSchema,
+  agentPubKey: strictHexSchema.optional(),
+  signatureScheme: signatureSchemeSchema.optional()
+});
+
+export interface AgentQueryAuthHeaders {
+  requestedAt: string;
+  agentSig: Hex;
+  agentPubKey?: Hex;
+  signatureScheme?: IntentV1['signatureScheme'];
+}
+
 function formatZodError(error: z.ZodError): string {
   const issue = error.issues[0];
   if (!issue) {
@@ -144,6 +421,18 @@ export function parseAuthorizeRequest(payload: unknown): AuthorizeRequestV1 {
   };
 }
 
+export function parseWithdrawRequest(payload: unknown): WithdrawRequestV1 {
+  const parsed = withdrawRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { intent, agentSig } = parsed.data;
+  return {
+    intent: intent as WithdrawIntentV1,
+    agentSig
+  };
+}
+
 export function parseExecutionReport(payload: unknown): ExecutionReportV1 {
   const parsed = executionReportSchema.safeParse(payload);
   if (!parsed.success) {
@@ -153,7 +442,7 @@ export function parseExecutionReport(payload: unknown): ExecutionReportV1 {
   return {
     ...report,
     executionTxHash: normalizeExecutionTxHash(report.executionTxHash)
-  };
+  } as ExecutionReportV1;
 }
 
 export function parseReclaimRequest(payload: unknown): ReclaimRequestV1 {
@@ -164,6 +453,142 @@ export function parseReclaimRequest(payload: unknown): ReclaimRequestV1 {
   return parsed.data as ReclaimRequestV1;
 }
 
+export function parseFileDisputeRequest(payload: unknown): FileDisputeRequestV1 {
+  const parsed = fileDisputeRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  return parsed.data;
+}
+
+export function parseDisputeEvidenceRequest(payload: unknown): SubmitDisputeEvidenceRequestV1 {
+  const parsed = disputeEvidenceRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { report, ...rest } = parsed.data;
+  return {
+    ...rest,
+    report: { ...report, executionTxHash: normalizeExecutionTxHash(report.executionTxHash) } as ExecutionReportV1
+  };
+}
+
+export function parseDisputeResolutionRequest(payload: unknown): DisputeResolutionRequestV1 {
+  const parsed = disputeResolutionRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { outcome, amountMicros, reasonHash } = parsed.data;
+  if (outcome === 'REJECT' && amountMicros !== undefined) {
+    throw new Error('amountMicros is only allowed when crediting');
+  }
+  return {
+    outcome,
+    ...(amountMicros ? { amountMicros } : {}),
+    ...(reasonHash ? { reasonHash } : {})
+  };
+}
+
+export function parseDisputeListQuery(payload: unknown): {
+  chainRef: string;
+  status: DisputeStatus;
+  limit?: number;
+} {
+  const parsed = disputeListQuerySchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { chainRef, status, limit } = parsed.data;
+  return { chainRef, status: status ?? 'OPEN', ...(limit !== undefined ? { limit } : {}) };
+}
+
+/** Both fields present asks for a quote; neither asks for the whole schedule. */
+export function parseFeeQuoteQuery(payload: unknown): { chainRef: string; amountMicros: bigint } | undefined {
+  const parsed = feeQuoteQuerySchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { chainRef, amountMicros } = parsed.data;
+  if (chainRef === undefined || amountMicros === undefined) return undefined;
+  return { chainRef, amountMicros: BigInt(amountMicros) };
+}
+
+export function parseMerchantKeyRegistration(payload: unknown): {
+  serviceRegistryId: string;
+  keyId: string;
+  publicKey: Hex;
+} {
+  const parsed = merchantKeyRegistrationSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  return parsed.data;
+}
+
+export function parseMerchantQueryHeaders(headers: {
+  serviceRegistryId: string | undefined;
+  keyId: string | undefined;
+  requestedAt: string | undefined;
+  merchantSig: string | undefined;
+}): { serviceRegistryId: string; keyId: string; requestedAt: string; merchantSig: Hex } {
+  const parsed = merchantQueryHeadersSchema.safeParse(headers);
+  if (!parsed.success) {
+    throw new Error(`unauthorized merchant query: ${formatZodError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+export function parseRelayerQueryHeaders(headers: {
+  chainRef: string | undefined;
+  keyId: string | undefined;
+  requestedAt: string | undefined;
+  relayerSig: string | undefined;
+}): { chainRef: string; keyId: string; requestedAt: string; relayerSig: Hex } {
+  const parsed = relayerQueryHeadersSchema.safeParse(headers);
+  if (!parsed.success) {
+    throw new Error(`unauthorized relayer query: ${formatZodError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+export function parseMerchantStatementQuery(payload: unknown): MerchantStatementQueryV1 {
+  const parsed = merchantStatementQuerySchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { endpointUrl, fromExecutedAt, toExecutedAt, chainRef, cursor, limit } = parsed.data;
+  return {
+    endpointUrl,
+    fromExecutedAt,
+    toExecutedAt,
+    ...(chainRef ? { chainRef } : {}),
+    ...(cursor ? { cursor } : {}),
+    ...(limit !== undefined ? { limit } : {})
+  };
+}
+
+export function parseMerchantRegistration(payload: unknown): MerchantRegistrationV1 {
+  const parsed = merchantRegistrationSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { serviceRegistryId, endpointUrl, payoutAddresses, erc8004Profile } = parsed.data;
+  return {
+    serviceRegistryId,
+    endpointUrl,
+    ...(payoutAddresses ? { payoutAddresses } : {}),
+    ...(erc8004Profile ? { erc8004Profile: erc8004Profile as unknown as CanonicalAgentProfile } : {})
+  };
+}
+
+export function parseFundingClaimRequest(payload: unknown): FundingClaimRequestV1 {
+  const parsed = fundingClaimRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  return parsed.data;
+}
+
 export function parseAdminCreditRequest(payload: unknown): { agentId: Hex; amountMicros: bigint } {
   const parsed = adminCreditRequestSchema.safeParse(payload);
   if (!parsed.success) {
@@ -174,3 +599,89 @@ export function parseAdminCreditRequest(payload: unknown): { agentId: Hex; amoun
     amountMicros: BigInt(parsed.data.amountMicros)
   };
 }
+
+export function parseRelayerKeyRegistration(payload: unknown): {
+  chainRef: string;
+  keyId: string;
+  publicKey: Hex;
+  reason?: string;
+} {
+  const parsed = relayerKeyRegistrationSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { reason, ...key } = parsed.data;
+  return { ...key, ...(reason ? { reason } : {}) };
+}
+
+export function parseRelayerKeyStatusChange(payload: unknown): { reason?: string; effectiveAt?: bigint } {
+  const parsed = relayerKeyStatusChangeSchema.safeParse(payload ?? {});
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  return {
+    ...(parsed.data.reason ? { reason: parsed.data.reason } : {}),
+    ...(parsed.data.effectiveAt ? { effectiveAt: BigInt(parsed.data.effectiveAt) } : {})
+  };
+}
+
+export function parseRelayerKeyRotation(payload: unknown): {
+  newKeyId: string;
+  newPublicKey: Hex;
+  reason?: string;
+} {
+  const parsed = relayerKeyRotationSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { reason, ...key } = parsed.data;
+  return { ...key, ...(reason ? { reason } : {}) };
+}
+
+export function parseAgentQueryHeaders(headers: {
+  requestedAt: string | undefined;
+  agentSig: string | undefined;
+  agentPubKey: string | undefined;
+  signatureScheme: string | undefined;
+}): AgentQueryAuthHeaders {
+  const parsed = agentQueryHeadersSchema.safeParse(headers);
+  if (!parsed.success) {
+    throw new Error(`unauthorized agent query: ${formatZodError(parsed.error)}`);
+  }
+  const { requestedAt, agentSig, agentPubKey, signatureScheme } = parsed.data;
+  return {
+    requestedAt,
+    agentSig,
+    ...(agentPubKey ? { agentPubKey } : {}),
+    ...(signatureScheme ? { signatureScheme } : {})
+  };
+}
+
+export function parseAuthorizationHistoryQuery(payload: unknown): AuthorizationHistoryQueryV1 {
+  const parsed = authorizationHistoryQuerySchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { status, chainRef, merchantId, fromIssuedAt, toIssuedAt, cursor, limit } = parsed.data;
+  return {
+    ...(status ? { status } : {}),
+    ...(chainRef ? { chainRef } : {}),
+    ...(merchantId ? { merchantId } : {}),
+    ...(fromIssuedAt ? { fromIssuedAt } : {}),
+    ...(toIssuedAt ? { toIssuedAt } : {}),
+    ...(cursor ? { cursor } : {}),
+    ...(limit !== undefined ? { limit } : {})
+  };
+}
+
+export function parseAgentPolicyUpdateRequest(payload: unknown): AgentPolicyUpdateRequestV1 {
+  const parsed = agentPolicyUpdateRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(formatZodError(parsed.error));
+  }
+  const { policy, agentSig } = parsed.data;
+  return {
+    policy: policy as AgentPolicyV1,
+    agentSig
+  };
+}
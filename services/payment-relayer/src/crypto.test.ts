@@ -26,10 +26,12 @@ describe('payment-relayer crypto helpers', () => {
       chainRef: 'solana:devnet',
       executionTxHash: 'abc123',
       status: 'SUCCESS',
+      executedAmountMicros: '1000',
       relayerKeyId: 'relayer-1',
       privateKey
     });
     expect(report.authId).toBe(`0x${'11'.repeat(32)}`);
+    expect(report.version).toBe(2);
     expect(report.reportSig.startsWith('0x')).toBe(true);
   });
 });
@@ -1,8 +1,12 @@
 import {
   canonicalAuthorizationBytes,
+  canonicalDisputeEvidenceBytes,
   canonicalExecutionReportBytes,
+  canonicalRelayerQueryBytes,
   normalizeHex,
+  RELAYER_QUERY_HEADERS,
   type AuthorizationV1,
+  type DisputeEvidenceV1,
   type ExecutionReportV1,
   type Hex
 } from '@shielded-x402/shared-types';
@@ -105,14 +109,17 @@ export function createExecutionReport(input: {
   chainRef: string;
   executionTxHash: string;
   status: 'SUCCESS' | 'FAILED';
+  executedAmountMicros: string;
   relayerKeyId: string;
   privateKey: KeyObject;
 }): ExecutionReportV1 {
   const report = {
+    version: 2 as const,
     authId: normalizeHex(input.authId),
     chainRef: input.chainRef,
     executionTxHash: input.executionTxHash.trim(),
     status: input.status,
+    executedAmountMicros: input.executedAmountMicros,
     reportId: (`0x${randomBytes(32).toString('hex')}` as Hex),
     reportedAt: nowSeconds().toString(),
     relayerKeyId: input.relayerKeyId
@@ -124,3 +131,55 @@ export function createExecutionReport(input: {
     reportSig: (`0x${Buffer.from(signature).toString('hex')}` as Hex)
   };
 }
+
+export function createDisputeEvidence(input: {
+  disputeId: Hex;
+  authId: Hex;
+  reportId: Hex;
+  merchantResponseHash: Hex;
+  relayerKeyId: string;
+  privateKey: KeyObject;
+}): { evidence: DisputeEvidenceV1; relayerSig: Hex } {
+  const evidence: DisputeEvidenceV1 = {
+    version: 1,
+    disputeId: normalizeHex(input.disputeId),
+    authId: normalizeHex(input.authId),
+    reportId: normalizeHex(input.reportId),
+    merchantResponseHash: normalizeHex(input.merchantResponseHash),
+    submittedAt: nowSeconds().toString(),
+    relayerKeyId: input.relayerKeyId
+  };
+  const signature = sign(null, sha256(canonicalDisputeEvidenceBytes(evidence)), input.privateKey);
+  return {
+    evidence,
+    relayerSig: (`0x${Buffer.from(signature).toString('hex')}` as Hex)
+  };
+}
+
+/** Signs a read-only sequencer query for `resource`, the request path including its query string. */
+export function createRelayerQueryHeaders(input: {
+  chainRef: string;
+  relayerKeyId: string;
+  resource: string;
+  privateKey: KeyObject;
+}): Record<string, string> {
+  const requestedAt = nowSeconds().toString();
+  const signature = sign(
+    null,
+    sha256(
+      canonicalRelayerQueryBytes({
+        chainRef: input.chainRef,
+        keyId: input.relayerKeyId,
+        resource: input.resource,
+        requestedAt
+      })
+    ),
+    input.privateKey
+  );
+  return {
+    [RELAYER_QUERY_HEADERS.chainRef]: input.chainRef,
+    [RELAYER_QUERY_HEADERS.keyId]: input.relayerKeyId,
+    [RELAYER_QUERY_HEADERS.requestedAt]: requestedAt,
+    [RELAYER_QUERY_HEADERS.signature]: `0x${Buffer.from(signature).toString('hex')}`
+  };
+}
@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createHash, createPublicKey, verify } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalDisputeEvidenceBytes,
+  canonicalRelayerQueryBytes,
+  hashMerchantResponse,
+  RELAYER_QUERY_HEADERS,
+  type DisputeV1,
+  type ExecutionReportV1,
+  type Hex,
+  type SubmitDisputeEvidenceRequestV1
+} from '@shielded-x402/shared-types';
+import { createEd25519PrivateKeyFromSeed } from './crypto.js';
+import { createDisputeResponder } from './disputes.js';
+
+const privateKey = createEd25519PrivateKeyFromSeed(Uint8Array.from(Buffer.alloc(32, 7)));
+
+function report(authByte: string, status: 'SUCCESS' | 'FAILED'): ExecutionReportV1 {
+  return {
+    version: 2,
+    authId: `0x${authByte.repeat(32)}`,
+    chainRef: 'eip155:8453',
+    executionTxHash: `0x${'66'.repeat(32)}`,
+    status,
+    executedAmountMicros: '1000',
+    reportId: `0x${'77'.repeat(32)}`,
+    reportedAt: '1735689600',
+    relayerKeyId: 'relayer-key-1',
+    reportSig: `0x${'88'.repeat(64)}`
+  };
+}
+
+function openDispute(authId: Hex): DisputeV1 {
+  return {
+    disputeId: `0x${'d0'.repeat(32)}`,
+    authId,
+    agentId: `0x${'33'.repeat(32)}`,
+    chainRef: 'eip155:8453',
+    status: 'OPEN',
+    request: {
+      version: 1,
+      authId,
+      agentId: `0x${'33'.repeat(32)}`,
+      reasonHash: `0x${'d1'.repeat(32)}`,
+      requestedAt: '1735689700'
+    },
+    agentSig: `0x${'99'.repeat(64)}`,
+    filedAt: '1735689700',
+    evidenceDueAt: '1735776100',
+    evidence: null,
+    creditedMicros: '0',
+    resolvedAt: null,
+    resolvedBy: null,
+    events: []
+  };
+}
+
+describe('dispute responder', () => {
+  it('answers open disputes for recorded executions with signed evidence', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-evidence-'));
+    const evidenceFile = join(dir, 'evidence.jsonl');
+    const posted: { url: string; body: SubmitDisputeEvidenceRequestV1 }[] = [];
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+      if (init?.method === 'POST') {
+        posted.push({ url, body: JSON.parse(String(init.body)) });
+        return new Response('{}', { status: 200 });
+      }
+      expect(url).toBe('http://sequencer/v1/credit/disputes?chainRef=eip155%3A8453&status=OPEN');
+      const headers = init?.headers as Record<string, string>;
+      expect(headers[RELAYER_QUERY_HEADERS.chainRef]).toBe('eip155:8453');
+      expect(headers[RELAYER_QUERY_HEADERS.keyId]).toBe('relayer-key-1');
+      const queryDigest = createHash('sha256')
+        .update(
+          canonicalRelayerQueryBytes({
+            chainRef: 'eip155:8453',
+            keyId: 'relayer-key-1',
+            resource: '/v1/credit/disputes?chainRef=eip155%3A8453&status=OPEN',
+            requestedAt: headers[RELAYER_QUERY_HEADERS.requestedAt]!
+          })
+        )
+        .digest();
+      expect(
+        verify(
+          null,
+          queryDigest,
+          createPublicKey(privateKey),
+          Buffer.from(headers[RELAYER_QUERY_HEADERS.signature]!.slice(2), 'hex')
+        )
+      ).toBe(true);
+      return new Response(
+        JSON.stringify({ disputes: [openDispute(`0x${'21'.repeat(32)}`), openDispute(`0x${'22'.repeat(32)}`)] }),
+        { status: 200 }
+      );
+    }) as typeof fetch;
+    const config = {
+      sequencerUrl: 'http://sequencer',
+      chainRef: 'eip155:8453',
+      relayerKeyId: 'relayer-key-1',
+      privateKey,
+      evidenceFile,
+      fetchImpl
+    };
+    const merchantResult = { status: 200, bodyBase64: Buffer.from('ok').toString('base64') };
+
+    try {
+      const responder = createDisputeResponder(config);
+      responder.record({ report: report('21', 'SUCCESS'), merchantResult });
+      responder.record({ report: report('23', 'FAILED'), merchantResult });
+      expect(responder.size()).toBe(1);
+
+      // A restarted relayer still answers from the evidence file.
+      const restarted = createDisputeResponder(config);
+      expect(await restarted.poll()).toEqual({ submitted: 1 });
+      expect(posted).toHaveLength(1);
+      const [submission] = posted;
+      expect(submission!.url).toBe(`http://sequencer/v1/credit/disputes/0x${'d0'.repeat(32)}/evidence`);
+      expect(submission!.body.report).toEqual(report('21', 'SUCCESS'));
+      expect(submission!.body.evidence.merchantResponseHash).toBe(hashMerchantResponse(merchantResult));
+      const digest = createHash('sha256').update(canonicalDisputeEvidenceBytes(submission!.body.evidence)).digest();
+      expect(
+        verify(null, digest, createPublicKey(privateKey), Buffer.from(submission!.body.relayerSig.slice(2), 'hex'))
+      ).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
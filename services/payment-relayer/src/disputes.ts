@@ -0,0 +1,117 @@
+import type { KeyObject } from 'node:crypto';
+import {
+  SEQUENCER_ROUTES_V1,
+  hashMerchantResponse,
+  normalizeHex,
+  type DisputeV1,
+  type ExecutionReportV1,
+  type Hex,
+  type SubmitDisputeEvidenceRequestV1
+} from '@shielded-x402/shared-types';
+import { createDisputeEvidence, createRelayerQueryHeaders } from './crypto.js';
+import { openJsonLinesFile } from './jsonLines.js';
+
+interface EvidenceEntry {
+  report: ExecutionReportV1;
+  merchantResponseHash: Hex;
+}
+
+export interface DisputeResponder {
+  record(input: {
+    report: ExecutionReportV1;
+    merchantResult: { status: number; bodyBase64: string };
+  }): void;
+  poll(): Promise<{ submitted: number }>;
+  size(): number;
+}
+
+/**
+ * Answers open disputes on this relayer's chain with the execution report it filed and a hash
+ * of the merchant response it saw. The dispute list is fetched with a query signed by the
+ * relayer's reporting key. The relayer keeps no other state, so evidence lives in memory
+ * and, when `evidenceFile` is set, in an append-only JSON-lines file that survives restarts.
+ */
+export function createDisputeResponder(config: {
+  sequencerUrl: string;
+  chainRef: string;
+  relayerKeyId: string;
+  privateKey: KeyObject;
+  evidenceFile?: string;
+  fetchImpl?: typeof fetch;
+}): DisputeResponder {
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const file = config.evidenceFile ? openJsonLinesFile<EvidenceEntry>(config.evidenceFile) : undefined;
+  const entries = new Map<Hex, EvidenceEntry>();
+
+  for (const entry of file?.read() ?? []) {
+    entries.set(normalizeHex(entry.report.authId), entry);
+  }
+
+  const submit = async (dispute: DisputeV1, entry: EvidenceEntry): Promise<void> => {
+    const signed = createDisputeEvidence({
+      disputeId: dispute.disputeId,
+      authId: dispute.authId,
+      reportId: entry.report.reportId,
+      merchantResponseHash: entry.merchantResponseHash,
+      relayerKeyId: config.relayerKeyId,
+      privateKey: config.privateKey
+    });
+    const body: SubmitDisputeEvidenceRequestV1 = { ...signed, report: entry.report };
+    const response = await fetchImpl(
+      `${config.sequencerUrl}${SEQUENCER_ROUTES_V1.disputes}/${dispute.disputeId}/evidence`,
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body)
+      }
+    );
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`sequencer dispute evidence failed (${response.status}): ${text}`);
+    }
+  };
+
+  return {
+    record(input) {
+      // Only executed authorizations can be disputed.
+      if (input.report.status !== 'SUCCESS') return;
+      const entry: EvidenceEntry = {
+        report: input.report,
+        merchantResponseHash: hashMerchantResponse(input.merchantResult)
+      };
+      entries.set(normalizeHex(input.report.authId), entry);
+      file?.append(entry);
+    },
+    async poll() {
+      const query = new URLSearchParams({ chainRef: config.chainRef, status: 'OPEN' });
+      const resource = `${SEQUENCER_ROUTES_V1.disputes}?${query}`;
+      const response = await fetchImpl(`${config.sequencerUrl}${resource}`, {
+        method: 'GET',
+        headers: createRelayerQueryHeaders({
+          chainRef: config.chainRef,
+          relayerKeyId: config.relayerKeyId,
+          resource,
+          privateKey: config.privateKey
+        })
+      });
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`sequencer dispute list failed (${response.status}): ${text}`);
+      }
+      const { disputes } = (await response.json()) as { disputes: DisputeV1[] };
+      let submitted = 0;
+      for (const dispute of disputes) {
+        const entry = entries.get(normalizeHex(dispute.authId));
+        if (!entry) continue;
+        try {
+          await submit(dispute, entry);
+          submitted += 1;
+        } catch (error) {
+          console.warn('[payment-relayer] dispute evidence skipped', dispute.disputeId, error);
+        }
+      }
+      return { submitted };
+    },
+    size: () => entries.size
+  };
+}
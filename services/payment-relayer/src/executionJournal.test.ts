@@ -0,0 +1,111 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { AuthorizationV1, Hex, RelayPayResponseV1 } from '@shielded-x402/shared-types';
+import { createExecutionJournal } from './executionJournal.js';
+
+function authorization(authByte: string, expiresAt: string): AuthorizationV1 {
+  return {
+    version: 1,
+    intentId: `0x${'11'.repeat(32)}`,
+    authId: `0x${authByte.repeat(32)}`,
+    authorizedAmountMicros: '1000',
+    agentId: `0x${'33'.repeat(32)}`,
+    agentNonce: '1',
+    merchantId: `0x${'44'.repeat(32)}`,
+    chainRef: 'eip155:8453',
+    issuedAt: '1',
+    expiresAt,
+    sequencerEpochHint: '1',
+    logSeqNo: '1',
+    sequencerKeyId: 'seq-key-1'
+  };
+}
+
+function done(authId: Hex): RelayPayResponseV1 {
+  return { executionTxHash: `0x${'66'.repeat(32)}`, authId, status: 'DONE', reportStatus: 'REPORTED' };
+}
+
+describe('execution journal', () => {
+  it('allows one in-flight execution per authId', () => {
+    const journal = createExecutionJournal();
+    const authId = `0x${'aa'.repeat(32)}` as const;
+    expect(journal.acquire(authId)).toBe(true);
+    expect(journal.acquire(`0x${'AA'.repeat(32)}`)).toBe(false);
+    journal.release(authId);
+    expect(journal.acquire(authId)).toBe(true);
+  });
+
+  it('restores started and completed executions, forgetting cleared and long-expired ones', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-journal-'));
+    const journalFile = join(dir, 'journal.jsonl');
+    const now = () => 2_000_000_000_000;
+    const journal = createExecutionJournal({ journalFile, now });
+
+    const started = authorization('aa', '2000000300');
+    journal.start(started.authId, { authorization: started, recovery: { fromBlock: '7' } });
+    const completed = authorization('bb', '2000000300');
+    journal.start(completed.authId, { authorization: completed, recovery: null });
+    journal.complete(completed.authId, { httpStatus: 200, response: done(completed.authId), expiresAt: completed.expiresAt });
+    const cleared = authorization('cc', '2000000300');
+    journal.start(cleared.authId, { authorization: cleared, recovery: null });
+    journal.clear(cleared.authId);
+    const stale = authorization('dd', '1000');
+    journal.complete(stale.authId, { httpStatus: 200, response: done(stale.authId), expiresAt: stale.expiresAt });
+
+    const restarted = createExecutionJournal({ journalFile, now });
+    expect(restarted.unfinished()).toEqual([
+      { authId: started.authId, entry: { state: 'STARTED', authorization: started, recovery: { fromBlock: '7' }, startedAt: now() } }
+    ]);
+    expect(restarted.get(completed.authId)).toEqual({
+      state: 'COMPLETED',
+      httpStatus: 200,
+      response: done(completed.authId),
+      expiresAt: completed.expiresAt
+    });
+    expect(restarted.get(cleared.authId)).toBeUndefined();
+    expect(restarted.get(stale.authId)).toBeUndefined();
+    expect(restarted.stats()).toEqual({ completed: 1, unfinished: 1, inFlight: 0 });
+    expect(readFileSync(journalFile, 'utf8').trim().split('\n')).toHaveLength(2);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drops a torn final line but refuses a corrupt one in the middle', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-journal-'));
+    const journalFile = join(dir, 'journal.jsonl');
+    const journal = createExecutionJournal({ journalFile });
+    const started = authorization('aa', '2000000300');
+    journal.start(started.authId, { authorization: started, recovery: null });
+    appendFileSync(journalFile, '{"op":"started","authId":"0xbb');
+
+    const restarted = createExecutionJournal({ journalFile });
+    expect(restarted.unfinished().map(({ authId }) => authId)).toEqual([started.authId]);
+    expect(readFileSync(journalFile, 'utf8').endsWith('\n')).toBe(true);
+
+    writeFileSync(journalFile, `{"op":"cleared"\n${readFileSync(journalFile, 'utf8')}`);
+    expect(() => createExecutionJournal({ journalFile })).toThrow('line 1 is not valid JSON');
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prunes expired completed executions every compactThreshold records', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-journal-'));
+    const journalFile = join(dir, 'journal.jsonl');
+    let nowMs = 1_000_000;
+    const journal = createExecutionJournal({ journalFile, compactThreshold: 4, now: () => nowMs });
+
+    const old = authorization('aa', '1000');
+    journal.start(old.authId, { authorization: old, recovery: null });
+    journal.complete(old.authId, { httpStatus: 200, response: done(old.authId), expiresAt: old.expiresAt });
+    nowMs = 2_000_000_000_000;
+    const fresh = authorization('bb', '2000000300');
+    journal.start(fresh.authId, { authorization: fresh, recovery: null });
+    expect(journal.get(old.authId)?.state).toBe('COMPLETED');
+    journal.complete(fresh.authId, { httpStatus: 200, response: done(fresh.authId), expiresAt: fresh.expiresAt });
+
+    expect(journal.get(old.authId)).toBeUndefined();
+    expect(journal.stats()).toEqual({ completed: 1, unfinished: 0, inFlight: 0 });
+    expect(readFileSync(journalFile, 'utf8').trim().split('\n')).toHaveLength(1);
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
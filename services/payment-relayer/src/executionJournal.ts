@@ -0,0 +1,149 @@
+import {
+  normalizeHex,
+  type AuthorizationV1,
+  type Hex,
+  type RelayPayResponseV1
+} from '@shielded-x402/shared-types';
+import { openJsonLinesFile } from './jsonLines.js';
+
+/** Completed entries are kept this long past their authorization's expiry so late retries still replay. */
+const COMPLETED_RETENTION_SECONDS = 24 * 60 * 60;
+
+/** Records appended after which expired completed entries are pruned and the journal file rewritten. */
+const DEFAULT_COMPACT_THRESHOLD = 1000;
+
+export interface StartedExecution {
+  state: 'STARTED';
+  authorization: AuthorizationV1;
+  /** Adapter data for checking chain state if the execution is interrupted. */
+  recovery: unknown;
+  startedAt: number;
+}
+
+export interface CompletedExecution {
+  state: 'COMPLETED';
+  httpStatus: number;
+  response: RelayPayResponseV1;
+  expiresAt: string;
+}
+
+export type ExecutionJournalEntry = StartedExecution | CompletedExecution;
+
+type JournalRecord =
+  | ({ op: 'started'; authId: Hex } & Omit<StartedExecution, 'state'>)
+  | ({ op: 'completed'; authId: Hex } & Omit<CompletedExecution, 'state'>)
+  | { op: 'cleared'; authId: Hex };
+
+export interface ExecutionJournal {
+  get(authId: Hex): ExecutionJournalEntry | undefined;
+  /** In-process lock; false while another request is handling `authId`. */
+  acquire(authId: Hex): boolean;
+  release(authId: Hex): void;
+  /** Persists that funds may move for `authId` from now on. */
+  start(authId: Hex, input: { authorization: AuthorizationV1; recovery: unknown }): void;
+  complete(authId: Hex, input: { httpStatus: number; response: RelayPayResponseV1; expiresAt: string }): void;
+  /** Forgets an interrupted execution that recovery showed never paid, so the relay can run again. */
+  clear(authId: Hex): void;
+  unfinished(): Array<{ authId: Hex; entry: StartedExecution }>;
+  stats(): { completed: number; unfinished: number; inFlight: number };
+}
+
+function toRecord(authId: Hex, entry: ExecutionJournalEntry): JournalRecord {
+  if (entry.state === 'STARTED') {
+    const { state: _state, ...rest } = entry;
+    return { op: 'started', authId, ...rest };
+  }
+  const { state: _state, ...rest } = entry;
+  return { op: 'completed', authId, ...rest };
+}
+
+/**
+ * Relayer-side record of executions keyed by `authId`, so a retried `/v1/relay/pay` never pays twice.
+ * An entry is `STARTED` right before the payout adapter executes and `COMPLETED` with the response
+ * once the outcome is known. With `journalFile` it is an fsynced append-only JSON-lines log. Completed
+ * entries past their retention are pruned, and the file rewritten, on load and after every
+ * `compactThreshold` appended records; without `journalFile` it lives in memory only.
+ */
+export function createExecutionJournal(
+  config: { journalFile?: string; compactThreshold?: number; now?: () => number } = {}
+): ExecutionJournal {
+  const now = config.now ?? Date.now;
+  const compactThreshold = Math.max(1, config.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD);
+  const file = config.journalFile ? openJsonLinesFile<JournalRecord>(config.journalFile) : undefined;
+  const entries = new Map<Hex, ExecutionJournalEntry>();
+  const locks = new Set<Hex>();
+  let appendedSinceCompact = 0;
+
+  const compact = (): void => {
+    const cutoff = BigInt(Math.floor(now() / 1000) - COMPLETED_RETENTION_SECONDS);
+    for (const [authId, entry] of entries) {
+      if (entry.state === 'COMPLETED' && BigInt(entry.expiresAt) < cutoff) entries.delete(authId);
+    }
+    file?.rewrite([...entries].map(([authId, entry]) => toRecord(authId, entry)));
+    appendedSinceCompact = 0;
+  };
+
+  const append = (record: JournalRecord): void => {
+    file?.append(record);
+    appendedSinceCompact += 1;
+  };
+
+  if (file) {
+    for (const record of file.read()) {
+      const authId = normalizeHex(record.authId);
+      if (record.op === 'cleared') {
+        entries.delete(authId);
+      } else if (record.op === 'started') {
+        const { op: _op, authId: _authId, ...rest } = record;
+        entries.set(authId, { state: 'STARTED', ...rest });
+      } else {
+        const { op: _op, authId: _authId, ...rest } = record;
+        entries.set(authId, { state: 'COMPLETED', ...rest });
+      }
+    }
+    compact();
+  }
+
+  return {
+    get: (authId) => entries.get(normalizeHex(authId)),
+    acquire(authId) {
+      const key = normalizeHex(authId);
+      if (locks.has(key)) return false;
+      locks.add(key);
+      return true;
+    },
+    release(authId) {
+      locks.delete(normalizeHex(authId));
+    },
+    start(authId, input) {
+      const entry: StartedExecution = { state: 'STARTED', ...input, startedAt: now() };
+      append(toRecord(normalizeHex(authId), entry));
+      entries.set(normalizeHex(authId), entry);
+    },
+    complete(authId, input) {
+      const entry: CompletedExecution = { state: 'COMPLETED', ...input };
+      append(toRecord(normalizeHex(authId), entry));
+      entries.set(normalizeHex(authId), entry);
+      if (appendedSinceCompact >= compactThreshold) compact();
+    },
+    clear(authId) {
+      append({ op: 'cleared', authId: normalizeHex(authId) });
+      entries.delete(normalizeHex(authId));
+      if (appendedSinceCompact >= compactThreshold) compact();
+    },
+    unfinished() {
+      const out: Array<{ authId: Hex; entry: StartedExecution }> = [];
+      for (const [authId, entry] of entries) {
+        if (entry.state === 'STARTED') out.push({ authId, entry });
+      }
+      return out;
+    },
+    stats() {
+      let completed = 0;
+      for (const entry of entries.values()) {
+        if (entry.state === 'COMPLETED') completed += 1;
+      }
+      return { completed, unfinished: entries.size - completed, inFlight: locks.size };
+    }
+  };
+}
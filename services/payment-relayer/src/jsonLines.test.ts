@@ -0,0 +1,36 @@
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { openJsonLinesFile } from './jsonLines.js';
+
+describe('json lines file', () => {
+  it('appends, rewrites through a temp file and reads records back in order', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-jsonl-'));
+    const path = join(dir, 'log.jsonl');
+    const file = openJsonLinesFile<{ n: number }>(path);
+    expect(file.read()).toEqual([]);
+
+    file.append({ n: 1 });
+    file.append({ n: 2 });
+    expect(file.read()).toEqual([{ n: 1 }, { n: 2 }]);
+
+    file.rewrite([{ n: 3 }]);
+    expect(readFileSync(path, 'utf8')).toBe('{"n":3}\n');
+    expect(existsSync(`${path}.tmp`)).toBe(false);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drops a torn final line and throws on a corrupt line before it', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-jsonl-'));
+    const path = join(dir, 'log.jsonl');
+    const file = openJsonLinesFile<{ n: number }>(path);
+    file.append({ n: 1 });
+    appendFileSync(path, '{"n":');
+    expect(file.read()).toEqual([{ n: 1 }]);
+
+    writeFileSync(path, '{"n":\n{"n":2}\n');
+    expect(() => file.read()).toThrow('line 1 is not valid JSON');
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,63 @@
+import { closeSync, existsSync, fsyncSync, openSync, readFileSync, renameSync, writeSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export interface JsonLinesFile<T> {
+  /**
+   * Records in file order. A final line without its newline is the tail of an append cut short by a
+   * crash and is dropped; any other unparsable line throws.
+   */
+  read(): T[];
+  /** Appends one record and fsyncs before returning. */
+  append(record: T): void;
+  /** Replaces the file with `records` through an fsynced temp file and a rename. */
+  rewrite(records: readonly T[]): void;
+}
+
+function writeAndSync(path: string, flags: 'a' | 'w', data: string): void {
+  const fd = openSync(path, flags);
+  try {
+    writeSync(fd, data);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** Durable append-only JSON-lines log backing the relayer's journal, report outbox and evidence store. */
+export function openJsonLinesFile<T>(path: string): JsonLinesFile<T> {
+  return {
+    read() {
+      if (!existsSync(path)) return [];
+      const lines = readFileSync(path, 'utf8').split('\n');
+      const records: T[] = [];
+      lines.forEach((line, index) => {
+        if (line.trim().length === 0) return;
+        try {
+          records.push(JSON.parse(line) as T);
+        } catch (error) {
+          if (index === lines.length - 1) {
+            console.warn(`[payment-relayer] dropping torn final line of ${path}`);
+            return;
+          }
+          throw new Error(`${path} line ${index + 1} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+      return records;
+    },
+    append(record) {
+      writeAndSync(path, 'a', `${JSON.stringify(record)}\n`);
+    },
+    rewrite(records) {
+      const tmp = `${path}.tmp`;
+      writeAndSync(tmp, 'w', records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+      renameSync(tmp, path);
+      // The rename is only durable once the directory entry is.
+      const dirFd = openSync(dirname(path), 'r');
+      try {
+        fsyncSync(dirFd);
+      } finally {
+        closeSync(dirFd);
+      }
+    }
+  };
+}
@@ -1,35 +1,27 @@
 import { describe, expect, it } from 'vitest';
-import { deriveExecutionTxHash, isPrivateIp, isRelayCallerAuthorized } from './lib.js';
+import { isPrivateIp, isRelayCallerAuthorized, resolveExecutedAmountMicros } from './lib.js';
 
 describe('relayer lib', () => {
-  it('uses deterministic noop execution hash', () => {
-    const input = {
-      authId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' as const,
-      chainRef: 'solana:devnet',
-      payoutMode: 'noop' as const,
-      merchantResult: {
-        status: 200,
-        bodyBase64: Buffer.from('ok').toString('base64')
-      }
-    };
-    const hashA = deriveExecutionTxHash(input);
-    const hashB = deriveExecutionTxHash(input);
-    expect(hashA).toBe(hashB);
-    expect(hashA).toMatch(/^0x[0-9a-f]{64}$/);
-  });
-
-  it('uses adapter tx hash for evm mode', () => {
-    const txHash = '0x1111111111111111111111111111111111111111111111111111111111111111';
-    const hash = deriveExecutionTxHash({
-      authId: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
-      chainRef: 'eip155:84532',
-      payoutMode: 'evm',
-      merchantResult: {
-        status: 200,
-        bodyBase64: Buffer.from(JSON.stringify({ txHash }), 'utf8').toString('base64')
-      }
-    });
-    expect(hash).toBe(txHash);
+  it('captures the merchant-reported amount up to the authorization', () => {
+    const merchantResult = (status: number, headers: Record<string, string> = {}) => ({ status, headers });
+    expect(resolveExecutedAmountMicros({ authorizedAmountMicros: '1000', merchantResult: merchantResult(200) })).toBe(
+      '1000'
+    );
+    expect(
+      resolveExecutedAmountMicros({
+        authorizedAmountMicros: '1000',
+        merchantResult: merchantResult(200, { 'x-executed-amount-micros': '250' })
+      })
+    ).toBe('250');
+    expect(resolveExecutedAmountMicros({ authorizedAmountMicros: '1000', merchantResult: merchantResult(502) })).toBe(
+      '0'
+    );
+    expect(() =>
+      resolveExecutedAmountMicros({
+        authorizedAmountMicros: '1000',
+        merchantResult: merchantResult(200, { 'x-executed-amount-micros': '1001' })
+      })
+    ).toThrow('merchant executed amount exceeds authorized amount');
   });
 
   it('flags private/internal IP ranges', () => {
@@ -1,15 +1,6 @@
-import type { Hex } from '@shielded-x402/shared-types';
-import { createHash } from 'node:crypto';
+import { MERCHANT_RESPONSE_HEADERS } from '@shielded-x402/shared-types';
 import net from 'node:net';
 
-function sha256(input: Buffer): Buffer {
-  return createHash('sha256').update(input).digest();
-}
-
-function sha256Hex(input: Buffer): Hex {
-  return (`0x${sha256(input).toString('hex')}` as Hex);
-}
-
 export function isPrivateIp(ip: string): boolean {
   if (net.isIP(ip) === 4) {
     const parts = ip.split('.').map((segment) => Number(segment));
@@ -35,40 +26,26 @@ export function isPrivateIp(ip: string): boolean {
   return true;
 }
 
-export function deriveExecutionTxHash(input: {
-  authId: Hex;
-  chainRef: string;
-  payoutMode: 'forward' | 'noop' | 'solana' | 'evm';
-  merchantResult: { status: number; bodyBase64: string };
+/**
+ * Amount to capture from the authorization hold. A metered merchant reports what it actually
+ * charged in `x-executed-amount-micros`; without the header the full authorization is captured,
+ * and failed merchant calls capture nothing.
+ */
+export function resolveExecutedAmountMicros(input: {
+  authorizedAmountMicros: string;
+  merchantResult: { status: number; headers: Record<string, string> };
 }): string {
-  if (input.payoutMode === 'solana') {
-    const parsed = JSON.parse(
-      Buffer.from(input.merchantResult.bodyBase64, 'base64').toString('utf8')
-    ) as { txSignature?: string };
-    if (typeof parsed.txSignature !== 'string' || parsed.txSignature.length === 0) {
-      throw new Error('solana adapter missing txSignature');
-    }
-    return parsed.txSignature;
-  }
-  if (input.payoutMode === 'evm') {
-    const parsed = JSON.parse(
-      Buffer.from(input.merchantResult.bodyBase64, 'base64').toString('utf8')
-    ) as { txHash?: string };
-    if (typeof parsed.txHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(parsed.txHash)) {
-      throw new Error('evm adapter missing txHash');
-    }
-    return parsed.txHash;
+  if (input.merchantResult.status >= 400) return '0';
+  const reported = input.merchantResult.headers[MERCHANT_RESPONSE_HEADERS.executedAmountMicros];
+  if (reported === undefined) return input.authorizedAmountMicros;
+  if (!/^[0-9]+$/.test(reported.trim())) {
+    throw new Error(`invalid ${MERCHANT_RESPONSE_HEADERS.executedAmountMicros} header`);
   }
-  if (input.payoutMode === 'noop') {
-    return sha256Hex(Buffer.from(`${input.authId}|${input.chainRef}|noop`, 'utf8'));
+  const executed = BigInt(reported.trim());
+  if (executed > BigInt(input.authorizedAmountMicros)) {
+    throw new Error('merchant executed amount exceeds authorized amount');
   }
-  const bodyHash = sha256Hex(Buffer.from(input.merchantResult.bodyBase64, 'base64'));
-  return sha256Hex(
-    Buffer.from(
-      `${input.authId}|${input.chainRef}|forward|${input.merchantResult.status}|${bodyHash}`,
-      'utf8'
-    )
-  );
+  return executed.toString();
 }
 
 export function isRelayCallerAuthorized(
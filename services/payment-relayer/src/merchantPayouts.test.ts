@@ -0,0 +1,127 @@
+import { createHash, createPublicKey, sign } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalMerchantRecordBytes,
+  type Hex,
+  type MerchantRecordV1,
+  type SignedMerchantRecordV1
+} from '@shielded-x402/shared-types';
+import { createEd25519PrivateKeyFromSeed } from './crypto.js';
+import { createMerchantPayoutResolver, resolvePayoutRecipient } from './merchantPayouts.js';
+import { createSequencerKeyStore } from './sequencerKeys.js';
+
+const merchantId = (`0x${'44'.repeat(32)}` as Hex);
+const record: MerchantRecordV1 = {
+  merchantId,
+  serviceRegistryId: 'demo/base',
+  endpointUrl: 'https://merchant.example/pay',
+  source: 'ADMIN',
+  payoutAddresses: [{ chainRef: 'eip155:8453', address: '0xabcdef0000000000000000000000000000000001' }],
+  updatedAt: '100'
+};
+
+const sequencerPrivateKey = createEd25519PrivateKeyFromSeed(Uint8Array.from(Buffer.alloc(32, 1)));
+const sequencerPublicKey = `0x${Buffer.from(
+  createPublicKey(sequencerPrivateKey).export({ format: 'der', type: 'spki' })
+)
+  .subarray(-32)
+  .toString('hex')}` as Hex;
+const sequencerKeys = createSequencerKeyStore({
+  sequencerUrl: 'http://sequencer.test',
+  pinnedKeys: { 'seq-key-1': sequencerPublicKey }
+});
+
+function signedRecord(input: { record?: MerchantRecordV1; issuedAt?: string } = {}): SignedMerchantRecordV1 {
+  const payload = {
+    version: 1 as const,
+    record: input.record ?? record,
+    issuedAt: input.issuedAt ?? String(Math.floor(Date.now() / 1000)),
+    sequencerKeyId: 'seq-key-1'
+  };
+  const digest = createHash('sha256').update(canonicalMerchantRecordBytes(payload)).digest();
+  return { ...payload, sequencerSig: `0x${sign(null, digest, sequencerPrivateKey).toString('hex')}` };
+}
+
+function jsonFetch(status: number, body: unknown): { fetchImpl: typeof fetch; urls: string[] } {
+  const urls: string[] = [];
+  const fetchImpl = (async (url: string) => {
+    urls.push(url);
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json' }
+    });
+  }) as typeof fetch;
+  return { fetchImpl, urls };
+}
+
+describe('merchant payout resolver', () => {
+  it('resolves and caches the registered payout address for the authorized merchant', async () => {
+    const { fetchImpl, urls } = jsonFetch(200, signedRecord());
+    const resolver = createMerchantPayoutResolver({ sequencerUrl: 'http://sequencer.test', sequencerKeys, fetchImpl });
+
+    await expect(resolver.resolve({ merchantId, chainRef: 'eip155:8453' })).resolves.toBe(
+      '0xabcdef0000000000000000000000000000000001'
+    );
+    await resolver.resolve({ merchantId, chainRef: 'eip155:8453' });
+    expect(urls).toEqual([`http://sequencer.test/v1/credit/merchants/${merchantId}`]);
+    await expect(resolver.resolve({ merchantId, chainRef: 'solana:devnet' })).rejects.toThrow(
+      'has no payout address on solana:devnet'
+    );
+  });
+
+  it('fails when the merchant is not registered', async () => {
+    const { fetchImpl } = jsonFetch(404, { error: 'merchant not found', code: 'NOT_FOUND' });
+    const resolver = createMerchantPayoutResolver({ sequencerUrl: 'http://sequencer.test', sequencerKeys, fetchImpl });
+    await expect(resolver.resolve({ merchantId, chainRef: 'eip155:8453' })).rejects.toThrow(
+      'merchant lookup failed (404)'
+    );
+  });
+
+  it('refuses records the sequencer did not sign, or signed too long ago', async () => {
+    const redirected = {
+      ...signedRecord(),
+      record: {
+        ...record,
+        payoutAddresses: [{ chainRef: 'eip155:8453', address: '0x0000000000000000000000000000000000000bad' }]
+      }
+    };
+    const forged = createMerchantPayoutResolver({
+      sequencerUrl: 'http://sequencer.test',
+      sequencerKeys,
+      fetchImpl: jsonFetch(200, redirected).fetchImpl
+    });
+    await expect(forged.resolve({ merchantId, chainRef: 'eip155:8453' })).rejects.toThrow(
+      'invalid sequencer signature on merchant record'
+    );
+
+    const stale = createMerchantPayoutResolver({
+      sequencerUrl: 'http://sequencer.test',
+      sequencerKeys,
+      fetchImpl: jsonFetch(200, signedRecord({ issuedAt: String(Math.floor(Date.now() / 1000) - 600) })).fetchImpl
+    });
+    await expect(stale.resolve({ merchantId, chainRef: 'eip155:8453' })).rejects.toThrow(
+      'was issued outside the last 300s'
+    );
+  });
+
+  it('only accepts a client recipient that matches the registry', () => {
+    const payoutAddress = '0xabcdef0000000000000000000000000000000001';
+    expect(resolvePayoutRecipient({ chainRef: 'eip155:8453', payoutAddress, payloadRecipient: undefined })).toBe(
+      payoutAddress
+    );
+    expect(
+      resolvePayoutRecipient({
+        chainRef: 'eip155:8453',
+        payoutAddress,
+        payloadRecipient: '0xABCDEF0000000000000000000000000000000001'
+      })
+    ).toBe(payoutAddress);
+    expect(() =>
+      resolvePayoutRecipient({
+        chainRef: 'eip155:8453',
+        payoutAddress,
+        payloadRecipient: '0x0000000000000000000000000000000000000002'
+      })
+    ).toThrow('does not match the registered payout address');
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  SEQUENCER_ROUTES_V1,
+  normalizeHex,
+  type Hex,
+  type MerchantRecordV1,
+  type SignedMerchantRecordV1
+} from '@shielded-x402/shared-types';
+import type { SequencerKeyStore } from './sequencerKeys.js';
+
+export interface MerchantPayoutResolver {
+  /** Registered payout address for the authorized merchant on `chainRef`. */
+  resolve(input: { merchantId: Hex; chainRef: string }): Promise<string>;
+}
+
+/**
+ * Looks up payout destinations in the sequencer's merchant registry. Only records signed by a
+ * sequencer key the relayer trusts, and issued within `maxRecordAgeSeconds`, are used. Records
+ * are cached for `cacheTtlMs` so a burst of payments to one merchant costs a single lookup.
+ */
+export function createMerchantPayoutResolver(config: {
+  sequencerUrl: string;
+  sequencerKeys: Pick<SequencerKeyStore, 'verifyMerchantRecord'>;
+  fetchImpl?: typeof fetch;
+  cacheTtlMs?: number;
+  maxRecordAgeSeconds?: number;
+}): MerchantPayoutResolver {
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const cacheTtlMs = config.cacheTtlMs ?? 60_000;
+  const maxRecordAgeSeconds = BigInt(config.maxRecordAgeSeconds ?? 300);
+  const cache = new Map<Hex, { record: MerchantRecordV1; fetchedAt: number }>();
+
+  const load = async (merchantId: Hex): Promise<MerchantRecordV1> => {
+    const cached = cache.get(merchantId);
+    if (cached && Date.now() - cached.fetchedAt < cacheTtlMs) {
+      return cached.record;
+    }
+    const response = await fetchImpl(`${config.sequencerUrl}${SEQUENCER_ROUTES_V1.merchants}/${merchantId}`, {
+      method: 'GET'
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`merchant lookup failed (${response.status}) merchantId=${merchantId}: ${text}`);
+    }
+    const signed = (await response.json()) as SignedMerchantRecordV1;
+    await config.sequencerKeys.verifyMerchantRecord(signed);
+    const age = BigInt(Math.floor(Date.now() / 1000)) - BigInt(signed.issuedAt);
+    if (age > maxRecordAgeSeconds || -age > maxRecordAgeSeconds) {
+      throw new Error(`merchant record for ${merchantId} was issued outside the last ${maxRecordAgeSeconds}s`);
+    }
+    const { record } = signed;
+    if (normalizeHex(record.merchantId) !== merchantId) {
+      throw new Error(`merchant lookup returned a different merchantId: ${record.merchantId}`);
+    }
+    cache.set(merchantId, { record, fetchedAt: Date.now() });
+    return record;
+  };
+
+  return {
+    async resolve(input) {
+      const merchantId = normalizeHex(input.merchantId);
+      const record = await load(merchantId);
+      const payout = record.payoutAddresses.find((entry) => entry.chainRef === input.chainRef);
+      if (!payout) {
+        throw new Error(`merchant ${merchantId} has no payout address on ${input.chainRef}`);
+      }
+      return payout.address;
+    }
+  };
+}
+
+/**
+ * Picks the on-chain recipient for a payout. The client may still send `recipient` in its
+ * payload, but only as a cross-check: a value that differs from the registry is rejected.
+ */
+export function resolvePayoutRecipient(input: {
+  chainRef: string;
+  payoutAddress: string;
+  payloadRecipient: unknown;
+}): string {
+  if (input.payloadRecipient === undefined) return input.payoutAddress;
+  const caseInsensitive = input.chainRef.startsWith('eip155:');
+  const given = typeof input.payloadRecipient === 'string' ? input.payloadRecipient.trim() : '';
+  const matches = caseInsensitive
+    ? given.toLowerCase() === input.payoutAddress.toLowerCase()
+    : given === input.payoutAddress;
+  if (!matches) {
+    throw new Error('merchant payload recipient does not match the registered payout address');
+  }
+  return input.payoutAddress;
+}
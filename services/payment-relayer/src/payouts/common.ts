@@ -0,0 +1,56 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Hex } from '@shielded-x402/shared-types';
+import type { MerchantRequest, MerchantResult } from './types.js';
+
+export function sha256Hex(input: Buffer): Hex {
+  return (`0x${createHash('sha256').update(input).digest('hex')}` as Hex);
+}
+
+/**
+ * Imports a module by specifier. Relative and absolute file paths are resolved against the
+ * working directory so deployments can point at built adapters outside this package.
+ */
+export async function importModule(specifier: string): Promise<any> {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return import(pathToFileURL(path.resolve(specifier)).href);
+  }
+  return import(specifier);
+}
+
+/** Imports a built-in adapter's chain client. There is no default: chain sources are not part of a built relayer. */
+export async function importClientModule(specifier: string | undefined, mode: string): Promise<any> {
+  if (!specifier) {
+    throw new Error(`${mode} payout mode requires a chain client module`);
+  }
+  return importModule(specifier);
+}
+
+export function decodeJsonPayload<T>(request: MerchantRequest, mode: string): T {
+  if (!request.bodyBase64) {
+    throw new Error(`${mode} payout mode requires merchantRequest.bodyBase64 payload`);
+  }
+  return JSON.parse(Buffer.from(request.bodyBase64, 'base64').toString('utf8')) as T;
+}
+
+export function decodeJsonResult<T>(merchantResult: MerchantResult): T {
+  return JSON.parse(Buffer.from(merchantResult.bodyBase64, 'base64').toString('utf8')) as T;
+}
+
+export function jsonMerchantResult(body: unknown): MerchantResult {
+  return {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+    bodyBase64: Buffer.from(JSON.stringify(body)).toString('base64')
+  };
+}
+
+export function requireStringFields<T extends object>(payload: T, fields: readonly (keyof T & string)[], mode: string): void {
+  for (const field of fields) {
+    const value = payload[field];
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`${mode} merchant payload missing field: ${field}`);
+    }
+  }
+}
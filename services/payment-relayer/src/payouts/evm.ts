@@ -0,0 +1,254 @@
+import { MERCHANT_RESPONSE_HEADERS, normalizeHex, type Hex } from '@shielded-x402/shared-types';
+import { privateKeyToAccount } from 'viem/accounts';
+import { resolvePayoutRecipient } from '../merchantPayouts.js';
+import { decodeJsonPayload, decodeJsonResult, importClientModule, jsonMerchantResult, requireStringFields } from './common.js';
+import type { MerchantResult, PayoutAdapter } from './types.js';
+
+/**
+ * ERC-20 payout token, fixed by relayer config so clients cannot choose what is paid out.
+ * With `authorizerPrivateKey` the holder signs EIP-3009 authorizations (nonce = `authId`) and
+ * payouts fail on tokens without EIP-3009; with `from` the relayer spends the holder's allowance.
+ */
+export interface EvmTokenPayoutConfig {
+  address: string;
+  from?: string;
+  authorizerPrivateKey?: string;
+}
+
+export interface EvmPayoutConfig {
+  /** Fallback signer when the payload carries no valid `privateKey`. */
+  envPrivateKey: string | undefined;
+  /** Built `chains/base/client` module; required before any evm payout runs. */
+  clientModule?: string;
+  /** Pays this token in authorization micros instead of native wei. */
+  token?: EvmTokenPayoutConfig;
+}
+
+export interface EvmPayoutPayload {
+  rpcUrl: string;
+  recipient?: string;
+  /** Native payouts only. */
+  amountWei?: string;
+  /** Token payouts only; defaults to the authorized amount. */
+  amountMicros?: string;
+  chainId?: string | number;
+  privateKey?: string;
+}
+
+/** Journaled before an EIP-3009 payout: where to look for the transfer that used `nonce`. */
+interface EvmTokenRecovery {
+  rpcUrl: string;
+  token: string;
+  authorizer: string;
+  nonce: Hex;
+  fromBlock: string;
+  amountMicros: string;
+}
+
+interface EvmTokenTransferOutcome {
+  txHash: string;
+  method: string;
+  token: string;
+  from: string;
+  to: string;
+  value: bigint;
+  decimals: number;
+  logIndex: number;
+}
+
+function tokenMerchantResult(result: EvmTokenTransferOutcome, amountMicros: string): MerchantResult {
+  const merchantResult = jsonMerchantResult({
+    txHash: result.txHash,
+    method: result.method,
+    token: result.token,
+    from: result.from,
+    to: result.to,
+    value: result.value.toString(),
+    decimals: result.decimals,
+    logIndex: result.logIndex
+  });
+  merchantResult.headers[MERCHANT_RESPONSE_HEADERS.executedAmountMicros] = amountMicros;
+  return merchantResult;
+}
+
+export function sanitizeEvmPrivateKey(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const trimmed = raw.trim().replace(/^['"]|['"]$/g, '').trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export function isValidEvmPrivateKey(raw: string | undefined): boolean {
+  const sanitized = sanitizeEvmPrivateKey(raw);
+  if (!sanitized) return false;
+  return /^0x[0-9a-fA-F]{64}$/.test(sanitized);
+}
+
+export function keyPreview(value: string | undefined): string {
+  if (!value) return 'none';
+  if (value.length <= 12) return value;
+  return `${value.slice(0, 6)}...${value.slice(-4)}`;
+}
+
+/**
+ * Native-token transfer to the merchant's registered `eip155:*` payout address, or an ERC-20
+ * transfer of the authorized micros when `config.token` is set.
+ */
+export function createEvmPayoutAdapter(config: EvmPayoutConfig): PayoutAdapter<EvmPayoutPayload> {
+  const token = config.token;
+  if (token && !/^0x[0-9a-fA-F]{40}$/.test(token.address)) {
+    throw new Error('evm payout token address must be 0x + 40 hex chars');
+  }
+  if (token?.from !== undefined && !/^0x[0-9a-fA-F]{40}$/.test(token.from)) {
+    throw new Error('evm payout token holder must be 0x + 40 hex chars');
+  }
+  if (token?.authorizerPrivateKey !== undefined && !isValidEvmPrivateKey(token.authorizerPrivateKey)) {
+    throw new Error('evm payout token authorizer key is invalid');
+  }
+  // EIP-3009 payouts use the authId as nonce, so the token records whether an authorization paid.
+  const authorizer = token?.authorizerPrivateKey
+    ? privateKeyToAccount(sanitizeEvmPrivateKey(token.authorizerPrivateKey) as Hex).address
+    : undefined;
+  const recovery: Pick<PayoutAdapter<EvmPayoutPayload>, 'prepareRecovery' | 'recover'> =
+    token && authorizer
+      ? {
+          async prepareRecovery(payload, quote, context) {
+            const client = await importClientModule(config.clientModule, 'evm');
+            const fromBlock: bigint = await client.getEvmBlockNumber(payload.rpcUrl);
+            return {
+              rpcUrl: payload.rpcUrl,
+              token: token.address,
+              authorizer,
+              nonce: normalizeHex(context.authorization.authId),
+              fromBlock: fromBlock.toString(),
+              amountMicros: quote.amount ?? '0'
+            } satisfies EvmTokenRecovery;
+          },
+          async recover(raw) {
+            const saved = raw as EvmTokenRecovery;
+            const client = await importClientModule(config.clientModule, 'evm');
+            const result: EvmTokenTransferOutcome | null = await client.findEvmTokenAuthorizationTransfer({
+              rpcUrl: saved.rpcUrl,
+              token: saved.token,
+              authorizer: saved.authorizer,
+              nonce: saved.nonce,
+              fromBlock: BigInt(saved.fromBlock)
+            });
+            return result ? tokenMerchantResult(result, saved.amountMicros) : null;
+          }
+        }
+      : {};
+  return {
+    ...recovery,
+    mode: 'evm',
+    requiresPayoutAddress: true,
+    async validate(request) {
+      const payload = decodeJsonPayload<EvmPayoutPayload>(request, 'evm');
+      requireStringFields(payload, token ? ['rpcUrl'] : ['rpcUrl', 'amountWei'], 'evm');
+      if (token && payload.amountMicros !== undefined && !/^[0-9]+$/.test(String(payload.amountMicros))) {
+        throw new Error('evm amountMicros must be a non-negative integer string');
+      }
+      return payload;
+    },
+    async quote(payload, context) {
+      if (!context.payoutAddress) {
+        throw new Error('evm payout mode requires a registered merchant payout address');
+      }
+      const recipient = resolvePayoutRecipient({
+        chainRef: context.chainRef,
+        payoutAddress: context.payoutAddress,
+        payloadRecipient: payload.recipient
+      });
+      if (!token) {
+        return { recipient, amount: BigInt(payload.amountWei ?? '0').toString(), unit: 'wei' };
+      }
+      const authorized = BigInt(context.authorization.authorizedAmountMicros);
+      const amount = payload.amountMicros === undefined ? authorized : BigInt(payload.amountMicros);
+      if (amount > authorized) {
+        throw new Error('evm token amountMicros exceeds authorized amount');
+      }
+      return { recipient, amount: amount.toString(), unit: 'micros' };
+    },
+    async execute(payload, quote, context) {
+      const payloadPrivateKey = sanitizeEvmPrivateKey(payload.privateKey);
+      const envPrivateKey = sanitizeEvmPrivateKey(config.envPrivateKey);
+      const payloadKeyValid = isValidEvmPrivateKey(payload.privateKey);
+      const envKeyValid = isValidEvmPrivateKey(config.envPrivateKey);
+
+      let privateKey: string | undefined;
+      let keySource: 'payload' | 'env' | 'none' = 'none';
+      if (payloadPrivateKey && payloadKeyValid) {
+        privateKey = payloadPrivateKey;
+        keySource = 'payload';
+      } else if (envPrivateKey && envKeyValid) {
+        privateKey = envPrivateKey;
+        keySource = 'env';
+      }
+
+      if (!privateKey) {
+        throw new Error(
+          `evm private key unavailable/invalid (payloadValid=${payloadKeyValid} payloadLen=${payloadPrivateKey?.length ?? 0} payloadPreview=${keyPreview(payloadPrivateKey)} envValid=${envKeyValid} envLen=${envPrivateKey?.length ?? 0} envPreview=${keyPreview(envPrivateKey)})`
+        );
+      }
+
+      const chainId =
+        payload.chainId === undefined ? undefined : Number(typeof payload.chainId === 'string' ? payload.chainId.trim() : payload.chainId);
+      if (chainId !== undefined && (!Number.isInteger(chainId) || chainId <= 0)) {
+        throw new Error('evm chainId must be a positive integer');
+      }
+
+      const client = await importClientModule(config.clientModule, 'evm');
+      const failure = (error: unknown): Error => {
+        const reason = error instanceof Error ? error.message : String(error);
+        return new Error(
+          `evm transfer failed (keySource=${keySource} keyLen=${privateKey.length} keyPreview=${keyPreview(privateKey)} chainId=${chainId ?? 'none'} rpcUrl=${payload.rpcUrl}): ${reason}`
+        );
+      };
+
+      if (token) {
+        let result: EvmTokenTransferOutcome;
+        try {
+          result = await client.submitEvmTokenTransfer({
+            rpcUrl: payload.rpcUrl,
+            privateKey,
+            token: token.address,
+            recipient: quote.recipient,
+            amountMicros: BigInt(quote.amount ?? '0'),
+            chainId,
+            ...(token.from ? { from: token.from } : {}),
+            ...(token.authorizerPrivateKey
+              ? {
+                  authorizerPrivateKey: sanitizeEvmPrivateKey(token.authorizerPrivateKey),
+                  nonce: normalizeHex(context.authorization.authId)
+                }
+              : {})
+          });
+        } catch (error) {
+          throw failure(error);
+        }
+        return tokenMerchantResult(result, quote.amount ?? '0');
+      }
+
+      let result: { txHash: string };
+      try {
+        result = await client.submitEvmNativeTransfer({
+          rpcUrl: payload.rpcUrl,
+          privateKey,
+          recipient: quote.recipient,
+          amountWei: BigInt(quote.amount ?? '0'),
+          chainId
+        });
+      } catch (error) {
+        throw failure(error);
+      }
+
+      return jsonMerchantResult({ txHash: result.txHash });
+    },
+    deriveExecutionId(input) {
+      const parsed = decodeJsonResult<{ txHash?: string }>(input.merchantResult);
+      if (typeof parsed.txHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(parsed.txHash)) {
+        throw new Error('evm adapter missing txHash');
+      }
+      return parsed.txHash;
+    }
+  };
+}
@@ -0,0 +1,131 @@
+import dns from 'node:dns/promises';
+import { isPrivateIp } from '../lib.js';
+import { sha256Hex } from './common.js';
+import type { MerchantRequest, PayoutAdapter } from './types.js';
+
+export interface ForwardPayoutConfig {
+  staticHeaders: Record<string, string>;
+  allowedHosts: Set<string>;
+  timeoutMs: number;
+  maxResponseBytes: number;
+}
+
+async function assertSafeMerchantUrl(urlRaw: string, allowedHosts: Set<string>): Promise<void> {
+  const parsed = new URL(urlRaw);
+  if (parsed.protocol.toLowerCase() !== 'https:') {
+    throw new Error('merchant URL must use https');
+  }
+  const host = parsed.hostname.toLowerCase();
+  if (host === 'localhost' || host.endsWith('.local')) {
+    throw new Error('merchant URL hostname is not allowed');
+  }
+  if (allowedHosts.size > 0 && !allowedHosts.has(host)) {
+    throw new Error('merchant hostname not in allowlist');
+  }
+
+  const resolved = await dns.lookup(host, { all: true });
+  if (resolved.length === 0) {
+    throw new Error('merchant hostname failed DNS resolution');
+  }
+  for (const entry of resolved) {
+    if (isPrivateIp(entry.address)) {
+      throw new Error('merchant hostname resolves to private/internal IP');
+    }
+  }
+}
+
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array();
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (!value) continue;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      throw new Error('merchant response exceeded max allowed size');
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return output;
+}
+
+/** Forwards the merchant request over HTTPS; the merchant settles off-chain. */
+export function createForwardPayoutAdapter(config: ForwardPayoutConfig): PayoutAdapter<MerchantRequest> {
+  return {
+    mode: 'forward',
+    requiresPayoutAddress: false,
+    async validate(request) {
+      await assertSafeMerchantUrl(request.url, config.allowedHosts);
+      if (request.method.toUpperCase().length === 0) {
+        throw new Error('merchantRequest.method is required');
+      }
+      return request;
+    },
+    async quote() {
+      return { recipient: null, amount: null, unit: 'none' };
+    },
+    async execute(request) {
+      const method = request.method.toUpperCase();
+      const unsafeHeaderKeys = new Set(['host', 'connection', 'content-length']);
+      const sanitizedHeaders: Record<string, string> = {};
+      for (const [key, value] of Object.entries(request.headers ?? {})) {
+        const normalized = key.trim().toLowerCase();
+        if (unsafeHeaderKeys.has(normalized)) continue;
+        sanitizedHeaders[normalized] = value;
+      }
+      for (const [key, value] of Object.entries(config.staticHeaders)) {
+        sanitizedHeaders[key.toLowerCase()] = value;
+      }
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort('merchant request timeout'), config.timeoutMs);
+      try {
+        const init: RequestInit = {
+          method,
+          headers: sanitizedHeaders,
+          signal: controller.signal
+        };
+        if (method !== 'GET' && method !== 'HEAD' && request.bodyBase64) {
+          init.body = Buffer.from(request.bodyBase64, 'base64');
+        }
+        const response = await fetch(request.url, init);
+        const body = await readLimitedBody(response, config.maxResponseBytes);
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+          responseHeaders[key] = value;
+        });
+        return {
+          status: response.status,
+          headers: responseHeaders,
+          bodyBase64: Buffer.from(body).toString('base64')
+        };
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+    deriveExecutionId(input) {
+      const bodyHash = sha256Hex(Buffer.from(input.merchantResult.bodyBase64, 'base64'));
+      return sha256Hex(
+        Buffer.from(
+          `${input.authId}|${input.chainRef}|forward|${input.merchantResult.status}|${bodyHash}`,
+          'utf8'
+        )
+      );
+    },
+    // No chain state to check: an interrupted forward is sent again, as retries always were.
+    async recover() {
+      return null;
+    }
+  };
+}
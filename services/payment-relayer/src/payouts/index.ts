@@ -0,0 +1,122 @@
+import { normalizeHex } from '@shielded-x402/shared-types';
+import { importModule } from './common.js';
+import { createEvmPayoutAdapter, type EvmPayoutConfig } from './evm.js';
+import { createForwardPayoutAdapter, type ForwardPayoutConfig } from './forward.js';
+import { createNoopPayoutAdapter } from './noop.js';
+import { createSolanaPayoutAdapter, type SolanaPayoutConfig } from './solana.js';
+import type {
+  MerchantRequest,
+  MerchantResult,
+  PayoutAdapter,
+  PayoutAdapterFactory,
+  PayoutContext,
+  PayoutQuote
+} from './types.js';
+
+export * from './types.js';
+export { createEvmPayoutAdapter, isValidEvmPrivateKey, keyPreview, sanitizeEvmPrivateKey } from './evm.js';
+export { createForwardPayoutAdapter } from './forward.js';
+export { createNoopPayoutAdapter } from './noop.js';
+export { createSolanaPayoutAdapter } from './solana.js';
+
+export interface ExternalPayoutAdapterConfig {
+  /** Module specifier or file path; the module must export `createPayoutAdapter`. */
+  module: string;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Parses `RELAYER_PAYOUT_ADAPTERS_JSON`:
+ * `{ "stripe": { "module": "./dist/stripeAdapter.js", "options": { ... } } }`.
+ */
+export function parsePayoutAdaptersConfig(raw: string | undefined): Record<string, ExternalPayoutAdapterConfig> {
+  if (!raw) return {};
+  const parsed = JSON.parse(raw) as unknown;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('RELAYER_PAYOUT_ADAPTERS_JSON must be an object');
+  }
+  const out: Record<string, ExternalPayoutAdapterConfig> = {};
+  for (const [mode, value] of Object.entries(parsed)) {
+    const entry = value as { module?: unknown; options?: unknown };
+    if (typeof entry?.module !== 'string' || entry.module.trim().length === 0) {
+      throw new Error(`RELAYER_PAYOUT_ADAPTERS_JSON ${mode}.module must be a non-empty string`);
+    }
+    if (entry.options !== undefined && (typeof entry.options !== 'object' || entry.options === null || Array.isArray(entry.options))) {
+      throw new Error(`RELAYER_PAYOUT_ADAPTERS_JSON ${mode}.options must be an object`);
+    }
+    out[mode] = { module: entry.module.trim(), options: (entry.options ?? {}) as Record<string, unknown> };
+  }
+  return out;
+}
+
+function assertPayoutAdapter(value: unknown, mode: string): PayoutAdapter {
+  const adapter = value as Partial<PayoutAdapter> | null;
+  const methods = ['validate', 'quote', 'execute', 'deriveExecutionId'] as const;
+  if (!adapter || typeof adapter !== 'object' || methods.some((method) => typeof adapter[method] !== 'function')) {
+    throw new Error(`payout adapter ${mode} must implement ${methods.join(', ')}`);
+  }
+  for (const method of ['prepareRecovery', 'recover'] as const) {
+    if (adapter[method] !== undefined && typeof adapter[method] !== 'function') {
+      throw new Error(`payout adapter ${mode} ${method} must be a function`);
+    }
+  }
+  if (adapter.mode !== mode) {
+    throw new Error(`payout adapter registered as ${mode} reports mode ${String(adapter.mode)}`);
+  }
+  if (typeof adapter.requiresPayoutAddress !== 'boolean') {
+    throw new Error(`payout adapter ${mode} must set requiresPayoutAddress`);
+  }
+  return adapter as PayoutAdapter;
+}
+
+/** Built-in adapters plus those listed in `external`, keyed by mode. External modes may not shadow built-ins. */
+export async function loadPayoutAdapters(config: {
+  forward: ForwardPayoutConfig;
+  evm: EvmPayoutConfig;
+  solana: SolanaPayoutConfig;
+  external: Record<string, ExternalPayoutAdapterConfig>;
+}): Promise<Map<string, PayoutAdapter>> {
+  const adapters = new Map<string, PayoutAdapter>([
+    ['forward', createForwardPayoutAdapter(config.forward) as PayoutAdapter],
+    ['noop', createNoopPayoutAdapter() as PayoutAdapter],
+    ['evm', createEvmPayoutAdapter(config.evm) as PayoutAdapter],
+    ['solana', createSolanaPayoutAdapter(config.solana) as PayoutAdapter]
+  ]);
+  for (const [mode, external] of Object.entries(config.external)) {
+    if (adapters.has(mode)) {
+      throw new Error(`payout adapter ${mode} is built in and cannot be replaced`);
+    }
+    const loaded = (await importModule(external.module)) as { createPayoutAdapter?: PayoutAdapterFactory };
+    if (typeof loaded.createPayoutAdapter !== 'function') {
+      throw new Error(`payout adapter module ${external.module} does not export createPayoutAdapter`);
+    }
+    adapters.set(mode, assertPayoutAdapter(await loaded.createPayoutAdapter(external.options), mode));
+  }
+  return adapters;
+}
+
+/**
+ * Runs one payout through `adapter` and returns the result with the id reported as `executionTxHash`.
+ * `beforeExecute` receives the adapter's recovery data once validation and quoting succeeded, right
+ * before funds can move.
+ */
+export async function runPayout(input: {
+  adapter: PayoutAdapter;
+  request: MerchantRequest;
+  context: PayoutContext;
+  beforeExecute?: (recovery: unknown) => void;
+}): Promise<{ quote: PayoutQuote; merchantResult: MerchantResult; executionTxHash: string }> {
+  const payload = await input.adapter.validate(input.request, input.context);
+  const quote = await input.adapter.quote(payload, input.context);
+  const recovery = input.adapter.prepareRecovery
+    ? await input.adapter.prepareRecovery(payload, quote, input.context)
+    : null;
+  input.beforeExecute?.(recovery);
+  const merchantResult = await input.adapter.execute(payload, quote, input.context);
+  const executionTxHash = input.adapter.deriveExecutionId({
+    authId: normalizeHex(input.context.authorization.authId),
+    chainRef: input.context.chainRef,
+    merchantResult
+  });
+  return { quote, merchantResult, executionTxHash };
+}
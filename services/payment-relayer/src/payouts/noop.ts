@@ -0,0 +1,25 @@
+import { jsonMerchantResult, sha256Hex } from './common.js';
+import type { PayoutAdapter } from './types.js';
+
+/** Pays nothing; for local smoke tests of the authorize/report loop. */
+export function createNoopPayoutAdapter(): PayoutAdapter<null> {
+  return {
+    mode: 'noop',
+    requiresPayoutAddress: false,
+    async validate() {
+      return null;
+    },
+    async quote() {
+      return { recipient: null, amount: null, unit: 'none' };
+    },
+    async execute() {
+      return jsonMerchantResult({ ok: true, mode: 'noop' });
+    },
+    deriveExecutionId(input) {
+      return sha256Hex(Buffer.from(`${input.authId}|${input.chainRef}|noop`, 'utf8'));
+    },
+    async recover() {
+      return null;
+    }
+  };
+}
@@ -0,0 +1,207 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { AuthorizationV1 } from '@shielded-x402/shared-types';
+import { createEvmPayoutAdapter } from './evm.js';
+import { loadPayoutAdapters, parsePayoutAdaptersConfig, runPayout } from './index.js';
+import { createNoopPayoutAdapter } from './noop.js';
+import { createSolanaPayoutAdapter } from './solana.js';
+
+const authId = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' as const;
+
+const authorization: AuthorizationV1 = {
+  version: 1,
+  intentId: `0x${'11'.repeat(32)}`,
+  authId,
+  authorizedAmountMicros: '1000',
+  agentId: `0x${'33'.repeat(32)}`,
+  agentNonce: '1',
+  merchantId: `0x${'44'.repeat(32)}`,
+  chainRef: 'eip155:84532',
+  issuedAt: '1',
+  expiresAt: '9999999999',
+  sequencerEpochHint: '1',
+  logSeqNo: '1',
+  sequencerKeyId: 'seq-key-1'
+};
+
+const builtIns = {
+  forward: { staticHeaders: {}, allowedHosts: new Set<string>(), timeoutMs: 1000, maxResponseBytes: 1024 },
+  evm: { envPrivateKey: undefined },
+  solana: { defaultComputeUnits: 1_000_000 }
+};
+
+function jsonBase64(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64');
+}
+
+describe('payout adapters', () => {
+  it('uses deterministic noop execution hash', async () => {
+    const context = { chainRef: 'solana:devnet', authorization };
+    const request = { url: 'https://merchant.example/pay', method: 'POST' };
+    const a = await runPayout({ adapter: createNoopPayoutAdapter(), request, context });
+    const b = await runPayout({ adapter: createNoopPayoutAdapter(), request, context });
+    expect(a.executionTxHash).toBe(b.executionTxHash);
+    expect(a.executionTxHash).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+
+  it('uses adapter tx hash for evm mode', () => {
+    const txHash = '0x1111111111111111111111111111111111111111111111111111111111111111';
+    const hash = createEvmPayoutAdapter({ envPrivateKey: undefined }).deriveExecutionId({
+      authId,
+      chainRef: 'eip155:84532',
+      merchantResult: { status: 200, headers: {}, bodyBase64: jsonBase64({ txHash }) }
+    });
+    expect(hash).toBe(txHash);
+  });
+
+  it('quotes evm payouts to the registered address and rejects other recipients', async () => {
+    const adapter = createEvmPayoutAdapter({ envPrivateKey: undefined });
+    const payoutAddress = '0xabcdef0000000000000000000000000000000001';
+    const context = { chainRef: 'eip155:84532', authorization, payoutAddress };
+    const payload = await adapter.validate(
+      { url: 'https://merchant.example/pay', method: 'POST', bodyBase64: jsonBase64({ rpcUrl: 'http://rpc', amountWei: '5' }) },
+      context
+    );
+    expect(await adapter.quote(payload, context)).toEqual({ recipient: payoutAddress, amount: '5', unit: 'wei' });
+    await expect(
+      adapter.quote({ ...payload, recipient: '0x0000000000000000000000000000000000000002' }, context)
+    ).rejects.toThrow('does not match the registered payout address');
+    await expect(
+      adapter.validate({ url: 'https://merchant.example/pay', method: 'POST', bodyBase64: jsonBase64({ rpcUrl: 'http://rpc' }) }, context)
+    ).rejects.toThrow('evm merchant payload missing field: amountWei');
+  });
+
+  it('quotes evm token payouts in authorized micros', async () => {
+    const adapter = createEvmPayoutAdapter({
+      envPrivateKey: undefined,
+      token: { address: '0x036cbd53842c5426634e7929541ec2318f3dcf7e' }
+    });
+    const payoutAddress = '0xabcdef0000000000000000000000000000000001';
+    const context = { chainRef: 'eip155:84532', authorization, payoutAddress };
+    const request = { url: 'https://merchant.example/pay', method: 'POST' };
+    const payload = await adapter.validate({ ...request, bodyBase64: jsonBase64({ rpcUrl: 'http://rpc' }) }, context);
+    expect(await adapter.quote(payload, context)).toEqual({ recipient: payoutAddress, amount: '1000', unit: 'micros' });
+    expect(await adapter.quote({ ...payload, amountMicros: '400' }, context)).toMatchObject({ amount: '400' });
+    await expect(adapter.quote({ ...payload, amountMicros: '1001' }, context)).rejects.toThrow(
+      'evm token amountMicros exceeds authorized amount'
+    );
+    await expect(
+      adapter.validate({ ...request, bodyBase64: jsonBase64({ rpcUrl: 'http://rpc', amountMicros: '-1' }) }, context)
+    ).rejects.toThrow('evm amountMicros must be a non-negative integer string');
+    expect(() => createEvmPayoutAdapter({ envPrivateKey: undefined, token: { address: 'usdc' } })).toThrow(
+      'evm payout token address must be 0x + 40 hex chars'
+    );
+  });
+
+  it('recovers evm EIP-3009 payouts from the authorization nonce', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relayer-evm-client-'));
+    const clientModule = path.join(dir, 'client.mjs');
+    fs.writeFileSync(
+      clientModule,
+      `export async function getEvmBlockNumber() { return 42n; }
+      export async function findEvmTokenAuthorizationTransfer(request) {
+        if (request.fromBlock !== 42n) throw new Error('wrong fromBlock');
+        if (request.nonce !== '${authId}') return null;
+        return { txHash: '0x${'12'.repeat(32)}', method: 'transferWithAuthorization', token: request.token,
+          from: request.authorizer, to: '0xabcdef0000000000000000000000000000000001', value: 400n, decimals: 6, logIndex: 3 };
+      }`
+    );
+    const adapter = createEvmPayoutAdapter({
+      envPrivateKey: undefined,
+      clientModule,
+      token: {
+        address: '0x036cbd53842c5426634e7929541ec2318f3dcf7e',
+        authorizerPrivateKey: `0x${'01'.repeat(32)}`
+      }
+    });
+    const context = { chainRef: 'eip155:84532', authorization, payoutAddress: '0xabcdef0000000000000000000000000000000001' };
+    const payload = { rpcUrl: 'http://rpc', amountMicros: '400' };
+    const recovery = await adapter.prepareRecovery!(payload, await adapter.quote(payload, context), context);
+    expect(JSON.parse(JSON.stringify(recovery))).toMatchObject({ nonce: authId, fromBlock: '42', amountMicros: '400' });
+
+    const merchantResult = await adapter.recover!(recovery, context);
+    expect(merchantResult?.headers['x-executed-amount-micros']).toBe('400');
+    expect(adapter.deriveExecutionId({ authId, chainRef: context.chainRef, merchantResult: merchantResult! })).toBe(
+      `0x${'12'.repeat(32)}`
+    );
+    expect(await adapter.recover!({ ...(recovery as object), nonce: `0x${'bb'.repeat(32)}` }, context)).toBeNull();
+    expect(createEvmPayoutAdapter({ envPrivateKey: undefined }).recover).toBeUndefined();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('quotes solana spl payouts in authorized micros without lamports', async () => {
+    const adapter = createSolanaPayoutAdapter({
+      defaultComputeUnits: 1_000_000,
+      tokenMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+    });
+    const payoutAddress = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+    const context = { chainRef: 'solana:devnet', authorization: { ...authorization, chainRef: 'solana:devnet' }, payoutAddress };
+    const body = {
+      rpcUrl: 'http://rpc',
+      wsUrl: 'ws://rpc',
+      gatewayProgramId: 'gateway',
+      verifierProgramId: 'verifier',
+      stateAccount: 'state',
+      authIdHex: authId,
+      authExpiryUnix: '9999999999',
+      proofBase64: 'AA==',
+      publicWitnessBase64: 'AA==',
+      payerKeypairPath: '/tmp/payer.json'
+    };
+    const payload = await adapter.validate({ url: 'https://merchant.example/pay', method: 'POST', bodyBase64: jsonBase64(body) }, context);
+    expect(await adapter.quote(payload, context)).toEqual({ recipient: payoutAddress, amount: '1000', unit: 'micros' });
+    await expect(adapter.quote({ ...payload, amountMicros: '1001' }, context)).rejects.toThrow(
+      'solana token amountMicros exceeds authorized amount'
+    );
+    await expect(
+      createSolanaPayoutAdapter({ defaultComputeUnits: 1_000_000 }).validate(
+        { url: 'https://merchant.example/pay', method: 'POST', bodyBase64: jsonBase64(body) },
+        context
+      )
+    ).rejects.toThrow('solana merchant payload missing field: amountLamports');
+    const quote = await adapter.quote(payload, context);
+    await expect(adapter.execute(payload, quote, context)).rejects.toThrow(
+      'solana payout mode requires a chain client module'
+    );
+  });
+
+  it('loads third-party adapters from config and refuses to shadow built-ins', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relayer-payout-'));
+    const modulePath = path.join(dir, 'ledgerAdapter.mjs');
+    fs.writeFileSync(
+      modulePath,
+      `export function createPayoutAdapter(options) {
+        return {
+          mode: 'ledger',
+          requiresPayoutAddress: false,
+          async validate() { return null; },
+          async quote() { return { recipient: null, amount: null, unit: 'none' }; },
+          async execute() { return { status: 200, headers: {}, bodyBase64: '' }; },
+          deriveExecutionId(input) { return options.prefix + input.authId; }
+        };
+      }`
+    );
+
+    const external = parsePayoutAdaptersConfig(
+      JSON.stringify({ ledger: { module: modulePath, options: { prefix: 'ledger:' } } })
+    );
+    const adapters = await loadPayoutAdapters({ ...builtIns, external });
+    expect([...adapters.keys()]).toEqual(['forward', 'noop', 'evm', 'solana', 'ledger']);
+    const result = await runPayout({
+      adapter: adapters.get('ledger')!,
+      request: { url: 'https://merchant.example/pay', method: 'POST' },
+      context: { chainRef: 'eip155:84532', authorization }
+    });
+    expect(result.executionTxHash).toBe(`ledger:${authId}`);
+
+    await expect(
+      loadPayoutAdapters({ ...builtIns, external: { evm: { module: modulePath, options: {} } } })
+    ).rejects.toThrow('payout adapter evm is built in and cannot be replaced');
+    await expect(
+      loadPayoutAdapters({ ...builtIns, external: { other: { module: modulePath, options: {} } } })
+    ).rejects.toThrow('payout adapter registered as other reports mode ledger');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
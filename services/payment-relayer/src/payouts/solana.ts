@@ -0,0 +1,146 @@
+import { MERCHANT_RESPONSE_HEADERS, type Hex } from '@shielded-x402/shared-types';
+import { resolvePayoutRecipient } from '../merchantPayouts.js';
+import { decodeJsonPayload, decodeJsonResult, importClientModule, jsonMerchantResult, requireStringFields } from './common.js';
+import type { PayoutAdapter } from './types.js';
+
+export interface SolanaPayoutConfig {
+  defaultComputeUnits: number;
+  /** Built `chains/solana/client` module; required before any solana payout runs. */
+  clientModule?: string;
+  /** SPL mint paid through `PAY_AUTHORIZED_SPL` in authorization micros instead of lamports. */
+  tokenMint?: string;
+}
+
+export interface SolanaPayoutPayload {
+  rpcUrl: string;
+  wsUrl: string;
+  gatewayProgramId: string;
+  verifierProgramId: string;
+  stateAccount: string;
+  recipient?: string;
+  /** Native payouts only. */
+  amountLamports?: string;
+  /** SPL payouts only; defaults to the authorized amount. */
+  amountMicros?: string;
+  computeUnits?: string | number;
+  authIdHex: Hex;
+  authExpiryUnix: string;
+  proofBase64: string;
+  publicWitnessBase64: string;
+  payerKeypairPath: string;
+}
+
+/**
+ * Gateway `pay_authorized` to the merchant's registered `solana:*` payout address, or
+ * `pay_authorized_spl` of the authorized micros when `config.tokenMint` is set.
+ */
+export function createSolanaPayoutAdapter(config: SolanaPayoutConfig): PayoutAdapter<SolanaPayoutPayload> {
+  const tokenMint = config.tokenMint;
+  if (tokenMint !== undefined && !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(tokenMint)) {
+    throw new Error('solana payout token mint must be a base58 address');
+  }
+  return {
+    mode: 'solana',
+    requiresPayoutAddress: true,
+    async validate(request) {
+      const payload = decodeJsonPayload<SolanaPayoutPayload>(request, 'solana');
+      requireStringFields(
+        payload,
+        [
+          'rpcUrl',
+          'wsUrl',
+          'gatewayProgramId',
+          'verifierProgramId',
+          'stateAccount',
+          ...(tokenMint ? [] : (['amountLamports'] as const)),
+          'authIdHex',
+          'authExpiryUnix',
+          'proofBase64',
+          'publicWitnessBase64',
+          'payerKeypairPath'
+        ],
+        'solana'
+      );
+      const computeUnits = payload.computeUnits === undefined ? config.defaultComputeUnits : Number(payload.computeUnits);
+      if (!Number.isFinite(computeUnits) || computeUnits <= 0) {
+        throw new Error('solana computeUnits must be a positive number');
+      }
+      if (tokenMint && payload.amountMicros !== undefined && !/^[0-9]+$/.test(String(payload.amountMicros))) {
+        throw new Error('solana amountMicros must be a non-negative integer string');
+      }
+      return { ...payload, computeUnits };
+    },
+    async quote(payload, context) {
+      if (!context.payoutAddress) {
+        throw new Error('solana payout mode requires a registered merchant payout address');
+      }
+      const recipient = resolvePayoutRecipient({
+        chainRef: context.chainRef,
+        payoutAddress: context.payoutAddress,
+        payloadRecipient: payload.recipient
+      });
+      if (!tokenMint) {
+        return { recipient, amount: BigInt(payload.amountLamports ?? '0').toString(), unit: 'lamports' };
+      }
+      const authorized = BigInt(context.authorization.authorizedAmountMicros);
+      const amount = payload.amountMicros === undefined ? authorized : BigInt(payload.amountMicros);
+      if (amount > authorized) {
+        throw new Error('solana token amountMicros exceeds authorized amount');
+      }
+      return { recipient, amount: amount.toString(), unit: 'micros' };
+    },
+    async execute(payload, quote) {
+      const client = await importClientModule(config.clientModule, 'solana');
+      if (tokenMint) {
+        const result = await client.submitPayAuthorizedSpl({
+          rpcUrl: payload.rpcUrl,
+          wsUrl: payload.wsUrl,
+          gatewayProgramId: payload.gatewayProgramId,
+          verifierProgramId: payload.verifierProgramId,
+          stateAccount: payload.stateAccount,
+          recipient: quote.recipient,
+          mint: tokenMint,
+          amountMicros: BigInt(quote.amount ?? '0'),
+          computeUnits: Number(payload.computeUnits),
+          authIdHex: payload.authIdHex,
+          authExpiryUnix: BigInt(payload.authExpiryUnix),
+          proof: Uint8Array.from(Buffer.from(payload.proofBase64, 'base64')),
+          publicWitness: Uint8Array.from(Buffer.from(payload.publicWitnessBase64, 'base64')),
+          payerKeypairPath: payload.payerKeypairPath
+        });
+        const merchantResult = jsonMerchantResult({
+          txSignature: result.txSignature,
+          mint: tokenMint,
+          recipientTokenAccount: result.recipientTokenAccount,
+          amount: result.amount.toString(),
+          decimals: result.decimals
+        });
+        merchantResult.headers[MERCHANT_RESPONSE_HEADERS.executedAmountMicros] = quote.amount ?? '0';
+        return merchantResult;
+      }
+      const result = await client.submitPayAuthorized({
+        rpcUrl: payload.rpcUrl,
+        wsUrl: payload.wsUrl,
+        gatewayProgramId: payload.gatewayProgramId,
+        verifierProgramId: payload.verifierProgramId,
+        stateAccount: payload.stateAccount,
+        recipient: quote.recipient,
+        amountLamports: BigInt(quote.amount ?? '0'),
+        computeUnits: Number(payload.computeUnits),
+        authIdHex: payload.authIdHex,
+        authExpiryUnix: BigInt(payload.authExpiryUnix),
+        proof: Uint8Array.from(Buffer.from(payload.proofBase64, 'base64')),
+        publicWitness: Uint8Array.from(Buffer.from(payload.publicWitnessBase64, 'base64')),
+        payerKeypairPath: payload.payerKeypairPath
+      });
+      return jsonMerchantResult({ txSignature: result.txSignature });
+    },
+    deriveExecutionId(input) {
+      const parsed = decodeJsonResult<{ txSignature?: string }>(input.merchantResult);
+      if (typeof parsed.txSignature !== 'string' || parsed.txSignature.length === 0) {
+        throw new Error('solana adapter missing txSignature');
+      }
+      return parsed.txSignature;
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import type { AuthorizationV1, Hex, RelayPayRequestV1 } from '@shielded-x402/shared-types';
+
+export type MerchantRequest = RelayPayRequestV1['merchantRequest'];
+
+export interface MerchantResult {
+  status: number;
+  headers: Record<string, string>;
+  bodyBase64: string;
+}
+
+export interface PayoutContext {
+  chainRef: string;
+  authorization: AuthorizationV1;
+  /** Registered payout address of the authorized merchant; set for adapters that require one. */
+  payoutAddress?: string;
+}
+
+/** What an adapter is about to pay, resolved before any funds move. */
+export interface PayoutQuote {
+  /** On-chain recipient, or null when the adapter does not move funds itself. */
+  recipient: string | null;
+  /** Amount in `unit`, or null when not applicable. */
+  amount: string | null;
+  unit: string;
+}
+
+/**
+ * A payout rail selected by `RELAYER_PAYOUT_MODE`. The relayer calls `validate`, `quote` and
+ * `execute` in order, then `deriveExecutionId` on the result to get the `executionTxHash` it
+ * reports to the sequencer. Any step may throw to fail the relay before the report is signed.
+ */
+export interface PayoutAdapter<TPayload = unknown> {
+  readonly mode: string;
+  /** When true the relayer resolves `PayoutContext.payoutAddress` from the merchant registry. */
+  readonly requiresPayoutAddress: boolean;
+  validate(request: MerchantRequest, context: PayoutContext): Promise<TPayload>;
+  quote(payload: TPayload, context: PayoutContext): Promise<PayoutQuote>;
+  execute(payload: TPayload, quote: PayoutQuote, context: PayoutContext): Promise<MerchantResult>;
+  deriveExecutionId(input: { authId: Hex; chainRef: string; merchantResult: MerchantResult }): string;
+  /**
+   * Runs just before `execute`; the JSON it returns is journaled with the in-flight execution and
+   * handed to `recover` if the relayer crashes or `execute` throws. Must not contain secrets.
+   */
+  prepareRecovery?(payload: TPayload, quote: PayoutQuote, context: PayoutContext): Promise<unknown>;
+  /**
+   * Checks whether an interrupted execution paid: resolves its result, `null` when nothing was paid
+   * and the relay may run again, or throws when the outcome cannot be determined yet. Without
+   * `recover`, interrupted executions stay unresolved and retries of their `authId` are refused.
+   */
+  recover?(recovery: unknown, context: PayoutContext): Promise<MerchantResult | null>;
+}
+
+/** Export expected from a third-party adapter module listed in `RELAYER_PAYOUT_ADAPTERS_JSON`. */
+export type PayoutAdapterFactory = (
+  options: Record<string, unknown>
+) => PayoutAdapter | Promise<PayoutAdapter>;
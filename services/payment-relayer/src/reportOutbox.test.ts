@@ -0,0 +1,116 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { ExecutionReportV1 } from '@shielded-x402/shared-types';
+import { createReportOutbox } from './reportOutbox.js';
+
+function report(reportByte: string): ExecutionReportV1 {
+  return {
+    version: 2,
+    authId: `0x${'55'.repeat(32)}`,
+    chainRef: 'eip155:8453',
+    executionTxHash: `0x${'66'.repeat(32)}`,
+    status: 'SUCCESS',
+    executedAmountMicros: '1000',
+    reportId: `0x${reportByte.repeat(32)}`,
+    reportedAt: '1735689600',
+    relayerKeyId: 'relayer-key-1',
+    reportSig: `0x${'88'.repeat(64)}`
+  };
+}
+
+function scriptedFetch(statuses: Array<number | 'down'>) {
+  const posted: ExecutionReportV1[] = [];
+  const fetchImpl = (async (_url: string, init?: RequestInit) => {
+    const next = statuses.shift() ?? 200;
+    if (next === 'down') throw new Error('connect ECONNREFUSED');
+    posted.push(JSON.parse(String(init?.body)) as ExecutionReportV1);
+    return new Response(JSON.stringify(next < 400 ? { ok: true } : { error: 'nope' }), { status: next });
+  }) as typeof fetch;
+  return { fetchImpl, posted };
+}
+
+describe('report outbox', () => {
+  it('keeps reports pending across restarts and drains them with exponential backoff', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-outbox-'));
+    const outboxFile = join(dir, 'outbox.jsonl');
+    let clock = 10_000;
+    const down = scriptedFetch(['down', 503]);
+    const outbox = createReportOutbox({
+      sequencerUrl: 'http://sequencer',
+      outboxFile,
+      baseDelayMs: 100,
+      fetchImpl: down.fetchImpl,
+      now: () => clock
+    });
+
+    outbox.enqueue(report('77'));
+    expect(await outbox.deliver(report('77').reportId)).toBe('PENDING');
+    expect(outbox.depth()).toBe(1);
+
+    // First retry is due after 100ms, the second after another 200ms.
+    clock += 99;
+    expect(await outbox.drain()).toEqual({ delivered: 0, rejected: 0 });
+    clock += 1;
+    await outbox.drain();
+    expect(outbox.stats()).toMatchObject({ depth: 1, failedAttemptsTotal: 2 });
+    clock += 199;
+    await outbox.drain();
+    expect(outbox.stats().failedAttemptsTotal).toBe(2);
+
+    // A restarted relayer reloads the queued report and delivers it on its first drain.
+    const up = scriptedFetch([200]);
+    const restarted = createReportOutbox({ sequencerUrl: 'http://sequencer', outboxFile, fetchImpl: up.fetchImpl });
+    expect(restarted.depth()).toBe(1);
+    expect(await restarted.drain()).toEqual({ delivered: 1, rejected: 0 });
+    expect(up.posted).toEqual([report('77')]);
+    expect(restarted.depth()).toBe(0);
+    expect(readFileSync(outboxFile, 'utf8')).toBe('');
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reloads queued reports past a torn final line', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-outbox-'));
+    const outboxFile = join(dir, 'outbox.jsonl');
+    const outbox = createReportOutbox({ sequencerUrl: 'http://sequencer', outboxFile });
+    outbox.enqueue(report('77'));
+    appendFileSync(outboxFile, '{"op":"enqueue","report":{"authId":');
+
+    const restarted = createReportOutbox({ sequencerUrl: 'http://sequencer', outboxFile });
+    expect(restarted.depth()).toBe(1);
+    expect(readFileSync(outboxFile, 'utf8')).toBe(`${JSON.stringify({ op: 'enqueue', report: report('77') })}\n`);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports delivered reports as REPORTED and drops sequencer rejections', async () => {
+    const { fetchImpl } = scriptedFetch([200, 422]);
+    const outbox = createReportOutbox({ sequencerUrl: 'http://sequencer', fetchImpl });
+
+    outbox.enqueue(report('77'));
+    expect(await outbox.deliver(report('77').reportId)).toBe('REPORTED');
+    outbox.enqueue(report('78'));
+    expect(await outbox.deliver(report('78').reportId)).toBe('REJECTED');
+    expect(outbox.stats()).toEqual({ depth: 0, deliveredTotal: 1, rejectedTotal: 1, failedAttemptsTotal: 0 });
+  });
+
+  it('compacts the outbox file once enough settled records pile up behind a pending report', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'relayer-outbox-'));
+    const outboxFile = join(dir, 'outbox.jsonl');
+    const { fetchImpl } = scriptedFetch(['down', 200, 422]);
+    const outbox = createReportOutbox({ sequencerUrl: 'http://sequencer', outboxFile, compactThreshold: 2, fetchImpl });
+    const lines = () => readFileSync(outboxFile, 'utf8').trim().split('\n');
+
+    outbox.enqueue(report('77'));
+    expect(await outbox.deliver(report('77').reportId)).toBe('PENDING');
+    outbox.enqueue(report('78'));
+    expect(await outbox.deliver(report('78').reportId)).toBe('REPORTED');
+    expect(lines()).toHaveLength(3);
+
+    // The second settled record reaches the threshold although the queue is not empty.
+    outbox.enqueue(report('79'));
+    expect(await outbox.deliver(report('79').reportId)).toBe('REJECTED');
+    expect(lines().map((line) => JSON.parse(line) as unknown)).toEqual([{ op: 'enqueue', report: report('77') }]);
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
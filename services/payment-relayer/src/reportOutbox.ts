@@ -0,0 +1,183 @@
+import {
+  SEQUENCER_ROUTES_V1,
+  normalizeHex,
+  type ExecutionReportV1,
+  type Hex,
+  type RelayReportStatusV1
+} from '@shielded-x402/shared-types';
+import { openJsonLinesFile } from './jsonLines.js';
+
+type OutboxRecord =
+  | { op: 'enqueue'; report: ExecutionReportV1 }
+  | { op: 'delivered'; reportId: Hex }
+  | { op: 'rejected'; reportId: Hex; reason: string };
+
+interface OutboxEntry {
+  report: ExecutionReportV1;
+  attempts: number;
+  nextAttemptAt: number;
+  inFlight: boolean;
+}
+
+export interface ReportOutboxStats {
+  depth: number;
+  deliveredTotal: number;
+  rejectedTotal: number;
+  failedAttemptsTotal: number;
+}
+
+export interface ReportOutbox {
+  /** Persists a signed report before any delivery attempt. */
+  enqueue(report: ExecutionReportV1): void;
+  /**
+   * Attempts delivery now. Returns `PENDING` when the sequencer is unreachable and the report stays
+   * queued, and `REJECTED` when the sequencer refuses the report outright.
+   */
+  deliver(reportId: Hex): Promise<RelayReportStatusV1>;
+  /** Attempts every queued report whose backoff has elapsed. */
+  drain(): Promise<{ delivered: number; rejected: number }>;
+  depth(): number;
+  stats(): ReportOutboxStats;
+}
+
+class ReportRejectedError extends Error {}
+
+/** Settled (delivered or rejected) records tolerated in the outbox file before it is rewritten. */
+const DEFAULT_COMPACT_THRESHOLD = 1000;
+
+/** Sequencer answers that may succeed on retry: outages, rate limits, and not-yet-registered reporter keys. */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 401 || status === 408 || status === 429;
+}
+
+/**
+ * Durable queue of signed execution reports. Once a payout has moved money its report must reach
+ * the sequencer, so reports are written to `outboxFile` (append-only JSON lines, fsynced) before the
+ * first attempt and retried with exponential backoff until the sequencer accepts or rejects them.
+ * Sequencer report intake is idempotent per `reportId`, so redelivery after a crash is safe.
+ * The file is rewritten to the queued reports on load, whenever the queue empties, and once
+ * `compactThreshold` settled records have accumulated, so it stays bounded under a steady backlog.
+ * Without `outboxFile` the queue is in memory only.
+ */
+export function createReportOutbox(config: {
+  sequencerUrl: string;
+  outboxFile?: string;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  compactThreshold?: number;
+  fetchImpl?: typeof fetch;
+  now?: () => number;
+}): ReportOutbox {
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const now = config.now ?? Date.now;
+  const baseDelayMs = Math.max(1, config.baseDelayMs ?? 1000);
+  const maxDelayMs = Math.max(baseDelayMs, config.maxDelayMs ?? 300_000);
+  const compactThreshold = Math.max(1, config.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD);
+  const file = config.outboxFile ? openJsonLinesFile<OutboxRecord>(config.outboxFile) : undefined;
+  const entries = new Map<Hex, OutboxEntry>();
+  const stats = { deliveredTotal: 0, rejectedTotal: 0, failedAttemptsTotal: 0 };
+  let settledSinceCompact = 0;
+
+  const compact = (): void => {
+    file?.rewrite([...entries.values()].map((entry) => ({ op: 'enqueue', report: entry.report })));
+    settledSinceCompact = 0;
+  };
+
+  const settle = (record: Exclude<OutboxRecord, { op: 'enqueue' }>): void => {
+    entries.delete(record.reportId);
+    file?.append(record);
+    settledSinceCompact += 1;
+    if (entries.size === 0 || settledSinceCompact >= compactThreshold) compact();
+  };
+
+  if (file) {
+    for (const record of file.read()) {
+      if (record.op === 'enqueue') {
+        entries.set(normalizeHex(record.report.reportId), {
+          report: record.report,
+          attempts: 0,
+          nextAttemptAt: 0,
+          inFlight: false
+        });
+      } else {
+        entries.delete(normalizeHex(record.reportId));
+      }
+    }
+    compact();
+  }
+
+  const post = async (report: ExecutionReportV1): Promise<void> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${config.sequencerUrl}${SEQUENCER_ROUTES_V1.executions}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(report)
+      });
+    } catch (error) {
+      throw new Error(
+        `sequencer execution report unreachable chainRef=${report.chainRef} relayerKeyId=${report.relayerKeyId}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const message = `sequencer execution report failed (${response.status}) chainRef=${report.chainRef} relayerKeyId=${report.relayerKeyId}: ${text}`;
+      throw isRetryableStatus(response.status) ? new Error(message) : new ReportRejectedError(message);
+    }
+  };
+
+  const attempt = async (reportId: Hex, entry: OutboxEntry): Promise<RelayReportStatusV1> => {
+    entry.inFlight = true;
+    try {
+      await post(entry.report);
+      settle({ op: 'delivered', reportId });
+      stats.deliveredTotal += 1;
+      return 'REPORTED';
+    } catch (error) {
+      if (error instanceof ReportRejectedError) {
+        settle({ op: 'rejected', reportId, reason: error.message });
+        stats.rejectedTotal += 1;
+        console.warn(`[payment-relayer] execution report ${reportId} rejected:`, error.message);
+        return 'REJECTED';
+      }
+      entry.attempts += 1;
+      entry.nextAttemptAt = now() + Math.min(baseDelayMs * 2 ** (entry.attempts - 1), maxDelayMs);
+      stats.failedAttemptsTotal += 1;
+      console.warn(
+        `[payment-relayer] execution report ${reportId} pending (attempt ${entry.attempts}):`,
+        error instanceof Error ? error.message : error
+      );
+      return 'PENDING';
+    } finally {
+      entry.inFlight = false;
+    }
+  };
+
+  return {
+    enqueue(report) {
+      const reportId = normalizeHex(report.reportId);
+      if (entries.has(reportId)) return;
+      file?.append({ op: 'enqueue', report });
+      entries.set(reportId, { report, attempts: 0, nextAttemptAt: 0, inFlight: false });
+    },
+    async deliver(reportId) {
+      const entry = entries.get(normalizeHex(reportId));
+      if (!entry) return 'REPORTED';
+      if (entry.inFlight) return 'PENDING';
+      return attempt(normalizeHex(reportId), entry);
+    },
+    async drain() {
+      let delivered = 0;
+      let rejected = 0;
+      for (const [reportId, entry] of [...entries]) {
+        if (entry.inFlight || entry.nextAttemptAt > now()) continue;
+        const status = await attempt(reportId, entry);
+        if (status === 'REPORTED') delivered += 1;
+        else if (status === 'REJECTED') rejected += 1;
+      }
+      return { delivered, rejected };
+    },
+    depth: () => entries.size,
+    stats: () => ({ depth: entries.size, ...stats })
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { createHash, createPublicKey, sign } from 'node:crypto';
+import {
+  canonicalAuthorizationBytes,
+  hashSequencerKeySet,
+  type AuthorizationV1,
+  type Hex,
+  type SequencerKeySetV1
+} from '@shielded-x402/shared-types';
+import { createEd25519PrivateKeyFromSeed } from './crypto.js';
+import { createSequencerKeyStore } from './sequencerKeys.js';
+
+function keyPair(byte: number) {
+  const privateKey = createEd25519PrivateKeyFromSeed(Uint8Array.from(Buffer.alloc(32, byte)));
+  const spki = createPublicKey(privateKey).export({ format: 'der', type: 'spki' });
+  return { privateKey, publicKey: `0x${Buffer.from(spki).subarray(-32).toString('hex')}` as Hex };
+}
+
+const previous = keyPair(1);
+const current = keyPair(2);
+
+const keySet: SequencerKeySetV1 = {
+  version: 1,
+  currentKeyId: 'seq-key-2',
+  issuedAt: '2000',
+  keys: [
+    { keyId: 'seq-key-1', publicKey: previous.publicKey, activatesAt: '0', retiresAt: '1500' },
+    { keyId: 'seq-key-2', publicKey: current.publicKey, activatesAt: '1000', retiresAt: null }
+  ]
+};
+
+function signedKeySet(signer: ReturnType<typeof keyPair>, signerKeyId: string) {
+  return {
+    keySet,
+    signerKeyId,
+    signature: `0x${sign(null, Buffer.from(hashSequencerKeySet(keySet).slice(2), 'hex'), signer.privateKey).toString('hex')}`
+  };
+}
+
+function signedAuthorization(input: { sequencerKeyId: string; issuedAt: string; signer: ReturnType<typeof keyPair> }) {
+  const authorization: AuthorizationV1 = {
+    version: 1,
+    intentId: `0x${'11'.repeat(32)}`,
+    authId: `0x${'22'.repeat(32)}`,
+    authorizedAmountMicros: '1000',
+    agentId: `0x${'33'.repeat(32)}`,
+    agentNonce: '1',
+    merchantId: `0x${'44'.repeat(32)}`,
+    chainRef: 'solana:devnet',
+    issuedAt: input.issuedAt,
+    expiresAt: '9999999999',
+    sequencerEpochHint: '1',
+    logSeqNo: '1',
+    sequencerKeyId: input.sequencerKeyId
+  };
+  const digest = createHash('sha256').update(canonicalAuthorizationBytes(authorization)).digest();
+  return {
+    authorization,
+    sequencerSig: `0x${sign(null, digest, input.signer.privateKey).toString('hex')}` as Hex
+  };
+}
+
+function jsonFetch(body: unknown): { fetchImpl: typeof fetch; calls: () => number } {
+  let calls = 0;
+  const fetchImpl = (async () => {
+    calls += 1;
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    });
+  }) as typeof fetch;
+  return { fetchImpl, calls: () => calls };
+}
+
+describe('sequencer key store', () => {
+  it('refreshes the key set when an authorization uses an unknown key', async () => {
+    const { fetchImpl, calls } = jsonFetch(signedKeySet(previous, 'seq-key-1'));
+    const store = createSequencerKeyStore({
+      sequencerUrl: 'http://sequencer.test',
+      pinnedKeys: { 'seq-key-1': previous.publicKey },
+      fetchImpl
+    });
+
+    await store.verify(signedAuthorization({ sequencerKeyId: 'seq-key-2', issuedAt: '2000', signer: current }));
+    expect(calls()).toBe(1);
+    expect(store.knownKeyIds().sort()).toEqual(['seq-key-1', 'seq-key-2']);
+  });
+
+  it('rejects authorizations issued outside the key activation window', async () => {
+    const { fetchImpl } = jsonFetch(signedKeySet(previous, 'seq-key-1'));
+    const store = createSequencerKeyStore({
+      sequencerUrl: 'http://sequencer.test',
+      pinnedKeys: { 'seq-key-1': previous.publicKey },
+      fetchImpl
+    });
+    await store.refresh();
+
+    await expect(
+      store.verify(signedAuthorization({ sequencerKeyId: 'seq-key-1', issuedAt: '1600', signer: previous }))
+    ).rejects.toThrow('sequencer key seq-key-1 not valid at authorization issuedAt');
+  });
+
+  it('ignores key sets signed by keys it does not trust', async () => {
+    const { fetchImpl } = jsonFetch(signedKeySet(current, 'seq-key-2'));
+    const store = createSequencerKeyStore({
+      sequencerUrl: 'http://sequencer.test',
+      pinnedKeys: { 'seq-key-1': previous.publicKey },
+      fetchImpl
+    });
+
+    await expect(store.refresh()).rejects.toThrow('untrusted key');
+    await expect(
+      store.verify(signedAuthorization({ sequencerKeyId: 'seq-key-2', issuedAt: '2000', signer: current }))
+    ).rejects.toThrow('unknown sequencer_key_id: seq-key-2');
+  });
+});
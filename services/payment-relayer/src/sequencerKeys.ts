@@ -0,0 +1,106 @@
+import {
+  SEQUENCER_ROUTES_V1,
+  isSequencerKeyValidAt,
+  verifyMerchantRecordSignature,
+  verifySequencerKeySet,
+  type AuthorizationV1,
+  type Hex,
+  type SequencerKeyV1,
+  type SignedMerchantRecordV1,
+  type SignedSequencerKeySetV1
+} from '@shielded-x402/shared-types';
+import { verifySequencerSignature } from './crypto.js';
+
+export interface SequencerKeyStore {
+  knownKeyIds(): string[];
+  refresh(): Promise<void>;
+  verify(input: { authorization: AuthorizationV1; sequencerSig: Hex }): Promise<void>;
+  /** Checks a merchant record's signature before its payout addresses are trusted. */
+  verifyMerchantRecord(signed: SignedMerchantRecordV1): Promise<void>;
+}
+
+/**
+ * Tracks the sequencer's published key set. Keys pinned through `RELAYER_SEQUENCER_KEYS_JSON`
+ * are the trust anchor; a fetched set is adopted only if it is signed by a pinned key or by a
+ * key from a previously adopted set, so a rotation propagates without redeploying relayers.
+ */
+export function createSequencerKeyStore(config: {
+  sequencerUrl: string;
+  pinnedKeys: Record<string, Hex>;
+  fetchImpl?: typeof fetch;
+  minRefreshIntervalMs?: number;
+}): SequencerKeyStore {
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const minRefreshIntervalMs = config.minRefreshIntervalMs ?? 10_000;
+  let published = new Map<string, SequencerKeyV1>();
+  let lastIssuedAt = -1n;
+  let lastRefreshAt = 0;
+
+  const keyMap = (): Record<string, Hex> => {
+    const out: Record<string, Hex> = { ...config.pinnedKeys };
+    for (const key of published.values()) {
+      out[key.keyId] = key.publicKey;
+    }
+    return out;
+  };
+
+  const refresh = async (): Promise<void> => {
+    lastRefreshAt = Date.now();
+    const response = await fetchImpl(`${config.sequencerUrl}${SEQUENCER_ROUTES_V1.keys}`, {
+      method: 'GET'
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`sequencer key set fetch failed (${response.status}): ${text}`);
+    }
+    const signed = (await response.json()) as SignedSequencerKeySetV1;
+    const keys = verifySequencerKeySet({ signed, trustedKeys: keyMap() });
+    const issuedAt = BigInt(signed.keySet.issuedAt);
+    if (issuedAt < lastIssuedAt) {
+      throw new Error('sequencer key set is older than the one already adopted');
+    }
+    lastIssuedAt = issuedAt;
+    published = new Map(keys.map((key) => [key.keyId, key]));
+  };
+
+  const refreshIfUnknown = async (keyId: string): Promise<void> => {
+    if (!keyMap()[keyId] && Date.now() - lastRefreshAt >= minRefreshIntervalMs) {
+      await refresh().catch((error) => {
+        console.warn('[payment-relayer] sequencer key refresh failed', error);
+      });
+    }
+  };
+
+  return {
+    knownKeyIds: () => Object.keys(keyMap()),
+    refresh,
+    async verify(input) {
+      const keyId = input.authorization.sequencerKeyId;
+      await refreshIfUnknown(keyId);
+      verifySequencerSignature({
+        authorization: input.authorization,
+        sequencerSig: input.sequencerSig,
+        keyMap: keyMap()
+      });
+      const publishedKey = published.get(keyId);
+      if (publishedKey && !isSequencerKeyValidAt(publishedKey, BigInt(input.authorization.issuedAt))) {
+        throw new Error(`sequencer key ${keyId} not valid at authorization issuedAt`);
+      }
+    },
+    async verifyMerchantRecord(signed) {
+      const keyId = signed.sequencerKeyId;
+      await refreshIfUnknown(keyId);
+      const publicKey = keyMap()[keyId];
+      if (!publicKey) {
+        throw new Error(`unknown sequencer_key_id: ${keyId}`);
+      }
+      if (!verifyMerchantRecordSignature({ signed, publicKey })) {
+        throw new Error('invalid sequencer signature on merchant record');
+      }
+      const publishedKey = published.get(keyId);
+      if (publishedKey && !isSequencerKeyValidAt(publishedKey, BigInt(signed.issuedAt))) {
+        throw new Error(`sequencer key ${keyId} not valid at merchant record issuedAt`);
+      }
+    }
+  };
+}
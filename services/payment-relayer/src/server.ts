@@ -1,44 +1,56 @@
-import dns from 'node:dns/promises';
 import express from 'express';
 import {
   RELAYER_ROUTES_V1,
-  SEQUENCER_ROUTES_V1,
-  type ExecutionReportV1,
+  type AuthorizationV1,
   type Hex,
   type RelayPayRequestV1,
-  type RelayPayResponseV1
+  type RelayPayResponseV1,
+  type RelayReportStatusV1
 } from '@shielded-x402/shared-types';
 import { normalizeHex } from '@shielded-x402/shared-types';
-import { deriveExecutionTxHash, isPrivateIp, isRelayCallerAuthorized } from './lib.js';
+import { isRelayCallerAuthorized, resolveExecutedAmountMicros } from './lib.js';
 import { parseRelayPayRequest } from './validation.js';
 import {
   createEd25519PrivateKeyFromSeed,
   createExecutionReport,
   parsePrivateSeed,
-  parseSequencerKeyMap,
-  verifySequencerSignature
+  parseSequencerKeyMap
 } from './crypto.js';
+import { createSequencerKeyStore } from './sequencerKeys.js';
+import { createDisputeResponder } from './disputes.js';
+import { createMerchantPayoutResolver } from './merchantPayouts.js';
+import { createExecutionJournal } from './executionJournal.js';
+import { createReportOutbox } from './reportOutbox.js';
+import {
+  isValidEvmPrivateKey,
+  keyPreview,
+  loadPayoutAdapters,
+  parsePayoutAdaptersConfig,
+  runPayout,
+  sanitizeEvmPrivateKey,
+  type MerchantResult
+} from './payouts/index.js';
 
 const ZERO_HASH = (`0x${'00'.repeat(32)}` as Hex);
 
 interface RelayMetrics {
   relayPayRequestsTotal: number;
   relayPayFailuresTotal: number;
-  sequencerReportRetriesTotal: number;
+  relayPayReplaysTotal: number;
+  executionsRecoveredTotal: number;
+  disputeEvidenceSubmittedTotal: number;
   startedAtSeconds: number;
 }
 
 const metrics: RelayMetrics = {
   relayPayRequestsTotal: 0,
   relayPayFailuresTotal: 0,
-  sequencerReportRetriesTotal: 0,
+  relayPayReplaysTotal: 0,
+  executionsRecoveredTotal: 0,
+  disputeEvidenceSubmittedTotal: 0,
   startedAtSeconds: Math.floor(Date.now() / 1000)
 };
 
-async function runtimeImport(moduleName: string): Promise<any> {
-  return import(moduleName);
-}
-
 function nowSeconds(): bigint {
   return BigInt(Math.floor(Date.now() / 1000));
 }
@@ -54,24 +66,6 @@ function formatFailureReason(error: unknown): string {
   return String(error);
 }
 
-function sanitizeEvmPrivateKey(raw: string | undefined): string | undefined {
-  if (!raw) return undefined;
-  const trimmed = raw.trim().replace(/^['"]|['"]$/g, '').trim();
-  return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function isValidEvmPrivateKey(raw: string | undefined): boolean {
-  const sanitized = sanitizeEvmPrivateKey(raw);
-  if (!sanitized) return false;
-  return /^0x[0-9a-fA-F]{64}$/.test(sanitized);
-}
-
-function keyPreview(value: string | undefined): string {
-  if (!value) return 'none';
-  if (value.length <= 12) return value;
-  return `${value.slice(0, 6)}...${value.slice(-4)}`;
-}
-
 function parseStaticHeaders(raw: string | undefined): Record<string, string> {
   if (!raw) return {};
   const parsed = JSON.parse(raw) as unknown;
@@ -95,278 +89,6 @@ function parseAllowedHosts(raw: string | undefined): Set<string> {
   );
 }
 
-async function assertSafeMerchantUrl(urlRaw: string, allowedHosts: Set<string>): Promise<void> {
-  const parsed = new URL(urlRaw);
-  if (parsed.protocol.toLowerCase() !== 'https:') {
-    throw new Error('merchant URL must use https');
-  }
-  const host = parsed.hostname.toLowerCase();
-  if (host === 'localhost' || host.endsWith('.local')) {
-    throw new Error('merchant URL hostname is not allowed');
-  }
-  if (allowedHosts.size > 0 && !allowedHosts.has(host)) {
-    throw new Error('merchant hostname not in allowlist');
-  }
-
-  const resolved = await dns.lookup(host, { all: true });
-  if (resolved.length === 0) {
-    throw new Error('merchant hostname failed DNS resolution');
-  }
-  for (const entry of resolved) {
-    if (isPrivateIp(entry.address)) {
-      throw new Error('merchant hostname resolves to private/internal IP');
-    }
-  }
-}
-
-async function readLimitedBody(response: Response, maxBytes: number): Promise<Uint8Array> {
-  if (!response.body) {
-    return new Uint8Array();
-  }
-  const reader = response.body.getReader();
-  const chunks: Uint8Array[] = [];
-  let total = 0;
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    if (!value) continue;
-    total += value.byteLength;
-    if (total > maxBytes) {
-      throw new Error('merchant response exceeded max allowed size');
-    }
-    chunks.push(value);
-  }
-  const output = new Uint8Array(total);
-  let offset = 0;
-  for (const chunk of chunks) {
-    output.set(chunk, offset);
-    offset += chunk.byteLength;
-  }
-  return output;
-}
-
-async function executeMerchantRequest(input: {
-  request: RelayPayRequestV1['merchantRequest'];
-  staticHeaders: Record<string, string>;
-  payoutMode: 'forward' | 'noop' | 'solana' | 'evm';
-  allowedHosts: Set<string>;
-  timeoutMs: number;
-  maxResponseBytes: number;
-}): Promise<{ status: number; headers: Record<string, string>; bodyBase64: string }> {
-  if (input.payoutMode === 'noop') {
-    const payload = Buffer.from(JSON.stringify({ ok: true, mode: 'noop' }));
-    return {
-      status: 200,
-      headers: { 'content-type': 'application/json' },
-      bodyBase64: payload.toString('base64')
-    };
-  }
-
-  if (input.payoutMode === 'solana') {
-    if (!input.request.bodyBase64) {
-      throw new Error('solana payout mode requires merchantRequest.bodyBase64 payload');
-    }
-    const payload = JSON.parse(Buffer.from(input.request.bodyBase64, 'base64').toString('utf8')) as {
-      rpcUrl: string;
-      wsUrl: string;
-      gatewayProgramId: string;
-      verifierProgramId: string;
-      stateAccount: string;
-      recipient: string;
-      amountLamports: string;
-      computeUnits?: string | number;
-      authIdHex: Hex;
-      authExpiryUnix: string;
-      proofBase64: string;
-      publicWitnessBase64: string;
-      payerKeypairPath: string;
-    };
-    const required = [
-      'rpcUrl',
-      'wsUrl',
-      'gatewayProgramId',
-      'verifierProgramId',
-      'stateAccount',
-      'recipient',
-      'amountLamports',
-      'authIdHex',
-      'authExpiryUnix',
-      'proofBase64',
-      'publicWitnessBase64',
-      'payerKeypairPath'
-    ] as const;
-    for (const field of required) {
-      const value = payload[field];
-      if (typeof value !== 'string' || value.trim().length === 0) {
-        throw new Error(`solana merchant payload missing field: ${field}`);
-      }
-    }
-
-    const computeUnits =
-      payload.computeUnits === undefined
-        ? Number(process.env.SOLANA_COMPUTE_UNITS_LIMIT ?? 1_000_000)
-        : Number(payload.computeUnits);
-    if (!Number.isFinite(computeUnits) || computeUnits <= 0) {
-      throw new Error('solana computeUnits must be a positive number');
-    }
-
-    const adapterModule = await runtimeImport('../../../chains/solana/client/adapter.ts');
-    const result = await adapterModule.submitPayAuthorized({
-      rpcUrl: payload.rpcUrl,
-      wsUrl: payload.wsUrl,
-      gatewayProgramId: payload.gatewayProgramId,
-      verifierProgramId: payload.verifierProgramId,
-      stateAccount: payload.stateAccount,
-      recipient: payload.recipient,
-      amountLamports: BigInt(payload.amountLamports),
-      computeUnits,
-      authIdHex: payload.authIdHex,
-      authExpiryUnix: BigInt(payload.authExpiryUnix),
-      proof: Uint8Array.from(Buffer.from(payload.proofBase64, 'base64')),
-      publicWitness: Uint8Array.from(Buffer.from(payload.publicWitnessBase64, 'base64')),
-      payerKeypairPath: payload.payerKeypairPath
-    });
-
-    const responseBody = Buffer.from(JSON.stringify({ txSignature: result.txSignature }));
-    return {
-      status: 200,
-      headers: { 'content-type': 'application/json' },
-      bodyBase64: responseBody.toString('base64')
-    };
-  }
-
-  if (input.payoutMode === 'evm') {
-    if (!input.request.bodyBase64) {
-      throw new Error('evm payout mode requires merchantRequest.bodyBase64 payload');
-    }
-    const payload = JSON.parse(Buffer.from(input.request.bodyBase64, 'base64').toString('utf8')) as {
-      rpcUrl: string;
-      recipient: string;
-      amountWei: string;
-      chainId?: string | number;
-      privateKey?: string;
-    };
-    const required = ['rpcUrl', 'recipient', 'amountWei'] as const;
-    for (const field of required) {
-      const value = payload[field];
-      if (typeof value !== 'string' || value.trim().length === 0) {
-        throw new Error(`evm merchant payload missing field: ${field}`);
-      }
-    }
-
-    const payloadPrivateKey = sanitizeEvmPrivateKey(payload.privateKey);
-    const envPrivateKey = sanitizeEvmPrivateKey(process.env.RELAYER_EVM_PRIVATE_KEY);
-    const payloadKeyValid = isValidEvmPrivateKey(payload.privateKey);
-    const envKeyValid = isValidEvmPrivateKey(process.env.RELAYER_EVM_PRIVATE_KEY);
-
-    let privateKey: string | undefined;
-    let keySource: 'payload' | 'env' | 'none' = 'none';
-    if (payloadPrivateKey && payloadKeyValid) {
-      privateKey = payloadPrivateKey;
-      keySource = 'payload';
-    } else if (envPrivateKey && envKeyValid) {
-      privateKey = envPrivateKey;
-      keySource = 'env';
-    }
-
-    if (!privateKey) {
-      throw new Error(
-        `evm private key unavailable/invalid (payloadValid=${payloadKeyValid} payloadLen=${payloadPrivateKey?.length ?? 0} payloadPreview=${keyPreview(payloadPrivateKey)} envValid=${envKeyValid} envLen=${envPrivateKey?.length ?? 0} envPreview=${keyPreview(envPrivateKey)})`
-      );
-    }
-
-    const chainId =
-      payload.chainId === undefined ? undefined : Number(typeof payload.chainId === 'string' ? payload.chainId.trim() : payload.chainId);
-    if (chainId !== undefined && (!Number.isInteger(chainId) || chainId <= 0)) {
-      throw new Error('evm chainId must be a positive integer');
-    }
-
-    const adapterModule = await runtimeImport('../../../chains/base/client/adapter.ts');
-    let result: { txHash: string };
-    try {
-      result = await adapterModule.submitEvmNativeTransfer({
-        rpcUrl: payload.rpcUrl,
-        privateKey,
-        recipient: payload.recipient,
-        amountWei: BigInt(payload.amountWei),
-        chainId
-      });
-    } catch (error) {
-      const reason = error instanceof Error ? error.message : String(error);
-      throw new Error(
-        `evm transfer failed (keySource=${keySource} keyLen=${privateKey.length} keyPreview=${keyPreview(privateKey)} chainId=${chainId ?? 'none'} rpcUrl=${payload.rpcUrl}): ${reason}`
-      );
-    }
-
-    const responseBody = Buffer.from(JSON.stringify({ txHash: result.txHash }));
-    return {
-      status: 200,
-      headers: { 'content-type': 'application/json' },
-      bodyBase64: responseBody.toString('base64')
-    };
-  }
-
-  await assertSafeMerchantUrl(input.request.url, input.allowedHosts);
-
-  const method = input.request.method.toUpperCase();
-  if (method.length === 0) {
-    throw new Error('merchantRequest.method is required');
-  }
-  const unsafeHeaderKeys = new Set(['host', 'connection', 'content-length']);
-  const sanitizedHeaders: Record<string, string> = {};
-  for (const [key, value] of Object.entries(input.request.headers ?? {})) {
-    const normalized = key.trim().toLowerCase();
-    if (unsafeHeaderKeys.has(normalized)) continue;
-    sanitizedHeaders[normalized] = value;
-  }
-  for (const [key, value] of Object.entries(input.staticHeaders)) {
-    sanitizedHeaders[key.toLowerCase()] = value;
-  }
-
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort('merchant request timeout'), input.timeoutMs);
-  try {
-    const init: RequestInit = {
-      method,
-      headers: sanitizedHeaders,
-      signal: controller.signal
-    };
-    if (method !== 'GET' && method !== 'HEAD' && input.request.bodyBase64) {
-      init.body = Buffer.from(input.request.bodyBase64, 'base64');
-    }
-    const response = await fetch(input.request.url, init);
-    const body = await readLimitedBody(response, input.maxResponseBytes);
-    const responseHeaders: Record<string, string> = {};
-    response.headers.forEach((value, key) => {
-      responseHeaders[key] = value;
-    });
-    return {
-      status: response.status,
-      headers: responseHeaders,
-      bodyBase64: Buffer.from(body).toString('base64')
-    };
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-async function reportExecution(input: {
-  sequencerUrl: string;
-  report: ExecutionReportV1;
-}): Promise<void> {
-  const response = await fetch(`${input.sequencerUrl}${SEQUENCER_ROUTES_V1.executions}`, {
-    method: 'POST',
-    headers: { 'content-type': 'application/json' },
-    body: JSON.stringify(input.report)
-  });
-  if (!response.ok) {
-    const text = await response.text().catch(() => '');
-    throw new Error(
-      `sequencer execution report failed (${response.status}) chainRef=${input.report.chainRef} relayerKeyId=${input.report.relayerKeyId}: ${text}`
-    );
-  }
-}
-
 function createRateLimiter(maxPerMinute: number): express.RequestHandler {
   const counters = new Map<string, { count: number; resetAt: number }>();
   return (req, res, next) => {
@@ -395,13 +117,10 @@ async function main(): Promise<void> {
   const port = Number(process.env.RELAYER_PORT ?? '3100');
   const chainRef = process.env.RELAYER_CHAIN_REF;
   const sequencerUrl = process.env.RELAYER_SEQUENCER_URL;
-  const payoutMode = (process.env.RELAYER_PAYOUT_MODE ?? 'forward') as
-    | 'forward'
-    | 'noop'
-    | 'solana'
-    | 'evm';
+  const payoutMode = process.env.RELAYER_PAYOUT_MODE ?? 'forward';
   const staticHeaders = parseStaticHeaders(process.env.RELAYER_PAYOUT_HEADERS_JSON);
   const sequencerKeyMap = parseSequencerKeyMap(process.env.RELAYER_SEQUENCER_KEYS_JSON);
+  const sequencerKeysRefreshSeconds = Number(process.env.RELAYER_SEQUENCER_KEYS_REFRESH_SECONDS ?? '300');
   const relayerKeyId = process.env.RELAYER_KEY_ID ?? 'relayer-key-1';
   const relayerPrivateKey = createEd25519PrivateKeyFromSeed(
     parsePrivateSeed(process.env.RELAYER_REPORTING_PRIVATE_KEY)
@@ -411,31 +130,223 @@ async function main(): Promise<void> {
   const maxResponseBytes = Number(process.env.RELAYER_MAX_RESPONSE_BYTES ?? '1048576');
   const rateLimitPerMinute = Number(process.env.RELAYER_RATE_LIMIT_PER_MINUTE ?? '180');
   const callerAuthToken = process.env.RELAYER_CALLER_AUTH_TOKEN;
+  const evidenceFile = process.env.RELAYER_EVIDENCE_FILE;
+  const reportOutboxFile = process.env.RELAYER_REPORT_OUTBOX_FILE;
+  const executionJournalFile = process.env.RELAYER_EXECUTION_JOURNAL_FILE;
+  const reportRetryBaseMs = Number(process.env.RELAYER_REPORT_RETRY_BASE_MS ?? '1000');
+  const reportRetryMaxMs = Number(process.env.RELAYER_REPORT_RETRY_MAX_MS ?? '300000');
+  const reportOutboxCompactThreshold = Number(process.env.RELAYER_REPORT_OUTBOX_COMPACT_THRESHOLD ?? '1000');
+  const executionJournalCompactThreshold = Number(process.env.RELAYER_EXECUTION_JOURNAL_COMPACT_THRESHOLD ?? '1000');
+  const disputePollSeconds = Number(process.env.RELAYER_DISPUTE_POLL_SECONDS ?? '60');
+  const merchantCacheSeconds = Number(process.env.RELAYER_MERCHANT_CACHE_SECONDS ?? '60');
   const evmPrivateKeyValid = isValidEvmPrivateKey(process.env.RELAYER_EVM_PRIVATE_KEY);
   const evmPrivateKeySanitized = sanitizeEvmPrivateKey(process.env.RELAYER_EVM_PRIVATE_KEY);
 
   if (!chainRef) throw new Error('RELAYER_CHAIN_REF is required');
   if (!sequencerUrl) throw new Error('RELAYER_SEQUENCER_URL is required');
-  if (
-    payoutMode !== 'forward' &&
-    payoutMode !== 'noop' &&
-    payoutMode !== 'solana' &&
-    payoutMode !== 'evm'
-  ) {
-    throw new Error('RELAYER_PAYOUT_MODE must be forward|noop|solana|evm');
+  const payoutAdapters = await loadPayoutAdapters({
+    forward: { staticHeaders, allowedHosts, timeoutMs, maxResponseBytes },
+    evm: {
+      envPrivateKey: process.env.RELAYER_EVM_PRIVATE_KEY,
+      ...(process.env.RELAYER_EVM_CLIENT_MODULE ? { clientModule: process.env.RELAYER_EVM_CLIENT_MODULE } : {}),
+      ...(process.env.RELAYER_EVM_TOKEN_ADDRESS
+        ? {
+            token: {
+              address: process.env.RELAYER_EVM_TOKEN_ADDRESS.trim(),
+              ...(process.env.RELAYER_EVM_TOKEN_FROM ? { from: process.env.RELAYER_EVM_TOKEN_FROM.trim() } : {}),
+              ...(process.env.RELAYER_EVM_TOKEN_AUTHORIZER_PRIVATE_KEY
+                ? { authorizerPrivateKey: process.env.RELAYER_EVM_TOKEN_AUTHORIZER_PRIVATE_KEY }
+                : {})
+            }
+          }
+        : {})
+    },
+    solana: {
+      defaultComputeUnits: Number(process.env.SOLANA_COMPUTE_UNITS_LIMIT ?? 1_000_000),
+      ...(process.env.RELAYER_SOLANA_CLIENT_MODULE ? { clientModule: process.env.RELAYER_SOLANA_CLIENT_MODULE } : {}),
+      ...(process.env.RELAYER_SOLANA_TOKEN_MINT ? { tokenMint: process.env.RELAYER_SOLANA_TOKEN_MINT.trim() } : {})
+    },
+    external: parsePayoutAdaptersConfig(process.env.RELAYER_PAYOUT_ADAPTERS_JSON)
+  });
+  const payoutAdapter = payoutAdapters.get(payoutMode);
+  if (!payoutAdapter) {
+    throw new Error(`RELAYER_PAYOUT_MODE must be one of ${[...payoutAdapters.keys()].join('|')}`);
   }
   if (payoutMode === 'evm' && !evmPrivateKeyValid) {
     throw new Error('RELAYER_EVM_PRIVATE_KEY missing or invalid for evm payout mode');
   }
+  if (payoutMode === 'evm' && !process.env.RELAYER_EVM_CLIENT_MODULE) {
+    throw new Error('RELAYER_EVM_CLIENT_MODULE is required for evm payout mode');
+  }
+  if (payoutMode === 'solana' && !process.env.RELAYER_SOLANA_CLIENT_MODULE) {
+    throw new Error('RELAYER_SOLANA_CLIENT_MODULE is required for solana payout mode');
+  }
   app.use(createRateLimiter(Math.max(rateLimitPerMinute, 1)));
 
+  const sequencerKeys = createSequencerKeyStore({
+    sequencerUrl,
+    pinnedKeys: sequencerKeyMap
+  });
+  const refreshSequencerKeys = (): void => {
+    sequencerKeys.refresh().catch((error) => {
+      console.warn('[payment-relayer] sequencer key refresh failed', error);
+    });
+  };
+  refreshSequencerKeys();
+  const sequencerKeysInterval = setInterval(
+    refreshSequencerKeys,
+    Math.max(1, sequencerKeysRefreshSeconds) * 1000
+  );
+
+  const merchantPayouts = createMerchantPayoutResolver({
+    sequencerUrl,
+    sequencerKeys,
+    cacheTtlMs: Math.max(0, merchantCacheSeconds) * 1000
+  });
+
+  const disputes = createDisputeResponder({
+    sequencerUrl,
+    chainRef,
+    relayerKeyId,
+    privateKey: relayerPrivateKey,
+    ...(evidenceFile ? { evidenceFile } : {})
+  });
+  const reportOutbox = createReportOutbox({
+    sequencerUrl,
+    baseDelayMs: reportRetryBaseMs,
+    maxDelayMs: reportRetryMaxMs,
+    compactThreshold: reportOutboxCompactThreshold,
+    ...(reportOutboxFile ? { outboxFile: reportOutboxFile } : {})
+  });
+  let reportOutboxDraining = false;
+  const reportOutboxInterval = setInterval(() => {
+    if (reportOutboxDraining || reportOutbox.depth() === 0) return;
+    reportOutboxDraining = true;
+    reportOutbox
+      .drain()
+      .catch((error) => {
+        console.warn('[payment-relayer] report outbox drain failed', error);
+      })
+      .finally(() => {
+        reportOutboxDraining = false;
+      });
+  }, 1000);
+
+  const disputeInterval = setInterval(() => {
+    disputes
+      .poll()
+      .then((result) => {
+        metrics.disputeEvidenceSubmittedTotal += result.submitted;
+      })
+      .catch((error) => {
+        console.warn('[payment-relayer] dispute poll failed', error);
+      });
+  }, Math.max(1, disputePollSeconds) * 1000);
+
+  const journal = createExecutionJournal({
+    ...(executionJournalFile ? { journalFile: executionJournalFile } : {}),
+    compactThreshold: executionJournalCompactThreshold
+  });
+
+  /**
+   * Signs and queues the execution report for a payout that has run, and journals the response so
+   * retries of the same `authId` replay it instead of paying again.
+   */
+  const settleExecution = async (input: {
+    authorization: AuthorizationV1;
+    merchantResult: MerchantResult;
+    executionTxHash: string;
+  }): Promise<{ httpStatus: number; response: RelayPayResponseV1 }> => {
+    const { authorization, merchantResult, executionTxHash } = input;
+    const authId = normalizeHex(authorization.authId);
+    const executed = merchantResult.status < 400;
+    // The outcome below is final once journaled, so it depends on the payout alone; a report that
+    // cannot reach the sequencer only changes reportStatus.
+    let reportStatus: RelayReportStatusV1 = 'REJECTED';
+    try {
+      const report = createExecutionReport({
+        authId,
+        chainRef,
+        executionTxHash,
+        status: executed ? 'SUCCESS' : 'FAILED',
+        executedAmountMicros: resolveExecutedAmountMicros({
+          authorizedAmountMicros: authorization.authorizedAmountMicros,
+          merchantResult
+        }),
+        relayerKeyId,
+        privateKey: relayerPrivateKey
+      });
+
+      // Money may already have moved: persist the report first so a sequencer outage cannot lose it.
+      reportOutbox.enqueue(report);
+      reportStatus = await reportOutbox.deliver(report.reportId);
+      if (reportStatus !== 'REJECTED') disputes.record({ report, merchantResult });
+    } catch (error) {
+      console.error(`[payment-relayer] execution report for ${authId} not queued`, formatFailureReason(error));
+    }
+
+    const response: RelayPayResponseV1 = {
+      executionTxHash,
+      authId,
+      status: executed ? 'DONE' : 'FAILED',
+      reportStatus,
+      ...(executed ? { merchantResult } : { failureReason: `merchant status ${merchantResult.status}` })
+    };
+    const httpStatus = executed ? 200 : 422;
+    journal.complete(authId, { httpStatus, response, expiresAt: authorization.expiresAt });
+    return { httpStatus, response };
+  };
+
+  /**
+   * Resolves an execution that started but never completed, after a crash or a thrown payout.
+   * Returns the settled response when the payout landed on chain and null when it never paid
+   * (the journal entry is cleared so the relay can run again); throws when the outcome is unknown.
+   */
+  const recoverExecution = async (
+    authId: Hex
+  ): Promise<{ httpStatus: number; response: RelayPayResponseV1 } | null> => {
+    const entry = journal.get(authId);
+    if (entry?.state !== 'STARTED') return null;
+    if (!payoutAdapter.recover) {
+      throw new Error(
+        `execution outcome unknown for authId ${authId}: payout mode ${payoutMode} cannot check chain state`
+      );
+    }
+    const context = { chainRef, authorization: entry.authorization };
+    const merchantResult = await payoutAdapter.recover(entry.recovery, context);
+    if (!merchantResult) {
+      journal.clear(authId);
+      return null;
+    }
+    metrics.executionsRecoveredTotal += 1;
+    return settleExecution({
+      authorization: entry.authorization,
+      merchantResult,
+      executionTxHash: payoutAdapter.deriveExecutionId({ authId, chainRef, merchantResult })
+    });
+  };
+
+  for (const { authId } of journal.unfinished()) {
+    if (!journal.acquire(authId)) continue;
+    recoverExecution(authId)
+      .then((recovered) => {
+        console.log(
+          `[payment-relayer] unfinished execution ${authId} ${recovered ? `recovered as ${recovered.response.status}` : 'never paid; cleared'}`
+        );
+      })
+      .catch((error) => {
+        console.warn(`[payment-relayer] unfinished execution ${authId} unresolved`, formatFailureReason(error));
+      })
+      .finally(() => journal.release(authId));
+  }
+
   app.get('/health', (_req, res) => {
     res.json({
       ok: true,
       chainRef,
       sequencerUrl,
       payoutMode,
-      knownSequencerKeyIds: Object.keys(sequencerKeyMap),
+      knownSequencerKeyIds: sequencerKeys.knownKeyIds(),
       evmKeyConfigured: Boolean(sanitizeEvmPrivateKey(process.env.RELAYER_EVM_PRIVATE_KEY)),
       evmKeyValid: evmPrivateKeyValid
     });
@@ -461,10 +372,22 @@ async function main(): Promise<void> {
 
   app.get('/metrics', (_req, res) => {
     const uptimeSeconds = Math.floor(Date.now() / 1000) - metrics.startedAtSeconds;
+    const outbox = reportOutbox.stats();
+    const executions = journal.stats();
     res.json({
       relay_pay_requests_total: metrics.relayPayRequestsTotal,
       relay_pay_failures_total: metrics.relayPayFailuresTotal,
-      sequencer_report_retries_total: metrics.sequencerReportRetriesTotal,
+      relay_pay_replays_total: metrics.relayPayReplaysTotal,
+      execution_journal_completed: executions.completed,
+      execution_journal_unfinished: executions.unfinished,
+      execution_journal_in_flight: executions.inFlight,
+      executions_recovered_total: metrics.executionsRecoveredTotal,
+      sequencer_report_retries_total: outbox.failedAttemptsTotal,
+      report_outbox_depth: outbox.depth,
+      report_outbox_delivered_total: outbox.deliveredTotal,
+      report_outbox_rejected_total: outbox.rejectedTotal,
+      dispute_evidence_entries: disputes.size(),
+      dispute_evidence_submitted_total: metrics.disputeEvidenceSubmittedTotal,
       uptime_seconds: uptimeSeconds
     });
   });
@@ -472,6 +395,7 @@ async function main(): Promise<void> {
   app.post(RELAYER_ROUTES_V1.pay, async (req, res) => {
     metrics.relayPayRequestsTotal += 1;
     let payload: RelayPayRequestV1 | null = null;
+    let lockedAuthId: Hex | null = null;
     try {
       const callerToken = req.header('x-relayer-auth-token') ?? undefined;
       if (!isRelayCallerAuthorized(callerAuthToken, callerToken)) {
@@ -480,10 +404,9 @@ async function main(): Promise<void> {
         return;
       }
       payload = parseRelayPayRequest(req.body);
-      verifySequencerSignature({
+      await sequencerKeys.verify({
         authorization: payload.authorization,
-        sequencerSig: normalizeHex(payload.sequencerSig),
-        keyMap: sequencerKeyMap
+        sequencerSig: normalizeHex(payload.sequencerSig)
       });
 
       if (payload.authorization.chainRef !== chainRef) {
@@ -491,63 +414,58 @@ async function main(): Promise<void> {
           `authorization chainRef mismatch: expected ${chainRef}, got ${payload.authorization.chainRef}`
         );
       }
+
+      const authId = normalizeHex(payload.authorization.authId);
+      const replay = (): boolean => {
+        const entry = journal.get(authId);
+        if (entry?.state !== 'COMPLETED') return false;
+        metrics.relayPayReplaysTotal += 1;
+        res.status(entry.httpStatus).json(entry.response);
+        return true;
+      };
+      if (replay()) return;
+      if (!journal.acquire(authId)) {
+        metrics.relayPayFailuresTotal += 1;
+        const inProgress: RelayPayResponseV1 = {
+          executionTxHash: ZERO_HASH,
+          authId,
+          status: 'FAILED',
+          failureReason: 'execution already in progress for authId'
+        };
+        res.status(409).json(inProgress);
+        return;
+      }
+      lockedAuthId = authId;
+      if (replay()) return;
+      if (journal.get(authId)?.state === 'STARTED') {
+        const recovered = await recoverExecution(authId);
+        if (recovered) {
+          res.status(recovered.httpStatus).json(recovered.response);
+          return;
+        }
+      }
+
       if (nowSeconds() > BigInt(payload.authorization.expiresAt)) {
         throw new Error('authorization expired');
       }
 
-      const merchantResult = await executeMerchantRequest({
+      const authorization = payload.authorization;
+      const payoutAddress = payoutAdapter.requiresPayoutAddress
+        ? await merchantPayouts.resolve({ merchantId: authorization.merchantId, chainRef })
+        : undefined;
+      const { merchantResult, executionTxHash } = await runPayout({
+        adapter: payoutAdapter,
         request: payload.merchantRequest,
-        staticHeaders,
-        payoutMode,
-        allowedHosts,
-        timeoutMs,
-        maxResponseBytes
-      });
-
-      const executionTxHash = deriveExecutionTxHash({
-        authId: normalizeHex(payload.authorization.authId),
-        chainRef,
-        payoutMode,
-        merchantResult
-      });
-
-      const reportStatus = merchantResult.status < 400 ? 'SUCCESS' : 'FAILED';
-      const report = createExecutionReport({
-        authId: normalizeHex(payload.authorization.authId),
-        chainRef,
-        executionTxHash,
-        status: reportStatus,
-        relayerKeyId,
-        privateKey: relayerPrivateKey
+        context: {
+          chainRef,
+          authorization,
+          ...(payoutAddress ? { payoutAddress } : {})
+        },
+        beforeExecute: (recovery) => journal.start(authId, { authorization, recovery })
       });
 
-      let reportAttempts = 0;
-      while (true) {
-        try {
-          await reportExecution({
-            sequencerUrl,
-            report
-          });
-          break;
-        } catch (error) {
-          reportAttempts += 1;
-          metrics.sequencerReportRetriesTotal += 1;
-          if (reportAttempts >= 3) {
-            throw error;
-          }
-          await new Promise((resolve) => setTimeout(resolve, 250 * reportAttempts));
-        }
-      }
-
-      const response: RelayPayResponseV1 = {
-        executionTxHash,
-        authId: normalizeHex(payload.authorization.authId),
-        status: merchantResult.status < 400 ? 'DONE' : 'FAILED',
-        ...(merchantResult.status < 400
-          ? { merchantResult }
-          : { failureReason: `merchant status ${merchantResult.status}` })
-      };
-      res.status(response.status === 'DONE' ? 200 : 422).json(response);
+      const completed = await settleExecution({ authorization, merchantResult, executionTxHash });
+      res.status(completed.httpStatus).json(completed.response);
     } catch (error) {
       metrics.relayPayFailuresTotal += 1;
       const failure: RelayPayResponseV1 = {
@@ -557,6 +475,8 @@ async function main(): Promise<void> {
         failureReason: formatFailureReason(error)
       };
       res.status(422).json(failure);
+    } finally {
+      if (lockedAuthId) journal.release(lockedAuthId);
     }
   });
 
@@ -571,6 +491,9 @@ async function main(): Promise<void> {
 
   const shutdown = async (signal: string): Promise<void> => {
     console.log(`[payment-relayer] ${signal} received, shutting down`);
+    clearInterval(sequencerKeysInterval);
+    clearInterval(disputeInterval);
+    clearInterval(reportOutboxInterval);
     await new Promise<void>((resolve) => {
       server.close(() => resolve());
     });
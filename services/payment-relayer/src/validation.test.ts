@@ -30,6 +30,31 @@ describe('payment-relayer validation', () => {
     expect(parsed.merchantRequest.method).toBe('POST');
   });
 
+  it('accepts version 2 authorizations carrying a relayer fee', () => {
+    const parsed = parseRelayPayRequest({
+      authorization: {
+        version: 2,
+        intentId: '0x' + '11'.repeat(32),
+        authId: '0x' + '22'.repeat(32),
+        authorizedAmountMicros: '1000',
+        feeMicros: '20',
+        agentId: '0x' + '33'.repeat(32),
+        agentNonce: '1',
+        merchantId: '0x' + '44'.repeat(32),
+        chainRef: 'solana:devnet',
+        issuedAt: '1735689500',
+        expiresAt: '1735689600',
+        sequencerEpochHint: '1',
+        logSeqNo: '1',
+        sequencerKeyId: 'seq-key-1'
+      },
+      sequencerSig: '0x' + 'aa'.repeat(64),
+      merchantRequest: { url: 'https://merchant.example/pay', method: 'POST' }
+    });
+
+    expect(parsed.authorization.feeMicros).toBe('20');
+  });
+
   it('rejects malformed payload', () => {
     expect(() => parseRelayPayRequest(null)).toThrow('expected object');
   });
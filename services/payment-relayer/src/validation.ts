@@ -29,10 +29,11 @@ const relayPayRequestSchema = z
   .object({
     authorization: z
       .object({
-        version: z.literal(1),
+        version: z.union([z.literal(1), z.literal(2)]),
         intentId: hex32Schema,
         authId: hex32Schema,
         authorizedAmountMicros: nonEmptyStringSchema,
+        feeMicros: nonEmptyStringSchema.optional(),
         agentId: hex32Schema,
         agentNonce: nonEmptyStringSchema,
         merchantId: hex32Schema,